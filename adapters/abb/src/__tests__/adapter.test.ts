@@ -0,0 +1,222 @@
+import {
+  AuthenticationType,
+  ConnectionProtocol,
+  ConnectionStatus,
+  RobotCommandType,
+  VendorConnection,
+  VendorConnectionConfig,
+  VendorEvent,
+  VendorEventType,
+} from '@urfmp/types'
+import { ABBAdapter, quaternionToEulerZYX } from '../adapter'
+import { FakeRWSServer } from './rws-server'
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+  const deadline = Date.now() + timeout
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+describe('ABBAdapter', () => {
+  let server: FakeRWSServer
+  let adapter: ABBAdapter
+  let connection: VendorConnection | undefined
+  let port: number
+
+  const config = (overrides: Partial<VendorConnectionConfig> = {}): VendorConnectionConfig => ({
+    host: '127.0.0.1',
+    port,
+    protocol: ConnectionProtocol.HTTP,
+    timeout: 1000,
+    authentication: {
+      type: AuthenticationType.DIGEST,
+      credentials: { username: 'Default User', password: 'robotics' },
+    },
+    ...overrides,
+  })
+
+  const send = (type: RobotCommandType, payload: Record<string, any> = {}) =>
+    adapter.sendCommand(connection!.id, { id: `cmd-${type}`, type, payload } as any)
+
+  beforeEach(async () => {
+    server = new FakeRWSServer()
+    port = await server.start()
+    adapter = new ABBAdapter()
+  })
+
+  afterEach(async () => {
+    if (connection) {
+      await adapter.disconnect(connection.id).catch(() => undefined)
+      connection = undefined
+    }
+    await server.stop()
+  })
+
+  it('should map positions and controller state into telemetry', async () => {
+    server.state.robtarget = { ...server.state.robtarget, q1: 0.7071068, q4: 0.7071068 }
+    connection = await adapter.connect(config())
+
+    const telemetry = await adapter.getTelemetry(connection.id)
+    const info = await adapter.getRobotInfo(connection.id)
+
+    expect(connection.robotId).toBe('12-34567')
+    expect(telemetry.data.jointAngles).toEqual({
+      joint1: 0,
+      joint2: -20.5,
+      joint3: 30,
+      joint4: 0,
+      joint5: 45,
+      joint6: 90,
+      unit: 'degrees',
+    })
+    expect(telemetry.data.position).toMatchObject({ x: 500, y: 0, z: 600, frame: 'base' })
+    expect(telemetry.data.position?.rz).toBeCloseTo(90)
+    expect(telemetry.data.safety).toEqual({
+      emergencyStop: false,
+      protectiveStop: false,
+      reducedMode: false,
+      safetyZoneViolation: false,
+    })
+    expect(telemetry.data.custom).toMatchObject({
+      controllerState: 'motoroff',
+      operationMode: 'AUTO',
+      rapidExecution: 'stopped',
+      speedRatio: 100,
+    })
+    expect(info).toMatchObject({
+      model: 'IRB 1200-7/0.7',
+      serialNumber: '12-34567',
+      firmwareVersion: '6.15.04',
+      manufacturer: 'ABB',
+      status: 'stopped',
+    })
+  })
+
+  it('should switch motors and run RAPID through commands', async () => {
+    connection = await adapter.connect(config())
+
+    expect((await send(RobotCommandType.CUSTOM, { action: 'motors_on' })).success).toBe(true)
+    expect((await send(RobotCommandType.START)).success).toBe(true)
+    expect(server.state).toMatchObject({ ctrlstate: 'motoron', ctrlexecstate: 'running' })
+
+    expect((await send(RobotCommandType.SET_SPEED, { speed: 25 })).success).toBe(true)
+    expect(server.state.speedratio).toBe(25)
+
+    expect((await send(RobotCommandType.STOP)).success).toBe(true)
+    expect((await send(RobotCommandType.RESET)).success).toBe(true)
+    expect((await send(RobotCommandType.CUSTOM, { action: 'motors_off' })).success).toBe(true)
+    expect(server.state).toMatchObject({ ctrlstate: 'motoroff', ctrlexecstate: 'stopped' })
+
+    const refused = await send(RobotCommandType.START)
+    expect(refused).toMatchObject({ success: false, error: 'start failed: 400 Motors are off' })
+
+    const unsupported = await send(RobotCommandType.MOVE_TO_POSITION)
+    expect(unsupported).toMatchObject({
+      success: false,
+      error: 'Unsupported command type: move_to_position',
+    })
+  })
+
+  it('should emit state changes with the previous and new value', async () => {
+    connection = await adapter.connect(config())
+    const events: VendorEvent[] = []
+    await adapter.subscribeToEvents(connection.id, (event) => events.push(event))
+
+    server.set('ctrlstate', 'motoron')
+    server.set('ctrlexecstate', 'running')
+    server.set('opmode', 'MANR')
+    server.set('ctrlstate', 'emergencystop')
+    await waitFor(() => events.length === 4)
+
+    expect(events.map((event) => event.type)).toEqual([
+      VendorEventType.STATUS_CHANGED,
+      VendorEventType.PROGRAM_STARTED,
+      VendorEventType.MODE_CHANGED,
+      VendorEventType.EMERGENCY_STOP,
+    ])
+    expect(events[3]).toMatchObject({
+      robotId: '12-34567',
+      source: 'abb_rws',
+      data: { field: 'controllerState', previous: 'motoron', value: 'emergencystop' },
+    })
+
+    const telemetry = await adapter.getTelemetry(connection.id)
+    expect(telemetry.data.safety).toMatchObject({ emergencyStop: true, reducedMode: true })
+  })
+
+  it('should turn event log messages into events', async () => {
+    connection = await adapter.connect(config())
+    const events: VendorEvent[] = []
+    await adapter.subscribeToEvents(connection.id, (event) => events.push(event))
+
+    server.addElogMessage({
+      msgtype: 3,
+      code: 50204,
+      title: 'Motion supervision',
+      desc: 'Motion supervision triggered for axis 2',
+    })
+    server.addElogMessage({ msgtype: 2, code: 10106, title: 'Service interval warning' })
+    await waitFor(() => events.length === 2)
+
+    expect(events.map((event) => event.type).sort()).toEqual([
+      VendorEventType.ERROR_OCCURRED,
+      VendorEventType.WARNING_ISSUED,
+    ])
+    expect(events.find((event) => event.type === VendorEventType.ERROR_OCCURRED)).toMatchObject({
+      data: {
+        code: 50204,
+        severity: 'error',
+        title: 'Motion supervision',
+        description: 'Motion supervision triggered for axis 2',
+      },
+      timestamp: new Date(2024, 2, 5, 14, 15, 29),
+    })
+  })
+
+  it('should put the connection in error when the subscription socket closes', async () => {
+    connection = await adapter.connect(config())
+
+    server.dropSubscriptions()
+    await waitFor(() => connection!.status === ConnectionStatus.ERROR)
+
+    expect(connection.metrics.errorCount).toBe(1)
+  })
+
+  it('should only accept digest authentication', async () => {
+    const validation = await adapter.validateConnection(
+      config({ authentication: { type: AuthenticationType.API_KEY, credentials: {} } })
+    )
+    const defaults = await adapter.validateConnection(config({ authentication: undefined }))
+
+    expect(validation.errors.map((error) => error.field)).toEqual(['authentication.type'])
+    expect(defaults.valid).toBe(true)
+    expect(defaults.warnings.map((warning) => warning.code)).toContain('DEFAULT_CREDENTIALS')
+  })
+
+  it('should reject time zones that are not IANA names', async () => {
+    const valid = await adapter.validateConnection(config({ options: { timeZone: 'Europe/Rome' } }))
+    const invalid = await adapter.validateConnection(config({ options: { timeZone: 'CEST+2' } }))
+
+    expect(valid.valid).toBe(true)
+    expect(invalid.errors.map((error) => error.code)).toEqual(['INVALID_TIME_ZONE'])
+  })
+
+  it('should convert ABB quaternions to Euler ZYX angles', () => {
+    const half = Math.SQRT1_2
+    const target = { x: 0, y: 0, z: 0, cf1: 0, cf4: 0, cf6: 0, cfx: 0 }
+
+    expect(quaternionToEulerZYX({ ...target, q1: 1, q2: 0, q3: 0, q4: 0 })).toEqual({
+      rx: 0,
+      ry: 0,
+      rz: 0,
+    })
+    const tool = quaternionToEulerZYX({ ...target, q1: 0, q2: half, q3: half, q4: 0 })
+    expect(tool.rx).toBeCloseTo(180)
+    expect(tool.ry).toBeCloseTo(0)
+    expect(Math.abs(tool.rz)).toBeCloseTo(90)
+  })
+})
@@ -0,0 +1,58 @@
+import { describeAdapterConformance } from '@urfmp/adapter-conformance'
+import { AuthenticationType, ConnectionProtocol, RobotCommandType } from '@urfmp/types'
+import { ABBAdapter } from '../adapter'
+import { adapterPlugin } from '../plugin'
+import { FakeRWSServer } from './rws-server'
+
+describeAdapterConformance({
+  name: 'ABBAdapter conformance',
+  createAdapter: () => new ABBAdapter(),
+  startEndpoint: async () => {
+    const server = new FakeRWSServer()
+    server.state.ctrlstate = 'motoron'
+    const port = await server.start()
+
+    return {
+      config: {
+        host: '127.0.0.1',
+        port,
+        protocol: ConnectionProtocol.HTTP,
+        timeout: 1000,
+        authentication: {
+          type: AuthenticationType.DIGEST,
+          credentials: { username: 'Default User', password: 'robotics' },
+        },
+      },
+      triggerEvent: () => {
+        server.set('speedratio', server.state.speedratio === 100 ? 50 : 100)
+      },
+      stop: () => server.stop(),
+    }
+  },
+  supportedCommand: { type: RobotCommandType.START },
+  invalidConfigs: [
+    {
+      config: { host: '127.0.0.1', port: 80, protocol: ConnectionProtocol.TCP },
+      field: 'protocol',
+    },
+    {
+      config: {
+        host: '127.0.0.1',
+        port: 80,
+        protocol: ConnectionProtocol.HTTP,
+        authentication: { type: AuthenticationType.DIGEST, credentials: { username: 'admin' } },
+      },
+      field: 'authentication.credentials.password',
+    },
+    {
+      config: {
+        host: '127.0.0.1',
+        port: 80,
+        protocol: ConnectionProtocol.HTTP,
+        options: { mechUnit: 'ROB 1' },
+      },
+      field: 'options.mechUnit',
+    },
+  ],
+  plugin: adapterPlugin,
+})
@@ -0,0 +1,202 @@
+import { digestAuthorization, parseDigestChallenge } from '../digest'
+import { RWSClient, parseElogTimestamp, parseNotifications } from '../rws-client'
+import { RWSElogMessageType, RWSNotification } from '../types'
+import { FakeRWSServer } from './rws-server'
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+  const deadline = Date.now() + timeout
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+describe('digest authentication', () => {
+  it('should parse the challenge of an IRC5 controller', () => {
+    expect(
+      parseDigestChallenge(
+        'Digest realm="validusers@robapi.abb", domain="127.0.0.1:80", qop="auth", ' +
+          'nonce="abc123", algorithm=MD5, stale=FALSE'
+      )
+    ).toEqual({
+      realm: 'validusers@robapi.abb',
+      nonce: 'abc123',
+      qop: 'auth',
+      opaque: undefined,
+      algorithm: 'MD5',
+    })
+    expect(parseDigestChallenge('Basic realm="x"')).toBeUndefined()
+  })
+
+  it('should answer with the RFC 2617 response', () => {
+    // Example from RFC 2617 section 3.5
+    const header = digestAuthorization(
+      { realm: 'testrealm@host.com', nonce: 'dcd98b7102dd2f0e8b11d0f600bfb0c093', qop: 'auth' },
+      { username: 'Mufasa', password: 'Circle Of Life' },
+      'GET',
+      '/dir/index.html',
+      1,
+      '0a4f113b'
+    )
+
+    expect(header).toContain('response="6629fae49393a05397450978507c4ef1"')
+    expect(header).toContain('nc=00000001')
+  })
+})
+
+describe('RWSClient', () => {
+  let server: FakeRWSServer
+  let client: RWSClient
+
+  beforeEach(async () => {
+    server = new FakeRWSServer()
+    const port = await server.start()
+    client = new RWSClient({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      username: 'Default User',
+      password: 'robotics',
+      timeout: 1000,
+      mechUnit: 'ROB_1',
+    })
+  })
+
+  afterEach(async () => {
+    await client.disconnect()
+    await server.stop()
+  })
+
+  it('should log in once and reuse the session cookie', async () => {
+    const identity = await client.connect()
+    await client.getControllerState()
+    await client.getExecution()
+
+    expect(identity).toEqual({
+      controllerName: 'IRC5-Cell7',
+      controllerId: '12-34567',
+      systemName: 'Cell7_System',
+      robotWareVersion: '6.15.04',
+      robotType: 'IRB 1200-7/0.7',
+    })
+    expect(server.logins).toBe(1)
+  })
+
+  it('should log in again when the controller dropped the session', async () => {
+    await client.connect()
+    server.expireSessions()
+
+    expect(await client.getOperationMode()).toBe('AUTO')
+    expect(server.logins).toBe(2)
+  })
+
+  it('should reject wrong credentials', async () => {
+    const strict = new FakeRWSServer({ username: 'Default User', password: 'secret' })
+    const port = await strict.start()
+    const other = new RWSClient({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      username: 'Default User',
+      password: 'robotics',
+      timeout: 1000,
+      mechUnit: 'ROB_1',
+    })
+
+    await expect(other.connect()).rejects.toThrow('Authentication failed for user Default User')
+    await strict.stop()
+  })
+
+  it('should read positions and drop unused external axes', async () => {
+    await client.connect()
+
+    expect(await client.getJointTarget()).toEqual({
+      joints: [0, -20.5, 30, 0, 45, 90],
+      externalAxes: [],
+    })
+    expect(await client.getRobTarget()).toMatchObject({ x: 500, y: 0, z: 600, q1: 1 })
+  })
+
+  it('should post RAPID and panel actions as forms', async () => {
+    await client.connect()
+
+    await client.setMotors(true)
+    await client.startExecution()
+    await client.resetProgramPointer().catch(() => undefined)
+
+    const posts = server.requests.filter((request) => request.method === 'POST')
+    expect(posts.map((request) => request.path)).toEqual([
+      '/rw/panel/ctrlstate',
+      '/rw/rapid/execution',
+      '/rw/mastership/rapid',
+      '/rw/rapid/execution',
+      '/rw/mastership/rapid',
+    ])
+    expect(posts[0].body).toBe('ctrl-state=motoron')
+    expect(server.state.ctrlexecstate).toBe('running')
+    expect(server.rapidMastership).toBe(false)
+  })
+
+  it('should report the controller error message of a refused action', async () => {
+    await client.connect()
+
+    await expect(client.startExecution()).rejects.toThrow('start failed: 400 Motors are off')
+  })
+
+  it('should deliver subscribed resource changes and event log messages', async () => {
+    await client.connect()
+    const notifications: RWSNotification[] = []
+    await client.subscribe(['/rw/panel/ctrlstate', '/rw/elog/0'], (notification) =>
+      notifications.push(notification)
+    )
+
+    server.set('ctrlstate', 'motoron')
+    const seqnum = server.addElogMessage({ msgtype: 3, code: 50056, title: 'Joint collision' })
+    await waitFor(() => notifications.length === 2)
+
+    expect(notifications[0]).toEqual({
+      resource: '/rw/panel/ctrlstate',
+      values: { ctrlstate: 'motoron' },
+    })
+    expect(notifications[1].resource).toBe(`/rw/elog/0/${seqnum}?lang=en`)
+    expect(await client.getElogMessage(0, seqnum)).toMatchObject({
+      sequenceNumber: seqnum,
+      type: RWSElogMessageType.ERROR,
+      code: 50056,
+      title: 'Joint collision',
+      timestamp: new Date(2024, 2, 5, 14, 15, 29),
+    })
+  })
+
+  it('should read event log times in the controller time zone', () => {
+    expect(parseElogTimestamp('2024-03-05 T  14:15:29', 'UTC')).toEqual(
+      new Date('2024-03-05T14:15:29Z')
+    )
+    expect(parseElogTimestamp('2024-03-05 T  14:15:29', 'Europe/Stockholm')).toEqual(
+      new Date('2024-03-05T13:15:29Z')
+    )
+    // Summer time
+    expect(parseElogTimestamp('2024-07-01 T  08:00:00', 'America/New_York')).toEqual(
+      new Date('2024-07-01T12:00:00Z')
+    )
+    expect(parseElogTimestamp('2024-03-05 T  14:15:29')).toEqual(new Date(2024, 2, 5, 14, 15, 29))
+  })
+
+  it('should parse every item of a subscription message', () => {
+    const message =
+      '<html><body><div class="state"><ul>' +
+      '<li class="pnl-opmode-ev" title="opmode"><a href="/rw/panel/opmode" rel="self"/>' +
+      '<span class="opmode">MANR</span></li>' +
+      '<li class="rap-ctrlexecstate-ev" title="ctrlexecstate">' +
+      '<a href="/rw/rapid/execution;ctrlexecstate" rel="self"/>' +
+      '<span class="ctrlexecstate">stopped</span></li>' +
+      '</ul></div></body></html>'
+
+    expect(parseNotifications(message)).toEqual([
+      { resource: '/rw/panel/opmode', values: { opmode: 'MANR' } },
+      { resource: '/rw/rapid/execution;ctrlexecstate', values: { ctrlexecstate: 'stopped' } },
+    ])
+  })
+})
@@ -0,0 +1,318 @@
+import * as crypto from 'crypto'
+import * as http from 'http'
+import { AddressInfo } from 'net'
+import WebSocket, { WebSocketServer } from 'ws'
+
+const REALM = 'validusers@robapi.abb'
+
+export interface FakeRWSState {
+  ctrlstate: string
+  opmode: string
+  speedratio: number
+  ctrlexecstate: string
+  joints: number[]
+  robtarget: Record<string, number>
+}
+
+export interface FakeElogMessage {
+  msgtype: number
+  code: number
+  title: string
+  desc?: string
+}
+
+/**
+ * Local stand-in for the Robot Web Services 1.0 server of an IRC5 controller. It answers the
+ * JSON (?json=1) flavour of the resources the adapter uses, authenticates with HTTP digest and
+ * session cookies, and pushes subscription events over a WebSocket in the XHTML format RWS uses.
+ */
+export class FakeRWSServer {
+  readonly requests: { method: string; path: string; body: string }[] = []
+  readonly state: FakeRWSState = {
+    ctrlstate: 'motoroff',
+    opmode: 'AUTO',
+    speedratio: 100,
+    ctrlexecstate: 'stopped',
+    joints: [0, -20.5, 30, 0, 45, 90],
+    robtarget: { x: 500, y: 0, z: 600, q1: 1, q2: 0, q3: 0, q4: 0, cf1: 0, cf4: 0, cf6: 0, cfx: 0 },
+  }
+  readonly elog: (FakeElogMessage & { seqnum: number })[] = []
+  logins = 0
+  rapidMastership = false
+
+  private server = http.createServer((request, response) => this.handle(request, response))
+  private webSockets = new WebSocketServer({
+    noServer: true,
+    handleProtocols: (protocols) =>
+      protocols.has('robapi2_subscription') ? 'robapi2_subscription' : false,
+  })
+  private sessions = new Set<string>()
+  private subscriptions = new Map<number, { resources: string[]; sockets: Set<WebSocket> }>()
+  private nextSubscription = 1
+  private credentials: { username: string; password: string }
+
+  constructor(credentials = { username: 'Default User', password: 'robotics' }) {
+    this.credentials = credentials
+    this.server.on('upgrade', (request, socket, head) => {
+      const id = Number(request.url?.match(/^\/poll\/(\d+)$/)?.[1])
+      const subscription = this.subscriptions.get(id)
+      if (!subscription || !this.hasSession(request)) {
+        socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n')
+        return
+      }
+      this.webSockets.handleUpgrade(request, socket, head, (webSocket) => {
+        subscription.sockets.add(webSocket)
+        webSocket.on('close', () => subscription.sockets.delete(webSocket))
+      })
+    })
+  }
+
+  async start(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve))
+    return (this.server.address() as AddressInfo).port
+  }
+
+  async stop(): Promise<void> {
+    this.webSockets.clients.forEach((client) => client.terminate())
+    this.server.closeAllConnections()
+    await new Promise<void>((resolve) => this.server.close(() => resolve()))
+  }
+
+  /**
+   * Change panel or RAPID state as the controller would and notify subscribers
+   */
+  set<K extends keyof FakeRWSState>(field: K, value: FakeRWSState[K]): void {
+    this.state[field] = value
+    switch (field) {
+      case 'ctrlstate':
+        this.notify('/rw/panel/ctrlstate', 'pnl-ctrlstate-ev', { ctrlstate: String(value) })
+        break
+      case 'opmode':
+        this.notify('/rw/panel/opmode', 'pnl-opmode-ev', { opmode: String(value) })
+        break
+      case 'speedratio':
+        this.notify('/rw/panel/speedratio', 'pnl-speedratio-ev', { speedratio: String(value) })
+        break
+      case 'ctrlexecstate':
+        this.notify('/rw/rapid/execution;ctrlexecstate', 'rap-ctrlexecstate-ev', {
+          ctrlexecstate: String(value),
+        })
+        break
+    }
+  }
+
+  addElogMessage(message: FakeElogMessage): number {
+    const seqnum = (this.elog[0]?.seqnum ?? 0) + 1
+    this.elog.unshift({ ...message, seqnum })
+    this.notify(`/rw/elog/0/${seqnum}?lang=en`, 'elog-message-ev', {}, '/rw/elog/0')
+    return seqnum
+  }
+
+  /**
+   * Drop every session, as a controller restart does
+   */
+  expireSessions(): void {
+    this.sessions.clear()
+  }
+
+  /**
+   * Close every subscription socket, as a network drop does
+   */
+  dropSubscriptions(): void {
+    this.webSockets.clients.forEach((client) => client.terminate())
+  }
+
+  private notify(
+    href: string,
+    className: string,
+    values: Record<string, string>,
+    resource = href
+  ): void {
+    const spans = Object.entries(values)
+      .map(([name, value]) => `<span class="${name}">${value}</span>`)
+      .join('')
+    const message =
+      '<?xml version="1.0" encoding="utf-8"?><html xmlns="http://www.w3.org/1999/xhtml">' +
+      '<head><base href="http://127.0.0.1/"/></head><body><div class="state">' +
+      `<a href="subscription/1" rel="group"></a><ul><li class="${className}" title="x">` +
+      `<a href="${href}" rel="self"/>${spans}</li></ul></div></body></html>`
+
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.resources.some((entry) => entry.split(';')[0] === resource.split(';')[0])) {
+        subscription.sockets.forEach((socket) => socket.send(message))
+      }
+    }
+  }
+
+  private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+    let body = ''
+    request.on('data', (chunk) => (body += chunk))
+    request.on('end', () => {
+      const url = new URL(request.url ?? '/', 'http://rws')
+      this.requests.push({ method: request.method ?? 'GET', path: url.pathname, body })
+
+      if (!this.hasSession(request) && !this.authenticate(request, response)) {
+        response.writeHead(401, {
+          'WWW-Authenticate':
+            `Digest realm="${REALM}", domain="127.0.0.1:80", qop="auth", ` +
+            `nonce="${crypto.randomBytes(12).toString('hex')}", algorithm=MD5, stale=FALSE`,
+        })
+        response.end()
+        return
+      }
+
+      const reply = (status: number, states?: Record<string, any>[]) => {
+        response.writeHead(status, { 'Content-Type': 'application/json' })
+        response.end(states ? JSON.stringify({ _embedded: { _state: states } }) : undefined)
+      }
+      const fail = (status: number, msg: string) => {
+        response.writeHead(status, { 'Content-Type': 'application/json' })
+        response.end(JSON.stringify({ status: { code: -1, msg } }))
+      }
+
+      const form = new URLSearchParams(body)
+      const action = url.searchParams.get('action')
+      const route = `${request.method} ${url.pathname}${action ? `?${action}` : ''}`
+
+      switch (route) {
+        case 'GET /ctrl/identity':
+          return reply(200, [
+            { _type: 'ctrl-identity-info', 'ctrl-name': 'IRC5-Cell7', 'ctrl-id': '12-34567' },
+          ])
+        case 'GET /rw/system':
+          return reply(200, [{ _type: 'sys-system', name: 'Cell7_System', rwversion: '6.15.04' }])
+        case 'GET /rw/system/robottype':
+          return reply(200, [{ _type: 'sys-robottype', 'robot-type': 'IRB 1200-7/0.7' }])
+        case 'GET /rw/panel/ctrlstate':
+          return reply(200, [{ _type: 'pnl-ctrlstate', ctrlstate: this.state.ctrlstate }])
+        case 'GET /rw/panel/opmode':
+          return reply(200, [{ _type: 'pnl-opmode', opmode: this.state.opmode }])
+        case 'GET /rw/panel/speedratio':
+          return reply(200, [
+            { _type: 'pnl-speedratio', speedratio: String(this.state.speedratio) },
+          ])
+        case 'GET /rw/rapid/execution':
+          return reply(200, [
+            { _type: 'rap-execution', ctrlexecstate: this.state.ctrlexecstate, cycle: 'forever' },
+          ])
+        case 'GET /rw/motionsystem/mechunits/ROB_1/jointtarget':
+          return reply(200, [
+            {
+              _type: 'ms-jointtarget',
+              ...Object.fromEntries(this.state.joints.map((value, i) => [`rax_${i + 1}`, value])),
+              ...Object.fromEntries(['a', 'b', 'c', 'd', 'e', 'f'].map((a) => [`eax_${a}`, 9e9])),
+            },
+          ])
+        case 'GET /rw/motionsystem/mechunits/ROB_1/robtarget':
+          return reply(200, [{ _type: 'ms-robtargets', ...this.state.robtarget }])
+        case 'GET /rw/elog/0':
+          return reply(
+            200,
+            this.elog.map((message) => this.elogState(message))
+          )
+        case 'GET /logout':
+          this.sessions.delete(this.sessionOf(request) ?? '')
+          return reply(204)
+
+        case 'POST /rw/rapid/execution?start':
+          if (this.state.ctrlstate !== 'motoron') {
+            return fail(400, 'Motors are off')
+          }
+          this.set('ctrlexecstate', 'running')
+          return reply(204)
+        case 'POST /rw/rapid/execution?stop':
+          this.set('ctrlexecstate', 'stopped')
+          return reply(204)
+        case 'POST /rw/rapid/execution?resetpp':
+          return this.rapidMastership ? reply(204) : fail(403, 'Mastership is held by another')
+        case 'POST /rw/mastership/rapid?request':
+          this.rapidMastership = true
+          return reply(204)
+        case 'POST /rw/mastership/rapid?release':
+          this.rapidMastership = false
+          return reply(204)
+        case 'POST /rw/panel/ctrlstate?setctrlstate':
+          if (!this.state.opmode.startsWith('AUTO')) {
+            return fail(403, 'Operation not allowed in manual mode')
+          }
+          this.set('ctrlstate', form.get('ctrl-state') ?? '')
+          return reply(204)
+        case 'POST /rw/panel/speedratio?setspeedratio':
+          this.set('speedratio', Number(form.get('speed-ratio')))
+          return reply(204)
+
+        case 'POST /subscription': {
+          const id = this.nextSubscription++
+          const resources = form.getAll('resources').map((index) => form.get(index) ?? '')
+          this.subscriptions.set(id, { resources, sockets: new Set() })
+          response.writeHead(201, { Location: `ws://127.0.0.1/poll/${id}` })
+          response.end()
+          return
+        }
+      }
+
+      const elogMessage = url.pathname.match(/^\/rw\/elog\/0\/(\d+)$/)
+      if (request.method === 'GET' && elogMessage) {
+        const message = this.elog.find((entry) => entry.seqnum === Number(elogMessage[1]))
+        return message ? reply(200, [this.elogState(message)]) : fail(404, 'Not found')
+      }
+
+      const subscription = url.pathname.match(/^\/subscription\/(\d+)$/)
+      if (request.method === 'DELETE' && subscription) {
+        this.subscriptions.delete(Number(subscription[1]))
+        return reply(200)
+      }
+
+      fail(404, `No resource ${route}`)
+    })
+  }
+
+  private elogState(message: FakeElogMessage & { seqnum: number }): Record<string, any> {
+    return {
+      _type: 'elog-message',
+      _title: `/rw/elog/0/${message.seqnum}`,
+      msgtype: String(message.msgtype),
+      code: String(message.code),
+      tstamp: '2024-03-05 T  14:15:29',
+      title: message.title,
+      desc: message.desc ?? '',
+    }
+  }
+
+  // Check a digest response and open a session, the way RWS hands out its cookies
+  private authenticate(request: http.IncomingMessage, response: http.ServerResponse): boolean {
+    const header = request.headers.authorization ?? ''
+    const params = Object.fromEntries(
+      [...header.matchAll(/(\w+)=(?:"([^"]*)"|([^\s,]+))/g)].map((m) => [m[1], m[2] ?? m[3]])
+    )
+    if (!header.startsWith('Digest ') || params.username !== this.credentials.username) {
+      return false
+    }
+
+    const md5 = (value: string) => crypto.createHash('md5').update(value).digest('hex')
+    const ha1 = md5(`${params.username}:${REALM}:${this.credentials.password}`)
+    const ha2 = md5(`${request.method}:${params.uri}`)
+    const expected = md5(`${ha1}:${params.nonce}:${params.nc}:${params.cnonce}:auth:${ha2}`)
+    if (params.response !== expected || params.uri !== request.url) {
+      return false
+    }
+
+    const session = crypto.randomBytes(8).toString('hex')
+    this.sessions.add(session)
+    this.logins++
+    response.setHeader('Set-Cookie', [
+      `-http-session-=${session}; path=/; domain=127.0.0.1; httponly`,
+      `ABBCX=${this.logins}; path=/; domain=127.0.0.1; httponly`,
+    ])
+    return true
+  }
+
+  private hasSession(request: http.IncomingMessage): boolean {
+    const session = this.sessionOf(request)
+    return session !== undefined && this.sessions.has(session)
+  }
+
+  private sessionOf(request: http.IncomingMessage): string | undefined {
+    return request.headers.cookie?.match(/-http-session-=([^;]+)/)?.[1]
+  }
+}
@@ -0,0 +1,631 @@
+import {
+  IRobotVendorAdapter,
+  BaseVendorAdapter,
+  RobotVendor,
+  VendorConnectionConfig,
+  VendorConnection,
+  RobotCommand,
+  RobotCommandType,
+  CommandResult,
+  RobotTelemetry,
+  RobotInfo,
+  RobotCapability,
+  RobotSpecifications,
+  RobotStatus,
+  EventCallback,
+  EventSubscription,
+  VendorEvent,
+  VendorEventType,
+  ValidationResult,
+  ValidationError,
+  ValidationWarning,
+  VendorFeatures,
+  AuthenticationType,
+  ConnectionProtocol,
+  ConnectionStatus,
+  TelemetrySource,
+  DataQuality,
+  AngleUnit,
+  CoordinateFrame,
+  ExecutionMode,
+  TemperatureUnit,
+} from '@urfmp/types'
+
+import { isTimeZone, RWSClient } from './rws-client'
+import {
+  RWSConfig,
+  RWSControllerIdentity,
+  RWSControllerState,
+  RWSElogMessage,
+  RWSElogMessageType,
+  RWSExecutionState,
+  RWSNotification,
+  RWSOperationMode,
+  RWSRobTarget,
+} from './types'
+
+const DEFAULT_USERNAME = 'Default User' // Factory user of every IRC5
+const DEFAULT_PASSWORD = 'robotics'
+const DEFAULT_MECH_UNIT = 'ROB_1'
+const ELOG_DOMAIN = 0 // Common domain, every other domain's messages are copied here
+
+// Resources pushed over the subscription socket
+const SUBSCRIBED_RESOURCES = [
+  '/rw/panel/ctrlstate',
+  '/rw/panel/opmode',
+  '/rw/panel/speedratio',
+  '/rw/rapid/execution;ctrlexecstate',
+  `/rw/elog/${ELOG_DOMAIN}`,
+]
+
+interface ABBControllerStatus {
+  controllerState: RWSControllerState
+  operationMode: RWSOperationMode
+  speedRatio: number
+  execution: RWSExecutionState
+}
+
+interface ABBConnectionState {
+  client: RWSClient
+  identity: RWSControllerIdentity
+  status: ABBControllerStatus // Kept current by the subscription
+  listeners: Map<string, EventCallback> // By subscription id
+}
+
+/**
+ * Adapter for ABB IRC5 controllers over Robot Web Services 1.0. Positions are read on request,
+ * panel and RAPID state changes and event log messages arrive over the RWS subscription.
+ */
+export class ABBAdapter extends BaseVendorAdapter implements IRobotVendorAdapter {
+  vendor = RobotVendor.ABB
+
+  private states = new Map<string, ABBConnectionState>()
+  private connections = new Map<string, VendorConnection>()
+  private eventSubscriptions = new Map<string, EventSubscription>()
+
+  async connect(config: VendorConnectionConfig): Promise<VendorConnection> {
+    const validation = await this.validateConnection(config)
+    if (!validation.valid) {
+      throw new Error(
+        `Invalid configuration: ${validation.errors.map((e) => e.message).join(', ')}`
+      )
+    }
+
+    const rwsConfig = this.toRWSConfig(config)
+    const client = new RWSClient(rwsConfig)
+
+    const connection = this.createConnection(config)
+    connection.status = ConnectionStatus.CONNECTING
+
+    try {
+      const identity = await client.connect()
+      const state: ABBConnectionState = {
+        client,
+        identity,
+        status: {
+          controllerState: await client.getControllerState(),
+          operationMode: await client.getOperationMode(),
+          speedRatio: await client.getSpeedRatio(),
+          execution: (await client.getExecution()).state,
+        },
+        listeners: new Map(),
+      }
+
+      connection.robotId =
+        identity.controllerId || identity.systemName || `abb-${rwsConfig.host}-${rwsConfig.port}`
+
+      await client.subscribe(SUBSCRIBED_RESOURCES, (notification) =>
+        this.handleNotification(connection, state, notification)
+      )
+
+      connection.status = ConnectionStatus.CONNECTED
+      connection.connectedAt = new Date()
+      // Without the subscription no state changes or event log messages arrive
+      client.onSubscriptionClosed(() => this.markConnectionLost(connection))
+
+      this.states.set(connection.id, state)
+      this.connections.set(connection.id, connection)
+
+      console.log(
+        `✅ Connected to ABB controller ${identity.controllerName || rwsConfig.host}` +
+          ` (RobotWare ${identity.robotWareVersion})`
+      )
+      return connection
+    } catch (error) {
+      await client.disconnect()
+      connection.status = ConnectionStatus.ERROR
+      throw new Error(`Failed to connect to ABB controller: ${(error as Error).message}`)
+    }
+  }
+
+  async disconnect(connectionId: string): Promise<void> {
+    const connection = this.connections.get(connectionId)
+    if (!connection) {
+      throw new Error(`Connection ${connectionId} not found`)
+    }
+
+    const state = this.states.get(connectionId)
+    if (state) {
+      state.listeners.clear()
+      await state.client.disconnect()
+      this.states.delete(connectionId)
+    }
+
+    for (const [id, subscription] of this.eventSubscriptions) {
+      if (subscription.connectionId === connectionId) {
+        subscription.active = false
+        this.eventSubscriptions.delete(id)
+      }
+    }
+
+    connection.status = ConnectionStatus.DISCONNECTED
+    this.connections.delete(connectionId)
+
+    console.log(`✅ Disconnected from ABB controller (${connectionId})`)
+  }
+
+  async sendCommand(connectionId: string, command: RobotCommand): Promise<CommandResult> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    const client = state.client
+    const startTime = Date.now()
+
+    try {
+      let result: any
+
+      switch (command.type) {
+        case RobotCommandType.START:
+        case RobotCommandType.RESUME:
+          await client.startExecution()
+          result = { message: 'RAPID execution started' }
+          break
+
+        case RobotCommandType.STOP:
+        case RobotCommandType.PAUSE:
+          await client.stopExecution()
+          result = { message: 'RAPID execution stopped' }
+          break
+
+        case RobotCommandType.RESET:
+          await client.resetProgramPointer()
+          result = { message: 'Program pointer reset to main' }
+          break
+
+        case RobotCommandType.SET_SPEED:
+          if (command.payload?.speed === undefined) {
+            throw new Error('Speed is required for SET_SPEED command')
+          }
+          await client.setSpeedRatio(command.payload.speed)
+          result = { message: `Speed ratio set to ${command.payload.speed}%` }
+          break
+
+        case RobotCommandType.CUSTOM:
+          result = await this.runControllerAction(client, command.payload ?? {})
+          break
+
+        default:
+          throw new Error(`Unsupported command type: ${command.type}`)
+      }
+
+      return {
+        success: true,
+        commandId: command.id || `cmd-${Date.now()}`,
+        result,
+        executionTime: Date.now() - startTime,
+        timestamp: new Date(),
+      }
+    } catch (error) {
+      return {
+        success: false,
+        commandId: command.id || `cmd-${Date.now()}`,
+        error: (error as Error).message,
+        executionTime: Date.now() - startTime,
+        timestamp: new Date(),
+      }
+    }
+  }
+
+  async getTelemetry(connectionId: string): Promise<RobotTelemetry> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    try {
+      const jointTarget = await state.client.getJointTarget()
+      const robTarget = await state.client.getRobTarget()
+      const { controllerState, operationMode, speedRatio, execution } = state.status
+      const [joint1, joint2, joint3, joint4, joint5, joint6] = jointTarget.joints
+
+      return {
+        id: `tel-${Date.now()}`,
+        robotId: connection.robotId,
+        timestamp: new Date(),
+        data: {
+          position: {
+            x: robTarget.x,
+            y: robTarget.y,
+            z: robTarget.z,
+            ...quaternionToEulerZYX(robTarget),
+            frame: CoordinateFrame.BASE,
+          },
+          jointAngles: { joint1, joint2, joint3, joint4, joint5, joint6, unit: AngleUnit.DEGREES },
+          programState: {
+            executionMode: operationMode.startsWith('AUTO')
+              ? ExecutionMode.AUTOMATIC
+              : ExecutionMode.MANUAL,
+          },
+          safety: {
+            emergencyStop: controllerState === 'emergencystop',
+            protectiveStop: controllerState === 'guardstop',
+            reducedMode: operationMode === 'MANR',
+            safetyZoneViolation: false,
+          },
+          custom: {
+            controllerState,
+            operationMode,
+            rapidExecution: execution,
+            speedRatio,
+            axisConfiguration: {
+              cf1: robTarget.cf1,
+              cf4: robTarget.cf4,
+              cf6: robTarget.cf6,
+              cfx: robTarget.cfx,
+            },
+            externalAxes: jointTarget.externalAxes,
+          },
+        },
+        metadata: {
+          source: TelemetrySource.ROBOT_CONTROLLER,
+          quality: DataQuality.HIGH,
+        },
+      }
+    } catch (error) {
+      throw new Error(`Failed to get telemetry: ${(error as Error).message}`)
+    }
+  }
+
+  async getRobotInfo(connectionId: string): Promise<RobotInfo> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    const { identity, status } = state
+    return {
+      model: identity.robotType || 'ABB IRB',
+      serialNumber: identity.controllerId || connection.robotId,
+      firmwareVersion: identity.robotWareVersion || 'Unknown',
+      manufacturer: 'ABB',
+      capabilities: [
+        'material_handling' as RobotCapability,
+        'machine_tending' as RobotCapability,
+        'assembly' as RobotCapability,
+      ],
+      specifications: this.getSpecifications(),
+      status: this.mapRobotStatus(status),
+    }
+  }
+
+  async subscribeToEvents(
+    connectionId: string,
+    callback: EventCallback
+  ): Promise<EventSubscription> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    const subscriptionId = `sub-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+
+    const subscription: EventSubscription = {
+      id: subscriptionId,
+      userId: '',
+      organizationId: '',
+      name: `ABB Events ${connectionId}`,
+      filter: { types: [] },
+      channels: [],
+      enabled: true,
+      connectionId,
+      active: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+
+    // The RWS subscription opened on connect feeds every listener of the connection
+    state.listeners.set(subscriptionId, callback)
+    this.eventSubscriptions.set(subscriptionId, subscription)
+    return subscription
+  }
+
+  async unsubscribeFromEvents(subscriptionId: string): Promise<void> {
+    const subscription = this.eventSubscriptions.get(subscriptionId)
+    if (subscription) {
+      subscription.active = false
+      this.states.get(subscription.connectionId!)?.listeners.delete(subscriptionId)
+      this.eventSubscriptions.delete(subscriptionId)
+    }
+  }
+
+  async validateConnection(config: VendorConnectionConfig): Promise<ValidationResult> {
+    const baseValidation = this.validateConfig(config)
+    const errors: ValidationError[] = [...baseValidation.errors]
+    const warnings: ValidationWarning[] = [...baseValidation.warnings]
+
+    if (
+      config.protocol !== ConnectionProtocol.HTTP &&
+      config.protocol !== ConnectionProtocol.HTTPS
+    ) {
+      errors.push({
+        field: 'protocol',
+        message: 'Robot Web Services are reached over http or https',
+        code: 'UNSUPPORTED_PROTOCOL',
+      })
+    }
+
+    const credentials = config.authentication?.credentials ?? {}
+    switch (config.authentication?.type) {
+      case undefined:
+        warnings.push({
+          field: 'authentication',
+          message: 'No credentials given, using the factory default user',
+          code: 'DEFAULT_CREDENTIALS',
+        })
+        break
+      case AuthenticationType.DIGEST:
+        for (const field of ['username', 'password']) {
+          if (typeof credentials[field] !== 'string') {
+            errors.push({
+              field: `authentication.credentials.${field}`,
+              message: `${field} is required for digest authentication`,
+              code: 'REQUIRED_FIELD',
+            })
+          }
+        }
+        break
+      default:
+        errors.push({
+          field: 'authentication.type',
+          message: 'Robot Web Services 1.0 uses digest authentication',
+          code: 'UNSUPPORTED_AUTHENTICATION',
+        })
+    }
+
+    const mechUnit = config.options?.mechUnit
+    if (mechUnit !== undefined && (typeof mechUnit !== 'string' || !/^\w+$/.test(mechUnit))) {
+      errors.push({
+        field: 'options.mechUnit',
+        message: 'Mechanical unit must be a RAPID name such as ROB_1',
+        code: 'INVALID_MECH_UNIT',
+      })
+    }
+
+    const timeZone = config.options?.timeZone
+    if (timeZone !== undefined && !isTimeZone(timeZone)) {
+      errors.push({
+        field: 'options.timeZone',
+        message: 'Time zone must be an IANA name such as Europe/Stockholm',
+        code: 'INVALID_TIME_ZONE',
+      })
+    }
+
+    if (config.port && ![80, 443].includes(config.port)) {
+      warnings.push({
+        field: 'port',
+        message: 'Robot Web Services listen on port 80 (443 with https)',
+        code: 'NON_STANDARD_PORT',
+      })
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+    }
+  }
+
+  getSupportedFeatures(): VendorFeatures {
+    return {
+      supportsRealTimeControl: false,
+      supportsFileTransfer: false,
+      supportsRemoteAccess: true,
+      supportsVideoStream: false,
+      supportsForceControl: false,
+      supportsCollisionDetection: false,
+      supportsSafetyMonitoring: true,
+      supportsPathPlanning: false,
+      supportsCalibration: false,
+      supportsOTA: false,
+      customFeatures: ['robot_web_services', 'rapid_execution', 'event_log', 'motors_on_off'],
+    }
+  }
+
+  // Private helper methods
+
+  private toRWSConfig(config: VendorConnectionConfig): RWSConfig {
+    const secure = config.protocol === ConnectionProtocol.HTTPS
+    const credentials = config.authentication?.credentials ?? {}
+
+    return {
+      host: config.host,
+      port: config.port || (secure ? 443 : 80),
+      secure,
+      username: credentials.username ?? DEFAULT_USERNAME,
+      password: credentials.password ?? DEFAULT_PASSWORD,
+      timeout: config.timeout || 5000,
+      mechUnit: config.options?.mechUnit ?? DEFAULT_MECH_UNIT,
+      timeZone: config.options?.timeZone,
+    }
+  }
+
+  private handleNotification(
+    connection: VendorConnection,
+    state: ABBConnectionState,
+    notification: RWSNotification
+  ): void {
+    const { resource, values } = notification
+    const status = state.status
+    const emit = (type: VendorEventType, data: Record<string, any>, timestamp = new Date()) => {
+      const event = this.toVendorEvent(connection.robotId, type, data, timestamp)
+      state.listeners.forEach((callback) => callback(event))
+    }
+    const change = <K extends keyof ABBControllerStatus>(
+      field: K,
+      value: ABBControllerStatus[K],
+      type: VendorEventType
+    ) => {
+      const previous = status[field]
+      if (previous === value) {
+        return
+      }
+      status[field] = value
+      emit(type, { resource, field, previous, value })
+    }
+
+    if (resource.startsWith('/rw/panel/ctrlstate') && values.ctrlstate) {
+      const value = values.ctrlstate as RWSControllerState
+      const type =
+        value === 'emergencystop'
+          ? VendorEventType.EMERGENCY_STOP
+          : value === 'guardstop'
+            ? VendorEventType.SAFETY_VIOLATION
+            : VendorEventType.STATUS_CHANGED
+      change('controllerState', value, type)
+    } else if (resource.startsWith('/rw/panel/opmode') && values.opmode) {
+      change('operationMode', values.opmode as RWSOperationMode, VendorEventType.MODE_CHANGED)
+    } else if (resource.startsWith('/rw/panel/speedratio') && values.speedratio) {
+      change('speedRatio', Number(values.speedratio), VendorEventType.SPEED_CHANGED)
+    } else if (resource.startsWith('/rw/rapid/execution') && values.ctrlexecstate) {
+      const value = values.ctrlexecstate as RWSExecutionState
+      const type =
+        value === 'running' ? VendorEventType.PROGRAM_STARTED : VendorEventType.PROGRAM_STOPPED
+      change('execution', value, type)
+    } else if (resource.startsWith(`/rw/elog/${ELOG_DOMAIN}/`)) {
+      // The notification only names the new message, its text needs a request of its own
+      const sequenceNumber = Number(new URL(resource, 'http://rws').pathname.split('/').pop())
+      state.client
+        .getElogMessage(ELOG_DOMAIN, sequenceNumber)
+        .then((message) =>
+          emit(this.elogEventType(message), this.elogEventData(message), message.timestamp)
+        )
+        .catch((error) =>
+          console.error(`Failed to read event log message ${sequenceNumber}:`, error.message)
+        )
+    }
+  }
+
+  private elogEventType(message: RWSElogMessage): VendorEventType {
+    switch (message.type) {
+      case RWSElogMessageType.ERROR:
+        return VendorEventType.ERROR_OCCURRED
+      case RWSElogMessageType.WARNING:
+        return VendorEventType.WARNING_ISSUED
+      default:
+        return VendorEventType.STATUS_CHANGED
+    }
+  }
+
+  private elogEventData(message: RWSElogMessage): Record<string, any> {
+    return {
+      domain: ELOG_DOMAIN,
+      sequenceNumber: message.sequenceNumber,
+      code: message.code,
+      severity: RWSElogMessageType[message.type]?.toLowerCase(),
+      title: message.title,
+      description: message.description,
+      causes: message.causes,
+      actions: message.actions,
+    }
+  }
+
+  private toVendorEvent(
+    robotId: string,
+    type: VendorEventType,
+    data: Record<string, any>,
+    timestamp: Date
+  ): VendorEvent {
+    return {
+      id: `evt-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      robotId,
+      data,
+      timestamp,
+      source: 'abb_rws',
+    }
+  }
+
+  // Controller actions without a RobotCommandType of their own, sent as CUSTOM { action }
+  private async runControllerAction(client: RWSClient, payload: Record<string, any>): Promise<any> {
+    switch (payload.action) {
+      case 'motors_on':
+        await client.setMotors(true)
+        return { message: 'Motors on' }
+      case 'motors_off':
+        await client.setMotors(false)
+        return { message: 'Motors off' }
+      case 'get_event_log':
+        return { messages: await client.getElogMessages(payload.domain ?? ELOG_DOMAIN) }
+      default:
+        throw new Error(`Unsupported controller action: ${payload.action}`)
+    }
+  }
+
+  private mapRobotStatus(status: ABBControllerStatus): RobotStatus {
+    switch (status.controllerState) {
+      case 'emergencystop':
+        return RobotStatus.EMERGENCY_STOP
+      case 'guardstop':
+      case 'sysfail':
+        return RobotStatus.ERROR
+      case 'motoroff':
+        return RobotStatus.STOPPED
+      case 'motoron':
+        return status.execution === 'running' ? RobotStatus.RUNNING : RobotStatus.IDLE
+      default:
+        return RobotStatus.ONLINE
+    }
+  }
+
+  private getSpecifications(): RobotSpecifications {
+    // RWS reports the robot type but not its data sheet
+    const range = { min: 0, max: 0, unit: 'mm' }
+    return {
+      axes: 6,
+      payload: 0,
+      reach: 0,
+      repeatability: 0,
+      maxSpeed: 0,
+      maxAcceleration: 0,
+      workingRange: { x: range, y: range, z: range },
+      operatingTemperature: { min: 5, max: 45, unit: TemperatureUnit.CELSIUS },
+      power: { voltage: 0, frequency: 0, consumption: 0, phases: 3 },
+      dimensions: { length: 0, width: 0, height: 0 },
+      weight: 0,
+    }
+  }
+}
+
+/**
+ * ABB orientation quaternion to Euler ZYX angles in degrees, as the FlexPendant shows them
+ */
+export function quaternionToEulerZYX({ q1, q2, q3, q4 }: RWSRobTarget): {
+  rx: number
+  ry: number
+  rz: number
+} {
+  const degrees = (radians: number) => (radians * 180) / Math.PI
+  const sinPitch = Math.max(-1, Math.min(1, 2 * (q1 * q3 - q4 * q2)))
+
+  return {
+    rx: degrees(Math.atan2(2 * (q1 * q2 + q3 * q4), 1 - 2 * (q2 * q2 + q3 * q3))),
+    ry: degrees(Math.asin(sinPitch)),
+    rz: degrees(Math.atan2(2 * (q1 * q4 + q2 * q3), 1 - 2 * (q3 * q3 + q4 * q4))),
+  }
+}
@@ -0,0 +1,87 @@
+import * as crypto from 'crypto'
+
+/**
+ * Parameters of a WWW-Authenticate: Digest challenge, as IRC5 controllers send them:
+ * Digest realm="validusers@robapi.abb", domain="127.0.0.1:80", qop="auth", nonce="...",
+ * algorithm=MD5, stale=FALSE
+ */
+export interface DigestChallenge {
+  realm: string
+  nonce: string
+  qop?: string
+  opaque?: string
+  algorithm?: string
+}
+
+export interface DigestCredentials {
+  username: string
+  password: string
+}
+
+export function parseDigestChallenge(header: string | undefined): DigestChallenge | undefined {
+  if (!header || !/^Digest\s/i.test(header)) {
+    return undefined
+  }
+
+  const params: Record<string, string> = {}
+  for (const match of header.slice(7).matchAll(/(\w+)=(?:"([^"]*)"|([^\s,]+))/g)) {
+    params[match[1].toLowerCase()] = match[2] ?? match[3]
+  }
+
+  if (params.realm === undefined || !params.nonce) {
+    return undefined
+  }
+  return {
+    realm: params.realm,
+    nonce: params.nonce,
+    qop: params.qop,
+    opaque: params.opaque,
+    algorithm: params.algorithm,
+  }
+}
+
+/**
+ * Authorization header answering a challenge (RFC 2617, MD5 with qop auth when offered)
+ */
+export function digestAuthorization(
+  challenge: DigestChallenge,
+  credentials: DigestCredentials,
+  method: string,
+  uri: string,
+  nonceCount: number,
+  cnonce = crypto.randomBytes(8).toString('hex')
+): string {
+  const ha1 = md5(`${credentials.username}:${challenge.realm}:${credentials.password}`)
+  const ha2 = md5(`${method}:${uri}`)
+  const qop = challenge.qop
+    ?.split(',')
+    .map((value) => value.trim())
+    .includes('auth')
+    ? 'auth'
+    : undefined
+  const nc = nonceCount.toString(16).padStart(8, '0')
+
+  const response = qop
+    ? md5(`${ha1}:${challenge.nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+    : md5(`${ha1}:${challenge.nonce}:${ha2}`)
+
+  const fields = [
+    `username="${credentials.username}"`,
+    `realm="${challenge.realm}"`,
+    `nonce="${challenge.nonce}"`,
+    `uri="${uri}"`,
+    `algorithm=MD5`,
+    `response="${response}"`,
+  ]
+  if (qop) {
+    fields.push(`qop=${qop}`, `nc=${nc}`, `cnonce="${cnonce}"`)
+  }
+  if (challenge.opaque !== undefined) {
+    fields.push(`opaque="${challenge.opaque}"`)
+  }
+  return `Digest ${fields.join(', ')}`
+}
+
+function md5(value: string): string {
+  return crypto.createHash('md5').update(value).digest('hex')
+}
@@ -0,0 +1,11 @@
+/**
+ * ABB Robot Web Services adapter for URFMP
+ * Supports: IRC5 controllers with RobotWare 6 (IRB arms)
+ */
+
+export { ABBAdapter, quaternionToEulerZYX } from './adapter'
+export { adapterPlugin } from './plugin'
+export { RWSClient, parseElogTimestamp, parseNotifications } from './rws-client'
+export { digestAuthorization, parseDigestChallenge } from './digest'
+export type { DigestChallenge, DigestCredentials } from './digest'
+export * from './types'
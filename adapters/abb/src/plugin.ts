@@ -0,0 +1,59 @@
+import {
+  AuthenticationType,
+  ConnectionProtocol,
+  createConnectionConfigSchema,
+  VendorAdapterPlugin,
+} from '@urfmp/types'
+import { ABBAdapter } from './adapter'
+
+/**
+ * Entry point for the adapter loader
+ */
+export const adapterPlugin: VendorAdapterPlugin = {
+  config: {
+    name: 'abb',
+    version: '1.0.0',
+    description: 'ABB Robot Web Services adapter - IRC5 controllers and IRB arms',
+    author: 'URFMP Team',
+    license: 'MIT',
+    supportedRobots: [
+      {
+        model: 'IRB series',
+        series: 'IRC5',
+        firmwareVersions: ['RobotWare 6.x'],
+        notes: 'Robot Web Services 1.0, OmniCore controllers are not supported',
+      },
+    ],
+    defaultConfig: {
+      host: '192.168.125.1',
+      port: 80,
+      protocol: ConnectionProtocol.HTTP,
+      timeout: 5000,
+      options: { mechUnit: 'ROB_1' },
+    },
+    configSchema: createConnectionConfigSchema({
+      protocols: [ConnectionProtocol.HTTP, ConnectionProtocol.HTTPS],
+      port: 80,
+      authentication: [AuthenticationType.DIGEST],
+      options: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          mechUnit: {
+            type: 'string',
+            pattern: '^\\w+$',
+            default: 'ROB_1',
+            title: 'Mechanical unit',
+          },
+          timeZone: {
+            type: 'string',
+            title: 'Controller time zone',
+            description: 'IANA name such as Europe/Stockholm, event log times are read in it',
+          },
+        },
+      },
+    }),
+    features: new ABBAdapter().getSupportedFeatures(),
+  },
+  createAdapter: () => new ABBAdapter(),
+}
@@ -0,0 +1,483 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios'
+import WebSocket from 'ws'
+import { DigestChallenge, digestAuthorization, parseDigestChallenge } from './digest'
+import {
+  RWSConfig,
+  RWSConnectionInfo,
+  RWSControllerIdentity,
+  RWSControllerState,
+  RWSElogMessage,
+  RWSElogMessageType,
+  RWSExecution,
+  RWSJointTarget,
+  RWSNotification,
+  RWSOperationMode,
+  RWSRobTarget,
+} from './types'
+
+const SUBSCRIPTION_PROTOCOL = 'robapi2_subscription'
+const UNUSED_AXIS = 9e9 // External axes that are not present read 9E+09
+
+export type RWSNotificationCallback = (notification: RWSNotification) => void
+
+/**
+ * Client for ABB Robot Web Services 1.0 (RobotWare 6, IRC5). Requests authenticate with HTTP
+ * digest once and then reuse the session cookies, the controller only allows a few dozen
+ * sessions at a time. Resource changes arrive over a single subscription WebSocket.
+ */
+export class RWSClient {
+  private config: RWSConfig
+  private http: AxiosInstance
+  private cookies = new Map<string, string>()
+  private challenge?: DigestChallenge
+  private nonceCount = 0
+  private socket?: WebSocket
+  private subscriptionPath?: string
+  private connected = false
+  private requestsSent = 0
+  private notificationsReceived = 0
+  private subscriptionClosedCallback?: () => void
+
+  constructor(config: RWSConfig) {
+    this.config = config
+    this.http = axios.create({
+      baseURL: this.baseUrl(),
+      timeout: config.timeout,
+      responseType: 'text',
+      transformResponse: [(data) => data],
+      validateStatus: () => true,
+    })
+  }
+
+  /**
+   * Log in and read who the controller is, wrong credentials fail here
+   */
+  async connect(): Promise<RWSControllerIdentity> {
+    try {
+      const identity = await this.getState('/ctrl/identity')
+      const system = await this.getState('/rw/system')
+      const robotType = await this.getState('/rw/system/robottype').catch(() => undefined)
+
+      this.connected = true
+      console.log(`Connected to ABB Robot Web Services at ${this.baseUrl()}`)
+
+      return {
+        controllerName: identity['ctrl-name'] ?? '',
+        controllerId: identity['ctrl-id'] ?? '',
+        systemName: system.name ?? '',
+        robotWareVersion: system.rwversion ?? '',
+        robotType: robotType?.['robot-type'],
+      }
+    } catch (error) {
+      this.cookies.clear()
+      throw new Error(`RWS connection failed: ${(error as Error).message}`)
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    const wasConnected = this.connected
+    this.connected = false
+
+    if (this.socket) {
+      this.socket.removeAllListeners()
+      this.socket.on('error', () => undefined)
+      this.socket.terminate()
+      this.socket = undefined
+    }
+
+    // Free the session on the controller
+    if (wasConnected) {
+      if (this.subscriptionPath) {
+        await this.request('DELETE', this.subscriptionPath).catch(() => undefined)
+      }
+      await this.request('GET', '/logout').catch(() => undefined)
+    }
+    this.subscriptionPath = undefined
+    this.cookies.clear()
+    this.challenge = undefined
+  }
+
+  async getControllerState(): Promise<RWSControllerState> {
+    return (await this.getState('/rw/panel/ctrlstate')).ctrlstate as RWSControllerState
+  }
+
+  async getOperationMode(): Promise<RWSOperationMode> {
+    return (await this.getState('/rw/panel/opmode')).opmode as RWSOperationMode
+  }
+
+  async getSpeedRatio(): Promise<number> {
+    return Number((await this.getState('/rw/panel/speedratio')).speedratio)
+  }
+
+  async getExecution(): Promise<RWSExecution> {
+    const state = await this.getState('/rw/rapid/execution')
+    return { state: state.ctrlexecstate as RWSExecution['state'], cycle: state.cycle }
+  }
+
+  async getJointTarget(): Promise<RWSJointTarget> {
+    const state = await this.getState(
+      `/rw/motionsystem/mechunits/${this.config.mechUnit}/jointtarget`
+    )
+    return {
+      joints: [1, 2, 3, 4, 5, 6].map((axis) => Number(state[`rax_${axis}`])),
+      externalAxes: ['a', 'b', 'c', 'd', 'e', 'f']
+        .map((axis) => Number(state[`eax_${axis}`]))
+        .filter((value) => !isNaN(value) && Math.abs(value) < UNUSED_AXIS),
+    }
+  }
+
+  async getRobTarget(): Promise<RWSRobTarget> {
+    const state = await this.getState(
+      `/rw/motionsystem/mechunits/${this.config.mechUnit}/robtarget`
+    )
+    const fields = ['x', 'y', 'z', 'q1', 'q2', 'q3', 'q4', 'cf1', 'cf4', 'cf6', 'cfx'] as const
+    return Object.fromEntries(
+      fields.map((field) => [field, Number(state[field])])
+    ) as unknown as RWSRobTarget
+  }
+
+  /**
+   * Messages of an event log domain, newest first. Domain 0 is the common log.
+   */
+  async getElogMessages(domain = 0): Promise<RWSElogMessage[]> {
+    const states = await this.getStates(`/rw/elog/${domain}`, { lang: 'en' })
+    return states.map((state) => this.toElogMessage(state))
+  }
+
+  async getElogMessage(domain: number, sequenceNumber: number): Promise<RWSElogMessage> {
+    const [state] = await this.getStates(`/rw/elog/${domain}/${sequenceNumber}`, { lang: 'en' })
+    if (!state) {
+      throw new Error(`Event log message ${sequenceNumber} not found`)
+    }
+    return this.toElogMessage(state, sequenceNumber)
+  }
+
+  async startExecution(): Promise<void> {
+    await this.post('/rw/rapid/execution', 'start', {
+      regain: 'continue',
+      execmode: 'continue',
+      cycle: 'forever',
+      condition: 'none',
+      stopatbp: 'disabled',
+      alltaskbytsp: 'false',
+    })
+  }
+
+  async stopExecution(): Promise<void> {
+    await this.post('/rw/rapid/execution', 'stop', { stopmode: 'stop', usetsp: 'normal' })
+  }
+
+  /**
+   * Move the program pointer to main, this needs RAPID mastership for the duration
+   */
+  async resetProgramPointer(): Promise<void> {
+    await this.post('/rw/mastership/rapid', 'request')
+    try {
+      await this.post('/rw/rapid/execution', 'resetpp')
+    } finally {
+      await this.post('/rw/mastership/rapid', 'release').catch(() => undefined)
+    }
+  }
+
+  async setMotors(on: boolean): Promise<void> {
+    await this.post('/rw/panel/ctrlstate', 'setctrlstate', {
+      'ctrl-state': on ? 'motoron' : 'motoroff',
+    })
+  }
+
+  async setSpeedRatio(ratio: number): Promise<void> {
+    if (!Number.isInteger(ratio) || ratio < 0 || ratio > 100) {
+      throw new Error('Speed ratio must be an integer percentage between 0 and 100')
+    }
+    await this.post('/rw/panel/speedratio', 'setspeedratio', { 'speed-ratio': String(ratio) })
+  }
+
+  /**
+   * Subscribe to resources such as /rw/panel/ctrlstate or /rw/elog/0 and receive their changes.
+   * RWS allows one subscription group per session, so all resources are subscribed together.
+   */
+  async subscribe(resources: string[], callback: RWSNotificationCallback): Promise<void> {
+    const body = new URLSearchParams()
+    resources.forEach((resource, i) => {
+      body.append('resources', String(i + 1))
+      body.append(String(i + 1), resource)
+      body.append(`${i + 1}-p`, '1') // Priority 1, medium
+    })
+
+    const response = await this.request('POST', '/subscription', body)
+    const location = response.headers['location']
+    if (response.status !== 201 || !location) {
+      throw new Error(`Subscription failed: ${this.errorMessage(response)}`)
+    }
+
+    const path = new URL(location, this.baseUrl()).pathname
+    this.subscriptionPath = path.replace(/^\/poll/, '/subscription')
+
+    await new Promise<void>((resolve, reject) => {
+      const protocol = this.config.secure ? 'wss' : 'ws'
+      const socket = new WebSocket(
+        `${protocol}://${this.config.host}:${this.config.port}${path}`,
+        [SUBSCRIPTION_PROTOCOL],
+        { headers: { Cookie: this.cookieHeader() }, handshakeTimeout: this.config.timeout }
+      )
+
+      socket.once('open', () => {
+        this.socket = socket
+        resolve()
+      })
+      socket.once('error', (error) => reject(new Error(`Subscription socket failed: ${error}`)))
+      socket.on('message', (data) => {
+        for (const notification of parseNotifications(data.toString())) {
+          this.notificationsReceived++
+          callback(notification)
+        }
+      })
+      socket.on('close', () => {
+        if (this.socket === socket) {
+          this.socket = undefined
+          console.log(`RWS subscription closed (${this.baseUrl()})`)
+          this.subscriptionClosedCallback?.()
+        }
+      })
+    })
+  }
+
+  /**
+   * Called when the controller or the network closes the subscription socket, not on disconnect()
+   */
+  onSubscriptionClosed(callback: () => void): void {
+    this.subscriptionClosedCallback = callback
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  getConnectionInfo(): RWSConnectionInfo {
+    return {
+      connected: this.connected,
+      baseUrl: this.baseUrl(),
+      mechUnit: this.config.mechUnit,
+      subscribed: this.socket !== undefined,
+      requestsSent: this.requestsSent,
+      notificationsReceived: this.notificationsReceived,
+    }
+  }
+
+  private baseUrl(): string {
+    return `${this.config.secure ? 'https' : 'http'}://${this.config.host}:${this.config.port}`
+  }
+
+  // The first state object of a resource, fields as the controller names them
+  private async getState(
+    path: string,
+    query: Record<string, string> = {}
+  ): Promise<Record<string, string>> {
+    const [state] = await this.getStates(path, query)
+    if (!state) {
+      throw new Error(`No state in response for ${path}`)
+    }
+    return state
+  }
+
+  private async getStates(
+    path: string,
+    query: Record<string, string> = {}
+  ): Promise<Record<string, string>[]> {
+    const search = new URLSearchParams({ ...query, json: '1' })
+    const response = await this.request('GET', `${path}?${search}`)
+    if (response.status !== 200) {
+      throw new Error(`GET ${path} failed: ${this.errorMessage(response)}`)
+    }
+
+    const body = JSON.parse(response.data)
+    return body?._embedded?._state ?? []
+  }
+
+  private async post(path: string, action: string, form: Record<string, string> = {}) {
+    const response = await this.request(
+      'POST',
+      `${path}?action=${action}`,
+      new URLSearchParams(form)
+    )
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`${action} failed: ${this.errorMessage(response)}`)
+    }
+  }
+
+  /**
+   * Send with the session cookies, answering a digest challenge once when the session is new
+   * or has expired
+   */
+  private async request(
+    method: string,
+    url: string,
+    body?: URLSearchParams
+  ): Promise<AxiosResponse<string>> {
+    const send = () => {
+      const headers: Record<string, string> = { Accept: 'application/json' }
+      if (this.cookies.size > 0) {
+        headers.Cookie = this.cookieHeader()
+      }
+      if (this.challenge) {
+        headers.Authorization = digestAuthorization(
+          this.challenge,
+          { username: this.config.username, password: this.config.password },
+          method,
+          url,
+          ++this.nonceCount
+        )
+      }
+      if (body) {
+        headers['Content-Type'] = 'application/x-www-form-urlencoded'
+      }
+
+      this.requestsSent++
+      return this.http.request<string>({ method, url, headers, data: body?.toString() })
+    }
+
+    let response = await send()
+    this.storeCookies(response)
+
+    if (response.status === 401) {
+      const challenge = parseDigestChallenge(response.headers['www-authenticate'])
+      if (!challenge) {
+        throw new Error('Controller did not offer digest authentication')
+      }
+      this.challenge = challenge
+      this.nonceCount = 0
+      this.cookies.clear()
+
+      response = await send()
+      this.storeCookies(response)
+      if (response.status === 401) {
+        throw new Error(`Authentication failed for user ${this.config.username}`)
+      }
+    }
+
+    return response
+  }
+
+  private storeCookies(response: AxiosResponse): void {
+    const cookies: string[] = response.headers['set-cookie'] ?? []
+    for (const cookie of cookies) {
+      const [pair] = cookie.split(';')
+      const separator = pair.indexOf('=')
+      if (separator > 0) {
+        this.cookies.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim())
+      }
+    }
+  }
+
+  private cookieHeader(): string {
+    return [...this.cookies].map(([name, value]) => `${name}=${value}`).join('; ')
+  }
+
+  private errorMessage(response: AxiosResponse<string>): string {
+    try {
+      const message = JSON.parse(response.data)?.status?.msg
+      if (message) {
+        return `${response.status} ${message}`
+      }
+    } catch {
+      // Not JSON, fall through to the status text
+    }
+    return `${response.status} ${response.statusText}`
+  }
+
+  private toElogMessage(state: Record<string, string>, sequenceNumber?: number): RWSElogMessage {
+    return {
+      sequenceNumber: sequenceNumber ?? Number(state._title?.split('/').pop()),
+      type: Number(state.msgtype) as RWSElogMessageType,
+      code: Number(state.code),
+      title: state.title ?? '',
+      description: state.desc || undefined,
+      causes: state.causes || undefined,
+      actions: state.actions || undefined,
+      timestamp: parseElogTimestamp(state.tstamp, this.config.timeZone),
+    }
+  }
+}
+
+/**
+ * Resource changes in a subscription message. RWS 1.0 pushes XHTML fragments such as
+ * <li class="pnl-ctrlstate-ev" title="ctrlstate"><a href="/rw/panel/ctrlstate" rel="self"/>
+ * <span class="ctrlstate">motoron</span></li>
+ */
+export function parseNotifications(message: string): RWSNotification[] {
+  const notifications: RWSNotification[] = []
+
+  for (const [item] of message.matchAll(/<li\b[\s\S]*?<\/li>/g)) {
+    const href = item.match(/<a\s+href="([^"]*)"\s+rel="self"/)?.[1]
+    if (!href) {
+      continue
+    }
+
+    const values: Record<string, string> = {}
+    for (const [, name, value] of item.matchAll(/<span class="([^"]+)">([^<]*)<\/span>/g)) {
+      values[name] = value
+    }
+    notifications.push({ resource: href, values })
+  }
+
+  return notifications
+}
+
+/**
+ * Parse controller local time written as 2024-03-05 T  14:15:29. The text carries no offset, so
+ * it is read in the controller's IANA time zone, or in the agent's when none is configured.
+ */
+export function parseElogTimestamp(value: string | undefined, timeZone?: string): Date {
+  const match = value?.match(/(\d{4})-(\d{2})-(\d{2})\s*T\s*(\d{2}):(\d{2}):(\d{2})/)
+  if (!match) {
+    return new Date()
+  }
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number)
+  if (!timeZone) {
+    return new Date(year, month - 1, day, hour, minute, second)
+  }
+
+  // The offset at the wall-clock time read as UTC is off by the offset itself, a second pass
+  // settles it unless the time falls in a daylight saving change
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second)
+  const guess = wallClock - zoneOffset(wallClock, timeZone)
+  return new Date(wallClock - zoneOffset(guess, timeZone))
+}
+
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || value === '') {
+    return false
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Milliseconds the zone's wall clock is ahead of UTC at an instant
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant)
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((entry) => entry.type === type)?.value)
+
+  const wallClock = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second')
+  )
+  return wallClock - Math.floor(instant / 1000) * 1000
+}
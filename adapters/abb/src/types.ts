@@ -0,0 +1,95 @@
+// ABB Robot Web Services (RWS 1.0, IRC5) adapter types
+
+export interface RWSConfig {
+  host: string
+  port: number // Default: 80
+  secure: boolean // https and wss instead of http and ws
+  username: string // Default: Default User
+  password: string // Default: robotics
+  timeout: number
+  mechUnit: string // Default: ROB_1
+  timeZone?: string // IANA zone of the controller clock, default: the agent's
+}
+
+// Controller state from /rw/panel/ctrlstate
+export type RWSControllerState =
+  | 'init'
+  | 'motoron'
+  | 'motoroff'
+  | 'guardstop'
+  | 'emergencystop'
+  | 'emergencystopreset'
+  | 'sysfail'
+
+// Operating mode from /rw/panel/opmode, MANR is reduced speed manual and MANF full speed manual
+export type RWSOperationMode = 'INIT' | 'AUTO_CH' | 'MANF_CH' | 'MANR' | 'MANF' | 'AUTO' | 'UNDEF'
+
+// RAPID execution state from /rw/rapid/execution
+export type RWSExecutionState = 'running' | 'stopped'
+
+export interface RWSControllerIdentity {
+  controllerName: string
+  controllerId: string // Serial number of the controller
+  systemName: string
+  robotWareVersion: string
+  robotType?: string // e.g. IRB 1200-7/0.7
+}
+
+export interface RWSExecution {
+  state: RWSExecutionState
+  cycle: string // once, forever, asis
+}
+
+export interface RWSJointTarget {
+  joints: number[] // rax_1 to rax_6 in degrees
+  externalAxes: number[] // eax_a to eax_f
+}
+
+export interface RWSRobTarget {
+  x: number // mm
+  y: number
+  z: number
+  q1: number // Orientation quaternion, q1 is the scalar part
+  q2: number
+  q3: number
+  q4: number
+  cf1: number // Axis configuration
+  cf4: number
+  cf6: number
+  cfx: number
+}
+
+export enum RWSElogMessageType {
+  INFORMATION = 1,
+  WARNING = 2,
+  ERROR = 3,
+}
+
+export interface RWSElogMessage {
+  sequenceNumber: number
+  type: RWSElogMessageType
+  code: number
+  title: string
+  description?: string
+  causes?: string
+  actions?: string
+  timestamp: Date
+}
+
+/**
+ * One resource change pushed over the subscription WebSocket, e.g.
+ * { resource: '/rw/panel/ctrlstate', values: { ctrlstate: 'motoron' } }
+ */
+export interface RWSNotification {
+  resource: string
+  values: Record<string, string>
+}
+
+export interface RWSConnectionInfo {
+  connected: boolean
+  baseUrl: string
+  mechUnit: string
+  subscribed: boolean
+  requestsSent: number
+  notificationsReceived: number
+}
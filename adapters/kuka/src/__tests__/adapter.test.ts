@@ -0,0 +1,246 @@
+import {
+  AuthenticationType,
+  ConnectionProtocol,
+  ConnectionStatus,
+  RobotCommandType,
+  VendorConnection,
+  VendorConnectionConfig,
+  VendorEvent,
+  VendorEventType,
+} from '@urfmp/types'
+import { KukaAdapter } from '../adapter'
+import { FakeKukaVarProxy } from './kvp-server'
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+  const deadline = Date.now() + timeout
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+describe('KukaAdapter', () => {
+  let server: FakeKukaVarProxy
+  let adapter: KukaAdapter
+  let connection: VendorConnection | undefined
+  let port: number
+
+  const config = (options: Record<string, any> = {}): VendorConnectionConfig => ({
+    host: '127.0.0.1',
+    port,
+    protocol: ConnectionProtocol.TCP,
+    timeout: 500,
+    options: { pollInterval: 50, ...options },
+  })
+
+  const send = (type: RobotCommandType, payload: Record<string, any> = {}) =>
+    adapter.sendCommand(connection!.id, { id: `cmd-${type}`, type, payload } as any)
+
+  beforeEach(async () => {
+    server = new FakeKukaVarProxy()
+    port = await server.start()
+    adapter = new KukaAdapter()
+  })
+
+  afterEach(async () => {
+    if (connection) {
+      await adapter.disconnect(connection.id).catch(() => undefined)
+      connection = undefined
+    }
+    await server.stop()
+  })
+
+  it('should map the default KRL variables into telemetry', async () => {
+    connection = await adapter.connect(config())
+
+    const telemetry = await adapter.getTelemetry(connection.id)
+    const info = await adapter.getRobotInfo(connection.id)
+
+    expect(connection.robotId).toBe('kuka-1234567')
+    expect(telemetry.data.position).toEqual({
+      x: 1200.5,
+      y: -10,
+      z: 850.25,
+      rx: 180,
+      ry: 0,
+      rz: 90,
+      frame: 'base',
+    })
+    expect(telemetry.data.jointAngles).toEqual({
+      joint1: 10,
+      joint2: -90,
+      joint3: 90,
+      joint4: 0,
+      joint5: 45,
+      joint6: 0,
+      unit: 'degrees',
+    })
+    expect(telemetry.data.programState).toEqual({ executionMode: 'automatic' })
+    expect(telemetry.data.safety).toEqual({
+      emergencyStop: false,
+      protectiveStop: false,
+      reducedMode: false,
+      safetyZoneViolation: false,
+    })
+    expect(telemetry.data.custom).toEqual({
+      axisConfiguration: { status: 2, turn: 35 },
+      externalAxes: [0],
+      override: 100,
+      operationMode: 'AUT',
+      interpreterState: 'P_RESET',
+      stopMessage: false,
+    })
+    expect(info).toMatchObject({
+      model: '#KR16_R1610_2 C4',
+      serialNumber: '1234567',
+      firmwareVersion: 'KS V8.6.7',
+      manufacturer: 'KUKA',
+      status: 'idle',
+    })
+  })
+
+  it('should read configured variables into custom', async () => {
+    server.set('CELL_COUNTER', '42')
+    server.set('$IN[12]', 'TRUE')
+    connection = await adapter.connect(
+      config({
+        variables: [
+          { name: '$OV_PRO' },
+          { name: 'CELL_COUNTER' },
+          { name: '$IN[12]', key: 'partPresent' },
+        ],
+      })
+    )
+
+    const telemetry = await adapter.getTelemetry(connection.id)
+
+    expect(telemetry.data).toEqual({
+      custom: { override: 100, CELL_COUNTER: 42, partPresent: true },
+    })
+  })
+
+  it('should refuse to connect when a configured variable does not exist', async () => {
+    await expect(adapter.connect(config({ variables: [{ name: 'NO_SUCH_VAR' }] }))).rejects.toThrow(
+      'Failed to connect to KUKA controller: Reading NO_SUCH_VAR failed'
+    )
+  })
+
+  it('should write the override and the program selection variable', async () => {
+    server.set('PROG_NR', '0')
+    server.set('PROG_NAME[]', '" "')
+    connection = await adapter.connect(config({ programVariable: 'PROG_NR' }))
+
+    expect((await send(RobotCommandType.SET_SPEED, { speed: 30 })).success).toBe(true)
+    expect(server.get('$OV_PRO')).toBe('30')
+    expect((await send(RobotCommandType.LOAD_PROGRAM, { program: 7 })).success).toBe(true)
+    expect(server.get('PROG_NR')).toBe('7')
+
+    const write = await send(RobotCommandType.CUSTOM, {
+      action: 'write_variable',
+      name: 'PROG_NAME[]',
+      value: '"PICK_A"',
+    })
+    expect(write).toMatchObject({ success: true, result: { name: 'PROG_NAME[]', value: 'PICK_A' } })
+
+    const read = await send(RobotCommandType.CUSTOM, { action: 'read_variable', name: '$MODE_OP' })
+    expect(read.result).toEqual({ name: '$MODE_OP', value: 'AUT' })
+
+    expect(await send(RobotCommandType.SET_SPEED, { speed: 150 })).toMatchObject({
+      success: false,
+      error: 'Speed must be an integer percentage for SET_SPEED command',
+    })
+    expect(await send(RobotCommandType.START)).toMatchObject({
+      success: false,
+      error: 'Unsupported command type: start',
+    })
+  })
+
+  it('should need a program variable for program selection', async () => {
+    connection = await adapter.connect(config())
+
+    expect(await send(RobotCommandType.LOAD_PROGRAM, { program: 'PICK_A' })).toMatchObject({
+      success: false,
+      error: 'options.programVariable is required for LOAD_PROGRAM command',
+    })
+  })
+
+  it('should refuse program names that are not a plain char array', async () => {
+    server.set('PROG_NAME[]', '" "')
+    connection = await adapter.connect(config({ programVariable: 'PROG_NAME[]' }))
+
+    expect((await send(RobotCommandType.LOAD_PROGRAM, { program: 'PICK_A' })).success).toBe(true)
+    expect(server.get('PROG_NAME[]')).toBe('"PICK_A"')
+    expect(await send(RobotCommandType.LOAD_PROGRAM, { program: 'PICK"A' })).toMatchObject({
+      success: false,
+      error: 'A KRL char array holds printable ASCII characters other than "',
+    })
+    expect(server.get('PROG_NAME[]')).toBe('"PICK_A"')
+  })
+
+  it('should emit variable changes with the previous and new value', async () => {
+    connection = await adapter.connect(config())
+    const events: VendorEvent[] = []
+    await adapter.subscribeToEvents(connection.id, (event) => events.push(event))
+
+    server.set('$PRO_STATE1', '#P_ACTIVE')
+    await waitFor(() => events.length === 1)
+    server.set('$MODE_OP', '#T1')
+    server.set('$STOPMESS', 'TRUE')
+    await waitFor(() => events.length === 3)
+    server.set('$PRO_STATE1', '#P_STOP')
+    await waitFor(() => events.length === 4)
+
+    expect(events.map((event) => event.type)).toEqual([
+      VendorEventType.PROGRAM_STARTED,
+      VendorEventType.MODE_CHANGED,
+      VendorEventType.SAFETY_VIOLATION,
+      VendorEventType.PROGRAM_PAUSED,
+    ])
+    expect(events[1]).toMatchObject({
+      robotId: 'kuka-1234567',
+      source: 'kuka_varproxy',
+      data: { variable: '$MODE_OP', previous: 'AUT', value: 'T1' },
+    })
+
+    const telemetry = await adapter.getTelemetry(connection.id)
+    expect(telemetry.data.safety).toMatchObject({ protectiveStop: true, reducedMode: true })
+    expect((await adapter.getRobotInfo(connection.id)).status).toBe('error')
+  })
+
+  it('should report connection metrics', async () => {
+    connection = await adapter.connect(config())
+    await send(RobotCommandType.SET_SPEED, { speed: 101 })
+    await send(RobotCommandType.CUSTOM, { action: 'read_variable', name: 'NO_SUCH_VAR' })
+
+    expect(connection.metrics.messagesSent).toBeGreaterThan(0)
+    expect(connection.metrics.messagesReceived).toBe(connection.metrics.messagesSent)
+    expect(connection.metrics.bytesSent).toBeGreaterThan(0)
+    expect(connection.metrics.bytesReceived).toBeGreaterThan(0)
+    expect(connection.metrics.errorCount).toBe(1)
+    expect(connection.metrics.lastErrorAt).toBeInstanceOf(Date)
+    expect(connection.lastHeartbeat).toBeInstanceOf(Date)
+  })
+
+  it('should put the connection in error when the proxy closes the link', async () => {
+    connection = await adapter.connect(config())
+
+    await server.stop()
+    await waitFor(() => connection!.status === ConnectionStatus.ERROR)
+    await new Promise((resolve) => setTimeout(resolve, 100))
+
+    expect(connection.metrics.errorCount).toBe(1)
+    expect(connection.metrics.lastErrorAt).toBeInstanceOf(Date)
+  })
+
+  it('should warn that KukaVarProxy ignores credentials', async () => {
+    const validation = await adapter.validateConnection({
+      ...config(),
+      authentication: { type: AuthenticationType.BASIC, credentials: {} },
+    })
+
+    expect(validation.valid).toBe(true)
+    expect(validation.warnings.map((warning) => warning.code)).toContain('AUTHENTICATION_IGNORED')
+  })
+})
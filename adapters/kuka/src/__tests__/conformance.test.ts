@@ -0,0 +1,54 @@
+import { describeAdapterConformance } from '@urfmp/adapter-conformance'
+import { ConnectionProtocol, RobotCommandType } from '@urfmp/types'
+import { KukaAdapter } from '../adapter'
+import { adapterPlugin } from '../plugin'
+import { FakeKukaVarProxy } from './kvp-server'
+
+describeAdapterConformance({
+  name: 'KukaAdapter conformance',
+  createAdapter: () => new KukaAdapter(),
+  startEndpoint: async () => {
+    const server = new FakeKukaVarProxy()
+    const port = await server.start()
+
+    return {
+      config: {
+        host: '127.0.0.1',
+        port,
+        protocol: ConnectionProtocol.TCP,
+        timeout: 1000,
+        options: { pollInterval: 50 },
+      },
+      triggerEvent: () => {
+        server.set('$OV_PRO', server.get('$OV_PRO') === '100' ? '50' : '100')
+      },
+      stop: () => server.stop(),
+    }
+  },
+  supportedCommand: { type: RobotCommandType.SET_SPEED, payload: { speed: 75 } },
+  invalidConfigs: [
+    {
+      config: { host: '127.0.0.1', port: 7000, protocol: ConnectionProtocol.HTTP },
+      field: 'protocol',
+    },
+    {
+      config: {
+        host: '127.0.0.1',
+        port: 7000,
+        protocol: ConnectionProtocol.TCP,
+        options: { variables: [{ name: '$OV_PRO' }, { name: 'OV PRO' }] },
+      },
+      field: 'options.variables[1].name',
+    },
+    {
+      config: {
+        host: '127.0.0.1',
+        port: 7000,
+        protocol: ConnectionProtocol.TCP,
+        options: { programVariable: 'PROG NR' },
+      },
+      field: 'options.programVariable',
+    },
+  ],
+  plugin: adapterPlugin,
+})
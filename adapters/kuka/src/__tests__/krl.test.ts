@@ -0,0 +1,91 @@
+import { VendorEventType } from '@urfmp/types'
+import {
+  formatKRLCharArray,
+  formatKRLValue,
+  parseKRLValue,
+  validateVariables,
+  variableKey,
+} from '../krl'
+
+describe('KRL values', () => {
+  it('should parse simple values', () => {
+    expect(parseKRLValue('100')).toBe(100)
+    expect(parseKRLValue(' -1.5E+02 ')).toBe(-150)
+    expect(parseKRLValue('TRUE')).toBe(true)
+    expect(parseKRLValue('false')).toBe(false)
+    expect(parseKRLValue('#P_ACTIVE')).toBe('P_ACTIVE')
+    expect(parseKRLValue('"KR16 R1610"')).toBe('KR16 R1610')
+  })
+
+  it('should parse structures with and without a type name', () => {
+    expect(parseKRLValue('{E6POS: X 1200.5, Y -10.0, Z 850.25, A 90.0, S 2, T 35}')).toEqual({
+      X: 1200.5,
+      Y: -10,
+      Z: 850.25,
+      A: 90,
+      S: 2,
+      T: 35,
+    })
+    expect(parseKRLValue('{LOAD: M 5.0, CM {FRAME: X 0.0, Y 0.0, Z 50.0}}')).toEqual({
+      M: 5,
+      CM: { X: 0, Y: 0, Z: 50 },
+    })
+    expect(parseKRLValue('{X 1, ENABLED TRUE, MODE #T1}')).toEqual({
+      X: 1,
+      ENABLED: true,
+      MODE: 'T1',
+    })
+  })
+
+  it('should keep text that is not a KRL literal', () => {
+    expect(parseKRLValue('{E6POS: X 1.0')).toBe('{E6POS: X 1.0')
+    expect(parseKRLValue('H1F')).toBe('H1F')
+  })
+
+  it('should format values for writing', () => {
+    expect(formatKRLValue(50)).toBe('50')
+    expect(formatKRLValue(true)).toBe('TRUE')
+    expect(formatKRLValue('#T1')).toBe('#T1')
+    expect(formatKRLValue({ X: 10, Y: -2.5, TOOL: { ID: 3 } })).toBe('{X 10, Y -2.5, TOOL {ID 3}}')
+    expect(() => formatKRLValue(NaN)).toThrow('NaN has no KRL representation')
+  })
+
+  it('should quote char arrays and refuse text a literal cannot hold', () => {
+    expect(formatKRLCharArray('PICK A')).toBe('"PICK A"')
+    expect(() => formatKRLCharArray('PICK"; $OV_PRO=100')).toThrow('printable ASCII')
+    expect(() => formatKRLCharArray('PICK\nA')).toThrow('printable ASCII')
+    expect(() => formatKRLCharArray('')).toThrow('printable ASCII')
+  })
+})
+
+describe('validateVariables', () => {
+  it('should accept system, global and array variables', () => {
+    expect(
+      validateVariables([
+        { name: '$OV_PRO' },
+        { name: '$IN[12]', key: 'partPresent', event: VendorEventType.STATUS_CHANGED },
+        { name: 'CELL_COUNTER' },
+        { name: '$PRO_NAME1[]' },
+        { name: '$TOOL.X' },
+      ])
+    ).toEqual([])
+    expect(variableKey({ name: '$PRO_NAME1[]' })).toBe('PRO_NAME1')
+  })
+
+  it('should name the offending entry', () => {
+    const errors = validateVariables([
+      { name: '$OV_PRO' },
+      { name: 'ov pro' },
+      { name: '$ov_pro' },
+      { name: '$IN[1]', key: 'part-present', event: 'bogus' as VendorEventType },
+    ])
+
+    expect(errors.map((error) => [error.field, error.code])).toEqual([
+      ['options.variables[1].name', 'INVALID_VARIABLE'],
+      ['options.variables[2].name', 'DUPLICATE_VARIABLE'],
+      ['options.variables[3].key', 'INVALID_KEY'],
+      ['options.variables[3].event', 'INVALID_EVENT'],
+    ])
+    expect(validateVariables([])[0].field).toBe('options.variables')
+  })
+})
@@ -0,0 +1,70 @@
+import { KukaVarProxyClient } from '../kvp-client'
+import { FakeKukaVarProxy } from './kvp-server'
+
+describe('KukaVarProxyClient', () => {
+  let server: FakeKukaVarProxy
+  let client: KukaVarProxyClient
+
+  beforeEach(async () => {
+    server = new FakeKukaVarProxy()
+    const port = await server.start()
+    client = new KukaVarProxyClient({ host: '127.0.0.1', port, timeout: 500 })
+  })
+
+  afterEach(async () => {
+    await client.disconnect()
+    await server.stop()
+  })
+
+  it('should read variables as KRL text', async () => {
+    await client.connect()
+
+    expect(await client.read('$OV_PRO')).toBe('100')
+    expect(await client.read('$mode_op')).toBe('#AUT')
+    expect(await client.read('$AXIS_ACT')).toMatch(/^\{E6AXIS: A1 10.0/)
+    expect(server.requests.map((request) => request.mode)).toEqual([0, 0, 0])
+  })
+
+  it('should write a value and return what the controller holds', async () => {
+    await client.connect()
+
+    expect(await client.write('$OV_PRO', '35')).toBe('35')
+    expect(server.get('$OV_PRO')).toBe('35')
+    expect(server.requests[0]).toEqual({ mode: 1, variable: '$OV_PRO', value: '35' })
+  })
+
+  it('should reject unknown variables and refused writes', async () => {
+    await client.connect()
+
+    await expect(client.read('$NO_SUCH_VAR')).rejects.toThrow('Reading $NO_SUCH_VAR failed')
+    await expect(client.write('$MODE_OP', '#T1')).rejects.toThrow('Writing $MODE_OP failed: #AUT')
+    expect(await client.read('$OV_PRO')).toBe('100')
+  })
+
+  it('should time out when the proxy does not answer', async () => {
+    await client.connect()
+    server.silent = true
+
+    await expect(client.read('$OV_PRO')).rejects.toThrow('KukaVarProxy request timeout: $OV_PRO')
+  })
+
+  it('should count requests, bytes, latency and errors', async () => {
+    await client.connect()
+    await client.read('$OV_PRO')
+    await client.read('$NO_SUCH_VAR').catch(() => undefined)
+
+    const info = client.getConnectionInfo()
+    expect(info).toMatchObject({
+      connected: true,
+      requestsSent: 2,
+      responsesReceived: 2,
+      // Header 4, mode 1, name length 2 plus the names
+      bytesSent: 2 * 7 + '$OV_PRO'.length + '$NO_SUCH_VAR'.length,
+      // Header 4, mode 1, value length 2, status 3 plus the value 100
+      bytesReceived: 2 * 10 + 3,
+      errors: 1,
+    })
+    expect(info.averageLatency).toBeGreaterThanOrEqual(0)
+    expect(info.lastErrorAt).toBeInstanceOf(Date)
+  })
+})
@@ -0,0 +1,109 @@
+import * as net from 'net'
+
+/**
+ * Minimal KukaVarProxy for tests. Variables hold KRL text, only variables that were set exist
+ * and reading any other fails like on a controller.
+ */
+export class FakeKukaVarProxy {
+  readonly variables = new Map<string, string>()
+  readonly readOnly = new Set<string>(['$POS_ACT', '$AXIS_ACT', '$MODE_OP', '$PRO_STATE1'])
+  readonly requests: { mode: number; variable: string; value?: string }[] = []
+  silent = false // Swallow requests to test timeouts
+
+  private server = net.createServer((socket) => this.handleClient(socket))
+  private sockets = new Set<net.Socket>()
+
+  constructor() {
+    this.set('$KR_SERIALNO', '1234567')
+    this.set('$MODEL_NAME[]', '"#KR16_R1610_2 C4"')
+    this.set('$RCV_INFO[]', '"KS V8.6.7"')
+    this.set('$POS_ACT', '{E6POS: X 1200.5, Y -10.0, Z 850.25, A 90.0, B 0.0, C 180.0, S 2, T 35}')
+    this.set('$AXIS_ACT', '{E6AXIS: A1 10.0, A2 -90.0, A3 90.0, A4 0.0, A5 45.0, A6 0.0, E1 0.0}')
+    this.set('$OV_PRO', '100')
+    this.set('$MODE_OP', '#AUT')
+    this.set('$PRO_STATE1', '#P_RESET')
+    this.set('$STOPMESS', 'FALSE')
+  }
+
+  set(variable: string, value: string): void {
+    this.variables.set(variable.toUpperCase(), value)
+  }
+
+  get(variable: string): string | undefined {
+    return this.variables.get(variable.toUpperCase())
+  }
+
+  async start(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve))
+    return (this.server.address() as net.AddressInfo).port
+  }
+
+  async stop(): Promise<void> {
+    this.sockets.forEach((socket) => socket.destroy())
+    await new Promise<void>((resolve) => this.server.close(() => resolve()))
+  }
+
+  private handleClient(socket: net.Socket): void {
+    this.sockets.add(socket)
+    socket.on('close', () => this.sockets.delete(socket))
+    socket.on('error', () => undefined)
+
+    let buffer = Buffer.alloc(0)
+    socket.on('data', (data: Buffer) => {
+      buffer = Buffer.concat([buffer, data])
+      while (buffer.length >= 4 && buffer.length >= 4 + buffer.readUInt16BE(2)) {
+        const length = 4 + buffer.readUInt16BE(2)
+        const frame = buffer.subarray(0, length)
+        buffer = buffer.subarray(length)
+
+        const mode = frame.readUInt8(4)
+        const nameLength = frame.readUInt16BE(5)
+        const variable = frame.toString('latin1', 7, 7 + nameLength)
+        const value =
+          mode === 1
+            ? frame.toString(
+                'latin1',
+                9 + nameLength,
+                9 + nameLength + frame.readUInt16BE(7 + nameLength)
+              )
+            : undefined
+        this.requests.push({ mode, variable, value })
+        if (this.silent) {
+          continue
+        }
+
+        const [reply, ok] = this.respond(mode, variable, value)
+        const body = Buffer.alloc(3 + reply.length + 3)
+        body.writeUInt8(mode, 0)
+        body.writeUInt16BE(reply.length, 1)
+        reply.copy(body, 3)
+        body.set([0, 1, ok ? 1 : 0], 3 + reply.length)
+
+        const header = Buffer.alloc(4)
+        frame.copy(header, 0, 0, 2)
+        header.writeUInt16BE(body.length, 2)
+        socket.write(Buffer.concat([header, body]))
+      }
+    })
+  }
+
+  private respond(mode: number, variable: string, value?: string): [Buffer, boolean] {
+    const current = this.get(variable)
+    if (current === undefined) {
+      return [Buffer.alloc(0), false]
+    }
+    if (mode === 0) {
+      return [Buffer.from(current, 'latin1'), true]
+    }
+
+    const override = Number(value)
+    if (
+      this.readOnly.has(variable.toUpperCase()) ||
+      (variable.toUpperCase() === '$OV_PRO' && !(override >= 0 && override <= 100))
+    ) {
+      return [Buffer.from(current, 'latin1'), false]
+    }
+    this.set(variable, value!)
+    return [Buffer.from(value!, 'latin1'), true]
+  }
+}
@@ -0,0 +1,669 @@
+import {
+  IRobotVendorAdapter,
+  BaseVendorAdapter,
+  RobotVendor,
+  VendorConnectionConfig,
+  VendorConnection,
+  RobotCommand,
+  RobotCommandType,
+  CommandResult,
+  RobotTelemetry,
+  RobotInfo,
+  RobotCapability,
+  RobotSpecifications,
+  RobotStatus,
+  EventCallback,
+  EventSubscription,
+  VendorEvent,
+  VendorEventType,
+  ValidationResult,
+  ValidationError,
+  ValidationWarning,
+  VendorFeatures,
+  ConnectionProtocol,
+  ConnectionStatus,
+  TelemetryData,
+  TelemetrySource,
+  DataQuality,
+  AngleUnit,
+  CoordinateFrame,
+  ExecutionMode,
+  TemperatureUnit,
+} from '@urfmp/types'
+
+import { KukaVarProxyClient } from './kvp-client'
+import {
+  DEFAULT_VARIABLES,
+  formatKRLCharArray,
+  formatKRLValue,
+  isVariableName,
+  parseKRLValue,
+  validateVariables,
+  variableKey,
+} from './krl'
+import {
+  KRLProgramState,
+  KRLStructure,
+  KRLValue,
+  KukaControllerIdentity,
+  KukaVariableMapping,
+} from './types'
+
+const DEFAULT_PORT = 7000
+const DEFAULT_POLL_INTERVAL = 500
+const JOINTS = ['A1', 'A2', 'A3', 'A4', 'A5', 'A6']
+const EXTERNAL_AXES = ['E1', 'E2', 'E3', 'E4', 'E5', 'E6']
+
+interface KukaConnectionState {
+  client: KukaVarProxyClient
+  identity: KukaControllerIdentity
+  variables: KukaVariableMapping[]
+  pollInterval: number
+  programVariable?: string
+  pollTimer?: NodeJS.Timeout
+  polling?: Promise<TelemetryData>
+  latest?: { data: TelemetryData; sampledAt: Date }
+  values: Map<string, KRLValue> // Last value per upper-case variable name, for change events
+  listeners: Map<string, EventCallback> // By subscription id
+}
+
+/**
+ * Adapter for KUKA KRC controllers running KukaVarProxy. Everything goes through KRL
+ * variables: the configured variables are polled into TelemetryData, commands write
+ * $OV_PRO and the program selection variable of the cell program.
+ */
+export class KukaAdapter extends BaseVendorAdapter implements IRobotVendorAdapter {
+  vendor = RobotVendor.KUKA
+
+  private states = new Map<string, KukaConnectionState>()
+  private connections = new Map<string, VendorConnection>()
+  private eventSubscriptions = new Map<string, EventSubscription>()
+
+  async connect(config: VendorConnectionConfig): Promise<VendorConnection> {
+    const validation = await this.validateConnection(config)
+    if (!validation.valid) {
+      throw new Error(
+        `Invalid configuration: ${validation.errors.map((e) => e.message).join(', ')}`
+      )
+    }
+
+    const port = config.port || DEFAULT_PORT
+    const client = new KukaVarProxyClient({
+      host: config.host,
+      port,
+      timeout: config.timeout || 5000,
+    })
+
+    const connection = this.createConnection(config)
+    connection.status = ConnectionStatus.CONNECTING
+
+    const state: KukaConnectionState = {
+      client,
+      identity: {},
+      variables: config.options?.variables ?? DEFAULT_VARIABLES,
+      pollInterval: config.options?.pollInterval ?? DEFAULT_POLL_INTERVAL,
+      programVariable: config.options?.programVariable,
+      values: new Map(),
+      listeners: new Map(),
+    }
+
+    try {
+      await client.connect()
+      state.identity = await this.readIdentity(client)
+      connection.robotId = state.identity.serialNumber
+        ? `kuka-${state.identity.serialNumber}`
+        : `kuka-${config.host}-${port}`
+
+      // A first poll proves every configured variable exists on the controller
+      await this.poll(connection, state)
+
+      connection.status = ConnectionStatus.CONNECTED
+      connection.connectedAt = new Date()
+      client.onClose(() => {
+        // Later polls would reset the error metrics from the client counters, which miss the close
+        clearInterval(state.pollTimer)
+        this.markConnectionLost(connection)
+      })
+
+      state.pollTimer = setInterval(() => {
+        this.poll(connection, state).catch((error) => {
+          console.error(`KukaVarProxy poll failed (${connection.id}): ${(error as Error).message}`)
+        })
+      }, state.pollInterval)
+
+      this.states.set(connection.id, state)
+      this.connections.set(connection.id, connection)
+
+      console.log(
+        `✅ Connected to KUKA controller at ${config.host}` +
+          (state.identity.model ? ` (${state.identity.model})` : '')
+      )
+      return connection
+    } catch (error) {
+      await client.disconnect()
+      connection.status = ConnectionStatus.ERROR
+      throw new Error(`Failed to connect to KUKA controller: ${(error as Error).message}`)
+    }
+  }
+
+  async disconnect(connectionId: string): Promise<void> {
+    const connection = this.connections.get(connectionId)
+    if (!connection) {
+      throw new Error(`Connection ${connectionId} not found`)
+    }
+
+    const state = this.states.get(connectionId)
+    if (state) {
+      clearInterval(state.pollTimer)
+      state.listeners.clear()
+      await state.client.disconnect()
+      this.states.delete(connectionId)
+    }
+
+    for (const [id, subscription] of this.eventSubscriptions) {
+      if (subscription.connectionId === connectionId) {
+        subscription.active = false
+        this.eventSubscriptions.delete(id)
+      }
+    }
+
+    connection.status = ConnectionStatus.DISCONNECTED
+    this.connections.delete(connectionId)
+
+    console.log(`✅ Disconnected from KUKA controller (${connectionId})`)
+  }
+
+  async sendCommand(connectionId: string, command: RobotCommand): Promise<CommandResult> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    const client = state.client
+    const startTime = Date.now()
+
+    try {
+      let result: any
+
+      switch (command.type) {
+        case RobotCommandType.SET_SPEED: {
+          const speed = command.payload?.speed
+          if (!Number.isInteger(speed) || speed < 0 || speed > 100) {
+            throw new Error('Speed must be an integer percentage for SET_SPEED command')
+          }
+          await client.write('$OV_PRO', String(speed))
+          result = { message: `Program override set to ${speed}%` }
+          break
+        }
+
+        case RobotCommandType.LOAD_PROGRAM: {
+          const program = command.payload?.program
+          if (!state.programVariable) {
+            throw new Error('options.programVariable is required for LOAD_PROGRAM command')
+          }
+          if (typeof program !== 'number' && typeof program !== 'string') {
+            throw new Error('Program is required for LOAD_PROGRAM command')
+          }
+          // Numbers select by index, names are written as a char array
+          const literal =
+            typeof program === 'number' ? formatKRLValue(program) : formatKRLCharArray(program)
+          await client.write(state.programVariable, literal)
+          result = { message: `Program ${program} selected`, variable: state.programVariable }
+          break
+        }
+
+        case RobotCommandType.CUSTOM:
+          result = await this.runVariableAction(client, command.payload ?? {})
+          break
+
+        default:
+          throw new Error(`Unsupported command type: ${command.type}`)
+      }
+
+      return {
+        success: true,
+        commandId: command.id || `cmd-${Date.now()}`,
+        result,
+        executionTime: Date.now() - startTime,
+        timestamp: new Date(),
+      }
+    } catch (error) {
+      return {
+        success: false,
+        commandId: command.id || `cmd-${Date.now()}`,
+        error: (error as Error).message,
+        executionTime: Date.now() - startTime,
+        timestamp: new Date(),
+      }
+    } finally {
+      this.updateMetrics(connection, state)
+    }
+  }
+
+  async getTelemetry(connectionId: string): Promise<RobotTelemetry> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    try {
+      // Poll now when the last good sample is older than two intervals
+      let latest = state.latest
+      if (!latest || Date.now() - latest.sampledAt.getTime() > state.pollInterval * 2) {
+        await this.poll(connection, state)
+        latest = state.latest!
+      }
+
+      return {
+        id: `tel-${Date.now()}`,
+        robotId: connection.robotId,
+        timestamp: latest.sampledAt,
+        data: latest.data,
+        metadata: {
+          source: TelemetrySource.ROBOT_CONTROLLER,
+          quality: DataQuality.HIGH,
+          samplingRate: 1000 / state.pollInterval,
+        },
+      }
+    } catch (error) {
+      throw new Error(`Failed to get telemetry: ${(error as Error).message}`)
+    }
+  }
+
+  async getRobotInfo(connectionId: string): Promise<RobotInfo> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    const { identity } = state
+    return {
+      model: identity.model || 'KUKA KR',
+      serialNumber: identity.serialNumber || connection.robotId,
+      firmwareVersion: identity.kernelVersion || 'Unknown',
+      manufacturer: 'KUKA',
+      capabilities: [
+        'welding' as RobotCapability,
+        'material_handling' as RobotCapability,
+        'palletizing' as RobotCapability,
+      ],
+      specifications: this.getSpecifications(),
+      status: this.mapRobotStatus(state),
+    }
+  }
+
+  async subscribeToEvents(
+    connectionId: string,
+    callback: EventCallback
+  ): Promise<EventSubscription> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    const subscriptionId = `sub-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+
+    const subscription: EventSubscription = {
+      id: subscriptionId,
+      userId: '',
+      organizationId: '',
+      name: `KUKA Events ${connectionId}`,
+      filter: { types: [] },
+      channels: [],
+      enabled: true,
+      connectionId,
+      active: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+
+    // Changed variables are reported on every poll
+    state.listeners.set(subscriptionId, callback)
+    this.eventSubscriptions.set(subscriptionId, subscription)
+    return subscription
+  }
+
+  async unsubscribeFromEvents(subscriptionId: string): Promise<void> {
+    const subscription = this.eventSubscriptions.get(subscriptionId)
+    if (subscription) {
+      subscription.active = false
+      this.states.get(subscription.connectionId!)?.listeners.delete(subscriptionId)
+      this.eventSubscriptions.delete(subscriptionId)
+    }
+  }
+
+  async validateConnection(config: VendorConnectionConfig): Promise<ValidationResult> {
+    const baseValidation = this.validateConfig(config)
+    const errors: ValidationError[] = [...baseValidation.errors]
+    const warnings: ValidationWarning[] = [...baseValidation.warnings]
+
+    if (config.protocol !== ConnectionProtocol.TCP) {
+      errors.push({
+        field: 'protocol',
+        message: 'KukaVarProxy is reached over tcp',
+        code: 'UNSUPPORTED_PROTOCOL',
+      })
+    }
+
+    if (config.authentication) {
+      warnings.push({
+        field: 'authentication',
+        message: 'KukaVarProxy has no authentication, credentials are ignored',
+        code: 'AUTHENTICATION_IGNORED',
+      })
+    }
+
+    errors.push(...validateVariables(config.options?.variables))
+
+    const programVariable = config.options?.programVariable
+    if (programVariable !== undefined && !isVariableName(programVariable)) {
+      errors.push({
+        field: 'options.programVariable',
+        message: 'Program variable must be a KRL variable such as PROG_NR',
+        code: 'INVALID_VARIABLE',
+      })
+    }
+
+    const pollInterval = config.options?.pollInterval
+    if (pollInterval !== undefined && !(pollInterval >= 50)) {
+      errors.push({
+        field: 'options.pollInterval',
+        message: 'Poll interval must be at least 50 ms',
+        code: 'INVALID_POLL_INTERVAL',
+      })
+    }
+
+    if (config.port && config.port !== DEFAULT_PORT) {
+      warnings.push({
+        field: 'port',
+        message: `KukaVarProxy listens on port ${DEFAULT_PORT}`,
+        code: 'NON_STANDARD_PORT',
+      })
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+    }
+  }
+
+  getSupportedFeatures(): VendorFeatures {
+    return {
+      supportsRealTimeControl: false,
+      supportsFileTransfer: false,
+      supportsRemoteAccess: true,
+      supportsVideoStream: false,
+      supportsForceControl: false,
+      supportsCollisionDetection: false,
+      supportsSafetyMonitoring: true,
+      supportsPathPlanning: false,
+      supportsCalibration: false,
+      supportsOTA: false,
+      customFeatures: ['kukavarproxy', 'krl_variables', 'program_override', 'program_selection'],
+    }
+  }
+
+  // Private helper methods
+
+  // Identity variables are informative only, a proxy that refuses them still gets connected
+  private async readIdentity(client: KukaVarProxyClient): Promise<KukaControllerIdentity> {
+    const read = async (variable: string) => {
+      try {
+        const value = parseKRLValue(await client.read(variable))
+        return value === '' ? undefined : String(value).trim()
+      } catch {
+        return undefined
+      }
+    }
+
+    return {
+      serialNumber: await read('$KR_SERIALNO'),
+      model: await read('$MODEL_NAME[]'),
+      kernelVersion: await read('$RCV_INFO[]'),
+    }
+  }
+
+  // One poll at a time per connection, a slow proxy must not pile up requests
+  private poll(connection: VendorConnection, state: KukaConnectionState): Promise<TelemetryData> {
+    if (!state.polling) {
+      state.polling = this.readAll(connection, state).finally(() => {
+        state.polling = undefined
+        this.updateMetrics(connection, state)
+      })
+    }
+    return state.polling
+  }
+
+  private async readAll(
+    connection: VendorConnection,
+    state: KukaConnectionState
+  ): Promise<TelemetryData> {
+    const values = new Map<string, KRLValue>()
+    for (const variable of state.variables) {
+      values.set(variable.name, parseKRLValue(await state.client.read(variable.name)))
+    }
+
+    const data = this.toTelemetryData(state.variables, values)
+    const sampledAt = new Date()
+    state.latest = { data, sampledAt }
+    connection.lastHeartbeat = sampledAt
+
+    for (const variable of state.variables) {
+      const name = variable.name.toUpperCase() // KRL names ignore case
+      const value = values.get(variable.name)!
+      const previous = state.values.get(name)
+      state.values.set(name, value)
+
+      if (previous === undefined || JSON.stringify(previous) === JSON.stringify(value)) {
+        continue
+      }
+      const type = variable.event ?? this.changeEventType(name, previous, value)
+      if (type) {
+        const event = this.toVendorEvent(connection.robotId, type, {
+          variable: variable.name,
+          previous,
+          value,
+        })
+        state.listeners.forEach((callback) => callback(event))
+      }
+    }
+
+    return data
+  }
+
+  private toTelemetryData(
+    variables: KukaVariableMapping[],
+    values: Map<string, KRLValue>
+  ): TelemetryData {
+    const data: TelemetryData = {}
+    const custom: Record<string, any> = {}
+
+    for (const variable of variables) {
+      const value = values.get(variable.name)!
+      const name = variable.name.toUpperCase()
+
+      if (name === '$POS_ACT' && typeof value === 'object') {
+        // KRL angles: A turns about Z, B about Y, C about X
+        data.position = {
+          x: Number(value.X),
+          y: Number(value.Y),
+          z: Number(value.Z),
+          rx: Number(value.C),
+          ry: Number(value.B),
+          rz: Number(value.A),
+          frame: CoordinateFrame.BASE,
+        }
+        custom.axisConfiguration = { status: value.S, turn: value.T }
+      } else if (name === '$AXIS_ACT' && typeof value === 'object') {
+        const [joint1, joint2, joint3, joint4, joint5, joint6] = JOINTS.map((axis) =>
+          Number(value[axis])
+        )
+        data.jointAngles = {
+          joint1,
+          joint2,
+          joint3,
+          joint4,
+          joint5,
+          joint6,
+          unit: AngleUnit.DEGREES,
+        }
+        custom.externalAxes = this.externalAxes(value)
+      } else if (name === '$OV_PRO') {
+        custom.override = value
+      } else if (name === '$MODE_OP') {
+        custom.operationMode = value
+        data.programState = {
+          executionMode:
+            value === 'AUT' || value === 'EX' ? ExecutionMode.AUTOMATIC : ExecutionMode.MANUAL,
+        }
+      } else if (name === '$PRO_STATE1') {
+        custom.interpreterState = value
+      } else if (name === '$STOPMESS') {
+        custom.stopMessage = value
+      } else {
+        custom[variableKey(variable)] = value
+      }
+    }
+
+    if (custom.operationMode !== undefined || custom.stopMessage !== undefined) {
+      // KRL has no single emergency stop variable, $STOPMESS covers every stop message
+      data.safety = {
+        emergencyStop: false,
+        protectiveStop: custom.stopMessage === true,
+        reducedMode: custom.operationMode === 'T1',
+        safetyZoneViolation: false,
+      }
+    }
+
+    data.custom = custom
+    return data
+  }
+
+  private externalAxes(axes: KRLStructure): number[] {
+    return EXTERNAL_AXES.filter((axis) => axis in axes).map((axis) => Number(axes[axis]))
+  }
+
+  private changeEventType(
+    name: string,
+    previous: KRLValue,
+    value: KRLValue
+  ): VendorEventType | undefined {
+    switch (name) {
+      case '$OV_PRO':
+        return VendorEventType.SPEED_CHANGED
+      case '$MODE_OP':
+        return VendorEventType.MODE_CHANGED
+      case '$STOPMESS':
+        return value === true ? VendorEventType.SAFETY_VIOLATION : VendorEventType.STATUS_CHANGED
+      case '$PRO_STATE1':
+        switch (value as KRLProgramState) {
+          case 'P_ACTIVE':
+            return previous === 'P_STOP'
+              ? VendorEventType.PROGRAM_RESUMED
+              : VendorEventType.PROGRAM_STARTED
+          case 'P_STOP':
+            return VendorEventType.PROGRAM_PAUSED
+          default:
+            return VendorEventType.PROGRAM_STOPPED
+        }
+      default:
+        return undefined
+    }
+  }
+
+  private toVendorEvent(
+    robotId: string,
+    type: VendorEventType,
+    data: Record<string, any>
+  ): VendorEvent {
+    return {
+      id: `evt-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      robotId,
+      data,
+      timestamp: new Date(),
+      source: 'kuka_varproxy',
+    }
+  }
+
+  // Direct variable access, sent as CUSTOM { action: 'read_variable' | 'write_variable' }
+  private async runVariableAction(
+    client: KukaVarProxyClient,
+    payload: Record<string, any>
+  ): Promise<any> {
+    const { action, name, value } = payload
+
+    if (action !== 'read_variable' && action !== 'write_variable') {
+      throw new Error(`Unsupported variable action: ${action}`)
+    }
+    if (!isVariableName(name)) {
+      throw new Error(`name must be a KRL variable for ${action}`)
+    }
+
+    if (action === 'read_variable') {
+      return { name, value: parseKRLValue(await client.read(name)) }
+    }
+    if (value === undefined || value === null) {
+      throw new Error('value is required for write_variable')
+    }
+    return { name, value: parseKRLValue(await client.write(name, formatKRLValue(value))) }
+  }
+
+  private updateMetrics(connection: VendorConnection, state: KukaConnectionState): void {
+    const info = state.client.getConnectionInfo()
+    connection.metrics = {
+      uptime: info.connectedAt ? Math.round((Date.now() - info.connectedAt.getTime()) / 1000) : 0,
+      messagesReceived: info.responsesReceived,
+      messagesSent: info.requestsSent,
+      bytesReceived: info.bytesReceived,
+      bytesSent: info.bytesSent,
+      averageLatency: info.averageLatency,
+      errorCount: info.errors,
+      lastErrorAt: info.lastErrorAt,
+    }
+  }
+
+  private mapRobotStatus(state: KukaConnectionState): RobotStatus {
+    if (!state.client.isConnected()) {
+      return RobotStatus.OFFLINE
+    }
+    if (state.values.get('$STOPMESS') === true) {
+      return RobotStatus.ERROR
+    }
+    switch (state.values.get('$PRO_STATE1') as KRLProgramState | undefined) {
+      case 'P_ACTIVE':
+        return RobotStatus.RUNNING
+      case 'P_STOP':
+      case 'P_END':
+      case 'P_RESET':
+        return RobotStatus.IDLE
+      case 'P_FREE':
+        return RobotStatus.STOPPED
+      default:
+        return RobotStatus.ONLINE
+    }
+  }
+
+  private getSpecifications(): RobotSpecifications {
+    // $MODEL_NAME names the robot but the proxy has no access to its data sheet
+    const range = { min: 0, max: 0, unit: 'mm' }
+    return {
+      axes: 6,
+      payload: 0,
+      reach: 0,
+      repeatability: 0,
+      maxSpeed: 0,
+      maxAcceleration: 0,
+      workingRange: { x: range, y: range, z: range },
+      operatingTemperature: { min: 5, max: 45, unit: TemperatureUnit.CELSIUS },
+      power: { voltage: 0, frequency: 0, consumption: 0, phases: 3 },
+      dimensions: { length: 0, width: 0, height: 0 },
+      weight: 0,
+    }
+  }
+}
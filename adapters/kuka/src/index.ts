@@ -0,0 +1,18 @@
+/**
+ * KUKA adapter for URFMP
+ * Supports: KR series robots on KRC4/KRC5 controllers running KukaVarProxy
+ */
+
+export { KukaAdapter } from './adapter'
+export { adapterPlugin } from './plugin'
+export { KukaVarProxyClient } from './kvp-client'
+export {
+  formatKRLCharArray,
+  formatKRLValue,
+  isVariableName,
+  parseKRLValue,
+  validateVariables,
+  variableKey,
+  DEFAULT_VARIABLES,
+} from './krl'
+export * from './types'
@@ -0,0 +1,215 @@
+import { ValidationError, VendorEventType } from '@urfmp/types'
+import { KRLStructure, KRLValue, KukaVariableMapping } from './types'
+
+// Read when options.variables is not given, the adapter maps these into their telemetry fields
+export const DEFAULT_VARIABLES: KukaVariableMapping[] = [
+  { name: '$POS_ACT' },
+  { name: '$AXIS_ACT' },
+  { name: '$OV_PRO' },
+  { name: '$MODE_OP' },
+  { name: '$PRO_STATE1' },
+  { name: '$STOPMESS' },
+]
+
+// Plain and system variables, array elements and structure components, e.g. $IN[3], $TOOL.X
+const VARIABLE_NAME = /^\$?[A-Za-z_]\w*(\[[\d,]*\])?(\.[A-Za-z_]\w*)*$/
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/
+// Char array literals have no escapes, so they hold printable ASCII except the quote
+const CHAR_ARRAY_TEXT = /^[\x20\x21\x23-\x7e]+$/
+
+export function isVariableName(name: unknown): name is string {
+  return typeof name === 'string' && name.length <= 255 && VARIABLE_NAME.test(name)
+}
+
+/**
+ * Key of a variable in TelemetryData.custom: $OV_PRO becomes OV_PRO, $PRO_NAME1[] PRO_NAME1
+ */
+export function variableKey(mapping: KukaVariableMapping): string {
+  return mapping.key ?? mapping.name.replace(/^\$/, '').replace(/\[\]$/, '')
+}
+
+/**
+ * Parse the text KukaVarProxy returns for a variable. Anything that is not a KRL literal,
+ * e.g. a bit array, comes back as the trimmed text.
+ */
+export function parseKRLValue(text: string): KRLValue {
+  const source = text.trim()
+  try {
+    const parser = new KRLParser(source)
+    const value = parser.value()
+    return parser.done() ? value : source
+  } catch {
+    return source
+  }
+}
+
+/**
+ * Format a value as a KRL literal for writing. Strings are written as given, so they can hold
+ * enums (#T1), quoted char arrays ("PICK") or any other literal.
+ */
+export function formatKRLValue(value: KRLValue): string {
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE'
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`${value} has no KRL representation`)
+    }
+    return String(value)
+  }
+  if (typeof value === 'object') {
+    const components = Object.entries(value).map(
+      ([name, item]) => `${name} ${formatKRLValue(item)}`
+    )
+    return `{${components.join(', ')}}`
+  }
+  return value
+}
+
+/**
+ * Quote text as a KRL char array literal, PICK_A becomes "PICK_A"
+ */
+export function formatKRLCharArray(text: string): string {
+  if (!CHAR_ARRAY_TEXT.test(text)) {
+    throw new Error('A KRL char array holds printable ASCII characters other than "')
+  }
+  return `"${text}"`
+}
+
+/**
+ * Check options.variables, errors name the offending field by path
+ */
+export function validateVariables(variables: unknown): ValidationError[] {
+  const errors: ValidationError[] = []
+  const error = (field: string, message: string, code: string) =>
+    errors.push({ field: `options.variables${field}`, message, code })
+
+  if (variables === undefined) {
+    return errors
+  }
+  if (!Array.isArray(variables) || variables.length === 0) {
+    error('', 'Variables must be a non-empty list', 'INVALID_VARIABLES')
+    return errors
+  }
+
+  const keys = new Set<string>()
+  variables.forEach((variable: KukaVariableMapping, i) => {
+    const field = `[${i}]`
+
+    if (!isVariableName(variable?.name)) {
+      error(`${field}.name`, 'Name must be a KRL variable such as $OV_PRO', 'INVALID_VARIABLE')
+      return
+    }
+
+    if (variable.key !== undefined && !/^\w+$/.test(variable.key)) {
+      error(`${field}.key`, 'Key may only hold letters, digits and _', 'INVALID_KEY')
+    }
+
+    const key = variableKey(variable).toUpperCase()
+    if (keys.has(key)) {
+      error(`${field}.name`, `${variable.name} is read twice`, 'DUPLICATE_VARIABLE')
+    }
+    keys.add(key)
+
+    if (variable.event !== undefined && !Object.values(VendorEventType).includes(variable.event)) {
+      error(`${field}.event`, `Unknown event type ${variable.event}`, 'INVALID_EVENT')
+    }
+  })
+
+  return errors
+}
+
+class KRLParser {
+  private position = 0
+
+  constructor(private source: string) {}
+
+  done(): boolean {
+    this.skipSpace()
+    return this.position === this.source.length
+  }
+
+  value(): KRLValue {
+    this.skipSpace()
+    const char = this.source[this.position]
+
+    if (char === '{') {
+      return this.structure()
+    }
+    if (char === '"') {
+      const end = this.source.indexOf('"', this.position + 1)
+      if (end < 0) {
+        throw new Error('Unterminated string')
+      }
+      const text = this.source.slice(this.position + 1, end)
+      this.position = end + 1
+      return text
+    }
+    if (char === '#') {
+      this.position++
+      return this.word()
+    }
+
+    const token = this.token()
+    if (/^(TRUE|FALSE)$/i.test(token)) {
+      return token.toUpperCase() === 'TRUE'
+    }
+    if (NUMBER.test(token)) {
+      return Number(token)
+    }
+    throw new Error(`Unexpected ${token}`)
+  }
+
+  // {E6POS: X 1.0, Y 2.0} and {X 1.0, Y 2.0}, the type name is dropped
+  private structure(): KRLStructure {
+    const structure: KRLStructure = {}
+    this.position++
+
+    const typeEnd = this.source.indexOf(':', this.position)
+    if (typeEnd >= 0 && /^\s*\w+\s*$/.test(this.source.slice(this.position, typeEnd))) {
+      this.position = typeEnd + 1
+    }
+
+    this.skipSpace()
+    while (this.source[this.position] !== '}') {
+      const name = this.word()
+      structure[name] = this.value()
+      this.skipSpace()
+
+      if (this.source[this.position] === ',') {
+        this.position++
+        this.skipSpace()
+      } else if (this.source[this.position] !== '}') {
+        throw new Error('Expected , or }')
+      }
+    }
+
+    this.position++
+    return structure
+  }
+
+  private word(): string {
+    this.skipSpace()
+    const match = /^\w+/.exec(this.source.slice(this.position))
+    if (!match) {
+      throw new Error('Expected a name')
+    }
+    this.position += match[0].length
+    return match[0]
+  }
+
+  private token(): string {
+    const match = /^[^\s,}]+/.exec(this.source.slice(this.position))
+    if (!match) {
+      throw new Error('Expected a value')
+    }
+    this.position += match[0].length
+    return match[0]
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.source[this.position] ?? '')) {
+      this.position++
+    }
+  }
+}
@@ -0,0 +1,254 @@
+import * as net from 'net'
+import { KukaVarProxyConfig, KukaVarProxyConnectionInfo, KukaVarProxyMode } from './types'
+
+const HEADER_LENGTH = 4 // message id, length of the rest
+const STATUS_LENGTH = 3 // Trailer of every response, the last byte is 1 on success
+const MAX_FIELD_LENGTH = 0xffff
+
+interface PendingRequest {
+  messageId: number
+  variable: string
+  mode: KukaVarProxyMode
+  sentAt: number
+  resolve: (value: string) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+/**
+ * Client for KukaVarProxy, the OpenShowVar server running on the KRC. Every request reads or
+ * writes one KRL variable as text. Requests go out one at a time, the proxy serves its clients
+ * from a single loop on the controller.
+ */
+export class KukaVarProxyClient {
+  private config: KukaVarProxyConfig
+  private socket?: net.Socket
+  private connected = false
+  private connectedAt?: Date
+  private buffer = Buffer.alloc(0)
+  private pending?: PendingRequest
+  private requestChain: Promise<unknown> = Promise.resolve()
+  private messageId = 0
+  private requestsSent = 0
+  private responsesReceived = 0
+  private bytesSent = 0
+  private bytesReceived = 0
+  private totalLatency = 0
+  private errors = 0
+  private lastErrorAt?: Date
+  private closeCallback?: () => void
+
+  constructor(config: KukaVarProxyConfig) {
+    this.config = config
+  }
+
+  async connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket = new net.Socket()
+      this.buffer = Buffer.alloc(0)
+
+      this.socket.on('data', (data: Buffer) => this.handleData(data))
+
+      this.socket.connect(this.config.port, this.config.host, () => {
+        this.socket?.setTimeout(0)
+        this.connected = true
+        this.connectedAt = new Date()
+        console.log(`Connected to KukaVarProxy at ${this.config.host}:${this.config.port}`)
+        resolve()
+      })
+
+      this.socket.on('error', (error) => {
+        this.connected = false
+        this.recordError()
+        this.rejectPending(new Error(`KukaVarProxy connection error: ${error.message}`))
+        reject(new Error(`KukaVarProxy connection failed: ${error.message}`))
+      })
+
+      this.socket.on('close', () => {
+        this.connected = false
+        this.rejectPending(new Error('KukaVarProxy connection closed'))
+        console.log('KukaVarProxy connection closed')
+        this.closeCallback?.()
+      })
+
+      this.socket.setTimeout(this.config.timeout, () => {
+        this.socket?.destroy()
+        reject(new Error('KukaVarProxy connection timeout'))
+      })
+    })
+  }
+
+  async disconnect(): Promise<void> {
+    this.rejectPending(new Error('KukaVarProxy connection closed'))
+    if (this.socket) {
+      this.socket.removeAllListeners()
+      this.socket.destroy()
+      this.socket = undefined
+    }
+    this.connected = false
+  }
+
+  /**
+   * Called when the proxy or the network closes the socket, not on disconnect()
+   */
+  onClose(callback: () => void): void {
+    this.closeCallback = callback
+  }
+
+  /**
+   * Read a variable, the value comes back as KRL text, e.g. {E6AXIS: A1 0.0, ...} or #AUT
+   */
+  async read(variable: string): Promise<string> {
+    return this.request(KukaVarProxyMode.READ, variable)
+  }
+
+  /**
+   * Write a KRL literal to a variable, the proxy answers with the value now held
+   */
+  async write(variable: string, value: string): Promise<string> {
+    return this.request(KukaVarProxyMode.WRITE, variable, value)
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  getConnectionInfo(): KukaVarProxyConnectionInfo {
+    return {
+      connected: this.connected,
+      host: this.config.host,
+      port: this.config.port,
+      connectedAt: this.connectedAt,
+      requestsSent: this.requestsSent,
+      responsesReceived: this.responsesReceived,
+      bytesSent: this.bytesSent,
+      bytesReceived: this.bytesReceived,
+      averageLatency: this.responsesReceived ? this.totalLatency / this.responsesReceived : 0,
+      errors: this.errors,
+      lastErrorAt: this.lastErrorAt,
+    }
+  }
+
+  private request(mode: KukaVarProxyMode, variable: string, value?: string): Promise<string> {
+    const result = this.requestChain.then(() => this.writeRequest(mode, variable, value))
+    this.requestChain = result.catch(() => undefined)
+    return result
+  }
+
+  private writeRequest(mode: KukaVarProxyMode, variable: string, value?: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.connected) {
+        reject(new Error('Not connected to KukaVarProxy'))
+        return
+      }
+
+      const name = Buffer.from(variable, 'latin1')
+      const fields = [name]
+      if (mode === KukaVarProxyMode.WRITE) {
+        fields.push(Buffer.from(value ?? '', 'latin1'))
+      }
+      if (name.length === 0 || fields.some((field) => field.length > MAX_FIELD_LENGTH)) {
+        reject(new Error(`Invalid KRL variable request: ${variable}`))
+        return
+      }
+
+      this.messageId = (this.messageId + 1) & 0xffff
+
+      // Mode, then every field with a 16-bit length in front
+      const body = Buffer.concat([
+        Buffer.from([mode]),
+        ...fields.flatMap((field) => {
+          const length = Buffer.alloc(2)
+          length.writeUInt16BE(field.length, 0)
+          return [length, field]
+        }),
+      ])
+      const header = Buffer.alloc(HEADER_LENGTH)
+      header.writeUInt16BE(this.messageId, 0)
+      header.writeUInt16BE(body.length, 2)
+
+      const timer = setTimeout(() => {
+        this.pending = undefined
+        this.recordError()
+        reject(new Error(`KukaVarProxy request timeout: ${variable}`))
+      }, this.config.timeout)
+
+      this.pending = {
+        messageId: this.messageId,
+        variable,
+        mode,
+        sentAt: Date.now(),
+        resolve,
+        reject,
+        timer,
+      }
+      this.socket.write(Buffer.concat([header, body]))
+      this.requestsSent++
+      this.bytesSent += HEADER_LENGTH + body.length
+    })
+  }
+
+  private handleData(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data])
+    this.bytesReceived += data.length
+
+    while (this.buffer.length >= HEADER_LENGTH) {
+      const frameLength = HEADER_LENGTH + this.buffer.readUInt16BE(2)
+      if (this.buffer.length < frameLength) {
+        return
+      }
+
+      const frame = this.buffer.subarray(0, frameLength)
+      this.buffer = this.buffer.subarray(frameLength)
+      this.handleFrame(frame)
+    }
+  }
+
+  private handleFrame(frame: Buffer): void {
+    const messageId = frame.readUInt16BE(0)
+
+    // A response to a request that already timed out answers nothing we are waiting for
+    if (!this.pending || this.pending.messageId !== messageId) {
+      return
+    }
+
+    const { variable, mode, sentAt, resolve, reject, timer } = this.pending
+    clearTimeout(timer)
+    this.pending = undefined
+    this.responsesReceived++
+    this.totalLatency += Date.now() - sentAt
+
+    const action = mode === KukaVarProxyMode.WRITE ? 'Writing' : 'Reading'
+    if (frame.length < HEADER_LENGTH + 3 + STATUS_LENGTH) {
+      this.recordError()
+      reject(new Error(`Short KukaVarProxy response for ${variable}`))
+      return
+    }
+
+    const valueLength = frame.readUInt16BE(HEADER_LENGTH + 1)
+    const value = frame.toString('latin1', HEADER_LENGTH + 3, HEADER_LENGTH + 3 + valueLength)
+    const status = frame.subarray(frame.length - STATUS_LENGTH)
+
+    // The proxy reports unknown variables and refused writes only through the status
+    if (status[STATUS_LENGTH - 1] !== 1) {
+      this.recordError()
+      reject(new Error(`${action} ${variable} failed${value ? `: ${value}` : ''}`))
+      return
+    }
+
+    resolve(value)
+  }
+
+  private recordError(): void {
+    this.errors++
+    this.lastErrorAt = new Date()
+  }
+
+  private rejectPending(error: Error): void {
+    if (this.pending) {
+      clearTimeout(this.pending.timer)
+      this.pending.reject(error)
+      this.pending = undefined
+    }
+  }
+}
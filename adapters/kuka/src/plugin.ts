@@ -0,0 +1,68 @@
+import {
+  ConnectionProtocol,
+  createConnectionConfigSchema,
+  VendorAdapterPlugin,
+  VendorEventType,
+} from '@urfmp/types'
+import { KukaAdapter } from './adapter'
+
+/**
+ * Entry point for the adapter loader
+ */
+export const adapterPlugin: VendorAdapterPlugin = {
+  config: {
+    name: 'kuka',
+    version: '1.0.0',
+    description: 'KUKA KRC adapter over the KukaVarProxy/OpenShowVar protocol',
+    author: 'URFMP Team',
+    license: 'MIT',
+    supportedRobots: [
+      {
+        model: 'KR series',
+        series: 'KR C4',
+        firmwareVersions: ['KSS 8.x'],
+        notes: 'KukaVarProxy must run on the controller',
+      },
+      {
+        model: 'KR series',
+        series: 'KR C5',
+        firmwareVersions: ['KSS 8.6+'],
+        notes: 'KukaVarProxy must run on the controller',
+      },
+    ],
+    defaultConfig: {
+      host: '172.31.1.147',
+      port: 7000,
+      protocol: ConnectionProtocol.TCP,
+      timeout: 5000,
+    },
+    configSchema: createConnectionConfigSchema({
+      protocols: [ConnectionProtocol.TCP],
+      port: 7000,
+      options: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          variables: {
+            type: 'array',
+            minItems: 1,
+            title: 'KRL variables',
+            items: {
+              type: 'object',
+              required: ['name'],
+              properties: {
+                name: { type: 'string', minLength: 1 },
+                key: { type: 'string', pattern: '^\\w+$' },
+                event: { type: 'string', enum: Object.values(VendorEventType) },
+              },
+            },
+          },
+          programVariable: { type: 'string', minLength: 1, title: 'Program variable' },
+          pollInterval: { type: 'integer', minimum: 50, default: 500, title: 'Poll interval (ms)' },
+        },
+      },
+    }),
+    features: new KukaAdapter().getSupportedFeatures(),
+  },
+  createAdapter: () => new KukaAdapter(),
+}
@@ -0,0 +1,59 @@
+// KukaVarProxy / OpenShowVar adapter types
+import { VendorEventType } from '@urfmp/types'
+
+export interface KukaVarProxyConfig {
+  host: string
+  port: number // Default: 7000
+  timeout: number
+}
+
+export enum KukaVarProxyMode {
+  READ = 0,
+  WRITE = 1,
+}
+
+/**
+ * A parsed KRL value. Enums lose their leading #, structures become plain objects keyed by
+ * component name, e.g. {E6POS: X 10.5, Y 0.0} reads as { X: 10.5, Y: 0 }.
+ */
+export type KRLValue = number | boolean | string | KRLStructure
+
+export interface KRLStructure {
+  [component: string]: KRLValue
+}
+
+// Operating modes of $MODE_OP
+export type KRLOperationMode = 'T1' | 'T2' | 'AUT' | 'EX' | 'INVALID'
+
+// States of the robot interpreter, $PRO_STATE1
+export type KRLProgramState = 'P_FREE' | 'P_RESET' | 'P_ACTIVE' | 'P_STOP' | 'P_END'
+
+/**
+ * A KRL variable read on every poll. The system variables the adapter knows land in their
+ * TelemetryData fields, any other variable in custom under its key.
+ */
+export interface KukaVariableMapping {
+  name: string // e.g. $OV_PRO, $IN[12], MY_COUNTER, $PRO_NAME1[]
+  key?: string // Key in custom, defaults to the name without $ and []
+  event?: VendorEventType // Emitted whenever the value changes
+}
+
+export interface KukaControllerIdentity {
+  serialNumber?: string // $KR_SERIALNO
+  model?: string // $MODEL_NAME[]
+  kernelVersion?: string // $RCV_INFO[]
+}
+
+export interface KukaVarProxyConnectionInfo {
+  connected: boolean
+  host: string
+  port: number
+  connectedAt?: Date
+  requestsSent: number
+  responsesReceived: number
+  bytesSent: number
+  bytesReceived: number
+  averageLatency: number // ms
+  errors: number
+  lastErrorAt?: Date
+}
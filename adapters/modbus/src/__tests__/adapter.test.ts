@@ -0,0 +1,196 @@
+import {
+  ConnectionProtocol,
+  ConnectionStatus,
+  RobotCommandType,
+  VendorConnection,
+  VendorEvent,
+  VendorEventType,
+} from '@urfmp/types'
+import { ModbusAdapter } from '../adapter'
+import { ModbusMapping } from '../types'
+import { FakeModbusServer } from './modbus-server'
+
+// AGV charger: status word, output voltage in 0.1 V, power as float, e-stop input, enable coil
+const CHARGER_MAPPING: ModbusMapping = {
+  model: 'AGV Charger 48V',
+  manufacturer: 'Acme',
+  serialNumber: 'CHG-7',
+  pollInterval: 50,
+  registers: [
+    {
+      name: 'charging',
+      area: 'holding',
+      address: 0,
+      type: 'bool',
+      bit: 0,
+      target: 'custom.charging',
+    },
+    {
+      name: 'fault',
+      area: 'holding',
+      address: 0,
+      type: 'bool',
+      bit: 2,
+      target: 'custom.fault',
+      event: VendorEventType.ERROR_OCCURRED,
+    },
+    { area: 'input', address: 10, scale: 0.1, target: 'voltage.supply', unit: 'V' },
+    { area: 'input', address: 11, type: 'float32', target: 'power.total', unit: 'W' },
+    {
+      area: 'discrete_input',
+      address: 0,
+      target: 'safety.emergencyStop',
+      event: VendorEventType.EMERGENCY_STOP,
+    },
+  ],
+  commands: [
+    { command: RobotCommandType.START, area: 'coil', address: 0, value: true },
+    { command: RobotCommandType.STOP, area: 'coil', address: 0, value: false },
+    {
+      command: RobotCommandType.SET_SPEED,
+      area: 'holding',
+      address: 5,
+      scale: 0.1,
+      payloadField: 'speed',
+    },
+  ],
+}
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+  const deadline = Date.now() + timeout
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+describe('ModbusAdapter', () => {
+  let server: FakeModbusServer
+  let adapter: ModbusAdapter
+  let connection: VendorConnection | undefined
+  let port: number
+
+  const connect = (mapping: ModbusMapping = CHARGER_MAPPING) =>
+    adapter.connect({
+      host: '127.0.0.1',
+      port,
+      protocol: ConnectionProtocol.MODBUS,
+      timeout: 1000,
+      options: { mapping },
+    })
+
+  beforeEach(async () => {
+    server = new FakeModbusServer()
+    server.set('holding', 0, 0b001)
+    server.set('holding', 5, 0)
+    server.set('input', 10, 482, 0x4348, 0x0000)
+    server.set('discrete_input', 0, 0)
+    server.set('coil', 0, 0)
+    port = await server.start()
+    adapter = new ModbusAdapter()
+  })
+
+  afterEach(async () => {
+    if (connection) {
+      await adapter.disconnect(connection.id).catch(() => undefined)
+      connection = undefined
+    }
+    await server.stop()
+  })
+
+  it('should map polled registers into telemetry', async () => {
+    connection = await connect()
+
+    const telemetry = await adapter.getTelemetry(connection.id)
+
+    expect(connection.robotId).toBe('CHG-7')
+    expect(telemetry.data).toEqual({
+      custom: { charging: true, fault: false },
+      voltage: { supply: 48.2, unit: 'V' },
+      power: { total: 200, unit: 'W' },
+      safety: { emergencyStop: false },
+    })
+    expect(telemetry.metadata?.samplingRate).toBe(20)
+
+    // Status word, input block and discrete input, one read each
+    expect(server.requests.slice(0, 3).map((request) => request.functionCode)).toEqual([2, 3, 4])
+  })
+
+  it('should write the mapped registers for commands', async () => {
+    connection = await connect()
+
+    const start = await adapter.sendCommand(connection.id, {
+      id: 'cmd-1',
+      type: RobotCommandType.START,
+      payload: {},
+    } as any)
+    expect(start.success).toBe(true)
+    expect(server.areas.coil.get(0)).toBe(1)
+
+    const speed = await adapter.sendCommand(connection.id, {
+      id: 'cmd-2',
+      type: RobotCommandType.SET_SPEED,
+      payload: { speed: 12.5 },
+    } as any)
+    expect(speed.success).toBe(true)
+    expect(server.areas.holding.get(5)).toBe(125)
+
+    const missing = await adapter.sendCommand(connection.id, {
+      id: 'cmd-3',
+      type: RobotCommandType.SET_SPEED,
+      payload: {},
+    } as any)
+    expect(missing).toMatchObject({
+      success: false,
+      error: 'speed is required for set_speed command',
+    })
+
+    const custom = await adapter.sendCommand(connection.id, {
+      id: 'cmd-4',
+      type: RobotCommandType.CUSTOM,
+      payload: { area: 'holding', address: 5, value: 7 },
+    } as any)
+    expect(custom.success).toBe(true)
+    expect(server.areas.holding.get(5)).toBe(7)
+  })
+
+  it('should emit events with the previous and new value when a register changes', async () => {
+    connection = await connect()
+    const events: VendorEvent[] = []
+    await adapter.subscribeToEvents(connection.id, (event) => events.push(event))
+
+    server.set('discrete_input', 0, 1)
+    server.set('holding', 0, 0b101)
+    await waitFor(() => events.length >= 2)
+
+    expect(events.map((event) => event.type).sort()).toEqual([
+      VendorEventType.EMERGENCY_STOP,
+      VendorEventType.ERROR_OCCURRED,
+    ])
+    expect(events.find((event) => event.type === VendorEventType.EMERGENCY_STOP)).toMatchObject({
+      robotId: 'CHG-7',
+      source: 'modbus',
+      data: { target: 'safety.emergencyStop', previous: false, value: true },
+    })
+  })
+
+  it('should put the connection in error when the device closes the link', async () => {
+    connection = await connect()
+
+    await server.stop()
+    await waitFor(() => connection!.status === ConnectionStatus.ERROR)
+
+    expect(connection.metrics.errorCount).toBe(1)
+  })
+
+  it('should refuse to connect when a mapped address does not exist', async () => {
+    const mapping = {
+      ...CHARGER_MAPPING,
+      registers: [{ area: 'input' as const, address: 99, target: 'custom.missing' }],
+    }
+
+    await expect(connect(mapping)).rejects.toThrow('ILLEGAL_DATA_ADDRESS')
+  })
+})
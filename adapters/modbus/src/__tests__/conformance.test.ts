@@ -0,0 +1,60 @@
+import { describeAdapterConformance } from '@urfmp/adapter-conformance'
+import { ConnectionProtocol, RobotCommandType, VendorEventType } from '@urfmp/types'
+import { ModbusAdapter } from '../adapter'
+import { adapterPlugin } from '../plugin'
+import { FakeModbusServer } from './modbus-server'
+
+describeAdapterConformance({
+  name: 'ModbusAdapter conformance',
+  createAdapter: () => new ModbusAdapter(),
+  startEndpoint: async () => {
+    const server = new FakeModbusServer()
+    server.set('coil', 0, 0)
+    server.set('holding', 0, 0)
+    const port = await server.start()
+
+    return {
+      config: {
+        host: '127.0.0.1',
+        port,
+        protocol: ConnectionProtocol.MODBUS,
+        timeout: 1000,
+        options: {
+          mapping: {
+            pollInterval: 50,
+            registers: [
+              {
+                area: 'holding',
+                address: 0,
+                target: 'custom.alarm',
+                event: VendorEventType.WARNING_ISSUED,
+              },
+            ],
+            commands: [{ command: RobotCommandType.START, area: 'coil', address: 0, value: true }],
+          },
+        },
+      },
+      triggerEvent: () => {
+        server.set('holding', 0, (server.areas.holding.get(0) ?? 0) + 1)
+      },
+      stop: () => server.stop(),
+    }
+  },
+  supportedCommand: { type: RobotCommandType.START },
+  invalidConfigs: [
+    {
+      config: { host: '127.0.0.1', port: 502, protocol: ConnectionProtocol.MODBUS },
+      field: 'options.mapping.registers',
+    },
+    {
+      config: {
+        host: '127.0.0.1',
+        port: 502,
+        protocol: ConnectionProtocol.MODBUS,
+        options: { unitId: 300, mapping: { registers: [] } },
+      },
+      field: 'options.unitId',
+    },
+  ],
+  plugin: adapterPlugin,
+})
@@ -0,0 +1,85 @@
+import { ModbusTCPClient } from '../modbus-client'
+import { FakeModbusServer } from './modbus-server'
+
+describe('ModbusTCPClient', () => {
+  let server: FakeModbusServer
+  let client: ModbusTCPClient
+
+  beforeEach(async () => {
+    server = new FakeModbusServer()
+    const port = await server.start()
+    client = new ModbusTCPClient({ host: '127.0.0.1', port, unitId: 1, timeout: 500 })
+  })
+
+  afterEach(async () => {
+    await client.disconnect()
+    await server.stop()
+  })
+
+  it('should read bits and registers from every area', async () => {
+    server.set('coil', 0, 1, 0, 0, 1, 0, 0, 0, 0, 1, 1)
+    server.set('discrete_input', 100, 0, 1)
+    server.set('holding', 40, 0x1234, 0xfffe)
+    server.set('input', 7, 512)
+    await client.connect()
+
+    expect(await client.readCoils(0, 10)).toEqual([
+      true,
+      false,
+      false,
+      true,
+      false,
+      false,
+      false,
+      false,
+      true,
+      true,
+    ])
+    expect(await client.readDiscreteInputs(100, 2)).toEqual([false, true])
+    expect(await client.readHoldingRegisters(40, 2)).toEqual([0x1234, 0xfffe])
+    expect(await client.readInputRegisters(7, 1)).toEqual([512])
+    expect(client.getConnectionInfo()).toMatchObject({ requestsSent: 4, responsesReceived: 4 })
+  })
+
+  it('should write coils and registers', async () => {
+    await client.connect()
+
+    await client.writeCoil(3, true)
+    await client.writeRegister(10, 0xabcd)
+    await client.writeRegisters(20, [1, 2, 3])
+
+    expect(server.areas.coil.get(3)).toBe(1)
+    expect(server.areas.holding.get(10)).toBe(0xabcd)
+    expect([20, 21, 22].map((address) => server.areas.holding.get(address))).toEqual([1, 2, 3])
+  })
+
+  it('should reject exception responses and keep serving requests', async () => {
+    server.set('holding', 0, 42)
+    await client.connect()
+
+    await expect(client.readHoldingRegisters(1, 1)).rejects.toThrow(
+      'Modbus exception 2 (ILLEGAL_DATA_ADDRESS) for function 3'
+    )
+    await expect(client.readHoldingRegisters(0, 1)).resolves.toEqual([42])
+    expect(client.getConnectionInfo().exceptions).toBe(1)
+
+    server.unitId = 5
+    await expect(client.readHoldingRegisters(0, 1)).rejects.toThrow(
+      'GATEWAY_TARGET_FAILED_TO_RESPOND'
+    )
+  })
+
+  it('should time out on a silent device and refuse out of range requests', async () => {
+    server.set('holding', 0, 1)
+    await client.connect()
+
+    await expect(client.readHoldingRegisters(0, 126)).rejects.toThrow('between 1 and 125')
+    await expect(client.readCoils(65535, 2)).rejects.toThrow('outside 0-65535')
+
+    server.silent = true
+    await expect(client.readHoldingRegisters(0, 1)).rejects.toThrow('Modbus request timeout')
+
+    server.silent = false
+    await expect(client.readHoldingRegisters(0, 1)).resolves.toEqual([1])
+  })
+})
@@ -0,0 +1,115 @@
+import * as net from 'net'
+import { ModbusArea } from '../types'
+
+/**
+ * Minimal Modbus TCP server for tests. Only addresses that were set exist, reading any other
+ * answers ILLEGAL_DATA_ADDRESS like a real device would.
+ */
+export class FakeModbusServer {
+  readonly areas: Record<ModbusArea, Map<number, number>> = {
+    coil: new Map(),
+    discrete_input: new Map(),
+    holding: new Map(),
+    input: new Map(),
+  }
+  readonly requests: { unitId: number; functionCode: number }[] = []
+  unitId = 1
+  silent = false // Swallow requests to test timeouts
+
+  private server = net.createServer((socket) => this.handleClient(socket))
+  private sockets = new Set<net.Socket>()
+
+  set(area: ModbusArea, address: number, ...values: number[]): void {
+    values.forEach((value, i) => this.areas[area].set(address + i, value))
+  }
+
+  async start(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve))
+    return (this.server.address() as net.AddressInfo).port
+  }
+
+  async stop(): Promise<void> {
+    this.sockets.forEach((socket) => socket.destroy())
+    await new Promise<void>((resolve) => this.server.close(() => resolve()))
+  }
+
+  private handleClient(socket: net.Socket): void {
+    this.sockets.add(socket)
+    socket.on('close', () => this.sockets.delete(socket))
+    socket.on('error', () => undefined)
+
+    let buffer = Buffer.alloc(0)
+    socket.on('data', (data: Buffer) => {
+      buffer = Buffer.concat([buffer, data])
+      while (buffer.length >= 7 && buffer.length >= 6 + buffer.readUInt16BE(4)) {
+        const length = 6 + buffer.readUInt16BE(4)
+        const frame = buffer.subarray(0, length)
+        buffer = buffer.subarray(length)
+
+        const unitId = frame.readUInt8(6)
+        const pdu = frame.subarray(7)
+        this.requests.push({ unitId, functionCode: pdu.readUInt8(0) })
+        if (this.silent) {
+          continue
+        }
+
+        const reply = unitId === this.unitId ? this.respond(pdu) : this.exception(pdu, 0x0b)
+        const header = Buffer.alloc(7)
+        frame.copy(header, 0, 0, 4)
+        header.writeUInt16BE(reply.length + 1, 4)
+        header.writeUInt8(unitId, 6)
+        socket.write(Buffer.concat([header, reply]))
+      }
+    })
+  }
+
+  private respond(pdu: Buffer): Buffer {
+    const functionCode = pdu.readUInt8(0)
+    const address = pdu.readUInt16BE(1)
+    const area = (['coil', 'discrete_input', 'holding', 'input'] as ModbusArea[])[functionCode - 1]
+
+    if (area) {
+      const quantity = pdu.readUInt16BE(3)
+      const values: number[] = []
+      for (let i = 0; i < quantity; i++) {
+        const value = this.areas[area].get(address + i)
+        if (value === undefined) {
+          return this.exception(pdu, 0x02)
+        }
+        values.push(value)
+      }
+
+      if (functionCode <= 2) {
+        const bytes = Buffer.alloc(Math.ceil(quantity / 8))
+        values.forEach((value, i) => (bytes[i >> 3] |= (value ? 1 : 0) << (i & 7)))
+        return Buffer.concat([Buffer.from([functionCode, bytes.length]), bytes])
+      }
+
+      const words = Buffer.alloc(quantity * 2)
+      values.forEach((value, i) => words.writeUInt16BE(value, i * 2))
+      return Buffer.concat([Buffer.from([functionCode, words.length]), words])
+    }
+
+    switch (functionCode) {
+      case 0x05:
+        this.areas.coil.set(address, pdu.readUInt16BE(3) === 0xff00 ? 1 : 0)
+        return pdu
+      case 0x06:
+        this.areas.holding.set(address, pdu.readUInt16BE(3))
+        return pdu
+      case 0x10: {
+        const quantity = pdu.readUInt16BE(3)
+        for (let i = 0; i < quantity; i++) {
+          this.areas.holding.set(address + i, pdu.readUInt16BE(6 + i * 2))
+        }
+        return pdu.subarray(0, 5)
+      }
+      default:
+        return this.exception(pdu, 0x01)
+    }
+  }
+
+  private exception(pdu: Buffer, code: number): Buffer {
+    return Buffer.from([pdu.readUInt8(0) | 0x80, code])
+  }
+}
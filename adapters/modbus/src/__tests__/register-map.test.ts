@@ -0,0 +1,73 @@
+import { RobotCommandType, VendorEventType } from '@urfmp/types'
+import { decodeValue, encodeValue, planReads, validateMapping } from '../register-map'
+
+describe('register mapping', () => {
+  it('should merge touching addresses into one read per area', () => {
+    const blocks = planReads([
+      { area: 'holding', address: 10, type: 'float32', target: 'power.total' },
+      { area: 'holding', address: 12, target: 'custom.state' },
+      { area: 'holding', address: 20, target: 'custom.faults' },
+      { area: 'coil', address: 0, target: 'safety.emergencyStop' },
+      { area: 'coil', address: 1, target: 'safety.protectiveStop' },
+    ])
+
+    expect(blocks.map(({ area, address, quantity }) => ({ area, address, quantity }))).toEqual([
+      { area: 'coil', address: 0, quantity: 2 },
+      { area: 'holding', address: 10, quantity: 3 },
+      { area: 'holding', address: 20, quantity: 1 },
+    ])
+  })
+
+  it('should decode and scale each data type', () => {
+    const register = { area: 'holding' as const, address: 0, target: 'custom.value' }
+
+    expect(decodeValue({ ...register, type: 'int16', scale: 0.1 }, [0xff9c])).toBeCloseTo(-10)
+    expect(decodeValue({ ...register, type: 'uint32' }, [0x0001, 0x0002])).toBe(65538)
+    expect(decodeValue({ ...register, type: 'int32', wordOrder: 'little' }, [0xfffe, 0xffff])).toBe(
+      -2
+    )
+    expect(decodeValue({ ...register, type: 'float32' }, [0x4148, 0x0000])).toBe(12.5)
+    expect(decodeValue({ ...register, type: 'bool', bit: 3 }, [0b1000])).toBe(true)
+    expect(decodeValue({ ...register, offset: -40 }, [65])).toBe(25)
+  })
+
+  it('should encode values so they decode back', () => {
+    const entry = {
+      command: RobotCommandType.SET_SPEED,
+      area: 'holding' as const,
+      address: 0,
+      type: 'int32' as const,
+      wordOrder: 'little' as const,
+      scale: 0.01,
+    }
+
+    const words = encodeValue(entry, -12.34)
+
+    expect(words).toHaveLength(2)
+    expect(decodeValue({ ...entry, target: 'custom.speed' }, words)).toBeCloseTo(-12.34)
+    expect(encodeValue({ ...entry, area: 'coil', type: undefined }, 1)).toEqual([1])
+  })
+
+  it('should name every invalid field', () => {
+    const errors = validateMapping({
+      registers: [
+        { area: 'holding', address: 70000, target: 'power.total' },
+        { area: 'coil', address: 0, type: 'float32', target: 'safety.emergencyStop' },
+        { area: 'input', address: 0, target: 'battery.level' },
+        { area: 'input', address: 1, bit: 3, target: 'custom.flag' },
+        { area: 'holding', address: 2, target: 'custom.alarm', event: 'alarm' as VendorEventType },
+      ],
+      commands: [{ command: RobotCommandType.START, area: 'input' as any, address: 0 }],
+    })
+
+    expect(errors.map((error) => error.field)).toEqual([
+      'options.mapping.registers[0].address',
+      'options.mapping.registers[1].type',
+      'options.mapping.registers[2].target',
+      'options.mapping.registers[3].bit',
+      'options.mapping.registers[4].event',
+      'options.mapping.commands[0].area',
+    ])
+    expect(validateMapping(undefined)[0].field).toBe('options.mapping.registers')
+  })
+})
@@ -0,0 +1,490 @@
+import {
+  IRobotVendorAdapter,
+  BaseVendorAdapter,
+  RobotVendor,
+  VendorConnectionConfig,
+  VendorConnection,
+  RobotCommand,
+  RobotCommandType,
+  CommandResult,
+  RobotTelemetry,
+  RobotInfo,
+  RobotSpecifications,
+  RobotStatus,
+  EventCallback,
+  EventSubscription,
+  VendorEvent,
+  ValidationResult,
+  ValidationError,
+  VendorFeatures,
+  ConnectionProtocol,
+  ConnectionStatus,
+  TelemetryData,
+  TelemetrySource,
+  DataQuality,
+  TemperatureUnit,
+  setTelemetryValue,
+} from '@urfmp/types'
+
+import { ModbusTCPClient } from './modbus-client'
+import { decodeValue, encodeValue, planReads, sizeOf, validateMapping } from './register-map'
+import {
+  ModbusArea,
+  ModbusCommandMapping,
+  ModbusDataType,
+  ModbusMapping,
+  ModbusReadBlock,
+  ModbusRegisterMapping,
+  ModbusWordOrder,
+} from './types'
+
+const DEFAULT_PORT = 502
+const DEFAULT_UNIT_ID = 1
+const DEFAULT_POLL_INTERVAL = 1000
+
+interface ModbusConnectionState {
+  client: ModbusTCPClient
+  mapping: ModbusMapping
+  blocks: ModbusReadBlock[]
+  pollTimer?: NodeJS.Timeout
+  polling?: Promise<TelemetryData>
+  latest?: { data: TelemetryData; sampledAt: Date }
+  values: Map<string, number | boolean> // Last value per register, for change events
+  listeners: Map<string, EventCallback> // By subscription id
+}
+
+/**
+ * Generic adapter for equipment that only speaks Modbus TCP. What to poll and where it lands in
+ * TelemetryData comes from the declarative mapping in options.mapping.
+ */
+export class ModbusAdapter extends BaseVendorAdapter implements IRobotVendorAdapter {
+  vendor = RobotVendor.CUSTOM
+
+  private states = new Map<string, ModbusConnectionState>()
+  private connections = new Map<string, VendorConnection>()
+  private eventSubscriptions = new Map<string, EventSubscription>()
+
+  async connect(config: VendorConnectionConfig): Promise<VendorConnection> {
+    const validation = await this.validateConnection(config)
+    if (!validation.valid) {
+      throw new Error(
+        `Invalid configuration: ${validation.errors.map((e) => e.message).join(', ')}`
+      )
+    }
+
+    const mapping: ModbusMapping = config.options!.mapping
+    const unitId = config.options?.unitId ?? DEFAULT_UNIT_ID
+    const client = new ModbusTCPClient({
+      host: config.host,
+      port: config.port || DEFAULT_PORT,
+      unitId,
+      timeout: config.timeout || 5000,
+    })
+
+    const connection = this.createConnection(config)
+    connection.status = ConnectionStatus.CONNECTING
+
+    const state: ModbusConnectionState = {
+      client,
+      mapping,
+      blocks: planReads(mapping.registers),
+      values: new Map(),
+      listeners: new Map(),
+    }
+
+    try {
+      await client.connect()
+
+      // A first poll proves the unit id answers and every mapped address exists
+      connection.robotId = mapping.serialNumber || `modbus-${config.host}-${unitId}`
+      await this.poll(connection, state)
+
+      connection.status = ConnectionStatus.CONNECTED
+      connection.connectedAt = new Date()
+      client.onClose(() => this.markConnectionLost(connection))
+
+      state.pollTimer = setInterval(() => {
+        this.poll(connection, state).catch((error) => {
+          console.error(`Modbus poll failed (${connection.id}): ${(error as Error).message}`)
+        })
+      }, mapping.pollInterval ?? DEFAULT_POLL_INTERVAL)
+
+      this.states.set(connection.id, state)
+      this.connections.set(connection.id, connection)
+
+      console.log(`✅ Connected to Modbus device at ${config.host} (unit ${unitId})`)
+      return connection
+    } catch (error) {
+      await client.disconnect()
+      connection.status = ConnectionStatus.ERROR
+      throw new Error(`Failed to connect to Modbus device: ${(error as Error).message}`)
+    }
+  }
+
+  async disconnect(connectionId: string): Promise<void> {
+    const connection = this.connections.get(connectionId)
+    if (!connection) {
+      throw new Error(`Connection ${connectionId} not found`)
+    }
+
+    const state = this.states.get(connectionId)
+    if (state) {
+      clearInterval(state.pollTimer)
+      state.listeners.clear()
+      await state.client.disconnect()
+      this.states.delete(connectionId)
+    }
+
+    for (const [id, subscription] of this.eventSubscriptions) {
+      if (subscription.connectionId === connectionId) {
+        subscription.active = false
+        this.eventSubscriptions.delete(id)
+      }
+    }
+
+    connection.status = ConnectionStatus.DISCONNECTED
+    this.connections.delete(connectionId)
+
+    console.log(`✅ Disconnected from Modbus device (${connectionId})`)
+  }
+
+  async sendCommand(connectionId: string, command: RobotCommand): Promise<CommandResult> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    const startTime = Date.now()
+
+    try {
+      let writes: { entry: ModbusCommandMapping; value: number | boolean }[]
+
+      if (command.type === RobotCommandType.CUSTOM) {
+        writes = [this.customWrite(command.payload)]
+      } else {
+        const entries = (state.mapping.commands ?? []).filter(
+          (entry) => entry.command === command.type
+        )
+        if (entries.length === 0) {
+          throw new Error(`Unsupported command type: ${command.type}`)
+        }
+
+        writes = entries.map((entry) => {
+          const field = entry.payloadField ?? 'value'
+          const value = entry.value ?? command.payload?.[field]
+          if (typeof value !== 'number' && typeof value !== 'boolean') {
+            throw new Error(`${field} is required for ${command.type} command`)
+          }
+          return { entry, value }
+        })
+      }
+
+      for (const { entry, value } of writes) {
+        await this.write(state.client, entry, value)
+      }
+
+      return {
+        success: true,
+        commandId: command.id || `cmd-${Date.now()}`,
+        result: { writes: writes.length },
+        executionTime: Date.now() - startTime,
+        timestamp: new Date(),
+      }
+    } catch (error) {
+      return {
+        success: false,
+        commandId: command.id || `cmd-${Date.now()}`,
+        error: (error as Error).message,
+        executionTime: Date.now() - startTime,
+        timestamp: new Date(),
+      }
+    }
+  }
+
+  async getTelemetry(connectionId: string): Promise<RobotTelemetry> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    const pollInterval = state.mapping.pollInterval ?? DEFAULT_POLL_INTERVAL
+
+    try {
+      // Poll now when the last good sample is older than two intervals
+      let latest = state.latest
+      if (!latest || Date.now() - latest.sampledAt.getTime() > pollInterval * 2) {
+        await this.poll(connection, state)
+        latest = state.latest!
+      }
+
+      return {
+        id: `tel-${Date.now()}`,
+        robotId: connection.robotId,
+        timestamp: latest.sampledAt,
+        data: latest.data,
+        metadata: {
+          source: TelemetrySource.ROBOT_CONTROLLER,
+          quality: DataQuality.HIGH,
+          samplingRate: 1000 / pollInterval,
+        },
+      }
+    } catch (error) {
+      throw new Error(`Failed to get telemetry: ${(error as Error).message}`)
+    }
+  }
+
+  async getRobotInfo(connectionId: string): Promise<RobotInfo> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    return {
+      model: state.mapping.model || 'Modbus TCP device',
+      serialNumber: state.mapping.serialNumber || connection.robotId,
+      firmwareVersion: 'unknown',
+      manufacturer: state.mapping.manufacturer || 'Unknown',
+      capabilities: [],
+      specifications: this.getSpecifications(),
+      status: state.client.isConnected() ? RobotStatus.ONLINE : RobotStatus.OFFLINE,
+    }
+  }
+
+  async subscribeToEvents(
+    connectionId: string,
+    callback: EventCallback
+  ): Promise<EventSubscription> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    const subscriptionId = `sub-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+
+    const subscription: EventSubscription = {
+      id: subscriptionId,
+      userId: '',
+      organizationId: '',
+      name: `Modbus Events ${connectionId}`,
+      filter: { types: [] },
+      channels: [],
+      enabled: true,
+      connectionId,
+      active: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+
+    // Registers with an event type report their changes on every poll
+    state.listeners.set(subscriptionId, callback)
+    this.eventSubscriptions.set(subscriptionId, subscription)
+    return subscription
+  }
+
+  async unsubscribeFromEvents(subscriptionId: string): Promise<void> {
+    const subscription = this.eventSubscriptions.get(subscriptionId)
+    if (subscription) {
+      subscription.active = false
+      this.states.get(subscription.connectionId!)?.listeners.delete(subscriptionId)
+      this.eventSubscriptions.delete(subscriptionId)
+    }
+  }
+
+  async validateConnection(config: VendorConnectionConfig): Promise<ValidationResult> {
+    const baseValidation = this.validateConfig(config)
+    const errors: ValidationError[] = [...baseValidation.errors]
+    const warnings = [...baseValidation.warnings]
+
+    if (
+      config.protocol !== ConnectionProtocol.MODBUS &&
+      config.protocol !== ConnectionProtocol.TCP
+    ) {
+      errors.push({
+        field: 'protocol',
+        message: 'Modbus devices are reached over modbus or tcp',
+        code: 'UNSUPPORTED_PROTOCOL',
+      })
+    }
+
+    const unitId = config.options?.unitId
+    if (unitId !== undefined && !(Number.isInteger(unitId) && unitId >= 0 && unitId <= 255)) {
+      errors.push({
+        field: 'options.unitId',
+        message: 'Unit id must be between 0 and 255',
+        code: 'INVALID_UNIT_ID',
+      })
+    }
+
+    errors.push(...validateMapping(config.options?.mapping))
+
+    if (config.port && config.port !== DEFAULT_PORT) {
+      warnings.push({
+        field: 'port',
+        message: `Modbus TCP servers usually listen on port ${DEFAULT_PORT}`,
+        code: 'NON_STANDARD_PORT',
+      })
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+    }
+  }
+
+  getSupportedFeatures(): VendorFeatures {
+    return {
+      supportsRealTimeControl: false,
+      supportsFileTransfer: false,
+      supportsRemoteAccess: true,
+      supportsVideoStream: false,
+      supportsForceControl: false,
+      supportsCollisionDetection: false,
+      supportsSafetyMonitoring: true,
+      supportsPathPlanning: false,
+      supportsCalibration: false,
+      supportsOTA: false,
+      customFeatures: ['modbus_tcp', 'register_mapping', 'coil_control', 'register_events'],
+    }
+  }
+
+  // Private helper methods
+
+  // One poll at a time per connection, a slow device must not pile up requests
+  private poll(connection: VendorConnection, state: ModbusConnectionState): Promise<TelemetryData> {
+    if (!state.polling) {
+      state.polling = this.readAll(connection, state).finally(() => {
+        state.polling = undefined
+      })
+    }
+    return state.polling
+  }
+
+  private async readAll(
+    connection: VendorConnection,
+    state: ModbusConnectionState
+  ): Promise<TelemetryData> {
+    const data: TelemetryData = {}
+    const changes: {
+      register: ModbusRegisterMapping
+      previous: number | boolean
+      value: number | boolean
+    }[] = []
+
+    for (const block of state.blocks) {
+      const words = await state.client.read(block.area, block.address, block.quantity)
+
+      for (const register of block.mappings) {
+        const start = register.address - block.address
+        const value = decodeValue(register, words.slice(start, start + sizeOf(register)))
+        setTelemetryValue(data, register.target, value, register.unit)
+
+        const name = register.name ?? register.target
+        const previous = state.values.get(name)
+        if (register.event && previous !== undefined && previous !== value) {
+          changes.push({ register, previous, value })
+        }
+        state.values.set(name, value)
+      }
+    }
+
+    state.latest = { data, sampledAt: new Date() }
+
+    for (const { register, previous, value } of changes) {
+      const event = this.toVendorEvent(connection.robotId, register, previous, value)
+      state.listeners.forEach((callback) => callback(event))
+    }
+
+    return data
+  }
+
+  private toVendorEvent(
+    robotId: string,
+    register: ModbusRegisterMapping,
+    previous: number | boolean,
+    value: number | boolean
+  ): VendorEvent {
+    return {
+      id: `evt-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type: register.event!,
+      robotId,
+      data: {
+        register: register.name ?? register.target,
+        area: register.area,
+        address: register.address,
+        target: register.target,
+        previous,
+        value,
+      },
+      timestamp: new Date(),
+      source: 'modbus',
+    }
+  }
+
+  private async write(
+    client: ModbusTCPClient,
+    entry: ModbusCommandMapping,
+    value: number | boolean
+  ): Promise<void> {
+    const words = encodeValue(entry, value)
+
+    if (entry.area === 'coil') {
+      await client.writeCoil(entry.address, words[0] !== 0)
+    } else if (words.length === 1) {
+      await client.writeRegister(entry.address, words[0])
+    } else {
+      await client.writeRegisters(entry.address, words)
+    }
+  }
+
+  // CUSTOM commands write one address directly: { area, address, value, type?, wordOrder? }
+  private customWrite(payload: Record<string, any>): {
+    entry: ModbusCommandMapping
+    value: number | boolean
+  } {
+    const { area, address, value, type, wordOrder, scale, offset } = payload ?? {}
+
+    if (area !== 'coil' && area !== 'holding') {
+      throw new Error('area must be coil or holding for CUSTOM command')
+    }
+    if (!Number.isInteger(address)) {
+      throw new Error('address is required for CUSTOM command')
+    }
+    if (typeof value !== 'number' && typeof value !== 'boolean') {
+      throw new Error('value is required for CUSTOM command')
+    }
+
+    const entry: ModbusCommandMapping = {
+      command: RobotCommandType.CUSTOM,
+      area: area as Extract<ModbusArea, 'coil' | 'holding'>,
+      address,
+      type: type as ModbusDataType | undefined,
+      wordOrder: wordOrder as ModbusWordOrder | undefined,
+      scale,
+      offset,
+    }
+    return { entry, value }
+  }
+
+  private getSpecifications(): RobotSpecifications {
+    // Nothing in the Modbus data model describes the machine itself
+    const range = { min: 0, max: 0, unit: 'mm' }
+    return {
+      axes: 0,
+      payload: 0,
+      reach: 0,
+      repeatability: 0,
+      maxSpeed: 0,
+      maxAcceleration: 0,
+      workingRange: { x: range, y: range, z: range },
+      operatingTemperature: { min: 0, max: 50, unit: TemperatureUnit.CELSIUS },
+      power: { voltage: 24, frequency: 0, consumption: 0, phases: 1 },
+      dimensions: { length: 0, width: 0, height: 0 },
+      weight: 0,
+    }
+  }
+}
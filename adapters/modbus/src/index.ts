@@ -0,0 +1,10 @@
+/**
+ * Generic Modbus TCP adapter for URFMP
+ * Supports: gantries, AGV chargers and any device exposing coils and registers
+ */
+
+export { ModbusAdapter } from './adapter'
+export { ModbusTCPClient } from './modbus-client'
+export { adapterPlugin } from './plugin'
+export { decodeValue, encodeValue, planReads, validateMapping } from './register-map'
+export * from './types'
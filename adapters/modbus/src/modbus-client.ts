@@ -0,0 +1,300 @@
+import * as net from 'net'
+import {
+  ModbusArea,
+  ModbusConfig,
+  ModbusConnectionInfo,
+  ModbusExceptionCode,
+  ModbusFunctionCode,
+} from './types'
+
+const MBAP_HEADER_LENGTH = 7 // transaction id, protocol id, length, unit id
+const MAX_READ_BITS = 2000
+const MAX_READ_REGISTERS = 125
+const MAX_WRITE_REGISTERS = 123
+
+const READ_FUNCTIONS: Record<ModbusArea, ModbusFunctionCode> = {
+  coil: ModbusFunctionCode.READ_COILS,
+  discrete_input: ModbusFunctionCode.READ_DISCRETE_INPUTS,
+  holding: ModbusFunctionCode.READ_HOLDING_REGISTERS,
+  input: ModbusFunctionCode.READ_INPUT_REGISTERS,
+}
+
+interface PendingRequest {
+  transactionId: number
+  functionCode: ModbusFunctionCode
+  resolve: (pdu: Buffer) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+/**
+ * Modbus TCP client. Requests go out one at a time, many devices and serial gateways answer
+ * nothing else reliably.
+ */
+export class ModbusTCPClient {
+  private config: ModbusConfig
+  private socket?: net.Socket
+  private connected = false
+  private buffer = Buffer.alloc(0)
+  private pending?: PendingRequest
+  private requestChain: Promise<unknown> = Promise.resolve()
+  private transactionId = 0
+  private requestsSent = 0
+  private responsesReceived = 0
+  private exceptions = 0
+  private closeCallback?: () => void
+
+  constructor(config: ModbusConfig) {
+    this.config = config
+  }
+
+  async connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket = new net.Socket()
+      this.buffer = Buffer.alloc(0)
+
+      this.socket.on('data', (data: Buffer) => this.handleData(data))
+
+      this.socket.connect(this.config.port, this.config.host, () => {
+        this.socket?.setTimeout(0)
+        this.connected = true
+        console.log(
+          `Connected to Modbus TCP server at ${this.config.host}:${this.config.port}` +
+            ` (unit ${this.config.unitId})`
+        )
+        resolve()
+      })
+
+      this.socket.on('error', (error) => {
+        this.connected = false
+        this.rejectPending(new Error(`Modbus connection error: ${error.message}`))
+        reject(new Error(`Modbus connection failed: ${error.message}`))
+      })
+
+      this.socket.on('close', () => {
+        this.connected = false
+        this.rejectPending(new Error('Modbus connection closed'))
+        console.log('Modbus connection closed')
+        this.closeCallback?.()
+      })
+
+      this.socket.setTimeout(this.config.timeout, () => {
+        this.socket?.destroy()
+        reject(new Error('Modbus connection timeout'))
+      })
+    })
+  }
+
+  async disconnect(): Promise<void> {
+    this.rejectPending(new Error('Modbus connection closed'))
+    if (this.socket) {
+      this.socket.removeAllListeners()
+      this.socket.destroy()
+      this.socket = undefined
+    }
+    this.connected = false
+  }
+
+  /**
+   * Called when the device or the network closes the socket, not on disconnect()
+   */
+  onClose(callback: () => void): void {
+    this.closeCallback = callback
+  }
+
+  async readCoils(address: number, quantity: number): Promise<boolean[]> {
+    return (await this.read('coil', address, quantity)).map((bit) => bit === 1)
+  }
+
+  async readDiscreteInputs(address: number, quantity: number): Promise<boolean[]> {
+    return (await this.read('discrete_input', address, quantity)).map((bit) => bit === 1)
+  }
+
+  async readHoldingRegisters(address: number, quantity: number): Promise<number[]> {
+    return this.read('holding', address, quantity)
+  }
+
+  async readInputRegisters(address: number, quantity: number): Promise<number[]> {
+    return this.read('input', address, quantity)
+  }
+
+  /**
+   * Read any area, bits come back as 0 and 1 and registers as unsigned 16-bit words
+   */
+  async read(area: ModbusArea, address: number, quantity: number): Promise<number[]> {
+    const bits = area === 'coil' || area === 'discrete_input'
+    const limit = bits ? MAX_READ_BITS : MAX_READ_REGISTERS
+    this.checkRange(address, quantity, limit)
+
+    const request = Buffer.alloc(5)
+    request.writeUInt8(READ_FUNCTIONS[area], 0)
+    request.writeUInt16BE(address, 1)
+    request.writeUInt16BE(quantity, 3)
+
+    const response = await this.request(request)
+    const byteCount = response.readUInt8(1)
+    const data = response.subarray(2, 2 + byteCount)
+
+    if (bits) {
+      if (byteCount < Math.ceil(quantity / 8)) {
+        throw new Error(`Short Modbus response: ${byteCount} bytes for ${quantity} bits`)
+      }
+      return Array.from({ length: quantity }, (_, i) => (data[i >> 3] >> (i & 7)) & 1)
+    }
+
+    if (byteCount < quantity * 2) {
+      throw new Error(`Short Modbus response: ${byteCount} bytes for ${quantity} registers`)
+    }
+    return Array.from({ length: quantity }, (_, i) => data.readUInt16BE(i * 2))
+  }
+
+  async writeCoil(address: number, value: boolean): Promise<void> {
+    this.checkRange(address, 1, 1)
+
+    const request = Buffer.alloc(5)
+    request.writeUInt8(ModbusFunctionCode.WRITE_SINGLE_COIL, 0)
+    request.writeUInt16BE(address, 1)
+    request.writeUInt16BE(value ? 0xff00 : 0x0000, 3)
+    await this.request(request)
+  }
+
+  async writeRegister(address: number, value: number): Promise<void> {
+    this.checkRange(address, 1, 1)
+
+    const request = Buffer.alloc(5)
+    request.writeUInt8(ModbusFunctionCode.WRITE_SINGLE_REGISTER, 0)
+    request.writeUInt16BE(address, 1)
+    request.writeUInt16BE(value & 0xffff, 3)
+    await this.request(request)
+  }
+
+  async writeRegisters(address: number, values: number[]): Promise<void> {
+    this.checkRange(address, values.length, MAX_WRITE_REGISTERS)
+
+    const request = Buffer.alloc(6 + values.length * 2)
+    request.writeUInt8(ModbusFunctionCode.WRITE_MULTIPLE_REGISTERS, 0)
+    request.writeUInt16BE(address, 1)
+    request.writeUInt16BE(values.length, 3)
+    request.writeUInt8(values.length * 2, 5)
+    values.forEach((value, i) => request.writeUInt16BE(value & 0xffff, 6 + i * 2))
+    await this.request(request)
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  getConnectionInfo(): ModbusConnectionInfo {
+    return {
+      connected: this.connected,
+      host: this.config.host,
+      port: this.config.port,
+      unitId: this.config.unitId,
+      requestsSent: this.requestsSent,
+      responsesReceived: this.responsesReceived,
+      exceptions: this.exceptions,
+    }
+  }
+
+  private checkRange(address: number, quantity: number, limit: number): void {
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > limit) {
+      throw new Error(`Modbus quantity must be between 1 and ${limit}, got ${quantity}`)
+    }
+    if (!Number.isInteger(address) || address < 0 || address + quantity > 0x10000) {
+      throw new Error(`Modbus address ${address} (+${quantity}) is outside 0-65535`)
+    }
+  }
+
+  private request(pdu: Buffer): Promise<Buffer> {
+    const result = this.requestChain.then(() => this.writeRequest(pdu))
+    this.requestChain = result.catch(() => undefined)
+    return result
+  }
+
+  private writeRequest(pdu: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.connected) {
+        reject(new Error('Not connected to Modbus TCP server'))
+        return
+      }
+
+      this.transactionId = (this.transactionId + 1) & 0xffff
+      const functionCode = pdu.readUInt8(0) as ModbusFunctionCode
+
+      const header = Buffer.alloc(MBAP_HEADER_LENGTH)
+      header.writeUInt16BE(this.transactionId, 0)
+      header.writeUInt16BE(0, 2) // Protocol id, always 0 for Modbus
+      header.writeUInt16BE(pdu.length + 1, 4)
+      header.writeUInt8(this.config.unitId, 6)
+
+      const timer = setTimeout(() => {
+        this.pending = undefined
+        reject(
+          new Error(`Modbus request timeout: function ${functionCode} unit ${this.config.unitId}`)
+        )
+      }, this.config.timeout)
+
+      this.pending = { transactionId: this.transactionId, functionCode, resolve, reject, timer }
+      this.socket.write(Buffer.concat([header, pdu]))
+      this.requestsSent++
+    })
+  }
+
+  private handleData(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data])
+
+    while (this.buffer.length >= MBAP_HEADER_LENGTH) {
+      const frameLength = 6 + this.buffer.readUInt16BE(4)
+      if (this.buffer.length < frameLength) {
+        return
+      }
+
+      const frame = this.buffer.subarray(0, frameLength)
+      this.buffer = this.buffer.subarray(frameLength)
+      this.handleFrame(frame)
+    }
+  }
+
+  private handleFrame(frame: Buffer): void {
+    const transactionId = frame.readUInt16BE(0)
+    const pdu = frame.subarray(MBAP_HEADER_LENGTH)
+
+    // A response to a request that already timed out answers nothing we are waiting for
+    if (!this.pending || this.pending.transactionId !== transactionId || pdu.length === 0) {
+      return
+    }
+
+    const { functionCode, resolve, reject, timer } = this.pending
+    clearTimeout(timer)
+    this.pending = undefined
+    this.responsesReceived++
+
+    const responseCode = pdu.readUInt8(0)
+    if (responseCode === (functionCode | 0x80)) {
+      const exception = pdu.length > 1 ? pdu.readUInt8(1) : 0
+      this.exceptions++
+      reject(
+        new Error(
+          `Modbus exception ${exception} (${ModbusExceptionCode[exception] ?? 'UNKNOWN'})` +
+            ` for function ${functionCode}`
+        )
+      )
+      return
+    }
+
+    if (responseCode !== functionCode) {
+      reject(new Error(`Unexpected Modbus function ${responseCode} in reply to ${functionCode}`))
+      return
+    }
+
+    resolve(pdu)
+  }
+
+  private rejectPending(error: Error): void {
+    if (this.pending) {
+      clearTimeout(this.pending.timer)
+      this.pending.reject(error)
+      this.pending = undefined
+    }
+  }
+}
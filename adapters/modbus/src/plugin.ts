@@ -0,0 +1,103 @@
+import {
+  ConnectionProtocol,
+  createConnectionConfigSchema,
+  RobotCommandType,
+  VendorAdapterPlugin,
+  VendorEventType,
+} from '@urfmp/types'
+import { ModbusAdapter } from './adapter'
+
+const address = { type: 'integer', minimum: 0, maximum: 65535 }
+const dataType = { type: 'string', enum: ['bool', 'int16', 'uint16', 'int32', 'uint32', 'float32'] }
+const wordOrder = { type: 'string', enum: ['big', 'little'] }
+
+/**
+ * Entry point for the adapter loader
+ */
+export const adapterPlugin: VendorAdapterPlugin = {
+  config: {
+    name: 'modbus',
+    version: '1.0.0',
+    description: 'Generic Modbus TCP adapter - gantries, AGV chargers and PLC-driven equipment',
+    author: 'URFMP Team',
+    license: 'MIT',
+    supportedRobots: [
+      {
+        model: 'Modbus TCP device',
+        series: 'Generic',
+        firmwareVersions: [],
+        notes: 'Any device exposing coils and registers, described by options.mapping',
+      },
+    ],
+    defaultConfig: {
+      host: '192.168.0.10',
+      port: 502,
+      protocol: ConnectionProtocol.MODBUS,
+      timeout: 5000,
+      options: { unitId: 1, mapping: { registers: [] } },
+    },
+    configSchema: createConnectionConfigSchema({
+      protocols: [ConnectionProtocol.MODBUS, ConnectionProtocol.TCP],
+      port: 502,
+      options: {
+        type: 'object',
+        required: ['mapping'],
+        additionalProperties: false,
+        properties: {
+          unitId: { type: 'integer', minimum: 0, maximum: 255, default: 1, title: 'Unit id' },
+          mapping: {
+            type: 'object',
+            required: ['registers'],
+            title: 'Register mapping',
+            properties: {
+              model: { type: 'string' },
+              manufacturer: { type: 'string' },
+              serialNumber: { type: 'string' },
+              pollInterval: { type: 'integer', minimum: 50, default: 1000 },
+              registers: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['area', 'address', 'target'],
+                  properties: {
+                    name: { type: 'string' },
+                    area: { type: 'string', enum: ['coil', 'discrete_input', 'holding', 'input'] },
+                    address,
+                    type: dataType,
+                    bit: { type: 'integer', minimum: 0, maximum: 15 },
+                    wordOrder,
+                    scale: { type: 'number' },
+                    offset: { type: 'number' },
+                    target: { type: 'string', minLength: 1 },
+                    unit: { type: 'string' },
+                    event: { type: 'string', enum: Object.values(VendorEventType) },
+                  },
+                },
+              },
+              commands: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['command', 'area', 'address'],
+                  properties: {
+                    command: { type: 'string', enum: Object.values(RobotCommandType) },
+                    area: { type: 'string', enum: ['coil', 'holding'] },
+                    address,
+                    type: dataType,
+                    wordOrder,
+                    scale: { type: 'number' },
+                    offset: { type: 'number' },
+                    value: { type: ['number', 'boolean'] },
+                    payloadField: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    }),
+    features: new ModbusAdapter().getSupportedFeatures(),
+  },
+  createAdapter: () => new ModbusAdapter(),
+}
@@ -0,0 +1,225 @@
+import { RobotCommandType, TELEMETRY_TARGETS, ValidationError, VendorEventType } from '@urfmp/types'
+import {
+  ModbusArea,
+  ModbusCommandMapping,
+  ModbusDataType,
+  ModbusMapping,
+  ModbusReadBlock,
+  ModbusRegisterMapping,
+  ModbusWordOrder,
+} from './types'
+
+const AREAS: ModbusArea[] = ['coil', 'discrete_input', 'holding', 'input']
+const DATA_TYPES: ModbusDataType[] = ['bool', 'int16', 'uint16', 'int32', 'uint32', 'float32']
+const MAX_BLOCK: Record<ModbusArea, number> = {
+  coil: 2000,
+  discrete_input: 2000,
+  holding: 125,
+  input: 125,
+}
+
+const isBitArea = (area: ModbusArea) => area === 'coil' || area === 'discrete_input'
+
+export function dataTypeOf(mapping: { area: ModbusArea; type?: ModbusDataType }): ModbusDataType {
+  return mapping.type ?? (isBitArea(mapping.area) ? 'bool' : 'uint16')
+}
+
+/**
+ * Addresses a mapping occupies, 32-bit values span two registers
+ */
+export function sizeOf(mapping: { area: ModbusArea; type?: ModbusDataType }): number {
+  const type = dataTypeOf(mapping)
+  return !isBitArea(mapping.area) && type.endsWith('32') ? 2 : 1
+}
+
+/**
+ * Group mappings into as few reads as possible. Only touching or overlapping addresses are
+ * merged, many devices answer ILLEGAL_DATA_ADDRESS for reads that span unmapped registers.
+ */
+export function planReads(mappings: ModbusRegisterMapping[]): ModbusReadBlock[] {
+  const blocks: ModbusReadBlock[] = []
+
+  for (const area of AREAS) {
+    const sorted = mappings
+      .filter((mapping) => mapping.area === area)
+      .sort((a, b) => a.address - b.address)
+
+    let block: ModbusReadBlock | undefined
+    for (const mapping of sorted) {
+      const end = mapping.address + sizeOf(mapping)
+      if (
+        block &&
+        mapping.address <= block.address + block.quantity &&
+        end - block.address <= MAX_BLOCK[area]
+      ) {
+        block.quantity = Math.max(block.quantity, end - block.address)
+        block.mappings.push(mapping)
+        continue
+      }
+
+      block = {
+        area,
+        address: mapping.address,
+        quantity: end - mapping.address,
+        mappings: [mapping],
+      }
+      blocks.push(block)
+    }
+  }
+
+  return blocks
+}
+
+/**
+ * Turn the raw words or bits of one mapping into its engineering value
+ */
+export function decodeValue(mapping: ModbusRegisterMapping, words: number[]): number | boolean {
+  const type = dataTypeOf(mapping)
+
+  if (isBitArea(mapping.area)) {
+    return type === 'bool' ? words[0] === 1 : scaleValue(mapping, words[0])
+  }
+
+  if (type === 'bool') {
+    return mapping.bit !== undefined ? ((words[0] >> mapping.bit) & 1) === 1 : words[0] !== 0
+  }
+
+  return scaleValue(mapping, rawValue(type, words, mapping.wordOrder))
+}
+
+/**
+ * Turn an engineering value into the words or coil state to write
+ */
+export function encodeValue(mapping: ModbusCommandMapping, value: number | boolean): number[] {
+  const type = dataTypeOf(mapping)
+
+  if (typeof value === 'boolean' || type === 'bool') {
+    return [value ? 1 : 0]
+  }
+
+  const raw = (value - (mapping.offset ?? 0)) / (mapping.scale ?? 1)
+  const buffer = Buffer.alloc(4)
+  switch (type) {
+    case 'int16':
+      return [Math.round(raw) & 0xffff]
+    case 'uint16':
+      return [Math.round(raw) & 0xffff]
+    case 'int32':
+      buffer.writeInt32BE(Math.round(raw), 0)
+      break
+    case 'uint32':
+      buffer.writeUInt32BE(Math.round(raw) >>> 0, 0)
+      break
+    case 'float32':
+      buffer.writeFloatBE(raw, 0)
+      break
+  }
+
+  const words = [buffer.readUInt16BE(0), buffer.readUInt16BE(2)]
+  return mapping.wordOrder === 'little' ? words.reverse() : words
+}
+
+/**
+ * Check a mapping before anything is polled, errors name the offending field by path
+ */
+export function validateMapping(mapping: ModbusMapping | undefined): ValidationError[] {
+  const errors: ValidationError[] = []
+  const error = (field: string, message: string, code: string) =>
+    errors.push({ field: `options.mapping${field}`, message, code })
+
+  if (!mapping || !Array.isArray(mapping.registers)) {
+    error('.registers', 'A register mapping is required', 'REQUIRED_FIELD')
+    return errors
+  }
+
+  if (mapping.pollInterval !== undefined && !(mapping.pollInterval >= 50)) {
+    error('.pollInterval', 'Poll interval must be at least 50 ms', 'INVALID_POLL_INTERVAL')
+  }
+
+  mapping.registers.forEach((register, i) => {
+    const field = `.registers[${i}]`
+    checkAddress(register, field, AREAS, error)
+
+    if (!register.target || !TELEMETRY_TARGETS.includes(register.target.split('.')[0] as any)) {
+      error(
+        `${field}.target`,
+        `Target must be a TelemetryData path starting with one of ${TELEMETRY_TARGETS.join(', ')}`,
+        'INVALID_TARGET'
+      )
+    }
+
+    if (register.bit !== undefined) {
+      if (isBitArea(register.area) || dataTypeOf(register) !== 'bool') {
+        error(`${field}.bit`, 'Bit selection needs a bool register', 'INVALID_BIT')
+      } else if (!Number.isInteger(register.bit) || register.bit < 0 || register.bit > 15) {
+        error(`${field}.bit`, 'Bit must be between 0 and 15', 'INVALID_BIT')
+      }
+    }
+
+    if (register.event !== undefined && !Object.values(VendorEventType).includes(register.event)) {
+      error(`${field}.event`, `Unknown event type ${register.event}`, 'INVALID_EVENT')
+    }
+  })
+
+  mapping.commands?.forEach((command, i) => {
+    const field = `.commands[${i}]`
+    checkAddress(command, field, ['coil', 'holding'], error)
+
+    if (!Object.values(RobotCommandType).includes(command.command)) {
+      error(`${field}.command`, `Unknown command type ${command.command}`, 'INVALID_COMMAND')
+    }
+  })
+
+  return errors
+}
+
+function checkAddress(
+  entry: { area: ModbusArea; address: number; type?: ModbusDataType },
+  field: string,
+  areas: ModbusArea[],
+  error: (field: string, message: string, code: string) => void
+): void {
+  if (!areas.includes(entry.area)) {
+    error(`${field}.area`, `Area must be one of ${areas.join(', ')}`, 'INVALID_AREA')
+    return
+  }
+
+  if (!Number.isInteger(entry.address) || entry.address < 0 || entry.address > 0xffff) {
+    error(`${field}.address`, 'Address must be between 0 and 65535', 'INVALID_ADDRESS')
+  } else if (entry.address + sizeOf(entry) > 0x10000) {
+    error(`${field}.address`, 'A 32-bit value cannot start at 65535', 'INVALID_ADDRESS')
+  }
+
+  if (entry.type !== undefined && !DATA_TYPES.includes(entry.type)) {
+    error(`${field}.type`, `Type must be one of ${DATA_TYPES.join(', ')}`, 'INVALID_TYPE')
+  } else if (isBitArea(entry.area) && dataTypeOf(entry) !== 'bool') {
+    error(`${field}.type`, 'Coils and discrete inputs hold bool values', 'INVALID_TYPE')
+  }
+}
+
+function rawValue(type: ModbusDataType, words: number[], wordOrder?: ModbusWordOrder): number {
+  if (type === 'int16') {
+    return words[0] > 0x7fff ? words[0] - 0x10000 : words[0]
+  }
+  if (type === 'uint16') {
+    return words[0]
+  }
+
+  const [high, low] = wordOrder === 'little' ? [words[1], words[0]] : [words[0], words[1]]
+  const buffer = Buffer.alloc(4)
+  buffer.writeUInt16BE(high, 0)
+  buffer.writeUInt16BE(low, 2)
+
+  switch (type) {
+    case 'int32':
+      return buffer.readInt32BE(0)
+    case 'float32':
+      return buffer.readFloatBE(0)
+    default:
+      return buffer.readUInt32BE(0)
+  }
+}
+
+function scaleValue(mapping: ModbusRegisterMapping, raw: number): number {
+  return raw * (mapping.scale ?? 1) + (mapping.offset ?? 0)
+}
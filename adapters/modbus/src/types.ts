@@ -0,0 +1,101 @@
+// Modbus TCP adapter types
+import { RobotCommandType, VendorEventType } from '@urfmp/types'
+
+export interface ModbusConfig {
+  host: string
+  port: number // Default: 502
+  unitId: number // Slave id behind a gateway, 0-255, default 1
+  timeout: number
+}
+
+export enum ModbusFunctionCode {
+  READ_COILS = 0x01,
+  READ_DISCRETE_INPUTS = 0x02,
+  READ_HOLDING_REGISTERS = 0x03,
+  READ_INPUT_REGISTERS = 0x04,
+  WRITE_SINGLE_COIL = 0x05,
+  WRITE_SINGLE_REGISTER = 0x06,
+  WRITE_MULTIPLE_REGISTERS = 0x10,
+}
+
+export enum ModbusExceptionCode {
+  ILLEGAL_FUNCTION = 0x01,
+  ILLEGAL_DATA_ADDRESS = 0x02,
+  ILLEGAL_DATA_VALUE = 0x03,
+  SERVER_DEVICE_FAILURE = 0x04,
+  ACKNOWLEDGE = 0x05,
+  SERVER_DEVICE_BUSY = 0x06,
+  GATEWAY_PATH_UNAVAILABLE = 0x0a,
+  GATEWAY_TARGET_FAILED_TO_RESPOND = 0x0b,
+}
+
+export type ModbusArea = 'coil' | 'discrete_input' | 'holding' | 'input'
+
+export type ModbusDataType = 'bool' | 'int16' | 'uint16' | 'int32' | 'uint32' | 'float32'
+
+// Order of the two registers of a 32-bit value, many PLCs put the low word first
+export type ModbusWordOrder = 'big' | 'little'
+
+/**
+ * One value read on every poll and where it lands in TelemetryData
+ */
+export interface ModbusRegisterMapping {
+  name?: string // Defaults to the target
+  area: ModbusArea
+  address: number // Zero-based protocol address, 0-65535
+  type?: ModbusDataType // Default: bool for coils and discrete inputs, uint16 for registers
+  bit?: number // With type bool on a register, the bit 0-15 to read
+  wordOrder?: ModbusWordOrder // Default: big
+  scale?: number // value = raw * scale + offset, default 1
+  offset?: number // Default: 0
+  target: string // TelemetryData path, e.g. power.total, safety.emergencyStop, custom.chargerState
+  unit?: string // Set on the object holding the target, e.g. V for voltage.supply
+  event?: VendorEventType // Emitted whenever the value changes
+}
+
+/**
+ * One write performed for a RobotCommandType, entries for the same command run in order
+ */
+export interface ModbusCommandMapping {
+  command: RobotCommandType
+  area: 'coil' | 'holding'
+  address: number
+  type?: ModbusDataType // Default: bool for coils, uint16 for registers
+  wordOrder?: ModbusWordOrder
+  scale?: number
+  offset?: number
+  value?: number | boolean // Fixed value, otherwise taken from the command payload
+  payloadField?: string // Payload field holding the value, default value
+}
+
+/**
+ * Declarative description of a device, passed as options.mapping of the connection config
+ */
+export interface ModbusMapping {
+  model?: string
+  manufacturer?: string
+  serialNumber?: string // Robot id, default modbus-<host>-<unitId>
+  pollInterval?: number // ms between polls, default 1000
+  registers: ModbusRegisterMapping[]
+  commands?: ModbusCommandMapping[]
+}
+
+/**
+ * Consecutive addresses of one area fetched with a single request
+ */
+export interface ModbusReadBlock {
+  area: ModbusArea
+  address: number
+  quantity: number
+  mappings: ModbusRegisterMapping[]
+}
+
+export interface ModbusConnectionInfo {
+  connected: boolean
+  host: string
+  port: number
+  unitId: number
+  requestsSent: number
+  responsesReceived: number
+  exceptions: number
+}
@@ -0,0 +1,242 @@
+import {
+  AuthenticationType,
+  ConnectionProtocol,
+  ConnectionStatus,
+  RobotCommandType,
+  VendorConnection,
+  VendorConnectionConfig,
+  VendorEvent,
+  VendorEventType,
+} from '@urfmp/types'
+import { OPCUAAdapter } from '../adapter'
+import { OPCUAMapping } from '../types'
+import { CLIENT_APPLICATION_URI, FakeOPCUAServer } from './opcua-server'
+
+const PROGRAM = 'ns=1;s=DeviceSet.Cell.Program'
+const HOOK_TIMEOUT = 30000
+
+// Robotics discovery for the arm plus the program object of the cell
+const CELL_MAPPING: OPCUAMapping = {
+  publishingInterval: 50,
+  robotics: true,
+  nodes: [{ name: 'speed', nodeId: `${PROGRAM}.Speed`, target: 'custom.speed', scale: 0.01 }],
+  methods: [
+    { command: RobotCommandType.START, objectId: PROGRAM, methodId: `${PROGRAM}.Start` },
+    { command: RobotCommandType.STOP, objectId: PROGRAM, methodId: `${PROGRAM}.Stop` },
+    {
+      command: RobotCommandType.SET_SPEED,
+      objectId: PROGRAM,
+      methodId: `${PROGRAM}.SetOverride`,
+      inputArguments: [{ dataType: 'Double', payloadField: 'speed' }],
+    },
+  ],
+}
+
+const waitFor = async (condition: () => boolean, timeout = 3000) => {
+  const deadline = Date.now() + timeout
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+describe('OPCUAAdapter', () => {
+  let server: FakeOPCUAServer
+  let adapter: OPCUAAdapter
+  let connection: VendorConnection | undefined
+  let port: number
+
+  const config = (overrides: Partial<VendorConnectionConfig> = {}): VendorConnectionConfig => ({
+    host: '127.0.0.1',
+    port,
+    protocol: ConnectionProtocol.OPC_UA,
+    timeout: 5000,
+    options: { mapping: CELL_MAPPING },
+    ...overrides,
+  })
+
+  // Closes the subscription, the session and the client channel of the open connection
+  const closeConnection = async () => {
+    if (connection) {
+      await adapter.disconnect(connection.id).catch(() => undefined)
+      connection = undefined
+    }
+  }
+
+  // Starting a server generates its certificates, which takes longer than the default hook timeout
+  beforeAll(async () => {
+    server = new FakeOPCUAServer({ users: { operator: 'secret' } })
+    port = await server.start()
+  }, HOOK_TIMEOUT)
+
+  afterAll(async () => {
+    await closeConnection()
+    await server?.stop()
+  }, HOOK_TIMEOUT)
+
+  beforeEach(() => {
+    adapter = new OPCUAAdapter()
+    server.calls.length = 0
+    server.set('EmergencyStop', false)
+    server.set('Speed', 100)
+  })
+
+  afterEach(closeConnection, HOOK_TIMEOUT)
+
+  it('should discover the motion device and map its nodes into telemetry', async () => {
+    connection = await adapter.connect(config())
+
+    const telemetry = await adapter.getTelemetry(connection.id)
+    const info = await adapter.getRobotInfo(connection.id)
+
+    expect(connection.robotId).toBe('AR6-0042')
+    expect(telemetry.data).toEqual({
+      jointAngles: {
+        joint1: 10,
+        joint2: 20,
+        joint3: 30,
+        joint4: 40,
+        joint5: 50,
+        joint6: 60,
+        unit: 'degrees',
+      },
+      safety: { emergencyStop: false, protectiveStop: false },
+      custom: { speed: 1, operationalMode: 'AUTOMATIC' },
+    })
+    expect(info).toMatchObject({
+      manufacturer: 'Acme Robotics',
+      model: 'AR-6',
+      serialNumber: 'AR6-0042',
+      specifications: { axes: 6 },
+    })
+  })
+
+  it('should call the mapped methods for commands', async () => {
+    connection = await adapter.connect(config())
+
+    const start = await adapter.sendCommand(connection.id, {
+      id: 'cmd-1',
+      type: RobotCommandType.START,
+      payload: {},
+    } as any)
+    expect(start.success).toBe(true)
+
+    const speed = await adapter.sendCommand(connection.id, {
+      id: 'cmd-2',
+      type: RobotCommandType.SET_SPEED,
+      payload: { speed: 40 },
+    } as any)
+    expect(speed).toMatchObject({ success: true, result: { outputArguments: [100] } })
+    expect(server.calls).toEqual([
+      { method: 'Start', inputs: [] },
+      { method: 'SetOverride', inputs: [40] },
+    ])
+
+    const missing = await adapter.sendCommand(connection.id, {
+      id: 'cmd-3',
+      type: RobotCommandType.SET_SPEED,
+      payload: {},
+    } as any)
+    expect(missing).toMatchObject({
+      success: false,
+      error: 'speed is required for set_speed command',
+    })
+
+    const write = await adapter.sendCommand(connection.id, {
+      id: 'cmd-4',
+      type: RobotCommandType.CUSTOM,
+      payload: { nodeId: `${PROGRAM}.Speed`, dataType: 'Double', value: 75 },
+    } as any)
+    expect(write.success).toBe(true)
+    expect(server.get('Speed')).toBe(75)
+  })
+
+  it('should emit events with the previous and new value when a node changes', async () => {
+    connection = await adapter.connect(config())
+    const events: VendorEvent[] = []
+    await adapter.subscribeToEvents(connection.id, (event) => events.push(event))
+
+    server.set('EmergencyStop', true)
+    await waitFor(() => events.length > 0)
+
+    expect(events[0]).toMatchObject({
+      type: VendorEventType.EMERGENCY_STOP,
+      robotId: 'AR6-0042',
+      source: 'opc_ua',
+      data: { target: 'safety.emergencyStop', previous: false, value: true },
+    })
+  })
+
+  it('should open a session with a user name and password', async () => {
+    connection = await adapter.connect(
+      config({
+        authentication: {
+          type: AuthenticationType.BASIC,
+          credentials: { username: 'operator', password: 'secret' },
+        },
+      })
+    )
+    expect(connection.status).toBe('connected')
+
+    await expect(
+      adapter.connect(
+        config({
+          authentication: {
+            type: AuthenticationType.BASIC,
+            credentials: { username: 'operator', password: 'wrong' },
+          },
+        })
+      )
+    ).rejects.toThrow('Failed to connect to OPC UA server')
+  })
+
+  it('should authenticate with an X.509 certificate over a secure channel', async () => {
+    const credentials = await server.createClientCertificate()
+
+    connection = await adapter.connect(
+      config({
+        authentication: { type: AuthenticationType.CERTIFICATE, credentials },
+        options: {
+          mapping: CELL_MAPPING,
+          securityMode: 'SignAndEncrypt',
+          applicationUri: CLIENT_APPLICATION_URI,
+        },
+      })
+    )
+
+    const telemetry = await adapter.getTelemetry(connection.id)
+    expect(telemetry.data.safety).toEqual({ emergencyStop: false, protectiveStop: false })
+  })
+
+  it('should put the connection in error when the server goes away', async () => {
+    const standalone = new FakeOPCUAServer()
+    const standalonePort = await standalone.start()
+    try {
+      connection = await adapter.connect(config({ port: standalonePort }))
+
+      await standalone.stop()
+      await waitFor(() => connection!.status === ConnectionStatus.ERROR, 10000)
+
+      expect(connection.metrics.errorCount).toBe(1)
+    } finally {
+      await standalone.stop()
+    }
+  }, 20000)
+
+  it('should require certificate files for certificate authentication', async () => {
+    const validation = await adapter.validateConnection(
+      config({ authentication: { type: AuthenticationType.CERTIFICATE, credentials: {} } })
+    )
+
+    expect(validation.valid).toBe(false)
+    expect(validation.errors.map((error) => error.field)).toEqual([
+      'authentication.credentials.certificateFile',
+      'authentication.credentials.privateKeyFile',
+    ])
+    expect(validation.warnings.map((warning) => warning.code)).toContain(
+      'INSECURE_CERTIFICATE_AUTH'
+    )
+  })
+})
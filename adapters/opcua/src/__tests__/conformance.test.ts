@@ -0,0 +1,56 @@
+import { describeAdapterConformance } from '@urfmp/adapter-conformance'
+import { ConnectionProtocol, RobotCommandType } from '@urfmp/types'
+import { OPCUAAdapter } from '../adapter'
+import { adapterPlugin } from '../plugin'
+import { FakeOPCUAServer } from './opcua-server'
+
+const PROGRAM = 'ns=1;s=DeviceSet.Cell.Program'
+
+describeAdapterConformance({
+  name: 'OPCUAAdapter conformance',
+  createAdapter: () => new OPCUAAdapter(),
+  startEndpoint: async () => {
+    const server = new FakeOPCUAServer()
+    const port = await server.start()
+
+    return {
+      config: {
+        host: '127.0.0.1',
+        port,
+        protocol: ConnectionProtocol.OPC_UA,
+        timeout: 5000,
+        options: {
+          mapping: {
+            publishingInterval: 50,
+            robotics: true,
+            methods: [
+              { command: RobotCommandType.START, objectId: PROGRAM, methodId: `${PROGRAM}.Start` },
+            ],
+          },
+        },
+      },
+      triggerEvent: () => {
+        server.set('ProtectiveStop', !server.get('ProtectiveStop'))
+      },
+      stop: () => server.stop(),
+    }
+  },
+  supportedCommand: { type: RobotCommandType.START },
+  invalidConfigs: [
+    {
+      config: { host: '127.0.0.1', port: 4840, protocol: ConnectionProtocol.OPC_UA },
+      field: 'options.mapping',
+    },
+    {
+      config: {
+        host: '127.0.0.1',
+        port: 4840,
+        protocol: ConnectionProtocol.OPC_UA,
+        options: { securityMode: 'Encrypt', mapping: { robotics: true } },
+      },
+      field: 'options.securityMode',
+    },
+  ],
+  timeout: 15000,
+  plugin: adapterPlugin,
+})
@@ -0,0 +1,52 @@
+import { RobotCommandType, VendorEventType } from '@urfmp/types'
+import { convertValue, validateMapping } from '../mapping'
+
+// Loading the whole client starts a background RSA self check that outlives these synchronous tests
+jest.mock('node-opcua-client', () => ({
+  resolveNodeId: jest.requireActual('node-opcua-nodeid').resolveNodeId,
+}))
+
+describe('node mapping', () => {
+  it('should scale numbers and pass other values through', () => {
+    const node = { nodeId: 'ns=2;s=Temp', target: 'temperature.motor', scale: 0.1, offset: -40 }
+
+    expect(convertValue(node, 650)).toBeCloseTo(25)
+    expect(convertValue(node, 'AUTOMATIC')).toBe('AUTOMATIC')
+    expect(convertValue(node, true)).toBe(true)
+  })
+
+  it('should accept robotics discovery without mapped nodes', () => {
+    expect(validateMapping({ robotics: true })).toEqual([])
+    expect(validateMapping({}).map((error) => error.field)).toEqual(['options.mapping.nodes'])
+  })
+
+  it('should name every invalid field', () => {
+    const errors = validateMapping({
+      nodes: [
+        { nodeId: 'not a node id', target: 'custom.value' },
+        { nodeId: 'ns=2;s=Battery', target: 'battery.level' },
+        { nodeId: 'ns=2;i=7', target: 'custom.rate', samplingInterval: -1 },
+        { nodeId: 'ns=2;i=8', target: 'custom.alarm', event: 'alarm' as VendorEventType },
+      ],
+      methods: [
+        {
+          command: 'dance' as RobotCommandType,
+          objectId: 'ns=2;s=Program',
+          methodId: '',
+          inputArguments: [{ dataType: 'Int64' as any }],
+        },
+        { command: RobotCommandType.START, objectId: 'ns=2;s=Program', methodId: 'ns=2;s=Start' },
+      ],
+    })
+
+    expect(errors.map((error) => error.field)).toEqual([
+      'options.mapping.nodes[0].nodeId',
+      'options.mapping.nodes[1].target',
+      'options.mapping.nodes[2].samplingInterval',
+      'options.mapping.nodes[3].event',
+      'options.mapping.methods[0].methodId',
+      'options.mapping.methods[0].command',
+      'options.mapping.methods[0].inputArguments[0].dataType',
+    ])
+  })
+})
@@ -0,0 +1,182 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { DataType, StatusCodes, Variant } from 'node-opcua-client'
+import { OPCUACertificateManager } from 'node-opcua-certificate-manager'
+import { CertificateManager } from 'node-opcua-pki'
+import { OPCUAServer } from 'node-opcua-server'
+import type { UAVariable } from 'node-opcua-address-space'
+
+export const CLIENT_APPLICATION_URI = 'urn:urfmp:test-client'
+
+export interface FakeOPCUAServerOptions {
+  users?: Record<string, string> // Accepted user name and password pairs
+  allowAnonymous?: boolean
+}
+
+/**
+ * Small OPC UA server for tests, shaped like a Robotics companion specification motion device:
+ *
+ * Objects/DeviceSet/Cell
+ *   MotionDevices/Arm  Manufacturer, Model, SerialNumber, Axes/Axis1..6/ParameterSet/ActualPosition
+ *   SafetyStates/Safety/ParameterSet  EmergencyStop, ProtectiveStop, OperationalMode
+ *   Program  Speed, Start(), Stop(), SetOverride(Double)
+ */
+export class FakeOPCUAServer {
+  readonly calls: { method: string; inputs: any[] }[] = []
+  readonly pkiFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'urfmp-opcua-'))
+
+  private server?: OPCUAServer
+  private variables = new Map<string, UAVariable>()
+  private options: FakeOPCUAServerOptions
+
+  constructor(options: FakeOPCUAServerOptions = {}) {
+    this.options = options
+  }
+
+  async start(): Promise<number> {
+    const users = this.options.users ?? {}
+    const certificateManager = (name: string) =>
+      new OPCUACertificateManager({
+        rootFolder: this.pkiFolder,
+        name,
+        automaticallyAcceptUnknownCertificate: true,
+      })
+
+    this.server = new OPCUAServer({
+      port: 0,
+      allowAnonymous: this.options.allowAnonymous ?? true,
+      serverCertificateManager: certificateManager('server'),
+      userCertificateManager: certificateManager('user'),
+      userManager: {
+        isValidUser: (userName: string, password: string) => users[userName] === password,
+      },
+    })
+    await this.server.initialize()
+    this.buildAddressSpace()
+    await this.server.start()
+    return this.server.endpoints[0].port
+  }
+
+  async stop(): Promise<void> {
+    await this.server?.shutdown()
+    this.server = undefined
+    fs.rmSync(this.pkiFolder, { recursive: true, force: true })
+  }
+
+  /**
+   * Self-signed client certificate the server accepts, for application and user identity alike
+   */
+  async createClientCertificate(): Promise<{ certificateFile: string; privateKeyFile: string }> {
+    const manager = new CertificateManager({ location: path.join(this.pkiFolder, 'client') })
+    await manager.initialize()
+
+    const certificateFile = path.join(this.pkiFolder, 'client', 'client_certificate.pem')
+    await manager.createSelfSignedCertificate({
+      outputFile: certificateFile,
+      subject: '/CN=URFMP Test Client',
+      applicationUri: CLIENT_APPLICATION_URI,
+      dns: [os.hostname()],
+      startDate: new Date(),
+      validity: 30,
+    })
+
+    return { certificateFile, privateKeyFile: manager.privateKey }
+  }
+
+  /**
+   * Change a variable as the controller would, e.g. set('EmergencyStop', true)
+   */
+  set(name: string, value: any): void {
+    const variable = this.variables.get(name)
+    if (!variable) {
+      throw new Error(`No variable ${name}`)
+    }
+    const dataType = variable.dataTypeObj.browseName.name as keyof typeof DataType
+    variable.setValueFromSource(new Variant({ dataType: DataType[dataType], value }))
+  }
+
+  get(name: string): any {
+    return this.variables.get(name)?.readValue().value.value
+  }
+
+  private buildAddressSpace(): void {
+    const addressSpace = this.server!.engine.addressSpace!
+    const namespace = addressSpace.getOwnNamespace()
+
+    const object = (parent: any, browseName: string) =>
+      namespace.addObject({
+        componentOf: parent,
+        browseName,
+        nodeId: `s=${this.idOf(parent, browseName)}`,
+      })
+    const variable = (parent: any, browseName: string, dataType: string, value: any) => {
+      const node = namespace.addVariable({
+        componentOf: parent,
+        browseName,
+        nodeId: `s=${this.idOf(parent, browseName)}`,
+        dataType,
+        minimumSamplingInterval: 50,
+        value: new Variant({ dataType: DataType[dataType as keyof typeof DataType], value }),
+      })
+      this.variables.set(browseName, node)
+      return node
+    }
+
+    const deviceSet = namespace.addFolder(addressSpace.rootFolder.objects, {
+      browseName: 'DeviceSet',
+      nodeId: 's=DeviceSet',
+    })
+    const cell = object(deviceSet, 'Cell')
+
+    const arm = object(object(cell, 'MotionDevices'), 'Arm')
+    variable(arm, 'Manufacturer', 'LocalizedText', { text: 'Acme Robotics' })
+    variable(arm, 'Model', 'LocalizedText', { text: 'AR-6' })
+    variable(arm, 'SerialNumber', 'String', 'AR6-0042')
+    const axes = object(arm, 'Axes')
+    for (let i = 1; i <= 6; i++) {
+      const parameters = object(object(axes, `Axis${i}`), 'ParameterSet')
+      const position = variable(parameters, 'ActualPosition', 'Double', i * 10)
+      this.variables.set(`Axis${i}.ActualPosition`, position)
+    }
+
+    const safety = object(object(object(cell, 'SafetyStates'), 'Safety'), 'ParameterSet')
+    variable(safety, 'EmergencyStop', 'Boolean', false)
+    variable(safety, 'ProtectiveStop', 'Boolean', false)
+    variable(safety, 'OperationalMode', 'String', 'AUTOMATIC')
+
+    const program = object(cell, 'Program')
+    variable(program, 'Speed', 'Double', 100)
+    for (const name of ['Start', 'Stop', 'SetOverride']) {
+      const method = namespace.addMethod(program, {
+        browseName: name,
+        nodeId: `s=${this.idOf(program, name)}`,
+        inputArguments:
+          name === 'SetOverride' ? [{ name: 'override', dataType: DataType.Double }] : [],
+        outputArguments:
+          name === 'SetOverride' ? [{ name: 'previous', dataType: DataType.Double }] : [],
+      })
+      method.bindMethod((inputArguments, _context, callback) => {
+        const inputs = inputArguments.map((argument) => argument.value)
+        this.calls.push({ method: name, inputs })
+
+        if (name !== 'SetOverride') {
+          callback(null, { statusCode: StatusCodes.Good, outputArguments: [] })
+          return
+        }
+        const previous = this.get('Speed')
+        this.set('Speed', inputs[0])
+        callback(null, {
+          statusCode: StatusCodes.Good,
+          outputArguments: [new Variant({ dataType: DataType.Double, value: previous })],
+        })
+      })
+    }
+  }
+
+  // Readable string node ids, ns=1;s=DeviceSet.Cell.Program.Start and so on
+  private idOf(parent: any, browseName: string): string {
+    const parentId = parent.nodeId.namespace === 0 ? '' : `${parent.nodeId.value}.`
+    return `${parentId}${browseName}`
+  }
+}
@@ -0,0 +1,556 @@
+import {
+  IRobotVendorAdapter,
+  BaseVendorAdapter,
+  RobotVendor,
+  VendorConnectionConfig,
+  VendorConnection,
+  RobotCommand,
+  RobotCommandType,
+  CommandResult,
+  RobotTelemetry,
+  RobotInfo,
+  RobotSpecifications,
+  RobotStatus,
+  EventCallback,
+  EventSubscription,
+  VendorEvent,
+  ValidationResult,
+  ValidationError,
+  ValidationWarning,
+  VendorFeatures,
+  AuthenticationType,
+  ConnectionProtocol,
+  ConnectionStatus,
+  TelemetryData,
+  TelemetrySource,
+  DataQuality,
+  TemperatureUnit,
+  setTelemetryValue,
+} from '@urfmp/types'
+
+import { convertValue, validateMapping } from './mapping'
+import { OPCUASessionClient } from './opcua-client'
+import { discoverMotionDevice } from './robotics'
+import {
+  OPCUAArgumentType,
+  OPCUAConfig,
+  OPCUAMapping,
+  OPCUANodeMapping,
+  OPCUARoboticsDevice,
+  OPCUASecurityMode,
+  OPCUASecurityPolicy,
+  OPCUAUserIdentity,
+} from './types'
+
+const DEFAULT_PORT = 4840
+const DEFAULT_PUBLISHING_INTERVAL = 500
+const SECURITY_MODES: OPCUASecurityMode[] = ['None', 'Sign', 'SignAndEncrypt']
+const SECURITY_POLICIES: OPCUASecurityPolicy[] = [
+  'None',
+  'Basic256Sha256',
+  'Aes128_Sha256_RsaOaep',
+  'Aes256_Sha256_RsaPss',
+]
+
+interface OPCUAConnectionState {
+  client: OPCUASessionClient
+  mapping: OPCUAMapping
+  nodes: OPCUANodeMapping[] // Mapped and discovered
+  device?: OPCUARoboticsDevice
+  values: Map<string, { value: any; timestamp: Date }> // Latest value per node name
+  listeners: Map<string, EventCallback> // By subscription id
+}
+
+/**
+ * Vendor-neutral adapter for controllers exposing an OPC UA server. Variables are monitored
+ * through one subscription and mapped into TelemetryData, commands call OPC UA methods.
+ */
+export class OPCUAAdapter extends BaseVendorAdapter implements IRobotVendorAdapter {
+  vendor = RobotVendor.CUSTOM
+
+  private states = new Map<string, OPCUAConnectionState>()
+  private connections = new Map<string, VendorConnection>()
+  private eventSubscriptions = new Map<string, EventSubscription>()
+
+  async connect(config: VendorConnectionConfig): Promise<VendorConnection> {
+    const validation = await this.validateConnection(config)
+    if (!validation.valid) {
+      throw new Error(
+        `Invalid configuration: ${validation.errors.map((e) => e.message).join(', ')}`
+      )
+    }
+
+    const mapping: OPCUAMapping = config.options!.mapping
+    const opcuaConfig = this.toOPCUAConfig(config)
+    const client = new OPCUASessionClient(opcuaConfig)
+
+    const connection = this.createConnection(config)
+    connection.status = ConnectionStatus.CONNECTING
+
+    const state: OPCUAConnectionState = {
+      client,
+      mapping,
+      nodes: [...(mapping.nodes ?? [])],
+      values: new Map(),
+      listeners: new Map(),
+    }
+
+    try {
+      await client.connect()
+
+      if (mapping.robotics) {
+        state.device = await discoverMotionDevice(client)
+        if (!state.device && state.nodes.length === 0) {
+          throw new Error('No Robotics companion specification motion device found')
+        }
+        state.nodes.push(...(state.device?.nodes ?? []))
+      }
+
+      connection.robotId =
+        mapping.serialNumber ||
+        state.device?.serialNumber ||
+        `opcua-${config.host}-${config.port || DEFAULT_PORT}`
+
+      for (const node of state.nodes) {
+        await client.monitor(
+          node.nodeId,
+          node.samplingInterval ?? opcuaConfig.publishingInterval,
+          (value, sourceTimestamp) =>
+            this.handleValue(connection, state, node, value, sourceTimestamp)
+        )
+      }
+      // Known starting values, so a change right after connecting is reported as one
+      await this.readMissing(state)
+
+      connection.status = ConnectionStatus.CONNECTED
+      connection.connectedAt = new Date()
+      client.onConnectionLost(() => this.markConnectionLost(connection))
+
+      this.states.set(connection.id, state)
+      this.connections.set(connection.id, connection)
+
+      console.log(`✅ Connected to OPC UA server at ${opcuaConfig.endpointUrl}`)
+      return connection
+    } catch (error) {
+      await client.disconnect()
+      connection.status = ConnectionStatus.ERROR
+      throw new Error(`Failed to connect to OPC UA server: ${(error as Error).message}`)
+    }
+  }
+
+  async disconnect(connectionId: string): Promise<void> {
+    const connection = this.connections.get(connectionId)
+    if (!connection) {
+      throw new Error(`Connection ${connectionId} not found`)
+    }
+
+    const state = this.states.get(connectionId)
+    if (state) {
+      state.listeners.clear()
+      await state.client.disconnect()
+      this.states.delete(connectionId)
+    }
+
+    for (const [id, subscription] of this.eventSubscriptions) {
+      if (subscription.connectionId === connectionId) {
+        subscription.active = false
+        this.eventSubscriptions.delete(id)
+      }
+    }
+
+    connection.status = ConnectionStatus.DISCONNECTED
+    this.connections.delete(connectionId)
+
+    console.log(`✅ Disconnected from OPC UA server (${connectionId})`)
+  }
+
+  async sendCommand(connectionId: string, command: RobotCommand): Promise<CommandResult> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    const startTime = Date.now()
+
+    try {
+      let result: any
+
+      if (command.type === RobotCommandType.CUSTOM) {
+        result = await this.runCustom(state.client, command.payload ?? {})
+      } else {
+        const method = state.mapping.methods?.find((entry) => entry.command === command.type)
+        if (!method) {
+          throw new Error(`Unsupported command type: ${command.type}`)
+        }
+
+        const inputArguments = (method.inputArguments ?? []).map((argument, i) => {
+          const field = argument.payloadField ?? `arg${i}`
+          const value = argument.value ?? command.payload?.[field]
+          if (value === undefined) {
+            throw new Error(`${field} is required for ${command.type} command`)
+          }
+          return { dataType: argument.dataType, value }
+        })
+
+        const outputArguments = await state.client.call(
+          method.objectId,
+          method.methodId,
+          inputArguments
+        )
+        result = { outputArguments }
+      }
+
+      return {
+        success: true,
+        commandId: command.id || `cmd-${Date.now()}`,
+        result,
+        executionTime: Date.now() - startTime,
+        timestamp: new Date(),
+      }
+    } catch (error) {
+      return {
+        success: false,
+        commandId: command.id || `cmd-${Date.now()}`,
+        error: (error as Error).message,
+        executionTime: Date.now() - startTime,
+        timestamp: new Date(),
+      }
+    }
+  }
+
+  async getTelemetry(connectionId: string): Promise<RobotTelemetry> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    try {
+      // Right after connecting the first notifications may not have arrived yet
+      if (state.values.size < state.nodes.length) {
+        await this.readMissing(state)
+      }
+
+      const data: TelemetryData = {}
+      let timestamp = 0
+      for (const node of state.nodes) {
+        const entry = state.values.get(node.name ?? node.target)
+        if (entry) {
+          setTelemetryValue(data, node.target, entry.value, node.unit)
+          timestamp = Math.max(timestamp, entry.timestamp.getTime())
+        }
+      }
+
+      return {
+        id: `tel-${Date.now()}`,
+        robotId: connection.robotId,
+        timestamp: timestamp ? new Date(timestamp) : new Date(),
+        data,
+        metadata: {
+          source: TelemetrySource.ROBOT_CONTROLLER,
+          quality: state.client.isConnected() ? DataQuality.HIGH : DataQuality.QUESTIONABLE,
+          samplingRate: 1000 / (state.mapping.publishingInterval ?? DEFAULT_PUBLISHING_INTERVAL),
+        },
+      }
+    } catch (error) {
+      throw new Error(`Failed to get telemetry: ${(error as Error).message}`)
+    }
+  }
+
+  async getRobotInfo(connectionId: string): Promise<RobotInfo> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    const { mapping, device } = state
+    return {
+      model: mapping.model || device?.model || 'OPC UA device',
+      serialNumber: mapping.serialNumber || device?.serialNumber || connection.robotId,
+      firmwareVersion: 'unknown',
+      manufacturer: mapping.manufacturer || device?.manufacturer || 'Unknown',
+      capabilities: [],
+      specifications: this.getSpecifications(state),
+      status: state.client.isConnected() ? RobotStatus.ONLINE : RobotStatus.OFFLINE,
+    }
+  }
+
+  async subscribeToEvents(
+    connectionId: string,
+    callback: EventCallback
+  ): Promise<EventSubscription> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    const subscriptionId = `sub-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+
+    const subscription: EventSubscription = {
+      id: subscriptionId,
+      userId: '',
+      organizationId: '',
+      name: `OPC UA Events ${connectionId}`,
+      filter: { types: [] },
+      channels: [],
+      enabled: true,
+      connectionId,
+      active: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+
+    // Nodes with an event type report their changes as the server publishes them
+    state.listeners.set(subscriptionId, callback)
+    this.eventSubscriptions.set(subscriptionId, subscription)
+    return subscription
+  }
+
+  async unsubscribeFromEvents(subscriptionId: string): Promise<void> {
+    const subscription = this.eventSubscriptions.get(subscriptionId)
+    if (subscription) {
+      subscription.active = false
+      this.states.get(subscription.connectionId!)?.listeners.delete(subscriptionId)
+      this.eventSubscriptions.delete(subscriptionId)
+    }
+  }
+
+  async validateConnection(config: VendorConnectionConfig): Promise<ValidationResult> {
+    const baseValidation = this.validateConfig(config)
+    const errors: ValidationError[] = [...baseValidation.errors]
+    const warnings: ValidationWarning[] = [...baseValidation.warnings]
+
+    if (config.protocol !== ConnectionProtocol.OPC_UA) {
+      errors.push({
+        field: 'protocol',
+        message: 'OPC UA servers are reached over opc_ua',
+        code: 'UNSUPPORTED_PROTOCOL',
+      })
+    }
+
+    const securityMode = config.options?.securityMode
+    if (securityMode !== undefined && !SECURITY_MODES.includes(securityMode)) {
+      errors.push({
+        field: 'options.securityMode',
+        message: `Security mode must be one of ${SECURITY_MODES.join(', ')}`,
+        code: 'INVALID_SECURITY_MODE',
+      })
+    }
+
+    const securityPolicy = config.options?.securityPolicy
+    if (securityPolicy !== undefined && !SECURITY_POLICIES.includes(securityPolicy)) {
+      errors.push({
+        field: 'options.securityPolicy',
+        message: `Security policy must be one of ${SECURITY_POLICIES.join(', ')}`,
+        code: 'INVALID_SECURITY_POLICY',
+      })
+    }
+
+    const credentials = config.authentication?.credentials ?? {}
+    switch (config.authentication?.type) {
+      case AuthenticationType.CERTIFICATE:
+        for (const field of ['certificateFile', 'privateKeyFile']) {
+          if (!credentials[field]) {
+            errors.push({
+              field: `authentication.credentials.${field}`,
+              message: `${field} is required for certificate authentication`,
+              code: 'REQUIRED_FIELD',
+            })
+          }
+        }
+        if ((securityMode ?? 'None') === 'None') {
+          warnings.push({
+            field: 'options.securityMode',
+            message: 'Certificate authentication without message security is rarely accepted',
+            code: 'INSECURE_CERTIFICATE_AUTH',
+          })
+        }
+        break
+      case AuthenticationType.BASIC:
+        if (!credentials.username) {
+          errors.push({
+            field: 'authentication.credentials.username',
+            message: 'username is required for basic authentication',
+            code: 'REQUIRED_FIELD',
+          })
+        }
+        break
+      case undefined:
+      case AuthenticationType.NONE:
+        break
+      default:
+        errors.push({
+          field: 'authentication.type',
+          message: 'OPC UA supports none, basic and certificate authentication',
+          code: 'UNSUPPORTED_AUTHENTICATION',
+        })
+    }
+
+    errors.push(...validateMapping(config.options?.mapping))
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+    }
+  }
+
+  getSupportedFeatures(): VendorFeatures {
+    return {
+      supportsRealTimeControl: false,
+      supportsFileTransfer: false,
+      supportsRemoteAccess: true,
+      supportsVideoStream: false,
+      supportsForceControl: false,
+      supportsCollisionDetection: false,
+      supportsSafetyMonitoring: true,
+      supportsPathPlanning: false,
+      supportsCalibration: false,
+      supportsOTA: false,
+      customFeatures: [
+        'opc_ua',
+        'monitored_items',
+        'method_calls',
+        'robotics_companion_spec',
+        'certificate_auth',
+      ],
+    }
+  }
+
+  // Private helper methods
+
+  private toOPCUAConfig(config: VendorConnectionConfig): OPCUAConfig {
+    const options = config.options ?? {}
+    const securityMode: OPCUASecurityMode = options.securityMode ?? 'None'
+    const credentials = config.authentication?.credentials ?? {}
+
+    let userIdentity: OPCUAUserIdentity = { type: 'anonymous' }
+    if (config.authentication?.type === AuthenticationType.BASIC) {
+      userIdentity = {
+        type: 'username',
+        userName: credentials.username,
+        password: credentials.password ?? '',
+      }
+    } else if (config.authentication?.type === AuthenticationType.CERTIFICATE) {
+      userIdentity = {
+        type: 'certificate',
+        certificateFile: credentials.certificateFile,
+        privateKeyFile: credentials.privateKeyFile,
+      }
+    }
+
+    return {
+      endpointUrl: `opc.tcp://${config.host}:${config.port || DEFAULT_PORT}${options.endpointPath ?? ''}`,
+      securityMode,
+      securityPolicy:
+        options.securityPolicy ?? (securityMode === 'None' ? 'None' : 'Basic256Sha256'),
+      // The certificate that identifies the user also identifies the application
+      applicationUri: options.applicationUri,
+      certificateFile: credentials.certificateFile,
+      privateKeyFile: credentials.privateKeyFile,
+      userIdentity,
+      timeout: config.timeout || 5000,
+      publishingInterval: options.mapping?.publishingInterval ?? DEFAULT_PUBLISHING_INTERVAL,
+    }
+  }
+
+  private handleValue(
+    connection: VendorConnection,
+    state: OPCUAConnectionState,
+    node: OPCUANodeMapping,
+    raw: any,
+    sourceTimestamp?: Date
+  ): void {
+    const name = node.name ?? node.target
+    const value = convertValue(node, raw)
+    const timestamp = sourceTimestamp ?? new Date()
+    const previous = state.values.get(name)
+    state.values.set(name, { value, timestamp })
+
+    if (node.event && previous !== undefined && previous.value !== value) {
+      const event = this.toVendorEvent(connection.robotId, node, previous.value, value, timestamp)
+      state.listeners.forEach((callback) => callback(event))
+    }
+  }
+
+  private async readMissing(state: OPCUAConnectionState): Promise<void> {
+    for (const node of state.nodes) {
+      const name = node.name ?? node.target
+      if (!state.values.has(name)) {
+        const value = convertValue(node, await state.client.read(node.nodeId))
+        state.values.set(name, { value, timestamp: new Date() })
+      }
+    }
+  }
+
+  private toVendorEvent(
+    robotId: string,
+    node: OPCUANodeMapping,
+    previous: any,
+    value: any,
+    timestamp: Date
+  ): VendorEvent {
+    return {
+      id: `evt-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type: node.event!,
+      robotId,
+      data: {
+        node: node.name ?? node.target,
+        nodeId: node.nodeId,
+        target: node.target,
+        previous,
+        value,
+      },
+      timestamp,
+      source: 'opc_ua',
+    }
+  }
+
+  // CUSTOM calls any method with { objectId, methodId, inputArguments } or writes any variable
+  // with { nodeId, dataType, value }
+  private async runCustom(client: OPCUASessionClient, payload: Record<string, any>): Promise<any> {
+    if (payload.methodId) {
+      if (!payload.objectId) {
+        throw new Error('objectId is required to call a method')
+      }
+      const outputArguments = await client.call(
+        payload.objectId,
+        payload.methodId,
+        payload.inputArguments ?? []
+      )
+      return { outputArguments }
+    }
+
+    if (payload.nodeId) {
+      if (!payload.dataType || payload.value === undefined) {
+        throw new Error('dataType and value are required to write a node')
+      }
+      await client.write(payload.nodeId, payload.dataType as OPCUAArgumentType, payload.value)
+      return { written: payload.nodeId }
+    }
+
+    throw new Error('methodId or nodeId is required for CUSTOM command')
+  }
+
+  private getSpecifications(state: OPCUAConnectionState): RobotSpecifications {
+    // Axes come from the companion specification, the rest is not part of the information model
+    const axes = state.nodes.filter((node) => node.target.startsWith('jointAngles.')).length
+    const range = { min: 0, max: 0, unit: 'mm' }
+    return {
+      axes,
+      payload: 0,
+      reach: 0,
+      repeatability: 0,
+      maxSpeed: 0,
+      maxAcceleration: 0,
+      workingRange: { x: range, y: range, z: range },
+      operatingTemperature: { min: 0, max: 50, unit: TemperatureUnit.CELSIUS },
+      power: { voltage: 0, frequency: 0, consumption: 0, phases: 1 },
+      dimensions: { length: 0, width: 0, height: 0 },
+      weight: 0,
+    }
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * OPC UA adapter for URFMP
+ * Supports: any OPC UA server, motion devices described with the Robotics companion specification
+ */
+
+export { OPCUAAdapter } from './adapter'
+export { adapterPlugin } from './plugin'
+export { OPCUASessionClient } from './opcua-client'
+export { convertValue, validateMapping } from './mapping'
+export { discoverMotionDevice } from './robotics'
+export * from './types'
@@ -0,0 +1,102 @@
+import { RobotCommandType, TELEMETRY_TARGETS, ValidationError, VendorEventType } from '@urfmp/types'
+import { resolveNodeId } from 'node-opcua-client'
+import { OPCUAArgumentType, OPCUAMapping, OPCUANodeMapping } from './types'
+
+const ARGUMENT_TYPES: OPCUAArgumentType[] = [
+  'Boolean',
+  'SByte',
+  'Byte',
+  'Int16',
+  'UInt16',
+  'Int32',
+  'UInt32',
+  'Float',
+  'Double',
+  'String',
+]
+
+/**
+ * Scale numeric values, anything else passes through as the server sent it
+ */
+export function convertValue(mapping: OPCUANodeMapping, value: any): any {
+  if (typeof value !== 'number') {
+    return value
+  }
+  return value * (mapping.scale ?? 1) + (mapping.offset ?? 0)
+}
+
+/**
+ * Check a mapping before connecting, errors name the offending field by path
+ */
+export function validateMapping(mapping: OPCUAMapping | undefined): ValidationError[] {
+  const errors: ValidationError[] = []
+  const error = (field: string, message: string, code: string) =>
+    errors.push({ field: `options.mapping${field}`, message, code })
+
+  if (!mapping || typeof mapping !== 'object') {
+    error('', 'A node mapping is required', 'REQUIRED_FIELD')
+    return errors
+  }
+
+  if (!mapping.robotics && !mapping.nodes?.length) {
+    error('.nodes', 'Map at least one node or enable robotics discovery', 'REQUIRED_FIELD')
+  }
+
+  mapping.nodes?.forEach((node, i) => {
+    const field = `.nodes[${i}]`
+    checkNodeId(node.nodeId, `${field}.nodeId`, error)
+
+    if (!node.target || !TELEMETRY_TARGETS.includes(node.target.split('.')[0] as any)) {
+      error(
+        `${field}.target`,
+        `Target must be a TelemetryData path starting with one of ${TELEMETRY_TARGETS.join(', ')}`,
+        'INVALID_TARGET'
+      )
+    }
+
+    if (node.samplingInterval !== undefined && !(node.samplingInterval >= 0)) {
+      error(`${field}.samplingInterval`, 'Sampling interval cannot be negative', 'INVALID_INTERVAL')
+    }
+
+    if (node.event !== undefined && !Object.values(VendorEventType).includes(node.event)) {
+      error(`${field}.event`, `Unknown event type ${node.event}`, 'INVALID_EVENT')
+    }
+  })
+
+  mapping.methods?.forEach((method, i) => {
+    const field = `.methods[${i}]`
+    checkNodeId(method.objectId, `${field}.objectId`, error)
+    checkNodeId(method.methodId, `${field}.methodId`, error)
+
+    if (!Object.values(RobotCommandType).includes(method.command)) {
+      error(`${field}.command`, `Unknown command type ${method.command}`, 'INVALID_COMMAND')
+    }
+
+    method.inputArguments?.forEach((argument, j) => {
+      if (!ARGUMENT_TYPES.includes(argument.dataType)) {
+        error(
+          `${field}.inputArguments[${j}].dataType`,
+          `Data type must be one of ${ARGUMENT_TYPES.join(', ')}`,
+          'INVALID_TYPE'
+        )
+      }
+    })
+  })
+
+  return errors
+}
+
+function checkNodeId(
+  nodeId: string,
+  field: string,
+  error: (field: string, message: string, code: string) => void
+): void {
+  try {
+    if (typeof nodeId !== 'string' || nodeId === '') {
+      throw new Error()
+    }
+    resolveNodeId(nodeId)
+  } catch {
+    error(field, `Invalid node id ${nodeId}`, 'INVALID_NODE_ID')
+  }
+}
@@ -0,0 +1,282 @@
+import * as fs from 'fs'
+import {
+  AttributeIds,
+  BrowseDirection,
+  ClientMonitoredItem,
+  ClientSession,
+  ClientSubscription,
+  DataType,
+  DataValue,
+  MessageSecurityMode,
+  NodeClass,
+  OPCUAClient,
+  SecurityPolicy,
+  StatusCodes,
+  TimestampsToReturn,
+  UserIdentityInfo,
+  UserTokenType,
+  Variant,
+} from 'node-opcua-client'
+import {
+  OPCUAArgumentType,
+  OPCUABrowseEntry,
+  OPCUAConfig,
+  OPCUAConnectionInfo,
+  OPCUAUserIdentity,
+} from './types'
+
+export type OPCUAValueCallback = (value: any, sourceTimestamp?: Date) => void
+
+/**
+ * One OPC UA session with a single subscription for every monitored item
+ */
+export class OPCUASessionClient {
+  private config: OPCUAConfig
+  private client?: OPCUAClient
+  private session?: ClientSession
+  private subscription?: ClientSubscription
+  private monitoredItems: ClientMonitoredItem[] = []
+  private connected = false
+  private notificationsReceived = 0
+  private lostCallback?: () => void
+
+  constructor(config: OPCUAConfig) {
+    this.config = config
+  }
+
+  async connect(): Promise<void> {
+    this.client = OPCUAClient.create({
+      applicationName: 'URFMP OPC UA Adapter',
+      applicationUri: this.config.applicationUri,
+      endpointMustExist: false, // Servers often advertise a hostname instead of the address used
+      securityMode: MessageSecurityMode[this.config.securityMode],
+      securityPolicy: SecurityPolicy[this.config.securityPolicy],
+      certificateFile: this.config.certificateFile,
+      privateKeyFile: this.config.privateKeyFile,
+      connectionStrategy: { maxRetry: 0, initialDelay: 100, maxDelay: this.config.timeout },
+      requestedSessionTimeout: 60000,
+      transportTimeout: this.config.timeout,
+    })
+
+    this.client.on('connection_lost', () => {
+      this.connected = false
+      console.log(`OPC UA connection lost (${this.config.endpointUrl})`)
+      this.lostCallback?.()
+    })
+    this.client.on('connection_reestablished', () => {
+      this.connected = true
+    })
+
+    try {
+      await this.client.connect(this.config.endpointUrl)
+      const session = await this.client.createSession(this.toUserIdentity(this.config.userIdentity))
+      this.session = session
+      // The server can drop the session while the channel stays up, e.g. on a timeout or restart
+      session.on('session_closed', () => {
+        if (this.session === session) {
+          this.connected = false
+          console.log(`OPC UA session closed (${this.config.endpointUrl})`)
+          this.lostCallback?.()
+        }
+      })
+      this.subscription = await this.session.createSubscription2({
+        requestedPublishingInterval: this.config.publishingInterval,
+        requestedLifetimeCount: 100,
+        requestedMaxKeepAliveCount: 10,
+        maxNotificationsPerPublish: 1000,
+        publishingEnabled: true,
+        priority: 1,
+      })
+      this.connected = true
+      console.log(`Connected to OPC UA server at ${this.config.endpointUrl}`)
+    } catch (error) {
+      await this.disconnect()
+      throw new Error(`OPC UA connection failed: ${(error as Error).message}`)
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    const { client, session, subscription } = this
+    this.client = undefined
+    this.session = undefined
+    this.subscription = undefined
+    this.monitoredItems = []
+    this.connected = false
+
+    await subscription?.terminate().catch(() => undefined)
+    await session?.close().catch(() => undefined)
+    if (client) {
+      client.removeAllListeners()
+      await client.disconnect().catch(() => undefined)
+    }
+  }
+
+  /**
+   * Called when the channel or the session is lost, not on disconnect()
+   */
+  onConnectionLost(callback: () => void): void {
+    this.lostCallback = callback
+  }
+
+  /**
+   * Children of a node over hierarchical references, objects and variables alike
+   */
+  async browse(nodeId: string): Promise<OPCUABrowseEntry[]> {
+    const result = await this.getSession().browse({
+      nodeId,
+      browseDirection: BrowseDirection.Forward,
+      referenceTypeId: 'HierarchicalReferences',
+      includeSubtypes: true,
+      resultMask: 0x3f,
+    })
+    if (result.statusCode !== StatusCodes.Good) {
+      throw new Error(`Browse of ${nodeId} failed: ${result.statusCode.toString()}`)
+    }
+
+    return (result.references ?? []).map((reference) => ({
+      nodeId: reference.nodeId.toString(),
+      browseName: reference.browseName.name ?? '',
+      nodeClass: NodeClass[reference.nodeClass],
+    }))
+  }
+
+  async read(nodeId: string): Promise<any> {
+    const dataValue = await this.getSession().read({ nodeId, attributeId: AttributeIds.Value })
+    return this.toValue(nodeId, dataValue)
+  }
+
+  async write(nodeId: string, dataType: OPCUAArgumentType, value: any): Promise<void> {
+    const statusCode = await this.getSession().write({
+      nodeId,
+      attributeId: AttributeIds.Value,
+      value: { value: this.toVariant(dataType, value) },
+    })
+    if (statusCode !== StatusCodes.Good) {
+      throw new Error(`Write to ${nodeId} failed: ${statusCode.toString()}`)
+    }
+  }
+
+  async call(
+    objectId: string,
+    methodId: string,
+    inputArguments: { dataType: OPCUAArgumentType; value: any }[] = []
+  ): Promise<any[]> {
+    const result = await this.getSession().call({
+      objectId,
+      methodId,
+      inputArguments: inputArguments.map(({ dataType, value }) => this.toVariant(dataType, value)),
+    })
+    if (result.statusCode !== StatusCodes.Good) {
+      throw new Error(`Method ${methodId} failed: ${result.statusCode.toString()}`)
+    }
+
+    return (result.outputArguments ?? []).map((variant) => this.toPlain(variant.value))
+  }
+
+  /**
+   * Report every change of a variable value, the current value arrives first
+   */
+  async monitor(
+    nodeId: string,
+    samplingInterval: number,
+    callback: OPCUAValueCallback
+  ): Promise<void> {
+    if (!this.subscription) {
+      throw new Error('Not connected to OPC UA server')
+    }
+
+    const item = ClientMonitoredItem.create(
+      this.subscription,
+      { nodeId, attributeId: AttributeIds.Value },
+      { samplingInterval, discardOldest: true, queueSize: 1 },
+      TimestampsToReturn.Both
+    )
+
+    await new Promise<void>((resolve, reject) => {
+      item.once('initialized', () => resolve())
+      item.once('err', (message: string) =>
+        reject(new Error(`Cannot monitor ${nodeId}: ${message}`))
+      )
+    })
+
+    item.on('changed', (dataValue: DataValue) => {
+      this.notificationsReceived++
+      if (dataValue.statusCode.isGood()) {
+        callback(this.toPlain(dataValue.value.value), dataValue.sourceTimestamp ?? undefined)
+      }
+    })
+    this.monitoredItems.push(item)
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  getConnectionInfo(): OPCUAConnectionInfo {
+    return {
+      connected: this.connected,
+      endpointUrl: this.config.endpointUrl,
+      securityMode: this.config.securityMode,
+      securityPolicy: this.config.securityPolicy,
+      sessionId: this.session?.sessionId.toString(),
+      monitoredItems: this.monitoredItems.length,
+      notificationsReceived: this.notificationsReceived,
+    }
+  }
+
+  private getSession(): ClientSession {
+    if (!this.session || !this.connected) {
+      throw new Error('Not connected to OPC UA server')
+    }
+    return this.session
+  }
+
+  private toUserIdentity(identity: OPCUAUserIdentity): UserIdentityInfo {
+    switch (identity.type) {
+      case 'username':
+        return {
+          type: UserTokenType.UserName,
+          userName: identity.userName,
+          password: identity.password,
+        }
+      case 'certificate':
+        return {
+          type: UserTokenType.Certificate,
+          certificateData: pemToDer(fs.readFileSync(identity.certificateFile, 'utf8')),
+          privateKey: fs.readFileSync(identity.privateKeyFile, 'utf8'),
+        }
+      default:
+        return { type: UserTokenType.Anonymous }
+    }
+  }
+
+  private toVariant(dataType: OPCUAArgumentType, value: any): Variant {
+    return new Variant({ dataType: DataType[dataType], value })
+  }
+
+  private toValue(nodeId: string, dataValue: DataValue): any {
+    if (!dataValue.statusCode.isGood()) {
+      throw new Error(`Read of ${nodeId} failed: ${dataValue.statusCode.toString()}`)
+    }
+    return this.toPlain(dataValue.value.value)
+  }
+
+  // Typed arrays and localized text become plain values
+  private toPlain(value: any): any {
+    if (ArrayBuffer.isView(value)) {
+      return Array.from(value as unknown as ArrayLike<number>)
+    }
+    if (value && typeof value === 'object' && 'text' in value && 'locale' in value) {
+      return value.text
+    }
+    return value
+  }
+}
+
+function pemToDer(pem: string): Buffer {
+  const body = pem
+    .replace(/-----BEGIN CERTIFICATE-----/, '')
+    .replace(/-----END CERTIFICATE-----[\s\S]*/, '')
+    .replace(/\s+/g, '')
+  return Buffer.from(body, 'base64')
+}
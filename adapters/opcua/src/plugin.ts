@@ -0,0 +1,138 @@
+import {
+  AuthenticationType,
+  ConnectionProtocol,
+  createConnectionConfigSchema,
+  RobotCommandType,
+  VendorAdapterPlugin,
+  VendorEventType,
+} from '@urfmp/types'
+import { OPCUAAdapter } from './adapter'
+
+const argumentTypes = [
+  'Boolean',
+  'SByte',
+  'Byte',
+  'Int16',
+  'UInt16',
+  'Int32',
+  'UInt32',
+  'Float',
+  'Double',
+  'String',
+]
+
+/**
+ * Entry point for the adapter loader
+ */
+export const adapterPlugin: VendorAdapterPlugin = {
+  config: {
+    name: 'opcua',
+    version: '1.0.0',
+    description: 'Vendor-neutral OPC UA adapter with Robotics companion specification support',
+    author: 'URFMP Team',
+    license: 'MIT',
+    supportedRobots: [
+      {
+        model: 'OPC UA server',
+        series: 'Generic',
+        firmwareVersions: [],
+        notes: 'Nodes and methods described by options.mapping',
+      },
+      {
+        model: 'Motion device',
+        series: 'OPC UA Robotics (OPC 40010)',
+        firmwareVersions: [],
+        notes: 'Discovered with options.mapping.robotics',
+      },
+    ],
+    defaultConfig: {
+      host: '192.168.0.20',
+      port: 4840,
+      protocol: ConnectionProtocol.OPC_UA,
+      timeout: 5000,
+      options: { securityMode: 'None', mapping: { robotics: true } },
+    },
+    configSchema: createConnectionConfigSchema({
+      protocols: [ConnectionProtocol.OPC_UA],
+      port: 4840,
+      authentication: [
+        AuthenticationType.NONE,
+        AuthenticationType.BASIC,
+        AuthenticationType.CERTIFICATE,
+      ],
+      options: {
+        type: 'object',
+        required: ['mapping'],
+        additionalProperties: false,
+        properties: {
+          endpointPath: { type: 'string', pattern: '^/', title: 'Endpoint path' },
+          securityMode: {
+            type: 'string',
+            enum: ['None', 'Sign', 'SignAndEncrypt'],
+            default: 'None',
+            title: 'Security mode',
+          },
+          securityPolicy: {
+            type: 'string',
+            enum: ['None', 'Basic256Sha256', 'Aes128_Sha256_RsaOaep', 'Aes256_Sha256_RsaPss'],
+            title: 'Security policy',
+          },
+          applicationUri: { type: 'string', title: 'Application URI' },
+          mapping: {
+            type: 'object',
+            title: 'Node mapping',
+            properties: {
+              model: { type: 'string' },
+              manufacturer: { type: 'string' },
+              serialNumber: { type: 'string' },
+              publishingInterval: { type: 'integer', minimum: 0, default: 500 },
+              robotics: { type: 'boolean', default: false },
+              nodes: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['nodeId', 'target'],
+                  properties: {
+                    name: { type: 'string' },
+                    nodeId: { type: 'string', minLength: 1 },
+                    target: { type: 'string', minLength: 1 },
+                    scale: { type: 'number' },
+                    offset: { type: 'number' },
+                    unit: { type: 'string' },
+                    samplingInterval: { type: 'number', minimum: 0 },
+                    event: { type: 'string', enum: Object.values(VendorEventType) },
+                  },
+                },
+              },
+              methods: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['command', 'objectId', 'methodId'],
+                  properties: {
+                    command: { type: 'string', enum: Object.values(RobotCommandType) },
+                    objectId: { type: 'string', minLength: 1 },
+                    methodId: { type: 'string', minLength: 1 },
+                    inputArguments: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        required: ['dataType'],
+                        properties: {
+                          dataType: { type: 'string', enum: argumentTypes },
+                          payloadField: { type: 'string' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    }),
+    features: new OPCUAAdapter().getSupportedFeatures(),
+  },
+  createAdapter: () => new OPCUAAdapter(),
+}
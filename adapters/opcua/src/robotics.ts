@@ -0,0 +1,156 @@
+import { AngleUnit, AngularVelocityUnit, VendorEventType } from '@urfmp/types'
+import { OPCUASessionClient } from './opcua-client'
+import { OPCUABrowseEntry, OPCUANodeMapping, OPCUARoboticsDevice } from './types'
+
+const OBJECTS_FOLDER = 'i=85'
+const MAX_JOINTS = 8 // JointAngles ends at joint8
+
+/**
+ * Find the first motion device of a server implementing the OPC UA Robotics companion
+ * specification (OPC 40010) and map its axes and safety states to telemetry. Nodes are matched
+ * by browse name, so servers that only mirror the structure without loading the nodeset work too.
+ *
+ * Objects/DeviceSet/<MotionDeviceSystem>
+ *   MotionDevices/<MotionDevice>  Manufacturer, Model, SerialNumber, ProductCode
+ *     Axes/<Axis>/ParameterSet    ActualPosition, ActualSpeed
+ *   SafetyStates/<SafetyState>/ParameterSet  EmergencyStop, ProtectiveStop, OperationalMode
+ */
+export async function discoverMotionDevice(
+  client: OPCUASessionClient
+): Promise<OPCUARoboticsDevice | undefined> {
+  const deviceSet = await findChild(client, OBJECTS_FOLDER, 'DeviceSet')
+  if (!deviceSet) {
+    return undefined
+  }
+
+  for (const system of await client.browse(deviceSet.nodeId)) {
+    const motionDevices = await findChild(client, system.nodeId, 'MotionDevices')
+    const device = motionDevices && (await objectsOf(client, motionDevices.nodeId))[0]
+    if (!device) {
+      continue
+    }
+
+    const children = await client.browse(device.nodeId)
+    const property = async (name: string) => {
+      const node = children.find((child) => child.browseName === name)
+      return node ? String(await client.read(node.nodeId)) : undefined
+    }
+
+    return {
+      motionDeviceSystem: system.nodeId,
+      motionDevice: device.nodeId,
+      manufacturer: await property('Manufacturer'),
+      model: await property('Model'),
+      serialNumber: await property('SerialNumber'),
+      productCode: await property('ProductCode'),
+      nodes: [
+        ...(await axisNodes(client, children)),
+        ...(await safetyNodes(client, system.nodeId)),
+      ],
+    }
+  }
+
+  return undefined
+}
+
+async function axisNodes(
+  client: OPCUASessionClient,
+  deviceChildren: OPCUABrowseEntry[]
+): Promise<OPCUANodeMapping[]> {
+  const axesFolder = deviceChildren.find((child) => child.browseName === 'Axes')
+  if (!axesFolder) {
+    return []
+  }
+
+  const axes = (await objectsOf(client, axesFolder.nodeId))
+    .sort((a, b) => a.browseName.localeCompare(b.browseName, undefined, { numeric: true }))
+    .slice(0, MAX_JOINTS)
+
+  const nodes: OPCUANodeMapping[] = []
+  for (const [index, axis] of axes.entries()) {
+    const parameters = await parameterSet(client, axis.nodeId)
+    const joint = `joint${index + 1}`
+
+    if (parameters.ActualPosition) {
+      nodes.push({
+        name: `${axis.browseName}.ActualPosition`,
+        nodeId: parameters.ActualPosition,
+        target: `jointAngles.${joint}`,
+        unit: AngleUnit.DEGREES, // Rotational axes report degrees per the specification
+      })
+    }
+    if (parameters.ActualSpeed) {
+      nodes.push({
+        name: `${axis.browseName}.ActualSpeed`,
+        nodeId: parameters.ActualSpeed,
+        target: `velocity.joint.${joint}`,
+        unit: AngularVelocityUnit.DEGREES_PER_SECOND,
+      })
+    }
+  }
+
+  return nodes
+}
+
+async function safetyNodes(
+  client: OPCUASessionClient,
+  systemId: string
+): Promise<OPCUANodeMapping[]> {
+  const safetyStates = await findChild(client, systemId, 'SafetyStates')
+  const safetyState = safetyStates && (await objectsOf(client, safetyStates.nodeId))[0]
+  if (!safetyState) {
+    return []
+  }
+
+  const parameters = await parameterSet(client, safetyState.nodeId)
+  const nodes: OPCUANodeMapping[] = []
+
+  if (parameters.EmergencyStop) {
+    nodes.push({
+      name: 'EmergencyStop',
+      nodeId: parameters.EmergencyStop,
+      target: 'safety.emergencyStop',
+      event: VendorEventType.EMERGENCY_STOP,
+    })
+  }
+  if (parameters.ProtectiveStop) {
+    nodes.push({
+      name: 'ProtectiveStop',
+      nodeId: parameters.ProtectiveStop,
+      target: 'safety.protectiveStop',
+      event: VendorEventType.SAFETY_VIOLATION,
+    })
+  }
+  if (parameters.OperationalMode) {
+    nodes.push({
+      name: 'OperationalMode',
+      nodeId: parameters.OperationalMode,
+      target: 'custom.operationalMode',
+      event: VendorEventType.MODE_CHANGED,
+    })
+  }
+
+  return nodes
+}
+
+// Variables of a ParameterSet by browse name
+async function parameterSet(
+  client: OPCUASessionClient,
+  nodeId: string
+): Promise<Record<string, string>> {
+  const set = await findChild(client, nodeId, 'ParameterSet')
+  const variables = set ? await client.browse(set.nodeId) : []
+  return Object.fromEntries(variables.map((variable) => [variable.browseName, variable.nodeId]))
+}
+
+async function findChild(
+  client: OPCUASessionClient,
+  nodeId: string,
+  browseName: string
+): Promise<OPCUABrowseEntry | undefined> {
+  return (await client.browse(nodeId)).find((child) => child.browseName === browseName)
+}
+
+async function objectsOf(client: OPCUASessionClient, nodeId: string): Promise<OPCUABrowseEntry[]> {
+  return (await client.browse(nodeId)).filter((child) => child.nodeClass === 'Object')
+}
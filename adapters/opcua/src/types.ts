@@ -0,0 +1,113 @@
+// OPC UA adapter types
+import { RobotCommandType, VendorEventType } from '@urfmp/types'
+
+export type OPCUASecurityMode = 'None' | 'Sign' | 'SignAndEncrypt'
+
+export type OPCUASecurityPolicy =
+  | 'None'
+  | 'Basic256Sha256'
+  | 'Aes128_Sha256_RsaOaep'
+  | 'Aes256_Sha256_RsaPss'
+
+// Built-in types accepted for method arguments and writes
+export type OPCUAArgumentType =
+  | 'Boolean'
+  | 'SByte'
+  | 'Byte'
+  | 'Int16'
+  | 'UInt16'
+  | 'Int32'
+  | 'UInt32'
+  | 'Float'
+  | 'Double'
+  | 'String'
+
+export interface OPCUAConfig {
+  endpointUrl: string // opc.tcp://host:port/path
+  securityMode: OPCUASecurityMode
+  securityPolicy: OPCUASecurityPolicy
+  applicationUri?: string // Must match the URI in the client certificate
+  certificateFile?: string // Client application instance certificate, PEM
+  privateKeyFile?: string
+  userIdentity: OPCUAUserIdentity
+  timeout: number
+  publishingInterval: number
+}
+
+export type OPCUAUserIdentity =
+  | { type: 'anonymous' }
+  | { type: 'username'; userName: string; password: string }
+  | { type: 'certificate'; certificateFile: string; privateKeyFile: string }
+
+/**
+ * One variable monitored through the subscription and where it lands in TelemetryData
+ */
+export interface OPCUANodeMapping {
+  name?: string // Defaults to the target
+  nodeId: string // e.g. ns=2;s=Robot.Speed
+  target: string // TelemetryData path, e.g. jointAngles.joint1, safety.emergencyStop
+  scale?: number // Numbers only, value * scale + offset
+  offset?: number
+  unit?: string // Set on the object holding the target
+  samplingInterval?: number // ms, default the publishing interval
+  event?: VendorEventType // Emitted whenever the value changes
+}
+
+export interface OPCUAArgumentMapping {
+  dataType: OPCUAArgumentType
+  value?: any // Fixed value, otherwise taken from the command payload
+  payloadField?: string
+}
+
+/**
+ * Method called for a RobotCommandType
+ */
+export interface OPCUAMethodMapping {
+  command: RobotCommandType
+  objectId: string // Object the method belongs to
+  methodId: string
+  inputArguments?: OPCUAArgumentMapping[]
+}
+
+/**
+ * Declarative description of the server, passed as options.mapping of the connection config
+ */
+export interface OPCUAMapping {
+  model?: string
+  manufacturer?: string
+  serialNumber?: string // Robot id, default opcua-<host>-<port>
+  publishingInterval?: number // ms, default 500
+  nodes?: OPCUANodeMapping[]
+  methods?: OPCUAMethodMapping[]
+  // Discover a motion device described with the OPC UA Robotics companion specification
+  robotics?: boolean
+}
+
+/**
+ * What the Robotics companion specification browse found on the server
+ */
+export interface OPCUARoboticsDevice {
+  motionDeviceSystem: string // Node id of the MotionDeviceSystem
+  motionDevice: string
+  manufacturer?: string
+  model?: string
+  serialNumber?: string
+  productCode?: string
+  nodes: OPCUANodeMapping[] // Axis positions and safety states mapped to telemetry
+}
+
+export interface OPCUABrowseEntry {
+  nodeId: string
+  browseName: string // Without the namespace index
+  nodeClass: string
+}
+
+export interface OPCUAConnectionInfo {
+  connected: boolean
+  endpointUrl: string
+  securityMode: OPCUASecurityMode
+  securityPolicy: OPCUASecurityPolicy
+  sessionId?: string
+  monitoredItems: number
+  notificationsReceived: number
+}
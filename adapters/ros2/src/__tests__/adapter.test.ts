@@ -0,0 +1,445 @@
+import {
+  AuthenticationType,
+  ConnectionProtocol,
+  ConnectionStatus,
+  PathPlanningStatus,
+  RobotCommandType,
+  RobotStatus,
+  VendorConnection,
+  VendorConnectionConfig,
+  VendorEvent,
+  VendorEventType,
+} from '@urfmp/types'
+import { Ros2Adapter } from '../adapter'
+import { FakeRosbridge } from './rosbridge-server'
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+  const deadline = Date.now() + timeout
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+// Read until the adapter has taken in the messages published before
+const eventually = async <T>(read: () => Promise<T>, condition: (value: T) => boolean) => {
+  const deadline = Date.now() + 2000
+  let value = await read()
+  while (!condition(value) && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    value = await read()
+  }
+  return value
+}
+
+const header = { stamp: { sec: 0, nanosec: 0 }, frame_id: 'odom' }
+
+const odometry = {
+  header,
+  child_frame_id: 'base_link',
+  pose: {
+    pose: { position: { x: 2, y: 1, z: 0 }, orientation: { x: 0, y: 0, z: 0, w: 1 } },
+    covariance: [],
+  },
+  twist: {
+    twist: { linear: { x: 0.3, y: 0.4, z: 0 }, angular: { x: 0, y: 0, z: 0.1 } },
+    covariance: [],
+  },
+}
+
+const diagnostics = (level: number, message = 'Temperature high') => ({
+  header,
+  status: [
+    {
+      level,
+      name: 'base: motor',
+      message,
+      hardware_id: 'motor_left',
+      values: [{ key: 'temperature', value: '71.5' }],
+    },
+  ],
+})
+
+const goalStatus = (status: number, id = 1) => ({
+  status_list: [
+    { goal_info: { goal_id: { uuid: new Array(16).fill(id) }, stamp: header.stamp }, status },
+  ],
+})
+
+const feedback = (distance: number) => ({
+  feedback: {
+    current_pose: { header, pose: odometry.pose.pose },
+    navigation_time: { sec: 5, nanosec: 0 },
+    estimated_time_remaining: { sec: 12, nanosec: 500000000 },
+    number_of_recoveries: 1,
+    distance_remaining: distance,
+  },
+})
+
+describe('Ros2Adapter', () => {
+  let server: FakeRosbridge
+  let adapter: Ros2Adapter
+  let connection: VendorConnection | undefined
+  let port: number
+
+  const config = (options: Record<string, any> = {}): VendorConnectionConfig => ({
+    host: '127.0.0.1',
+    port,
+    protocol: ConnectionProtocol.WEBSOCKET,
+    timeout: 500,
+    options,
+  })
+
+  const connect = async (options: Record<string, any> = {}) => {
+    connection = await adapter.connect(config(options))
+    const topics = (options.topics ?? []).length || 6
+    await waitFor(() => server.subscribedTopics().length === topics)
+    return connection
+  }
+
+  const send = (type: RobotCommandType, payload: Record<string, any> = {}) =>
+    adapter.sendCommand(connection!.id, { id: `cmd-${type}`, type, payload } as any)
+
+  beforeEach(async () => {
+    server = new FakeRosbridge()
+    port = await server.start()
+    adapter = new Ros2Adapter()
+  })
+
+  afterEach(async () => {
+    if (connection) {
+      await adapter.disconnect(connection.id).catch(() => undefined)
+      connection = undefined
+    }
+    await server.stop()
+  })
+
+  it('should subscribe the default Nav2 topics and read the distro', async () => {
+    await connect()
+
+    const info = await adapter.getRobotInfo(connection!.id)
+    const telemetry = await adapter.getTelemetry(connection!.id)
+
+    expect(server.subscribedTopics().sort()).toEqual([
+      '/battery_state',
+      '/diagnostics',
+      '/gps/fix',
+      '/navigate_to_pose/_action/feedback',
+      '/navigate_to_pose/_action/status',
+      '/odom',
+    ])
+    expect(server.sent('subscribe', '/odom')[0]).toMatchObject({
+      type: 'nav_msgs/msg/Odometry',
+      throttle_rate: 200,
+    })
+    expect(connection!.robotId).toBe(`ros2-127.0.0.1-${port}`)
+    expect(info).toMatchObject({ firmwareVersion: 'ROS 2 humble', status: RobotStatus.ONLINE })
+    expect(telemetry.metadata?.quality).toBe('low')
+  })
+
+  it('should connect without rosapi', async () => {
+    server.services.delete('/rosapi/get_ros_version')
+    await connect({ robotId: 'amr-7', model: 'TurtleBot 4' })
+
+    const info = await adapter.getRobotInfo(connection!.id)
+
+    expect(connection!.robotId).toBe('amr-7')
+    expect(info).toMatchObject({ model: 'TurtleBot 4', firmwareVersion: 'Unknown' })
+  })
+
+  it('should map odometry, battery and GPS into telemetry', async () => {
+    await connect()
+
+    server.publish('/odom', odometry)
+    server.publish('/battery_state', {
+      header,
+      voltage: 25.5,
+      current: -3.2,
+      charge: NaN,
+      capacity: NaN,
+      percentage: 0.42,
+      power_supply_status: 2,
+      present: true,
+    })
+    server.publish('/gps/fix', {
+      header,
+      status: { status: 0, service: 1 },
+      latitude: 52.52,
+      longitude: 13.405,
+      altitude: 34,
+      position_covariance: [],
+      position_covariance_type: 0,
+    })
+    const telemetry = await eventually(
+      () => adapter.getTelemetry(connection!.id),
+      (latest) => latest.data.gpsPosition !== undefined && latest.data.voltage !== undefined
+    )
+
+    expect(telemetry.data.position).toMatchObject({ x: 2000, y: 1000, z: 0, rz: 0 })
+    expect(telemetry.data.velocity?.linear).toMatchObject({ x: 0.3, y: 0.4, magnitude: 0.5 })
+    expect(telemetry.data.velocity?.angular).toMatchObject({ rz: 0.1 })
+    expect(telemetry.data.voltage).toEqual({ supply: 25.5, unit: 'V' })
+    expect(telemetry.data.current).toEqual({ total: -3.2, unit: 'A' })
+    expect(telemetry.data.gpsPosition).toMatchObject({
+      latitude: 52.52,
+      longitude: 13.405,
+      altitude: 34,
+      speed: 0.5,
+      fix: '3d',
+    })
+    expect(telemetry.data.custom).toEqual({ batteryLevel: 42, batteryCharging: false })
+    expect(telemetry.metadata?.quality).toBe('high')
+  })
+
+  it('should prefer a localized pose over odometry', async () => {
+    await connect({
+      topics: [
+        { kind: 'odometry', topic: '/odom' },
+        { kind: 'pose', topic: '/amcl_pose' },
+      ],
+    })
+
+    server.publish('/odom', odometry)
+    server.publish('/amcl_pose', {
+      header: { ...header, frame_id: 'map' },
+      pose: {
+        pose: { position: { x: 10, y: 20, z: 0 }, orientation: { x: 0, y: 0, z: 1, w: 0 } },
+        covariance: [],
+      },
+    })
+
+    const telemetry = await eventually(
+      () => adapter.getTelemetry(connection!.id),
+      (latest) => latest.data.position?.x === 10000 && latest.data.velocity !== undefined
+    )
+
+    expect(telemetry.data.position).toMatchObject({ x: 10000, y: 20000 })
+    expect(telemetry.data.position!.rz).toBeCloseTo(180)
+  })
+
+  it('should emit diagnostics that leave or return to OK', async () => {
+    await connect()
+    const events: VendorEvent[] = []
+    await adapter.subscribeToEvents(connection!.id, (event) => events.push(event))
+
+    server.publish('/diagnostics', diagnostics(0, 'OK'))
+    server.publish('/diagnostics', diagnostics(1))
+    server.publish('/diagnostics', diagnostics(2, 'Overheated'))
+    server.publish('/diagnostics', diagnostics(0, 'OK'))
+    await waitFor(() => events.length === 3)
+
+    expect(events.map((event) => event.type)).toEqual([
+      VendorEventType.WARNING_ISSUED,
+      VendorEventType.ERROR_OCCURRED,
+      VendorEventType.STATUS_CHANGED,
+    ])
+    expect(events[1]).toMatchObject({
+      robotId: connection!.robotId,
+      source: 'ros2',
+      data: {
+        name: 'base: motor',
+        hardwareId: 'motor_left',
+        message: 'Overheated',
+        previous: 'WARN',
+        value: 'ERROR',
+        values: { temperature: '71.5' },
+      },
+    })
+  })
+
+  it('should report an erroring component in status and telemetry', async () => {
+    await connect()
+    server.publish('/diagnostics', diagnostics(2))
+
+    const info = await eventually(
+      () => adapter.getRobotInfo(connection!.id),
+      (latest) => latest.status === RobotStatus.ERROR
+    )
+    const telemetry = await adapter.getTelemetry(connection!.id)
+
+    expect(info.status).toBe(RobotStatus.ERROR)
+    expect(telemetry.data.custom).toMatchObject({
+      diagnostics: { 'base: motor': { level: 'ERROR', message: 'Temperature high' } },
+      diagnosticLevel: 2,
+    })
+  })
+
+  it('should track navigation status and progress', async () => {
+    await connect()
+    const events: VendorEvent[] = []
+    await adapter.subscribeToEvents(connection!.id, (event) => events.push(event))
+
+    server.publish('/navigate_to_pose/_action/feedback', feedback(8))
+    server.publish('/navigate_to_pose/_action/status', goalStatus(2))
+    server.publish('/navigate_to_pose/_action/feedback', feedback(2))
+    await waitFor(() => events.length === 1)
+
+    const telemetry = await eventually(
+      () => adapter.getTelemetry(connection!.id),
+      (latest) => latest.data.navigation?.missionProgress === 75
+    )
+    const info = await adapter.getRobotInfo(connection!.id)
+
+    expect(telemetry.data.navigation).toEqual({
+      pathPlanningStatus: PathPlanningStatus.EXECUTING,
+      estimatedTimeToTarget: 12.5,
+      missionProgress: 75,
+    })
+    expect(telemetry.data.custom).toEqual({ distanceRemaining: 2, navigationRecoveries: 1 })
+    expect(info.status).toBe(RobotStatus.RUNNING)
+    expect(events[0]).toMatchObject({
+      type: VendorEventType.STATUS_CHANGED,
+      data: { goalId: '01'.repeat(16), previous: 'executing', value: 'executing' },
+    })
+
+    server.publish('/navigate_to_pose/_action/status', goalStatus(6))
+    await waitFor(() => events.length === 2)
+
+    expect(events[1]).toMatchObject({
+      type: VendorEventType.ERROR_OCCURRED,
+      data: { previous: 'executing', value: 'failed' },
+    })
+  })
+
+  it('should publish MOVE_TO_POSITION as a goal pose in meters', async () => {
+    await connect()
+
+    const result = await send(RobotCommandType.MOVE_TO_POSITION, {
+      position: { x: 1500, y: -500, rz: 90 },
+    })
+    await waitFor(() => server.sent('publish', '/goal_pose').length === 1)
+
+    const goal = server.sent('publish', '/goal_pose')[0].msg
+    expect(result).toMatchObject({ success: true, commandId: 'cmd-move_to_position' })
+    expect(server.sent('advertise', '/goal_pose')[0].type).toBe('geometry_msgs/msg/PoseStamped')
+    expect(goal.header.frame_id).toBe('map')
+    expect(goal.pose.position).toEqual({ x: 1.5, y: -0.5, z: 0 })
+    expect(goal.pose.orientation.z).toBeCloseTo(Math.SQRT1_2)
+    expect(goal.pose.orientation.w).toBeCloseTo(Math.SQRT1_2)
+  })
+
+  it('should send goals to a configured service', async () => {
+    server.services.set('/fleet/go_to', ({ pose }) => ({
+      accepted: pose.header.frame_id === 'odom',
+    }))
+    await connect({
+      navigation: { goalService: '/fleet/go_to', goalServiceType: 'fleet_msgs/srv/GoTo' },
+    })
+
+    const result = await send(RobotCommandType.MOVE_TO_POSITION, {
+      position: { x: 1000, y: 0 },
+      frameId: 'odom',
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.result.response).toEqual({ accepted: true })
+    expect(server.sent('call_service', '/fleet/go_to')[0].type).toBe('fleet_msgs/srv/GoTo')
+    expect(server.sent('publish')).toHaveLength(0)
+  })
+
+  it('should reject MOVE_TO_POSITION without x and y', async () => {
+    await connect()
+
+    const missing = await send(RobotCommandType.MOVE_TO_POSITION)
+    const partial = await send(RobotCommandType.MOVE_TO_POSITION, { position: { x: 1 } })
+
+    expect(missing).toMatchObject({
+      success: false,
+      error: 'Position is required for MOVE_TO_POSITION command',
+    })
+    expect(partial.success).toBe(false)
+  })
+
+  it('should cancel goals and publish zero velocity on STOP', async () => {
+    await connect()
+
+    const result = await send(RobotCommandType.STOP)
+    await waitFor(() => server.sent('publish', '/cmd_vel').length === 1)
+
+    expect(result.result).toEqual({ message: 'Robot stopped', goalsCancelled: true })
+    expect(server.sent('call_service', '/navigate_to_pose/_action/cancel_goal')[0]).toMatchObject({
+      type: 'action_msgs/srv/CancelGoal',
+      args: { goal_info: { stamp: { sec: 0, nanosec: 0 } } },
+    })
+    expect(server.sent('publish', '/cmd_vel')[0].msg).toEqual({
+      linear: { x: 0, y: 0, z: 0 },
+      angular: { x: 0, y: 0, z: 0 },
+    })
+  })
+
+  it('should still stop the base when no navigation stack runs', async () => {
+    server.services.delete('/navigate_to_pose/_action/cancel_goal')
+    await connect()
+
+    const result = await send(RobotCommandType.STOP)
+
+    expect(result.success).toBe(true)
+    expect(result.result.goalsCancelled).toBe(false)
+    expect(result.result.cancelError).toContain('does not exist')
+    await waitFor(() => server.sent('publish', '/cmd_vel').length === 1)
+  })
+
+  it('should publish and call services through CUSTOM actions', async () => {
+    server.services.set('/dock', () => ({ success: true }))
+    await connect()
+
+    const published = await send(RobotCommandType.CUSTOM, {
+      action: 'publish',
+      topic: '/lights',
+      type: 'std_msgs/msg/Bool',
+      msg: { data: true },
+    })
+    const called = await send(RobotCommandType.CUSTOM, { action: 'call_service', service: '/dock' })
+    const unknown = await send(RobotCommandType.CUSTOM, { action: 'launch' })
+    const unsupported = await send(RobotCommandType.SET_SPEED, { speed: 50 })
+
+    expect(published.success).toBe(true)
+    expect(called.result).toEqual({ values: { success: true } })
+    expect(unknown.error).toBe('Unsupported ROS action: launch')
+    expect(unsupported.error).toBe('Unsupported command type: set_speed')
+    await waitFor(() => server.sent('publish', '/lights').length === 1)
+  })
+
+  it('should validate protocol, options and authentication', async () => {
+    const invalid = await adapter.validateConnection({
+      ...config({ topics: [{ kind: 'odometry', topic: 'odom topic' }] }),
+      protocol: ConnectionProtocol.HTTP,
+    })
+    const warned = await adapter.validateConnection({
+      ...config(),
+      port: 9091,
+      timeout: 5000,
+      authentication: { type: AuthenticationType.BASIC, credentials: {} },
+    })
+
+    expect(invalid.errors.map((error) => error.field)).toEqual([
+      'protocol',
+      'options.topics[0].topic',
+    ])
+    expect(warned.valid).toBe(true)
+    expect(warned.warnings.map((warning) => warning.code)).toEqual([
+      'AUTHENTICATION_IGNORED',
+      'NON_STANDARD_PORT',
+    ])
+    await expect(
+      adapter.connect({ ...config(), protocol: ConnectionProtocol.HTTP })
+    ).rejects.toThrow('Invalid configuration')
+  })
+
+  it('should put the connection in error when rosbridge closes the link', async () => {
+    await connect()
+
+    await server.stop()
+    await waitFor(() => connection!.status === ConnectionStatus.ERROR)
+
+    expect(connection!.metrics.errorCount).toBe(1)
+  })
+
+  it('should fail to connect when rosbridge is not reachable', async () => {
+    await server.stop()
+
+    await expect(adapter.connect(config())).rejects.toThrow('Failed to connect to rosbridge')
+  })
+})
@@ -0,0 +1,64 @@
+import { describeAdapterConformance } from '@urfmp/adapter-conformance'
+import { ConnectionProtocol, RobotCommandType } from '@urfmp/types'
+import { Ros2Adapter } from '../adapter'
+import { adapterPlugin } from '../plugin'
+import { FakeRosbridge } from './rosbridge-server'
+
+describeAdapterConformance({
+  name: 'Ros2Adapter conformance',
+  createAdapter: () => new Ros2Adapter(),
+  startEndpoint: async () => {
+    const server = new FakeRosbridge()
+    const port = await server.start()
+    let level = 0
+
+    return {
+      config: {
+        host: '127.0.0.1',
+        port,
+        protocol: ConnectionProtocol.WEBSOCKET,
+        timeout: 1000,
+      },
+      triggerEvent: async () => {
+        // Subscriptions are sent as connect returns, rosbridge may not have seen them yet
+        const deadline = Date.now() + 500
+        while (!server.subscribedTopics().includes('/diagnostics') && Date.now() < deadline) {
+          await new Promise((resolve) => setTimeout(resolve, 10))
+        }
+        level = level === 0 ? 1 : 0
+        server.publish('/diagnostics', {
+          status: [
+            { level, name: 'motor', message: 'Temperature', hardware_id: 'base', values: [] },
+          ],
+        })
+      },
+      stop: () => server.stop(),
+    }
+  },
+  supportedCommand: { type: RobotCommandType.STOP, payload: {} },
+  invalidConfigs: [
+    {
+      config: { host: '127.0.0.1', port: 9090, protocol: ConnectionProtocol.TCP },
+      field: 'protocol',
+    },
+    {
+      config: {
+        host: '127.0.0.1',
+        port: 9090,
+        protocol: ConnectionProtocol.WEBSOCKET,
+        options: { topics: [{ kind: 'lidar', topic: '/scan' }] },
+      },
+      field: 'options.topics[0].kind',
+    },
+    {
+      config: {
+        host: '127.0.0.1',
+        port: 9090,
+        protocol: ConnectionProtocol.WEBSOCKET,
+        options: { navigation: { goalTopic: 'goal pose' } },
+      },
+      field: 'options.navigation.goalTopic',
+    },
+  ],
+  plugin: adapterPlugin,
+})
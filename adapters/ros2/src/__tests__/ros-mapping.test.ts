@@ -0,0 +1,129 @@
+import { CoordinateFrame, GPSFixType, PathPlanningStatus } from '@urfmp/types'
+import {
+  batteryToTelemetry,
+  diagnosticLevel,
+  goalStatusToPlanning,
+  navSatFixToGPS,
+  poseToPosition,
+  quaternionToEuler,
+  stampToDate,
+  validateRosOptions,
+  yawToQuaternion,
+} from '../ros-mapping'
+import { RosBatteryState, RosDiagnosticLevel, RosGoalStatus, RosNavSatFix } from '../types'
+
+const header = { stamp: { sec: 1700000000, nanosec: 500000000 }, frame_id: 'map' }
+
+describe('ROS message mapping', () => {
+  it('should convert headings to quaternions and back', () => {
+    const quaternion = yawToQuaternion(90)
+
+    expect(quaternion.z).toBeCloseTo(Math.SQRT1_2)
+    expect(quaternion.w).toBeCloseTo(Math.SQRT1_2)
+    expect(quaternionToEuler(quaternion).rz).toBeCloseTo(90)
+    expect(quaternionToEuler(yawToQuaternion(-135)).rz).toBeCloseTo(-135)
+  })
+
+  it('should convert poses from meters to mm', () => {
+    const position = poseToPosition({
+      position: { x: 1.5, y: -0.25, z: 0 },
+      orientation: yawToQuaternion(45),
+    })
+
+    expect(position).toMatchObject({ x: 1500, y: -250, z: 0, frame: CoordinateFrame.WORLD })
+    expect(position.rx).toBeCloseTo(0)
+    expect(position.ry).toBeCloseTo(0)
+    expect(position.rz).toBeCloseTo(45)
+  })
+
+  it('should take stamps as dates and fall back to receipt time for zero stamps', () => {
+    expect(stampToDate(header.stamp).getTime()).toBe(1700000000500)
+    expect(Math.abs(stampToDate({ sec: 0, nanosec: 0 }).getTime() - Date.now())).toBeLessThan(1000)
+  })
+
+  it('should leave unknown battery readings out', () => {
+    const battery: RosBatteryState = {
+      header,
+      voltage: 25.2,
+      current: NaN,
+      charge: NaN,
+      capacity: NaN,
+      percentage: 0.8765,
+      power_supply_status: 1,
+      present: true,
+    }
+
+    expect(batteryToTelemetry(battery)).toEqual({
+      voltage: { supply: 25.2, unit: 'V' },
+      batteryLevel: 87.7,
+      batteryCharging: true,
+    })
+  })
+
+  it('should map NavSatFix status and covariance', () => {
+    const fix: RosNavSatFix = {
+      header,
+      status: { status: 2, service: 1 },
+      latitude: 48.137,
+      longitude: 11.575,
+      altitude: 519,
+      position_covariance: [0.04, 0, 0, 0, 0.09, 0, 0, 0, 0.16],
+      position_covariance_type: 2,
+    }
+
+    expect(navSatFixToGPS(fix)).toEqual({
+      latitude: 48.137,
+      longitude: 11.575,
+      altitude: 519,
+      accuracy: { horizontal: 0.3, vertical: 0.4 },
+      timestamp: new Date(1700000000500),
+      fix: GPSFixType.RTK_FIXED,
+    })
+    expect(
+      navSatFixToGPS({ ...fix, status: { status: -1, service: 1 }, position_covariance_type: 0 })
+    ).not.toHaveProperty('accuracy')
+    expect(navSatFixToGPS({ ...fix, status: { status: -1, service: 1 } }).fix).toBe(
+      GPSFixType.NO_FIX
+    )
+    expect(navSatFixToGPS({ ...fix, status: { status: 0, service: 1 }, altitude: NaN }).fix).toBe(
+      GPSFixType.GPS_2D
+    )
+  })
+
+  it('should read diagnostic levels sent as numbers or base64 bytes', () => {
+    const status = { name: 'motor', message: '', hardware_id: '', values: [] }
+
+    expect(diagnosticLevel({ ...status, level: 2 })).toBe(RosDiagnosticLevel.ERROR)
+    expect(diagnosticLevel({ ...status, level: 'AQ==' })).toBe(RosDiagnosticLevel.WARN)
+    expect(diagnosticLevel({ ...status, level: 9 })).toBe(RosDiagnosticLevel.STALE)
+  })
+
+  it('should map goal states to path planning states', () => {
+    expect(goalStatusToPlanning(RosGoalStatus.ACCEPTED)).toBe(PathPlanningStatus.PLANNING)
+    expect(goalStatusToPlanning(RosGoalStatus.EXECUTING)).toBe(PathPlanningStatus.EXECUTING)
+    expect(goalStatusToPlanning(RosGoalStatus.SUCCEEDED)).toBe(PathPlanningStatus.COMPLETED)
+    expect(goalStatusToPlanning(RosGoalStatus.ABORTED)).toBe(PathPlanningStatus.FAILED)
+    expect(goalStatusToPlanning(RosGoalStatus.CANCELED)).toBe(PathPlanningStatus.IDLE)
+  })
+
+  it('should name invalid topic and navigation fields by path', () => {
+    const errors = validateRosOptions({
+      topics: [
+        { kind: 'odometry', topic: '/odom' },
+        { kind: 'battery', topic: 'battery state', type: 'BatteryState', throttleRate: -1 },
+      ],
+      navigation: { cancelService: '/cancel goal', goalServiceType: 'nav2/Goal', frameId: 'a b' },
+    })
+
+    expect(errors.map((error) => error.field)).toEqual([
+      'options.topics[1].topic',
+      'options.topics[1].type',
+      'options.topics[1].throttleRate',
+      'options.navigation.cancelService',
+      'options.navigation.goalServiceType',
+      'options.navigation.frameId',
+    ])
+    expect(validateRosOptions({ topics: [] })[0].field).toBe('options.topics')
+    expect(validateRosOptions(undefined)).toEqual([])
+  })
+})
@@ -0,0 +1,99 @@
+import { RosbridgeClient } from '../rosbridge-client'
+import { FakeRosbridge } from './rosbridge-server'
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+  const deadline = Date.now() + timeout
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+describe('RosbridgeClient', () => {
+  let server: FakeRosbridge
+  let client: RosbridgeClient
+
+  beforeEach(async () => {
+    server = new FakeRosbridge()
+    const port = await server.start()
+    client = new RosbridgeClient({ url: `ws://127.0.0.1:${port}`, timeout: 500 })
+  })
+
+  afterEach(async () => {
+    await client.disconnect()
+    await server.stop()
+  })
+
+  it('should deliver messages of subscribed topics until unsubscribed', async () => {
+    await client.connect()
+    const messages: Record<string, any>[] = []
+    const id = client.subscribe('/odom', 'nav_msgs/msg/Odometry', (msg) => messages.push(msg), 100)
+    await waitFor(() => server.subscribedTopics().includes('/odom'))
+
+    server.publish('/odom', { seq: 1 })
+    server.publish('/other', { seq: 2 })
+    await waitFor(() => messages.length === 1)
+
+    client.unsubscribe(id)
+    await waitFor(() => server.subscribedTopics().length === 0)
+    server.publish('/odom', { seq: 3 })
+    await new Promise((resolve) => setTimeout(resolve, 50))
+
+    expect(messages).toEqual([{ seq: 1 }])
+    expect(server.sent('subscribe')[0]).toMatchObject({
+      topic: '/odom',
+      type: 'nav_msgs/msg/Odometry',
+      throttle_rate: 100,
+    })
+  })
+
+  it('should advertise a topic once before publishing', async () => {
+    await client.connect()
+
+    client.publish('/cmd_vel', 'geometry_msgs/msg/Twist', { linear: { x: 0 } })
+    client.publish('/cmd_vel', 'geometry_msgs/msg/Twist', { linear: { x: 0.1 } })
+    await waitFor(() => server.sent('publish').length === 2)
+
+    expect(server.received.map((message) => message.op)).toEqual([
+      'advertise',
+      'publish',
+      'publish',
+    ])
+    expect(server.sent('advertise')[0]).toMatchObject({
+      topic: '/cmd_vel',
+      type: 'geometry_msgs/msg/Twist',
+    })
+  })
+
+  it('should resolve service responses and reject failed calls', async () => {
+    server.services.set('/add', ({ a, b }) => ({ sum: a + b }))
+    await client.connect()
+
+    expect(await client.callService('/add', { a: 2, b: 3 })).toEqual({ sum: 5 })
+    await expect(client.callService('/missing')).rejects.toThrow(
+      'Service call /missing failed: Service /missing does not exist'
+    )
+  })
+
+  it('should time out calls rosbridge never answers', async () => {
+    server.unanswered.add('/slow')
+    client = new RosbridgeClient({ url: client.getConnectionInfo().url, timeout: 100 })
+    await client.connect()
+
+    await expect(client.callService('/slow')).rejects.toThrow('Service call timeout: /slow')
+    expect(client.getConnectionInfo().errors).toBe(1)
+  })
+
+  it('should count messages and bytes in both directions', async () => {
+    await client.connect()
+    await client.callService('/rosapi/get_ros_version')
+
+    const info = client.getConnectionInfo()
+    expect(info).toMatchObject({ connected: true, messagesSent: 1, messagesReceived: 1, errors: 0 })
+    expect(info.bytesSent).toBeGreaterThan(0)
+    expect(info.bytesReceived).toBeGreaterThan(0)
+    expect(info.connectedAt).toBeInstanceOf(Date)
+  })
+})
@@ -0,0 +1,106 @@
+import { AddressInfo } from 'net'
+import WebSocket, { WebSocketServer } from 'ws'
+
+type ServiceHandler = (args: Record<string, any>) => any
+
+/**
+ * Minimal rosbridge for tests: keeps subscriptions, records everything clients send, forwards
+ * published test messages and answers service calls from registered handlers.
+ */
+export class FakeRosbridge {
+  readonly received: Record<string, any>[] = []
+  readonly services = new Map<string, ServiceHandler>()
+  readonly unanswered = new Set<string>() // Services whose calls never get a response
+
+  private server?: WebSocketServer
+  private subscriptions = new Map<WebSocket, Map<string, string>>() // Socket to id to topic
+
+  constructor() {
+    this.services.set('/rosapi/get_ros_version', () => ({ version: 2, distro: 'humble' }))
+    this.services.set('/navigate_to_pose/_action/cancel_goal', () => ({
+      return_code: 0,
+      goals_canceling: [],
+    }))
+  }
+
+  async start(): Promise<number> {
+    this.server = new WebSocketServer({ port: 0, host: '127.0.0.1' })
+    this.server.on('connection', (socket) => this.handleClient(socket))
+    await new Promise<void>((resolve) => this.server!.once('listening', () => resolve()))
+    return (this.server.address() as AddressInfo).port
+  }
+
+  async stop(): Promise<void> {
+    this.server?.clients.forEach((socket) => socket.terminate())
+    await new Promise<void>((resolve) =>
+      this.server ? this.server.close(() => resolve()) : resolve()
+    )
+  }
+
+  /**
+   * Send a message on a topic to every client subscribed to it
+   */
+  publish(topic: string, msg: Record<string, any>): void {
+    for (const [socket, subscriptions] of this.subscriptions) {
+      if ([...subscriptions.values()].includes(topic)) {
+        socket.send(JSON.stringify({ op: 'publish', topic, msg }))
+      }
+    }
+  }
+
+  subscribedTopics(): string[] {
+    return [...this.subscriptions.values()].flatMap((subscriptions) => [...subscriptions.values()])
+  }
+
+  sent(op: string, name?: string): Record<string, any>[] {
+    return this.received.filter(
+      (message) =>
+        message.op === op &&
+        (name === undefined || message.topic === name || message.service === name)
+    )
+  }
+
+  private handleClient(socket: WebSocket): void {
+    const subscriptions = new Map<string, string>()
+    this.subscriptions.set(socket, subscriptions)
+    socket.on('close', () => this.subscriptions.delete(socket))
+
+    socket.on('message', (data) => {
+      const message = JSON.parse(data.toString())
+      this.received.push(message)
+
+      switch (message.op) {
+        case 'subscribe':
+          subscriptions.set(message.id, message.topic)
+          break
+        case 'unsubscribe':
+          subscriptions.delete(message.id)
+          break
+        case 'call_service': {
+          if (this.unanswered.has(message.service)) {
+            break
+          }
+          const handler = this.services.get(message.service)
+          let reply: Record<string, any>
+          try {
+            if (!handler) {
+              throw new Error(`Service ${message.service} does not exist`)
+            }
+            reply = { values: handler(message.args ?? {}), result: true }
+          } catch (error) {
+            reply = { values: (error as Error).message, result: false }
+          }
+          socket.send(
+            JSON.stringify({
+              op: 'service_response',
+              id: message.id,
+              service: message.service,
+              ...reply,
+            })
+          )
+          break
+        }
+      }
+    })
+  }
+}
@@ -0,0 +1,683 @@
+import {
+  IRobotVendorAdapter,
+  BaseVendorAdapter,
+  RobotVendor,
+  VendorConnectionConfig,
+  VendorConnection,
+  RobotCommand,
+  RobotCommandType,
+  CommandResult,
+  RobotTelemetry,
+  RobotInfo,
+  RobotSpecifications,
+  RobotStatus,
+  EventCallback,
+  EventSubscription,
+  VendorEvent,
+  VendorEventType,
+  ValidationResult,
+  ValidationError,
+  ValidationWarning,
+  VendorFeatures,
+  ConnectionProtocol,
+  ConnectionStatus,
+  TelemetryData,
+  TelemetrySource,
+  DataQuality,
+  PathPlanningStatus,
+  TemperatureUnit,
+} from '@urfmp/types'
+
+import { RosbridgeClient } from './rosbridge-client'
+import {
+  DEFAULT_NAVIGATION,
+  DEFAULT_TOPICS,
+  MESSAGE_TYPES,
+  batteryToTelemetry,
+  diagnosticLevel,
+  durationToSeconds,
+  goalStatusToPlanning,
+  isRosName,
+  navSatFixToGPS,
+  odometryToVelocity,
+  poseToPosition,
+  validateRosOptions,
+  yawToQuaternion,
+} from './ros-mapping'
+import {
+  RosBatteryState,
+  RosDiagnosticArray,
+  RosDiagnosticLevel,
+  RosGoalStatusArray,
+  RosNavSatFix,
+  RosNavigateToPoseFeedback,
+  RosNavigationConfig,
+  RosOdometry,
+  RosPoseStamped,
+  RosPoseWithCovarianceStamped,
+  RosTopicMapping,
+} from './types'
+
+const DEFAULT_PORT = 9090
+
+interface RosDiagnostic {
+  level: RosDiagnosticLevel
+  message: string
+  hardwareId: string
+}
+
+// Latest message of every subscribed kind
+interface RosSample {
+  odometry?: RosOdometry
+  pose?: RosPoseWithCovarianceStamped
+  battery?: RosBatteryState
+  navsat?: RosNavSatFix
+  diagnostics: Map<string, RosDiagnostic> // By status name
+  navigation?: {
+    status: PathPlanningStatus
+    goalId?: string
+    feedback?: RosNavigateToPoseFeedback['feedback']
+    initialDistance?: number // distance_remaining of the first feedback, for progress
+  }
+  updatedAt?: Date
+}
+
+interface RosConnectionState {
+  client: RosbridgeClient
+  topics: RosTopicMapping[]
+  navigation: RosNavigationConfig & typeof DEFAULT_NAVIGATION
+  rosDistro?: string
+  sample: RosSample
+  listeners: Map<string, EventCallback> // By subscription id
+}
+
+/**
+ * Adapter for ROS 2 robots, typically AMRs running Nav2, over rosbridge. Subscribed topics
+ * keep the latest odometry, battery, diagnostics, GPS and navigation state, commands publish
+ * goal poses or call services.
+ */
+export class Ros2Adapter extends BaseVendorAdapter implements IRobotVendorAdapter {
+  vendor = RobotVendor.CUSTOM
+
+  private states = new Map<string, RosConnectionState>()
+  private connections = new Map<string, VendorConnection>()
+  private eventSubscriptions = new Map<string, EventSubscription>()
+
+  async connect(config: VendorConnectionConfig): Promise<VendorConnection> {
+    const validation = await this.validateConnection(config)
+    if (!validation.valid) {
+      throw new Error(
+        `Invalid configuration: ${validation.errors.map((e) => e.message).join(', ')}`
+      )
+    }
+
+    const port = config.port || DEFAULT_PORT
+    const scheme = config.options?.secure ? 'wss' : 'ws'
+    const client = new RosbridgeClient({
+      url: `${scheme}://${config.host}:${port}`,
+      timeout: config.timeout || 5000,
+    })
+
+    const connection = this.createConnection(config)
+    connection.status = ConnectionStatus.CONNECTING
+
+    const state: RosConnectionState = {
+      client,
+      topics: config.options?.topics ?? DEFAULT_TOPICS,
+      navigation: { ...DEFAULT_NAVIGATION, ...config.options?.navigation },
+      sample: { diagnostics: new Map() },
+      listeners: new Map(),
+    }
+
+    try {
+      await client.connect()
+      connection.robotId = config.options?.robotId || `ros2-${config.host}-${port}`
+
+      // rosapi runs next to rosbridge in the standard launch file, without it the distro is unknown
+      state.rosDistro = await client
+        .callService('/rosapi/get_ros_version')
+        .then((values) => values.distro as string | undefined)
+        .catch(() => undefined)
+
+      for (const mapping of state.topics) {
+        client.subscribe(
+          mapping.topic,
+          mapping.type ?? MESSAGE_TYPES[mapping.kind],
+          (message) => this.handleMessage(connection, state, mapping, message),
+          mapping.throttleRate
+        )
+      }
+
+      connection.status = ConnectionStatus.CONNECTED
+      connection.connectedAt = new Date()
+      client.onClose(() => this.markConnectionLost(connection))
+
+      this.states.set(connection.id, state)
+      this.connections.set(connection.id, connection)
+
+      console.log(
+        `✅ Connected to ROS 2 robot at ${config.host}` +
+          (state.rosDistro ? ` (${state.rosDistro})` : '')
+      )
+      return connection
+    } catch (error) {
+      await client.disconnect()
+      connection.status = ConnectionStatus.ERROR
+      throw new Error(`Failed to connect to rosbridge: ${(error as Error).message}`)
+    }
+  }
+
+  async disconnect(connectionId: string): Promise<void> {
+    const connection = this.connections.get(connectionId)
+    if (!connection) {
+      throw new Error(`Connection ${connectionId} not found`)
+    }
+
+    const state = this.states.get(connectionId)
+    if (state) {
+      state.listeners.clear()
+      await state.client.disconnect()
+      this.states.delete(connectionId)
+    }
+
+    for (const [id, subscription] of this.eventSubscriptions) {
+      if (subscription.connectionId === connectionId) {
+        subscription.active = false
+        this.eventSubscriptions.delete(id)
+      }
+    }
+
+    connection.status = ConnectionStatus.DISCONNECTED
+    this.connections.delete(connectionId)
+
+    console.log(`✅ Disconnected from ROS 2 robot (${connectionId})`)
+  }
+
+  async sendCommand(connectionId: string, command: RobotCommand): Promise<CommandResult> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    const startTime = Date.now()
+
+    try {
+      let result: any
+
+      switch (command.type) {
+        case RobotCommandType.MOVE_TO_POSITION:
+          if (!command.payload?.position) {
+            throw new Error('Position is required for MOVE_TO_POSITION command')
+          }
+          result = await this.sendGoal(state, command.payload.position, command.payload.frameId)
+          break
+
+        case RobotCommandType.STOP:
+          result = await this.stop(state)
+          break
+
+        case RobotCommandType.CUSTOM:
+          result = await this.runRosAction(state.client, command.payload ?? {})
+          break
+
+        default:
+          throw new Error(`Unsupported command type: ${command.type}`)
+      }
+
+      return {
+        success: true,
+        commandId: command.id || `cmd-${Date.now()}`,
+        result,
+        executionTime: Date.now() - startTime,
+        timestamp: new Date(),
+      }
+    } catch (error) {
+      return {
+        success: false,
+        commandId: command.id || `cmd-${Date.now()}`,
+        error: (error as Error).message,
+        executionTime: Date.now() - startTime,
+        timestamp: new Date(),
+      }
+    }
+  }
+
+  async getTelemetry(connectionId: string): Promise<RobotTelemetry> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    const sample = state.sample
+    return {
+      id: `tel-${Date.now()}`,
+      robotId: connection.robotId,
+      timestamp: sample.updatedAt ?? new Date(),
+      data: this.toTelemetryData(sample),
+      metadata: {
+        source: TelemetrySource.ROBOT_CONTROLLER,
+        // Nothing arrived yet, e.g. the topics have no publisher
+        quality: sample.updatedAt ? DataQuality.HIGH : DataQuality.LOW,
+      },
+    }
+  }
+
+  async getRobotInfo(connectionId: string): Promise<RobotInfo> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    const options = connection.config.options ?? {}
+    return {
+      model: options.model || 'ROS 2 robot',
+      serialNumber: connection.robotId,
+      firmwareVersion: state.rosDistro ? `ROS 2 ${state.rosDistro}` : 'Unknown',
+      manufacturer: options.manufacturer || 'Unknown',
+      capabilities: [],
+      specifications: this.getSpecifications(),
+      status: this.mapRobotStatus(state),
+    }
+  }
+
+  async subscribeToEvents(
+    connectionId: string,
+    callback: EventCallback
+  ): Promise<EventSubscription> {
+    const connection = this.connections.get(connectionId)
+    const state = this.states.get(connectionId)
+    if (!connection || !state) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+
+    const subscriptionId = `sub-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+
+    const subscription: EventSubscription = {
+      id: subscriptionId,
+      userId: '',
+      organizationId: '',
+      name: `ROS 2 Events ${connectionId}`,
+      filter: { types: [] },
+      channels: [],
+      enabled: true,
+      connectionId,
+      active: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+
+    // Diagnostics and navigation status changes arrive over the topics subscribed on connect
+    state.listeners.set(subscriptionId, callback)
+    this.eventSubscriptions.set(subscriptionId, subscription)
+    return subscription
+  }
+
+  async unsubscribeFromEvents(subscriptionId: string): Promise<void> {
+    const subscription = this.eventSubscriptions.get(subscriptionId)
+    if (subscription) {
+      subscription.active = false
+      this.states.get(subscription.connectionId!)?.listeners.delete(subscriptionId)
+      this.eventSubscriptions.delete(subscriptionId)
+    }
+  }
+
+  async validateConnection(config: VendorConnectionConfig): Promise<ValidationResult> {
+    const baseValidation = this.validateConfig(config)
+    const errors: ValidationError[] = [...baseValidation.errors]
+    const warnings: ValidationWarning[] = [...baseValidation.warnings]
+
+    if (config.protocol !== ConnectionProtocol.WEBSOCKET) {
+      errors.push({
+        field: 'protocol',
+        message: 'rosbridge is reached over websocket',
+        code: 'UNSUPPORTED_PROTOCOL',
+      })
+    }
+
+    if (config.authentication) {
+      warnings.push({
+        field: 'authentication',
+        message: 'rosbridge authentication is not supported, credentials are ignored',
+        code: 'AUTHENTICATION_IGNORED',
+      })
+    }
+
+    errors.push(...validateRosOptions(config.options))
+
+    if (config.port && config.port !== DEFAULT_PORT) {
+      warnings.push({
+        field: 'port',
+        message: `rosbridge listens on port ${DEFAULT_PORT} by default`,
+        code: 'NON_STANDARD_PORT',
+      })
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+    }
+  }
+
+  getSupportedFeatures(): VendorFeatures {
+    return {
+      supportsRealTimeControl: false,
+      supportsFileTransfer: false,
+      supportsRemoteAccess: true,
+      supportsVideoStream: false,
+      supportsForceControl: false,
+      supportsCollisionDetection: false,
+      supportsSafetyMonitoring: false,
+      supportsPathPlanning: true,
+      supportsCalibration: false,
+      supportsOTA: false,
+      customFeatures: ['rosbridge', 'ros2_topics', 'nav2_goals', 'gps_position', 'diagnostics'],
+    }
+  }
+
+  // Private helper methods
+
+  private handleMessage(
+    connection: VendorConnection,
+    state: RosConnectionState,
+    mapping: RosTopicMapping,
+    message: Record<string, any>
+  ): void {
+    const sample = state.sample
+    sample.updatedAt = new Date()
+
+    switch (mapping.kind) {
+      case 'odometry':
+        sample.odometry = message as RosOdometry
+        break
+      case 'pose':
+        sample.pose = message as RosPoseWithCovarianceStamped
+        break
+      case 'battery':
+        sample.battery = message as RosBatteryState
+        break
+      case 'navsat':
+        sample.navsat = message as RosNavSatFix
+        break
+      case 'diagnostics':
+        this.updateDiagnostics(connection, state, message as RosDiagnosticArray)
+        break
+      case 'navigation_feedback': {
+        const feedback = (message as RosNavigateToPoseFeedback).feedback
+        const navigation = (sample.navigation ??= { status: PathPlanningStatus.EXECUTING })
+        navigation.feedback = feedback
+        navigation.initialDistance ??= feedback.distance_remaining
+        break
+      }
+      case 'navigation_status':
+        this.updateNavigationStatus(connection, state, message as RosGoalStatusArray)
+        break
+    }
+  }
+
+  private updateDiagnostics(
+    connection: VendorConnection,
+    state: RosConnectionState,
+    array: RosDiagnosticArray
+  ): void {
+    for (const status of array.status ?? []) {
+      const level = diagnosticLevel(status)
+      const previous = state.sample.diagnostics.get(status.name)
+      state.sample.diagnostics.set(status.name, {
+        level,
+        message: status.message,
+        hardwareId: status.hardware_id,
+      })
+
+      // Every component starts out fine, only departures from OK and recoveries are news
+      const previousLevel = previous?.level ?? RosDiagnosticLevel.OK
+      if (level === previousLevel) {
+        continue
+      }
+      const type =
+        level === RosDiagnosticLevel.ERROR
+          ? VendorEventType.ERROR_OCCURRED
+          : level === RosDiagnosticLevel.OK
+            ? VendorEventType.STATUS_CHANGED
+            : VendorEventType.WARNING_ISSUED
+      this.emit(connection, state, type, {
+        name: status.name,
+        hardwareId: status.hardware_id,
+        message: status.message,
+        previous: RosDiagnosticLevel[previousLevel],
+        value: RosDiagnosticLevel[level],
+        values: Object.fromEntries((status.values ?? []).map(({ key, value }) => [key, value])),
+      })
+    }
+  }
+
+  private updateNavigationStatus(
+    connection: VendorConnection,
+    state: RosConnectionState,
+    array: RosGoalStatusArray
+  ): void {
+    // The newest goal is last, earlier entries are goals it preempted
+    const latest = array.status_list?.[array.status_list.length - 1]
+    if (!latest) {
+      return
+    }
+
+    const goalId = Buffer.from(latest.goal_info.goal_id.uuid).toString('hex')
+    const status = goalStatusToPlanning(latest.status)
+    const navigation = state.sample.navigation
+    const previous = navigation?.status ?? PathPlanningStatus.IDLE
+
+    if (navigation?.goalId !== goalId) {
+      // Feedback may have come first, before the goal had an id
+      const feedback = navigation && !navigation.goalId ? navigation : {}
+      state.sample.navigation = { ...feedback, status, goalId }
+    } else {
+      navigation.status = status
+    }
+
+    if (status !== previous || navigation?.goalId !== goalId) {
+      const type =
+        status === PathPlanningStatus.FAILED
+          ? VendorEventType.ERROR_OCCURRED
+          : VendorEventType.STATUS_CHANGED
+      this.emit(connection, state, type, { goalId, previous, value: status })
+    }
+  }
+
+  private toTelemetryData(sample: RosSample): TelemetryData {
+    const data: TelemetryData = {}
+    const custom: Record<string, any> = {}
+
+    // A map frame pose beats odometry, which drifts
+    const pose = sample.pose?.pose.pose ?? sample.odometry?.pose.pose
+    if (pose) {
+      data.position = poseToPosition(pose)
+    }
+    if (sample.odometry) {
+      data.velocity = odometryToVelocity(sample.odometry)
+    }
+
+    if (sample.battery) {
+      const { voltage, current, batteryLevel, batteryCharging } = batteryToTelemetry(sample.battery)
+      if (voltage) data.voltage = voltage
+      if (current) data.current = current
+      if (batteryLevel !== undefined) custom.batteryLevel = batteryLevel
+      custom.batteryCharging = batteryCharging
+    }
+
+    if (sample.navsat) {
+      data.gpsPosition = navSatFixToGPS(sample.navsat)
+      if (data.velocity?.linear) {
+        data.gpsPosition.speed = data.velocity.linear.magnitude
+      }
+    }
+
+    if (sample.navigation) {
+      const { status, feedback, initialDistance } = sample.navigation
+      data.navigation = { pathPlanningStatus: status }
+      if (feedback) {
+        data.navigation.estimatedTimeToTarget = durationToSeconds(feedback.estimated_time_remaining)
+        if (initialDistance) {
+          const remaining = Math.min(feedback.distance_remaining, initialDistance)
+          data.navigation.missionProgress = Math.round((1 - remaining / initialDistance) * 100)
+        }
+        custom.distanceRemaining = feedback.distance_remaining
+        custom.navigationRecoveries = feedback.number_of_recoveries
+      }
+    }
+
+    if (sample.diagnostics.size > 0) {
+      custom.diagnostics = Object.fromEntries(
+        [...sample.diagnostics].map(([name, { level, message }]) => [
+          name,
+          { level: RosDiagnosticLevel[level], message },
+        ])
+      )
+      custom.diagnosticLevel = Math.max(...[...sample.diagnostics.values()].map((d) => d.level))
+    }
+
+    data.custom = custom
+    return data
+  }
+
+  private async sendGoal(
+    state: RosConnectionState,
+    position: { x: number; y: number; z?: number; rz?: number },
+    frameId?: string
+  ): Promise<any> {
+    if (typeof position.x !== 'number' || typeof position.y !== 'number') {
+      throw new Error('Position needs x and y in mm for MOVE_TO_POSITION command')
+    }
+
+    const { navigation } = state
+    const goal: RosPoseStamped = {
+      header: { stamp: this.now(), frame_id: frameId ?? navigation.frameId },
+      pose: {
+        position: { x: position.x / 1000, y: position.y / 1000, z: (position.z ?? 0) / 1000 },
+        orientation: yawToQuaternion(position.rz ?? 0),
+      },
+    }
+
+    // A new goal starts its progress from its own first feedback
+    if (state.sample.navigation) {
+      state.sample.navigation.initialDistance = undefined
+    }
+
+    if (navigation.goalService) {
+      const response = await state.client.callService(
+        navigation.goalService,
+        { pose: goal },
+        navigation.goalServiceType
+      )
+      return { message: `Goal sent to ${navigation.goalService}`, response }
+    }
+
+    state.client.publish(navigation.goalTopic, 'geometry_msgs/msg/PoseStamped', goal)
+    return { message: `Goal published to ${navigation.goalTopic}` }
+  }
+
+  // Cancel every navigation goal, then hold the base with a zero velocity command
+  private async stop(state: RosConnectionState): Promise<any> {
+    const { client, navigation } = state
+    let cancelError: string | undefined
+
+    try {
+      await client.callService(
+        navigation.cancelService,
+        { goal_info: { goal_id: { uuid: new Array(16).fill(0) }, stamp: { sec: 0, nanosec: 0 } } },
+        'action_msgs/srv/CancelGoal'
+      )
+    } catch (error) {
+      cancelError = (error as Error).message
+    }
+
+    const zero = { x: 0, y: 0, z: 0 }
+    client.publish(navigation.cmdVelTopic, 'geometry_msgs/msg/Twist', {
+      linear: zero,
+      angular: zero,
+    })
+
+    return { message: 'Robot stopped', goalsCancelled: !cancelError, cancelError }
+  }
+
+  // Raw ROS access, sent as CUSTOM { action: 'publish' | 'call_service' }
+  private async runRosAction(client: RosbridgeClient, payload: Record<string, any>): Promise<any> {
+    switch (payload.action) {
+      case 'publish':
+        if (!isRosName(payload.topic) || typeof payload.type !== 'string') {
+          throw new Error('topic and type are required for publish')
+        }
+        client.publish(payload.topic, payload.type, payload.msg ?? {})
+        return { message: `Published to ${payload.topic}` }
+      case 'call_service':
+        if (!isRosName(payload.service)) {
+          throw new Error('service is required for call_service')
+        }
+        return { values: await client.callService(payload.service, payload.args, payload.type) }
+      default:
+        throw new Error(`Unsupported ROS action: ${payload.action}`)
+    }
+  }
+
+  private emit(
+    connection: VendorConnection,
+    state: RosConnectionState,
+    type: VendorEventType,
+    data: Record<string, any>
+  ): void {
+    const event: VendorEvent = {
+      id: `evt-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      robotId: connection.robotId,
+      data,
+      timestamp: new Date(),
+      source: 'ros2',
+    }
+    state.listeners.forEach((callback) => callback(event))
+  }
+
+  private now(): { sec: number; nanosec: number } {
+    const ms = Date.now()
+    return { sec: Math.floor(ms / 1000), nanosec: (ms % 1000) * 1e6 }
+  }
+
+  private mapRobotStatus(state: RosConnectionState): RobotStatus {
+    if (!state.client.isConnected()) {
+      return RobotStatus.OFFLINE
+    }
+    const levels = [...state.sample.diagnostics.values()].map((diagnostic) => diagnostic.level)
+    if (levels.includes(RosDiagnosticLevel.ERROR)) {
+      return RobotStatus.ERROR
+    }
+    switch (state.sample.navigation?.status) {
+      case PathPlanningStatus.PLANNING:
+      case PathPlanningStatus.EXECUTING:
+        return RobotStatus.RUNNING
+      case undefined:
+        return RobotStatus.ONLINE
+      default:
+        return RobotStatus.IDLE
+    }
+  }
+
+  private getSpecifications(): RobotSpecifications {
+    // ROS publishes no data sheet, the robot description would need a URDF parser
+    const range = { min: 0, max: 0, unit: 'mm' }
+    return {
+      axes: 0,
+      payload: 0,
+      reach: 0,
+      repeatability: 0,
+      maxSpeed: 0,
+      maxAcceleration: 0,
+      workingRange: { x: range, y: range, z: range },
+      operatingTemperature: { min: 0, max: 40, unit: TemperatureUnit.CELSIUS },
+      power: { voltage: 24, frequency: 0, consumption: 0, phases: 1 },
+      dimensions: { length: 0, width: 0, height: 0 },
+      weight: 0,
+    }
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * ROS 2 adapter for URFMP
+ * Supports: AMRs and other mobile robots reachable over rosbridge, Nav2 navigation
+ */
+
+export { Ros2Adapter } from './adapter'
+export { adapterPlugin } from './plugin'
+export { RosbridgeClient } from './rosbridge-client'
+export type { RosMessageCallback } from './rosbridge-client'
+export {
+  batteryToTelemetry,
+  diagnosticLevel,
+  goalStatusToPlanning,
+  navSatFixToGPS,
+  odometryToVelocity,
+  poseToPosition,
+  quaternionToEuler,
+  validateRosOptions,
+  yawToQuaternion,
+  DEFAULT_NAVIGATION,
+  DEFAULT_TOPICS,
+  MESSAGE_TYPES,
+} from './ros-mapping'
+export * from './types'
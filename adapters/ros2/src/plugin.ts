@@ -0,0 +1,75 @@
+import { ConnectionProtocol, createConnectionConfigSchema, VendorAdapterPlugin } from '@urfmp/types'
+import { Ros2Adapter } from './adapter'
+import { DEFAULT_NAVIGATION, MESSAGE_TYPES } from './ros-mapping'
+
+const rosName = { type: 'string', minLength: 1 }
+
+/**
+ * Entry point for the adapter loader
+ */
+export const adapterPlugin: VendorAdapterPlugin = {
+  config: {
+    name: 'ros2',
+    version: '1.0.0',
+    description: 'ROS 2 adapter over rosbridge - AMRs and mobile robots',
+    author: 'URFMP Team',
+    license: 'MIT',
+    supportedRobots: [
+      {
+        model: 'ROS 2 mobile robot',
+        series: 'Nav2',
+        firmwareVersions: ['Humble', 'Iron', 'Jazzy'],
+        notes: 'rosbridge_server must run next to the robot, rosapi reports the distro',
+      },
+    ],
+    defaultConfig: {
+      host: '192.168.0.30',
+      port: 9090,
+      protocol: ConnectionProtocol.WEBSOCKET,
+      timeout: 5000,
+    },
+    configSchema: createConnectionConfigSchema({
+      protocols: [ConnectionProtocol.WEBSOCKET],
+      port: 9090,
+      options: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          secure: { type: 'boolean', default: false, title: 'Use wss' },
+          robotId: { type: 'string', title: 'Robot id' },
+          model: { type: 'string', title: 'Model' },
+          manufacturer: { type: 'string', title: 'Manufacturer' },
+          topics: {
+            type: 'array',
+            minItems: 1,
+            title: 'Topics',
+            items: {
+              type: 'object',
+              required: ['kind', 'topic'],
+              properties: {
+                kind: { type: 'string', enum: Object.keys(MESSAGE_TYPES) },
+                topic: rosName,
+                type: { type: 'string' },
+                throttleRate: { type: 'number', minimum: 0 },
+              },
+            },
+          },
+          navigation: {
+            type: 'object',
+            title: 'Navigation',
+            properties: {
+              frameId: { type: 'string', default: DEFAULT_NAVIGATION.frameId },
+              goalTopic: { ...rosName, default: DEFAULT_NAVIGATION.goalTopic },
+              goalService: rosName,
+              goalServiceType: { type: 'string' },
+              cancelService: { ...rosName, default: DEFAULT_NAVIGATION.cancelService },
+              cmdVelTopic: { ...rosName, default: DEFAULT_NAVIGATION.cmdVelTopic },
+            },
+          },
+        },
+      },
+    }),
+    features: new Ros2Adapter().getSupportedFeatures(),
+  },
+  createAdapter: () => new Ros2Adapter(),
+}
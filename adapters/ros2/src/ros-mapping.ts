@@ -0,0 +1,260 @@
+import {
+  AngularVelocityUnit,
+  CoordinateFrame,
+  CurrentUnit,
+  GPSFixType,
+  GPSPosition,
+  PathPlanningStatus,
+  Position,
+  ValidationError,
+  Velocity,
+  VelocityUnit,
+  VoltageUnit,
+} from '@urfmp/types'
+import {
+  RosBatteryState,
+  RosDiagnosticLevel,
+  RosDiagnosticStatus,
+  RosGoalStatus,
+  RosNavSatFix,
+  RosNavigationConfig,
+  RosOdometry,
+  RosPose,
+  RosQuaternion,
+  RosTime,
+  RosTopicKind,
+  RosTopicMapping,
+} from './types'
+
+export const MESSAGE_TYPES: Record<RosTopicKind, string> = {
+  odometry: 'nav_msgs/msg/Odometry',
+  pose: 'geometry_msgs/msg/PoseWithCovarianceStamped',
+  battery: 'sensor_msgs/msg/BatteryState',
+  diagnostics: 'diagnostic_msgs/msg/DiagnosticArray',
+  navsat: 'sensor_msgs/msg/NavSatFix',
+  navigation_feedback: 'nav2_msgs/action/NavigateToPose_FeedbackMessage',
+  navigation_status: 'action_msgs/msg/GoalStatusArray',
+}
+
+// Subscribed when options.topics is not given, the usual names of a Nav2 robot
+export const DEFAULT_TOPICS: RosTopicMapping[] = [
+  { kind: 'odometry', topic: '/odom', throttleRate: 200 },
+  { kind: 'battery', topic: '/battery_state' },
+  { kind: 'diagnostics', topic: '/diagnostics' },
+  { kind: 'navsat', topic: '/gps/fix' },
+  { kind: 'navigation_feedback', topic: '/navigate_to_pose/_action/feedback', throttleRate: 500 },
+  { kind: 'navigation_status', topic: '/navigate_to_pose/_action/status' },
+]
+
+export const DEFAULT_NAVIGATION: Required<
+  Omit<RosNavigationConfig, 'goalService' | 'goalServiceType'>
+> = {
+  frameId: 'map',
+  goalTopic: '/goal_pose',
+  cancelService: '/navigate_to_pose/_action/cancel_goal',
+  cmdVelTopic: '/cmd_vel',
+}
+
+// Topic and service names, absolute or relative to the rosbridge node's namespace
+const ROS_NAME = /^(\/|~\/)?[A-Za-z_][\w]*(\/[A-Za-z_][\w]*)*$/
+const MESSAGE_TYPE = /^\w+\/(msg|srv|action)\/\w+$/
+
+export function isRosName(name: unknown): name is string {
+  return typeof name === 'string' && ROS_NAME.test(name)
+}
+
+/**
+ * Check options.topics and options.navigation, errors name the offending field by path
+ */
+export function validateRosOptions(options: Record<string, any> | undefined): ValidationError[] {
+  const errors: ValidationError[] = []
+  const error = (field: string, message: string, code: string) =>
+    errors.push({ field: `options.${field}`, message, code })
+
+  const topics = options?.topics
+  if (topics !== undefined) {
+    if (!Array.isArray(topics) || topics.length === 0) {
+      error('topics', 'Topics must be a non-empty list', 'INVALID_TOPICS')
+    } else {
+      topics.forEach((mapping: RosTopicMapping, i) => {
+        const field = `topics[${i}]`
+        if (!(mapping?.kind in MESSAGE_TYPES)) {
+          error(
+            `${field}.kind`,
+            `Kind must be one of ${Object.keys(MESSAGE_TYPES).join(', ')}`,
+            'INVALID_KIND'
+          )
+        }
+        if (!isRosName(mapping?.topic)) {
+          error(`${field}.topic`, 'Topic must be a ROS name such as /odom', 'INVALID_TOPIC')
+        }
+        if (mapping?.type !== undefined && !MESSAGE_TYPE.test(mapping.type)) {
+          error(`${field}.type`, 'Type must look like nav_msgs/msg/Odometry', 'INVALID_TYPE')
+        }
+        if (mapping?.throttleRate !== undefined && !(mapping.throttleRate >= 0)) {
+          error(`${field}.throttleRate`, 'Throttle rate must be 0 or more ms', 'INVALID_THROTTLE')
+        }
+      })
+    }
+  }
+
+  const navigation: RosNavigationConfig = options?.navigation ?? {}
+  for (const key of ['goalTopic', 'goalService', 'cancelService', 'cmdVelTopic'] as const) {
+    if (navigation[key] !== undefined && !isRosName(navigation[key])) {
+      error(`navigation.${key}`, `${key} must be a ROS name`, 'INVALID_NAME')
+    }
+  }
+  if (navigation.goalServiceType !== undefined && !MESSAGE_TYPE.test(navigation.goalServiceType)) {
+    error('navigation.goalServiceType', 'Type must look like pkg/srv/Name', 'INVALID_TYPE')
+  }
+  if (navigation.frameId !== undefined && !/^[\w/]+$/.test(navigation.frameId)) {
+    error('navigation.frameId', 'Frame id must be a TF frame such as map', 'INVALID_FRAME')
+  }
+
+  return errors
+}
+
+export function stampToDate(stamp: RosTime | undefined): Date {
+  // Simulated and unstamped messages carry zero, their receipt time is the better guess
+  return stamp && stamp.sec > 0 ? new Date(stamp.sec * 1000 + stamp.nanosec / 1e6) : new Date()
+}
+
+export function durationToSeconds(duration: RosTime): number {
+  return duration.sec + duration.nanosec / 1e9
+}
+
+/**
+ * ROS quaternion to roll, pitch and yaw in degrees
+ */
+export function quaternionToEuler({ x, y, z, w }: RosQuaternion): {
+  rx: number
+  ry: number
+  rz: number
+} {
+  const degrees = (radians: number) => (radians * 180) / Math.PI
+  const sinPitch = Math.max(-1, Math.min(1, 2 * (w * y - z * x)))
+
+  return {
+    rx: degrees(Math.atan2(2 * (w * x + y * z), 1 - 2 * (x * x + y * y))),
+    ry: degrees(Math.asin(sinPitch)),
+    rz: degrees(Math.atan2(2 * (w * z + x * y), 1 - 2 * (y * y + z * z))),
+  }
+}
+
+/**
+ * Heading in degrees to the quaternion of a planar pose
+ */
+export function yawToQuaternion(yaw: number): RosQuaternion {
+  const half = (yaw * Math.PI) / 360
+  return { x: 0, y: 0, z: Math.sin(half), w: Math.cos(half) }
+}
+
+/**
+ * A ROS pose in meters to a Position in mm and degrees, as the platform stores positions
+ */
+export function poseToPosition(pose: RosPose): Position {
+  return {
+    x: pose.position.x * 1000,
+    y: pose.position.y * 1000,
+    z: pose.position.z * 1000,
+    ...quaternionToEuler(pose.orientation),
+    frame: CoordinateFrame.WORLD,
+  }
+}
+
+export function odometryToVelocity(odometry: RosOdometry): Velocity {
+  const { linear, angular } = odometry.twist.twist
+  return {
+    linear: {
+      x: linear.x,
+      y: linear.y,
+      z: linear.z,
+      magnitude: Math.hypot(linear.x, linear.y, linear.z),
+      unit: VelocityUnit.METERS_PER_SECOND,
+    },
+    angular: {
+      rx: angular.x,
+      ry: angular.y,
+      rz: angular.z,
+      unit: AngularVelocityUnit.RADIANS_PER_SECOND,
+    },
+  }
+}
+
+/**
+ * Battery readings, fields the driver leaves NaN are left out
+ */
+export function batteryToTelemetry(battery: RosBatteryState): {
+  voltage?: { supply: number; unit: VoltageUnit }
+  current?: { total: number; unit: CurrentUnit }
+  batteryLevel?: number
+  batteryCharging?: boolean
+} {
+  const known = (value: number) => typeof value === 'number' && Number.isFinite(value)
+  return {
+    ...(known(battery.voltage) && {
+      voltage: { supply: battery.voltage, unit: VoltageUnit.VOLTS },
+    }),
+    ...(known(battery.current) && {
+      current: { total: battery.current, unit: CurrentUnit.AMPERES },
+    }),
+    ...(known(battery.percentage) && { batteryLevel: Math.round(battery.percentage * 1000) / 10 }),
+    batteryCharging: battery.power_supply_status === 1,
+  }
+}
+
+export function navSatFixToGPS(fix: RosNavSatFix): GPSPosition {
+  const covariance = fix.position_covariance ?? []
+  const accuracy =
+    fix.position_covariance_type > 0 && covariance.length === 9
+      ? {
+          horizontal: Math.sqrt(Math.max(covariance[0], covariance[4])),
+          vertical: Math.sqrt(covariance[8]),
+        }
+      : undefined
+
+  return {
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    ...(Number.isFinite(fix.altitude) && { altitude: fix.altitude }),
+    ...(accuracy && { accuracy }),
+    timestamp: stampToDate(fix.header?.stamp),
+    fix: gpsFixType(fix.status?.status, fix.altitude),
+  }
+}
+
+function gpsFixType(status: number, altitude: number): GPSFixType {
+  switch (status) {
+    case 0:
+      return Number.isFinite(altitude) ? GPSFixType.GPS_3D : GPSFixType.GPS_2D
+    case 1:
+      return GPSFixType.DGPS
+    case 2:
+      // Receiver drivers report RTK corrections as ground based augmentation
+      return GPSFixType.RTK_FIXED
+    default:
+      return GPSFixType.NO_FIX
+  }
+}
+
+export function diagnosticLevel(status: RosDiagnosticStatus): RosDiagnosticLevel {
+  const level =
+    typeof status.level === 'number' ? status.level : Buffer.from(status.level, 'base64')[0]
+  return level in RosDiagnosticLevel ? level : RosDiagnosticLevel.STALE
+}
+
+export function goalStatusToPlanning(status: RosGoalStatus): PathPlanningStatus {
+  switch (status) {
+    case RosGoalStatus.ACCEPTED:
+      return PathPlanningStatus.PLANNING
+    case RosGoalStatus.EXECUTING:
+    case RosGoalStatus.CANCELING:
+      return PathPlanningStatus.EXECUTING
+    case RosGoalStatus.SUCCEEDED:
+      return PathPlanningStatus.COMPLETED
+    case RosGoalStatus.ABORTED:
+      return PathPlanningStatus.FAILED
+    default:
+      return PathPlanningStatus.IDLE
+  }
+}
@@ -0,0 +1,256 @@
+import WebSocket from 'ws'
+import { RosbridgeConfig, RosbridgeConnectionInfo, RosbridgeMessage } from './types'
+
+export type RosMessageCallback = (message: Record<string, any>) => void
+
+interface Subscription {
+  topic: string
+  callback: RosMessageCallback
+}
+
+interface PendingCall {
+  service: string
+  sentAt: number
+  resolve: (values: any) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+/**
+ * Client for the rosbridge v2 JSON protocol. One WebSocket carries every topic subscription,
+ * publication and service call, replies are matched to calls by id.
+ */
+export class RosbridgeClient {
+  private config: RosbridgeConfig
+  private socket?: WebSocket
+  private connected = false
+  private connectedAt?: Date
+  private nextId = 0
+  private subscriptions = new Map<string, Subscription>() // By subscription id
+  private advertised = new Map<string, string>() // Topic to message type
+  private pendingCalls = new Map<string, PendingCall>()
+  private messagesSent = 0
+  private messagesReceived = 0
+  private bytesSent = 0
+  private bytesReceived = 0
+  private totalLatency = 0
+  private callsAnswered = 0
+  private errors = 0
+  private lastErrorAt?: Date
+  private closeCallback?: () => void
+
+  constructor(config: RosbridgeConfig) {
+    this.config = config
+  }
+
+  async connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.config.url, { handshakeTimeout: this.config.timeout })
+
+      socket.once('open', () => {
+        this.socket = socket
+        this.connected = true
+        this.connectedAt = new Date()
+        console.log(`Connected to rosbridge at ${this.config.url}`)
+        resolve()
+      })
+
+      socket.on('error', (error) => {
+        this.recordError()
+        if (!this.connected) {
+          reject(new Error(`rosbridge connection failed: ${error.message}`))
+        }
+      })
+
+      socket.on('message', (data) => this.handleMessage(data.toString()))
+
+      socket.on('close', () => {
+        if (this.socket === socket) {
+          this.connected = false
+          this.socket = undefined
+          this.rejectPending(new Error('rosbridge connection closed'))
+          console.log('rosbridge connection closed')
+          this.closeCallback?.()
+        }
+      })
+    })
+  }
+
+  async disconnect(): Promise<void> {
+    this.rejectPending(new Error('rosbridge connection closed'))
+    this.subscriptions.clear()
+    this.advertised.clear()
+    if (this.socket) {
+      const socket = this.socket
+      this.socket = undefined
+      socket.removeAllListeners()
+      socket.on('error', () => undefined)
+      socket.terminate()
+    }
+    this.connected = false
+  }
+
+  /**
+   * Called when rosbridge or the network closes the socket, not on disconnect()
+   */
+  onClose(callback: () => void): void {
+    this.closeCallback = callback
+  }
+
+  /**
+   * Subscribe to a topic, returns the subscription id for unsubscribe
+   */
+  subscribe(topic: string, type: string, callback: RosMessageCallback, throttleRate = 0): string {
+    const id = `subscribe:${topic}:${++this.nextId}`
+    this.subscriptions.set(id, { topic, callback })
+    this.send({ op: 'subscribe', id, topic, type, throttle_rate: throttleRate, queue_length: 1 })
+    return id
+  }
+
+  unsubscribe(id: string): void {
+    const subscription = this.subscriptions.get(id)
+    if (subscription) {
+      this.subscriptions.delete(id)
+      this.send({ op: 'unsubscribe', id, topic: subscription.topic })
+    }
+  }
+
+  /**
+   * Publish a message, the topic is advertised with its type on first use
+   */
+  publish(topic: string, type: string, msg: Record<string, any>): void {
+    if (this.advertised.get(topic) !== type) {
+      this.send({ op: 'advertise', id: `advertise:${topic}:${++this.nextId}`, topic, type })
+      this.advertised.set(topic, type)
+    }
+    this.send({ op: 'publish', topic, msg })
+  }
+
+  /**
+   * Call a service and resolve with its response values
+   */
+  callService(service: string, args: Record<string, any> = {}, type?: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const id = `call_service:${service}:${++this.nextId}`
+
+      const timer = setTimeout(() => {
+        this.pendingCalls.delete(id)
+        this.recordError()
+        reject(new Error(`Service call timeout: ${service}`))
+      }, this.config.timeout)
+
+      this.pendingCalls.set(id, { service, sentAt: Date.now(), resolve, reject, timer })
+
+      try {
+        this.send({ op: 'call_service', id, service, args, ...(type ? { type } : {}) })
+      } catch (error) {
+        clearTimeout(timer)
+        this.pendingCalls.delete(id)
+        reject(error)
+      }
+    })
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  getConnectionInfo(): RosbridgeConnectionInfo {
+    return {
+      connected: this.connected,
+      url: this.config.url,
+      connectedAt: this.connectedAt,
+      messagesSent: this.messagesSent,
+      messagesReceived: this.messagesReceived,
+      bytesSent: this.bytesSent,
+      bytesReceived: this.bytesReceived,
+      averageLatency: this.callsAnswered ? this.totalLatency / this.callsAnswered : 0,
+      errors: this.errors,
+      lastErrorAt: this.lastErrorAt,
+    }
+  }
+
+  private send(message: RosbridgeMessage): void {
+    if (!this.socket || !this.connected) {
+      throw new Error('Not connected to rosbridge')
+    }
+
+    const text = JSON.stringify(message)
+    this.socket.send(text)
+    this.messagesSent++
+    this.bytesSent += Buffer.byteLength(text)
+  }
+
+  private handleMessage(text: string): void {
+    this.messagesReceived++
+    this.bytesReceived += Buffer.byteLength(text)
+
+    let message: RosbridgeMessage
+    try {
+      message = JSON.parse(text)
+    } catch {
+      this.recordError()
+      return
+    }
+
+    switch (message.op) {
+      case 'publish':
+        for (const subscription of this.subscriptions.values()) {
+          if (subscription.topic === message.topic) {
+            subscription.callback(message.msg)
+          }
+        }
+        break
+
+      case 'service_response': {
+        const pending = message.id ? this.pendingCalls.get(message.id) : undefined
+        if (!pending) {
+          return
+        }
+        this.settle(message.id!, pending)
+        this.totalLatency += Date.now() - pending.sentAt
+        this.callsAnswered++
+
+        if (message.result === false) {
+          this.recordError()
+          const reason = typeof message.values === 'string' ? `: ${message.values}` : ''
+          pending.reject(new Error(`Service call ${pending.service} failed${reason}`))
+        } else {
+          pending.resolve(message.values ?? {})
+        }
+        break
+      }
+
+      case 'status':
+        // rosbridge reports refused operations as status messages carrying the operation id
+        if (message.level === 'error') {
+          this.recordError()
+          const pending = message.id ? this.pendingCalls.get(message.id) : undefined
+          if (pending) {
+            this.settle(message.id!, pending)
+            pending.reject(new Error(`Service call ${pending.service} failed: ${message.msg}`))
+          } else {
+            console.error(`rosbridge error: ${message.msg}`)
+          }
+        }
+        break
+    }
+  }
+
+  private settle(id: string, pending: PendingCall): void {
+    clearTimeout(pending.timer)
+    this.pendingCalls.delete(id)
+  }
+
+  private recordError(): void {
+    this.errors++
+    this.lastErrorAt = new Date()
+  }
+
+  private rejectPending(error: Error): void {
+    for (const [id, pending] of this.pendingCalls) {
+      this.settle(id, pending)
+      pending.reject(error)
+    }
+  }
+}
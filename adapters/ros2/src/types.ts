@@ -0,0 +1,180 @@
+// ROS 2 rosbridge adapter types
+
+export interface RosbridgeConfig {
+  url: string // ws://host:9090
+  timeout: number
+}
+
+/**
+ * Messages of the rosbridge v2 protocol the client sends and handles
+ */
+export type RosbridgeMessage =
+  | {
+      op: 'subscribe'
+      id: string
+      topic: string
+      type: string
+      throttle_rate?: number
+      queue_length?: number
+    }
+  | { op: 'unsubscribe'; id: string; topic: string }
+  | { op: 'advertise'; id: string; topic: string; type: string }
+  | { op: 'unadvertise'; id: string; topic: string }
+  | { op: 'publish'; id?: string; topic: string; msg: Record<string, any> }
+  | { op: 'call_service'; id: string; service: string; type?: string; args: Record<string, any> }
+  | { op: 'service_response'; id?: string; service: string; values?: any; result: boolean }
+  | { op: 'status'; id?: string; level: 'error' | 'warning' | 'info' | 'none'; msg: string }
+
+// What a subscribed topic carries and where it lands in TelemetryData
+export type RosTopicKind =
+  | 'odometry' // nav_msgs/msg/Odometry: position and velocity
+  | 'pose' // geometry_msgs/msg/PoseWithCovarianceStamped, e.g. amcl_pose: position in the map
+  | 'battery' // sensor_msgs/msg/BatteryState: voltage, current, custom.batteryLevel
+  | 'diagnostics' // diagnostic_msgs/msg/DiagnosticArray: custom.diagnostics and events
+  | 'navsat' // sensor_msgs/msg/NavSatFix: gpsPosition
+  | 'navigation_feedback' // Nav2 NavigateToPose feedback: navigation ETA and progress
+  | 'navigation_status' // action_msgs/msg/GoalStatusArray: navigation.pathPlanningStatus
+
+export interface RosTopicMapping {
+  kind: RosTopicKind
+  topic: string
+  type?: string // Message type, defaults to the standard type of the kind
+  throttleRate?: number // Minimum ms between messages rosbridge forwards, default 0
+}
+
+/**
+ * Where MOVE_TO_POSITION and STOP go, passed as options.navigation
+ */
+export interface RosNavigationConfig {
+  frameId?: string // Frame of goal poses, default map
+  goalTopic?: string // geometry_msgs/msg/PoseStamped topic, default /goal_pose as Nav2 listens
+  goalService?: string // Called with { pose } instead of publishing when set
+  goalServiceType?: string
+  cancelService?: string // Called on STOP, default the Nav2 NavigateToPose cancel service
+  cmdVelTopic?: string // Zero velocity published on STOP, default /cmd_vel
+}
+
+// ROS messages, as rosbridge encodes them in JSON
+
+export interface RosTime {
+  sec: number
+  nanosec: number
+}
+
+export interface RosHeader {
+  stamp: RosTime
+  frame_id: string
+}
+
+export interface RosVector3 {
+  x: number
+  y: number
+  z: number
+}
+
+export interface RosQuaternion {
+  x: number
+  y: number
+  z: number
+  w: number
+}
+
+export interface RosPose {
+  position: RosVector3
+  orientation: RosQuaternion
+}
+
+export interface RosPoseStamped {
+  header: RosHeader
+  pose: RosPose
+}
+
+export interface RosOdometry {
+  header: RosHeader
+  child_frame_id: string
+  pose: { pose: RosPose; covariance: number[] }
+  twist: { twist: { linear: RosVector3; angular: RosVector3 }; covariance: number[] }
+}
+
+export interface RosPoseWithCovarianceStamped {
+  header: RosHeader
+  pose: { pose: RosPose; covariance: number[] }
+}
+
+export interface RosBatteryState {
+  header: RosHeader
+  voltage: number // V, NaN when unknown
+  current: number // A, negative while discharging
+  charge: number // Ah
+  capacity: number // Ah
+  percentage: number // 0-1
+  power_supply_status: number // 0 unknown, 1 charging, 2 discharging, 3 not charging, 4 full
+  present: boolean
+}
+
+export enum RosDiagnosticLevel {
+  OK = 0,
+  WARN = 1,
+  ERROR = 2,
+  STALE = 3,
+}
+
+export interface RosDiagnosticStatus {
+  level: number | string // byte, some rosbridge versions send it base64 encoded
+  name: string
+  message: string
+  hardware_id: string
+  values: { key: string; value: string }[]
+}
+
+export interface RosDiagnosticArray {
+  header: RosHeader
+  status: RosDiagnosticStatus[]
+}
+
+export interface RosNavSatFix {
+  header: RosHeader
+  status: { status: number; service: number } // -1 no fix, 0 fix, 1 SBAS, 2 GBAS
+  latitude: number
+  longitude: number
+  altitude: number
+  position_covariance: number[]
+  position_covariance_type: number // 0 unknown, 1 approximated, 2 diagonal known, 3 known
+}
+
+export interface RosNavigateToPoseFeedback {
+  feedback: {
+    current_pose: RosPoseStamped
+    navigation_time: RosTime
+    estimated_time_remaining: RosTime
+    number_of_recoveries: number
+    distance_remaining: number // m
+  }
+}
+
+export enum RosGoalStatus {
+  UNKNOWN = 0,
+  ACCEPTED = 1,
+  EXECUTING = 2,
+  CANCELING = 3,
+  SUCCEEDED = 4,
+  CANCELED = 5,
+  ABORTED = 6,
+}
+
+export interface RosGoalStatusArray {
+  status_list: { goal_info: { goal_id: { uuid: number[] }; stamp: RosTime }; status: number }[]
+}
+
+export interface RosbridgeConnectionInfo {
+  connected: boolean
+  url: string
+  connectedAt?: Date
+  messagesSent: number
+  messagesReceived: number
+  bytesSent: number
+  bytesReceived: number
+  averageLatency: number // ms, of service calls
+  errors: number
+  lastErrorAt?: Date
+}
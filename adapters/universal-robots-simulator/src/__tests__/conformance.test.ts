@@ -0,0 +1,50 @@
+import { describeAdapterConformance } from '@urfmp/adapter-conformance'
+import { adapterPlugin, UniversalRobotsAdapter } from '@urfmp/adapter-universal-robots'
+import { ConnectionProtocol, RobotCommandType } from '@urfmp/types'
+import { URSimulator } from '../simulator'
+
+describeAdapterConformance({
+  name: 'UniversalRobotsAdapter conformance',
+  createAdapter: () => new UniversalRobotsAdapter(),
+  startEndpoint: async () => {
+    const simulator = new URSimulator({
+      dashboardPort: 0,
+      realTimePort: 0,
+      robotMode: 'RUNNING',
+      loadedProgram: '/programs/pick.urp',
+    })
+    const ports = await simulator.start()
+
+    return {
+      config: {
+        host: '127.0.0.1',
+        port: ports.dashboardPort,
+        protocol: ConnectionProtocol.TCP,
+        timeout: 1000,
+        options: ports,
+      },
+      // Protective stops and their unlock show up as safety mode transitions
+      triggerEvent: () => {
+        if (simulator.getState().safetyMode === 'PROTECTIVE_STOP') {
+          simulator.clearFaults()
+        } else {
+          simulator.injectFault({ type: 'protective_stop' })
+        }
+      },
+      stop: () => simulator.stop(),
+    }
+  },
+  supportedCommand: { type: RobotCommandType.START },
+  invalidConfigs: [
+    {
+      config: {
+        host: '127.0.0.1',
+        port: 29999,
+        protocol: ConnectionProtocol.TCP,
+        options: { rtde: { frequency: 1000 } },
+      },
+      field: 'options.rtde.frequency',
+    },
+  ],
+  plugin: adapterPlugin,
+})
@@ -0,0 +1,271 @@
+import {
+  URDashboardClient,
+  URRealTimeClient,
+  URRobotMode,
+  URRobotState,
+  URSafetyMode,
+  UniversalRobotsAdapter,
+} from '@urfmp/adapter-universal-robots'
+import { ConnectionProtocol, VendorEvent, VendorEventType } from '@urfmp/types'
+import { URSimulator } from '../simulator'
+import { URSimulatorOptions } from '../types'
+
+const waitFor = async <T>(read: () => T | undefined, timeout = 3000): Promise<T> => {
+  const deadline = Date.now() + timeout
+  for (;;) {
+    const value = read()
+    if (value !== undefined) {
+      return value
+    }
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+describe('URSimulator', () => {
+  let simulator: URSimulator
+  let ports: { dashboardPort: number; realTimePort: number }
+  let dashboard: URDashboardClient | undefined
+  let realTime: URRealTimeClient | undefined
+
+  const start = async (options: URSimulatorOptions = {}) => {
+    simulator = new URSimulator({
+      dashboardPort: 0,
+      realTimePort: 0,
+      bootTime: 20,
+      loadedProgram: '/programs/pick.urp',
+      ...options,
+    })
+    ports = await simulator.start()
+  }
+
+  const connectClients = async () => {
+    const config = { host: '127.0.0.1', ...ports, timeout: 1000 }
+    dashboard = new URDashboardClient(config)
+    realTime = new URRealTimeClient(config)
+    await dashboard.connect()
+    await realTime.connect()
+
+    const states: URRobotState[] = []
+    realTime.onData((state) => states.push(state))
+    return { dashboard, realTime, states }
+  }
+
+  afterEach(async () => {
+    await dashboard?.disconnect()
+    await realTime?.disconnect()
+    dashboard = undefined
+    realTime = undefined
+    await simulator.stop()
+  })
+
+  it('should serve the adapter end to end', async () => {
+    await start({ robotMode: 'RUNNING', serialNumber: 'SIM-001' })
+    const adapter = new UniversalRobotsAdapter()
+
+    const connection = await adapter.connect({
+      host: '127.0.0.1',
+      port: ports.dashboardPort,
+      protocol: ConnectionProtocol.TCP,
+      timeout: 1000,
+      options: ports,
+    })
+
+    try {
+      expect(connection.robotId).toBe('SIM-001')
+
+      const telemetry = await adapter.getTelemetry(connection.id)
+      expect(telemetry.data.jointAngles?.joint2).toBeCloseTo(-1.57, 1)
+      expect(telemetry.data.safety).toMatchObject({ protectiveStop: false, emergencyStop: false })
+      expect(telemetry.data.position?.z).toEqual(expect.any(Number))
+
+      const result = await adapter.sendCommand(connection.id, {
+        id: 'cmd-1',
+        type: 'start',
+        payload: {},
+      } as any)
+      expect(result.success).toBe(true)
+      expect(simulator.getState().programState).toBe('PLAYING')
+    } finally {
+      await adapter.disconnect(connection.id)
+    }
+  })
+
+  it('should reconnect the adapter after a dropped link and report it in the metrics', async () => {
+    await start({ robotMode: 'RUNNING' })
+    const adapter = new UniversalRobotsAdapter()
+
+    const connection = await adapter.connect({
+      host: '127.0.0.1',
+      port: ports.dashboardPort,
+      protocol: ConnectionProtocol.TCP,
+      timeout: 1000,
+      options: { ...ports, heartbeatInterval: 50, reconnectDelay: 100 },
+    })
+
+    try {
+      await waitFor(() => (connection.metrics.averageLatency > 0 ? true : undefined))
+      const before = { ...connection.metrics }
+      expect(before.bytesReceived).toBeGreaterThan(0)
+      expect(before.messagesSent).toBeGreaterThan(0)
+      expect(connection.lastHeartbeat).toBeInstanceOf(Date)
+
+      simulator.injectFault({ type: 'disconnect', duration: 300 })
+      await waitFor(() => (connection.status === 'reconnecting' ? true : undefined))
+      await expect(adapter.getTelemetry(connection.id)).rejects.toThrow('not available')
+
+      await waitFor(() => (connection.status === 'connected' ? true : undefined))
+      expect(connection.metrics.reconnects).toBe(1)
+      expect(connection.metrics.errorCount).toBeGreaterThan(before.errorCount)
+      expect(connection.metrics.lastErrorAt).toBeInstanceOf(Date)
+      expect(connection.metrics.bytesReceived).toBeGreaterThanOrEqual(before.bytesReceived)
+
+      const telemetry = await adapter.getTelemetry(connection.id)
+      expect(telemetry.robotId).toBe(connection.robotId)
+    } finally {
+      await adapter.disconnect(connection.id)
+    }
+    expect(connection.status).toBe('disconnected')
+  })
+
+  it('should give up reconnecting after the configured retry attempts', async () => {
+    await start({ robotMode: 'RUNNING' })
+    const adapter = new UniversalRobotsAdapter()
+
+    const connection = await adapter.connect({
+      host: '127.0.0.1',
+      port: ports.dashboardPort,
+      protocol: ConnectionProtocol.TCP,
+      timeout: 500,
+      retryAttempts: 2,
+      options: { ...ports, heartbeatInterval: 50, reconnectDelay: 50 },
+    })
+
+    try {
+      simulator.injectFault({ type: 'disconnect', duration: 10000 })
+      await waitFor(() => (connection.status === 'error' ? true : undefined))
+      expect(connection.metrics.reconnects).toBe(0)
+      expect(connection.metrics.uptime).toBe(0)
+    } finally {
+      await adapter.disconnect(connection.id)
+    }
+  })
+
+  it('should report protective stops as state transitions to adapter subscribers', async () => {
+    await start({ robotMode: 'RUNNING' })
+    const adapter = new UniversalRobotsAdapter()
+    const connection = await adapter.connect({
+      host: '127.0.0.1',
+      port: ports.dashboardPort,
+      protocol: ConnectionProtocol.TCP,
+      timeout: 1000,
+      options: ports,
+    })
+
+    try {
+      const events: VendorEvent[] = []
+      await adapter.subscribeToEvents(connection.id, (event) => events.push(event))
+      await adapter.sendCommand(connection.id, { id: 'cmd-1', type: 'start', payload: {} } as any)
+      await waitFor(() => events.find((event) => event.type === VendorEventType.PROGRAM_STARTED))
+
+      simulator.injectFault({ type: 'protective_stop' })
+
+      const stop = await waitFor(() =>
+        events.find((event) => event.type === VendorEventType.SAFETY_VIOLATION)
+      )
+      expect(stop).toMatchObject({
+        robotId: connection.robotId,
+        source: 'real_time_interface',
+        data: {
+          property: 'safety_mode',
+          before: 'SAFETY_MODE_NORMAL',
+          after: 'SAFETY_MODE_PROTECTIVE_STOP',
+        },
+      })
+      await waitFor(() => events.find((event) => event.type === VendorEventType.PROGRAM_PAUSED))
+    } finally {
+      await adapter.disconnect(connection.id)
+    }
+  })
+
+  it('should power up from power off and move while a program plays', async () => {
+    await start()
+    const { dashboard, states } = await connectClients()
+
+    expect((await dashboard.play()).success).toBe(false)
+    expect((await dashboard.powerUp(2000)).success).toBe(true)
+    await waitFor(() => (simulator.getState().robotMode === 'RUNNING' ? true : undefined))
+    expect((await dashboard.play()).success).toBe(true)
+
+    const moving = await waitFor(() =>
+      states.find((state) => state.qd_actual.some((velocity) => velocity !== 0))
+    )
+    expect(moving.robot_mode).toBe(URRobotMode.ROBOT_MODE_RUNNING)
+    expect(moving.program_state).toBe(2)
+
+    const later = await waitFor(() =>
+      states.length > states.indexOf(moving) + 10 ? states[states.length - 1] : undefined
+    )
+    expect(later.q_actual[0]).not.toBe(moving.q_actual[0])
+    expect(later.timestamp).toBeGreaterThan(moving.timestamp)
+  })
+
+  it('should report an injected protective stop until it is unlocked', async () => {
+    await start({ robotMode: 'RUNNING' })
+    const { dashboard, states } = await connectClients()
+    await dashboard.play()
+
+    simulator.injectFault({ type: 'protective_stop' })
+
+    const stopped = await waitFor(() =>
+      states.find((state) => state.safety_mode === URSafetyMode.SAFETY_MODE_PROTECTIVE_STOP)
+    )
+    expect(stopped.qd_actual).toEqual([0, 0, 0, 0, 0, 0])
+    expect((await dashboard.getSafetyInfo()).safetyMode).toBe('PROTECTIVE_STOP')
+    expect((await dashboard.getProgramInfo()).programState).toBe('PAUSED')
+
+    expect((await dashboard.unlockProtectiveStop()).success).toBe(true)
+    expect(simulator.getState().safetyMode).toBe('NORMAL')
+  })
+
+  it('should report an injected high motor temperature', async () => {
+    await start({ robotMode: 'IDLE' })
+    const { states } = await connectClients()
+
+    simulator.injectFault({ type: 'high_temperature', joint: 3, temperature: 90 })
+
+    const hot = await waitFor(() => states.find((state) => state.motor_temperatures[2] === 90))
+    expect(hot.motor_temperatures[0]).toBeLessThan(40)
+  })
+
+  it('should drop clients on an injected disconnect and refuse them for its duration', async () => {
+    await start()
+    const { dashboard } = await connectClients()
+
+    simulator.injectFault({ type: 'disconnect', duration: 1000 })
+
+    await waitFor(() => (dashboard.isConnected() ? undefined : true))
+    const refused = new URDashboardClient({ host: '127.0.0.1', ...ports, timeout: 500 })
+    await expect(refused.connect()).rejects.toThrow()
+    await refused.disconnect()
+
+    simulator.clearFaults()
+    await dashboard.connect()
+    expect(await dashboard.getRobotMode()).toBe(URRobotMode.ROBOT_MODE_POWER_OFF)
+  })
+
+  it('should stream older controller layouts', async () => {
+    await start({ messageSize: 1060 })
+    const { realTime, states } = await connectClients()
+
+    await waitFor(() => states[0])
+    expect(realTime.getConnectionInfo().layout).toMatchObject({
+      controller: 'CB3',
+      messageSize: 1060,
+    })
+    expect(states[0].program_state).toBe(1)
+    expect(states[0].elbow_position).toBeUndefined()
+  })
+})
@@ -0,0 +1,28 @@
+import { URSimulator } from './simulator'
+import { URSimulatorMessageSize } from './types'
+
+const env = process.env
+
+const simulator = new URSimulator({
+  host: env.UR_SIM_HOST || '0.0.0.0',
+  dashboardPort: env.UR_SIM_DASHBOARD_PORT ? Number(env.UR_SIM_DASHBOARD_PORT) : undefined,
+  realTimePort: env.UR_SIM_REALTIME_PORT ? Number(env.UR_SIM_REALTIME_PORT) : undefined,
+  frequency: env.UR_SIM_FREQUENCY ? Number(env.UR_SIM_FREQUENCY) : undefined,
+  messageSize: env.UR_SIM_MESSAGE_SIZE
+    ? (Number(env.UR_SIM_MESSAGE_SIZE) as URSimulatorMessageSize)
+    : undefined,
+  model: env.UR_SIM_MODEL,
+  loadedProgram: env.UR_SIM_PROGRAM || '/programs/demo.urp',
+})
+
+const shutdown = () => {
+  simulator.stop().finally(() => process.exit(0))
+}
+
+process.on('SIGTERM', shutdown)
+process.on('SIGINT', shutdown)
+
+simulator.start().catch((error) => {
+  console.error('UR simulator failed to start:', (error as Error).message)
+  process.exit(1)
+})
@@ -0,0 +1,10 @@
+/**
+ * Virtual Universal Robots controller for URFMP
+ * Serves the dashboard server and real-time interface for tests and local development
+ */
+
+export { URSimulator } from './simulator'
+export { encodeRealTimeMessage } from './realtime-encoder'
+export type { RealTimeSample } from './realtime-encoder'
+export { forwardKinematics } from './kinematics'
+export * from './types'
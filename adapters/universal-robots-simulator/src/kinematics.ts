@@ -0,0 +1,62 @@
+// UR5e Denavit-Hartenberg parameters, meters and radians
+const D = [0.1625, 0, 0, 0.1333, 0.0997, 0.0996]
+const A = [0, -0.425, -0.3922, 0, 0, 0]
+const ALPHA = [Math.PI / 2, 0, 0, Math.PI / 2, -Math.PI / 2, 0]
+
+type Matrix = number[][]
+
+/**
+ * Tool pose in the base frame for the given joint positions, as the controller reports it:
+ * [x, y, z, rx, ry, rz] with the orientation as a rotation vector. With fewer links the pose
+ * is that of the frame after them, e.g. 2 for the elbow.
+ */
+export function forwardKinematics(q: number[], links = 6): number[] {
+  let transform: Matrix = [
+    [1, 0, 0, 0],
+    [0, 1, 0, 0],
+    [0, 0, 1, 0],
+    [0, 0, 0, 1],
+  ]
+
+  for (let joint = 0; joint < links; joint++) {
+    transform = multiply(transform, jointTransform(q[joint], D[joint], A[joint], ALPHA[joint]))
+  }
+
+  return [transform[0][3], transform[1][3], transform[2][3], ...rotationVector(transform)]
+}
+
+function jointTransform(theta: number, d: number, a: number, alpha: number): Matrix {
+  const [ct, st, ca, sa] = [Math.cos(theta), Math.sin(theta), Math.cos(alpha), Math.sin(alpha)]
+  return [
+    [ct, -st * ca, st * sa, a * ct],
+    [st, ct * ca, -ct * sa, a * st],
+    [0, sa, ca, d],
+    [0, 0, 0, 1],
+  ]
+}
+
+function multiply(left: Matrix, right: Matrix): Matrix {
+  return left.map((row) =>
+    right[0].map((_, column) => row.reduce((sum, value, k) => sum + value * right[k][column], 0))
+  )
+}
+
+function rotationVector(r: Matrix): number[] {
+  const cosAngle = Math.min(1, Math.max(-1, (r[0][0] + r[1][1] + r[2][2] - 1) / 2))
+  const angle = Math.acos(cosAngle)
+
+  if (angle < 1e-9) {
+    return [0, 0, 0]
+  }
+
+  if (Math.PI - angle < 1e-6) {
+    // Half turn, the axis comes from the diagonal instead of the skew-symmetric part
+    const axis = [0, 1, 2].map((i) => Math.sqrt(Math.max(0, (r[i][i] + 1) / 2)))
+    if (r[0][1] < 0) axis[1] = -axis[1]
+    if (r[0][2] < 0) axis[2] = -axis[2]
+    return axis.map((value) => value * angle)
+  }
+
+  const scale = angle / (2 * Math.sin(angle))
+  return [(r[2][1] - r[1][2]) * scale, (r[0][2] - r[2][0]) * scale, (r[1][0] - r[0][1]) * scale]
+}
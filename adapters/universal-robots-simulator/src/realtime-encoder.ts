@@ -0,0 +1,100 @@
+import { URSimulatorMessageSize } from './types'
+
+/**
+ * Everything one real-time message reports, in the controller's units
+ */
+export interface RealTimeSample {
+  timestamp: number // Seconds since the controller started
+  q: number[]
+  qd: number[]
+  qdd: number[]
+  current: number[]
+  toolPose: number[]
+  toolSpeed: number[]
+  tcpForce: number[]
+  elbowPosition: number[]
+  elbowVelocity: number[]
+  motorTemperatures: number[]
+  robotMode: number
+  jointMode: number
+  safetyMode: number
+  safetyStatus: number
+  programState: number
+  speedScaling: number
+  digitalInputs: number
+  digitalOutputs: number
+}
+
+const SUPPORTED_SIZES: URSimulatorMessageSize[] = [1044, 1060, 1108, 1116]
+
+const MAIN_VOLTAGE = 48
+const ROBOT_CURRENT_PER_JOINT = 0.4
+
+const six = (value: number) => Array(6).fill(value)
+
+/**
+ * Encode a port-30003 message. Older layouts are prefixes of the newest one, so smaller sizes
+ * are the same fields cut short.
+ */
+export function encodeRealTimeMessage(
+  sample: RealTimeSample,
+  messageSize: URSimulatorMessageSize = 1116
+): Buffer {
+  if (!SUPPORTED_SIZES.includes(messageSize)) {
+    throw new Error(`Unsupported real-time message size ${messageSize}`)
+  }
+
+  const fields: number[][] = [
+    [sample.timestamp],
+    sample.q, // q_target
+    sample.qd, // qd_target
+    sample.qdd, // qdd_target
+    sample.current, // i_target
+    six(0), // m_target
+    sample.q,
+    sample.qd,
+    sample.current, // i_actual
+    sample.current, // i_control
+    sample.toolPose,
+    sample.toolSpeed,
+    sample.tcpForce,
+    sample.toolPose, // tool_vector_target
+    sample.toolSpeed, // tcp_speed_target
+    [sample.digitalInputs],
+    sample.motorTemperatures,
+    [sample.timestamp], // controller_timer
+    [0], // test_value
+    [sample.robotMode],
+    six(sample.jointMode),
+    [sample.safetyMode],
+    six(0), // reserved
+    [0, 0, 9.81], // tool_accelerometer_values
+    six(0), // reserved
+    [sample.speedScaling],
+    [0], // linear_momentum_norm
+    [0, 0], // reserved
+    [MAIN_VOLTAGE], // v_main
+    [MAIN_VOLTAGE], // v_robot
+    [sample.current.reduce((sum, value) => sum + Math.abs(value), 0) + ROBOT_CURRENT_PER_JOINT * 6],
+    six(MAIN_VOLTAGE), // v_actual
+    [sample.digitalOutputs],
+    [sample.programState],
+    sample.elbowPosition,
+    sample.elbowVelocity,
+    [sample.safetyStatus],
+  ]
+
+  const message = Buffer.alloc(messageSize)
+  message.writeInt32BE(messageSize, 0)
+
+  let offset = 4
+  for (const value of fields.flat()) {
+    if (offset + 8 > messageSize) {
+      break
+    }
+    message.writeDoubleBE(value, offset)
+    offset += 8
+  }
+
+  return message
+}
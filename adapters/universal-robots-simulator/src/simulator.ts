@@ -0,0 +1,528 @@
+import * as net from 'net'
+import { forwardKinematics } from './kinematics'
+import { encodeRealTimeMessage, RealTimeSample } from './realtime-encoder'
+import {
+  URSimulatorFault,
+  URSimulatorOperationalMode,
+  URSimulatorOptions,
+  URSimulatorProgramState,
+  URSimulatorRobotMode,
+  URSimulatorSafetyMode,
+  URSimulatorState,
+} from './types'
+
+// Numeric codes the controller reports for each mode
+const ROBOT_MODES: Record<URSimulatorRobotMode, number> = {
+  BOOTING: 2,
+  POWER_OFF: 3,
+  POWER_ON: 4,
+  IDLE: 5,
+  RUNNING: 7,
+}
+
+const JOINT_MODES: Record<URSimulatorRobotMode, number> = {
+  BOOTING: 247,
+  POWER_OFF: 239,
+  POWER_ON: 247,
+  IDLE: 255,
+  RUNNING: 253,
+}
+
+const SAFETY_MODES: Record<URSimulatorSafetyMode, number> = {
+  NORMAL: 1,
+  PROTECTIVE_STOP: 3,
+  ROBOT_EMERGENCY_STOP: 7,
+  FAULT: 9,
+}
+
+const PROGRAM_STATES: Record<URSimulatorProgramState, number> = {
+  STOPPED: 1,
+  PLAYING: 2,
+  PAUSED: 4,
+}
+
+// Joints sweep around the home pose while a program plays
+const HOME = [0, -1.57, 1.57, -1.57, -1.57, 0]
+const AMPLITUDE = [0.6, 0.3, 0.4, 0.3, 0.3, 0.8]
+const MOTION_PERIOD = 8 // seconds
+
+const AMBIENT_TEMPERATURE = 25
+const IDLE_TEMPERATURE = 32
+const RUNNING_TEMPERATURE = 38
+const THERMAL_TIME_CONSTANT = 60 // seconds
+const HIGH_TEMPERATURE = 85
+
+const GREETING = 'Connected: Universal Robots Dashboard Server'
+
+/**
+ * Virtual UR controller serving the dashboard server and real-time interface, so adapters can
+ * be exercised without an arm. Tests drive it through the dashboard protocol and inject faults.
+ */
+export class URSimulator {
+  private options: Required<Omit<URSimulatorOptions, 'loadedProgram'>>
+  private dashboardServer?: net.Server
+  private realTimeServer?: net.Server
+  private dashboardClients = new Set<net.Socket>()
+  private realTimeClients = new Set<net.Socket>()
+  private ticker?: NodeJS.Timeout
+  private transitions = new Set<NodeJS.Timeout>()
+  private offlineUntil = 0
+
+  private robotMode: URSimulatorRobotMode
+  private safetyMode: URSimulatorSafetyMode = 'NORMAL'
+  private programState: URSimulatorProgramState = 'STOPPED'
+  private loadedProgram?: string
+  private operationalMode: URSimulatorOperationalMode = 'AUTOMATIC'
+  private speedScaling = 1
+  private time = 0
+  private programTime = 0
+  private q = [...HOME]
+  private qd = Array(6).fill(0)
+  private motorTemperatures = Array(6).fill(AMBIENT_TEMPERATURE)
+  private temperatureOverrides = new Map<number, number>()
+  private log: string[] = []
+
+  constructor(options: URSimulatorOptions = {}) {
+    this.options = {
+      host: options.host || '127.0.0.1',
+      dashboardPort: options.dashboardPort ?? 29999,
+      realTimePort: options.realTimePort ?? 30003,
+      frequency: options.frequency || 125,
+      messageSize: options.messageSize || 1116,
+      model: options.model || 'UR5',
+      serialNumber: options.serialNumber || '20235500001',
+      softwareVersion: options.softwareVersion || '5.11.6.1234',
+      robotMode: options.robotMode || 'POWER_OFF',
+      bootTime: options.bootTime ?? 500,
+    }
+    this.robotMode = this.options.robotMode
+    this.loadedProgram = options.loadedProgram
+  }
+
+  /**
+   * Start listening, resolves with the bound ports
+   */
+  async start(): Promise<{ dashboardPort: number; realTimePort: number }> {
+    this.dashboardServer = net.createServer((socket) => this.acceptDashboard(socket))
+    this.realTimeServer = net.createServer((socket) => this.acceptRealTime(socket))
+
+    const dashboardPort = await this.listen(this.dashboardServer, this.options.dashboardPort)
+    const realTimePort = await this.listen(this.realTimeServer, this.options.realTimePort)
+
+    const interval = 1000 / this.options.frequency
+    this.ticker = setInterval(() => this.tick(interval / 1000), interval)
+
+    console.log(
+      `UR simulator (${this.options.model}) listening on ${this.options.host}: ` +
+        `dashboard ${dashboardPort}, real-time ${realTimePort}`
+    )
+    return { dashboardPort, realTimePort }
+  }
+
+  async stop(): Promise<void> {
+    if (this.ticker) {
+      clearInterval(this.ticker)
+      this.ticker = undefined
+    }
+    this.clearTransitions()
+    this.dropClients()
+
+    await Promise.all(
+      [this.dashboardServer, this.realTimeServer].map(
+        (server) =>
+          new Promise<void>((resolve) =>
+            server?.listening ? server.close(() => resolve()) : resolve()
+          )
+      )
+    )
+    this.dashboardServer = undefined
+    this.realTimeServer = undefined
+  }
+
+  getState(): URSimulatorState {
+    return {
+      robotMode: this.robotMode,
+      safetyMode: this.safetyMode,
+      programState: this.programState,
+      loadedProgram: this.loadedProgram,
+      operationalMode: this.operationalMode,
+      speedScaling: this.speedScaling,
+      jointPositions: [...this.q],
+      jointVelocities: [...this.qd],
+      motorTemperatures: this.currentTemperatures(),
+      log: [...this.log],
+    }
+  }
+
+  injectFault(fault: URSimulatorFault): void {
+    switch (fault.type) {
+      case 'protective_stop':
+        // The controller pauses the program, it resumes with play once the stop is unlocked
+        this.safetyMode = 'PROTECTIVE_STOP'
+        if (this.programState === 'PLAYING') {
+          this.programState = 'PAUSED'
+        }
+        break
+
+      case 'emergency_stop':
+        this.safetyMode = 'ROBOT_EMERGENCY_STOP'
+        this.programState = 'STOPPED'
+        this.clearTransitions()
+        this.robotMode = 'POWER_OFF'
+        break
+
+      case 'disconnect':
+        this.offlineUntil = Date.now() + (fault.duration || 0)
+        this.dropClients()
+        break
+
+      case 'high_temperature': {
+        const joint = fault.joint || 1
+        if (joint < 1 || joint > 6) {
+          throw new Error(`Joint must be between 1 and 6, got ${joint}`)
+        }
+        this.temperatureOverrides.set(joint - 1, fault.temperature ?? HIGH_TEMPERATURE)
+        break
+      }
+    }
+
+    console.log(`UR simulator fault injected: ${fault.type}`)
+  }
+
+  /**
+   * Release an emergency stop, clear protective stops, temperatures and refused connections
+   */
+  clearFaults(): void {
+    this.safetyMode = 'NORMAL'
+    this.temperatureOverrides.clear()
+    this.offlineUntil = 0
+  }
+
+  private listen(server: net.Server, port: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(port, this.options.host, () => {
+        server.removeListener('error', reject)
+        resolve((server.address() as net.AddressInfo).port)
+      })
+    })
+  }
+
+  private accept(socket: net.Socket, clients: Set<net.Socket>): boolean {
+    socket.on('error', () => undefined)
+    if (Date.now() < this.offlineUntil) {
+      socket.destroy()
+      return false
+    }
+
+    clients.add(socket)
+    socket.on('close', () => clients.delete(socket))
+    return true
+  }
+
+  private acceptDashboard(socket: net.Socket): void {
+    if (!this.accept(socket, this.dashboardClients)) {
+      return
+    }
+
+    socket.write(`${GREETING}\n`)
+
+    let buffer = ''
+    socket.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString()
+      let newline = buffer.indexOf('\n')
+      while (newline !== -1) {
+        const command = buffer.slice(0, newline).trim()
+        buffer = buffer.slice(newline + 1)
+        newline = buffer.indexOf('\n')
+
+        socket.write(`${this.answer(command)}\n`)
+        if (command === 'quit') {
+          socket.end()
+          return
+        }
+      }
+    })
+  }
+
+  private acceptRealTime(socket: net.Socket): void {
+    this.accept(socket, this.realTimeClients)
+  }
+
+  private dropClients(): void {
+    for (const socket of [...this.dashboardClients, ...this.realTimeClients]) {
+      socket.destroy()
+    }
+    this.dashboardClients.clear()
+    this.realTimeClients.clear()
+  }
+
+  // Dashboard server protocol, responses as the e-Series controller words them
+
+  private answer(command: string): string {
+    const [keyword, ...rest] = command.split(' ')
+    const argument = rest.join(' ')
+
+    switch (command) {
+      case 'play':
+        if (!this.loadedProgram || this.robotMode !== 'RUNNING' || this.safetyMode !== 'NORMAL') {
+          return 'Failed to execute: play'
+        }
+        this.programState = 'PLAYING'
+        return 'Starting program'
+
+      case 'stop':
+        if (this.programState === 'STOPPED') {
+          return 'Failed to execute: stop'
+        }
+        this.programState = 'STOPPED'
+        return 'Stopped'
+
+      case 'pause':
+        if (this.programState !== 'PLAYING') {
+          return 'Failed to execute: pause'
+        }
+        this.programState = 'PAUSED'
+        return 'Pausing program'
+
+      case 'running':
+        return `Program running: ${this.programState === 'PLAYING'}`
+
+      case 'programState':
+        return `${this.programState} ${this.programName()}`
+
+      case 'get loaded program':
+        return this.loadedProgram ? `Loaded program: ${this.loadedProgram}` : 'No program loaded'
+
+      case 'robotmode':
+        return `Robotmode: ${this.robotMode}`
+
+      case 'safetymode':
+        return `Safetymode: ${this.safetyMode}`
+
+      case 'safetystatus':
+        return `Safetystatus: ${this.safetyMode}`
+
+      case 'power on':
+        if (this.robotMode === 'POWER_OFF') {
+          this.transition(['BOOTING', 'IDLE'])
+        }
+        return 'Powering on'
+
+      case 'power off':
+        this.clearTransitions()
+        this.robotMode = 'POWER_OFF'
+        this.programState = 'STOPPED'
+        return 'Powering off'
+
+      case 'brake release':
+        if (this.robotMode === 'POWER_OFF') {
+          this.transition(['BOOTING', 'IDLE', 'RUNNING'])
+        } else if (this.robotMode === 'IDLE') {
+          this.transition(['RUNNING'])
+        }
+        return 'Brake releasing'
+
+      case 'unlock protective stop':
+        if (this.safetyMode !== 'PROTECTIVE_STOP') {
+          return 'Cannot unlock protective stop, robot is not in protective stop'
+        }
+        this.safetyMode = 'NORMAL'
+        return 'Protective stop releasing'
+
+      case 'restart safety':
+        // The safety system comes back with the arm powered off
+        if (this.safetyMode === 'ROBOT_EMERGENCY_STOP') {
+          return 'Failed to execute: restart safety'
+        }
+        this.clearTransitions()
+        this.safetyMode = 'NORMAL'
+        this.robotMode = 'POWER_OFF'
+        this.programState = 'STOPPED'
+        return 'Restarting safety'
+
+      case 'close popup':
+        return 'closing popup'
+
+      case 'close safety popup':
+        return 'closing safety popup'
+
+      case 'get robot model':
+        return this.options.model
+
+      case 'get serial number':
+        return this.options.serialNumber
+
+      case 'PolyscopeVersion':
+        return `URSoftware ${this.options.softwareVersion} (Jan 01 2023)`
+
+      case 'get operational mode':
+        return this.operationalMode
+
+      case 'clear operational mode':
+        return (
+          'No longer controlling the operational mode. ' +
+          `Current operational mode: '${this.operationalMode.toLowerCase()}'.`
+        )
+
+      case 'is in remote control':
+        return 'true'
+
+      case 'shutdown':
+        this.clearTransitions()
+        this.robotMode = 'POWER_OFF'
+        this.programState = 'STOPPED'
+        return 'Shutting down'
+
+      case 'quit':
+        return 'Disconnected'
+    }
+
+    if (keyword === 'load' && rest[0] === 'installation') {
+      return `Loading installation: ${rest.slice(1).join(' ')}`
+    }
+
+    if (keyword === 'load' && argument) {
+      if (!argument.endsWith('.urp')) {
+        return `File not found: ${argument}`
+      }
+      this.loadedProgram = argument
+      this.programState = 'STOPPED'
+      return `Loading program: ${argument}`
+    }
+
+    if (command.startsWith('set operational mode ')) {
+      const mode = command.slice('set operational mode '.length).toUpperCase()
+      if (mode !== 'MANUAL' && mode !== 'AUTOMATIC') {
+        return `Failed setting operational mode: ${mode.toLowerCase()}`
+      }
+      this.operationalMode = mode
+      return `Operational mode '${mode.toLowerCase()}' is set`
+    }
+
+    if (keyword === 'addToLog') {
+      if (!argument) {
+        return 'No log message to add'
+      }
+      this.log.push(argument)
+      return 'Added log message'
+    }
+
+    if (keyword === 'popup') {
+      return 'showing popup'
+    }
+
+    return `could not understand: '${command}'`
+  }
+
+  private programName(): string {
+    return this.loadedProgram ? this.loadedProgram.split('/').pop()! : '<unnamed>'
+  }
+
+  // Walk through robot modes, one boot time apart
+  private transition(modes: URSimulatorRobotMode[]): void {
+    this.clearTransitions()
+    modes.forEach((mode, index) => {
+      const timer = setTimeout(
+        () => {
+          this.transitions.delete(timer)
+          this.robotMode = mode
+        },
+        index === 0 ? 0 : this.options.bootTime * index
+      )
+      this.transitions.add(timer)
+    })
+  }
+
+  private clearTransitions(): void {
+    this.transitions.forEach((timer) => clearTimeout(timer))
+    this.transitions.clear()
+  }
+
+  // Real-time interface
+
+  private tick(dt: number): void {
+    this.time += dt
+    const sample = this.step(dt)
+
+    if (this.realTimeClients.size === 0) {
+      return
+    }
+
+    const message = encodeRealTimeMessage(sample, this.options.messageSize)
+    this.realTimeClients.forEach((socket) => socket.write(message))
+  }
+
+  private step(dt: number): RealTimeSample {
+    const powered = this.robotMode !== 'POWER_OFF'
+    const moving =
+      this.robotMode === 'RUNNING' &&
+      this.safetyMode === 'NORMAL' &&
+      this.programState === 'PLAYING'
+
+    if (moving) {
+      this.programTime += dt * this.speedScaling
+    }
+
+    const omega = (2 * Math.PI) / MOTION_PERIOD
+    const offset = (joint: number) => joint * 0.5
+    const phase = (joint: number) => omega * this.programTime + offset(joint)
+
+    // Offset so the sweep starts at the home pose
+    this.q = HOME.map(
+      (home, joint) => home + AMPLITUDE[joint] * (Math.sin(phase(joint)) - Math.sin(offset(joint)))
+    )
+    this.qd = AMPLITUDE.map((amplitude, joint) =>
+      moving ? amplitude * omega * this.speedScaling * Math.cos(phase(joint)) : 0
+    )
+    const qdd = AMPLITUDE.map((amplitude, joint) =>
+      moving ? -amplitude * (omega * this.speedScaling) ** 2 * Math.sin(phase(joint)) : 0
+    )
+
+    // Motors warm up towards a level set by how hard they work
+    const target = !powered ? AMBIENT_TEMPERATURE : moving ? RUNNING_TEMPERATURE : IDLE_TEMPERATURE
+    const rate = Math.min(1, dt / THERMAL_TIME_CONSTANT)
+    this.motorTemperatures = this.motorTemperatures.map((value) => value + (target - value) * rate)
+
+    const current = this.qd.map((velocity) => (powered ? 0.5 + Math.abs(velocity) * 2 : 0))
+
+    return {
+      timestamp: this.time,
+      q: this.q,
+      qd: this.qd,
+      qdd,
+      current,
+      toolPose: forwardKinematics(this.q),
+      toolSpeed: this.velocityOf(6),
+      tcpForce: Array(6).fill(0),
+      elbowPosition: forwardKinematics(this.q, 2).slice(0, 3),
+      elbowVelocity: this.velocityOf(2).slice(0, 3),
+      motorTemperatures: this.currentTemperatures(),
+      robotMode: ROBOT_MODES[this.robotMode],
+      jointMode: JOINT_MODES[this.robotMode],
+      safetyMode: SAFETY_MODES[this.safetyMode],
+      safetyStatus: SAFETY_MODES[this.safetyMode],
+      programState: PROGRAM_STATES[this.programState],
+      speedScaling: this.speedScaling,
+      digitalInputs: 0,
+      digitalOutputs: 0,
+    }
+  }
+
+  // Cartesian velocity of a frame from a small step along the joint velocities
+  private velocityOf(links: number): number[] {
+    const epsilon = 1e-3
+    const now = forwardKinematics(this.q, links)
+    const next = forwardKinematics(
+      this.q.map((value, joint) => value + this.qd[joint] * epsilon),
+      links
+    )
+    return now.map((value, index) => (next[index] - value) / epsilon)
+  }
+
+  private currentTemperatures(): number[] {
+    return this.motorTemperatures.map(
+      (value, joint) => this.temperatureOverrides.get(joint) ?? value
+    )
+  }
+}
@@ -0,0 +1,48 @@
+// Virtual Universal Robots controller types
+
+export interface URSimulatorOptions {
+  host?: string // Default: 127.0.0.1
+  dashboardPort?: number // Default: 29999, 0 picks a free port
+  realTimePort?: number // Default: 30003, 0 picks a free port
+  frequency?: number // Real-time messages per second, default 125
+  messageSize?: URSimulatorMessageSize // Real-time layout, default 1116 (3.10+ and e-Series)
+  model?: string // Default: UR5
+  serialNumber?: string
+  softwareVersion?: string // Reported by PolyscopeVersion, default 5.11.6.1234
+  robotMode?: URSimulatorRobotMode // Mode at start, default POWER_OFF like a freshly booted arm
+  loadedProgram?: string
+  bootTime?: number // ms from power on to IDLE and from brake release to RUNNING, default 500
+}
+
+// Real-time message sizes of the CB3 3.0, 3.2, 3.5 and 3.10+/e-Series layouts
+export type URSimulatorMessageSize = 1044 | 1060 | 1108 | 1116
+
+export type URSimulatorRobotMode = 'POWER_OFF' | 'POWER_ON' | 'BOOTING' | 'IDLE' | 'RUNNING'
+
+export type URSimulatorSafetyMode = 'NORMAL' | 'PROTECTIVE_STOP' | 'ROBOT_EMERGENCY_STOP' | 'FAULT'
+
+export type URSimulatorProgramState = 'STOPPED' | 'PLAYING' | 'PAUSED'
+
+export type URSimulatorOperationalMode = 'MANUAL' | 'AUTOMATIC'
+
+export type URSimulatorFault =
+  | { type: 'protective_stop' }
+  | { type: 'emergency_stop' }
+  | { type: 'disconnect'; duration?: number } // ms to refuse new connections, default 0
+  | { type: 'high_temperature'; joint?: number; temperature?: number } // joint 1-6, °C
+
+/**
+ * Snapshot of the simulated controller
+ */
+export interface URSimulatorState {
+  robotMode: URSimulatorRobotMode
+  safetyMode: URSimulatorSafetyMode
+  programState: URSimulatorProgramState
+  loadedProgram?: string
+  operationalMode: URSimulatorOperationalMode
+  speedScaling: number
+  jointPositions: number[]
+  jointVelocities: number[]
+  motorTemperatures: number[]
+  log: string[]
+}
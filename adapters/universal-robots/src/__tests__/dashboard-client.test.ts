@@ -0,0 +1,119 @@
+import * as net from 'net'
+import { URDashboardClient } from '../dashboard-client'
+import { URRobotMode } from '../types'
+
+/**
+ * Dashboard server that greets on connect and answers from a command table. Powering on moves
+ * the robot through POWER_ON to IDLE on the following robotmode queries.
+ */
+class FakeDashboardServer {
+  received: string[] = []
+  robotModes = ['POWER_OFF']
+  responses: Record<string, string> = {
+    'power on': 'Powering on',
+    'brake release': 'Brake releasing',
+    'close popup': 'closing popup',
+    'get loaded program': 'Loaded program: /programs/pick.urp',
+    'load installation missing.installation': 'File not found: missing.installation',
+    safetystatus: 'Safetystatus: AUTOMATIC_MODE_SAFEGUARD_STOP',
+    'restart safety': 'Restarting safety',
+    'get operational mode': 'AUTOMATIC',
+    'setUserRole operator': 'Setting user role: operator',
+    'addToLog Shift change in cell 4': 'Added log message',
+  }
+  private server = net.createServer((socket) => this.handle(socket))
+
+  listen(): Promise<number> {
+    return new Promise((resolve) => {
+      this.server.listen(0, '127.0.0.1', () =>
+        resolve((this.server.address() as net.AddressInfo).port)
+      )
+    })
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()))
+  }
+
+  private handle(socket: net.Socket): void {
+    let buffer = ''
+    socket.on('error', () => undefined)
+    socket.write('Connected: Universal Robots Dashboard Server\n')
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString()
+      let newline = buffer.indexOf('\n')
+      while (newline !== -1) {
+        const command = buffer.slice(0, newline)
+        buffer = buffer.slice(newline + 1)
+        newline = buffer.indexOf('\n')
+        this.received.push(command)
+        socket.write(`${this.answer(command)}\n`)
+      }
+    })
+  }
+
+  private answer(command: string): string {
+    if (command === 'robotmode') {
+      const mode = this.robotModes.length > 1 ? this.robotModes.shift() : this.robotModes[0]
+      return `Robotmode: ${mode}`
+    }
+    if (command === 'power on') {
+      this.robotModes = ['POWER_ON', 'IDLE']
+    }
+    return this.responses[command] ?? `could not understand: '${command}'`
+  }
+}
+
+describe('URDashboardClient', () => {
+  let server: FakeDashboardServer
+  let client: URDashboardClient
+
+  beforeEach(async () => {
+    server = new FakeDashboardServer()
+    const port = await server.listen()
+    client = new URDashboardClient({ host: '127.0.0.1', dashboardPort: port, timeout: 1000 })
+    await client.connect()
+  })
+
+  afterEach(async () => {
+    await client.disconnect()
+    await server.close()
+  })
+
+  it('should answer concurrent commands in order after the greeting', async () => {
+    const [program, safetyStatus, mode] = await Promise.all([
+      client.getLoadedProgram(),
+      client.getSafetyStatus(),
+      client.getOperationalMode(),
+    ])
+
+    expect(program).toBe('/programs/pick.urp')
+    expect(safetyStatus).toBe('AUTOMATIC_MODE_SAFEGUARD_STOP')
+    expect(mode).toBe('AUTOMATIC')
+  })
+
+  it('should power up a robot from power off and release the brakes', async () => {
+    const result = await client.powerUp(5000)
+
+    expect(result).toEqual({ success: true, message: 'Brake releasing' })
+    expect(server.received.filter((command) => command !== 'robotmode')).toEqual([
+      'power on',
+      'brake release',
+    ])
+    expect(await client.getRobotMode()).toBe(URRobotMode.ROBOT_MODE_IDLE)
+  })
+
+  it('should report failures with the controller response', async () => {
+    expect(await client.loadInstallation('missing.installation')).toEqual({
+      success: false,
+      message: 'File not found: missing.installation',
+    })
+  })
+
+  it('should send user roles, log messages and safety restarts', async () => {
+    expect((await client.setUserRole('OPERATOR')).success).toBe(true)
+    expect((await client.addLogMessage('Shift change\nin cell 4')).success).toBe(true)
+    expect((await client.restartSafety()).success).toBe(true)
+    expect((await client.closePopup()).success).toBe(true)
+  })
+})
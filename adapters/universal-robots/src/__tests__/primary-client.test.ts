@@ -0,0 +1,182 @@
+import * as net from 'net'
+import { URPrimaryClient } from '../primary-client'
+import {
+  URErrorCodeMessage,
+  URMessageType,
+  URReportLevel,
+  URRobotMessage,
+  URRobotMessageType,
+} from '../types'
+
+const message = (type: URMessageType, payload: Buffer): Buffer => {
+  const header = Buffer.alloc(5)
+  header.writeInt32BE(5 + payload.length, 0)
+  header.writeUInt8(type, 4)
+  return Buffer.concat([header, payload])
+}
+
+const robotMessage = (type: URRobotMessageType, body: Buffer): Buffer => {
+  const header = Buffer.alloc(10)
+  header.writeBigUInt64BE(BigInt(123456), 0)
+  header.writeInt8(-2, 8)
+  header.writeUInt8(type, 9)
+  return message(URMessageType.ROBOT_MESSAGE, Buffer.concat([header, body]))
+}
+
+const versionMessage = (): Buffer => {
+  const name = Buffer.from('URControl')
+  const version = Buffer.alloc(10)
+  version.writeUInt8(5, 0)
+  version.writeUInt8(11, 1)
+  version.writeInt32BE(6, 2)
+  version.writeInt32BE(1234, 6)
+  return robotMessage(
+    URRobotMessageType.VERSION,
+    Buffer.concat([Buffer.from([name.length]), name, version, Buffer.from('01-01-2023')])
+  )
+}
+
+const errorCodeMessage = (code: number, argument: number, level: URReportLevel): Buffer => {
+  const body = Buffer.alloc(17)
+  body.writeInt32BE(code, 0)
+  body.writeInt32BE(argument, 4)
+  body.writeInt32BE(level, 8)
+  return robotMessage(
+    URRobotMessageType.ERROR_CODE,
+    Buffer.concat([body, Buffer.from('Joint 3 overcurrent')])
+  )
+}
+
+const runtimeExceptionMessage = (): Buffer => {
+  const body = Buffer.alloc(8)
+  body.writeInt32BE(12, 0)
+  body.writeInt32BE(4, 4)
+  return robotMessage(
+    URRobotMessageType.RUNTIME_EXCEPTION,
+    Buffer.concat([body, Buffer.from('name_error: pose_1')])
+  )
+}
+
+/**
+ * Primary port sends the version message on connect, secondary port records received script
+ */
+class FakeController {
+  script = ''
+  private clients: net.Socket[] = []
+  private primary = net.createServer((socket) => {
+    this.track(socket)
+    socket.write(versionMessage())
+  })
+  private secondary = net.createServer((socket) => {
+    this.track(socket)
+    socket.on('data', (chunk) => (this.script += chunk.toString()))
+  })
+
+  async listen(): Promise<{ primaryPort: number; secondaryPort: number }> {
+    const listen = (server: net.Server) =>
+      new Promise<number>((resolve) =>
+        server.listen(0, '127.0.0.1', () => resolve((server.address() as net.AddressInfo).port))
+      )
+    return { primaryPort: await listen(this.primary), secondaryPort: await listen(this.secondary) }
+  }
+
+  send(data: Buffer): void {
+    this.clients[0].write(data)
+  }
+
+  async close(): Promise<void> {
+    this.clients.forEach((socket) => socket.destroy())
+    await Promise.all(
+      [this.primary, this.secondary].map(
+        (server) => new Promise((resolve) => server.close(() => resolve(undefined)))
+      )
+    )
+  }
+
+  private track(socket: net.Socket): void {
+    socket.on('error', () => undefined)
+    this.clients.push(socket)
+  }
+}
+
+describe('URPrimaryClient', () => {
+  let controller: FakeController
+  let client: URPrimaryClient
+  let messages: URRobotMessage[]
+
+  const received = async (count: number) => {
+    while (messages.length < count) {
+      await new Promise((resolve) => setTimeout(resolve, 5))
+    }
+    return messages
+  }
+
+  beforeEach(async () => {
+    controller = new FakeController()
+    const ports = await controller.listen()
+    client = new URPrimaryClient({ host: '127.0.0.1', ...ports, timeout: 1000 })
+    messages = []
+    client.onMessage((message) => messages.push(message))
+    await client.connect()
+  })
+
+  afterEach(async () => {
+    await client.disconnect()
+    await controller.close()
+  })
+
+  it('should read the controller version sent on connect', async () => {
+    await received(1)
+
+    expect(client.getVersion()).toMatchObject({
+      projectName: 'URControl',
+      major: 5,
+      minor: 11,
+      bugfix: 6,
+      build: 1234,
+      buildDate: '01-01-2023',
+    })
+  })
+
+  it('should parse error codes and runtime exceptions, skipping robot state messages', async () => {
+    await received(1)
+    controller.send(
+      Buffer.concat([
+        message(URMessageType.ROBOT_STATE, Buffer.alloc(40)),
+        errorCodeMessage(204, 3, URReportLevel.FAULT),
+        runtimeExceptionMessage(),
+      ])
+    )
+
+    const [, error, exception] = await received(3)
+    expect(error).toMatchObject({
+      type: URRobotMessageType.ERROR_CODE,
+      code: 'C204A3',
+      reportLevel: URReportLevel.FAULT,
+      text: 'Joint 3 overcurrent',
+      timestamp: 123456,
+    } as Partial<URErrorCodeMessage>)
+    expect(exception).toMatchObject({ line: 12, column: 4, text: 'name_error: pose_1' })
+    expect(client.getConnectionInfo().messagesReceived).toBe(3)
+  })
+
+  it('should send URScript programs over the secondary interface', async () => {
+    await client.sendProgram('urfmp_move', 'movej([0, -1.57, 0, -1.57, 0, 0])\nsleep(0.5)')
+    await client.sendScript('set_digital_out(0, True)')
+
+    while (!controller.script.endsWith('True)\n')) {
+      await new Promise((resolve) => setTimeout(resolve, 5))
+    }
+    expect(controller.script).toBe(
+      'def urfmp_move():\n  movej([0, -1.57, 0, -1.57, 0, 0])\n  sleep(0.5)\nend\n' +
+        'set_digital_out(0, True)\n'
+    )
+    expect(client.getConnectionInfo().scriptConnected).toBe(true)
+  })
+
+  it('should reject program names URScript does not allow', async () => {
+    await expect(client.sendProgram('2nd-program', 'sleep(1)')).rejects.toThrow(
+      'Invalid URScript program name: 2nd-program'
+    )
+  })
+})
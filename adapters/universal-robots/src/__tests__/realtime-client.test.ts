@@ -0,0 +1,180 @@
+import * as net from 'net'
+import { URRealTimeClient } from '../realtime-client'
+import { detectRealTimeLayout, parseRealTimeMessage } from '../realtime-layouts'
+import { URRobotState } from '../types'
+
+// Doubles after the int32 header, per layout
+const CB2_1_8_DOUBLES = 101
+const CB3_3_2_DOUBLES = 132
+const E_SERIES_DOUBLES = 139
+
+const ROBOT_MODE_RUNNING = 7
+// robot_mode follows the same 94 doubles in CB2 1.7+ and CB3 layouts
+const ROBOT_MODE_INDEX = 94
+
+/**
+ * A message of the given layout with a recognizable timestamp, joint positions at 0.1..0.6 and,
+ * where the layout has it, robot mode RUNNING
+ */
+const message = (doubles: number, timestamp: number, size = 4 + doubles * 8): Buffer => {
+  const buffer = Buffer.alloc(size)
+  buffer.writeInt32BE(size, 0)
+  buffer.writeDoubleBE(timestamp, 4)
+  for (let joint = 0; joint < 6; joint++) {
+    // q_actual follows timestamp and five 6-vectors of targets
+    buffer.writeDoubleBE((joint + 1) / 10, 4 + (1 + 30 + joint) * 8)
+  }
+  buffer.writeDoubleBE(ROBOT_MODE_RUNNING, 4 + ROBOT_MODE_INDEX * 8)
+  return buffer
+}
+
+class FakeRealTimeServer {
+  private server = net.createServer((socket) => this.handle(socket))
+  private socket?: net.Socket
+  private connected?: () => void
+
+  listen(): Promise<number> {
+    return new Promise((resolve) => {
+      this.server.listen(0, '127.0.0.1', () =>
+        resolve((this.server.address() as net.AddressInfo).port)
+      )
+    })
+  }
+
+  close(): Promise<void> {
+    this.socket?.destroy()
+    return new Promise((resolve) => this.server.close(() => resolve()))
+  }
+
+  waitForClient(): Promise<void> {
+    return this.socket ? Promise.resolve() : new Promise((resolve) => (this.connected = resolve))
+  }
+
+  send(data: Buffer): void {
+    this.socket!.write(data)
+  }
+
+  private handle(socket: net.Socket): void {
+    socket.on('error', () => undefined)
+    this.socket = socket
+    this.connected?.()
+  }
+}
+
+describe('real-time layouts', () => {
+  it('should detect the controller generation from the message size', () => {
+    expect(detectRealTimeLayout(812)).toEqual({
+      controller: 'CB2',
+      firmware: '1.8',
+      messageSize: 812,
+    })
+    expect(detectRealTimeLayout(1060)).toMatchObject({ controller: 'CB3', firmware: '3.2-3.4' })
+    expect(detectRealTimeLayout(1116)).toMatchObject({ controller: 'CB3/e-Series' })
+    expect(detectRealTimeLayout(1220)).toMatchObject({ firmware: '3.10+, 5.x', messageSize: 1220 })
+    expect(detectRealTimeLayout(900)).toBeUndefined()
+  })
+
+  it('should only fill the fields the layout carries', () => {
+    const { state } = parseRealTimeMessage(message(CB2_1_8_DOUBLES, 12.5))
+
+    expect(state.timestamp).toBe(12.5)
+    expect(state.q_actual).toEqual([0.1, 0.2, 0.3, 0.4, 0.5, 0.6])
+    expect(state.robot_mode).toBe(ROBOT_MODE_RUNNING)
+    expect(state.safety_mode).toBeUndefined()
+  })
+
+  it('should reject truncated messages', () => {
+    expect(() => parseRealTimeMessage(message(CB3_3_2_DOUBLES, 1).subarray(0, 500))).toThrow(
+      'Real-time message truncated: 500 of 1060 bytes'
+    )
+  })
+})
+
+describe('URRealTimeClient', () => {
+  let server: FakeRealTimeServer
+  let client: URRealTimeClient
+  let states: URRobotState[]
+
+  const received = async (count: number) => {
+    while (states.length < count) {
+      await new Promise((resolve) => setTimeout(resolve, 5))
+    }
+    return states
+  }
+
+  beforeEach(async () => {
+    server = new FakeRealTimeServer()
+    const port = await server.listen()
+    client = new URRealTimeClient({ host: '127.0.0.1', realTimePort: port, timeout: 1000 })
+    states = []
+    client.onData((state) => states.push(state))
+    await client.connect()
+    await server.waitForClient()
+  })
+
+  afterEach(async () => {
+    await client.disconnect()
+    await server.close()
+  })
+
+  it('should split several messages delivered in one read', async () => {
+    server.send(Buffer.concat([message(E_SERIES_DOUBLES, 1), message(E_SERIES_DOUBLES, 2)]))
+
+    expect((await received(2)).map((state) => state.timestamp)).toEqual([1, 2])
+    expect(client.getConnectionInfo().layout).toEqual({
+      controller: 'CB3/e-Series',
+      firmware: '3.10+, 5.x',
+      messageSize: 1116,
+    })
+  })
+
+  it('should reassemble a message split across reads', async () => {
+    const data = message(CB3_3_2_DOUBLES, 3)
+    server.send(data.subarray(0, 2))
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    server.send(data.subarray(2, 600))
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    server.send(data.subarray(600))
+
+    expect((await received(1))[0].q_actual).toEqual([0.1, 0.2, 0.3, 0.4, 0.5, 0.6])
+    expect(await client.getRobotState()).toBe(states[0])
+  })
+
+  it('should resynchronize after bytes that are not a message', async () => {
+    server.send(Buffer.concat([Buffer.from([0xff, 0xff, 0x00]), message(CB3_3_2_DOUBLES, 4)]))
+
+    expect((await received(1))[0].timestamp).toBe(4)
+    expect(client.getConnectionInfo()).toMatchObject({
+      layout: { controller: 'CB3', messageSize: 1060 },
+      droppedBytes: 3,
+    })
+  })
+
+  it('should drop messages whose values cannot be real', async () => {
+    const corrupt = message(CB3_3_2_DOUBLES, 5)
+    corrupt.writeDoubleBE(NaN, 4 + 31 * 8)
+    server.send(Buffer.concat([corrupt, message(CB3_3_2_DOUBLES, 6)]))
+
+    expect((await received(1))[0].timestamp).toBe(6)
+    expect(client.getConnectionInfo().droppedMessages).toBe(1)
+  })
+
+  it('should accept the CB2 shutdown and safeguard stop robot modes only from CB2', async () => {
+    const withRobotMode = (doubles: number, timestamp: number, robotMode: number) => {
+      const data = message(doubles, timestamp)
+      data.writeDoubleBE(robotMode, 4 + ROBOT_MODE_INDEX * 8)
+      return data
+    }
+    server.send(
+      Buffer.concat([
+        withRobotMode(CB2_1_8_DOUBLES, 7, 9),
+        withRobotMode(CB2_1_8_DOUBLES, 8, 10),
+        withRobotMode(CB3_3_2_DOUBLES, 9, 10),
+        withRobotMode(CB3_3_2_DOUBLES, 10, 8),
+      ])
+    )
+
+    expect((await received(3)).map((state) => state.robot_mode)).toEqual([9, 10, 8])
+    expect(client.getConnectionInfo().droppedMessages).toBe(1)
+  })
+})
@@ -0,0 +1,251 @@
+import * as net from 'net'
+import { URRTDEClient } from '../rtde-client'
+import { RTDECommand, RTDESample } from '../types'
+
+const VARIABLE_TYPES: Record<string, string> = {
+  timestamp: 'DOUBLE',
+  actual_q: 'VECTOR6D',
+  actual_TCP_force: 'VECTOR6D',
+  safety_mode: 'INT32',
+  output_int_register_24: 'INT32',
+  input_int_register_24: 'INT32',
+  input_double_register_24: 'DOUBLE',
+}
+
+const OUTPUTS = [
+  'timestamp',
+  'actual_q',
+  'actual_TCP_force',
+  'safety_mode',
+  'output_int_register_24',
+]
+
+const OUTPUT_RECIPE_ID = 1
+const INPUT_RECIPE_ID = 2
+
+const frame = (type: number, payload: Buffer = Buffer.alloc(0)): Buffer => {
+  const header = Buffer.alloc(3)
+  header.writeUInt16BE(3 + payload.length, 0)
+  header.writeUInt8(type, 2)
+  return Buffer.concat([header, payload])
+}
+
+const doubles = (values: number[]): Buffer => {
+  const buffer = Buffer.alloc(values.length * 8)
+  values.forEach((value, index) => buffer.writeDoubleBE(value, index * 8))
+  return buffer
+}
+
+const int32 = (value: number): Buffer => {
+  const buffer = Buffer.alloc(4)
+  buffer.writeInt32BE(value, 0)
+  return buffer
+}
+
+const dataPackage = (): Buffer =>
+  frame(
+    RTDECommand.DATA_PACKAGE,
+    Buffer.concat([
+      Buffer.from([OUTPUT_RECIPE_ID]),
+      doubles([1234.5]),
+      doubles([0.1, -1.2, 1.3, -1.6, -1.5, 0.2]),
+      doubles([3, 4, 0, 0.1, 0.2, 0.3]),
+      int32(3),
+      int32(42),
+    ])
+  )
+
+/**
+ * Minimal RTDE controller: answers the handshake and streams one data package on start
+ */
+class FakeRTDEServer {
+  received: { type: number; payload: Buffer }[] = []
+  controllerMajor = 5
+  splitDataPackage = false
+  private server = net.createServer((socket) => this.handle(socket))
+
+  listen(): Promise<number> {
+    return new Promise((resolve) => {
+      this.server.listen(0, '127.0.0.1', () =>
+        resolve((this.server.address() as net.AddressInfo).port)
+      )
+    })
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()))
+  }
+
+  private handle(socket: net.Socket): void {
+    let buffer = Buffer.alloc(0)
+    // The client hangs up first, a reset is expected
+    socket.on('error', () => undefined)
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk])
+      while (buffer.length >= 3 && buffer.length >= buffer.readUInt16BE(0)) {
+        const size = buffer.readUInt16BE(0)
+        const type = buffer.readUInt8(2)
+        const payload = buffer.subarray(3, size)
+        buffer = buffer.subarray(size)
+        this.received.push({ type, payload })
+        this.reply(socket, type, payload)
+      }
+    })
+  }
+
+  private reply(socket: net.Socket, type: number, payload: Buffer): void {
+    const types = (names: string) =>
+      names
+        .split(',')
+        .map((name) => VARIABLE_TYPES[name] || 'NOT_FOUND')
+        .join(',')
+
+    switch (type) {
+      case RTDECommand.REQUEST_PROTOCOL_VERSION:
+        socket.write(frame(type, Buffer.from([payload.readUInt16BE(0) <= 2 ? 1 : 0])))
+        break
+      case RTDECommand.GET_URCONTROL_VERSION: {
+        const version = Buffer.alloc(16)
+        version.writeUInt32BE(this.controllerMajor, 0)
+        version.writeUInt32BE(11, 4)
+        socket.write(frame(type, version))
+        break
+      }
+      case RTDECommand.CONTROL_PACKAGE_SETUP_OUTPUTS:
+        socket.write(
+          frame(
+            type,
+            Buffer.concat([
+              Buffer.from([OUTPUT_RECIPE_ID]),
+              Buffer.from(types(payload.subarray(8).toString())),
+            ])
+          )
+        )
+        break
+      case RTDECommand.CONTROL_PACKAGE_SETUP_INPUTS:
+        socket.write(
+          frame(
+            type,
+            Buffer.concat([Buffer.from([INPUT_RECIPE_ID]), Buffer.from(types(payload.toString()))])
+          )
+        )
+        break
+      case RTDECommand.CONTROL_PACKAGE_START: {
+        socket.write(frame(type, Buffer.from([1])))
+        const data = dataPackage()
+        if (this.splitDataPackage) {
+          socket.write(data.subarray(0, 10))
+          setTimeout(() => socket.write(data.subarray(10)), 20)
+        } else {
+          socket.write(data)
+        }
+        break
+      }
+      case RTDECommand.CONTROL_PACKAGE_PAUSE:
+        socket.write(frame(type, Buffer.from([1])))
+        break
+    }
+  }
+}
+
+describe('URRTDEClient', () => {
+  let server: FakeRTDEServer
+  let client: URRTDEClient | undefined
+
+  const connect = async (frequency: number, outputs = OUTPUTS) => {
+    const port = await server.listen()
+    client = new URRTDEClient(
+      { host: '127.0.0.1', rtdePort: port, timeout: 1000 },
+      {
+        frequency,
+        outputs,
+      }
+    )
+
+    const sample = new Promise<RTDESample>((resolve) => client!.onData(resolve))
+    await client.connect()
+    return { client, sample }
+  }
+
+  beforeEach(() => {
+    server = new FakeRTDEServer()
+  })
+
+  afterEach(async () => {
+    await client?.disconnect()
+    client = undefined
+    await server.close()
+  })
+
+  it('should negotiate protocol v2 and set up the output recipe at the requested frequency', async () => {
+    const { client } = await connect(500)
+
+    const setup = server.received.find(
+      ({ type }) => type === RTDECommand.CONTROL_PACKAGE_SETUP_OUTPUTS
+    )!
+    expect(setup.payload.readDoubleBE(0)).toBe(500)
+    expect(setup.payload.subarray(8).toString()).toBe(OUTPUTS.join(','))
+
+    expect(client.getConnectionInfo()).toMatchObject({
+      connected: true,
+      running: true,
+      protocolVersion: 2,
+      maxFrequency: 500,
+      outputRecipes: [{ id: OUTPUT_RECIPE_ID, frequency: 500 }],
+    })
+  })
+
+  it('should map samples onto TelemetryData', async () => {
+    const { sample } = await connect(125)
+
+    expect((await sample).values.output_int_register_24).toBe(42)
+    expect(client!.getTelemetryData()).toMatchObject({
+      jointAngles: { joint1: 0.1, joint6: 0.2, unit: 'radians' },
+      force: { x: 3, y: 4, z: 0, magnitude: 5, unit: 'N' },
+      torque: { rx: 0.1, ry: 0.2, rz: 0.3 },
+      safety: { protectiveStop: true, emergencyStop: false },
+      custom: { output_int_register_24: 42 },
+    })
+  })
+
+  it('should reassemble data packages split across reads', async () => {
+    server.splitDataPackage = true
+    const { sample } = await connect(125)
+
+    expect((await sample).values.safety_mode).toBe(3)
+  })
+
+  it('should reject frequencies above what the controller supports', async () => {
+    server.controllerMajor = 3
+
+    await expect(connect(500)).rejects.toThrow(
+      'RTDE frequency must be between 1 and 125 Hz for this controller'
+    )
+  })
+
+  it('should reject outputs the controller does not know', async () => {
+    await expect(connect(125, ['actual_q', 'made_up_output'])).rejects.toThrow(
+      'RTDE output variables not found: made_up_output'
+    )
+  })
+
+  it('should set up an input recipe while paused and write register values', async () => {
+    const { client } = await connect(125)
+
+    await client.writeInputs({ input_int_register_24: 7, input_double_register_24: 0.25 })
+    await new Promise((resolve) => setTimeout(resolve, 20))
+
+    const types = server.received.map(({ type }) => type)
+    expect(types.slice(types.indexOf(RTDECommand.CONTROL_PACKAGE_PAUSE))).toEqual([
+      RTDECommand.CONTROL_PACKAGE_PAUSE,
+      RTDECommand.CONTROL_PACKAGE_SETUP_INPUTS,
+      RTDECommand.CONTROL_PACKAGE_START,
+      RTDECommand.DATA_PACKAGE,
+    ])
+
+    const input = server.received[server.received.length - 1].payload
+    expect(input.readUInt8(0)).toBe(INPUT_RECIPE_ID)
+    expect(input.readInt32BE(1)).toBe(7)
+    expect(input.readDoubleBE(5)).toBe(0.25)
+  })
+})
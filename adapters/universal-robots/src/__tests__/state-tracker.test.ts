@@ -0,0 +1,121 @@
+import { VendorEventType } from '@urfmp/types'
+import { URStateTracker } from '../state-tracker'
+import { URProgramState, URRobotMode, URRobotState, URSafetyMode } from '../types'
+
+const state = (timestamp: number, values: Partial<URRobotState> = {}): URRobotState =>
+  ({
+    timestamp,
+    robot_mode: URRobotMode.ROBOT_MODE_RUNNING,
+    safety_mode: URSafetyMode.SAFETY_MODE_NORMAL,
+    program_state: URProgramState.PLAYING,
+    speed_scaling: 1,
+    ...values,
+  }) as URRobotState
+
+describe('URStateTracker', () => {
+  let tracker: URStateTracker
+
+  beforeEach(() => {
+    tracker = new URStateTracker()
+  })
+
+  it('should take the first state as the baseline', () => {
+    expect(tracker.update(state(10))).toEqual([])
+    expect(tracker.update(state(10.008))).toEqual([])
+  })
+
+  it('should report a protective stop and its end with before, after and duration', () => {
+    tracker.update(state(10))
+
+    const stop = tracker.update(
+      state(12, {
+        safety_mode: URSafetyMode.SAFETY_MODE_PROTECTIVE_STOP,
+        program_state: URProgramState.PAUSED,
+      })
+    )
+    expect(stop).toEqual([
+      {
+        type: VendorEventType.SAFETY_VIOLATION,
+        property: 'safety_mode',
+        before: 'SAFETY_MODE_NORMAL',
+        after: 'SAFETY_MODE_PROTECTIVE_STOP',
+        duration: 2,
+        controllerTimestamp: 12,
+      },
+      expect.objectContaining({
+        type: VendorEventType.PROGRAM_PAUSED,
+        before: 'PLAYING',
+        after: 'PAUSED',
+      }),
+    ])
+
+    const cleared = tracker.update(state(42, { program_state: URProgramState.PAUSED }))
+    expect(cleared).toEqual([
+      expect.objectContaining({
+        type: VendorEventType.MODE_CHANGED,
+        before: 'SAFETY_MODE_PROTECTIVE_STOP',
+        after: 'SAFETY_MODE_NORMAL',
+        duration: 30,
+      }),
+    ])
+
+    expect(tracker.update(state(43))).toEqual([
+      expect.objectContaining({ type: VendorEventType.PROGRAM_RESUMED, after: 'PLAYING' }),
+    ])
+  })
+
+  it('should report emergency stops and robot mode changes', () => {
+    tracker.update(state(0))
+
+    const types = tracker
+      .update(
+        state(1, {
+          safety_mode: URSafetyMode.SAFETY_MODE_ROBOT_EMERGENCY_STOP,
+          robot_mode: URRobotMode.ROBOT_MODE_POWER_OFF,
+          program_state: URProgramState.STOPPED,
+        })
+      )
+      .map((transition) => transition.type)
+
+    expect(types).toEqual([
+      VendorEventType.EMERGENCY_STOP,
+      VendorEventType.MODE_CHANGED,
+      VendorEventType.PROGRAM_STOPPED,
+    ])
+  })
+
+  it('should skip transient program states', () => {
+    tracker.update(state(0, { program_state: URProgramState.STOPPED }))
+
+    expect(tracker.update(state(1, { program_state: URProgramState.RESUMING }))).toEqual([])
+    expect(tracker.update(state(2))).toEqual([
+      expect.objectContaining({
+        type: VendorEventType.PROGRAM_STARTED,
+        before: 'STOPPED',
+        after: 'PLAYING',
+      }),
+    ])
+  })
+
+  it('should report speed steps but not limiter jitter', () => {
+    tracker.update(state(0))
+
+    expect(tracker.update(state(1, { speed_scaling: 0.98 }))).toEqual([])
+    expect(tracker.update(state(2, { speed_scaling: 0.5 }))).toEqual([
+      expect.objectContaining({
+        type: VendorEventType.SPEED_CHANGED,
+        property: 'speed_scaling',
+        before: 1,
+        after: 0.5,
+      }),
+    ])
+  })
+
+  it('should not report fields the controller layout lacks', () => {
+    tracker.update(state(0, { safety_mode: undefined, program_state: undefined }))
+
+    expect(tracker.update(state(1, { safety_mode: undefined, program_state: undefined }))).toEqual(
+      []
+    )
+  })
+})
@@ -11,6 +11,8 @@ import {
   RobotInfo,
   EventCallback,
   EventSubscription,
+  VendorEvent,
+  VendorEventType,
   ValidationResult,
   VendorFeatures,
   ConnectionStatus,
@@ -30,16 +32,61 @@ import {
 } from '@urfmp/types'
 
 import { URDashboardClient } from './dashboard-client'
+import { createLinkStats, recordLinkError, sumLinkStats } from './link-stats'
+import { URPrimaryClient } from './primary-client'
 import { URRealTimeClient } from './realtime-client'
-import { URConfig, URRobotState, URRobotMode, URSafetyMode } from './types'
+import { URRTDEClient, mapRTDESampleToTelemetry } from './rtde-client'
+import { URStateTracker } from './state-tracker'
+import {
+  URConfig,
+  URLinkStats,
+  URRobotState,
+  URRobotMode,
+  URSafetyMode,
+  RTDEOptions,
+  URRobotMessage,
+  URRobotMessageType,
+  URReportLevel,
+  URStateTransition,
+} from './types'
+
+interface URConnectionClients {
+  dashboard: URDashboardClient
+  realTime: URRealTimeClient
+  rtde?: URRTDEClient
+  primary?: URPrimaryClient
+}
+
+// Supervision of one connection, outlives the clients a reconnect replaces
+interface URLink {
+  config: VendorConnectionConfig
+  urConfig: URConfig
+  heartbeatInterval: number
+  reconnectDelay: number
+  heartbeatTimer?: NodeJS.Timeout
+  reconnectTimer?: NodeJS.Timeout
+  reconnectAttempt: number
+  reconnects: number
+  upSince?: Date
+  // Traffic of clients retired by reconnects plus heartbeat and reconnect failures
+  history: URLinkStats
+}
+
+const DEFAULT_HEARTBEAT_INTERVAL = 5000
+const DEFAULT_RECONNECT_DELAY = 1000
+const MAX_RECONNECT_DELAY = 30000
 
 export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotVendorAdapter {
   vendor = RobotVendor.UNIVERSAL_ROBOTS
 
-  private dashboardClient?: URDashboardClient
-  private realTimeClient?: URRealTimeClient
+  // One set of clients per connection, so a single adapter can drive several robots
+  private clients = new Map<string, URConnectionClients>()
   private connections = new Map<string, VendorConnection>()
+  private links = new Map<string, URLink>()
   private eventSubscriptions = new Map<string, EventSubscription>()
+  private eventCallbacks = new Map<string, EventCallback>()
+  // Kept across reconnects, so a stop while the link was down is still reported
+  private stateTrackers = new Map<string, URStateTracker>()
 
   async connect(config: VendorConnectionConfig): Promise<VendorConnection> {
     const validation = this.validateConfig(config)
@@ -55,9 +102,12 @@ export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotV
       realTimePort: config.options?.realTimePort || 30003,
       primaryPort: config.options?.primaryPort || 30001,
       secondaryPort: config.options?.secondaryPort || 30002,
+      rtdePort: config.options?.rtdePort || 30004,
       timeout: config.timeout || 5000,
       username: config.authentication?.credentials?.username,
       password: config.authentication?.credentials?.password,
+      // The heartbeat notices a dropped link and reconnects every client together
+      autoReconnect: false,
     }
 
     // Create connection object
@@ -65,21 +115,41 @@ export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotV
     connection.status = ConnectionStatus.CONNECTING
 
     try {
-      // Initialize Dashboard client for robot control
-      this.dashboardClient = new URDashboardClient(urConfig)
-      await this.dashboardClient.connect()
+      const clients = await this.openClients(config, urConfig)
 
-      // Initialize Real-time client for telemetry
-      this.realTimeClient = new URRealTimeClient(urConfig)
-      await this.realTimeClient.connect()
+      // Get robot information, and the first real-time state as the baseline state transitions
+      // are detected against, so a stop right after connecting is not missed
+      const tracker = new URStateTracker()
+      let robotInfo
+      try {
+        robotInfo = await clients.dashboard.getRobotInfo()
+        tracker.update(await clients.realTime.getRobotState())
+      } catch (error) {
+        await this.closeClients(clients)
+        throw error
+      }
 
-      // Get robot information
-      const robotInfo = await this.dashboardClient.getRobotInfo()
       connection.robotId = robotInfo.serialNumber || `ur-${Date.now()}`
       connection.status = ConnectionStatus.CONNECTED
       connection.connectedAt = new Date()
+      connection.lastHeartbeat = connection.connectedAt
+
+      const link: URLink = {
+        config,
+        urConfig,
+        heartbeatInterval: config.options?.heartbeatInterval || DEFAULT_HEARTBEAT_INTERVAL,
+        reconnectDelay: config.options?.reconnectDelay || DEFAULT_RECONNECT_DELAY,
+        reconnectAttempt: 0,
+        reconnects: 0,
+        upSince: connection.connectedAt,
+        history: createLinkStats(),
+      }
 
       this.connections.set(connection.id, connection)
+      this.links.set(connection.id, link)
+      this.stateTrackers.set(connection.id, tracker)
+      this.attachClients(connection.id, clients)
+      this.scheduleHeartbeat(connection.id, link)
 
       console.log(`✅ Connected to Universal Robot at ${config.host}`)
       return connection
@@ -95,19 +165,26 @@ export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotV
       throw new Error(`Connection ${connectionId} not found`)
     }
 
-    try {
-      if (this.dashboardClient) {
-        await this.dashboardClient.disconnect()
-        this.dashboardClient = undefined
-      }
+    const link = this.links.get(connectionId)
+    if (link) {
+      clearTimeout(link.heartbeatTimer)
+      clearTimeout(link.reconnectTimer)
+      this.links.delete(connectionId)
+    }
 
-      if (this.realTimeClient) {
-        await this.realTimeClient.disconnect()
-        this.realTimeClient = undefined
+    try {
+      const clients = this.clients.get(connectionId)
+      if (clients) {
+        if (link) {
+          this.updateMetrics(connection, link, clients)
+        }
+        this.clients.delete(connectionId)
+        await this.closeClients(clients)
       }
 
       connection.status = ConnectionStatus.DISCONNECTED
       this.connections.delete(connectionId)
+      this.stateTrackers.delete(connectionId)
 
       console.log(`✅ Disconnected from Universal Robot (${connectionId})`)
     } catch (error) {
@@ -118,10 +195,12 @@ export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotV
 
   async sendCommand(connectionId: string, command: RobotCommand): Promise<CommandResult> {
     const connection = this.connections.get(connectionId)
-    if (!connection || !this.dashboardClient) {
+    const clients = this.clients.get(connectionId)
+    if (!connection || !clients) {
       throw new Error(`Connection ${connectionId} not available`)
     }
 
+    const dashboardClient = clients.dashboard
     const startTime = Date.now()
 
     try {
@@ -129,51 +208,73 @@ export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotV
 
       switch (command.type) {
         case RobotCommandType.START:
-          result = await this.dashboardClient.play()
+          result = await dashboardClient.play()
           break
 
         case RobotCommandType.STOP:
-          result = await this.dashboardClient.stop()
+          result = await dashboardClient.stop()
           break
 
         case RobotCommandType.PAUSE:
-          result = await this.dashboardClient.pause()
+          result = await dashboardClient.pause()
           break
 
         case RobotCommandType.RESUME:
-          result = await this.dashboardClient.play()
+          result = await dashboardClient.play()
           break
 
         case RobotCommandType.EMERGENCY_STOP:
-          result = await this.dashboardClient.emergencyStop()
+          result = await dashboardClient.emergencyStop()
           break
 
         case RobotCommandType.RESET:
-          result = await this.dashboardClient.unlockProtectiveStop()
+          result = await dashboardClient.unlockProtectiveStop()
           break
 
         case RobotCommandType.MOVE_TO_POSITION:
           if (!command.payload?.position) {
             throw new Error('Position is required for MOVE_TO_POSITION command')
           }
-          result = await this.dashboardClient.moveToPosition(command.payload.position)
+          result = await dashboardClient.moveToPosition(command.payload.position)
           break
 
         case RobotCommandType.RUN_PROGRAM:
           if (!command.payload?.programName) {
             throw new Error('Program name is required for RUN_PROGRAM command')
           }
-          result = await this.dashboardClient.loadProgram(command.payload.programName)
+          result = await dashboardClient.loadProgram(command.payload.programName)
           if (result.success) {
-            result = await this.dashboardClient.play()
+            result = await dashboardClient.play()
           }
           break
 
+        case RobotCommandType.LOAD_PROGRAM:
+          if (!command.payload?.programName) {
+            throw new Error('Program name is required for LOAD_PROGRAM command')
+          }
+          result = await dashboardClient.loadProgram(command.payload.programName)
+          break
+
         case RobotCommandType.SET_SPEED:
           if (!command.payload?.speed) {
             throw new Error('Speed is required for SET_SPEED command')
           }
-          result = await this.dashboardClient.setSpeed(command.payload.speed)
+          result = await dashboardClient.setSpeed(command.payload.speed)
+          break
+
+        case RobotCommandType.CUSTOM:
+          if (command.payload?.action) {
+            result = await this.runDashboardAction(dashboardClient, command.payload)
+            break
+          }
+          if (!command.payload?.script) {
+            throw new Error('URScript or a dashboard action is required for CUSTOM command')
+          }
+          if (!clients.primary) {
+            throw new Error('Sending URScript requires options.primaryInterface')
+          }
+          await clients.primary.sendScript(command.payload.script)
+          result = { success: true, message: 'Script sent' }
           break
 
         default:
@@ -183,7 +284,7 @@ export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotV
       const executionTime = Date.now() - startTime
 
       return {
-        success: result.success || true,
+        success: result.success ?? true,
         commandId: command.id || `cmd-${Date.now()}`,
         result,
         executionTime,
@@ -204,12 +305,30 @@ export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotV
 
   async getTelemetry(connectionId: string): Promise<RobotTelemetry> {
     const connection = this.connections.get(connectionId)
-    if (!connection || !this.realTimeClient) {
+    const clients = this.clients.get(connectionId)
+    if (!connection || !clients) {
       throw new Error(`Connection ${connectionId} not available`)
     }
 
+    // Prefer the RTDE stream when it is enabled and has delivered a sample
+    const rtdeSample = clients.rtde?.getLatestSample()
+    if (clients.rtde && rtdeSample) {
+      const recipe = clients.rtde.getConnectionInfo().outputRecipes[0]
+      return {
+        id: `tel-${Date.now()}`,
+        robotId: connection.robotId,
+        timestamp: rtdeSample.receivedAt,
+        data: mapRTDESampleToTelemetry(rtdeSample),
+        metadata: {
+          source: TelemetrySource.ROBOT_CONTROLLER,
+          quality: DataQuality.HIGH,
+          samplingRate: recipe?.frequency,
+        },
+      }
+    }
+
     try {
-      const robotState = await this.realTimeClient.getRobotState()
+      const robotState = await clients.realTime.getRobotState()
       return this.convertToStandardTelemetry(connection.robotId, robotState)
     } catch (error) {
       throw new Error(`Failed to get telemetry: ${(error as Error).message}`)
@@ -218,13 +337,14 @@ export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotV
 
   async getRobotInfo(connectionId: string): Promise<RobotInfo> {
     const connection = this.connections.get(connectionId)
-    if (!connection || !this.dashboardClient) {
+    const dashboardClient = this.clients.get(connectionId)?.dashboard
+    if (!connection || !dashboardClient) {
       throw new Error(`Connection ${connectionId} not available`)
     }
 
     try {
-      const robotInfo = await this.dashboardClient.getRobotInfo()
-      const safetyInfo = await this.dashboardClient.getSafetyInfo()
+      const robotInfo = await dashboardClient.getRobotInfo()
+      const safetyInfo = await dashboardClient.getSafetyInfo()
 
       return {
         model: robotInfo.model || 'Universal Robot',
@@ -251,7 +371,8 @@ export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotV
     callback: EventCallback
   ): Promise<EventSubscription> {
     const connection = this.connections.get(connectionId)
-    if (!connection || !this.realTimeClient) {
+    const clients = this.clients.get(connectionId)
+    if (!connection || !clients) {
       throw new Error(`Connection ${connectionId} not available`)
     }
 
@@ -271,15 +392,8 @@ export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotV
       updatedAt: new Date(),
     }
 
-    // Set up real-time data streaming
-    this.realTimeClient.onData((robotState: URRobotState) => {
-      if (subscription.active) {
-        const events = this.extractEvents(connection.robotId, robotState)
-        events.forEach((event) => callback(event))
-      }
-    })
-
     this.eventSubscriptions.set(subscriptionId, subscription)
+    this.eventCallbacks.set(subscriptionId, callback)
     return subscription
   }
 
@@ -288,6 +402,7 @@ export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotV
     if (subscription) {
       subscription.active = false
       this.eventSubscriptions.delete(subscriptionId)
+      this.eventCallbacks.delete(subscriptionId)
     }
   }
 
@@ -316,12 +431,21 @@ export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotV
       (config.options.dashboardPort < 1024 || config.options.dashboardPort > 65535)
     ) {
       errors.push({
-        field: 'dashboardPort',
+        field: 'options.dashboardPort',
         message: 'Dashboard port should be between 1024 and 65535',
         code: 'INVALID_PORT_RANGE',
       })
     }
 
+    const rtdeFrequency = config.options?.rtde?.frequency
+    if (rtdeFrequency !== undefined && !(rtdeFrequency > 0 && rtdeFrequency <= 500)) {
+      errors.push({
+        field: 'options.rtde.frequency',
+        message: 'RTDE frequency should be between 1 and 500 Hz',
+        code: 'INVALID_RTDE_FREQUENCY',
+      })
+    }
+
     return {
       valid: errors.length === 0,
       errors,
@@ -344,6 +468,7 @@ export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotV
       customFeatures: [
         'dashboard_api',
         'real_time_interface',
+        'rtde_interface',
         'primary_interface',
         'secondary_interface',
         'freedrive_mode',
@@ -355,6 +480,232 @@ export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotV
 
   // Helper methods
 
+  private async openClients(
+    config: VendorConnectionConfig,
+    urConfig: URConfig
+  ): Promise<URConnectionClients> {
+    const opened: URConnectionClients = {
+      // Initialize Dashboard client for robot control
+      dashboard: new URDashboardClient(urConfig),
+      // Initialize Real-time client for telemetry
+      realTime: new URRealTimeClient(urConfig),
+    }
+
+    // RTDE is opt-in via options.rtde, true or RTDEOptions, controllers before 3.4 lack it
+    if (config.options?.rtde) {
+      const rtdeOptions: RTDEOptions = config.options.rtde === true ? {} : config.options.rtde
+      opened.rtde = new URRTDEClient(urConfig, rtdeOptions)
+    }
+
+    // Primary interface robot messages and URScript over the secondary interface, opt-in via
+    // options.primaryInterface
+    if (config.options?.primaryInterface) {
+      opened.primary = new URPrimaryClient(urConfig)
+    }
+
+    try {
+      await opened.dashboard.connect()
+      await opened.realTime.connect()
+      await opened.rtde?.connect()
+      await opened.primary?.connect()
+      return opened
+    } catch (error) {
+      // Release the interfaces that did open, a failed attempt must not leak sockets
+      await this.closeClients(opened)
+      throw error
+    }
+  }
+
+  private async closeClients(clients: URConnectionClients): Promise<void> {
+    await clients.dashboard.disconnect()
+    await clients.realTime.disconnect()
+    await clients.rtde?.disconnect()
+    await clients.primary?.disconnect()
+  }
+
+  // Route the streams of a fresh set of clients to the connection's subscriptions
+  private attachClients(connectionId: string, clients: URConnectionClients): void {
+    const connection = this.connections.get(connectionId)!
+    this.clients.set(connectionId, clients)
+
+    // Safety mode, robot mode, program state and speed changes in the real-time stream
+    const tracker = this.stateTrackers.get(connectionId)!
+    clients.realTime.onData((robotState: URRobotState) => {
+      for (const transition of tracker.update(robotState)) {
+        this.dispatchEvent(connectionId, this.toTransitionEvent(connection.robotId, transition))
+      }
+    })
+
+    // Controller error codes and runtime exceptions as the controller reports them. Safety mode
+    // messages are left to the tracker above so a stop is reported once.
+    clients.primary?.onMessage((message: URRobotMessage) => {
+      const event = this.toVendorEvent(connection.robotId, message)
+      if (event) {
+        this.dispatchEvent(connectionId, event)
+      }
+    })
+  }
+
+  private dispatchEvent(connectionId: string, event: VendorEvent): void {
+    for (const [subscriptionId, subscription] of this.eventSubscriptions) {
+      if (subscription.active && subscription.connectionId === connectionId) {
+        this.eventCallbacks.get(subscriptionId)?.(event)
+      }
+    }
+  }
+
+  private scheduleHeartbeat(connectionId: string, link: URLink): void {
+    link.heartbeatTimer = setTimeout(() => {
+      this.heartbeat(connectionId, link).catch((error) => {
+        console.error(`UR heartbeat failed: ${(error as Error).message}`)
+      })
+    }, link.heartbeatInterval)
+  }
+
+  /**
+   * Check every interface is up and the Dashboard Server answers, then refresh the metrics. A
+   * link that fails the check is dropped and reconnected.
+   */
+  private async heartbeat(connectionId: string, link: URLink): Promise<void> {
+    link.heartbeatTimer = undefined
+    const connection = this.connections.get(connectionId)
+    const clients = this.clients.get(connectionId)
+    if (!connection || !clients || this.links.get(connectionId) !== link) {
+      return
+    }
+
+    const down = [clients.dashboard, clients.realTime, clients.rtde, clients.primary].some(
+      (client) => client && !client.isConnected()
+    )
+
+    try {
+      if (down) {
+        throw new Error('interface closed')
+      }
+
+      await clients.dashboard.getRobotMode()
+    } catch (error) {
+      if (this.links.get(connectionId) === link) {
+        await this.handleLinkLost(connection, link, clients, (error as Error).message)
+      }
+      return
+    }
+
+    if (this.links.get(connectionId) !== link) {
+      return
+    }
+
+    connection.lastHeartbeat = new Date()
+    this.updateMetrics(connection, link, clients)
+    this.scheduleHeartbeat(connectionId, link)
+  }
+
+  private async handleLinkLost(
+    connection: VendorConnection,
+    link: URLink,
+    clients: URConnectionClients,
+    reason: string
+  ): Promise<void> {
+    console.warn(`Link to Universal Robot at ${link.config.host} lost: ${reason}`)
+
+    link.history = sumLinkStats([link.history, ...this.getClientStats(clients)])
+    recordLinkError(link.history)
+    link.upSince = undefined
+    connection.status = ConnectionStatus.RECONNECTING
+    this.updateMetrics(connection, link)
+
+    this.clients.delete(connection.id)
+    await this.closeClients(clients)
+    this.scheduleReconnect(connection, link)
+  }
+
+  // Exponential backoff from options.reconnectDelay, up to config.retryAttempts tries in a row
+  private scheduleReconnect(connection: VendorConnection, link: URLink): void {
+    const maxAttempts = link.config.retryAttempts ?? 3
+    if (link.reconnectAttempt >= maxAttempts) {
+      console.error(
+        `Giving up on Universal Robot at ${link.config.host} after ${maxAttempts} reconnect attempts`
+      )
+      connection.status = ConnectionStatus.ERROR
+      return
+    }
+
+    const delay = Math.min(link.reconnectDelay * 2 ** link.reconnectAttempt, MAX_RECONNECT_DELAY)
+    link.reconnectAttempt++
+
+    link.reconnectTimer = setTimeout(() => {
+      link.reconnectTimer = undefined
+      this.reconnect(connection, link).catch((error) => {
+        console.error(`UR reconnect failed: ${(error as Error).message}`)
+      })
+    }, delay)
+  }
+
+  private async reconnect(connection: VendorConnection, link: URLink): Promise<void> {
+    let clients: URConnectionClients
+    try {
+      clients = await this.openClients(link.config, link.urConfig)
+    } catch (error) {
+      if (this.links.get(connection.id) !== link) {
+        return
+      }
+
+      console.warn(
+        `Reconnect ${link.reconnectAttempt} to Universal Robot at ${link.config.host} failed: ` +
+          (error as Error).message
+      )
+      recordLinkError(link.history)
+      this.updateMetrics(connection, link)
+      this.scheduleReconnect(connection, link)
+      return
+    }
+
+    // Disconnected while the attempt was in flight
+    if (this.links.get(connection.id) !== link) {
+      await this.closeClients(clients)
+      return
+    }
+
+    link.reconnectAttempt = 0
+    link.reconnects++
+    link.upSince = new Date()
+    connection.status = ConnectionStatus.CONNECTED
+    connection.lastHeartbeat = link.upSince
+    this.attachClients(connection.id, clients)
+    this.updateMetrics(connection, link, clients)
+    this.scheduleHeartbeat(connection.id, link)
+
+    console.log(`✅ Reconnected to Universal Robot at ${link.config.host}`)
+  }
+
+  private getClientStats(clients: URConnectionClients): URLinkStats[] {
+    return [clients.dashboard, clients.realTime, clients.rtde, clients.primary]
+      .filter((client) => client !== undefined)
+      .map((client) => client!.getLinkStats())
+  }
+
+  // Connection metrics cover its whole lifetime, uptime only the current link
+  private updateMetrics(
+    connection: VendorConnection,
+    link: URLink,
+    clients?: URConnectionClients
+  ): void {
+    const stats = sumLinkStats([link.history, ...(clients ? this.getClientStats(clients) : [])])
+    const latency = clients?.dashboard.getLinkStats().averageLatency
+
+    Object.assign(connection.metrics, {
+      uptime: link.upSince ? Math.round((Date.now() - link.upSince.getTime()) / 1000) : 0,
+      messagesReceived: stats.messagesReceived,
+      messagesSent: stats.messagesSent,
+      bytesReceived: stats.bytesReceived,
+      bytesSent: stats.bytesSent,
+      averageLatency: latency ?? connection.metrics.averageLatency,
+      errorCount: stats.errors,
+      lastErrorAt: stats.lastErrorAt,
+      reconnects: link.reconnects,
+    })
+  }
+
   private convertToStandardTelemetry(robotId: string, robotState: URRobotState): RobotTelemetry {
     return {
       id: `tel-${Date.now()}`,
@@ -440,38 +791,46 @@ export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotV
           },
           unit: TemperatureUnit.CELSIUS,
         },
-        voltage: {
-          supply: robotState.v_main,
-          motor: {
-            joint1: robotState.v_actual[0],
-            joint2: robotState.v_actual[1],
-            joint3: robotState.v_actual[2],
-            joint4: robotState.v_actual[3],
-            joint5: robotState.v_actual[4],
-            joint6: robotState.v_actual[5],
+        // Voltages, robot current and safety mode are missing from CB2 and early CB3 layouts
+        ...(robotState.v_main !== undefined &&
+          robotState.v_actual && {
+            voltage: {
+              supply: robotState.v_main,
+              motor: {
+                joint1: robotState.v_actual[0],
+                joint2: robotState.v_actual[1],
+                joint3: robotState.v_actual[2],
+                joint4: robotState.v_actual[3],
+                joint5: robotState.v_actual[4],
+                joint6: robotState.v_actual[5],
+              },
+              unit: VoltageUnit.VOLTS,
+            },
+          }),
+        ...(robotState.i_robot !== undefined && {
+          current: {
+            total: robotState.i_robot,
+            motor: {
+              joint1: robotState.i_actual[0],
+              joint2: robotState.i_actual[1],
+              joint3: robotState.i_actual[2],
+              joint4: robotState.i_actual[3],
+              joint5: robotState.i_actual[4],
+              joint6: robotState.i_actual[5],
+            },
+            unit: CurrentUnit.AMPERES,
           },
-          unit: VoltageUnit.VOLTS,
-        },
-        current: {
-          total: robotState.i_robot,
-          motor: {
-            joint1: robotState.i_actual[0],
-            joint2: robotState.i_actual[1],
-            joint3: robotState.i_actual[2],
-            joint4: robotState.i_actual[3],
-            joint5: robotState.i_actual[4],
-            joint6: robotState.i_actual[5],
+        }),
+        ...(robotState.safety_mode !== undefined && {
+          safety: {
+            emergencyStop:
+              robotState.safety_mode === URSafetyMode.SAFETY_MODE_ROBOT_EMERGENCY_STOP ||
+              robotState.safety_mode === URSafetyMode.SAFETY_MODE_SYSTEM_EMERGENCY_STOP,
+            protectiveStop: robotState.safety_mode === URSafetyMode.SAFETY_MODE_PROTECTIVE_STOP,
+            reducedMode: robotState.safety_mode === URSafetyMode.SAFETY_MODE_REDUCED,
+            safetyZoneViolation: robotState.safety_mode === URSafetyMode.SAFETY_MODE_VIOLATION,
           },
-          unit: CurrentUnit.AMPERES,
-        },
-        safety: {
-          emergencyStop:
-            robotState.safety_mode === URSafetyMode.SAFETY_MODE_ROBOT_EMERGENCY_STOP ||
-            robotState.safety_mode === URSafetyMode.SAFETY_MODE_SYSTEM_EMERGENCY_STOP,
-          protectiveStop: robotState.safety_mode === URSafetyMode.SAFETY_MODE_PROTECTIVE_STOP,
-          reducedMode: robotState.safety_mode === URSafetyMode.SAFETY_MODE_REDUCED,
-          safetyZoneViolation: robotState.safety_mode === URSafetyMode.SAFETY_MODE_VIOLATION,
-        },
+        }),
       },
       metadata: {
         source: TelemetrySource.ROBOT_CONTROLLER,
@@ -592,12 +951,113 @@ export class UniversalRobotsAdapter extends BaseVendorAdapter implements IRobotV
     return specs
   }
 
-  private extractEvents(_robotId: string, _robotState: URRobotState): any[] {
-    const events: any[] = []
+  // Dashboard server commands without a RobotCommandType of their own, sent as CUSTOM { action }
+  private async runDashboardAction(
+    dashboard: URDashboardClient,
+    payload: Record<string, any>
+  ): Promise<any> {
+    const required = (field: string) => {
+      if (!payload[field]) {
+        throw new Error(`${field} is required for the ${payload.action} action`)
+      }
+      return payload[field]
+    }
+
+    switch (payload.action) {
+      case 'power_on':
+        return dashboard.powerOn()
+      case 'power_off':
+        return dashboard.powerOff()
+      case 'power_up':
+        return dashboard.powerUp(payload.timeout)
+      case 'brake_release':
+        return dashboard.brakeRelease()
+      case 'close_popup':
+        return dashboard.closePopup()
+      case 'close_safety_popup':
+        return dashboard.closeSafetyPopup()
+      case 'get_loaded_program':
+        return { success: true, program: await dashboard.getLoadedProgram() }
+      case 'load_installation':
+        return dashboard.loadInstallation(required('installation'))
+      case 'get_safety_status':
+        return { success: true, safetyStatus: await dashboard.getSafetyStatus() }
+      case 'restart_safety':
+        return dashboard.restartSafety()
+      case 'get_operational_mode':
+        return { success: true, operationalMode: await dashboard.getOperationalMode() }
+      case 'set_operational_mode':
+        return dashboard.setOperationalMode(required('mode'))
+      case 'clear_operational_mode':
+        return dashboard.clearOperationalMode()
+      case 'get_user_role':
+        return { success: true, userRole: await dashboard.getUserRole() }
+      case 'set_user_role':
+        return dashboard.setUserRole(required('role'))
+      case 'add_log_message':
+        return dashboard.addLogMessage(required('message'))
+      default:
+        throw new Error(`Unsupported dashboard action: ${payload.action}`)
+    }
+  }
+
+  private toVendorEvent(robotId: string, message: URRobotMessage): VendorEvent | undefined {
+    let type: VendorEventType
+    let data: Record<string, any>
+
+    switch (message.type) {
+      case URRobotMessageType.ERROR_CODE: {
+        // Report levels above 127 are the developer variants of the same levels
+        const level = message.reportLevel & 0x7f
+        if (level === URReportLevel.FAULT) {
+          type = VendorEventType.ERROR_OCCURRED
+        } else if (level === URReportLevel.VIOLATION) {
+          type = VendorEventType.SAFETY_VIOLATION
+        } else if (level === URReportLevel.WARNING) {
+          type = VendorEventType.WARNING_ISSUED
+        } else {
+          return undefined
+        }
+        data = {
+          code: message.code,
+          reportLevel: URReportLevel[level],
+          message: message.text,
+        }
+        break
+      }
 
-    // Add logic to detect events from robot state changes
-    // This would typically compare with previous state
+      case URRobotMessageType.RUNTIME_EXCEPTION:
+        type = VendorEventType.ERROR_OCCURRED
+        data = {
+          message: message.text,
+          line: message.line,
+          column: message.column,
+        }
+        break
+
+      default:
+        return undefined
+    }
 
-    return events
+    return {
+      id: `evt-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      robotId,
+      data: { ...data, controllerTimestamp: message.timestamp },
+      timestamp: new Date(),
+      source: 'primary_interface',
+    }
+  }
+
+  private toTransitionEvent(robotId: string, transition: URStateTransition): VendorEvent {
+    const { type, ...data } = transition
+    return {
+      id: `evt-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      robotId,
+      data,
+      timestamp: new Date(),
+      source: 'real_time_interface',
+    }
   }
 }
@@ -1,10 +1,36 @@
 import * as net from 'net'
-import { URConfig, URProgramInfo, URSafetyInfo } from './types'
+import { createLinkStats, recordLinkError } from './link-stats'
+import {
+  URConfig,
+  URDashboardResult,
+  URLinkStats,
+  UROperationalMode,
+  URProgramInfo,
+  URRobotMode,
+  URSafetyInfo,
+  URUserRole,
+} from './types'
+
+const POWER_UP_POLL_INTERVAL = 500
+
+// Weight of the latest round trip in the moving average latency
+const LATENCY_SMOOTHING = 0.2
+
+interface PendingCommand {
+  resolve: (line: string) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
 
 export class URDashboardClient {
   private config: URConfig
   private socket?: net.Socket
   private connected = false
+  private buffer = ''
+  private lines: string[] = []
+  private pending?: PendingCommand
+  private requestChain: Promise<unknown> = Promise.resolve()
+  private stats = createLinkStats()
 
   constructor(config: URConfig) {
     this.config = config
@@ -13,22 +39,35 @@ export class URDashboardClient {
   async connect(): Promise<void> {
     return new Promise((resolve, reject) => {
       this.socket = new net.Socket()
+      this.buffer = ''
+      this.lines = []
+
+      this.socket.on('data', (data: Buffer) => this.handleData(data))
 
       this.socket.connect(this.config.dashboardPort || 29999, this.config.host, () => {
+        this.socket?.setTimeout(0)
         this.connected = true
-        console.log(
-          `Connected to UR Dashboard Server at ${this.config.host}:${this.config.dashboardPort}`
-        )
-        resolve()
+
+        // The server greets every client first, that line answers no command
+        this.request(undefined).then((greeting) => {
+          console.log(
+            `Connected to UR Dashboard Server at ${this.config.host}:${this.config.dashboardPort}` +
+              ` (${greeting})`
+          )
+          resolve()
+        }, reject)
       })
 
       this.socket.on('error', (error) => {
         this.connected = false
+        recordLinkError(this.stats)
+        this.rejectPending(new Error(`Dashboard connection error: ${(error as Error).message}`))
         reject(new Error(`Dashboard connection failed: ${(error as Error).message}`))
       })
 
       this.socket.on('close', () => {
         this.connected = false
+        this.rejectPending(new Error('Dashboard connection closed'))
         console.log('Dashboard connection closed')
       })
 
@@ -40,7 +79,9 @@ export class URDashboardClient {
   }
 
   async disconnect(): Promise<void> {
+    this.rejectPending(new Error('Dashboard connection closed'))
     if (this.socket) {
+      this.socket.removeAllListeners()
       this.socket.destroy()
       this.socket = undefined
     }
@@ -48,32 +89,92 @@ export class URDashboardClient {
   }
 
   private async sendCommand(command: string): Promise<string> {
+    return this.request(command)
+  }
+
+  // The server answers each command with one line, in order, so one command is in flight at a time
+  private request(command: string | undefined): Promise<string> {
+    const result = this.requestChain.then(() => this.writeCommand(command))
+    this.requestChain = result.catch(() => undefined)
+    return result
+  }
+
+  private writeCommand(command: string | undefined): Promise<string> {
     return new Promise((resolve, reject) => {
       if (!this.socket || !this.connected) {
         reject(new Error('Not connected to Dashboard Server'))
         return
       }
 
-      let response = ''
+      if (command !== undefined) {
+        // Anything left over answers no command we are waiting for
+        this.lines = []
+      } else if (this.lines.length > 0) {
+        resolve(this.lines.shift()!)
+        return
+      }
 
-      const onData = (data: Buffer) => {
-        response += data.toString()
-        if (response.includes('\\n')) {
-          this.socket?.removeListener('data', onData)
-          resolve(response.trim())
-        }
+      const timer = setTimeout(() => {
+        this.pending = undefined
+        recordLinkError(this.stats)
+        reject(new Error(`Command timeout: ${command ?? 'greeting'}`))
+      }, this.config.timeout || 5000)
+
+      if (command === undefined) {
+        this.pending = { resolve, reject, timer }
+        return
       }
 
-      this.socket.on('data', onData)
-      this.socket.write(command + '\\n')
+      const sentAt = Date.now()
+      const answered = (line: string) => {
+        this.recordLatency(Date.now() - sentAt)
+        resolve(line)
+      }
 
-      setTimeout(() => {
-        this.socket?.removeListener('data', onData)
-        reject(new Error(`Command timeout: ${command}`))
-      }, this.config.timeout || 5000)
+      this.pending = { resolve: answered, reject, timer }
+      const data = command + '\n'
+      this.socket.write(data)
+      this.stats.bytesSent += Buffer.byteLength(data)
+      this.stats.messagesSent++
     })
   }
 
+  private handleData(data: Buffer): void {
+    this.stats.bytesReceived += data.length
+    this.buffer += data.toString()
+
+    let newline = this.buffer.indexOf('\n')
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).trim()
+      this.buffer = this.buffer.slice(newline + 1)
+      newline = this.buffer.indexOf('\n')
+      this.stats.messagesReceived++
+
+      if (this.pending) {
+        const { resolve, timer } = this.pending
+        clearTimeout(timer)
+        this.pending = undefined
+        resolve(line)
+      } else {
+        this.lines.push(line)
+      }
+    }
+  }
+
+  private recordLatency(latency: number): void {
+    const average = this.stats.averageLatency
+    this.stats.averageLatency =
+      average === undefined ? latency : average + LATENCY_SMOOTHING * (latency - average)
+  }
+
+  private rejectPending(error: Error): void {
+    if (this.pending) {
+      clearTimeout(this.pending.timer)
+      this.pending.reject(error)
+      this.pending = undefined
+    }
+  }
+
   // Robot Control Commands
 
   async play(): Promise<{ success: boolean; message?: string }> {
@@ -97,7 +198,7 @@ export class URDashboardClient {
   async pause(): Promise<{ success: boolean; message?: string }> {
     try {
       const response = await this.sendCommand('pause')
-      return { success: response.includes('Paused') }
+      return { success: response.includes('Pausing program') }
     } catch (error) {
       return { success: false, message: (error as Error).message }
     }
@@ -121,6 +222,123 @@ export class URDashboardClient {
     }
   }
 
+  // Power and Brakes
+
+  async powerOn(): Promise<URDashboardResult> {
+    return this.execute('power on', 'Powering on')
+  }
+
+  async powerOff(): Promise<URDashboardResult> {
+    return this.execute('power off', 'Powering off')
+  }
+
+  async brakeRelease(): Promise<URDashboardResult> {
+    return this.execute('brake release', 'Brake releasing')
+  }
+
+  /**
+   * Bring a robot from power off to running: power on, wait for IDLE, release the brakes
+   */
+  async powerUp(timeout = 30000): Promise<URDashboardResult> {
+    if ((await this.getRobotMode()) === URRobotMode.ROBOT_MODE_RUNNING) {
+      return { success: true, message: 'Robot is already running' }
+    }
+
+    const powerOn = await this.powerOn()
+    if (!powerOn.success) {
+      return powerOn
+    }
+
+    // Brakes can only be released once the arm has booted into IDLE
+    const deadline = Date.now() + timeout
+    let mode = await this.getRobotMode()
+    while (mode !== URRobotMode.ROBOT_MODE_IDLE && mode !== URRobotMode.ROBOT_MODE_RUNNING) {
+      if (Date.now() >= deadline) {
+        return {
+          success: false,
+          message: `Robot did not reach IDLE after power on (${URRobotMode[mode] || mode})`,
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, POWER_UP_POLL_INTERVAL))
+      mode = await this.getRobotMode()
+    }
+
+    return mode === URRobotMode.ROBOT_MODE_RUNNING
+      ? { success: true, message: 'Robot is running' }
+      : this.brakeRelease()
+  }
+
+  async getRobotMode(): Promise<URRobotMode> {
+    return this.parseRobotMode(await this.sendCommand('robotmode'))
+  }
+
+  // Popups
+
+  async closePopup(): Promise<URDashboardResult> {
+    return this.execute('close popup', 'closing popup')
+  }
+
+  async closeSafetyPopup(): Promise<URDashboardResult> {
+    return this.execute('close safety popup', 'closing safety popup')
+  }
+
+  // Safety
+
+  /**
+   * Detailed safety status, e.g. PROTECTIVE_STOP or AUTOMATIC_MODE_SAFEGUARD_STOP
+   */
+  async getSafetyStatus(): Promise<string> {
+    const response = await this.sendCommand('safetystatus')
+    return response.replace(/^Safetystatus:\s*/i, '')
+  }
+
+  /**
+   * Restart the safety system after a fault or violation, the robot comes back in power off
+   */
+  async restartSafety(): Promise<URDashboardResult> {
+    return this.execute('restart safety', 'Restarting safety')
+  }
+
+  // Operational Mode and User Role
+
+  async getOperationalMode(): Promise<UROperationalMode> {
+    const response = await this.sendCommand('get operational mode')
+    return response.trim().toUpperCase() as UROperationalMode
+  }
+
+  async setOperationalMode(mode: Exclude<UROperationalMode, 'NONE'>): Promise<URDashboardResult> {
+    return this.execute(`set operational mode ${mode.toLowerCase()}`, 'Operational mode')
+  }
+
+  /**
+   * Hand control of the operational mode back to the teach pendant
+   */
+  async clearOperationalMode(): Promise<URDashboardResult> {
+    return this.execute('clear operational mode', 'No longer controlling the operational mode')
+  }
+
+  async getUserRole(): Promise<URUserRole> {
+    const response = await this.sendCommand('getUserRole')
+    return response.trim().toUpperCase() as URUserRole
+  }
+
+  async setUserRole(role: URUserRole): Promise<URDashboardResult> {
+    return this.execute(`setUserRole ${role.toLowerCase()}`, 'Setting user role')
+  }
+
+  // Logging
+
+  /**
+   * Add a message to the controller log, shown in the teach pendant log tab
+   */
+  async addLogMessage(message: string): Promise<URDashboardResult> {
+    const line = message.replace(/[\r\n]+/g, ' ').trim()
+    if (!line) {
+      return { success: false, message: 'Log message must not be empty' }
+    }
+    return this.execute(`addToLog ${line}`, 'Added log message')
+  }
+
   // Robot Information
 
   async getRobotInfo(): Promise<any> {
@@ -129,7 +347,7 @@ export class URDashboardClient {
         this.sendCommand('robotmode'),
         this.sendCommand('get robot model'),
         this.sendCommand('get serial number'),
-        this.sendCommand('version'),
+        this.sendCommand('PolyscopeVersion'),
       ])
 
       return {
@@ -166,11 +384,11 @@ export class URDashboardClient {
     try {
       const [programState, loadedProgram] = await Promise.all([
         this.sendCommand('programState'),
-        this.sendCommand('get loaded program'),
+        this.getLoadedProgram(),
       ])
 
       return {
-        programName: loadedProgram.trim(),
+        programName: loadedProgram || '',
         programState: this.parseProgramState(programState),
         lineNumber: undefined,
         remainingTime: undefined,
@@ -191,6 +409,19 @@ export class URDashboardClient {
     }
   }
 
+  /**
+   * Path of the loaded program, undefined when none is loaded
+   */
+  async getLoadedProgram(): Promise<string | undefined> {
+    const response = await this.sendCommand('get loaded program')
+    const match = response.match(/^Loaded program:\s*(.+)$/i)
+    return match ? match[1].trim() : undefined
+  }
+
+  async loadInstallation(installation: string): Promise<URDashboardResult> {
+    return this.execute(`load installation ${installation}`, 'Loading installation')
+  }
+
   async isProgramRunning(): Promise<boolean> {
     try {
       const response = await this.sendCommand('running')
@@ -237,10 +468,24 @@ export class URDashboardClient {
 
   // Helper methods
 
-  private parseRobotMode(response: string): number {
-    // Extract robot mode from response
-    const match = response.match(/Robot Mode: (\\d+)/)
-    return match ? parseInt(match[1]) : 0
+  private async execute(command: string, expected: string): Promise<URDashboardResult> {
+    try {
+      const response = await this.sendCommand(command)
+      return {
+        success: response.toLowerCase().includes(expected.toLowerCase()),
+        message: response,
+      }
+    } catch (error) {
+      return { success: false, message: (error as Error).message }
+    }
+  }
+
+  private parseRobotMode(response: string): URRobotMode {
+    // e.g. "Robotmode: POWER_OFF"
+    const match = response.match(/Robotmode:\s*(\w+)/i)
+    const mode =
+      match && URRobotMode[`ROBOT_MODE_${match[1].toUpperCase()}` as keyof typeof URRobotMode]
+    return mode ?? URRobotMode.ROBOT_MODE_DISCONNECTED
   }
 
   private parseSafetyMode(response: string): any {
@@ -267,4 +512,8 @@ export class URDashboardClient {
   isConnected(): boolean {
     return this.connected
   }
+
+  getLinkStats(): URLinkStats {
+    return { ...this.stats }
+  }
 }
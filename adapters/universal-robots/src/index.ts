@@ -4,6 +4,11 @@
  */
 
 export { UniversalRobotsAdapter } from './adapter'
+export { adapterPlugin } from './plugin'
 export { URDashboardClient } from './dashboard-client'
+export { URPrimaryClient } from './primary-client'
 export { URRealTimeClient } from './realtime-client'
+export { detectRealTimeLayout, parseRealTimeMessage } from './realtime-layouts'
+export { URRTDEClient, mapRTDESampleToTelemetry, RTDE_TELEMETRY_OUTPUTS } from './rtde-client'
+export { URStateTracker } from './state-tracker'
 export * from './types'
@@ -0,0 +1,28 @@
+import { URLinkStats } from './types'
+
+export function createLinkStats(): URLinkStats {
+  return { bytesReceived: 0, bytesSent: 0, messagesReceived: 0, messagesSent: 0, errors: 0 }
+}
+
+export function recordLinkError(stats: URLinkStats): void {
+  stats.errors++
+  stats.lastErrorAt = new Date()
+}
+
+/**
+ * Totals of several clients, e.g. every interface of one connection
+ */
+export function sumLinkStats(all: URLinkStats[]): URLinkStats {
+  const total = createLinkStats()
+  for (const stats of all) {
+    total.bytesReceived += stats.bytesReceived
+    total.bytesSent += stats.bytesSent
+    total.messagesReceived += stats.messagesReceived
+    total.messagesSent += stats.messagesSent
+    total.errors += stats.errors
+    if (stats.lastErrorAt && (!total.lastErrorAt || stats.lastErrorAt > total.lastErrorAt)) {
+      total.lastErrorAt = stats.lastErrorAt
+    }
+  }
+  return total
+}
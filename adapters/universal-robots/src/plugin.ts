@@ -0,0 +1,93 @@
+import { ConnectionProtocol, createConnectionConfigSchema, VendorAdapterPlugin } from '@urfmp/types'
+import { UniversalRobotsAdapter } from './adapter'
+
+const port = (defaultPort: number, title: string) => ({
+  type: 'integer',
+  minimum: 1,
+  maximum: 65535,
+  default: defaultPort,
+  title,
+})
+
+/**
+ * Entry point for the adapter loader
+ */
+export const adapterPlugin: VendorAdapterPlugin = {
+  config: {
+    name: 'universal-robots',
+    version: '1.0.0',
+    description: 'Universal Robots adapter - UR3, UR5, UR10, UR16, UR20',
+    author: 'URFMP Team',
+    license: 'MIT',
+    supportedRobots: [
+      { model: 'UR3e', series: 'e-Series', firmwareVersions: ['5.x'] },
+      { model: 'UR5e', series: 'e-Series', firmwareVersions: ['5.x'] },
+      { model: 'UR10e', series: 'e-Series', firmwareVersions: ['5.x'] },
+      { model: 'UR16e', series: 'e-Series', firmwareVersions: ['5.x'] },
+      { model: 'UR20', series: 'e-Series', firmwareVersions: ['5.x'] },
+      {
+        model: 'UR3',
+        series: 'CB3',
+        firmwareVersions: ['3.x'],
+        notes: 'RTDE needs 3.4 or later',
+      },
+      {
+        model: 'UR5',
+        series: 'CB3',
+        firmwareVersions: ['3.x'],
+        notes: 'RTDE needs 3.4 or later',
+      },
+      {
+        model: 'UR10',
+        series: 'CB3',
+        firmwareVersions: ['3.x'],
+        notes: 'RTDE needs 3.4 or later',
+      },
+    ],
+    defaultConfig: {
+      host: '192.168.1.100',
+      port: 29999,
+      protocol: ConnectionProtocol.TCP,
+      timeout: 5000,
+    },
+    configSchema: createConnectionConfigSchema({
+      protocols: [ConnectionProtocol.TCP],
+      port: 29999,
+      options: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          dashboardPort: port(29999, 'Dashboard port'),
+          realTimePort: port(30003, 'Real-time port'),
+          primaryPort: port(30001, 'Primary port'),
+          secondaryPort: port(30002, 'Secondary port'),
+          rtdePort: port(30004, 'RTDE port'),
+          rtde: {
+            type: ['boolean', 'object'],
+            title: 'RTDE',
+            properties: {
+              frequency: { type: 'number', exclusiveMinimum: 0, maximum: 500 },
+              outputs: { type: 'array', items: { type: 'string' } },
+              protocolVersion: { enum: [1, 2] },
+            },
+          },
+          primaryInterface: { type: 'boolean', default: false, title: 'Primary interface' },
+          heartbeatInterval: {
+            type: 'integer',
+            minimum: 100,
+            default: 5000,
+            title: 'Heartbeat interval (ms)',
+          },
+          reconnectDelay: {
+            type: 'integer',
+            minimum: 100,
+            default: 1000,
+            title: 'Reconnect delay (ms)',
+          },
+        },
+      },
+    }),
+    features: new UniversalRobotsAdapter().getSupportedFeatures(),
+  },
+  createAdapter: () => new UniversalRobotsAdapter(),
+}
@@ -0,0 +1,324 @@
+import * as net from 'net'
+import { createLinkStats, recordLinkError } from './link-stats'
+import {
+  URConfig,
+  URLinkStats,
+  URMessageType,
+  URRobotMessage,
+  URRobotMessageType,
+  URVersionMessage,
+} from './types'
+
+const HEADER_SIZE = 5 // int32 message size + uint8 message type
+const ROBOT_MESSAGE_HEADER_SIZE = 10 // uint64 timestamp + int8 source + uint8 robot message type
+
+// Robot state messages are a few kB, anything far larger means the stream is out of step
+const MAX_MESSAGE_SIZE = 1024 * 1024
+
+const PROGRAM_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+/**
+ * Client for the primary interface (port 30001), which reports robot messages such as controller
+ * error codes, safety events and runtime exceptions, and the secondary interface (port 30002),
+ * used to send URScript.
+ */
+export class URPrimaryClient {
+  private config: URConfig
+  private socket?: net.Socket
+  private scriptSocket?: net.Socket
+  private connected = false
+  private buffer = Buffer.alloc(0)
+  private version?: URVersionMessage
+  private messagesReceived = 0
+  private stats = createLinkStats()
+  private messageCallback?: (message: URRobotMessage) => void
+
+  constructor(config: URConfig) {
+    this.config = config
+  }
+
+  async connect(): Promise<void> {
+    this.buffer = Buffer.alloc(0)
+    this.socket = await this.openSocket(this.getPrimaryPort(), 'Primary interface')
+    this.socket.on('data', (chunk: Buffer) => this.handleData(chunk))
+    this.connected = true
+
+    console.log(`Connected to UR primary interface at ${this.config.host}:${this.getPrimaryPort()}`)
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false
+
+    for (const socket of [this.socket, this.scriptSocket]) {
+      socket?.removeAllListeners()
+      socket?.destroy()
+    }
+
+    this.socket = undefined
+    this.scriptSocket = undefined
+    this.buffer = Buffer.alloc(0)
+  }
+
+  onMessage(callback: (message: URRobotMessage) => void): void {
+    this.messageCallback = callback
+  }
+
+  /**
+   * Controller software version, sent by the controller as the first message after connecting
+   */
+  getVersion(): URVersionMessage | undefined {
+    return this.version
+  }
+
+  /**
+   * Send URScript over the secondary interface. A `def` program replaces the running program,
+   * anything else is executed as a single script command.
+   */
+  async sendScript(script: string): Promise<void> {
+    if (!script.trim()) {
+      throw new Error('URScript must not be empty')
+    }
+
+    if (!this.scriptSocket || this.scriptSocket.destroyed) {
+      this.scriptSocket = await this.openSocket(this.getSecondaryPort(), 'Secondary interface')
+      const socket = this.scriptSocket
+      // The secondary interface streams the same state as the primary, only writes matter here
+      socket.resume()
+      socket.on('close', () => {
+        if (this.scriptSocket === socket) {
+          this.scriptSocket = undefined
+        }
+      })
+    }
+
+    const socket = this.scriptSocket
+    const data = script.endsWith('\n') ? script : `${script}\n`
+
+    await new Promise<void>((resolve, reject) => {
+      socket.write(data, (error) => (error ? reject(error) : resolve()))
+    })
+
+    this.stats.bytesSent += Buffer.byteLength(data)
+    this.stats.messagesSent++
+  }
+
+  /**
+   * Wrap script lines in a named program and send it
+   */
+  async sendProgram(name: string, body: string): Promise<void> {
+    if (!PROGRAM_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid URScript program name: ${name}`)
+    }
+
+    const lines = body
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => `  ${line}`)
+
+    await this.sendScript([`def ${name}():`, ...lines, 'end'].join('\n'))
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  getConnectionInfo(): {
+    connected: boolean
+    scriptConnected: boolean
+    version?: URVersionMessage
+    messagesReceived: number
+  } {
+    return {
+      connected: this.connected,
+      scriptConnected: !!this.scriptSocket && !this.scriptSocket.destroyed,
+      version: this.version,
+      messagesReceived: this.messagesReceived,
+    }
+  }
+
+  getLinkStats(): URLinkStats {
+    return { ...this.stats }
+  }
+
+  private getPrimaryPort(): number {
+    return this.config.primaryPort || 30001
+  }
+
+  private getSecondaryPort(): number {
+    return this.config.secondaryPort || 30002
+  }
+
+  private openSocket(port: number, name: string): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = new net.Socket()
+
+      socket.setTimeout(this.config.timeout || 5000, () => {
+        socket.destroy()
+        reject(new Error(`${name} connection timeout`))
+      })
+
+      socket.connect(port, this.config.host, () => {
+        socket.setTimeout(0)
+        resolve(socket)
+      })
+
+      socket.on('error', (error) => {
+        console.error(`${name} connection error: ${error.message}`)
+        recordLinkError(this.stats)
+        reject(new Error(`${name} connection failed: ${error.message}`))
+      })
+
+      socket.on('close', () => {
+        if (socket === this.socket) {
+          this.connected = false
+          console.log('Primary interface connection closed')
+        }
+      })
+    })
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.stats.bytesReceived += chunk.length
+    this.buffer = Buffer.concat([this.buffer, chunk])
+
+    while (this.buffer.length >= HEADER_SIZE) {
+      const size = this.buffer.readInt32BE(0)
+      if (size < HEADER_SIZE || size > MAX_MESSAGE_SIZE) {
+        console.error(`Invalid primary interface message size ${size}, discarding buffered data`)
+        this.buffer = Buffer.alloc(0)
+        return
+      }
+
+      if (this.buffer.length < size) {
+        return
+      }
+
+      const type = this.buffer.readUInt8(4)
+      const payload = this.buffer.subarray(HEADER_SIZE, size)
+      this.buffer = this.buffer.subarray(size)
+
+      // Robot state and program state messages duplicate what the real-time interface streams
+      if (type !== URMessageType.ROBOT_MESSAGE) {
+        continue
+      }
+
+      try {
+        const message = this.parseRobotMessage(payload)
+        if (message) {
+          this.handleRobotMessage(message)
+        }
+      } catch (error) {
+        console.error('Error parsing robot message:', (error as Error).message)
+      }
+    }
+  }
+
+  private handleRobotMessage(message: URRobotMessage): void {
+    this.messagesReceived++
+    this.stats.messagesReceived++
+
+    if (message.type === URRobotMessageType.VERSION) {
+      this.version = message
+      console.log(
+        `UR controller at ${this.config.host} runs ${message.projectName} ` +
+          `${message.major}.${message.minor}.${message.bugfix}.${message.build}`
+      )
+    }
+
+    if (this.messageCallback) {
+      this.messageCallback(message)
+    }
+  }
+
+  private parseRobotMessage(payload: Buffer): URRobotMessage | undefined {
+    const base = {
+      timestamp: Number(payload.readBigUInt64BE(0)),
+      source: payload.readInt8(8),
+    }
+    const type = payload.readUInt8(9)
+    const body = payload.subarray(ROBOT_MESSAGE_HEADER_SIZE)
+
+    // Codes are shown on the teach pendant as C<code>A<argument>
+    const code = (messageCode: number, messageArgument: number) =>
+      `C${messageCode}A${messageArgument}`
+
+    switch (type) {
+      case URRobotMessageType.TEXT:
+        return { ...base, type, text: body.toString('utf8') }
+
+      case URRobotMessageType.VERSION: {
+        const nameLength = body.readInt8(0)
+        const offset = 1 + nameLength
+        return {
+          ...base,
+          type,
+          projectName: body.toString('utf8', 1, offset),
+          major: body.readUInt8(offset),
+          minor: body.readUInt8(offset + 1),
+          bugfix: body.readInt32BE(offset + 2),
+          build: body.readInt32BE(offset + 6),
+          buildDate: body.toString('utf8', offset + 10),
+        }
+      }
+
+      case URRobotMessageType.ERROR_CODE: {
+        const messageCode = body.readInt32BE(0)
+        const messageArgument = body.readInt32BE(4)
+        return {
+          ...base,
+          type,
+          code: code(messageCode, messageArgument),
+          messageCode,
+          messageArgument,
+          reportLevel: body.readInt32BE(8),
+          dataType: body.readUInt8(12),
+          data: body.readUInt32BE(13),
+          text: body.toString('utf8', 17),
+        }
+      }
+
+      case URRobotMessageType.SAFETY_MODE: {
+        const messageCode = body.readInt32BE(0)
+        const messageArgument = body.readInt32BE(4)
+        return {
+          ...base,
+          type,
+          code: code(messageCode, messageArgument),
+          messageCode,
+          messageArgument,
+          safetyMode: body.readUInt8(8),
+          reportDataType: body.readUInt32BE(9),
+          reportData: body.readUInt32BE(13),
+        }
+      }
+
+      case URRobotMessageType.KEY: {
+        const messageCode = body.readInt32BE(0)
+        const messageArgument = body.readInt32BE(4)
+        const titleLength = body.readUInt8(8)
+        return {
+          ...base,
+          type,
+          code: code(messageCode, messageArgument),
+          messageCode,
+          messageArgument,
+          title: body.toString('utf8', 9, 9 + titleLength),
+          text: body.toString('utf8', 9 + titleLength),
+        }
+      }
+
+      case URRobotMessageType.RUNTIME_EXCEPTION:
+        return {
+          ...base,
+          type,
+          line: body.readInt32BE(0),
+          column: body.readInt32BE(4),
+          text: body.toString('utf8', 8),
+        }
+
+      default:
+        // Program labels, popups and value requests carry nothing we act on
+        return undefined
+    }
+  }
+}
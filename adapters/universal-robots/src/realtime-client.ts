@@ -1,13 +1,32 @@
 import * as net from 'net'
-import { URConfig, URRobotState } from './types'
+import { createLinkStats, recordLinkError } from './link-stats'
+import { detectRealTimeLayout, parseRealTimeMessage } from './realtime-layouts'
+import { URConfig, URLinkStats, URRealTimeLayout, URRobotState } from './types'
+
+const HEADER_SIZE = 4 // int32 message size
+
+// CB2 numbers its robot modes on its own scheme, up to SHUTDOWN (9) and SAFEGUARD_STOP (10)
+const MAX_ROBOT_MODE: Record<URRealTimeLayout['controller'], number> = {
+  CB2: 10,
+  CB3: 8,
+  'CB3/e-Series': 8,
+}
 
 export class URRealTimeClient {
   private config: URConfig
   private socket?: net.Socket
   private connected = false
   private dataCallback?: (data: URRobotState) => void
+  private buffer = Buffer.alloc(0)
+  private layout?: URRealTimeLayout
+  private latestState?: URRobotState
+  private stateWaiters: ((state: URRobotState) => void)[] = []
+  private droppedMessages = 0
+  private droppedBytes = 0
   private reconnectAttempts = 0
+  private reconnectTimer?: NodeJS.Timeout
   private maxReconnectAttempts = 5
+  private stats = createLinkStats()
 
   constructor(config: URConfig) {
     this.config = config
@@ -16,6 +35,10 @@ export class URRealTimeClient {
   async connect(): Promise<void> {
     return new Promise((resolve, reject) => {
       this.socket = new net.Socket()
+      this.buffer = Buffer.alloc(0)
+      this.latestState = undefined
+
+      this.socket.on('data', (data: Buffer) => this.handleData(data))
 
       this.socket.connect(this.config.realTimePort || 30003, this.config.host, () => {
         this.connected = true
@@ -23,13 +46,13 @@ export class URRealTimeClient {
         console.log(
           `Connected to UR Real-time Interface at ${this.config.host}:${this.config.realTimePort}`
         )
-        this.startDataStream()
         resolve()
       })
 
       this.socket.on('error', (error) => {
         this.connected = false
         console.error(`Real-time connection error: ${(error as Error).message}`)
+        recordLinkError(this.stats)
         this.attemptReconnection()
         reject(new Error(`Real-time connection failed: ${(error as Error).message}`))
       })
@@ -49,7 +72,13 @@ export class URRealTimeClient {
 
   async disconnect(): Promise<void> {
     this.connected = false
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = undefined
+    }
     if (this.socket) {
+      // A requested disconnect must not trigger the reconnect on close
+      this.socket.removeAllListeners()
       this.socket.destroy()
       this.socket = undefined
     }
@@ -66,264 +95,120 @@ export class URRealTimeClient {
         return
       }
 
-      let buffer = Buffer.alloc(0)
-      const expectedLength = 1060 // UR real-time interface packet size
-
-      const onData = (data: Buffer) => {
-        buffer = Buffer.concat([buffer, data])
-
-        if (buffer.length >= expectedLength) {
-          this.socket?.removeListener('data', onData)
-          try {
-            const robotState = this.parseRobotState(buffer)
-            resolve(robotState)
-          } catch (error) {
-            reject(new Error(`Failed to parse robot state: ${(error as Error).message}`))
-          }
-        }
+      if (this.latestState) {
+        resolve(this.latestState)
+        return
       }
 
-      this.socket.on('data', onData)
+      const waiter = (state: URRobotState) => {
+        clearTimeout(timer)
+        resolve(state)
+      }
 
-      setTimeout(() => {
-        this.socket?.removeListener('data', onData)
+      const timer = setTimeout(() => {
+        this.stateWaiters = this.stateWaiters.filter((pending) => pending !== waiter)
         reject(new Error('Robot state request timeout'))
       }, this.config.timeout || 5000)
+
+      this.stateWaiters.push(waiter)
     })
   }
 
-  private startDataStream(): void {
-    if (!this.socket || !this.connected) {
-      return
-    }
+  private handleData(data: Buffer): void {
+    this.stats.bytesReceived += data.length
+    this.buffer = Buffer.concat([this.buffer, data])
 
-    let buffer = Buffer.alloc(0)
-    const expectedLength = 1060
+    // A read can end mid-message or hold several messages, each starts with its int32 length
+    while (this.buffer.length >= HEADER_SIZE) {
+      const messageSize = this.buffer.readInt32BE(0)
 
-    this.socket.on('data', (data: Buffer) => {
-      buffer = Buffer.concat([buffer, data])
+      if (!detectRealTimeLayout(messageSize)) {
+        this.resynchronize()
+        continue
+      }
 
-      while (buffer.length >= expectedLength) {
-        try {
-          const packetBuffer = buffer.slice(0, expectedLength)
-          buffer = buffer.slice(expectedLength)
+      if (this.buffer.length < messageSize) {
+        return
+      }
 
-          const robotState = this.parseRobotState(packetBuffer)
+      const message = this.buffer.subarray(0, messageSize)
+      this.buffer = this.buffer.subarray(messageSize)
+      this.stats.messagesReceived++
 
-          if (this.dataCallback) {
-            this.dataCallback(robotState)
-          }
-        } catch (error) {
-          console.error('Error parsing robot state:', (error as Error).message)
-          break
+      try {
+        const { state, layout } = parseRealTimeMessage(message)
+        if (!this.isPlausible(state, layout)) {
+          throw new Error('values out of range')
         }
-      }
-    })
-  }
 
-  private parseRobotState(buffer: Buffer): URRobotState {
-    // UR real-time interface sends binary data in a specific format
-    // This is a simplified parser - in production, you'd want more robust parsing
+        this.updateLayout(layout)
+        this.latestState = state
 
-    let offset = 0
+        const waiters = this.stateWaiters
+        this.stateWaiters = []
+        waiters.forEach((waiter) => waiter(state))
 
-    // Helper function to read double (8 bytes, big-endian)
-    const readDouble = (): number => {
-      const value = buffer.readDoubleBE(offset)
-      offset += 8
-      return value
+        if (this.dataCallback) {
+          this.dataCallback(state)
+        }
+      } catch (error) {
+        this.droppedMessages++
+        recordLinkError(this.stats)
+        console.error('Error parsing robot state:', (error as Error).message)
+      }
+    }
+  }
+
+  // Skip to the next offset that reads as a valid length header
+  private resynchronize(): void {
+    let offset = 1
+    while (
+      offset + HEADER_SIZE <= this.buffer.length &&
+      !detectRealTimeLayout(this.buffer.readInt32BE(offset))
+    ) {
+      offset++
     }
 
-    // Helper function to read uint64 (8 bytes, big-endian)
-    const readUInt64 = (): number => {
-      const value = buffer.readBigUInt64BE(offset)
-      offset += 8
-      return Number(value)
+    const skipped = Math.min(offset, this.buffer.length - (HEADER_SIZE - 1))
+    this.droppedBytes += skipped
+    this.buffer = this.buffer.subarray(skipped)
+  }
+
+  // A wrong length header shifts every field, which shows up as non-finite or absurd values
+  private isPlausible(state: URRobotState, layout: URRealTimeLayout): boolean {
+    const values = [state.timestamp, ...state.q_actual, ...state.tool_vector_actual]
+    if (!values.every(Number.isFinite) || state.timestamp < 0) {
+      return false
     }
 
-    // Helper function to read uint32 (4 bytes, big-endian)
-    const _readUInt32 = (): number => {
-      const value = buffer.readUInt32BE(offset)
-      offset += 4
-      return value
+    if (state.robot_mode !== undefined) {
+      return (
+        Number.isInteger(state.robot_mode) &&
+        state.robot_mode >= -1 &&
+        state.robot_mode <= MAX_ROBOT_MODE[layout.controller]
+      )
     }
 
-    try {
-      const robotState: URRobotState = {
-        timestamp: readUInt64(),
-        q_target: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        qd_target: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        qdd_target: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        i_target: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        m_target: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        q_actual: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        qd_actual: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        i_actual: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        i_control: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        tool_vector_actual: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        tcp_speed_actual: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        tcp_force: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        tool_vector_target: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        tcp_speed_target: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        digital_input_bits: readUInt64(),
-        motor_temperatures: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        controller_timer: readDouble(),
-        test_value: readDouble(),
-        robot_mode: readDouble(),
-        joint_modes: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        safety_mode: readDouble(),
-        safety_status: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        tool_accelerometer_values: [readDouble(), readDouble(), readDouble()],
-        speed_scaling: readDouble(),
-        linear_momentum_norm: readDouble(),
-        v_main: readDouble(),
-        v_robot: readDouble(),
-        i_robot: readDouble(),
-        v_actual: [
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-          readDouble(),
-        ],
-        digital_outputs: readUInt64(),
-        program_state: readDouble(),
-        elbow_position: [readDouble(), readDouble(), readDouble()],
-        elbow_velocity: [readDouble(), readDouble(), readDouble()],
-      }
+    return true
+  }
 
-      return robotState
-    } catch (error) {
-      throw new Error(`Failed to parse robot state buffer: ${(error as Error).message}`)
+  private updateLayout(layout: URRealTimeLayout): void {
+    if (this.layout?.messageSize === layout.messageSize) {
+      return
     }
+
+    console.log(
+      `UR real-time interface at ${this.config.host} sends the ${layout.controller} ` +
+        `${layout.firmware} layout (${layout.messageSize} bytes)`
+    )
+    this.layout = layout
   }
 
   private async attemptReconnection(): Promise<void> {
+    if (this.config.autoReconnect === false) {
+      return
+    }
+
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.error('Max reconnection attempts reached')
       return
@@ -336,7 +221,8 @@ export class URRealTimeClient {
       `Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`
     )
 
-    setTimeout(async () => {
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = undefined
       try {
         await this.connect()
         console.log('Real-time interface reconnected successfully')
@@ -354,11 +240,21 @@ export class URRealTimeClient {
     connected: boolean
     reconnectAttempts: number
     maxReconnectAttempts: number
+    layout?: URRealTimeLayout
+    droppedMessages: number
+    droppedBytes: number
   } {
     return {
       connected: this.connected,
       reconnectAttempts: this.reconnectAttempts,
       maxReconnectAttempts: this.maxReconnectAttempts,
+      layout: this.layout,
+      droppedMessages: this.droppedMessages,
+      droppedBytes: this.droppedBytes,
     }
   }
+
+  getLinkStats(): URLinkStats {
+    return { ...this.stats }
+  }
 }
@@ -0,0 +1,168 @@
+import { URRealTimeLayout, URRobotState } from './types'
+
+// A field of the port-30003 message, null names are reserved slots to skip
+type LayoutField = [name: keyof URRobotState | null, doubles: number]
+
+interface LayoutDefinition extends URRealTimeLayout {
+  fields: LayoutField[]
+}
+
+const HEADER_SIZE = 4 // int32 message size
+
+// Anything longer is not a length header but a stream that is out of step
+const MAX_MESSAGE_SIZE = 4096
+
+const CB2_FIELDS: LayoutField[] = [
+  ['timestamp', 1],
+  ['q_target', 6],
+  ['qd_target', 6],
+  ['qdd_target', 6],
+  ['i_target', 6],
+  ['m_target', 6],
+  ['q_actual', 6],
+  ['qd_actual', 6],
+  ['i_actual', 6],
+  ['tool_accelerometer_values', 3],
+  [null, 15],
+  ['tcp_force', 6],
+  ['tool_vector_actual', 6],
+  ['tcp_speed_actual', 6],
+  ['digital_input_bits', 1],
+  ['motor_temperatures', 6],
+  ['controller_timer', 1],
+  ['test_value', 1],
+  // 1.7
+  ['robot_mode', 1],
+  // 1.8
+  ['joint_modes', 6],
+]
+
+const CB3_FIELDS: LayoutField[] = [
+  ['timestamp', 1],
+  ['q_target', 6],
+  ['qd_target', 6],
+  ['qdd_target', 6],
+  ['i_target', 6],
+  ['m_target', 6],
+  ['q_actual', 6],
+  ['qd_actual', 6],
+  ['i_actual', 6],
+  ['i_control', 6],
+  ['tool_vector_actual', 6],
+  ['tcp_speed_actual', 6],
+  ['tcp_force', 6],
+  ['tool_vector_target', 6],
+  ['tcp_speed_target', 6],
+  ['digital_input_bits', 1],
+  ['motor_temperatures', 6],
+  ['controller_timer', 1],
+  ['test_value', 1],
+  ['robot_mode', 1],
+  ['joint_modes', 6],
+  ['safety_mode', 1],
+  [null, 6],
+  ['tool_accelerometer_values', 3],
+  [null, 6],
+  ['speed_scaling', 1],
+  ['linear_momentum_norm', 1],
+  [null, 2],
+  ['v_main', 1],
+  ['v_robot', 1],
+  ['i_robot', 1],
+  ['v_actual', 6],
+  // 3.2
+  ['digital_outputs', 1],
+  ['program_state', 1],
+  // 3.5
+  ['elbow_position', 3],
+  ['elbow_velocity', 3],
+  // 3.10 and e-Series
+  ['safety_status', 1],
+]
+
+// Controllers only ever append fields, so each layout is a prefix of its family's field list
+const layout = (
+  controller: URRealTimeLayout['controller'],
+  firmware: string,
+  family: LayoutField[],
+  lastField: keyof URRobotState
+): LayoutDefinition => {
+  const fields = family.slice(0, family.findIndex(([name]) => name === lastField) + 1)
+  const doubles = fields.reduce((count, [, size]) => count + size, 0)
+  return { controller, firmware, messageSize: HEADER_SIZE + doubles * 8, fields }
+}
+
+const LAYOUTS: LayoutDefinition[] = [
+  layout('CB2', '1.5-1.6', CB2_FIELDS, 'test_value'),
+  layout('CB2', '1.7', CB2_FIELDS, 'robot_mode'),
+  layout('CB2', '1.8', CB2_FIELDS, 'joint_modes'),
+  layout('CB3', '3.0-3.1', CB3_FIELDS, 'v_actual'),
+  layout('CB3', '3.2-3.4', CB3_FIELDS, 'program_state'),
+  layout('CB3', '3.5-3.9', CB3_FIELDS, 'elbow_velocity'),
+  layout('CB3/e-Series', '3.10+, 5.x', CB3_FIELDS, 'safety_status'),
+]
+
+const NEWEST_LAYOUT = LAYOUTS[LAYOUTS.length - 1]
+
+/**
+ * Pick the field layout for a message of the given size. Messages longer than the newest
+ * known layout come from newer firmware and are read up to the fields we know.
+ */
+export function detectRealTimeLayout(messageSize: number): URRealTimeLayout | undefined {
+  const definition = findDefinition(messageSize)
+  return definition && toLayout(definition, messageSize)
+}
+
+/**
+ * Parse one complete port-30003 message, header included
+ */
+export function parseRealTimeMessage(message: Buffer): {
+  state: URRobotState
+  layout: URRealTimeLayout
+} {
+  if (message.length < HEADER_SIZE) {
+    throw new Error(`Real-time message of ${message.length} bytes has no length header`)
+  }
+
+  const messageSize = message.readInt32BE(0)
+  if (message.length < messageSize) {
+    throw new Error(`Real-time message truncated: ${message.length} of ${messageSize} bytes`)
+  }
+
+  const definition = findDefinition(messageSize)
+  if (!definition) {
+    throw new Error(`Unknown real-time message size ${messageSize}`)
+  }
+
+  const state: Partial<Record<keyof URRobotState, number | number[]>> = {}
+  let offset = HEADER_SIZE
+
+  for (const [name, doubles] of definition.fields) {
+    if (name) {
+      const values = Array.from({ length: doubles }, (_, index) =>
+        message.readDoubleBE(offset + index * 8)
+      )
+      state[name] = doubles === 1 ? values[0] : values
+    }
+    offset += doubles * 8
+  }
+
+  return { state: state as unknown as URRobotState, layout: toLayout(definition, messageSize) }
+}
+
+function findDefinition(messageSize: number): LayoutDefinition | undefined {
+  return (
+    LAYOUTS.find((candidate) => candidate.messageSize === messageSize) ||
+    (messageSize > NEWEST_LAYOUT.messageSize && messageSize <= MAX_MESSAGE_SIZE
+      ? NEWEST_LAYOUT
+      : undefined)
+  )
+}
+
+function toLayout(definition: LayoutDefinition, messageSize: number): URRealTimeLayout {
+  return {
+    controller: definition.controller,
+    firmware: definition.firmware,
+    messageSize,
+  }
+}
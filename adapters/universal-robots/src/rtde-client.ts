@@ -0,0 +1,756 @@
+import * as net from 'net'
+import {
+  TelemetryData,
+  CoordinateFrame,
+  AngleUnit,
+  VelocityUnit,
+  AngularVelocityUnit,
+  ForceUnit,
+  TorqueUnit,
+  TemperatureUnit,
+  VoltageUnit,
+  CurrentUnit,
+} from '@urfmp/types'
+import { createLinkStats, recordLinkError } from './link-stats'
+import {
+  URConfig,
+  URLinkStats,
+  URControllerVersion,
+  URSafetyMode,
+  RTDECommand,
+  RTDEDataType,
+  RTDEOptions,
+  RTDERecipe,
+  RTDESample,
+  RTDEValue,
+} from './types'
+
+const HEADER_SIZE = 3 // uint16 package size + uint8 package type
+
+const TYPE_SIZES: Record<RTDEDataType, number> = {
+  BOOL: 1,
+  UINT8: 1,
+  UINT32: 4,
+  UINT64: 8,
+  INT32: 4,
+  DOUBLE: 8,
+  VECTOR3D: 24,
+  VECTOR6D: 48,
+  VECTOR6INT32: 24,
+  VECTOR6UINT32: 24,
+}
+
+const MAX_FREQUENCY_CB3 = 125
+const MAX_FREQUENCY_E_SERIES = 500
+
+// Outputs needed to fill TelemetryData, requested when no recipe is configured
+export const RTDE_TELEMETRY_OUTPUTS = [
+  'timestamp',
+  'actual_q',
+  'actual_qd',
+  'actual_current',
+  'actual_TCP_pose',
+  'actual_TCP_speed',
+  'actual_TCP_force',
+  'joint_temperatures',
+  'actual_joint_voltage',
+  'actual_main_voltage',
+  'actual_robot_current',
+  'robot_mode',
+  'safety_mode',
+  'runtime_state',
+  'speed_scaling',
+  'actual_digital_input_bits',
+  'actual_digital_output_bits',
+]
+
+// Outputs with a dedicated place in TelemetryData, everything else lands in `custom`
+const MAPPED_OUTPUTS = new Set([
+  'timestamp',
+  'actual_q',
+  'actual_qd',
+  'actual_current',
+  'actual_TCP_pose',
+  'actual_TCP_speed',
+  'actual_TCP_force',
+  'joint_temperatures',
+  'actual_joint_voltage',
+  'actual_main_voltage',
+  'actual_robot_current',
+  'safety_mode',
+])
+
+interface PendingRequest {
+  type: RTDECommand
+  resolve: (payload: Buffer) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+export class URRTDEClient {
+  private config: URConfig
+  private options: Required<RTDEOptions>
+  private socket?: net.Socket
+  private connected = false
+  private running = false
+  private buffer = Buffer.alloc(0)
+  private pending?: PendingRequest
+  private requestChain: Promise<unknown> = Promise.resolve()
+  private protocolVersion = 0
+  private controllerVersion?: URControllerVersion
+  private outputRecipes = new Map<number, RTDERecipe>()
+  private inputRecipes = new Map<string, RTDERecipe>()
+  private latestSample?: RTDESample
+  private dataCallback?: (sample: RTDESample) => void
+  private stats = createLinkStats()
+
+  constructor(config: URConfig, options: RTDEOptions = {}) {
+    this.config = config
+    this.options = {
+      frequency: options.frequency || MAX_FREQUENCY_CB3,
+      outputs: options.outputs || RTDE_TELEMETRY_OUTPUTS,
+      protocolVersion: options.protocolVersion || 2,
+    }
+  }
+
+  /**
+   * Connect, negotiate the protocol, set up the output recipe and start synchronization
+   */
+  async connect(): Promise<void> {
+    await this.openSocket()
+
+    try {
+      await this.negotiateProtocolVersion()
+      this.controllerVersion = await this.getControllerVersion()
+      await this.setupOutputs(this.options.outputs, this.options.frequency)
+      await this.start()
+
+      console.log(
+        `Connected to UR RTDE interface at ${this.config.host}:${this.getPort()} ` +
+          `(protocol v${this.protocolVersion}, ${this.options.frequency} Hz)`
+      )
+    } catch (error) {
+      await this.disconnect()
+      throw error
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false
+    this.running = false
+    this.rejectPending(new Error('RTDE connection closed'))
+
+    if (this.socket) {
+      this.socket.destroy()
+      this.socket = undefined
+    }
+
+    this.buffer = Buffer.alloc(0)
+    this.outputRecipes.clear()
+    this.inputRecipes.clear()
+  }
+
+  onData(callback: (sample: RTDESample) => void): void {
+    this.dataCallback = callback
+  }
+
+  getLatestSample(): RTDESample | undefined {
+    return this.latestSample
+  }
+
+  /**
+   * Map the latest sample onto TelemetryData
+   */
+  getTelemetryData(): TelemetryData {
+    if (!this.latestSample) {
+      throw new Error('No RTDE data received yet')
+    }
+    return mapRTDESampleToTelemetry(this.latestSample)
+  }
+
+  /**
+   * Set up an output recipe, the controller streams it at the given frequency once started
+   */
+  async setupOutputs(
+    variables: string[],
+    frequency: number = this.options.frequency
+  ): Promise<RTDERecipe> {
+    const maxFrequency = this.getMaxFrequency()
+    if (!(frequency > 0 && frequency <= maxFrequency)) {
+      throw new Error(`RTDE frequency must be between 1 and ${maxFrequency} Hz for this controller`)
+    }
+
+    const names = Buffer.from(variables.join(','), 'utf8')
+    let payload = names
+    if (this.protocolVersion >= 2) {
+      payload = Buffer.alloc(8 + names.length)
+      payload.writeDoubleBE(frequency, 0)
+      names.copy(payload, 8)
+    }
+
+    const reply = await this.request(RTDECommand.CONTROL_PACKAGE_SETUP_OUTPUTS, payload)
+
+    // Protocol v1 has a single output recipe and no recipe id
+    const id = this.protocolVersion >= 2 ? reply.readUInt8(0) : 0
+    const types = this.parseVariableTypes(
+      reply.subarray(this.protocolVersion >= 2 ? 1 : 0),
+      variables,
+      'output'
+    )
+
+    const recipe: RTDERecipe = { id, variables, types, frequency }
+    this.outputRecipes.set(id, recipe)
+    return recipe
+  }
+
+  /**
+   * Set up an input recipe for writing registers or other controller inputs
+   */
+  async setupInputs(variables: string[]): Promise<RTDERecipe> {
+    const reply = await this.request(
+      RTDECommand.CONTROL_PACKAGE_SETUP_INPUTS,
+      Buffer.from(variables.join(','), 'utf8')
+    )
+
+    const recipe: RTDERecipe = {
+      id: reply.readUInt8(0),
+      variables,
+      types: this.parseVariableTypes(reply.subarray(1), variables, 'input'),
+    }
+
+    this.inputRecipes.set(variables.join(','), recipe)
+    return recipe
+  }
+
+  /**
+   * Send values for every variable of an input recipe
+   */
+  sendInputs(recipe: RTDERecipe, values: Record<string, RTDEValue>): void {
+    if (!this.socket || !this.connected) {
+      throw new Error('Not connected to RTDE interface')
+    }
+
+    const chunks: Buffer[] = [Buffer.from([recipe.id])]
+    recipe.variables.forEach((name, index) => {
+      if (values[name] === undefined) {
+        throw new Error(`Missing value for RTDE input ${name}`)
+      }
+      chunks.push(this.encodeValue(recipe.types[index], values[name], name))
+    })
+
+    this.writePackage(RTDECommand.DATA_PACKAGE, Buffer.concat(chunks))
+  }
+
+  /**
+   * Write input registers or other inputs, setting up a recipe for them on first use
+   * e.g. { input_int_register_24: 3, input_double_register_24: 0.5 }
+   */
+  async writeInputs(values: Record<string, RTDEValue>): Promise<void> {
+    const variables = Object.keys(values)
+    if (variables.length === 0) {
+      return
+    }
+
+    let recipe = this.inputRecipes.get(variables.join(','))
+    if (!recipe) {
+      // Recipes can only be set up while synchronization is paused
+      const wasRunning = this.running
+      if (wasRunning) await this.pause()
+      try {
+        recipe = await this.setupInputs(variables)
+      } finally {
+        if (wasRunning) await this.start()
+      }
+    }
+
+    this.sendInputs(recipe, values)
+  }
+
+  async start(): Promise<void> {
+    const reply = await this.request(RTDECommand.CONTROL_PACKAGE_START)
+    if (reply.readUInt8(0) !== 1) {
+      throw new Error('RTDE controller refused to start synchronization')
+    }
+    this.running = true
+  }
+
+  async pause(): Promise<void> {
+    const reply = await this.request(RTDECommand.CONTROL_PACKAGE_PAUSE)
+    if (reply.readUInt8(0) !== 1) {
+      throw new Error('RTDE controller refused to pause synchronization')
+    }
+    this.running = false
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  getConnectionInfo(): {
+    connected: boolean
+    running: boolean
+    protocolVersion: number
+    controllerVersion?: URControllerVersion
+    maxFrequency: number
+    outputRecipes: RTDERecipe[]
+    inputRecipes: RTDERecipe[]
+  } {
+    return {
+      connected: this.connected,
+      running: this.running,
+      protocolVersion: this.protocolVersion,
+      controllerVersion: this.controllerVersion,
+      maxFrequency: this.getMaxFrequency(),
+      outputRecipes: Array.from(this.outputRecipes.values()),
+      inputRecipes: Array.from(this.inputRecipes.values()),
+    }
+  }
+
+  getLinkStats(): URLinkStats {
+    return { ...this.stats }
+  }
+
+  private getPort(): number {
+    return this.config.rtdePort || 30004
+  }
+
+  private getMaxFrequency(): number {
+    // e-Series controllers run PolyScope 5 and sample at 500 Hz, CB3 at 125 Hz
+    return (this.controllerVersion?.major || 0) >= 5 ? MAX_FREQUENCY_E_SERIES : MAX_FREQUENCY_CB3
+  }
+
+  private openSocket(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new net.Socket()
+      this.socket = socket
+
+      socket.setTimeout(this.config.timeout || 5000, () => {
+        socket.destroy()
+        reject(new Error('RTDE connection timeout'))
+      })
+
+      socket.connect(this.getPort(), this.config.host, () => {
+        socket.setTimeout(0)
+        this.connected = true
+        resolve()
+      })
+
+      socket.on('data', (chunk: Buffer) => this.handleData(chunk))
+
+      socket.on('error', (error) => {
+        this.connected = false
+        this.running = false
+        recordLinkError(this.stats)
+        this.rejectPending(new Error(`RTDE connection error: ${error.message}`))
+        reject(new Error(`RTDE connection failed: ${error.message}`))
+      })
+
+      socket.on('close', () => {
+        this.connected = false
+        this.running = false
+        this.rejectPending(new Error('RTDE connection closed'))
+      })
+    })
+  }
+
+  private async negotiateProtocolVersion(): Promise<number> {
+    for (let version: number = this.options.protocolVersion; version >= 1; version--) {
+      const payload = Buffer.alloc(2)
+      payload.writeUInt16BE(version, 0)
+
+      const reply = await this.request(RTDECommand.REQUEST_PROTOCOL_VERSION, payload)
+      if (reply.readUInt8(0) === 1) {
+        this.protocolVersion = version
+        return version
+      }
+    }
+
+    throw new Error('RTDE controller does not support a compatible protocol version')
+  }
+
+  private async getControllerVersion(): Promise<URControllerVersion> {
+    const reply = await this.request(RTDECommand.GET_URCONTROL_VERSION)
+    return {
+      major: reply.readUInt32BE(0),
+      minor: reply.readUInt32BE(4),
+      bugfix: reply.readUInt32BE(8),
+      build: reply.readUInt32BE(12),
+    }
+  }
+
+  private parseVariableTypes(
+    reply: Buffer,
+    variables: string[],
+    direction: 'input' | 'output'
+  ): RTDEDataType[] {
+    const types = reply.toString('utf8').split(',')
+
+    const notFound = variables.filter((_, index) => types[index] === 'NOT_FOUND')
+    if (notFound.length > 0) {
+      throw new Error(`RTDE ${direction} variables not found: ${notFound.join(', ')}`)
+    }
+
+    const inUse = variables.filter((_, index) => types[index] === 'IN_USE')
+    if (inUse.length > 0) {
+      throw new Error(`RTDE ${direction} variables already in use: ${inUse.join(', ')}`)
+    }
+
+    return types as RTDEDataType[]
+  }
+
+  // Requests are answered by a package of the same type, so only one is in flight at a time
+  private request(type: RTDECommand, payload: Buffer = Buffer.alloc(0)): Promise<Buffer> {
+    const result = this.requestChain.then(() => this.sendRequest(type, payload))
+    this.requestChain = result.catch(() => undefined)
+    return result
+  }
+
+  private sendRequest(type: RTDECommand, payload: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.connected) {
+        reject(new Error('Not connected to RTDE interface'))
+        return
+      }
+
+      const timer = setTimeout(() => {
+        this.pending = undefined
+        reject(new Error(`RTDE request ${RTDECommand[type]} timed out`))
+      }, this.config.timeout || 5000)
+
+      this.pending = { type, resolve, reject, timer }
+      this.writePackage(type, payload)
+    })
+  }
+
+  private rejectPending(error: Error): void {
+    if (this.pending) {
+      clearTimeout(this.pending.timer)
+      this.pending.reject(error)
+      this.pending = undefined
+    }
+  }
+
+  private writePackage(type: RTDECommand, payload: Buffer): void {
+    const header = Buffer.alloc(HEADER_SIZE)
+    header.writeUInt16BE(HEADER_SIZE + payload.length, 0)
+    header.writeUInt8(type, 2)
+    if (!this.socket) {
+      return
+    }
+
+    this.socket.write(Buffer.concat([header, payload]))
+    this.stats.bytesSent += HEADER_SIZE + payload.length
+    this.stats.messagesSent++
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.stats.bytesReceived += chunk.length
+    this.buffer = Buffer.concat([this.buffer, chunk])
+
+    while (this.buffer.length >= HEADER_SIZE) {
+      const size = this.buffer.readUInt16BE(0)
+      if (size < HEADER_SIZE) {
+        // A size smaller than the header means the stream is out of step, drop what we have
+        console.error(`Invalid RTDE package size ${size}, discarding buffered data`)
+        recordLinkError(this.stats)
+        this.buffer = Buffer.alloc(0)
+        return
+      }
+
+      if (this.buffer.length < size) {
+        return
+      }
+
+      const type = this.buffer.readUInt8(2)
+      const payload = this.buffer.subarray(HEADER_SIZE, size)
+      this.buffer = this.buffer.subarray(size)
+      this.stats.messagesReceived++
+
+      this.handlePackage(type, payload)
+    }
+  }
+
+  private handlePackage(type: number, payload: Buffer): void {
+    if (type === RTDECommand.DATA_PACKAGE) {
+      this.handleDataPackage(payload)
+      return
+    }
+
+    if (type === RTDECommand.TEXT_MESSAGE) {
+      this.handleTextMessage(payload)
+      return
+    }
+
+    if (this.pending && this.pending.type === type) {
+      const { resolve, timer } = this.pending
+      clearTimeout(timer)
+      this.pending = undefined
+      resolve(payload)
+    }
+  }
+
+  private handleDataPackage(payload: Buffer): void {
+    const hasRecipeId = this.protocolVersion >= 2
+    const recipeId = hasRecipeId ? payload.readUInt8(0) : 0
+    const recipe = this.outputRecipes.get(recipeId)
+    if (!recipe) {
+      return
+    }
+
+    const expectedSize = recipe.types.reduce(
+      (size, type) => size + TYPE_SIZES[type],
+      hasRecipeId ? 1 : 0
+    )
+    if (payload.length < expectedSize) {
+      console.error(
+        `RTDE data package for recipe ${recipeId} is ${payload.length} bytes, expected ${expectedSize}`
+      )
+      return
+    }
+
+    let offset = hasRecipeId ? 1 : 0
+    const values: Record<string, RTDEValue> = {}
+    recipe.variables.forEach((name, index) => {
+      const type = recipe.types[index]
+      values[name] = this.decodeValue(type, payload, offset)
+      offset += TYPE_SIZES[type]
+    })
+
+    const sample: RTDESample = { recipeId, receivedAt: new Date(), values }
+    this.latestSample = sample
+
+    if (this.dataCallback) {
+      this.dataCallback(sample)
+    }
+  }
+
+  private handleTextMessage(payload: Buffer): void {
+    if (this.protocolVersion < 2) {
+      console.log(`RTDE message: ${payload.toString('utf8')}`)
+      return
+    }
+
+    // uint8 length + message, uint8 length + source, uint8 warning level
+    const messageLength = payload.readUInt8(0)
+    const message = payload.toString('utf8', 1, 1 + messageLength)
+    const sourceLength = payload.readUInt8(1 + messageLength)
+    const source = payload.toString('utf8', 2 + messageLength, 2 + messageLength + sourceLength)
+    const level = payload.readUInt8(2 + messageLength + sourceLength)
+
+    // 0 exception, 1 error, 2 warning, 3 info
+    const log = level <= 1 ? console.error : level === 2 ? console.warn : console.log
+    log(`RTDE message from ${source}: ${message}`)
+  }
+
+  private decodeValue(type: RTDEDataType, buffer: Buffer, offset: number): RTDEValue {
+    const read = (count: number, size: number, reader: (at: number) => number): number[] =>
+      Array.from({ length: count }, (_, index) => reader(offset + index * size))
+
+    switch (type) {
+      case 'BOOL':
+        return buffer.readUInt8(offset) !== 0
+      case 'UINT8':
+        return buffer.readUInt8(offset)
+      case 'UINT32':
+        return buffer.readUInt32BE(offset)
+      case 'UINT64':
+        return Number(buffer.readBigUInt64BE(offset))
+      case 'INT32':
+        return buffer.readInt32BE(offset)
+      case 'DOUBLE':
+        return buffer.readDoubleBE(offset)
+      case 'VECTOR3D':
+        return read(3, 8, (at) => buffer.readDoubleBE(at))
+      case 'VECTOR6D':
+        return read(6, 8, (at) => buffer.readDoubleBE(at))
+      case 'VECTOR6INT32':
+        return read(6, 4, (at) => buffer.readInt32BE(at))
+      case 'VECTOR6UINT32':
+        return read(6, 4, (at) => buffer.readUInt32BE(at))
+      default:
+        throw new Error(`Unsupported RTDE type ${type}`)
+    }
+  }
+
+  private encodeValue(type: RTDEDataType, value: RTDEValue, name: string): Buffer {
+    const buffer = Buffer.alloc(TYPE_SIZES[type])
+
+    const vector = (count: number): number[] => {
+      if (!Array.isArray(value) || value.length !== count) {
+        throw new Error(`RTDE input ${name} must be an array of ${count} numbers`)
+      }
+      return value
+    }
+
+    switch (type) {
+      case 'BOOL':
+      case 'UINT8':
+        buffer.writeUInt8(Number(value), 0)
+        break
+      case 'UINT32':
+        buffer.writeUInt32BE(Number(value), 0)
+        break
+      case 'UINT64':
+        buffer.writeBigUInt64BE(BigInt(Number(value)), 0)
+        break
+      case 'INT32':
+        buffer.writeInt32BE(Number(value), 0)
+        break
+      case 'DOUBLE':
+        buffer.writeDoubleBE(Number(value), 0)
+        break
+      case 'VECTOR3D':
+        vector(3).forEach((item, index) => buffer.writeDoubleBE(item, index * 8))
+        break
+      case 'VECTOR6D':
+        vector(6).forEach((item, index) => buffer.writeDoubleBE(item, index * 8))
+        break
+      case 'VECTOR6INT32':
+        vector(6).forEach((item, index) => buffer.writeInt32BE(item, index * 4))
+        break
+      case 'VECTOR6UINT32':
+        vector(6).forEach((item, index) => buffer.writeUInt32BE(item, index * 4))
+        break
+      default:
+        throw new Error(`Unsupported RTDE type ${type}`)
+    }
+
+    return buffer
+  }
+}
+
+/**
+ * Map an RTDE sample onto TelemetryData, outputs without a dedicated field go to `custom`
+ */
+export function mapRTDESampleToTelemetry(sample: RTDESample): TelemetryData {
+  const { values } = sample
+
+  const vector = (name: string): number[] | undefined => {
+    const value = values[name]
+    return Array.isArray(value) ? value : undefined
+  }
+  const scalar = (name: string): number | undefined => {
+    const value = values[name]
+    return typeof value === 'number' ? value : undefined
+  }
+  const joints = (value: number[]) => ({
+    joint1: value[0],
+    joint2: value[1],
+    joint3: value[2],
+    joint4: value[3],
+    joint5: value[4],
+    joint6: value[5],
+  })
+  const magnitude = (a: number, b: number, c: number) => Math.sqrt(a ** 2 + b ** 2 + c ** 2)
+
+  const data: TelemetryData = {}
+
+  const pose = vector('actual_TCP_pose')
+  if (pose) {
+    data.position = {
+      x: pose[0],
+      y: pose[1],
+      z: pose[2],
+      rx: pose[3],
+      ry: pose[4],
+      rz: pose[5],
+      frame: CoordinateFrame.BASE,
+    }
+  }
+
+  const q = vector('actual_q')
+  if (q) {
+    data.jointAngles = { ...joints(q), unit: AngleUnit.RADIANS }
+  }
+
+  const speed = vector('actual_TCP_speed')
+  const qd = vector('actual_qd')
+  if (speed || qd) {
+    data.velocity = {}
+    if (speed) {
+      data.velocity.linear = {
+        x: speed[0],
+        y: speed[1],
+        z: speed[2],
+        magnitude: magnitude(speed[0], speed[1], speed[2]),
+        unit: VelocityUnit.METERS_PER_SECOND,
+      }
+      data.velocity.angular = {
+        rx: speed[3],
+        ry: speed[4],
+        rz: speed[5],
+        unit: AngularVelocityUnit.RADIANS_PER_SECOND,
+      }
+    }
+    if (qd) {
+      data.velocity.joint = { ...joints(qd), unit: AngularVelocityUnit.RADIANS_PER_SECOND }
+    }
+  }
+
+  const wrench = vector('actual_TCP_force')
+  if (wrench) {
+    data.force = {
+      x: wrench[0],
+      y: wrench[1],
+      z: wrench[2],
+      magnitude: magnitude(wrench[0], wrench[1], wrench[2]),
+      unit: ForceUnit.NEWTONS,
+    }
+    data.torque = {
+      rx: wrench[3],
+      ry: wrench[4],
+      rz: wrench[5],
+      magnitude: magnitude(wrench[3], wrench[4], wrench[5]),
+      unit: TorqueUnit.NEWTON_METERS,
+    }
+  }
+
+  const temperatures = vector('joint_temperatures')
+  if (temperatures) {
+    data.temperature = { motor: joints(temperatures), unit: TemperatureUnit.CELSIUS }
+  }
+
+  const mainVoltage = scalar('actual_main_voltage')
+  const jointVoltages = vector('actual_joint_voltage')
+  if (mainVoltage !== undefined || jointVoltages) {
+    data.voltage = {
+      supply: mainVoltage ?? 0,
+      motor: jointVoltages ? joints(jointVoltages) : undefined,
+      unit: VoltageUnit.VOLTS,
+    }
+  }
+
+  const robotCurrent = scalar('actual_robot_current')
+  const jointCurrents = vector('actual_current')
+  if (robotCurrent !== undefined || jointCurrents) {
+    data.current = {
+      total: robotCurrent ?? 0,
+      motor: jointCurrents ? joints(jointCurrents) : undefined,
+      unit: CurrentUnit.AMPERES,
+    }
+  }
+
+  const safetyMode = scalar('safety_mode')
+  if (safetyMode !== undefined) {
+    data.safety = {
+      emergencyStop:
+        safetyMode === URSafetyMode.SAFETY_MODE_ROBOT_EMERGENCY_STOP ||
+        safetyMode === URSafetyMode.SAFETY_MODE_SYSTEM_EMERGENCY_STOP,
+      protectiveStop: safetyMode === URSafetyMode.SAFETY_MODE_PROTECTIVE_STOP,
+      reducedMode: safetyMode === URSafetyMode.SAFETY_MODE_REDUCED,
+      safetyZoneViolation: safetyMode === URSafetyMode.SAFETY_MODE_VIOLATION,
+    }
+  }
+
+  const custom: Record<string, RTDEValue> = {}
+  for (const [name, value] of Object.entries(values)) {
+    if (!MAPPED_OUTPUTS.has(name)) {
+      custom[name] = value
+    }
+  }
+  if (Object.keys(custom).length > 0) {
+    data.custom = custom
+  }
+
+  return data
+}
@@ -0,0 +1,146 @@
+import { VendorEventType } from '@urfmp/types'
+import { URProgramState, URRobotMode, URRobotState, URSafetyMode, URStateTransition } from './types'
+
+// The trajectory limiter moves speed scaling a little all the time, report steps at least this big
+const SPEED_CHANGE_THRESHOLD = 0.05
+
+const EMERGENCY_STOPS = [
+  URSafetyMode.SAFETY_MODE_ROBOT_EMERGENCY_STOP,
+  URSafetyMode.SAFETY_MODE_SYSTEM_EMERGENCY_STOP,
+]
+
+const SAFETY_STOPS = [
+  URSafetyMode.SAFETY_MODE_PROTECTIVE_STOP,
+  URSafetyMode.SAFETY_MODE_SAFEGUARD_STOP,
+  URSafetyMode.SAFETY_MODE_VIOLATION,
+  URSafetyMode.SAFETY_MODE_FAULT,
+]
+
+// Stopping, pausing and resuming pass within a few cycles, transitions are between settled states
+const SETTLED_PROGRAM_STATES = [
+  URProgramState.STOPPED,
+  URProgramState.PLAYING,
+  URProgramState.PAUSED,
+]
+
+interface TrackedValue {
+  value: number
+  since: number // Controller time the value was first seen
+}
+
+/**
+ * Diff consecutive real-time states of one robot into transitions. The first state is the
+ * baseline, fields a controller layout lacks are never reported.
+ */
+export class URStateTracker {
+  private safetyMode?: TrackedValue
+  private robotMode?: TrackedValue
+  private programState?: TrackedValue
+  private speedScaling?: TrackedValue
+
+  update(state: URRobotState): URStateTransition[] {
+    const transitions: URStateTransition[] = []
+    const now = state.timestamp
+
+    const safety = this.track('safetyMode', state.safety_mode, now)
+    if (safety) {
+      const after = safety.after as URSafetyMode
+      transitions.push({
+        ...this.describe(safety, URSafetyMode),
+        type: EMERGENCY_STOPS.includes(after)
+          ? VendorEventType.EMERGENCY_STOP
+          : SAFETY_STOPS.includes(after)
+            ? VendorEventType.SAFETY_VIOLATION
+            : VendorEventType.MODE_CHANGED,
+        property: 'safety_mode',
+      })
+    }
+
+    const robotMode = this.track('robotMode', state.robot_mode, now)
+    if (robotMode) {
+      transitions.push({
+        ...this.describe(robotMode, URRobotMode),
+        type: VendorEventType.MODE_CHANGED,
+        property: 'robot_mode',
+      })
+    }
+
+    const programState =
+      state.program_state !== undefined && SETTLED_PROGRAM_STATES.includes(state.program_state)
+        ? this.track('programState', state.program_state, now)
+        : undefined
+    if (programState) {
+      transitions.push({
+        ...this.describe(programState, URProgramState),
+        type: this.programEventType(programState.before, programState.after),
+        property: 'program_state',
+      })
+    }
+
+    const speed = this.track('speedScaling', state.speed_scaling, now, SPEED_CHANGE_THRESHOLD)
+    if (speed) {
+      transitions.push({
+        ...speed,
+        type: VendorEventType.SPEED_CHANGED,
+        property: 'speed_scaling',
+      })
+    }
+
+    return transitions
+  }
+
+  private track(
+    field: 'safetyMode' | 'robotMode' | 'programState' | 'speedScaling',
+    value: number | undefined,
+    now: number,
+    threshold = 0
+  ): { before: number; after: number; duration?: number; controllerTimestamp: number } | undefined {
+    if (value === undefined) {
+      return undefined
+    }
+
+    const previous = this[field]
+    if (!previous) {
+      this[field] = { value, since: now }
+      return undefined
+    }
+
+    const changed =
+      threshold > 0 ? Math.abs(value - previous.value) >= threshold : value !== previous.value
+    if (!changed) {
+      return undefined
+    }
+
+    this[field] = { value, since: now }
+    return {
+      before: previous.value,
+      after: value,
+      // The controller clock starts over when it reboots
+      duration: now >= previous.since ? now - previous.since : undefined,
+      controllerTimestamp: now,
+    }
+  }
+
+  private describe(
+    change: { before: number; after: number; duration?: number; controllerTimestamp: number },
+    names: Record<number, string>
+  ) {
+    return {
+      ...change,
+      before: names[change.before] || change.before,
+      after: names[change.after] || change.after,
+    }
+  }
+
+  private programEventType(before: number, after: number): VendorEventType {
+    if (after === URProgramState.PAUSED) {
+      return VendorEventType.PROGRAM_PAUSED
+    }
+    if (after === URProgramState.STOPPED) {
+      return VendorEventType.PROGRAM_STOPPED
+    }
+    return before === URProgramState.PAUSED
+      ? VendorEventType.PROGRAM_RESUMED
+      : VendorEventType.PROGRAM_STARTED
+  }
+}
@@ -1,18 +1,34 @@
 // Universal Robots specific types
 
+import { VendorEventType } from '@urfmp/types'
+
 export interface URConfig {
   host: string
   dashboardPort?: number // Default: 29999
   realTimePort?: number // Default: 30003
   primaryPort?: number // Default: 30001 (script execution)
   secondaryPort?: number // Default: 30002 (script execution)
+  rtdePort?: number // Default: 30004 (Real-Time Data Exchange)
   username?: string
   password?: string
   timeout?: number
+  autoReconnect?: boolean // URRealTimeClient reconnects by itself after a drop, default true
+}
+
+// Traffic and errors of one client since it was created, across reconnects of its socket
+export interface URLinkStats {
+  bytesReceived: number
+  bytesSent: number
+  messagesReceived: number
+  messagesSent: number
+  errors: number
+  lastErrorAt?: Date
+  averageLatency?: number // ms, request round trips of the Dashboard Server
 }
 
+// Fields after robot_mode are only sent by newer controllers, see realtime-layouts.ts
 export interface URRobotState {
-  timestamp: number
+  timestamp: number // Time elapsed since the controller was started (s)
   q_target: number[] // Target joint positions (rad)
   qd_target: number[] // Target joint velocities (rad/s)
   qdd_target: number[] // Target joint accelerations (rad/s^2)
@@ -21,31 +37,37 @@ export interface URRobotState {
   q_actual: number[] // Actual joint positions (rad)
   qd_actual: number[] // Actual joint velocities (rad/s)
   i_actual: number[] // Actual joint currents (A)
-  i_control: number[] // Joint control currents (A)
   tool_vector_actual: number[] // Actual Cartesian coordinates (m, rad)
   tcp_speed_actual: number[] // Actual speed of TCP (m/s, rad/s)
   tcp_force: number[] // Generalized forces in TCP (N, Nm)
-  tool_vector_target: number[] // Target Cartesian coordinates (m, rad)
-  tcp_speed_target: number[] // Target speed of TCP (m/s, rad/s)
   digital_input_bits: number // Current state of digital inputs
   motor_temperatures: number[] // Temperature of each joint (°C)
   controller_timer: number // Controller real-time thread execution time
   test_value: number // Test value for debugging
-  robot_mode: number // Robot mode
-  joint_modes: number[] // Joint control modes
-  safety_mode: number // Safety mode
-  safety_status: number[] // Safety status bits
   tool_accelerometer_values: number[] // Tool accelerometer values
-  speed_scaling: number // Speed scaling of the trajectory limiter
-  linear_momentum_norm: number // Norm of Cartesian linear momentum
-  v_main: number // Masterboard: main voltage
-  v_robot: number // Masterboard: robot voltage (48V)
-  i_robot: number // Masterboard: robot current
-  v_actual: number[] // Actual joint voltages
-  digital_outputs: number // Digital outputs
-  program_state: number // Program state
-  elbow_position: number[] // Elbow position
-  elbow_velocity: number[] // Elbow velocity
+  robot_mode?: number // Robot mode (CB2 1.7+)
+  joint_modes?: number[] // Joint control modes (CB2 1.8+)
+  i_control?: number[] // Joint control currents (A) (CB3+)
+  tool_vector_target?: number[] // Target Cartesian coordinates (m, rad) (CB3+)
+  tcp_speed_target?: number[] // Target speed of TCP (m/s, rad/s) (CB3+)
+  safety_mode?: number // Safety mode (CB3+)
+  speed_scaling?: number // Speed scaling of the trajectory limiter (CB3+)
+  linear_momentum_norm?: number // Norm of Cartesian linear momentum (CB3+)
+  v_main?: number // Masterboard: main voltage (CB3+)
+  v_robot?: number // Masterboard: robot voltage (48V) (CB3+)
+  i_robot?: number // Masterboard: robot current (CB3+)
+  v_actual?: number[] // Actual joint voltages (CB3+)
+  digital_outputs?: number // Digital outputs (3.2+)
+  program_state?: number // Program state (3.2+)
+  elbow_position?: number[] // Elbow position (3.5+)
+  elbow_velocity?: number[] // Elbow velocity (3.5+)
+  safety_status?: number // Safety status (3.10+ and e-Series)
+}
+
+export interface URRealTimeLayout {
+  controller: 'CB2' | 'CB3' | 'CB3/e-Series'
+  firmware: string // Controller software versions sending this layout
+  messageSize: number // Bytes, including the int32 length header
 }
 
 export interface URProgramInfo {
@@ -71,6 +93,16 @@ export interface URSafetyInfo {
   protectiveStopTriggered: boolean
 }
 
+// Operational mode is e-Series only, user roles are CB3 only
+export type UROperationalMode = 'MANUAL' | 'AUTOMATIC' | 'NONE'
+
+export type URUserRole = 'PROGRAMMER' | 'OPERATOR' | 'NONE' | 'LOCKED' | 'RESTRICTED'
+
+export interface URDashboardResult {
+  success: boolean
+  message?: string
+}
+
 export enum URRobotMode {
   ROBOT_MODE_NO_CONTROLLER = -1,
   ROBOT_MODE_DISCONNECTED = 0,
@@ -96,6 +128,26 @@ export enum URSafetyMode {
   SAFETY_MODE_FAULT = 9,
 }
 
+// Program state of the real-time interface (3.2+), the same codes as RTDE runtime_state
+export enum URProgramState {
+  STOPPING = 0,
+  STOPPED = 1,
+  PLAYING = 2,
+  PAUSING = 3,
+  PAUSED = 4,
+  RESUMING = 5,
+}
+
+// A change of one real-time state value, before and after are enum names or the speed fraction
+export interface URStateTransition {
+  type: VendorEventType
+  property: 'safety_mode' | 'robot_mode' | 'program_state' | 'speed_scaling'
+  before: string | number
+  after: string | number
+  duration?: number // Seconds the before value lasted, controller time
+  controllerTimestamp: number // Seconds since the controller started
+}
+
 export interface URJointInfo {
   position: number // radians
   velocity: number // rad/s
@@ -118,3 +170,153 @@ export interface URErrorInfo {
   severity: 'INFO' | 'WARNING' | 'ERROR' | 'CRITICAL'
   timestamp: Date
 }
+
+// RTDE (Real-Time Data Exchange, port 30004)
+
+export enum RTDECommand {
+  REQUEST_PROTOCOL_VERSION = 86, // 'V'
+  GET_URCONTROL_VERSION = 118, // 'v'
+  TEXT_MESSAGE = 77, // 'M'
+  DATA_PACKAGE = 85, // 'U'
+  CONTROL_PACKAGE_SETUP_OUTPUTS = 79, // 'O'
+  CONTROL_PACKAGE_SETUP_INPUTS = 73, // 'I'
+  CONTROL_PACKAGE_START = 83, // 'S'
+  CONTROL_PACKAGE_PAUSE = 80, // 'P'
+}
+
+export type RTDEDataType =
+  | 'BOOL'
+  | 'UINT8'
+  | 'UINT32'
+  | 'UINT64'
+  | 'INT32'
+  | 'DOUBLE'
+  | 'VECTOR3D'
+  | 'VECTOR6D'
+  | 'VECTOR6INT32'
+  | 'VECTOR6UINT32'
+
+export type RTDEValue = number | boolean | number[]
+
+export interface RTDERecipe {
+  id: number
+  variables: string[]
+  types: RTDEDataType[]
+  frequency?: number // Output recipes only
+}
+
+export interface RTDESample {
+  recipeId: number
+  receivedAt: Date
+  values: Record<string, RTDEValue>
+}
+
+export interface RTDEOptions {
+  frequency?: number // Hz, up to 125 on CB3 and 500 on e-Series
+  outputs?: string[] // Output recipe variables, defaults to the telemetry set
+  protocolVersion?: 1 | 2 // Highest version to negotiate, default 2
+}
+
+export interface URControllerVersion {
+  major: number
+  minor: number
+  bugfix: number
+  build: number
+}
+
+// Primary and secondary interfaces (ports 30001/30002)
+
+export enum URMessageType {
+  ROBOT_STATE = 16,
+  ROBOT_MESSAGE = 20,
+  PROGRAM_STATE_MESSAGE = 25,
+}
+
+export enum URRobotMessageType {
+  TEXT = 0,
+  PROGRAM_LABEL = 1,
+  VERSION = 3,
+  SAFETY_MODE = 5,
+  ERROR_CODE = 6,
+  KEY = 7,
+  REQUEST_VALUE = 9,
+  RUNTIME_EXCEPTION = 10,
+}
+
+export enum URReportLevel {
+  DEBUG = 0,
+  INFO = 1,
+  WARNING = 2,
+  VIOLATION = 3,
+  FAULT = 4,
+  DEVL_DEBUG = 128,
+  DEVL_INFO = 129,
+  DEVL_WARNING = 130,
+  DEVL_VIOLATION = 131,
+  DEVL_FAULT = 132,
+}
+
+interface URRobotMessageBase {
+  timestamp: number // Controller clock, microseconds
+  source: number
+}
+
+export interface URTextMessage extends URRobotMessageBase {
+  type: URRobotMessageType.TEXT
+  text: string
+}
+
+export interface URVersionMessage extends URRobotMessageBase {
+  type: URRobotMessageType.VERSION
+  projectName: string
+  major: number
+  minor: number
+  bugfix: number
+  build: number
+  buildDate: string
+}
+
+export interface URErrorCodeMessage extends URRobotMessageBase {
+  type: URRobotMessageType.ERROR_CODE
+  code: string // As shown on the teach pendant, e.g. C204A3
+  messageCode: number
+  messageArgument: number
+  reportLevel: URReportLevel
+  dataType: number
+  data: number
+  text: string
+}
+
+export interface URSafetyModeMessage extends URRobotMessageBase {
+  type: URRobotMessageType.SAFETY_MODE
+  code: string
+  messageCode: number
+  messageArgument: number
+  safetyMode: URSafetyMode
+  reportDataType: number
+  reportData: number
+}
+
+export interface URKeyMessage extends URRobotMessageBase {
+  type: URRobotMessageType.KEY
+  code: string
+  messageCode: number
+  messageArgument: number
+  title: string
+  text: string
+}
+
+export interface URRuntimeExceptionMessage extends URRobotMessageBase {
+  type: URRobotMessageType.RUNTIME_EXCEPTION
+  line: number
+  column: number
+  text: string
+}
+
+export type URRobotMessage =
+  | URTextMessage
+  | URVersionMessage
+  | URErrorCodeMessage
+  | URSafetyModeMessage
+  | URKeyMessage
+  | URRuntimeExceptionMessage
@@ -0,0 +1,249 @@
+import { EventEmitter } from 'events'
+import {
+  BaseVendorAdapter,
+  CommandResult,
+  ConnectionProtocol,
+  ConnectionStatus,
+  createConnectionConfigSchema,
+  EventCallback,
+  EventSubscription,
+  RobotCommand,
+  RobotCommandType,
+  RobotInfo,
+  RobotStatus,
+  RobotTelemetry,
+  RobotVendor,
+  TemperatureUnit,
+  ValidationResult,
+  VendorConnection,
+  VendorAdapterPlugin,
+  VendorConnectionConfig,
+  VendorEventType,
+  VendorFeatures,
+} from '@urfmp/types'
+import { describeAdapterConformance } from '../conformance'
+
+// In-process robots by port, standing in for a controller on the network
+const robots = new Map<number, EventEmitter>()
+let nextPort = 40000
+
+/**
+ * Smallest adapter that honors the contract, keeps the kit itself honest and shows what an
+ * adapter has to do to pass it
+ */
+class ReferenceAdapter extends BaseVendorAdapter {
+  vendor = RobotVendor.CUSTOM
+
+  private connections = new Map<string, VendorConnection>()
+  private subscriptions = new Map<string, { subscription: EventSubscription; stop: () => void }>()
+
+  async connect(config: VendorConnectionConfig): Promise<VendorConnection> {
+    const validation = this.validateConfig(config)
+    if (!validation.valid) {
+      throw new Error(
+        `Invalid configuration: ${validation.errors.map((e) => e.message).join(', ')}`
+      )
+    }
+
+    const connection = this.createConnection(config)
+    if (!robots.has(config.port)) {
+      connection.status = ConnectionStatus.ERROR
+      throw new Error(`Connection refused by ${config.host}:${config.port}`)
+    }
+
+    connection.robotId = `reference-${config.port}`
+    connection.status = ConnectionStatus.CONNECTED
+    this.connections.set(connection.id, connection)
+    return connection
+  }
+
+  async disconnect(connectionId: string): Promise<void> {
+    const connection = this.getConnection(connectionId)
+    for (const [id, { subscription }] of this.subscriptions) {
+      if (subscription.connectionId === connectionId) {
+        await this.unsubscribeFromEvents(id)
+      }
+    }
+    connection.status = ConnectionStatus.DISCONNECTED
+    this.connections.delete(connectionId)
+  }
+
+  async sendCommand(connectionId: string, command: RobotCommand): Promise<CommandResult> {
+    this.getConnection(connectionId)
+    const startTime = Date.now()
+    const supported = command.type === RobotCommandType.START
+
+    return {
+      success: supported,
+      commandId: command.id,
+      ...(supported ? {} : { error: `Unsupported command type: ${command.type}` }),
+      executionTime: Date.now() - startTime,
+      timestamp: new Date(),
+    }
+  }
+
+  async getTelemetry(connectionId: string): Promise<RobotTelemetry> {
+    const connection = this.getConnection(connectionId)
+    return {
+      id: `telemetry-${Date.now()}`,
+      robotId: connection.robotId,
+      timestamp: new Date(),
+      data: {},
+    }
+  }
+
+  async getRobotInfo(connectionId: string): Promise<RobotInfo> {
+    const connection = this.getConnection(connectionId)
+    const range = { min: -1000, max: 1000, unit: 'mm' }
+    return {
+      model: 'Reference',
+      serialNumber: connection.robotId,
+      firmwareVersion: '1.0.0',
+      manufacturer: 'URFMP',
+      capabilities: [],
+      specifications: {
+        axes: 6,
+        payload: 5,
+        reach: 850,
+        repeatability: 0.03,
+        maxSpeed: 1000,
+        maxAcceleration: 2000,
+        workingRange: { x: range, y: range, z: range },
+        operatingTemperature: { min: 0, max: 50, unit: TemperatureUnit.CELSIUS },
+        power: { voltage: 230, frequency: 50, consumption: 200, phases: 1 },
+        dimensions: { length: 200, width: 200, height: 1000 },
+        weight: 20,
+      },
+      status: RobotStatus.ONLINE,
+    }
+  }
+
+  async subscribeToEvents(
+    connectionId: string,
+    callback: EventCallback
+  ): Promise<EventSubscription> {
+    const connection = this.getConnection(connectionId)
+    const robot = robots.get(connection.config.port)!
+    const subscription: EventSubscription = {
+      id: `sub-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      userId: '',
+      organizationId: '',
+      name: `Reference Events ${connectionId}`,
+      filter: { types: [] },
+      channels: [],
+      enabled: true,
+      connectionId,
+      active: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+
+    const listener = (type: VendorEventType) =>
+      callback({
+        id: `evt-${Date.now()}`,
+        type,
+        robotId: connection.robotId,
+        data: {},
+        timestamp: new Date(),
+        source: 'reference',
+      })
+    robot.on('event', listener)
+
+    this.subscriptions.set(subscription.id, {
+      subscription,
+      stop: () => robot.off('event', listener),
+    })
+    return subscription
+  }
+
+  async unsubscribeFromEvents(subscriptionId: string): Promise<void> {
+    const entry = this.subscriptions.get(subscriptionId)
+    if (entry) {
+      entry.stop()
+      entry.subscription.active = false
+      this.subscriptions.delete(subscriptionId)
+    }
+  }
+
+  async validateConnection(config: VendorConnectionConfig): Promise<ValidationResult> {
+    const validation = this.validateConfig(config)
+    if (config.protocol !== ConnectionProtocol.TCP) {
+      validation.errors.push({
+        field: 'protocol',
+        message: 'Only TCP is supported',
+        code: 'UNSUPPORTED_PROTOCOL',
+      })
+    }
+    return { ...validation, valid: validation.errors.length === 0 }
+  }
+
+  getSupportedFeatures(): VendorFeatures {
+    return {
+      supportsRealTimeControl: false,
+      supportsFileTransfer: false,
+      supportsRemoteAccess: false,
+      supportsVideoStream: false,
+      supportsForceControl: false,
+      supportsCollisionDetection: false,
+      supportsSafetyMonitoring: false,
+      supportsPathPlanning: false,
+      supportsCalibration: false,
+      supportsOTA: false,
+      customFeatures: [],
+    }
+  }
+
+  private getConnection(connectionId: string): VendorConnection {
+    const connection = this.connections.get(connectionId)
+    if (!connection) {
+      throw new Error(`Connection ${connectionId} not available`)
+    }
+    return connection
+  }
+}
+
+const referencePlugin: VendorAdapterPlugin = {
+  config: {
+    name: 'reference',
+    version: '0.1.0',
+    description: 'In-process reference adapter',
+    author: 'URFMP Team',
+    license: 'MIT',
+    supportedRobots: [],
+    defaultConfig: { host: '127.0.0.1', port: 40000, protocol: ConnectionProtocol.TCP },
+    configSchema: createConnectionConfigSchema({
+      protocols: [ConnectionProtocol.TCP],
+      port: 40000,
+    }),
+    features: new ReferenceAdapter().getSupportedFeatures(),
+  },
+  createAdapter: () => new ReferenceAdapter(),
+}
+
+describeAdapterConformance({
+  name: 'reference adapter conformance',
+  createAdapter: () => new ReferenceAdapter(),
+  startEndpoint: async () => {
+    const port = nextPort++
+    const robot = new EventEmitter()
+    robots.set(port, robot)
+
+    return {
+      config: { host: '127.0.0.1', port, protocol: ConnectionProtocol.TCP, timeout: 1000 },
+      triggerEvent: () => {
+        robot.emit('event', VendorEventType.STATUS_CHANGED)
+      },
+      stop: async () => {
+        robots.delete(port)
+      },
+    }
+  },
+  supportedCommand: { type: RobotCommandType.START },
+  invalidConfigs: [
+    {
+      config: { host: '127.0.0.1', port: 40000, protocol: ConnectionProtocol.UDP },
+      field: 'protocol',
+    },
+  ],
+  plugin: referencePlugin,
+})
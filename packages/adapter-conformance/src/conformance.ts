@@ -0,0 +1,488 @@
+import {
+  CommandPriority,
+  CommandResult,
+  CommandStatus,
+  ConnectionStatus,
+  IRobotVendorAdapter,
+  RobotCommand,
+  RobotCommandType,
+  VendorConnection,
+  VendorConnectionConfig,
+  VendorAdapterPlugin,
+  VendorEvent,
+  VendorEventType,
+} from '@urfmp/types'
+import { SchemaValidatedAdapter, validateAgainstSchema } from '@urfmp/adapter-loader'
+
+/**
+ * A running endpoint the adapter under test can talk to, usually a simulator or fake server
+ */
+export interface ConformanceEndpoint {
+  config: VendorConnectionConfig
+  // Makes the endpoint produce at least one event, enables the event delivery checks
+  triggerEvent?: () => void | Promise<void>
+  stop(): Promise<void>
+}
+
+export interface InvalidConfigCase {
+  config: VendorConnectionConfig
+  field: string // Field the validation error must name
+}
+
+export interface AdapterConformanceOptions {
+  name?: string // Suite name, default "<vendor> adapter conformance"
+  createAdapter: () => IRobotVendorAdapter
+  startEndpoint: () => Promise<ConformanceEndpoint>
+  supportedCommand: Partial<RobotCommand> & { type: RobotCommandType } // Must succeed
+  unsupportedCommand?: Partial<RobotCommand> & { type: RobotCommandType } // Default UPDATE_FIRMWARE
+  invalidConfigs?: InvalidConfigCase[] // Vendor specific rejections on top of host and port
+  plugin?: VendorAdapterPlugin // The package's adapterPlugin, enables the configSchema checks
+  timeout?: number // Per test, default 10000 ms
+}
+
+const EVENT_WAIT = 2000
+const QUIET_PERIOD = 300
+
+/**
+ * Register a jest suite checking that an adapter honors the IRobotVendorAdapter contract:
+ * connection lifecycle and status transitions, CommandResult shape, unsupported commands,
+ * event subscription cleanup and validateConnection errors, and with a plugin that its
+ * configSchema agrees with the adapter. Call it at the top level of a test file.
+ */
+export function describeAdapterConformance(options: AdapterConformanceOptions): void {
+  const timeout = options.timeout ?? 10000
+  const suiteName = options.name ?? `${options.createAdapter().vendor} adapter conformance`
+
+  describe(suiteName, () => {
+    let adapter: IRobotVendorAdapter
+    let endpoint: ConformanceEndpoint | undefined
+    let connections: VendorConnection[]
+
+    const start = async () => {
+      endpoint = await options.startEndpoint()
+      return endpoint
+    }
+
+    const connect = async () => {
+      const { config } = endpoint ?? (await start())
+      const connection = await adapter.connect(config)
+      connections.push(connection)
+      return connection
+    }
+
+    beforeEach(() => {
+      adapter = options.createAdapter()
+      endpoint = undefined
+      connections = []
+    })
+
+    afterEach(async () => {
+      for (const connection of connections) {
+        if (connection.status !== ConnectionStatus.DISCONNECTED) {
+          await adapter.disconnect(connection.id).catch(() => undefined)
+        }
+      }
+      await endpoint?.stop()
+    }, timeout)
+
+    describe('connection lifecycle', () => {
+      it(
+        'should return a CONNECTED connection for the adapter vendor',
+        async () => {
+          const connection = await connect()
+
+          expect(connection.status).toBe(ConnectionStatus.CONNECTED)
+          expect(connection.vendor).toBe(adapter.vendor)
+          expect(typeof connection.id).toBe('string')
+          expect(connection.id).not.toBe('')
+          expect(typeof connection.robotId).toBe('string')
+          expect(connection.robotId).not.toBe('')
+          expect(connection.connectedAt).toBeInstanceOf(Date)
+          expectMetrics(connection)
+        },
+        timeout
+      )
+
+      it(
+        'should give every connection its own id',
+        async () => {
+          const first = await connect()
+          const second = await connect()
+
+          expect(second.id).not.toBe(first.id)
+        },
+        timeout
+      )
+
+      it(
+        'should move the connection to DISCONNECTED on disconnect',
+        async () => {
+          const connection = await connect()
+
+          await adapter.disconnect(connection.id)
+
+          expect(connection.status).toBe(ConnectionStatus.DISCONNECTED)
+        },
+        timeout
+      )
+
+      it(
+        'should reject operations on a disconnected connection',
+        async () => {
+          const connection = await connect()
+          await adapter.disconnect(connection.id)
+
+          await expect(adapter.getTelemetry(connection.id)).rejects.toThrow()
+          await expect(adapter.getRobotInfo(connection.id)).rejects.toThrow()
+          await expect(
+            adapter.sendCommand(connection.id, buildCommand(options.supportedCommand))
+          ).rejects.toThrow()
+          await expect(adapter.subscribeToEvents(connection.id, () => undefined)).rejects.toThrow()
+        },
+        timeout
+      )
+
+      it(
+        'should reject disconnecting an unknown connection',
+        async () => {
+          await expect(adapter.disconnect('unknown-connection')).rejects.toThrow()
+        },
+        timeout
+      )
+
+      it(
+        'should reject connecting to an endpoint that is gone',
+        async () => {
+          const { config } = await start()
+          await endpoint?.stop()
+          endpoint = undefined
+
+          await expect(
+            adapter.connect({ ...config, timeout: config.timeout ?? 1000 })
+          ).rejects.toThrow()
+        },
+        timeout
+      )
+    })
+
+    describe('commands', () => {
+      it(
+        'should return a complete CommandResult for a supported command',
+        async () => {
+          const connection = await connect()
+          const command = buildCommand(options.supportedCommand)
+
+          const result = await adapter.sendCommand(connection.id, command)
+
+          expectCommandResult(result, command)
+          expect(result.success).toBe(true)
+          expect(result.error).toBeUndefined()
+        },
+        timeout
+      )
+
+      it(
+        'should resolve an unsupported command with success false and an error',
+        async () => {
+          const connection = await connect()
+          const command = buildCommand(
+            options.unsupportedCommand ?? { type: RobotCommandType.UPDATE_FIRMWARE }
+          )
+
+          const result = await adapter.sendCommand(connection.id, command)
+
+          expectCommandResult(result, command)
+          expect(result.success).toBe(false)
+          expect(typeof result.error).toBe('string')
+          expect(result.error).not.toBe('')
+        },
+        timeout
+      )
+    })
+
+    describe('telemetry and robot info', () => {
+      it(
+        'should report telemetry for the connected robot',
+        async () => {
+          const connection = await connect()
+
+          const telemetry = await adapter.getTelemetry(connection.id)
+
+          expect(telemetry.robotId).toBe(connection.robotId)
+          expect(telemetry.timestamp).toBeInstanceOf(Date)
+          expect(telemetry.data).toEqual(expect.any(Object))
+        },
+        timeout
+      )
+
+      it(
+        'should report robot info',
+        async () => {
+          const connection = await connect()
+
+          const info = await adapter.getRobotInfo(connection.id)
+
+          expect(typeof info.model).toBe('string')
+          expect(typeof info.manufacturer).toBe('string')
+          expect(Array.isArray(info.capabilities)).toBe(true)
+        },
+        timeout
+      )
+    })
+
+    describe('event subscriptions', () => {
+      it(
+        'should return an active subscription bound to the connection',
+        async () => {
+          const connection = await connect()
+
+          const subscription = await adapter.subscribeToEvents(connection.id, () => undefined)
+
+          expect(typeof subscription.id).toBe('string')
+          expect(subscription.connectionId).toBe(connection.id)
+          expect(subscription.active).toBe(true)
+        },
+        timeout
+      )
+
+      it(
+        'should deactivate a subscription and tolerate unsubscribing twice',
+        async () => {
+          const connection = await connect()
+          const subscription = await adapter.subscribeToEvents(connection.id, () => undefined)
+
+          await adapter.unsubscribeFromEvents(subscription.id)
+          await adapter.unsubscribeFromEvents(subscription.id)
+
+          expect(subscription.active).toBe(false)
+          await expect(
+            adapter.unsubscribeFromEvents('unknown-subscription')
+          ).resolves.toBeUndefined()
+        },
+        timeout
+      )
+
+      it(
+        'should deliver well-formed events until unsubscribed',
+        async () => {
+          const { triggerEvent } = endpoint ?? (await start())
+          if (!triggerEvent) {
+            return
+          }
+          const connection = await connect()
+          const events: VendorEvent[] = []
+          const subscription = await adapter.subscribeToEvents(connection.id, (event) =>
+            events.push(event)
+          )
+
+          await triggerEvent()
+          await waitFor(() => events.length > 0, EVENT_WAIT)
+
+          for (const event of events) {
+            expect(typeof event.id).toBe('string')
+            expect(Object.values(VendorEventType)).toContain(event.type)
+            expect(event.robotId).toBe(connection.robotId)
+            expect(event.timestamp).toBeInstanceOf(Date)
+            expect(typeof event.source).toBe('string')
+          }
+
+          await adapter.unsubscribeFromEvents(subscription.id)
+          const delivered = events.length
+          await triggerEvent()
+          await sleep(QUIET_PERIOD)
+
+          expect(events.length).toBe(delivered)
+        },
+        timeout
+      )
+
+      it(
+        'should stop delivering events after disconnect',
+        async () => {
+          const { triggerEvent } = endpoint ?? (await start())
+          if (!triggerEvent) {
+            return
+          }
+          const connection = await connect()
+          const events: VendorEvent[] = []
+          await adapter.subscribeToEvents(connection.id, (event) => events.push(event))
+
+          await adapter.disconnect(connection.id)
+          await triggerEvent()
+          await sleep(QUIET_PERIOD)
+
+          expect(events).toEqual([])
+        },
+        timeout
+      )
+    })
+
+    describe('validateConnection', () => {
+      it(
+        'should accept the endpoint configuration',
+        async () => {
+          const { config } = await start()
+
+          const validation = await adapter.validateConnection(config)
+
+          expect(validation.errors).toEqual([])
+          expect(validation.valid).toBe(true)
+          expect(Array.isArray(validation.warnings)).toBe(true)
+        },
+        timeout
+      )
+
+      it(
+        'should name the host when it is missing',
+        async () => {
+          const { config } = await start()
+
+          await expectInvalid(adapter, { ...config, host: '' }, 'host')
+        },
+        timeout
+      )
+
+      it(
+        'should name the port when it is out of range',
+        async () => {
+          const { config } = await start()
+
+          await expectInvalid(adapter, { ...config, port: 0 }, 'port')
+          await expectInvalid(adapter, { ...config, port: 70000 }, 'port')
+        },
+        timeout
+      )
+
+      it(
+        'should reject the vendor specific invalid configurations',
+        async () => {
+          for (const { config, field } of options.invalidConfigs ?? []) {
+            await expectInvalid(adapter, config, field)
+          }
+        },
+        timeout
+      )
+
+      it(
+        'should refuse to connect with an invalid configuration',
+        async () => {
+          const { config } = await start()
+
+          await expect(adapter.connect({ ...config, host: '' })).rejects.toThrow()
+        },
+        timeout
+      )
+    })
+
+    if (options.plugin) {
+      const plugin = options.plugin
+
+      describe('adapter plugin', () => {
+        it('should create adapters of the same vendor', () => {
+          expect(plugin.createAdapter().vendor).toBe(adapter.vendor)
+        })
+
+        it(
+          'should accept the default and the endpoint configuration in configSchema',
+          async () => {
+            const { config } = await start()
+
+            expect(
+              validateAgainstSchema(plugin.config.configSchema, plugin.config.defaultConfig)
+            ).toEqual([])
+            expect(validateAgainstSchema(plugin.config.configSchema, config)).toEqual([])
+          },
+          timeout
+        )
+
+        it(
+          'should still name the field of each invalid configuration behind configSchema',
+          async () => {
+            const validated = new SchemaValidatedAdapter(adapter, plugin.config.configSchema)
+            for (const { config, field } of options.invalidConfigs ?? []) {
+              await expectInvalid(validated, config, field)
+            }
+          },
+          timeout
+        )
+      })
+    }
+
+    describe('supported features', () => {
+      it('should describe every feature flag', () => {
+        const features = adapter.getSupportedFeatures()
+        const { customFeatures, ...flags } = features
+
+        expect(Object.keys(flags).length).toBeGreaterThan(0)
+        for (const value of Object.values(flags)) {
+          expect(typeof value).toBe('boolean')
+        }
+        expect(Array.isArray(customFeatures)).toBe(true)
+      })
+    })
+  })
+}
+
+/**
+ * Fill in the RobotCommand fields a test does not care about
+ */
+export function buildCommand(
+  command: Partial<RobotCommand> & { type: RobotCommandType }
+): RobotCommand {
+  return {
+    id: `conformance-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    robotId: 'conformance-robot',
+    organizationId: 'conformance-org',
+    payload: {},
+    priority: CommandPriority.NORMAL,
+    status: CommandStatus.PENDING,
+    createdAt: new Date(),
+    createdBy: 'conformance',
+    ...command,
+  }
+}
+
+function expectMetrics(connection: VendorConnection): void {
+  const { lastErrorAt, ...metrics } = connection.metrics
+  for (const value of Object.values(metrics)) {
+    expect(typeof value).toBe('number')
+  }
+  if (lastErrorAt !== undefined) {
+    expect(lastErrorAt).toBeInstanceOf(Date)
+  }
+}
+
+function expectCommandResult(result: CommandResult, command: RobotCommand): void {
+  expect(typeof result.success).toBe('boolean')
+  expect(result.commandId).toBe(command.id)
+  expect(typeof result.executionTime).toBe('number')
+  expect(result.executionTime).toBeGreaterThanOrEqual(0)
+  expect(result.timestamp).toBeInstanceOf(Date)
+}
+
+async function expectInvalid(
+  adapter: IRobotVendorAdapter,
+  config: VendorConnectionConfig,
+  field: string
+): Promise<void> {
+  const validation = await adapter.validateConnection(config)
+
+  expect(validation.valid).toBe(false)
+  expect(validation.errors.map((error) => error.field)).toContain(field)
+  for (const error of validation.errors) {
+    expect(typeof error.message).toBe('string')
+    expect(typeof error.code).toBe('string')
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+async function waitFor(condition: () => boolean, timeout: number): Promise<void> {
+  const deadline = Date.now() + timeout
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Condition not met within ${timeout} ms`)
+    }
+    await sleep(10)
+  }
+}
@@ -0,0 +1,7 @@
+// Conformance test kit for IRobotVendorAdapter implementations
+export { buildCommand, describeAdapterConformance } from './conformance'
+export type {
+  AdapterConformanceOptions,
+  ConformanceEndpoint,
+  InvalidConfigCase,
+} from './conformance'
@@ -0,0 +1,193 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ConnectionProtocol, DefaultVendorRegistry, RobotVendor } from '@urfmp/types'
+import { discoverAdapterPackages, loadAdapterPlugins, registerAdapterPlugin } from '../loader'
+
+// A plugin as an adapter package would export it, the adapter rejects one host on its own
+const PLUGIN_SOURCE = `
+exports.adapterPlugin = {
+  config: {
+    name: 'acme-plc',
+    version: '2.1.0',
+    description: 'ACME PLC gantries',
+    author: 'ACME',
+    license: 'MIT',
+    supportedRobots: [{ model: 'G1', series: 'Gantry', firmwareVersions: ['2.x'] }],
+    defaultConfig: { host: '192.168.0.10', port: 502, protocol: 'tcp' },
+    configSchema: {
+      type: 'object',
+      required: ['host', 'port', 'protocol'],
+      properties: {
+        host: { type: 'string', minLength: 1 },
+        port: { type: 'integer', minimum: 1, maximum: 65535 },
+        protocol: { enum: ['tcp'] },
+        options: {
+          type: 'object',
+          additionalProperties: false,
+          properties: { unitId: { type: 'integer', minimum: 0, maximum: 255 } },
+        },
+      },
+    },
+    features: { customFeatures: [] },
+  },
+  createAdapter: () => ({
+    vendor: 'custom',
+    connect: async (config) => ({ id: 'acme-1', config }),
+    validateConnection: async (config) => {
+      const errors = config.host === 'plc.invalid'
+        ? [{ field: 'host', message: 'Host is reserved', code: 'RESERVED_HOST' }]
+        : []
+      if (config.options && config.options.unitId === 0) {
+        errors.push({ field: 'options.unitId', message: 'Unit id 0 is broadcast', code: 'BROADCAST' })
+      }
+      return { valid: errors.length === 0, errors, warnings: [] }
+    },
+    getSupportedFeatures: () => ({ customFeatures: [] }),
+  }),
+}
+`
+
+const writePackage = (
+  root: string,
+  name: string,
+  manifest: Record<string, any>,
+  source = 'module.exports = {}'
+) => {
+  const directory = join(root, name)
+  mkdirSync(directory, { recursive: true })
+  writeFileSync(
+    join(directory, 'package.json'),
+    JSON.stringify({ name, version: '1.0.0', ...manifest })
+  )
+  writeFileSync(join(directory, 'index.js'), source)
+}
+
+describe('Adapter loader', () => {
+  let root: string
+  let nodeModules: string
+  let parentNodeModules: string
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'urfmp-adapters-'))
+    nodeModules = join(root, 'app', 'node_modules')
+    parentNodeModules = join(root, 'node_modules')
+
+    const keywords = ['robotics', 'urfmp-adapter']
+    writePackage(nodeModules, '@acme/urfmp-adapter-plc', { keywords }, PLUGIN_SOURCE)
+    writePackage(nodeModules, 'urfmp-adapter-broken', { keywords }, 'throw new Error("boom")')
+    writePackage(nodeModules, 'urfmp-adapter-empty', { keywords })
+    writePackage(nodeModules, 'left-pad', { keywords: ['string'] })
+    writePackage(nodeModules, '.bin', {})
+    // Shadowed by the closer copy, as Node resolution would
+    writePackage(parentNodeModules, '@acme/urfmp-adapter-plc', { version: '0.9.0', keywords })
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  describe('discoverAdapterPackages', () => {
+    it('should find packages with the urfmp-adapter keyword in search order', () => {
+      const packages = discoverAdapterPackages([nodeModules, parentNodeModules, join(root, 'none')])
+
+      expect(packages.map((p) => [p.packageName, p.version]).sort()).toEqual([
+        ['@acme/urfmp-adapter-plc', '1.0.0'],
+        ['urfmp-adapter-broken', '1.0.0'],
+        ['urfmp-adapter-empty', '1.0.0'],
+      ])
+    })
+  })
+
+  describe('loadAdapterPlugins', () => {
+    it('should register plugins by name and report packages that fail to load', () => {
+      const { registry, loaded, failed } = loadAdapterPlugins({ searchPaths: [nodeModules] })
+
+      expect(loaded).toEqual([
+        { packageName: '@acme/urfmp-adapter-plc', name: 'acme-plc', vendor: RobotVendor.CUSTOM },
+      ])
+      expect(failed.map(({ packageName, error }) => [packageName, error]).sort()).toEqual([
+        ['urfmp-adapter-broken', 'boom'],
+        ['urfmp-adapter-empty', 'Package does not export adapterPlugin'],
+      ])
+      expect(registry.getConfig('acme-plc')).toEqual(
+        expect.objectContaining({ name: 'acme-plc', version: '2.1.0' })
+      )
+      expect(registry.getByName('acme-plc')).toBe(registry.get(RobotVendor.CUSTOM))
+      expect(registry.listConfigs().map((config) => config.name)).toEqual(['acme-plc'])
+    })
+
+    it('should leave a plugin already registered under its name alone', () => {
+      const registry = new DefaultVendorRegistry()
+      loadAdapterPlugins({ searchPaths: [nodeModules], registry })
+      const adapter = registry.getByName('acme-plc')
+
+      const { loaded } = loadAdapterPlugins({ searchPaths: [nodeModules], registry })
+
+      expect(loaded).toEqual([])
+      expect(registry.getByName('acme-plc')).toBe(adapter)
+    })
+  })
+
+  describe('registered adapters', () => {
+    const load = () =>
+      loadAdapterPlugins({ searchPaths: [nodeModules] }).registry.getByName('acme-plc')!
+
+    it('should merge schema errors with the adapter validation', async () => {
+      const result = await load().validateConnection({
+        host: 'plc.invalid',
+        port: 0,
+        protocol: ConnectionProtocol.TCP,
+        options: { unitId: 0, unit: 1 },
+      })
+
+      expect(result.valid).toBe(false)
+      expect(result.errors.map((error) => [error.field, error.code])).toEqual([
+        ['port', 'INVALID_VALUE'],
+        ['options.unit', 'UNKNOWN_FIELD'],
+        ['host', 'RESERVED_HOST'],
+        ['options.unitId', 'BROADCAST'],
+      ])
+    })
+
+    it('should not ask the adapter about configs of the wrong shape', async () => {
+      const result = await load().validateConnection({ host: 5 } as any)
+
+      expect(result.errors.map((error) => error.field)).toEqual(['port', 'protocol', 'host'])
+    })
+
+    it('should refuse to connect with a config the schema rejects', async () => {
+      const adapter = load()
+
+      await expect(
+        adapter.connect({ host: '10.0.0.7', port: 502, protocol: ConnectionProtocol.UDP })
+      ).rejects.toThrow('Invalid configuration: protocol must be one of tcp')
+      await expect(
+        adapter.connect({ host: '10.0.0.7', port: 502, protocol: ConnectionProtocol.TCP })
+      ).resolves.toEqual(expect.objectContaining({ id: 'acme-1' }))
+    })
+  })
+
+  describe('registerAdapterPlugin', () => {
+    const plugin = () =>
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      require(join(nodeModules, '@acme/urfmp-adapter-plc')).adapterPlugin
+
+    it('should reject a plugin whose default config breaks its own schema', () => {
+      const { config, createAdapter } = plugin()
+
+      expect(() =>
+        registerAdapterPlugin(new DefaultVendorRegistry(), {
+          config: { ...config, defaultConfig: { ...config.defaultConfig, port: 'modbus' } },
+          createAdapter,
+        })
+      ).toThrow('defaultConfig does not match configSchema: port must be integer')
+    })
+
+    it('should reject something that is not a plugin', () => {
+      expect(() =>
+        registerAdapterPlugin(new DefaultVendorRegistry(), { createAdapter: () => ({}) })
+      ).toThrow(/^adapterPlugin must have/)
+    })
+  })
+})
@@ -0,0 +1,116 @@
+import { ConnectionProtocol, createConnectionConfigSchema } from '@urfmp/types'
+import { compileConfigSchema, validateAgainstSchema } from '../schema'
+
+const schema = createConnectionConfigSchema({
+  protocols: [ConnectionProtocol.TCP],
+  port: 7000,
+  options: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      pollInterval: { type: 'integer', minimum: 50 },
+      variables: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string', pattern: '^\\$?\\w+$' },
+            'alias/key': { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+})
+
+const config = (overrides: Record<string, any> = {}) => ({
+  host: '10.0.0.5',
+  port: 7000,
+  protocol: 'tcp',
+  ...overrides,
+})
+
+describe('validateAgainstSchema', () => {
+  it('should accept a config matching the schema', () => {
+    expect(
+      validateAgainstSchema(
+        schema,
+        config({ options: { pollInterval: 100, variables: [{ name: '$OV_PRO' }] } })
+      )
+    ).toEqual([])
+  })
+
+  it('should name missing fields by path', () => {
+    expect(
+      validateAgainstSchema(schema, { port: 7000, options: { variables: [{ name: 'A' }, {}] } })
+    ).toEqual([
+      { field: 'host', message: 'host is required', code: 'REQUIRED_FIELD' },
+      { field: 'protocol', message: 'protocol is required', code: 'REQUIRED_FIELD' },
+      {
+        field: 'options.variables[1].name',
+        message: 'options.variables[1].name is required',
+        code: 'REQUIRED_FIELD',
+      },
+    ])
+  })
+
+  it('should report wrong values with the field and the constraint', () => {
+    const errors = validateAgainstSchema(
+      schema,
+      config({
+        port: 70000,
+        protocol: 'udp',
+        options: { pollInterval: 10, variables: [{ name: 'not a name', 'alias/key': 3 }] },
+      })
+    )
+
+    expect(errors).toEqual([
+      { field: 'port', message: 'port must be <= 65535', code: 'INVALID_VALUE' },
+      { field: 'protocol', message: 'protocol must be one of tcp', code: 'INVALID_VALUE' },
+      {
+        field: 'options.pollInterval',
+        message: 'options.pollInterval must be >= 50',
+        code: 'INVALID_VALUE',
+      },
+      {
+        field: 'options.variables[0].name',
+        message: expect.stringMatching(/^options.variables\[0\].name must match pattern/),
+        code: 'INVALID_FORMAT',
+      },
+      {
+        field: 'options.variables[0].alias/key',
+        message: 'options.variables[0].alias/key must be string',
+        code: 'INVALID_TYPE',
+      },
+    ])
+  })
+
+  it('should reject unknown options where the schema closes them', () => {
+    expect(validateAgainstSchema(schema, config({ options: { pollIntervall: 100 } }))).toEqual([
+      {
+        field: 'options.pollIntervall',
+        message: 'options.pollIntervall is not a known field',
+        code: 'UNKNOWN_FIELD',
+      },
+    ])
+  })
+
+  it('should reject a config that is not an object', () => {
+    expect(validateAgainstSchema(schema, 'tcp://10.0.0.5')).toEqual([
+      { field: '', message: 'Configuration must be object', code: 'INVALID_TYPE' },
+    ])
+  })
+})
+
+describe('compileConfigSchema', () => {
+  it('should reuse the compiled schema', () => {
+    expect(compileConfigSchema(schema)).toBe(compileConfigSchema(schema))
+  })
+
+  it('should throw on an invalid schema', () => {
+    expect(() =>
+      compileConfigSchema({ type: 'object', properties: { port: { type: 'int' } } })
+    ).toThrow(/^Invalid configSchema: /)
+  })
+})
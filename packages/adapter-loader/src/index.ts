@@ -0,0 +1,16 @@
+// Plugin loader for vendor adapter packages and configSchema validation
+export {
+  ADAPTER_KEYWORD,
+  discoverAdapterPackages,
+  loadAdapterPlugins,
+  registerAdapterPlugin,
+} from './loader'
+export type {
+  AdapterLoaderOptions,
+  AdapterLoadResult,
+  AdapterPackage,
+  FailedAdapterPackage,
+  LoadedAdapterPlugin,
+} from './loader'
+export { compileConfigSchema, validateAgainstSchema } from './schema'
+export { SchemaValidatedAdapter } from './validated-adapter'
@@ -0,0 +1,168 @@
+import { existsSync, readdirSync, readFileSync } from 'fs'
+import { join } from 'path'
+import {
+  DefaultVendorRegistry,
+  IRobotVendorAdapter,
+  RobotVendor,
+  VendorAdapterPlugin,
+} from '@urfmp/types'
+import { validateAgainstSchema } from './schema'
+import { SchemaValidatedAdapter } from './validated-adapter'
+
+// package.json keyword marking a package as a URFMP adapter plugin
+export const ADAPTER_KEYWORD = 'urfmp-adapter'
+
+export interface AdapterPackage {
+  packageName: string
+  version: string
+  directory: string
+}
+
+export interface LoadedAdapterPlugin {
+  packageName: string
+  name: string
+  vendor: RobotVendor
+}
+
+export interface FailedAdapterPackage {
+  packageName: string
+  directory: string
+  error: string
+}
+
+export interface AdapterLoaderOptions {
+  // node_modules directories to scan, default those Node resolves packages from for this module
+  searchPaths?: string[]
+  registry?: DefaultVendorRegistry
+}
+
+export interface AdapterLoadResult {
+  registry: DefaultVendorRegistry
+  loaded: LoadedAdapterPlugin[]
+  failed: FailedAdapterPackage[]
+}
+
+/**
+ * Find installed packages whose package.json carries the urfmp-adapter keyword, scoped and
+ * unscoped. A package found in several directories is taken from the first, as Node would.
+ */
+export function discoverAdapterPackages(searchPaths: string[]): AdapterPackage[] {
+  const packages = new Map<string, AdapterPackage>()
+
+  for (const searchPath of searchPaths) {
+    for (const directory of packageDirectories(searchPath)) {
+      let manifest: Record<string, any>
+      try {
+        manifest = JSON.parse(readFileSync(join(directory, 'package.json'), 'utf8'))
+      } catch {
+        continue
+      }
+
+      const keywords: unknown = manifest.keywords
+      if (
+        typeof manifest.name === 'string' &&
+        Array.isArray(keywords) &&
+        keywords.includes(ADAPTER_KEYWORD) &&
+        !packages.has(manifest.name)
+      ) {
+        packages.set(manifest.name, {
+          packageName: manifest.name,
+          version: manifest.version ?? '0.0.0',
+          directory,
+        })
+      }
+    }
+  }
+
+  return Array.from(packages.values())
+}
+
+/**
+ * Check a plugin, then register its adapter under the plugin name, wrapped so connection
+ * configs are validated against the plugin's configSchema
+ */
+export function registerAdapterPlugin(
+  registry: DefaultVendorRegistry,
+  plugin: unknown
+): IRobotVendorAdapter {
+  if (!isAdapterPlugin(plugin)) {
+    throw new Error('adapterPlugin must have a config with name and configSchema and createAdapter')
+  }
+
+  const { config } = plugin
+  const defaultErrors = validateAgainstSchema(config.configSchema, config.defaultConfig)
+  if (defaultErrors.length > 0) {
+    throw new Error(
+      `defaultConfig does not match configSchema: ${defaultErrors.map((e) => e.message).join(', ')}`
+    )
+  }
+
+  const adapter = new SchemaValidatedAdapter(plugin.createAdapter(), config.configSchema)
+  registry.register(adapter, config)
+  return adapter
+}
+
+/**
+ * Discover adapter packages, require each and register the adapterPlugin it exports. A package
+ * that fails to load is reported rather than thrown so one broken plugin does not take the
+ * others down; a plugin whose name is already registered is left alone.
+ */
+export function loadAdapterPlugins(options: AdapterLoaderOptions = {}): AdapterLoadResult {
+  const registry = options.registry ?? new DefaultVendorRegistry()
+  const loaded: LoadedAdapterPlugin[] = []
+  const failed: FailedAdapterPackage[] = []
+
+  for (const adapterPackage of discoverAdapterPackages(options.searchPaths ?? module.paths)) {
+    const { packageName, directory } = adapterPackage
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const plugin = require(directory).adapterPlugin
+      if (plugin === undefined) {
+        throw new Error('Package does not export adapterPlugin')
+      }
+      if (isAdapterPlugin(plugin) && registry.getConfig(plugin.config.name)) {
+        continue
+      }
+
+      const adapter = registerAdapterPlugin(registry, plugin)
+      loaded.push({ packageName, name: plugin.config.name, vendor: adapter.vendor })
+    } catch (error) {
+      failed.push({ packageName, directory, error: (error as Error).message })
+    }
+  }
+
+  return { registry, loaded, failed }
+}
+
+function isAdapterPlugin(value: any): value is VendorAdapterPlugin {
+  return (
+    typeof value?.createAdapter === 'function' &&
+    typeof value.config?.name === 'string' &&
+    typeof value.config.configSchema === 'object' &&
+    value.config.configSchema !== null
+  )
+}
+
+function packageDirectories(searchPath: string): string[] {
+  if (!existsSync(searchPath)) {
+    return []
+  }
+
+  const directories: string[] = []
+  for (const entry of readdirSync(searchPath, { withFileTypes: true })) {
+    if (!entry.isDirectory() && !entry.isSymbolicLink()) {
+      continue
+    }
+    const directory = join(searchPath, entry.name)
+    if (entry.name.startsWith('@')) {
+      for (const scoped of readdirSync(directory, { withFileTypes: true })) {
+        if (scoped.isDirectory() || scoped.isSymbolicLink()) {
+          directories.push(join(directory, scoped.name))
+        }
+      }
+    } else if (!entry.name.startsWith('.')) {
+      directories.push(directory)
+    }
+  }
+  return directories
+}
@@ -0,0 +1,94 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv'
+import { ValidationError } from '@urfmp/types'
+
+// Schemas come from third-party packages, keywords ajv does not know are left to the adapter
+const ajv = new Ajv({ allErrors: true, strict: false })
+const validators = new WeakMap<Record<string, any>, ValidateFunction>()
+
+const ERROR_CODES: Record<string, string> = {
+  required: 'REQUIRED_FIELD',
+  additionalProperties: 'UNKNOWN_FIELD',
+  type: 'INVALID_TYPE',
+  enum: 'INVALID_VALUE',
+  const: 'INVALID_VALUE',
+  pattern: 'INVALID_FORMAT',
+  format: 'INVALID_FORMAT',
+}
+
+/**
+ * Compile a configSchema, throws naming what is wrong with it
+ */
+export function compileConfigSchema(schema: Record<string, any>): ValidateFunction {
+  let validate = validators.get(schema)
+  if (!validate) {
+    try {
+      validate = ajv.compile(schema)
+    } catch (error) {
+      throw new Error(`Invalid configSchema: ${(error as Error).message}`)
+    }
+    validators.set(schema, validate)
+  }
+  return validate
+}
+
+/**
+ * Validate a connection config against an adapter's configSchema. Every error names the
+ * offending field by path, e.g. options.variables[1].name, at most one error per field.
+ */
+export function validateAgainstSchema(
+  schema: Record<string, any>,
+  config: unknown
+): ValidationError[] {
+  const validate = compileConfigSchema(schema)
+  if (validate(config)) {
+    return []
+  }
+
+  const errors = new Map<string, ValidationError>()
+  for (const error of validate.errors ?? []) {
+    const field = errorField(error)
+    if (!errors.has(field)) {
+      errors.set(field, {
+        field,
+        message: `${field || 'Configuration'} ${errorMessage(error)}`,
+        code: ERROR_CODES[error.keyword] ?? 'INVALID_VALUE',
+      })
+    }
+  }
+  return Array.from(errors.values())
+}
+
+/**
+ * JSON pointer of the failing value as a field path, /options/topics/0/kind becomes
+ * options.topics[0].kind. Missing and unknown properties name the property itself.
+ */
+function errorField(error: ErrorObject): string {
+  const segments = error.instancePath
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+  if (error.keyword === 'required') {
+    segments.push(error.params.missingProperty)
+  } else if (error.keyword === 'additionalProperties') {
+    segments.push(error.params.additionalProperty)
+  }
+
+  return segments.reduce(
+    (path, segment) =>
+      /^\d+$/.test(segment) ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment,
+    ''
+  )
+}
+
+function errorMessage(error: ErrorObject): string {
+  switch (error.keyword) {
+    case 'required':
+      return 'is required'
+    case 'additionalProperties':
+      return 'is not a known field'
+    case 'enum':
+      return `must be one of ${error.params.allowedValues.join(', ')}`
+    default:
+      return error.message ?? 'is invalid'
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  CommandResult,
+  EventCallback,
+  EventSubscription,
+  IRobotVendorAdapter,
+  RobotCommand,
+  RobotInfo,
+  RobotTelemetry,
+  RobotVendor,
+  ValidationResult,
+  VendorConnection,
+  VendorConnectionConfig,
+  VendorFeatures,
+} from '@urfmp/types'
+import { compileConfigSchema, validateAgainstSchema } from './schema'
+
+/**
+ * Wraps a plugin's adapter so every connection config is checked against the plugin's
+ * configSchema, in validateConnection and before connect, on top of the adapter's own checks
+ */
+export class SchemaValidatedAdapter implements IRobotVendorAdapter {
+  constructor(
+    private readonly adapter: IRobotVendorAdapter,
+    private readonly configSchema: Record<string, any>
+  ) {
+    compileConfigSchema(configSchema)
+  }
+
+  get vendor(): RobotVendor {
+    return this.adapter.vendor
+  }
+
+  async connect(config: VendorConnectionConfig): Promise<VendorConnection> {
+    const validation = await this.validateConnection(config)
+    if (!validation.valid) {
+      throw new Error(
+        `Invalid configuration: ${validation.errors.map((e) => e.message).join(', ')}`
+      )
+    }
+    return this.adapter.connect(config)
+  }
+
+  disconnect(connectionId: string): Promise<void> {
+    return this.adapter.disconnect(connectionId)
+  }
+
+  sendCommand(connectionId: string, command: RobotCommand): Promise<CommandResult> {
+    return this.adapter.sendCommand(connectionId, command)
+  }
+
+  getTelemetry(connectionId: string): Promise<RobotTelemetry> {
+    return this.adapter.getTelemetry(connectionId)
+  }
+
+  getRobotInfo(connectionId: string): Promise<RobotInfo> {
+    return this.adapter.getRobotInfo(connectionId)
+  }
+
+  subscribeToEvents(connectionId: string, callback: EventCallback): Promise<EventSubscription> {
+    return this.adapter.subscribeToEvents(connectionId, callback)
+  }
+
+  unsubscribeFromEvents(subscriptionId: string): Promise<void> {
+    return this.adapter.unsubscribeFromEvents(subscriptionId)
+  }
+
+  /**
+   * Schema errors come first, an adapter error on a field the schema already rejected is
+   * dropped as the schema names the problem precisely
+   */
+  async validateConnection(config: VendorConnectionConfig): Promise<ValidationResult> {
+    const schemaErrors = validateAgainstSchema(this.configSchema, config)
+    // Adapters read fields without guarding their type, only ask them about well formed configs
+    if (schemaErrors.some((error) => error.code === 'INVALID_TYPE' || error.field === '')) {
+      return { valid: false, errors: schemaErrors, warnings: [] }
+    }
+
+    const result = await this.adapter.validateConnection(config)
+    const rejected = new Set(schemaErrors.map((error) => error.field))
+    const errors = [...schemaErrors, ...result.errors.filter((error) => !rejected.has(error.field))]
+    return { valid: errors.length === 0, errors, warnings: result.warnings }
+  }
+
+  getSupportedFeatures(): VendorFeatures {
+    return this.adapter.getSupportedFeatures()
+  }
+}
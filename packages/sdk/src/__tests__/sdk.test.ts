@@ -3,7 +3,7 @@
  * Tests for the main SDK exports and functionality
  */
 
-import { URFMP, RobotMonitor, TelemetryStream } from '../index'
+import { URFMP, RobotMonitor, TelemetryStream, URFMPApiError } from '../index'
 import type { URFMPConfig } from '../index'
 
 // Mock the ws module for Node.js testing
@@ -117,10 +117,43 @@ describe('URFMP SDK', () => {
       expect(typeof client.getLatestTelemetry).toBe('function')
     })
 
+    it('should have connection metrics methods', () => {
+      expect(typeof client.sendConnectionMetrics).toBe('function')
+      expect(typeof client.getConnectionMetrics).toBe('function')
+    })
+
     it('should have connectWebSocket method', () => {
       expect(client.connectWebSocket).toBeDefined()
       expect(typeof client.connectWebSocket).toBe('function')
     })
+
+    it('should have getMaintenancePredictions method', () => {
+      expect(client.getMaintenancePredictions).toBeDefined()
+      expect(typeof client.getMaintenancePredictions).toBe('function')
+    })
+
+    it('should have organization management methods', () => {
+      expect(typeof client.getOrganization).toBe('function')
+      expect(typeof client.updateOrganizationSettings).toBe('function')
+      expect(typeof client.getOrganizationUsage).toBe('function')
+    })
+
+    it('should have vendor adapter methods', () => {
+      expect(typeof client.getAdapters).toBe('function')
+      expect(typeof client.getAdapter).toBe('function')
+      expect(typeof client.validateAdapterConfig).toBe('function')
+    })
+
+    it('should have command lifecycle methods', () => {
+      expect(typeof client.getCommand).toBe('function')
+      expect(typeof client.getCommandHistory).toBe('function')
+      expect(typeof client.updateCommandStatus).toBe('function')
+      expect(typeof client.cancelCommand).toBe('function')
+    })
+
+    it('should have sendEvent method', () => {
+      expect(typeof client.sendEvent).toBe('function')
+    })
   })
 
   describe('RobotMonitor Class', () => {
@@ -210,6 +243,47 @@ describe('URFMP SDK', () => {
   })
 })
 
+describe('URFMPApiError', () => {
+  it('should expose plan limit details for quota errors', () => {
+    const error = new URFMPApiError(
+      {
+        code: 'QUOTA_EXCEEDED',
+        message: 'Robot limit reached',
+        details: { plan: 'free', resource: 'robots', limit: 3, used: 3 },
+        timestamp: new Date(),
+      },
+      429
+    )
+
+    expect(error).toBeInstanceOf(Error)
+    expect(error.statusCode).toBe(429)
+    expect(error.isQuotaError).toBe(true)
+    expect(error.quota).toMatchObject({ resource: 'robots', limit: 3 })
+  })
+
+  it('should not treat other API errors as quota errors', () => {
+    const error = new URFMPApiError({
+      code: 'NOT_FOUND',
+      message: 'Robot not found',
+      timestamp: new Date(),
+    })
+
+    expect(error.isQuotaError).toBe(false)
+    expect(error.quota).toBeUndefined()
+  })
+
+  it('should keep the HTTP response and status like an axios error', () => {
+    const body = { error: { code: 'QUOTA_EXCEEDED', message: 'Robot limit reached' } }
+    const error = new URFMPApiError({ ...body.error, timestamp: new Date() }, 429, {
+      status: 429,
+      data: body,
+    } as any)
+
+    expect(error.status).toBe(429)
+    expect(error.response?.data?.error?.message).toBe('Robot limit reached')
+  })
+})
+
 describe('SDK Integration Patterns', () => {
   it('should support the "7 lines of code" pattern', () => {
     // This tests the main SDK value proposition
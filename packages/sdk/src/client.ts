@@ -5,12 +5,28 @@ const WebSocketImpl = typeof window !== 'undefined' ? window.WebSocket : require
 import {
   Robot,
   RobotTelemetry,
+  VendorEvent,
   ApiResponse,
   WebSocketMessage,
   RobotCommand,
-  CommandResult,
+  CreateRobotCommandRequest,
+  UpdateRobotCommandStatusRequest,
+  PaginationResult,
   WebSocketMessageType,
+  MaintenancePrediction,
+  Organization,
+  OrganizationSettings,
+  OrganizationUsage,
+  UpdateOrganizationSettingsRequest,
+  QuotaErrorCode,
+  RobotVendor,
+  ValidationResult,
+  VendorAdapterConfig,
+  VendorConnectionConfig,
+  ConnectionMetricsSample,
+  ConnectionMetricsHistory,
 } from '@urfmp/types'
+import { URFMPApiError } from './errors'
 
 export interface URFMPConfig {
   apiKey: string
@@ -20,6 +36,11 @@ export interface URFMPConfig {
   retries?: number
 }
 
+// An installed vendor adapter, configSchema describes its connection config
+export interface AdapterDescription extends VendorAdapterConfig {
+  vendor: RobotVendor
+}
+
 export class URFMP {
   private client: AxiosInstance
   private config: URFMPConfig
@@ -144,6 +165,17 @@ export class URFMP {
     return response.data.data!
   }
 
+  async sendEvent(
+    robotId: string,
+    event: { type: string; data?: any; source?: string; timestamp?: Date }
+  ): Promise<VendorEvent> {
+    const response = await this.client.post<ApiResponse<VendorEvent>>(
+      `/api/v1/telemetry/${robotId}/events`,
+      event
+    )
+    return response.data.data!
+  }
+
   async getLatestTelemetry(robotId: string): Promise<RobotTelemetry | null> {
     const response = await this.client.get<ApiResponse<RobotTelemetry | null>>(
       `/api/v1/telemetry/${robotId}/latest`
@@ -172,6 +204,36 @@ export class URFMP {
     return response.data.data!
   }
 
+  async sendConnectionMetrics(
+    robotId: string,
+    sample: Omit<ConnectionMetricsSample, 'robotId'>
+  ): Promise<ConnectionMetricsSample> {
+    const response = await this.client.post<ApiResponse<ConnectionMetricsSample>>(
+      `/api/v1/telemetry/${robotId}/connection-metrics`,
+      sample
+    )
+    return response.data.data!
+  }
+
+  async getConnectionMetrics(
+    robotId: string,
+    options: {
+      from?: Date
+      to?: Date
+      limit?: number
+    } = {}
+  ): Promise<ConnectionMetricsHistory> {
+    const params = new URLSearchParams()
+    if (options.from) params.append('from', options.from.toISOString())
+    if (options.to) params.append('to', options.to.toISOString())
+    if (options.limit) params.append('limit', options.limit.toString())
+
+    const response = await this.client.get<ApiResponse<ConnectionMetricsHistory>>(
+      `/api/v1/telemetry/${robotId}/connection-metrics?${params.toString()}`
+    )
+    return response.data.data!
+  }
+
   async getTelemetryMetrics(robotId: string): Promise<string[]> {
     const response = await this.client.get<ApiResponse<string[]>>(
       `/api/v1/telemetry/${robotId}/metrics`
@@ -201,14 +263,146 @@ export class URFMP {
     return response.data.data!
   }
 
-  async sendCommand(robotId: string, command: Partial<RobotCommand>): Promise<CommandResult> {
-    const response = await this.client.post<ApiResponse<CommandResult>>(
+  async sendCommand(robotId: string, command: CreateRobotCommandRequest): Promise<RobotCommand> {
+    const response = await this.client.post<ApiResponse<RobotCommand>>(
       `/api/v1/robots/${robotId}/commands`,
       command
     )
     return response.data.data!
   }
 
+  async getCommand(robotId: string, commandId: string): Promise<RobotCommand> {
+    const response = await this.client.get<ApiResponse<RobotCommand>>(
+      `/api/v1/robots/${robotId}/commands/${commandId}`
+    )
+    return response.data.data!
+  }
+
+  async getCommandHistory(
+    robotId: string,
+    options: {
+      status?: string
+      type?: string
+      from?: Date
+      to?: Date
+      page?: number
+      limit?: number
+    } = {}
+  ): Promise<PaginationResult<RobotCommand>> {
+    const params = new URLSearchParams()
+    if (options.status) params.append('status', options.status)
+    if (options.type) params.append('type', options.type)
+    if (options.from) params.append('from', options.from.toISOString())
+    if (options.to) params.append('to', options.to.toISOString())
+    if (options.page) params.append('page', options.page.toString())
+    if (options.limit) params.append('limit', options.limit.toString())
+
+    const response = await this.client.get<ApiResponse<{ commands: RobotCommand[] }>>(
+      `/api/v1/robots/${robotId}/commands?${params.toString()}`
+    )
+    return { data: response.data.data!.commands, pagination: response.data.pagination! }
+  }
+
+  async updateCommandStatus(
+    robotId: string,
+    commandId: string,
+    update: UpdateRobotCommandStatusRequest
+  ): Promise<RobotCommand> {
+    const response = await this.client.put<ApiResponse<RobotCommand>>(
+      `/api/v1/robots/${robotId}/commands/${commandId}/status`,
+      update
+    )
+    return response.data.data!
+  }
+
+  async cancelCommand(robotId: string, commandId: string): Promise<RobotCommand> {
+    const response = await this.client.post<ApiResponse<RobotCommand>>(
+      `/api/v1/robots/${robotId}/commands/${commandId}/cancel`
+    )
+    return response.data.data!
+  }
+
+  async getMaintenancePredictions(
+    options: {
+      robotId?: string
+      component?: string
+      severity?: string
+      acknowledged?: boolean
+      limit?: number
+    } = {}
+  ): Promise<MaintenancePrediction[]> {
+    const params = new URLSearchParams()
+    if (options.robotId) params.append('robotId', options.robotId)
+    if (options.component) params.append('component', options.component)
+    if (options.severity) params.append('severity', options.severity)
+    if (options.acknowledged !== undefined) {
+      params.append('acknowledged', options.acknowledged.toString())
+    }
+    if (options.limit) params.append('limit', options.limit.toString())
+
+    const response = await this.client.get<ApiResponse<{ predictions: MaintenancePrediction[] }>>(
+      `/api/v1/maintenance/predictions?${params.toString()}`
+    )
+    return response.data.data!.predictions
+  }
+
+  async analyzeMaintenance(robotId?: string): Promise<MaintenancePrediction[]> {
+    const response = await this.client.post<ApiResponse<MaintenancePrediction[]>>(
+      '/api/v1/maintenance/predictions/analyze',
+      robotId ? { robotId } : {}
+    )
+    return response.data.data!
+  }
+
+  // Vendor adapters
+  async getAdapters(): Promise<AdapterDescription[]> {
+    const response =
+      await this.client.get<ApiResponse<{ adapters: AdapterDescription[] }>>('/api/v1/adapters')
+    return response.data.data!.adapters
+  }
+
+  async getAdapter(name: string): Promise<AdapterDescription> {
+    const response = await this.client.get<ApiResponse<AdapterDescription>>(
+      `/api/v1/adapters/${encodeURIComponent(name)}`
+    )
+    return response.data.data!
+  }
+
+  async validateAdapterConfig(
+    name: string,
+    config: VendorConnectionConfig
+  ): Promise<ValidationResult> {
+    const response = await this.client.post<ApiResponse<ValidationResult>>(
+      `/api/v1/adapters/${encodeURIComponent(name)}/validate`,
+      config
+    )
+    return response.data.data!
+  }
+
+  // Organization management
+  async getOrganization(): Promise<Organization> {
+    const response = await this.client.get<ApiResponse<Organization>>('/api/v1/organizations')
+    return response.data.data!
+  }
+
+  async updateOrganizationSettings(
+    organizationId: string,
+    settings: UpdateOrganizationSettingsRequest
+  ): Promise<OrganizationSettings> {
+    const response = await this.client.put<ApiResponse<OrganizationSettings>>(
+      `/api/v1/organizations/${organizationId}/settings`,
+      settings
+    )
+    return response.data.data!
+  }
+
+  async getOrganizationUsage(organizationId: string): Promise<OrganizationUsage> {
+    const response = await this.client.get<ApiResponse<OrganizationUsage>>(
+      `/api/v1/organizations/${organizationId}/usage`
+    )
+    return response.data.data!
+  }
+
   // WebSocket functionality
   async connectWebSocket(): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -401,12 +595,23 @@ export class URFMP {
           return this.client(originalRequest)
         }
 
+        // Surface structured API errors such as plan limits to callers
+        const apiError = error.response?.data?.error
+        if (apiError?.code) {
+          return Promise.reject(new URFMPApiError(apiError, error.response.status, error.response))
+        }
+
         return Promise.reject(error)
       }
     )
   }
 
   private shouldRetry(error: any): boolean {
+    // Plan limits do not clear up by retrying
+    if (error.response?.data?.error?.code === QuotaErrorCode.QUOTA_EXCEEDED) {
+      return false
+    }
+
     return (
       error.code === 'ECONNRESET' ||
       error.code === 'ETIMEDOUT' ||
@@ -0,0 +1,45 @@
+import type { AxiosResponse } from 'axios'
+import { ApiError, QuotaErrorCode, QuotaErrorDetails } from '@urfmp/types'
+
+/**
+ * Error returned by the URFMP API, carrying the structured error code and details
+ */
+export class URFMPApiError extends Error {
+  readonly code: string
+  readonly statusCode?: number
+  readonly details?: Record<string, any>
+  readonly traceId?: string
+  // The HTTP response, kept so callers written against axios errors still find it
+  readonly response?: AxiosResponse
+
+  constructor(error: ApiError, statusCode?: number, response?: AxiosResponse) {
+    super(error.message)
+    this.name = 'URFMPApiError'
+    this.code = error.code
+    this.statusCode = statusCode
+    this.details = error.details
+    this.traceId = error.traceId
+    this.response = response
+  }
+
+  /**
+   * HTTP status, the same as statusCode under the name axios errors use
+   */
+  get status(): number | undefined {
+    return this.statusCode
+  }
+
+  /**
+   * Whether the request was rejected by a plan limit or plan-gated feature
+   */
+  get isQuotaError(): boolean {
+    return (Object.values(QuotaErrorCode) as string[]).includes(this.code)
+  }
+
+  /**
+   * Plan limit details for quota errors
+   */
+  get quota(): QuotaErrorDetails | undefined {
+    return this.isQuotaError ? (this.details as QuotaErrorDetails) : undefined
+  }
+}
@@ -4,7 +4,8 @@
  */
 
 export { URFMP } from './client'
-export type { URFMPConfig } from './client'
+export type { URFMPConfig, AdapterDescription } from './client'
+export { URFMPApiError } from './errors'
 export { RobotMonitor } from './monitor'
 export { TelemetryStream } from './telemetry'
 export * from '@urfmp/types'
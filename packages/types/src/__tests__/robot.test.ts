@@ -39,11 +39,12 @@ describe('Robot Types', () => {
       expect(RobotStatus.IDLE).toBe('idle')
       expect(RobotStatus.STOPPED).toBe('stopped')
       expect(RobotStatus.EMERGENCY_STOP).toBe('emergency_stop')
+      expect(RobotStatus.DECOMMISSIONED).toBe('decommissioned')
     })
 
     it('should contain all defined values', () => {
       const statusValues = Object.values(RobotStatus)
-      expect(statusValues).toHaveLength(8)
+      expect(statusValues).toHaveLength(9)
       expect(statusValues).toContain('online')
       expect(statusValues).toContain('emergency_stop')
     })
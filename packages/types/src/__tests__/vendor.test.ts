@@ -0,0 +1,47 @@
+import { BaseVendorAdapter, ConnectionStatus, setTelemetryValue, VendorConnection } from '../vendor'
+import { TelemetryData } from '../telemetry'
+
+class TestAdapter extends (BaseVendorAdapter as any) {
+  loseLink(connection: VendorConnection): void {
+    this.markConnectionLost(connection)
+  }
+}
+
+describe('Vendor helpers', () => {
+  it('should build nested telemetry and set the unit beside the value', () => {
+    const data: TelemetryData = {}
+
+    setTelemetryValue(data, 'voltage.supply', 48.2, 'V')
+    setTelemetryValue(data, 'safety.emergencyStop', false)
+
+    expect(data).toEqual({ voltage: { supply: 48.2, unit: 'V' }, safety: { emergencyStop: false } })
+  })
+
+  it('should put a dropped connection in error and count it', () => {
+    const adapter = new TestAdapter()
+    const connection = {
+      status: ConnectionStatus.CONNECTED,
+      metrics: { errorCount: 0 },
+    } as VendorConnection
+
+    adapter.loseLink(connection)
+    adapter.loseLink(connection)
+
+    expect(connection.status).toBe(ConnectionStatus.ERROR)
+    expect(connection.metrics.errorCount).toBe(1)
+    expect(connection.metrics.lastErrorAt).toBeInstanceOf(Date)
+  })
+
+  it('should leave connections that are not connected alone', () => {
+    const adapter = new TestAdapter()
+    const connection = {
+      status: ConnectionStatus.DISCONNECTED,
+      metrics: { errorCount: 0 },
+    } as VendorConnection
+
+    adapter.loseLink(connection)
+
+    expect(connection.status).toBe(ConnectionStatus.DISCONNECTED)
+    expect(connection.metrics.errorCount).toBe(0)
+  })
+})
@@ -34,11 +34,25 @@ exports.getBrandConfig =
   exports.WebSocketMessageType =
   exports.HealthStatus =
   exports.SortOrder =
+  exports.AggregationType =
+  exports.TimeWindow =
+  exports.DataQuality =
+  exports.TelemetrySource =
+  exports.WaypointType =
+  exports.PathPlanningStatus =
+  exports.GPSFixType =
+  exports.ExecutionMode =
+  exports.CoordinateFrame =
+  exports.CurrentUnit =
+  exports.VoltageUnit =
+  exports.AngularVelocityUnit =
   exports.VelocityUnit =
   exports.TorqueUnit =
   exports.TemperatureUnit =
   exports.ForceUnit =
   exports.AngleUnit =
+  exports.RobotVendor =
+  exports.RobotStatus =
   exports.RobotCommandType =
   exports.CommandStatus =
   exports.CommandPriority =
@@ -64,6 +78,18 @@ Object.defineProperty(exports, 'RobotCommandType', {
     return robot_1.RobotCommandType
   },
 })
+Object.defineProperty(exports, 'RobotStatus', {
+  enumerable: true,
+  get: function () {
+    return robot_1.RobotStatus
+  },
+})
+Object.defineProperty(exports, 'RobotVendor', {
+  enumerable: true,
+  get: function () {
+    return robot_1.RobotVendor
+  },
+})
 var telemetry_1 = require('./telemetry')
 Object.defineProperty(exports, 'AngleUnit', {
   enumerable: true,
@@ -95,6 +121,78 @@ Object.defineProperty(exports, 'VelocityUnit', {
     return telemetry_1.VelocityUnit
   },
 })
+Object.defineProperty(exports, 'AngularVelocityUnit', {
+  enumerable: true,
+  get: function () {
+    return telemetry_1.AngularVelocityUnit
+  },
+})
+Object.defineProperty(exports, 'VoltageUnit', {
+  enumerable: true,
+  get: function () {
+    return telemetry_1.VoltageUnit
+  },
+})
+Object.defineProperty(exports, 'CurrentUnit', {
+  enumerable: true,
+  get: function () {
+    return telemetry_1.CurrentUnit
+  },
+})
+Object.defineProperty(exports, 'CoordinateFrame', {
+  enumerable: true,
+  get: function () {
+    return telemetry_1.CoordinateFrame
+  },
+})
+Object.defineProperty(exports, 'ExecutionMode', {
+  enumerable: true,
+  get: function () {
+    return telemetry_1.ExecutionMode
+  },
+})
+Object.defineProperty(exports, 'GPSFixType', {
+  enumerable: true,
+  get: function () {
+    return telemetry_1.GPSFixType
+  },
+})
+Object.defineProperty(exports, 'PathPlanningStatus', {
+  enumerable: true,
+  get: function () {
+    return telemetry_1.PathPlanningStatus
+  },
+})
+Object.defineProperty(exports, 'WaypointType', {
+  enumerable: true,
+  get: function () {
+    return telemetry_1.WaypointType
+  },
+})
+Object.defineProperty(exports, 'TelemetrySource', {
+  enumerable: true,
+  get: function () {
+    return telemetry_1.TelemetrySource
+  },
+})
+Object.defineProperty(exports, 'DataQuality', {
+  enumerable: true,
+  get: function () {
+    return telemetry_1.DataQuality
+  },
+})
+Object.defineProperty(exports, 'TimeWindow', {
+  enumerable: true,
+  get: function () {
+    return telemetry_1.TimeWindow
+  },
+})
+Object.defineProperty(exports, 'AggregationType', {
+  enumerable: true,
+  get: function () {
+    return telemetry_1.AggregationType
+  },
+})
 // Organization types
 __exportStar(require('./organization'), exports)
 // User types
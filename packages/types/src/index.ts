@@ -3,12 +3,13 @@ export * from './robot'
 export type {
   Robot,
   RobotCommand,
-  RobotStatus,
   RobotCapability,
   RobotLocation,
   RobotConfiguration,
+  CreateRobotCommandRequest,
+  UpdateRobotCommandStatusRequest,
 } from './robot'
-export { CommandPriority, CommandStatus, RobotCommandType, RobotVendor } from './robot'
+export { CommandPriority, CommandStatus, RobotCommandType, RobotStatus, RobotVendor } from './robot'
 
 // Telemetry types
 export type {
@@ -16,6 +17,11 @@ export type {
   RobotTelemetry,
   TelemetryMetadata,
   TelemetryAggregation,
+  Position,
+  Velocity,
+  GPSPosition,
+  NavigationData,
+  Waypoint,
 } from './telemetry'
 
 export {
@@ -28,6 +34,10 @@ export {
   VoltageUnit,
   CurrentUnit,
   CoordinateFrame,
+  ExecutionMode,
+  GPSFixType,
+  PathPlanningStatus,
+  WaypointType,
   TelemetrySource,
   DataQuality,
   TimeWindow,
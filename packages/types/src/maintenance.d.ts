@@ -338,6 +338,7 @@ export interface MaintenanceReportData {
   costs?: CostBreakdown
   trends?: TrendData[]
   charts?: ChartData[]
+  robotNames?: Record<string, string> // Names of the reported robots by id
 }
 export interface MaintenanceSummary {
   totalTasks: number
@@ -1,3 +1,5 @@
+import { RobotVendor } from './robot'
+
 export interface MaintenanceTask {
   id: string
   robotId: string
@@ -162,6 +164,8 @@ export interface MaintenanceTemplate {
   name: string
   description?: string
   type: MaintenanceType
+  vendor?: RobotVendor // Restricts the template to robots of this vendor
+  model?: string // Restricts the template to robots of this model
   estimatedDuration: number // minutes
   instructions: string[]
   checklistItems: TemplateChecklistItem[]
@@ -348,6 +352,7 @@ export enum ReportPeriod {
 
 export interface MaintenanceReportFilters {
   robotIds?: string[]
+  facilities?: string[]
   types?: MaintenanceType[]
   priorities?: MaintenancePriority[]
   statuses?: MaintenanceStatus[]
@@ -366,6 +371,7 @@ export interface MaintenanceReportData {
   costs?: CostBreakdown
   trends?: TrendData[]
   charts?: ChartData[]
+  robotNames?: Record<string, string> // Names of the reported robots by id
 }
 
 export interface MaintenanceSummary {
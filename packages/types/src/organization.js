@@ -1,6 +1,8 @@
 'use strict'
 Object.defineProperty(exports, '__esModule', { value: true })
-exports.SCADASystem =
+exports.QuotaErrorCode =
+  exports.QuotaResource =
+  exports.SCADASystem =
   exports.MESSystem =
   exports.ERPSystem =
   exports.WebhookEvent =
@@ -46,4 +48,16 @@ var SCADASystem
   SCADASystem['CITECT'] = 'citect'
   SCADASystem['CUSTOM'] = 'custom'
 })(SCADASystem || (exports.SCADASystem = SCADASystem = {}))
+var QuotaResource
+;(function (QuotaResource) {
+  QuotaResource['ROBOTS'] = 'robots'
+  QuotaResource['USERS'] = 'users'
+  QuotaResource['API_CALLS'] = 'api_calls'
+  QuotaResource['DATA_POINTS'] = 'data_points'
+})(QuotaResource || (exports.QuotaResource = QuotaResource = {}))
+var QuotaErrorCode
+;(function (QuotaErrorCode) {
+  QuotaErrorCode['QUOTA_EXCEEDED'] = 'QUOTA_EXCEEDED'
+  QuotaErrorCode['FEATURE_NOT_AVAILABLE'] = 'FEATURE_NOT_AVAILABLE'
+})(QuotaErrorCode || (exports.QuotaErrorCode = QuotaErrorCode = {}))
 //# sourceMappingURL=organization.js.map
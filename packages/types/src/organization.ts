@@ -148,6 +148,7 @@ export interface OrganizationLimits {
   maxRobots: number
   maxUsers: number
   maxApiCallsPerMonth: number
+  maxDataPointsPerMonth: number // Telemetry ingest allowance
   maxDataRetentionDays: number
   maxWebhookEndpoints: number
   maxCustomIntegrations: number
@@ -197,3 +198,53 @@ export interface UsageMetrics {
   webhookDeliveries: number
   storageUsedGB: number
 }
+
+export interface UpdateOrganizationSettingsRequest {
+  timezone?: string
+  currency?: string
+  language?: string
+  dateFormat?: string
+  telemetryRetention?: Partial<TelemetryRetention>
+  notifications?: {
+    [K in keyof NotificationSettings]?: Partial<NotificationSettings[K]>
+  }
+  security?: Partial<SecuritySettings>
+}
+
+export interface OrganizationUsage {
+  organizationId: string
+  plan: SubscriptionPlan
+  periodStart: Date
+  periodEnd: Date
+  usage: UsageMetrics
+  quotas: UsageQuota[]
+}
+
+export interface UsageQuota {
+  resource: QuotaResource
+  used: number
+  limit: number // -1 means unlimited
+  percentage: number
+  exceeded: boolean
+}
+
+export enum QuotaResource {
+  ROBOTS = 'robots',
+  USERS = 'users',
+  API_CALLS = 'api_calls',
+  DATA_POINTS = 'data_points',
+}
+
+export enum QuotaErrorCode {
+  QUOTA_EXCEEDED = 'QUOTA_EXCEEDED',
+  FEATURE_NOT_AVAILABLE = 'FEATURE_NOT_AVAILABLE',
+}
+
+export interface QuotaErrorDetails {
+  plan: SubscriptionPlan
+  resource?: QuotaResource
+  feature?: keyof PlanFeatures
+  limit?: number
+  used?: number
+  retryAfter?: number // seconds until the allowance resets
+}
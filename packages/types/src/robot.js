@@ -28,6 +28,7 @@ var RobotStatus
   RobotStatus['IDLE'] = 'idle'
   RobotStatus['STOPPED'] = 'stopped'
   RobotStatus['EMERGENCY_STOP'] = 'emergency_stop'
+  RobotStatus['DECOMMISSIONED'] = 'decommissioned'
 })(RobotStatus || (exports.RobotStatus = RobotStatus = {}))
 var RobotCapability
 ;(function (RobotCapability) {
@@ -34,6 +34,7 @@ export enum RobotStatus {
   IDLE = 'idle',
   STOPPED = 'stopped',
   EMERGENCY_STOP = 'emergency_stop',
+  DECOMMISSIONED = 'decommissioned',
 }
 
 export interface RobotLocation {
@@ -76,13 +77,29 @@ export interface RobotCommand {
   priority: CommandPriority
   status: CommandStatus
   scheduledAt?: Date
+  queuedAt?: Date
   executedAt?: Date
   completedAt?: Date
+  timeoutAt?: Date
+  result?: Record<string, any>
   error?: string
   createdAt: Date
   createdBy: string
 }
 
+export interface CreateRobotCommandRequest {
+  type: RobotCommandType
+  payload?: Record<string, any>
+  priority?: CommandPriority
+  timeout?: number // seconds until a queued or executing command times out
+}
+
+export interface UpdateRobotCommandStatusRequest {
+  status: CommandStatus
+  result?: Record<string, any>
+  error?: string
+}
+
 export enum RobotCommandType {
   START = 'start',
   STOP = 'stop',
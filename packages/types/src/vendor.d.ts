@@ -1,5 +1,5 @@
 import { RobotVendor, RobotCommand, RobotStatus, RobotCapability } from './robot'
-import { RobotTelemetry, TemperatureUnit } from './telemetry'
+import { RobotTelemetry, TelemetryData, TemperatureUnit } from './telemetry'
 import { EventSubscription } from './events'
 export interface IRobotVendorAdapter {
   vendor: RobotVendor
@@ -75,6 +75,31 @@ export interface ConnectionMetrics {
   averageLatency: number
   errorCount: number
   lastErrorAt?: Date
+  reconnects?: number
+}
+export interface ConnectionMetricsSample {
+  robotId: string
+  connectionId?: string
+  status: ConnectionStatus
+  metrics: ConnectionMetrics
+  lastHeartbeat?: Date
+  timestamp: Date
+}
+export interface LinkQualitySummary {
+  samples: number
+  connectedRatio: number
+  averageLatency: number
+  maxLatency: number
+  errors: number
+  reconnects: number
+  bytesReceived: number
+  bytesSent: number
+  from?: Date
+  to?: Date
+}
+export interface ConnectionMetricsHistory {
+  samples: ConnectionMetricsSample[]
+  summary: LinkQualitySummary
 }
 export interface CommandResult {
   success: boolean
@@ -211,6 +236,40 @@ export interface SupportedRobotModel {
   firmwareVersions: string[]
   notes?: string
 }
+/**
+ * Entry point of an adapter package, exported as adapterPlugin for the adapter loader
+ */
+export interface VendorAdapterPlugin {
+  config: VendorAdapterConfig
+  createAdapter(): IRobotVendorAdapter
+}
+export interface ConnectionSchemaOptions {
+  protocols: ConnectionProtocol[]
+  port: number
+  authentication?: AuthenticationType[]
+  options?: Record<string, any>
+}
+/**
+ * JSON Schema of a VendorConnectionConfig for an adapter's configSchema, the adapter narrows
+ * protocols and describes its options
+ */
+export declare function createConnectionConfigSchema({
+  protocols,
+  port,
+  authentication,
+  options,
+}: ConnectionSchemaOptions): Record<string, any>
+export declare const TELEMETRY_TARGETS: (keyof TelemetryData)[]
+/**
+ * Write a value at a dotted TelemetryData path, creating the objects on the way. The unit,
+ * when given, goes on the object holding the value as the telemetry types expect.
+ */
+export declare function setTelemetryValue(
+  data: TelemetryData,
+  target: string,
+  value: any,
+  unit?: string
+): void
 export declare abstract class BaseVendorAdapter implements IRobotVendorAdapter {
   abstract vendor: RobotVendor
   abstract connect(config: VendorConnectionConfig): Promise<VendorConnection>
@@ -226,6 +285,10 @@ export declare abstract class BaseVendorAdapter implements IRobotVendorAdapter {
   abstract validateConnection(config: VendorConnectionConfig): Promise<ValidationResult>
   abstract getSupportedFeatures(): VendorFeatures
   protected createConnection(config: VendorConnectionConfig): VendorConnection
+  /**
+   * Mark a connected link as dropped. The edge agent reconnects connections left in ERROR.
+   */
+  protected markConnectionLost(connection: VendorConnection): void
   protected generateConnectionId(): string
   protected validateConfig(config: VendorConnectionConfig): ValidationResult
 }
@@ -233,13 +296,18 @@ export interface VendorRegistry {
   register(adapter: IRobotVendorAdapter): void
   unregister(vendor: RobotVendor): void
   get(vendor: RobotVendor): IRobotVendorAdapter | undefined
+  getByName(name: string): IRobotVendorAdapter | undefined
   list(): IRobotVendorAdapter[]
   isSupported(vendor: RobotVendor): boolean
 }
 export declare class DefaultVendorRegistry implements VendorRegistry {
   private adapters
-  register(adapter: IRobotVendorAdapter): void
+  private plugins
+  register(adapter: IRobotVendorAdapter, config?: VendorAdapterConfig): void
   unregister(vendor: RobotVendor): void
+  getByName(name: string): IRobotVendorAdapter | undefined
+  getConfig(name: string): VendorAdapterConfig | undefined
+  listConfigs(): VendorAdapterConfig[]
   get(vendor: RobotVendor): IRobotVendorAdapter | undefined
   list(): IRobotVendorAdapter[]
   isSupported(vendor: RobotVendor): boolean
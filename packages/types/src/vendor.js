@@ -6,11 +6,14 @@ exports.TemperatureUnit =
   exports.RobotVendor =
   exports.DefaultVendorRegistry =
   exports.BaseVendorAdapter =
+  exports.TELEMETRY_TARGETS =
   exports.VendorEventType =
   exports.ConnectionStatus =
   exports.AuthenticationType =
   exports.ConnectionProtocol =
     void 0
+exports.createConnectionConfigSchema = createConnectionConfigSchema
+exports.setTelemetryValue = setTelemetryValue
 var ConnectionProtocol
 ;(function (ConnectionProtocol) {
   ConnectionProtocol['TCP'] = 'tcp'
@@ -61,6 +64,80 @@ var VendorEventType
   VendorEventType['CALIBRATION_REQUIRED'] = 'calibration_required'
   VendorEventType['MAINTENANCE_DUE'] = 'maintenance_due'
 })(VendorEventType || (exports.VendorEventType = VendorEventType = {}))
+/**
+ * JSON Schema of a VendorConnectionConfig for an adapter's configSchema, the adapter narrows
+ * protocols and describes its options
+ */
+function createConnectionConfigSchema({ protocols, port, authentication, options }) {
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    type: 'object',
+    required: ['host', 'port', 'protocol'],
+    properties: {
+      host: {
+        type: 'string',
+        minLength: 1,
+        title: 'Host',
+        description: 'IP address or host name of the controller',
+      },
+      port: { type: 'integer', minimum: 1, maximum: 65535, default: port, title: 'Port' },
+      protocol: { type: 'string', enum: protocols, default: protocols[0], title: 'Protocol' },
+      authentication: {
+        type: 'object',
+        required: ['type', 'credentials'],
+        properties: {
+          type: {
+            type: 'string',
+            enum: authentication ?? Object.values(AuthenticationType),
+            title: 'Authentication',
+          },
+          credentials: { type: 'object' },
+        },
+      },
+      options: options ?? { type: 'object' },
+      timeout: { type: 'integer', minimum: 0, default: 5000, title: 'Timeout (ms)' },
+      retryAttempts: { type: 'integer', minimum: 0, default: 3, title: 'Retry attempts' },
+      keepAlive: { type: 'boolean', default: true, title: 'Keep alive' },
+    },
+  }
+}
+// Top-level TelemetryData fields a declarative adapter mapping may target
+exports.TELEMETRY_TARGETS = [
+  'position',
+  'gpsPosition',
+  'jointAngles',
+  'velocity',
+  'acceleration',
+  'force',
+  'torque',
+  'temperature',
+  'voltage',
+  'current',
+  'power',
+  'programState',
+  'toolData',
+  'safety',
+  'navigation',
+  'custom',
+]
+/**
+ * Write a value at a dotted TelemetryData path, creating the objects on the way. The unit,
+ * when given, goes on the object holding the value as the telemetry types expect.
+ */
+function setTelemetryValue(data, target, value, unit) {
+  const path = target.split('.')
+  let node = data
+  for (const key of path.slice(0, -1)) {
+    if (typeof node[key] !== 'object' || node[key] === null) {
+      node[key] = {}
+    }
+    node = node[key]
+  }
+  node[path[path.length - 1]] = value
+  if (unit !== undefined && path.length > 1) {
+    node.unit = unit
+  }
+}
 class BaseVendorAdapter {
   createConnection(config) {
     return {
@@ -81,6 +158,17 @@ class BaseVendorAdapter {
       },
     }
   }
+  /**
+   * Mark a connected link as dropped. The edge agent reconnects connections left in ERROR.
+   */
+  markConnectionLost(connection) {
+    if (connection.status !== ConnectionStatus.CONNECTED) {
+      return
+    }
+    connection.status = ConnectionStatus.ERROR
+    connection.metrics.errorCount++
+    connection.metrics.lastErrorAt = new Date()
+  }
   generateConnectionId() {
     return `${this.vendor}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
@@ -118,11 +206,30 @@ class BaseVendorAdapter {
 exports.BaseVendorAdapter = BaseVendorAdapter
 class DefaultVendorRegistry {
   adapters = new Map()
-  register(adapter) {
+  // Adapters registered with their plugin config, by name, several may share a vendor
+  plugins = new Map()
+  register(adapter, config) {
     this.adapters.set(adapter.vendor, adapter)
+    if (config) {
+      this.plugins.set(config.name, { adapter, config })
+    }
   }
   unregister(vendor) {
     this.adapters.delete(vendor)
+    for (const [name, plugin] of this.plugins) {
+      if (plugin.adapter.vendor === vendor) {
+        this.plugins.delete(name)
+      }
+    }
+  }
+  getByName(name) {
+    return this.plugins.get(name)?.adapter
+  }
+  getConfig(name) {
+    return this.plugins.get(name)?.config
+  }
+  listConfigs() {
+    return Array.from(this.plugins.values(), (plugin) => plugin.config)
   }
   get(vendor) {
     return this.adapters.get(vendor)
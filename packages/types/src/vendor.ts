@@ -1,5 +1,5 @@
 import { RobotVendor, RobotCommand, RobotStatus, RobotCapability } from './robot'
-import { RobotTelemetry, TemperatureUnit } from './telemetry'
+import { RobotTelemetry, TelemetryData, TemperatureUnit } from './telemetry'
 import { EventSubscription } from './events'
 
 export interface IRobotVendorAdapter {
@@ -83,6 +83,36 @@ export interface ConnectionMetrics {
   averageLatency: number // milliseconds
   errorCount: number
   lastErrorAt?: Date
+  reconnects?: number // Times the link was re-established after dropping
+}
+
+// One reading of a connection's metrics, published by the edge agent to track link quality
+export interface ConnectionMetricsSample {
+  robotId: string
+  connectionId?: string
+  status: ConnectionStatus
+  metrics: ConnectionMetrics
+  lastHeartbeat?: Date
+  timestamp: Date
+}
+
+// Link quality of a robot over a window of samples, counters are summed across adapter restarts
+export interface LinkQualitySummary {
+  samples: number
+  connectedRatio: number // 0-1, share of samples taken while CONNECTED
+  averageLatency: number // milliseconds
+  maxLatency: number // milliseconds
+  errors: number
+  reconnects: number
+  bytesReceived: number
+  bytesSent: number
+  from?: Date
+  to?: Date
+}
+
+export interface ConnectionMetricsHistory {
+  samples: ConnectionMetricsSample[]
+  summary: LinkQualitySummary
 }
 
 export interface CommandResult {
@@ -237,6 +267,110 @@ export interface SupportedRobotModel {
   notes?: string
 }
 
+/**
+ * Entry point of an adapter package, exported as adapterPlugin for the adapter loader
+ */
+export interface VendorAdapterPlugin {
+  config: VendorAdapterConfig
+  createAdapter(): IRobotVendorAdapter
+}
+
+export interface ConnectionSchemaOptions {
+  protocols: ConnectionProtocol[] // First is the default
+  port: number // Default port
+  authentication?: AuthenticationType[] // Accepted types, any when omitted
+  options?: Record<string, any> // JSON Schema of options
+}
+
+/**
+ * JSON Schema of a VendorConnectionConfig for an adapter's configSchema, the adapter narrows
+ * protocols and describes its options
+ */
+export function createConnectionConfigSchema({
+  protocols,
+  port,
+  authentication,
+  options,
+}: ConnectionSchemaOptions): Record<string, any> {
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    type: 'object',
+    required: ['host', 'port', 'protocol'],
+    properties: {
+      host: {
+        type: 'string',
+        minLength: 1,
+        title: 'Host',
+        description: 'IP address or host name of the controller',
+      },
+      port: { type: 'integer', minimum: 1, maximum: 65535, default: port, title: 'Port' },
+      protocol: { type: 'string', enum: protocols, default: protocols[0], title: 'Protocol' },
+      authentication: {
+        type: 'object',
+        required: ['type', 'credentials'],
+        properties: {
+          type: {
+            type: 'string',
+            enum: authentication ?? Object.values(AuthenticationType),
+            title: 'Authentication',
+          },
+          credentials: { type: 'object' },
+        },
+      },
+      options: options ?? { type: 'object' },
+      timeout: { type: 'integer', minimum: 0, default: 5000, title: 'Timeout (ms)' },
+      retryAttempts: { type: 'integer', minimum: 0, default: 3, title: 'Retry attempts' },
+      keepAlive: { type: 'boolean', default: true, title: 'Keep alive' },
+    },
+  }
+}
+
+// Top-level TelemetryData fields a declarative adapter mapping may target
+export const TELEMETRY_TARGETS: (keyof TelemetryData)[] = [
+  'position',
+  'gpsPosition',
+  'jointAngles',
+  'velocity',
+  'acceleration',
+  'force',
+  'torque',
+  'temperature',
+  'voltage',
+  'current',
+  'power',
+  'programState',
+  'toolData',
+  'safety',
+  'navigation',
+  'custom',
+]
+
+/**
+ * Write a value at a dotted TelemetryData path, creating the objects on the way. The unit,
+ * when given, goes on the object holding the value as the telemetry types expect.
+ */
+export function setTelemetryValue(
+  data: TelemetryData,
+  target: string,
+  value: any,
+  unit?: string
+): void {
+  const path = target.split('.')
+  let node = data as Record<string, any>
+
+  for (const key of path.slice(0, -1)) {
+    if (typeof node[key] !== 'object' || node[key] === null) {
+      node[key] = {}
+    }
+    node = node[key]
+  }
+
+  node[path[path.length - 1]] = value
+  if (unit !== undefined && path.length > 1) {
+    node.unit = unit
+  }
+}
+
 export abstract class BaseVendorAdapter implements IRobotVendorAdapter {
   abstract vendor: RobotVendor
   abstract connect(config: VendorConnectionConfig): Promise<VendorConnection>
@@ -272,6 +406,18 @@ export abstract class BaseVendorAdapter implements IRobotVendorAdapter {
     }
   }
 
+  /**
+   * Mark a connected link as dropped. The edge agent reconnects connections left in ERROR.
+   */
+  protected markConnectionLost(connection: VendorConnection): void {
+    if (connection.status !== ConnectionStatus.CONNECTED) {
+      return
+    }
+    connection.status = ConnectionStatus.ERROR
+    connection.metrics.errorCount++
+    connection.metrics.lastErrorAt = new Date()
+  }
+
   protected generateConnectionId(): string {
     return `${this.vendor}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
@@ -316,19 +462,42 @@ export interface VendorRegistry {
   register(adapter: IRobotVendorAdapter): void
   unregister(vendor: RobotVendor): void
   get(vendor: RobotVendor): IRobotVendorAdapter | undefined
+  getByName(name: string): IRobotVendorAdapter | undefined // Adapter registered with a config
   list(): IRobotVendorAdapter[]
   isSupported(vendor: RobotVendor): boolean
 }
 
 export class DefaultVendorRegistry implements VendorRegistry {
   private adapters = new Map<RobotVendor, IRobotVendorAdapter>()
+  // Adapters registered with their plugin config, by name, several may share a vendor
+  private plugins = new Map<string, { adapter: IRobotVendorAdapter; config: VendorAdapterConfig }>()
 
-  register(adapter: IRobotVendorAdapter): void {
+  register(adapter: IRobotVendorAdapter, config?: VendorAdapterConfig): void {
     this.adapters.set(adapter.vendor, adapter)
+    if (config) {
+      this.plugins.set(config.name, { adapter, config })
+    }
   }
 
   unregister(vendor: RobotVendor): void {
     this.adapters.delete(vendor)
+    for (const [name, plugin] of this.plugins) {
+      if (plugin.adapter.vendor === vendor) {
+        this.plugins.delete(name)
+      }
+    }
+  }
+
+  getByName(name: string): IRobotVendorAdapter | undefined {
+    return this.plugins.get(name)?.adapter
+  }
+
+  getConfig(name: string): VendorAdapterConfig | undefined {
+    return this.plugins.get(name)?.config
+  }
+
+  listConfigs(): VendorAdapterConfig[] {
+    return Array.from(this.plugins.values(), (plugin) => plugin.config)
   }
 
   get(vendor: RobotVendor): IRobotVendorAdapter | undefined {
@@ -0,0 +1,203 @@
+import request from 'supertest'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { adapterService } from '../../services/adapter.service'
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  resetTestDatabase,
+  TEST_API_KEY,
+  type TestSetup,
+} from '../setup'
+
+// An installed adapter package, its adapter rejects one port the schema allows
+const PLUGIN_SOURCE = `
+exports.adapterPlugin = {
+  config: {
+    name: 'acme-gantry',
+    version: '1.2.0',
+    description: 'ACME gantry robots',
+    author: 'ACME',
+    license: 'MIT',
+    supportedRobots: [{ model: 'G2', series: 'Gantry', firmwareVersions: ['4.x'] }],
+    defaultConfig: { host: '192.168.0.40', port: 8080, protocol: 'http' },
+    configSchema: {
+      type: 'object',
+      required: ['host', 'port', 'protocol'],
+      properties: {
+        host: { type: 'string', minLength: 1, title: 'Host' },
+        port: { type: 'integer', minimum: 1, maximum: 65535, default: 8080, title: 'Port' },
+        protocol: { type: 'string', enum: ['http', 'https'], default: 'http' },
+        options: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            axes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['name'],
+                properties: { name: { type: 'string' }, length: { type: 'number', minimum: 0 } },
+              },
+            },
+          },
+        },
+      },
+    },
+    features: { supportsRemoteAccess: true, customFeatures: ['gantry'] },
+  },
+  createAdapter: () => ({
+    vendor: 'custom',
+    validateConnection: async (config) => {
+      const errors = config.port === 8081
+        ? [{ field: 'port', message: 'Port 8081 is the service port', code: 'SERVICE_PORT' }]
+        : []
+      return { valid: errors.length === 0, errors, warnings: [] }
+    },
+    getSupportedFeatures: () => ({ supportsRemoteAccess: true, customFeatures: ['gantry'] }),
+  }),
+}
+`
+
+describe('Adapters API Integration Tests', () => {
+  let setup: TestSetup
+  let nodeModules: string
+
+  beforeAll(async () => {
+    setup = await setupTestEnvironment()
+
+    nodeModules = mkdtempSync(join(tmpdir(), 'urfmp-api-adapters-'))
+    const directory = join(nodeModules, '@acme', 'urfmp-adapter-gantry')
+    mkdirSync(directory, { recursive: true })
+    writeFileSync(
+      join(directory, 'package.json'),
+      JSON.stringify({ name: '@acme/urfmp-adapter-gantry', keywords: ['urfmp-adapter'] })
+    )
+    writeFileSync(join(directory, 'index.js'), PLUGIN_SOURCE)
+
+    process.env.ADAPTER_PATHS = nodeModules
+    adapterService.load()
+  })
+
+  afterAll(async () => {
+    delete process.env.ADAPTER_PATHS
+    rmSync(nodeModules, { recursive: true, force: true })
+    await teardownTestEnvironment(setup)
+  })
+
+  beforeEach(async () => {
+    await resetTestDatabase(setup.dbClient)
+  })
+
+  describe('GET /api/v1/adapters', () => {
+    it('should list installed adapters with their config schema', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/adapters')
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      expect(response.body.data.adapters).toEqual([
+        expect.objectContaining({
+          name: 'acme-gantry',
+          version: '1.2.0',
+          vendor: 'custom',
+          supportedRobots: [{ model: 'G2', series: 'Gantry', firmwareVersions: ['4.x'] }],
+          defaultConfig: { host: '192.168.0.40', port: 8080, protocol: 'http' },
+          configSchema: expect.objectContaining({ required: ['host', 'port', 'protocol'] }),
+        }),
+      ])
+    })
+
+    it('should require authentication', async () => {
+      await request(setup.app).get('/api/v1/adapters').expect(401)
+    })
+  })
+
+  describe('GET /api/v1/adapters/:name', () => {
+    it('should return one adapter', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/adapters/acme-gantry')
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      expect(response.body.data.features).toEqual({
+        supportsRemoteAccess: true,
+        customFeatures: ['gantry'],
+      })
+    })
+
+    it('should return 404 for an adapter that is not installed', async () => {
+      await request(setup.app)
+        .get('/api/v1/adapters/fanuc')
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(404)
+    })
+  })
+
+  describe('POST /api/v1/adapters/:name/validate', () => {
+    it('should accept a valid connection config', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/adapters/acme-gantry/validate')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ host: '10.0.0.8', port: 8080, protocol: 'https', options: { axes: [] } })
+        .expect(200)
+
+      expect(response.body.data).toEqual({ valid: true, errors: [], warnings: [] })
+    })
+
+    it('should name each invalid field by path', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/adapters/acme-gantry/validate')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({
+          port: 8081,
+          protocol: 'ftp',
+          options: { axes: [{ name: 'x', length: 1200 }, { length: -1 }], speed: 2 },
+        })
+        .expect(200)
+
+      expect(response.body.data.valid).toBe(false)
+      expect(response.body.data.errors).toEqual([
+        { field: 'host', message: 'host is required', code: 'REQUIRED_FIELD' },
+        {
+          field: 'protocol',
+          message: 'protocol must be one of http, https',
+          code: 'INVALID_VALUE',
+        },
+        {
+          field: 'options.speed',
+          message: 'options.speed is not a known field',
+          code: 'UNKNOWN_FIELD',
+        },
+        {
+          field: 'options.axes[1].name',
+          message: 'options.axes[1].name is required',
+          code: 'REQUIRED_FIELD',
+        },
+        {
+          field: 'options.axes[1].length',
+          message: 'options.axes[1].length must be >= 0',
+          code: 'INVALID_VALUE',
+        },
+        { field: 'port', message: 'Port 8081 is the service port', code: 'SERVICE_PORT' },
+      ])
+    })
+
+    it('should reject a body that is not a config object', async () => {
+      await request(setup.app)
+        .post('/api/v1/adapters/acme-gantry/validate')
+        .set('X-API-Key', TEST_API_KEY)
+        .send([{ host: '10.0.0.8' }])
+        .expect(400)
+    })
+
+    it('should return 404 for an adapter that is not installed', async () => {
+      await request(setup.app)
+        .post('/api/v1/adapters/fanuc/validate')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ host: '10.0.0.8', port: 80, protocol: 'http' })
+        .expect(404)
+    })
+  })
+})
@@ -0,0 +1,170 @@
+import request from 'supertest'
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  resetTestDatabase,
+  TEST_API_KEY,
+  type TestSetup,
+} from '../setup'
+import { query } from '../../config/database'
+import { publishEvent } from '../../config/rabbitmq'
+import { predictiveMaintenanceService } from '../../services/predictive-maintenance.service'
+
+describe('Maintenance Predictions API Integration Tests', () => {
+  let setup: TestSetup
+
+  beforeAll(async () => {
+    setup = await setupTestEnvironment()
+  })
+
+  afterAll(async () => {
+    await teardownTestEnvironment(setup)
+  })
+
+  beforeEach(async () => {
+    await resetTestDatabase(setup.dbClient)
+  })
+
+  describe('GET /api/v1/maintenance/predictions', () => {
+    it('should list maintenance predictions', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/maintenance/predictions')
+        .query({ severity: 'high,medium', acknowledged: 'false' })
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      expect(response.body).toHaveProperty('success', true)
+
+      const prediction = response.body.data.predictions[0]
+      expect(prediction).toHaveProperty('component', 'motor_joint_3')
+      expect(prediction).toHaveProperty('confidence', 0.85)
+      expect(prediction.recommendation).toHaveProperty('action', 'schedule_maintenance')
+    })
+
+    it('should return 404 for a non-existent prediction', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/maintenance/predictions/non-existent-prediction')
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(404)
+
+      expect(response.body.error.code).toBe('NOT_FOUND')
+    })
+  })
+
+  describe('POST /api/v1/maintenance/predictions/analyze', () => {
+    it('should predict components trending towards their limits', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/maintenance/predictions/analyze')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ robotId: 'test-robot-id' })
+        .expect(200)
+
+      // Only the heating joint motor is flagged, the flat controller is healthy
+      expect(response.body.data).toHaveLength(1)
+
+      const prediction = response.body.data[0]
+      expect(prediction).toHaveProperty('component', 'motor_joint_3')
+      expect(prediction).toHaveProperty('predictionType', 'overheating')
+      expect(prediction).toHaveProperty('severity', 'medium')
+      expect(prediction.remainingUsefulLife).toBeLessThan(1)
+      expect(prediction.triggerMetrics[0]).toMatchObject({
+        name: 'temperature.motor.joint3',
+        threshold: 70,
+        trend: 'increasing',
+      })
+      expect(prediction.recommendation).toHaveProperty('priority', 'medium')
+    })
+
+    it('should analyse every robot in the organization', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/maintenance/predictions/analyze')
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      expect(response.body.data[0]).toHaveProperty('robotId', 'test-robot-id')
+    })
+
+    it('should update an acknowledged prediction in place without alerting again', async () => {
+      const defaultQuery = (query as jest.Mock).getMockImplementation()!
+      const statements: string[] = []
+      ;(query as jest.Mock).mockImplementation(async (text: string, params?: any[]) => {
+        statements.push(text)
+        if (text.includes('SELECT id, severity, acknowledged_at')) {
+          return {
+            rows:
+              params?.[1] === 'motor_joint_3'
+                ? [
+                    {
+                      id: 'test-prediction-id',
+                      severity: 'medium',
+                      acknowledged_at: new Date('2025-10-01T08:00:00.000Z'),
+                      acknowledged_by: '3885c041-ebf4-4fdd-a6ec-7d88216ded2d',
+                    },
+                  ]
+                : [],
+            rowCount: 1,
+          }
+        }
+        return defaultQuery(text, params)
+      })
+      ;(publishEvent as jest.Mock).mockClear()
+
+      try {
+        const response = await request(setup.app)
+          .post('/api/v1/maintenance/predictions/analyze')
+          .set('X-API-Key', TEST_API_KEY)
+          .send({ robotId: 'test-robot-id' })
+          .expect(200)
+
+        expect(response.body.data[0]).toMatchObject({
+          id: 'test-prediction-id',
+          severity: 'medium',
+          acknowledgedAt: '2025-10-01T08:00:00.000Z',
+        })
+      } finally {
+        ;(query as jest.Mock).mockImplementation(defaultQuery)
+      }
+
+      expect(statements.some((text) => text.includes('INSERT INTO maintenance_predictions'))).toBe(
+        false
+      )
+      expect(statements.some((text) => text.includes('UPDATE maintenance_predictions'))).toBe(true)
+      expect(publishEvent).not.toHaveBeenCalled()
+    })
+
+    it('should wait for a run in progress instead of skipping the analysis', async () => {
+      const scheduledRun = predictiveMaintenanceService.analyzeFleet()
+
+      const response = await request(setup.app)
+        .post('/api/v1/maintenance/predictions/analyze')
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      await scheduledRun
+      expect(response.body.data).toHaveLength(1)
+    })
+
+    it('should return 404 for an unknown robot', async () => {
+      await request(setup.app)
+        .post('/api/v1/maintenance/predictions/analyze')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ robotId: 'missing-robot-id' })
+        .expect(404)
+    })
+  })
+
+  describe('POST /api/v1/maintenance/predictions/:id/acknowledge', () => {
+    it('should acknowledge a prediction', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/maintenance/predictions/test-prediction-id/acknowledge')
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      expect(response.body.data).toHaveProperty('acknowledgedAt')
+      expect(response.body.data).toHaveProperty(
+        'acknowledgedBy',
+        '3885c041-ebf4-4fdd-a6ec-7d88216ded2d'
+      )
+    })
+  })
+})
@@ -0,0 +1,196 @@
+import request from 'supertest'
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  resetTestDatabase,
+  TEST_API_KEY,
+  type TestSetup,
+} from '../setup'
+import { query } from '../../config/database'
+
+describe('Maintenance Reports API Integration Tests', () => {
+  let setup: TestSetup
+
+  beforeAll(async () => {
+    setup = await setupTestEnvironment()
+  })
+
+  afterAll(async () => {
+    await teardownTestEnvironment(setup)
+  })
+
+  beforeEach(async () => {
+    await resetTestDatabase(setup.dbClient)
+  })
+
+  describe('GET /api/v1/maintenance/reports', () => {
+    it('should compute a monthly summary from completed tasks', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/maintenance/reports')
+        .query({ period: 'monthly', date: '2026-09-15' })
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      const report = response.body.data
+      expect(report).toHaveProperty('period', 'monthly')
+      expect(report.filters.dateRange).toEqual({
+        start: '2026-09-01T00:00:00.000Z',
+        end: '2026-10-01T00:00:00.000Z',
+      })
+      expect(report.data.summary).toMatchObject({
+        totalTasks: 3,
+        completedTasks: 2,
+        overdueTasks: 1,
+        avgCompletionTime: 60,
+        totalCost: 400,
+        totalDowntime: 120,
+        mttr: 1.5,
+      })
+      expect(report.data.summary.availability).toBeGreaterThan(99)
+    })
+
+    it('should break costs down by type, robot and month', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/maintenance/reports')
+        .query({ type: 'cost_analysis', period: 'monthly', date: '2026-09-15' })
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      const costs = response.body.data.data.costs
+      expect(costs).toMatchObject({
+        labor: 100,
+        parts: 300,
+        external: 0,
+        total: 400,
+        currency: 'EUR',
+        byRobot: { 'test-robot-id': 400 },
+        byMonth: { '2026-09': 400 },
+      })
+      expect(costs.byType).toMatchObject({ corrective: 350, preventive: 50, emergency: 0 })
+
+      const completedTrend = response.body.data.data.trends.find(
+        (trend: any) => trend.metric === 'completed_tasks'
+      )
+      expect(completedTrend.values).toHaveLength(30)
+    })
+
+    it('should keep a recorded zero parts cost instead of pricing the part list', async () => {
+      const defaultQuery = (query as jest.Mock).getMockImplementation()!
+      ;(query as jest.Mock).mockImplementation(async (text: string, params?: any[]) => {
+        const result = await defaultQuery(text, params)
+        if (text.includes('COALESCE(t.completed_at, t.scheduled_at)')) {
+          // The grease came out of stock already paid for
+          const preventive = result.rows.find((row: any) => row.id === 'report-preventive-task')
+          preventive.cost = { labor: 30, parts: 0, external: 0, total: 30, currency: 'EUR' }
+        }
+        return result
+      })
+
+      try {
+        const response = await request(setup.app)
+          .get('/api/v1/maintenance/reports')
+          .query({ type: 'cost_analysis', period: 'monthly', date: '2026-09-15' })
+          .set('X-API-Key', TEST_API_KEY)
+          .expect(200)
+
+        expect(response.body.data.data.costs).toMatchObject({ labor: 130, parts: 250, total: 380 })
+      } finally {
+        ;(query as jest.Mock).mockImplementation(defaultQuery)
+      }
+    })
+
+    it('should return an empty report when no robot matches the facility', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/maintenance/reports')
+        .query({ period: 'monthly', date: '2026-09-15', facility: 'Plant Z' })
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      expect(response.body.data.data.summary).toHaveProperty('totalTasks', 0)
+      expect(response.body.data.data.tasks).toHaveLength(0)
+    })
+
+    it('should export the report as CSV', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/maintenance/reports')
+        .query({ period: 'monthly', date: '2026-09-15', format: 'csv' })
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      expect(response.headers['content-type']).toContain('text/csv')
+      expect(response.headers['content-disposition']).toContain(
+        'maintenance-report-monthly-2026-09-01.csv'
+      )
+      expect(response.text).toContain('MTTR,1.5,hours')
+      expect(response.text).toContain('report-corrective-task')
+    })
+
+    it('should keep formula-like text in CSV cells as text', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/maintenance/reports')
+        .query({ period: 'monthly', date: '2026-09-15', format: 'csv' })
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      expect(response.text).toContain(`"'=HYPERLINK(""http://example.com"")"`)
+      expect(response.text).not.toMatch(/,=HYPERLINK/)
+    })
+
+    it('should only read open predictions of the reported robots', async () => {
+      ;(query as jest.Mock).mockClear()
+
+      await request(setup.app)
+        .get('/api/v1/maintenance/reports')
+        .query({ type: 'predictive', period: 'monthly', date: '2026-09-15' })
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      const select = (query as jest.Mock).mock.calls.find(
+        ([text]) => text.includes('FROM maintenance_predictions') && text.includes('robot_id')
+      )
+      expect(select[0]).toContain('robot_id = ANY($2)')
+      expect(select[1][1]).toEqual(['test-robot-id'])
+    })
+
+    it('should export the report as a printable PDF', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/maintenance/reports')
+        .query({ period: 'monthly', date: '2026-09-15', format: 'pdf' })
+        .set('X-API-Key', TEST_API_KEY)
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = []
+          res.on('data', (chunk: Buffer) => chunks.push(chunk))
+          res.on('end', () => callback(null, Buffer.concat(chunks)))
+        })
+        .expect(200)
+
+      expect(response.headers['content-type']).toContain('application/pdf')
+      const pdf = (response.body as Buffer).toString('latin1')
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+      expect(pdf).toContain('Monthly Summary Maintenance Report')
+      // Tasks and predictions name the robot instead of printing its id
+      expect(pdf).toContain('Test Robot')
+      expect(pdf).not.toContain('test-robot-id')
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true)
+    })
+
+    it('should require a range for custom reports', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/maintenance/reports')
+        .query({ period: 'custom', from: '2026-09-01' })
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(400)
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR')
+    })
+
+    it('should reject unsupported formats', async () => {
+      await request(setup.app)
+        .get('/api/v1/maintenance/reports')
+        .query({ period: 'monthly', format: 'xlsx' })
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(400)
+    })
+  })
+})
@@ -0,0 +1,160 @@
+import { RecurrenceFrequency, EventType } from '@urfmp/types'
+import { query } from '../../config/database'
+import { publishEvent } from '../../config/rabbitmq'
+import {
+  MaintenanceScheduler,
+  calculateNextOccurrence,
+} from '../../services/maintenance-scheduler.service'
+import { setupTestEnvironment, teardownTestEnvironment, type TestSetup } from '../setup'
+
+describe('Maintenance Scheduler', () => {
+  describe('calculateNextOccurrence', () => {
+    const start = new Date('2024-01-31T08:00:00.000Z') // Wednesday
+
+    it('should add the interval in days for daily rules', () => {
+      const next = calculateNextOccurrence(
+        { frequency: RecurrenceFrequency.DAILY, interval: 3 },
+        start
+      )
+
+      expect(next?.toISOString()).toBe('2024-02-03T08:00:00.000Z')
+    })
+
+    it('should advance to the next listed weekday for weekly rules', () => {
+      const rule = { frequency: RecurrenceFrequency.WEEKLY, interval: 2, daysOfWeek: [1, 5] }
+
+      expect(calculateNextOccurrence(rule, start)?.toISOString()).toBe('2024-02-02T08:00:00.000Z')
+      expect(
+        calculateNextOccurrence(rule, new Date('2024-02-02T08:00:00.000Z'))?.toISOString()
+      ).toBe('2024-02-12T08:00:00.000Z')
+    })
+
+    it('should clamp monthly rules to the end of shorter months', () => {
+      const next = calculateNextOccurrence(
+        { frequency: RecurrenceFrequency.MONTHLY, interval: 1 },
+        start
+      )
+
+      expect(next?.toISOString()).toBe('2024-02-29T08:00:00.000Z')
+    })
+
+    it('should add three months per interval for quarterly rules', () => {
+      const next = calculateNextOccurrence(
+        { frequency: RecurrenceFrequency.QUARTERLY, interval: 1, dayOfMonth: 15 },
+        start
+      )
+
+      expect(next?.toISOString()).toBe('2024-04-15T08:00:00.000Z')
+    })
+
+    it('should stop once the end date has passed', () => {
+      const next = calculateNextOccurrence(
+        {
+          frequency: RecurrenceFrequency.DAILY,
+          interval: 1,
+          endDate: new Date('2024-01-31T23:59:59.000Z'),
+        },
+        start
+      )
+
+      expect(next).toBeNull()
+    })
+
+    it('should not schedule usage-based rules from the calendar', () => {
+      expect(
+        calculateNextOccurrence({ frequency: RecurrenceFrequency.HOURS, interval: 500 }, start)
+      ).toBeNull()
+    })
+  })
+
+  describe('runCycle', () => {
+    let setup: TestSetup
+
+    beforeAll(async () => {
+      setup = await setupTestEnvironment()
+    })
+
+    afterAll(async () => {
+      await teardownTestEnvironment(setup)
+    })
+
+    it('should mark tasks due and overdue and publish events', async () => {
+      const scheduler = new MaintenanceScheduler({ intervalMs: 60000, lookaheadDays: 7 })
+
+      const result = await scheduler.runCycle(new Date())
+
+      expect(result).toEqual({ generated: 0, due: 1, overdue: 1 })
+      expect(publishEvent).toHaveBeenCalledWith(
+        EventType.MAINTENANCE_OVERDUE,
+        expect.objectContaining({ type: EventType.MAINTENANCE_OVERDUE, robotId: 'test-robot-id' })
+      )
+      expect(publishEvent).toHaveBeenCalledWith(
+        EventType.MAINTENANCE_DUE,
+        expect.objectContaining({ type: EventType.MAINTENANCE_DUE })
+      )
+    })
+  })
+
+  describe('generateRecurringTasks', () => {
+    let setup: TestSetup
+
+    beforeAll(async () => {
+      setup = await setupTestEnvironment()
+    })
+
+    afterAll(async () => {
+      await teardownTestEnvironment(setup)
+    })
+
+    it('should not count an occurrence another run already created', async () => {
+      const now = new Date('2025-03-10T06:00:00.000Z')
+      const inserts: any[][] = []
+      const defaultQuery = (query as jest.Mock).getMockImplementation()!
+      ;(query as jest.Mock).mockImplementation(async (text: string, params?: any[]) => {
+        if (text.includes('WHERE t.is_recurring = true')) {
+          return {
+            rows: [
+              {
+                id: 'series-task-id',
+                robot_id: 'test-robot-id',
+                organization_id: 'd8077863-d602-45fd-a253-78ee0d3d49a8',
+                type: 'preventive',
+                priority: 'medium',
+                status: 'scheduled',
+                title: 'Test Daily Check',
+                scheduled_at: new Date('2025-03-10T08:00:00.000Z'),
+                due_date: new Date('2025-03-10T10:00:00.000Z'),
+                parts: [],
+                checklist_items: [],
+                tags: [],
+                is_recurring: true,
+                recurrence_rule: { frequency: RecurrenceFrequency.DAILY, interval: 1 },
+                instance_count: '0',
+                last_scheduled_at: null,
+              },
+            ],
+            rowCount: 1,
+          }
+        }
+        if (text.includes('INSERT INTO maintenance_tasks')) {
+          inserts.push([text, params])
+          // The first occurrence is already in the table
+          return { rows: [], rowCount: inserts.length === 1 ? 0 : 1 }
+        }
+        return defaultQuery(text, params)
+      })
+
+      try {
+        const scheduler = new MaintenanceScheduler({ intervalMs: 60000, lookaheadDays: 3 })
+        const generated = await scheduler.generateRecurringTasks(now)
+
+        // 11 and 12 March fall inside the three day horizon
+        expect(inserts).toHaveLength(2)
+        expect(generated).toBe(1)
+        expect(inserts[0][0]).toContain('ON CONFLICT (parent_task_id, scheduled_at) DO NOTHING')
+      } finally {
+        ;(query as jest.Mock).mockImplementation(defaultQuery)
+      }
+    })
+  })
+})
@@ -0,0 +1,137 @@
+import request from 'supertest'
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  resetTestDatabase,
+  TEST_API_KEY,
+  type TestSetup,
+} from '../setup'
+
+describe('Maintenance Templates API Integration Tests', () => {
+  let setup: TestSetup
+
+  beforeAll(async () => {
+    setup = await setupTestEnvironment()
+  })
+
+  afterAll(async () => {
+    await teardownTestEnvironment(setup)
+  })
+
+  beforeEach(async () => {
+    await resetTestDatabase(setup.dbClient)
+  })
+
+  describe('GET /api/v1/maintenance/templates', () => {
+    it('should list maintenance templates', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/maintenance/templates')
+        .query({ vendor: 'universal_robots', model: 'UR10e' })
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      expect(response.body).toHaveProperty('success', true)
+      expect(Array.isArray(response.body.data.templates)).toBe(true)
+
+      const template = response.body.data.templates[0]
+      expect(template).toHaveProperty('model', 'UR10e')
+      expect(Array.isArray(template.checklistItems)).toBe(true)
+      expect(Array.isArray(template.requiredParts)).toBe(true)
+    })
+
+    it('should return 404 for a non-existent template', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/maintenance/templates/non-existent-template')
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(404)
+
+      expect(response.body.error.code).toBe('NOT_FOUND')
+    })
+  })
+
+  describe('POST /api/v1/maintenance/templates', () => {
+    it('should create a maintenance template', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/maintenance/templates')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({
+          name: 'Test UR5e annual service',
+          type: 'preventive',
+          vendor: 'universal_robots',
+          model: 'UR5e',
+          estimatedDuration: 240,
+          checklistItems: [{ description: 'Replace joint grease' }],
+          requiredParts: [{ name: 'Grease cartridge', quantity: 1 }],
+        })
+        .expect(201)
+
+      expect(response.body.data).toHaveProperty('id', 'newly-created-template-id')
+      expect(response.body.data).toHaveProperty('model', 'UR5e')
+    })
+
+    it('should reject an unknown vendor', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/maintenance/templates')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ name: 'Test Invalid Vendor', type: 'preventive', vendor: 'acme' })
+        .expect(400)
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR')
+    })
+  })
+
+  describe('PUT /api/v1/maintenance/templates/:id', () => {
+    it('should bump the template version on update', async () => {
+      const response = await request(setup.app)
+        .put('/api/v1/maintenance/templates/test-template-id')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ estimatedDuration: 150 })
+        .expect(200)
+
+      expect(response.body.data).toHaveProperty('version', '1.0.1')
+    })
+
+    it('should refuse to modify public templates owned by another organization', async () => {
+      const response = await request(setup.app)
+        .put('/api/v1/maintenance/templates/test-public-template-id')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ estimatedDuration: 150 })
+        .expect(403)
+
+      expect(response.body.error.code).toBe('FORBIDDEN')
+    })
+  })
+
+  describe('POST /api/v1/maintenance/templates/:id/apply', () => {
+    it('should create populated tasks for matching robots', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/maintenance/templates/test-template-id/apply')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ robotFilters: {}, scheduledAt: new Date().toISOString(), priority: 'high' })
+        .expect(201)
+
+      expect(response.body.data).toHaveProperty('templateId', 'test-template-id')
+      expect(response.body.data.tasks).toHaveLength(1)
+      expect(response.body.data.tasks[0]).toHaveProperty('robotId', 'test-robot-id')
+      expect(response.body.data.tasks[0]).toHaveProperty('priority', 'high')
+    })
+
+    it('should reject robots that do not match the template', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/maintenance/templates/test-template-id/apply')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ robotIds: ['other-robot-id'], scheduledAt: new Date().toISOString() })
+        .expect(400)
+
+      expect(response.body.error.message).toContain('other-robot-id')
+    })
+
+    it('should require robots to be selected', async () => {
+      await request(setup.app)
+        .post('/api/v1/maintenance/templates/test-template-id/apply')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ scheduledAt: new Date().toISOString() })
+        .expect(400)
+    })
+  })
+})
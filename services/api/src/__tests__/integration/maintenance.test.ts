@@ -0,0 +1,241 @@
+import request from 'supertest'
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  resetTestDatabase,
+  TEST_API_KEY,
+  type TestSetup,
+} from '../setup'
+import * as websocket from '../../services/websocket.service'
+
+describe('Maintenance API Integration Tests', () => {
+  let setup: TestSetup
+
+  beforeAll(async () => {
+    setup = await setupTestEnvironment()
+  })
+
+  afterAll(async () => {
+    await teardownTestEnvironment(setup)
+  })
+
+  beforeEach(async () => {
+    await resetTestDatabase(setup.dbClient)
+  })
+
+  describe('GET /api/v1/maintenance', () => {
+    it('should list maintenance tasks with pagination', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/maintenance')
+        .query({ status: 'scheduled,overdue', page: 1, limit: 10 })
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      expect(response.body).toHaveProperty('success', true)
+      expect(Array.isArray(response.body.data.tasks)).toBe(true)
+      expect(response.body.pagination).toHaveProperty('limit', 10)
+
+      const task = response.body.data.tasks[0]
+      expect(task).toHaveProperty('robotId')
+      expect(task).toHaveProperty('status')
+      expect(Array.isArray(task.checklistItems)).toBe(true)
+    })
+
+    it('should reject requests without authentication', async () => {
+      const response = await request(setup.app).get('/api/v1/maintenance').expect(401)
+
+      expect(response.body.error.code).toBe('UNAUTHORIZED')
+    })
+  })
+
+  describe('GET /api/v1/maintenance/:id', () => {
+    it('should return a maintenance task', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/maintenance/test-maintenance-id')
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      expect(response.body.data).toHaveProperty('id', 'test-maintenance-id')
+      expect(response.body.data).toHaveProperty('title', 'Test Joint Service')
+    })
+
+    it('should return 404 for a non-existent task', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/maintenance/non-existent-task')
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(404)
+
+      expect(response.body.error.code).toBe('NOT_FOUND')
+    })
+  })
+
+  describe('POST /api/v1/maintenance', () => {
+    it('should create a maintenance task', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/maintenance')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({
+          robotId: 'test-robot-id',
+          type: 'preventive',
+          priority: 'high',
+          title: 'Test Gearbox Inspection',
+          scheduledAt: new Date().toISOString(),
+          checklistItems: [{ description: 'Check gearbox backlash' }],
+        })
+        .expect(201)
+
+      expect(response.body).toHaveProperty('success', true)
+      expect(response.body.data).toHaveProperty('id', 'newly-created-maintenance-id')
+      expect(response.body.data).toHaveProperty('status', 'scheduled')
+      expect(response.body.data).toHaveProperty('priority', 'high')
+    })
+
+    it('should reject an invalid maintenance type', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/maintenance')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({
+          robotId: 'test-robot-id',
+          type: 'not-a-type',
+          title: 'Test Invalid Task',
+          scheduledAt: new Date().toISOString(),
+        })
+        .expect(400)
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR')
+    })
+
+    it('should reject a task with missing required fields', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/maintenance')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ title: 'Test Incomplete Task' })
+        .expect(400)
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR')
+    })
+
+    it('should return 404 when the robot does not exist', async () => {
+      await request(setup.app)
+        .post('/api/v1/maintenance')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({
+          robotId: 'missing-robot-id',
+          type: 'inspection',
+          title: 'Test Orphan Task',
+          scheduledAt: new Date().toISOString(),
+        })
+        .expect(404)
+    })
+
+    it('should reject a parent task outside the organization', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/maintenance')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({
+          robotId: 'test-robot-id',
+          type: 'preventive',
+          title: 'Test Follow-up Service',
+          scheduledAt: new Date().toISOString(),
+          parentTaskId: 'other-organization-task-id',
+        })
+        .expect(400)
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR')
+    })
+  })
+
+  describe('PUT /api/v1/maintenance/:id', () => {
+    it('should refuse to make a task recurring without a recurrence rule', async () => {
+      const response = await request(setup.app)
+        .put('/api/v1/maintenance/test-maintenance-id')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ isRecurring: true })
+        .expect(400)
+
+      expect(response.body.error.message).toBe('Recurring tasks require a recurrence rule')
+    })
+  })
+
+  describe('Maintenance task lifecycle', () => {
+    it('should start a scheduled task', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/maintenance/test-maintenance-id/start')
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      expect(response.body.data).toHaveProperty('status', 'in_progress')
+    })
+
+    it('should refuse to complete a task that has not been started', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/maintenance/test-maintenance-id/complete')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ actualDuration: 45 })
+        .expect(409)
+
+      expect(response.body.error.code).toBe('CONFLICT')
+    })
+
+    it('should cancel a scheduled task', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/maintenance/test-maintenance-id/cancel')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ reason: 'Robot decommissioned' })
+        .expect(200)
+
+      expect(response.body.data).toHaveProperty('status', 'cancelled')
+    })
+
+    it('should broadcast a task summary to the organization channel only', async () => {
+      const broadcastToChannel = jest.fn()
+      const getWebSocketService = jest
+        .spyOn(websocket, 'getWebSocketService')
+        .mockReturnValue({ broadcastToChannel } as any)
+
+      try {
+        await request(setup.app)
+          .post('/api/v1/maintenance/test-maintenance-id/start')
+          .set('X-API-Key', TEST_API_KEY)
+          .expect(200)
+      } finally {
+        getWebSocketService.mockRestore()
+      }
+
+      expect(broadcastToChannel).toHaveBeenCalledWith(
+        'org:d8077863-d602-45fd-a253-78ee0d3d49a8:maintenance',
+        expect.objectContaining({ event: 'maintenance:task_started' })
+      )
+      const { task } = broadcastToChannel.mock.calls[0][1]
+      expect(task).toMatchObject({ id: 'test-maintenance-id', status: 'in_progress' })
+      expect(task).not.toHaveProperty('notes')
+    })
+
+    it('should add a note to a task', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/maintenance/test-maintenance-id/notes')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ content: 'Ordered replacement seals' })
+        .expect(201)
+
+      expect(response.body.data).toHaveProperty('content', 'Ordered replacement seals')
+      expect(response.body.data).toHaveProperty('authorName', 'Admin User')
+    })
+
+    it('should reject an empty note', async () => {
+      await request(setup.app)
+        .post('/api/v1/maintenance/test-maintenance-id/notes')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ content: '   ' })
+        .expect(400)
+    })
+
+    it('should only allow checklist updates on in-progress tasks', async () => {
+      await request(setup.app)
+        .patch('/api/v1/maintenance/test-maintenance-id/checklist/test-checklist-item')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ completed: true })
+        .expect(409)
+    })
+  })
+})
@@ -0,0 +1,318 @@
+import { AddressInfo, createServer, Server } from 'net'
+import Aedes, { createBroker } from 'aedes'
+import mqtt, { MqttClient } from 'mqtt'
+import { get as getSparkplug } from 'sparkplug-payload'
+import type { UMetric } from 'sparkplug-payload/lib/sparkplugbpayload'
+import { query } from '../../config/database'
+import { MqttIngestService } from '../../services/mqtt-ingest.service'
+import { telemetryService } from '../../services/telemetry.service'
+import { robotService } from '../../services/robot.service'
+
+const ORGANIZATION_ID = 'd8077863-d602-45fd-a253-78ee0d3d49a8'
+const CELL_ROBOT_ID = '6f1c2a9e-3d4b-4c5a-9e8f-1a2b3c4d5e6f'
+const LINE_ROBOT_ID = '7a2d3b0f-4e5c-4d6b-8f9a-2b3c4d5e6f70'
+const AMR_ROBOT_ID = '8b3e4c1a-5f6d-4e7c-9a0b-3c4d5e6f7081'
+const OTHER_ORGANIZATION_ID = '2c9f1e7a-8b4d-4f3e-a5c6-7d8e9f0a1b2c'
+const PRESS_ROBOT_ID = '9c4f5d2b-6a7e-4f8d-8b1c-4d5e6f708192'
+const FOREIGN_ROBOT_ID = 'ad5a6e3c-7b8f-4a9e-9c2d-5e6f70819203'
+
+const sparkplug = getSparkplug('spBv1.0')!
+
+const waitFor = async (condition: () => boolean, timeout = 2000) => {
+  const deadline = Date.now() + timeout
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+describe('MQTT Ingest', () => {
+  let broker: Aedes
+  let server: Server
+  let url: string
+  let ingest: MqttIngestService
+  let publisher: MqttClient
+  let ingestTelemetry: jest.SpyInstance
+  let updateRobot: jest.SpyInstance
+  const defaultQuery = (query as jest.Mock).getMockImplementation()
+
+  const publishSparkplug = (topic: string, seq: number | undefined, metrics: UMetric[]) =>
+    publisher.publishAsync(
+      `spBv1.0/${topic}`,
+      Buffer.from(sparkplug.encodePayload({ timestamp: 1760000000000, seq, metrics }))
+    )
+
+  const ingested = (robotId: string) =>
+    ingestTelemetry.mock.calls.map(([request]) => request).filter((r) => r.robotId === robotId)
+
+  const statuses = () =>
+    updateRobot.mock.calls.map(([robotId, , update]) => [robotId, update.status])
+
+  beforeAll(async () => {
+    broker = createBroker()
+    server = createServer(broker.handle)
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    url = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => broker.close(() => resolve()))
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+  })
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    ;(query as jest.Mock).mockImplementation(async (text: string, params?: any[]) => {
+      if (text.includes("configuration ? 'mqtt'")) {
+        return {
+          rows: [
+            {
+              id: CELL_ROBOT_ID,
+              organization_id: ORGANIZATION_ID,
+              mqtt: { topic: 'cell/7/telemetry' },
+            },
+            {
+              id: LINE_ROBOT_ID,
+              organization_id: ORGANIZATION_ID,
+              mqtt: {
+                sparkplug: { groupId: 'Plant1', edgeNodeId: 'Line2', deviceId: 'Robot1' },
+                metrics: { 'Battery/Voltage': 'voltage.supply' },
+              },
+            },
+            {
+              id: AMR_ROBOT_ID,
+              organization_id: ORGANIZATION_ID,
+              mqtt: { sparkplug: { groupId: 'Plant1', edgeNodeId: 'Line2', deviceId: 'AMR3' } },
+            },
+            {
+              id: PRESS_ROBOT_ID,
+              organization_id: ORGANIZATION_ID,
+              mqtt: {
+                topic: 'cell/9/telemetry',
+                sparkplug: { groupId: 'Plant2', edgeNodeId: 'Press1', deviceId: 'Robot1' },
+              },
+            },
+            // Claims the topic and edge node of another organization's robot
+            {
+              id: FOREIGN_ROBOT_ID,
+              organization_id: OTHER_ORGANIZATION_ID,
+              mqtt: {
+                topic: 'cell/9/telemetry',
+                sparkplug: { groupId: 'Plant2', edgeNodeId: 'Press1', deviceId: 'Robot2' },
+              },
+            },
+          ],
+        }
+      }
+      return defaultQuery!(text, params)
+    })
+    ingestTelemetry = jest
+      .spyOn(telemetryService, 'ingestTelemetry')
+      .mockImplementation(async (request) => ({ id: 'tel-1', ...request }) as any)
+    updateRobot = jest.spyOn(robotService, 'updateRobot').mockResolvedValue({} as any)
+
+    ingest = new MqttIngestService({
+      url,
+      topics: ['spBv1.0/#', 'cell/+/telemetry'],
+      clientId: 'urfmp-ingest-test',
+    })
+    const subscribed = new Promise((resolve) => broker.once('subscribe', resolve))
+    ingest.start()
+    await subscribed
+
+    publisher = await mqtt.connectAsync(url, { clientId: 'edge-node' })
+  })
+
+  afterEach(async () => {
+    await publisher.endAsync()
+    await ingest.stop()
+    ingestTelemetry.mockRestore()
+    updateRobot.mockRestore()
+    ;(query as jest.Mock).mockImplementation(defaultQuery)
+  })
+
+  const birthLine = async () => {
+    await publishSparkplug('Plant1/NBIRTH/Line2', 0, [
+      { name: 'bdSeq', type: 'UInt64', value: 4 },
+      { name: 'Node Control/Rebirth', type: 'Boolean', value: false },
+    ])
+    await publishSparkplug('Plant1/DBIRTH/Line2/Robot1', 1, [
+      { name: 'position/x', alias: 1, type: 'Double', value: 450.5 },
+      { name: 'position/y', alias: 2, type: 'Double', value: -120 },
+      { name: 'position/z', alias: 3, type: 'Double', value: 300 },
+      { name: 'Battery/Voltage', alias: 4, type: 'Float', value: 48 },
+      { name: 'Cycle Count', alias: 5, type: 'UInt64', value: 1200 },
+      { name: 'Device Control/Rebirth', type: 'Boolean', value: false },
+    ])
+    await waitFor(() => ingested(LINE_ROBOT_ID).length === 1)
+  }
+
+  describe('plain JSON topics', () => {
+    it('should ingest telemetry for the robot mapped to the topic', async () => {
+      await publisher.publishAsync(
+        'cell/7/telemetry',
+        JSON.stringify({
+          timestamp: '2025-10-01T08:00:00.000Z',
+          data: {
+            position: { x: 1, y: 2, z: 3 },
+            temperature: { controller: 41, unit: 'celsius' },
+          },
+        })
+      )
+      await publisher.publishAsync('cell/7/telemetry', JSON.stringify({ 'power/total': 350 }))
+      await publisher.publishAsync('cell/8/telemetry', JSON.stringify({ 'power/total': 1 }))
+      await publisher.publishAsync('cell/7/telemetry', 'not json')
+      await waitFor(() => ingestTelemetry.mock.calls.length === 2)
+
+      expect(ingested(CELL_ROBOT_ID)).toEqual([
+        {
+          robotId: CELL_ROBOT_ID,
+          organizationId: ORGANIZATION_ID,
+          data: {
+            position: { x: 1, y: 2, z: 3 },
+            temperature: { controller: 41, unit: 'celsius' },
+          },
+          timestamp: new Date('2025-10-01T08:00:00.000Z'),
+        },
+        expect.objectContaining({ data: { power: { total: 350 } } }),
+      ])
+    })
+  })
+
+  describe('untrusted publishers', () => {
+    afterEach(() => {
+      delete (Object.prototype as any).polluted
+    })
+
+    it('should not let metric names write onto object prototypes', async () => {
+      await publisher.publishAsync(
+        'cell/7/telemetry',
+        JSON.stringify({
+          'position.__proto__.polluted': true,
+          'custom/constructor/prototype/polluted': true,
+          'power/total': 350,
+        })
+      )
+      await publishSparkplug('Plant1/NBIRTH/Line2', 0, [
+        { name: 'bdSeq', type: 'UInt64', value: 4 },
+      ])
+      await publishSparkplug('Plant1/DBIRTH/Line2/Robot1', 1, [
+        { name: 'position/__proto__/polluted', type: 'Boolean', value: true },
+        { name: 'position/x', type: 'Double', value: 1 },
+      ])
+      await waitFor(() => ingestTelemetry.mock.calls.length === 2)
+
+      expect(({} as any).polluted).toBeUndefined()
+      expect(ingested(CELL_ROBOT_ID)[0].data).toEqual({ power: { total: 350 } })
+      expect(ingested(LINE_ROBOT_ID)[0].data).toEqual({ position: { x: 1 } })
+    })
+
+    it('should ignore topics and edge nodes claimed by several organizations', async () => {
+      await publisher.publishAsync('cell/9/telemetry', JSON.stringify({ 'power/total': 1 }))
+      await publishSparkplug('Plant2/NBIRTH/Press1', 0, [
+        { name: 'bdSeq', type: 'UInt64', value: 1 },
+      ])
+      await publishSparkplug('Plant2/DBIRTH/Press1/Robot1', 1, [
+        { name: 'position/x', type: 'Double', value: 1 },
+      ])
+      await publishSparkplug('Plant2/NDEATH/Press1', undefined, [
+        { name: 'bdSeq', type: 'UInt64', value: 1 },
+      ])
+      await publisher.publishAsync('cell/7/telemetry', JSON.stringify({ 'power/total': 2 }))
+      await waitFor(() => ingestTelemetry.mock.calls.length === 1)
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      expect(ingested(CELL_ROBOT_ID)).toHaveLength(1)
+      expect(ingestTelemetry).toHaveBeenCalledTimes(1)
+      expect(statuses()).toEqual([])
+    })
+  })
+
+  describe('Sparkplug B', () => {
+    it('should ingest device births as telemetry and mark the robot online', async () => {
+      await birthLine()
+
+      expect(ingested(LINE_ROBOT_ID)[0]).toEqual({
+        robotId: LINE_ROBOT_ID,
+        organizationId: ORGANIZATION_ID,
+        data: {
+          position: { x: 450.5, y: -120, z: 300 },
+          voltage: { supply: 48 },
+          custom: { 'Cycle Count': 1200 },
+        },
+        timestamp: new Date(1760000000000),
+      })
+      expect(statuses()).toEqual([[LINE_ROBOT_ID, 'online']])
+    })
+
+    it('should resolve aliases and complete partly reported groups from earlier values', async () => {
+      await birthLine()
+
+      await publishSparkplug('Plant1/DDATA/Line2/Robot1', 2, [
+        { alias: 1, type: 'Double', value: 460 },
+      ])
+      await waitFor(() => ingested(LINE_ROBOT_ID).length === 2)
+
+      expect(ingested(LINE_ROBOT_ID)[1].data).toEqual({ position: { x: 460, y: -120, z: 300 } })
+    })
+
+    it('should mark a device offline on its death certificate', async () => {
+      await birthLine()
+
+      await publishSparkplug('Plant1/DDEATH/Line2/Robot1', 2, [])
+      await waitFor(() => statuses().length === 2)
+
+      expect(statuses()[1]).toEqual([LINE_ROBOT_ID, 'offline'])
+    })
+
+    it('should mark every robot behind a node offline when the node dies', async () => {
+      await birthLine()
+
+      // A death of an earlier session of the node is ignored
+      await publishSparkplug('Plant1/NDEATH/Line2', undefined, [
+        { name: 'bdSeq', type: 'UInt64', value: 3 },
+      ])
+      await publishSparkplug('Plant1/NDEATH/Line2', undefined, [
+        { name: 'bdSeq', type: 'UInt64', value: 4 },
+      ])
+      await waitFor(() => statuses().length === 3)
+
+      expect(statuses().slice(1).sort()).toEqual(
+        [
+          [LINE_ROBOT_ID, 'offline'],
+          [AMR_ROBOT_ID, 'offline'],
+        ].sort()
+      )
+    })
+
+    it('should ask for a rebirth on data without birth or a sequence gap', async () => {
+      const commands: UMetric[][] = []
+      publisher.on('message', (_topic, payload) =>
+        commands.push(sparkplug.decodePayload(new Uint8Array(payload)).metrics ?? [])
+      )
+      await publisher.subscribeAsync('spBv1.0/Plant1/NCMD/Line2')
+
+      await publishSparkplug('Plant1/DDATA/Line2/Robot1', 7, [
+        { name: 'position/x', type: 'Double', value: 1 },
+      ])
+      await waitFor(() => commands.length === 1)
+
+      await birthLine()
+      await publishSparkplug('Plant1/DDATA/Line2/Robot1', 5, [
+        { alias: 1, type: 'Double', value: 2 },
+      ])
+      await publishSparkplug('Plant1/DDATA/Line2/Robot1', 6, [
+        { alias: 1, type: 'Double', value: 3 },
+      ])
+      await waitFor(() => commands.length === 2)
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      expect(commands[0]).toEqual([
+        expect.objectContaining({ name: 'Node Control/Rebirth', value: true }),
+      ])
+      expect(ingested(LINE_ROBOT_ID)).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,160 @@
+import request from 'supertest'
+import { query } from '../../config/database'
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  resetTestDatabase,
+  TEST_API_KEY,
+  type TestSetup,
+} from '../setup'
+
+const ORGANIZATION_ID = 'd8077863-d602-45fd-a253-78ee0d3d49a8'
+
+describe('Organizations API Integration Tests', () => {
+  let setup: TestSetup
+
+  beforeAll(async () => {
+    setup = await setupTestEnvironment()
+  })
+
+  afterAll(async () => {
+    await teardownTestEnvironment(setup)
+  })
+
+  beforeEach(async () => {
+    await resetTestDatabase(setup.dbClient)
+  })
+
+  describe('GET /api/v1/organizations', () => {
+    it('should return the current organization with effective settings and limits', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/organizations')
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      const organization = response.body.data
+      expect(organization).toHaveProperty('id', ORGANIZATION_ID)
+      expect(organization).toHaveProperty('plan', 'enterprise')
+
+      // Stored settings are merged over the defaults
+      expect(organization.settings).toHaveProperty('timezone', 'Europe/Berlin')
+      expect(organization.settings).toHaveProperty('currency', 'USD')
+      expect(organization.settings.notifications.webhook).toHaveProperty('secret', '********')
+
+      // Limit overrides are merged over the plan limits
+      expect(organization.limits).toHaveProperty('maxDataRetentionDays', 90)
+      expect(organization.limits).toHaveProperty('maxRobots', -1)
+      expect(organization.limits.features).toHaveProperty('predictiveMaintenance', true)
+
+      expect(organization.billing).toHaveProperty('billingEmail', 'billing@urfmp.com')
+      expect(organization.billing.usageThisMonth).toHaveProperty('robotCount', 2)
+    })
+
+    it('should deny access to another organization', async () => {
+      await request(setup.app)
+        .get('/api/v1/organizations/other-organization-id')
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(403)
+    })
+  })
+
+  describe('PUT /api/v1/organizations/:organizationId/settings', () => {
+    it('should update settings and keep unspecified values', async () => {
+      const response = await request(setup.app)
+        .put(`/api/v1/organizations/${ORGANIZATION_ID}/settings`)
+        .set('X-API-Key', TEST_API_KEY)
+        .send({
+          currency: 'EUR',
+          telemetryRetention: { raw: '60d' },
+          security: { mfaRequired: true, ipWhitelist: ['10.0.0.0/8', '192.168.1.20'] },
+          notifications: {
+            email: { enabled: true, alertEmails: ['ops@urfmp.com'] },
+            webhook: { secret: '********' },
+          },
+        })
+        .expect(200)
+
+      const settings = response.body.data
+      expect(settings).toMatchObject({ timezone: 'Europe/Berlin', currency: 'EUR' })
+      expect(settings.telemetryRetention).toEqual({ raw: '60d', aggregated: '1y', events: '90d' })
+      expect(settings.security).toMatchObject({ mfaRequired: true, sessionTimeout: 480 })
+      expect(settings.notifications.email.alertEmails).toEqual(['ops@urfmp.com'])
+      expect(settings.notifications.webhook).toMatchObject({ enabled: true, secret: '********' })
+    })
+
+    it('should keep the stored webhook secret when the update omits it', async () => {
+      await request(setup.app)
+        .put(`/api/v1/organizations/${ORGANIZATION_ID}/settings`)
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ notifications: { webhook: { enabled: false } } })
+        .expect(200)
+
+      const update = (query as jest.Mock).mock.calls
+        .filter(([text]) => text.includes('UPDATE organizations'))
+        .pop()!
+      const stored = JSON.parse(update[1][1])
+      expect(stored.notifications.webhook).toMatchObject({
+        enabled: false,
+        secret: 'stored-secret',
+      })
+    })
+
+    it('should reject retention beyond the organization limit', async () => {
+      const response = await request(setup.app)
+        .put(`/api/v1/organizations/${ORGANIZATION_ID}/settings`)
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ telemetryRetention: { raw: '1y' } })
+        .expect(400)
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR')
+    })
+
+    it('should reject invalid timezones, currencies and IP whitelist entries', async () => {
+      for (const body of [
+        { timezone: 'Mars/Olympus_Mons' },
+        { currency: 'euro' },
+        { security: { ipWhitelist: ['10.0.0.0/40'] } },
+      ]) {
+        await request(setup.app)
+          .put(`/api/v1/organizations/${ORGANIZATION_ID}/settings`)
+          .set('X-API-Key', TEST_API_KEY)
+          .send(body)
+          .expect(400)
+      }
+    })
+  })
+
+  describe('GET /api/v1/organizations/:organizationId/usage', () => {
+    it('should report usage against the plan limits', async () => {
+      const response = await request(setup.app)
+        .get(`/api/v1/organizations/${ORGANIZATION_ID}/usage`)
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      const usage = response.body.data
+      expect(usage.usage).toMatchObject({ robotCount: 2, userCount: 1, dataPoints: 12500 })
+      expect(usage.quotas.map((quota: any) => quota.resource)).toEqual([
+        'robots',
+        'users',
+        'api_calls',
+        'data_points',
+      ])
+      expect(usage.quotas[0]).toMatchObject({ used: 2, limit: -1, exceeded: false })
+    })
+
+    it('should reuse cached telemetry counts between reads', async () => {
+      const countScans = () =>
+        (query as jest.Mock).mock.calls.filter(([text]) => text.includes('AS period_points')).length
+      const before = countScans()
+
+      for (let i = 0; i < 2; i++) {
+        await request(setup.app)
+          .get(`/api/v1/organizations/${ORGANIZATION_ID}/usage`)
+          .set('X-API-Key', TEST_API_KEY)
+          .expect(200)
+      }
+
+      expect(countScans() - before).toBeLessThanOrEqual(1)
+    })
+  })
+})
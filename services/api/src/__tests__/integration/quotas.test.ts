@@ -0,0 +1,138 @@
+import request from 'supertest'
+import { SubscriptionPlan } from '@urfmp/types'
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  resetTestDatabase,
+  TEST_API_KEY,
+  type TestSetup,
+} from '../setup'
+import { cache } from '../../config/redis'
+import { PLAN_LIMITS } from '../../services/organization.service'
+
+const ORGANIZATION_ID = 'd8077863-d602-45fd-a253-78ee0d3d49a8'
+
+// Pretend the test organization is on the free plan, optionally with different limits
+const useFreePlan = async (overrides: Record<string, any> = {}) => {
+  await cache.set(`org_limits:${ORGANIZATION_ID}`, {
+    plan: SubscriptionPlan.FREE,
+    limits: { ...PLAN_LIMITS[SubscriptionPlan.FREE], ...overrides },
+  })
+}
+
+describe('Plan Limits Integration Tests', () => {
+  let setup: TestSetup
+
+  beforeAll(async () => {
+    setup = await setupTestEnvironment()
+  })
+
+  afterAll(async () => {
+    await teardownTestEnvironment(setup)
+  })
+
+  beforeEach(async () => {
+    await resetTestDatabase(setup.dbClient)
+    ;(global as any).__testCounters__ = {}
+  })
+
+  afterEach(async () => {
+    await cache.del(`org_limits:${ORGANIZATION_ID}`)
+  })
+
+  it('should reject robot creation over the plan robot limit', async () => {
+    await useFreePlan()
+
+    const response = await request(setup.app)
+      .post('/api/v1/robots')
+      .set('X-API-Key', TEST_API_KEY)
+      .send({
+        name: 'Test Robot Over Limit',
+        model: 'UR5e',
+        vendor: 'universal_robots',
+        serialNumber: 'UR5E-LIMIT-001',
+      })
+      .expect(429)
+
+    expect(response.body.error).toMatchObject({
+      code: 'QUOTA_EXCEEDED',
+      details: { plan: 'free', resource: 'robots', limit: 3, used: 3 },
+    })
+  })
+
+  it('should block plan-gated features', async () => {
+    await useFreePlan()
+
+    const response = await request(setup.app)
+      .get('/api/v1/maintenance/predictions')
+      .set('X-API-Key', TEST_API_KEY)
+      .expect(403)
+
+    expect(response.body.error).toMatchObject({
+      code: 'FEATURE_NOT_AVAILABLE',
+      details: { plan: 'free', feature: 'predictiveMaintenance' },
+    })
+  })
+
+  it('should reject API key requests when the plan has no API access', async () => {
+    await useFreePlan({ features: { ...PLAN_LIMITS.free.features, apiAccess: false } })
+
+    const response = await request(setup.app)
+      .get('/api/v1/robots')
+      .set('X-API-Key', TEST_API_KEY)
+      .expect(403)
+
+    expect(response.body.error.details).toHaveProperty('feature', 'apiAccess')
+  })
+
+  it('should reject requests once the monthly API allowance is used up', async () => {
+    await useFreePlan({ maxApiCallsPerMonth: 0 })
+
+    const response = await request(setup.app)
+      .get('/api/v1/robots')
+      .set('X-API-Key', TEST_API_KEY)
+      .expect(429)
+
+    expect(response.body.error.details).toHaveProperty('resource', 'api_calls')
+    expect(Number(response.headers['retry-after'])).toBeGreaterThan(0)
+  })
+
+  it('should keep organization usage reachable past the API allowance', async () => {
+    await useFreePlan({ maxApiCallsPerMonth: 0 })
+
+    await request(setup.app)
+      .get(`/api/v1/organizations/${ORGANIZATION_ID}/usage`)
+      .set('X-API-Key', TEST_API_KEY)
+      .expect(200)
+  })
+
+  describe('telemetry ingest allowance', () => {
+    const telemetry = { data: { position: { x: 0.1, y: 0.2, z: 0.3 } } }
+
+    it('should accept telemetry within the allowance', async () => {
+      await useFreePlan()
+
+      await request(setup.app)
+        .post('/api/v1/telemetry/test-robot-id')
+        .set('X-API-Key', TEST_API_KEY)
+        .send(telemetry)
+        .expect(201)
+    })
+
+    it('should throttle telemetry past the allowance', async () => {
+      // 999990 points are already stored this month
+      await useFreePlan({ maxDataPointsPerMonth: 999991 })
+
+      const response = await request(setup.app)
+        .post('/api/v1/telemetry/test-robot-id')
+        .set('X-API-Key', TEST_API_KEY)
+        .send(telemetry)
+        .expect(429)
+
+      expect(response.body.error).toMatchObject({
+        code: 'QUOTA_EXCEEDED',
+        details: { resource: 'data_points', limit: 999991, used: 999990 },
+      })
+    })
+  })
+})
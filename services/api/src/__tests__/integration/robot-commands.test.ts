@@ -0,0 +1,159 @@
+import request from 'supertest'
+import { CommandStatus } from '@urfmp/types'
+import { query } from '../../config/database'
+import { publishToQueue } from '../../config/rabbitmq'
+import { CommandService } from '../../services/command.service'
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  resetTestDatabase,
+  TEST_API_KEY,
+  type TestSetup,
+} from '../setup'
+
+describe('Robot Commands Integration Tests', () => {
+  let setup: TestSetup
+
+  beforeAll(async () => {
+    setup = await setupTestEnvironment()
+  })
+
+  afterAll(async () => {
+    await teardownTestEnvironment(setup)
+  })
+
+  beforeEach(async () => {
+    await resetTestDatabase(setup.dbClient)
+    jest.clearAllMocks()
+  })
+
+  describe('POST /api/v1/robots/:id/commands', () => {
+    it('should persist the command and queue it', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/robots/test-robot-id/commands')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ type: 'EMERGENCY_STOP', priority: 'critical' })
+        .expect(201)
+
+      expect(response.body.data).toMatchObject({ status: 'queued', robotId: 'test-robot-id' })
+      const insert = (query as jest.Mock).mock.calls.find(([text]) =>
+        text.includes('INSERT INTO robot_commands')
+      )
+      expect(insert[1]).toEqual(expect.arrayContaining(['emergency_stop', 'critical', 'pending']))
+      expect(publishToQueue).toHaveBeenCalledWith(
+        'robot_commands',
+        expect.objectContaining({ type: 'emergency_stop', priority: 'critical' }),
+        { priority: 10 }
+      )
+    })
+
+    it('should mark the command failed when the queue does not accept it', async () => {
+      ;(publishToQueue as jest.Mock).mockResolvedValueOnce(false)
+
+      const response = await request(setup.app)
+        .post('/api/v1/robots/test-robot-id/commands')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ type: 'start' })
+        .expect(201)
+
+      expect(response.body.data).toMatchObject({
+        status: 'failed',
+        error: 'Command queue unavailable',
+      })
+    })
+
+    it('should reject unknown command types', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/robots/test-robot-id/commands')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ type: 'self_destruct' })
+        .expect(400)
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR')
+      expect(publishToQueue).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET /api/v1/robots/:id/commands', () => {
+    it('should return the command history with pagination', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/robots/test-robot-id/commands')
+        .query({ status: 'queued,executing' })
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      expect(response.body.data.commands).toHaveLength(1)
+      expect(response.body.pagination).toMatchObject({ page: 1, total: 1 })
+    })
+
+    it('should reject from and to values that are not dates', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/robots/test-robot-id/commands')
+        .query({ from: 'abc' })
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(400)
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR')
+    })
+
+    it('should list queued commands by priority and then oldest first', async () => {
+      await request(setup.app)
+        .get('/api/v1/robots/test-robot-id/commands')
+        .query({ status: 'queued', limit: 10 })
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      const [select] = (query as jest.Mock).mock.calls.find(
+        ([text]) => text.includes('FROM robot_commands') && text.includes('ORDER BY')
+      )
+      expect(select).toMatch(/WHEN 'critical' THEN 3[\s\S]*END DESC, c\.created_at ASC/)
+    })
+
+    it('should return the status of a single command', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/robots/test-robot-id/commands/test-command-id')
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      expect(response.body.data).toMatchObject({ id: 'test-command-id', status: 'queued' })
+    })
+
+    it('should return 404 for unknown commands', async () => {
+      await request(setup.app)
+        .get('/api/v1/robots/test-robot-id/commands/unknown-command-id')
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(404)
+    })
+  })
+
+  describe('PUT /api/v1/robots/:id/commands/:commandId/status', () => {
+    it('should move a queued command to executing', async () => {
+      const response = await request(setup.app)
+        .put('/api/v1/robots/test-robot-id/commands/test-command-id/status')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ status: 'executing' })
+        .expect(200)
+
+      expect(response.body.data).toHaveProperty('status', 'executing')
+    })
+
+    it('should reject transitions that skip execution', async () => {
+      const response = await request(setup.app)
+        .put('/api/v1/robots/test-robot-id/commands/test-command-id/status')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ status: 'completed' })
+        .expect(409)
+
+      expect(response.body.error.message).toBe('Cannot move a queued command to completed')
+    })
+  })
+
+  describe('expireTimedOutCommands', () => {
+    it('should time out commands past their deadline', async () => {
+      const commands = await new CommandService().expireTimedOutCommands()
+
+      expect(commands).toHaveLength(1)
+      expect(commands[0].status).toBe(CommandStatus.TIMEOUT)
+    })
+  })
+})
@@ -228,6 +228,22 @@ describe('Robots API Integration Tests', () => {
       expect(response.body.error.code).toBe('VALIDATION_ERROR')
     })
 
+    it('should reject an MQTT topic claimed by another robot', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/robots')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({
+          name: 'Test Robot',
+          model: 'UR5e',
+          vendor: 'universal_robots',
+          serialNumber: 'TEST123456',
+          configuration: { mqtt: { topic: 'cell/1/telemetry' } },
+        })
+        .expect(409)
+
+      expect(response.body.error.code).toBe('CONFLICT')
+    })
+
     it('should reject robot with invalid vendor', async () => {
       const robotData = {
         name: 'Test Robot',
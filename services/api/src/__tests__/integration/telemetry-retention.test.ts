@@ -0,0 +1,169 @@
+import request from 'supertest'
+import { TimeWindow } from '@urfmp/types'
+import { query, transaction } from '../../config/database'
+import { TelemetryRetentionService } from '../../services/telemetry-retention.service'
+import {
+  setupTestEnvironment,
+  teardownTestEnvironment,
+  resetTestDatabase,
+  TEST_API_KEY,
+  type TestSetup,
+} from '../setup'
+
+const ORGANIZATION_ID = 'd8077863-d602-45fd-a253-78ee0d3d49a8'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('Telemetry Retention', () => {
+  let setup: TestSetup
+  const retention = new TelemetryRetentionService({ intervalMs: 60000, batchDays: 7 })
+  const now = new Date('2025-03-15T12:00:00.000Z')
+
+  beforeAll(async () => {
+    setup = await setupTestEnvironment()
+  })
+
+  afterAll(async () => {
+    await teardownTestEnvironment(setup)
+  })
+
+  beforeEach(async () => {
+    await resetTestDatabase(setup.dbClient)
+    jest.clearAllMocks()
+  })
+
+  describe('getRetentionCutoffs', () => {
+    it('should derive day-aligned cutoffs from the default retention windows', async () => {
+      const cutoffs = await retention.getRetentionCutoffs(ORGANIZATION_ID, now)
+
+      // raw 30d, aggregated 1y, events 90d
+      expect(cutoffs.raw?.toISOString()).toBe('2025-02-13T00:00:00.000Z')
+      expect(cutoffs.rollups['1m']?.toISOString()).toBe('2025-01-14T00:00:00.000Z')
+      expect(cutoffs.rollups['1h']?.toISOString()).toBe('2024-03-15T00:00:00.000Z')
+      expect(cutoffs.rollups['1d']?.toISOString()).toBe('2024-03-15T00:00:00.000Z')
+      expect(cutoffs.events?.toISOString()).toBe('2024-12-15T00:00:00.000Z')
+    })
+
+    it('should cap the raw and event windows at the plan retention limit', async () => {
+      const defaultQuery = (query as jest.Mock).getMockImplementation()!
+      ;(query as jest.Mock).mockImplementation(async (text: string, params?: any[]) => {
+        if (text.includes('FROM organizations') && params?.[0] === 'free-org-id') {
+          return {
+            // Windows kept from a larger plan, the free plan keeps 7 days
+            rows: [
+              {
+                id: 'free-org-id',
+                plan: 'free',
+                settings: { telemetryRetention: { raw: '30d', events: 'forever' } },
+                limits: {},
+              },
+            ],
+            rowCount: 1,
+          }
+        }
+        return defaultQuery(text, params)
+      })
+
+      try {
+        const cutoffs = await retention.getRetentionCutoffs('free-org-id', now)
+
+        expect(cutoffs.raw?.toISOString()).toBe('2025-03-08T00:00:00.000Z')
+        expect(cutoffs.events?.toISOString()).toBe('2025-03-08T00:00:00.000Z')
+      } finally {
+        ;(query as jest.Mock).mockImplementation(defaultQuery)
+      }
+    })
+  })
+
+  describe('selectRollupWidth', () => {
+    it('should use the coarsest rollup that fits in the window while it still covers the range', async () => {
+      const cutoffs = await retention.getRetentionCutoffs(ORGANIZATION_ID, now)
+      const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS)
+
+      expect(retention.selectRollupWidth(TimeWindow.FIVE_MINUTES, daysAgo(40), cutoffs)).toBe('1m')
+      expect(retention.selectRollupWidth(TimeWindow.HOUR, daysAgo(40), cutoffs)).toBe('1h')
+      expect(retention.selectRollupWidth(TimeWindow.WEEK, daysAgo(40), cutoffs)).toBe('1d')
+
+      // Minute rollups are gone 60 days back
+      expect(retention.selectRollupWidth(TimeWindow.FIVE_MINUTES, daysAgo(100), cutoffs)).toBe('1h')
+    })
+  })
+
+  describe('enforceOrganization', () => {
+    it('should roll up and drop raw points a day at a time, then expire old data', async () => {
+      const client = { query: jest.fn().mockResolvedValue({ rows: [], rowCount: 100 }) }
+      ;(transaction as jest.Mock).mockImplementation(async (callback) => callback(client))
+
+      const result = await retention.enforceOrganization(ORGANIZATION_ID, now)
+
+      // Oldest raw point is 2025-02-10, the raw cutoff 2025-02-13
+      expect(transaction).toHaveBeenCalledTimes(3)
+      expect(result.rawPointsRolledUp).toBe(300)
+
+      const statements = client.query.mock.calls.map(([sql]) => sql)
+      expect(
+        statements.filter((sql) => sql.includes('INSERT INTO robot_telemetry_rollups'))
+      ).toHaveLength(9)
+      expect(client.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('DELETE FROM robot_telemetry t'),
+        [
+          ORGANIZATION_ID,
+          new Date('2025-02-12T00:00:00.000Z'),
+          new Date('2025-02-13T00:00:00.000Z'),
+        ]
+      )
+
+      expect(query).toHaveBeenCalledWith(
+        expect.stringContaining('DELETE FROM robot_connection_metrics'),
+        [ORGANIZATION_ID, new Date('2025-02-13T00:00:00.000Z')]
+      )
+      expect(query).toHaveBeenCalledWith(
+        expect.stringContaining('DELETE FROM robot_status_history'),
+        [ORGANIZATION_ID, new Date('2024-12-15T00:00:00.000Z')]
+      )
+      expect(query).toHaveBeenCalledWith(expect.stringContaining('a.is_resolved = true'), [
+        ORGANIZATION_ID,
+        new Date('2024-12-15T00:00:00.000Z'),
+      ])
+    })
+  })
+
+  describe('GET /api/v1/telemetry/aggregated', () => {
+    it('should read ranges past the raw window from the rollups', async () => {
+      await request(setup.app)
+        .get('/api/v1/telemetry/aggregated')
+        .query({
+          metric: 'position.x',
+          timeWindow: '1h',
+          aggregation: 'avg',
+          from: new Date(Date.now() - 45 * DAY_MS).toISOString(),
+        })
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      expect(query).toHaveBeenCalledWith(
+        expect.stringContaining('FROM robot_telemetry_rollups'),
+        expect.arrayContaining(['position.x', '1h'])
+      )
+    })
+
+    it('should read recent ranges from raw telemetry only', async () => {
+      await request(setup.app)
+        .get('/api/v1/telemetry/aggregated')
+        .query({
+          metric: 'position.x',
+          timeWindow: '1h',
+          aggregation: 'avg',
+          from: new Date(Date.now() - DAY_MS).toISOString(),
+        })
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      const aggregations = (query as jest.Mock).mock.calls.filter(([sql]) =>
+        sql.includes('time_bucket')
+      )
+      expect(aggregations).toHaveLength(1)
+      expect(aggregations[0][0]).not.toContain('robot_telemetry_rollups')
+    })
+  })
+})
@@ -1,4 +1,5 @@
 import request from 'supertest'
+import { publishEvent } from '../../config/rabbitmq'
 import {
   setupTestEnvironment,
   teardownTestEnvironment,
@@ -132,6 +133,118 @@ describe('Telemetry API Integration Tests', () => {
     })
   })
 
+  describe('POST /api/v1/telemetry/:robotId/events', () => {
+    it('should publish robot events reported by an adapter', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/telemetry/test-robot-id/events')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ type: 'PROGRAM_STARTED', data: { program: 'pick.urp' }, source: 'edge-agent' })
+        .expect(201)
+
+      expect(response.body.data).toMatchObject({
+        type: 'program_started',
+        robotId: 'test-robot-id',
+        source: 'edge-agent',
+      })
+      expect(publishEvent).toHaveBeenCalledWith(
+        'robot.event.program_started',
+        expect.objectContaining({ data: { program: 'pick.urp' } })
+      )
+    })
+
+    it('should reject unknown event types', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/telemetry/test-robot-id/events')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ type: 'exploded' })
+        .expect(400)
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR')
+    })
+
+    it('should reject an invalid timestamp', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/telemetry/test-robot-id/events')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ type: 'PROGRAM_STARTED', timestamp: 'yesterday-ish' })
+        .expect(400)
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR')
+    })
+  })
+
+  describe('/api/v1/telemetry/:robotId/connection-metrics', () => {
+    it('should store connection metrics published by the edge agent', async () => {
+      const response = await request(setup.app)
+        .post('/api/v1/telemetry/test-robot-id/connection-metrics')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({
+          connectionId: 'universal_robots_conn',
+          status: 'reconnecting',
+          metrics: { uptime: 0, bytesReceived: 1500, averageLatency: 12.5, errorCount: 3 },
+        })
+        .expect(201)
+
+      expect(response.body.data).toMatchObject({
+        robotId: 'test-robot-id',
+        status: 'reconnecting',
+        metrics: { bytesReceived: 1500, averageLatency: 12.5, errorCount: 3, reconnects: 0 },
+      })
+    })
+
+    it('should reject unknown statuses and negative counters', async () => {
+      await request(setup.app)
+        .post('/api/v1/telemetry/test-robot-id/connection-metrics')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ status: 'flaky', metrics: {} })
+        .expect(400)
+
+      const response = await request(setup.app)
+        .post('/api/v1/telemetry/test-robot-id/connection-metrics')
+        .set('X-API-Key', TEST_API_KEY)
+        .send({ status: 'connected', metrics: { errorCount: -1 } })
+        .expect(400)
+
+      expect(response.body.error.message).toContain('metrics.errorCount')
+    })
+
+    it('should reject invalid dates', async () => {
+      for (const body of [
+        { timestamp: 'soon' },
+        { lastHeartbeat: 'a while ago' },
+        { metrics: { lastErrorAt: 'never' } },
+      ]) {
+        const response = await request(setup.app)
+          .post('/api/v1/telemetry/test-robot-id/connection-metrics')
+          .set('X-API-Key', TEST_API_KEY)
+          .send({ status: 'connected', metrics: {}, ...body })
+          .expect(400)
+
+        expect(response.body.error.code).toBe('VALIDATION_ERROR')
+      }
+    })
+
+    it('should summarize link quality over the returned samples', async () => {
+      const response = await request(setup.app)
+        .get('/api/v1/telemetry/test-robot-id/connection-metrics')
+        .set('X-API-Key', TEST_API_KEY)
+        .expect(200)
+
+      const { samples, summary } = response.body.data
+      expect(samples).toHaveLength(3)
+      expect(samples[0]).toMatchObject({ status: 'connected', metrics: { reconnects: 1 } })
+      expect(summary).toMatchObject({
+        samples: 3,
+        maxLatency: 30,
+        errors: 2,
+        reconnects: 1,
+        bytesReceived: 800,
+      })
+      expect(summary.connectedRatio).toBeCloseTo(2 / 3)
+      expect(summary.averageLatency).toBeCloseTo(50 / 3)
+    })
+  })
+
   describe('GET /api/v1/telemetry/:robotId/latest', () => {
     it('should get latest telemetry data', async () => {
       const response = await request(setup.app)
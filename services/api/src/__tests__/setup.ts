@@ -82,6 +82,117 @@ jest.mock('../config/database', () => ({
         rowCount: 1,
       })
     }
+    // Organization usage counters
+    if (text.includes('AS robot_count') && text.includes('AS user_count')) {
+      return Promise.resolve({ rows: [{ robot_count: '2', user_count: '1' }], rowCount: 1 })
+    }
+    // Quota checks
+    if (text.includes('AS active_robots')) {
+      return Promise.resolve({ rows: [{ active_robots: '3' }], rowCount: 1 })
+    }
+    if (text.includes('AS stored_points')) {
+      return Promise.resolve({ rows: [{ stored_points: '999990' }], rowCount: 1 })
+    }
+    // Adapter connection metrics, newest first: a link that dropped and reconnected
+    if (text.includes('robot_connection_metrics')) {
+      if (text.includes('INSERT INTO')) {
+        return Promise.resolve({ rows: [], rowCount: 1 })
+      }
+
+      const now = Date.now()
+      const sample = (secondsAgo: number, overrides: Record<string, any>) => ({
+        time: new Date(now - secondsAgo * 1000),
+        connection_id: 'universal_robots_conn',
+        status: 'connected',
+        uptime_seconds: 0,
+        messages_received: 0,
+        messages_sent: 0,
+        bytes_received: 0,
+        bytes_sent: 0,
+        average_latency_ms: 10,
+        error_count: 0,
+        reconnect_count: 0,
+        last_error_at: null,
+        last_heartbeat_at: new Date(now - secondsAgo * 1000),
+        ...overrides,
+      })
+
+      const rows = [
+        sample(0, {
+          uptime_seconds: 5,
+          bytes_received: 1800,
+          error_count: 3,
+          reconnect_count: 1,
+          average_latency_ms: 30,
+        }),
+        sample(10, { status: 'reconnecting', bytes_received: 1500, error_count: 3 }),
+        sample(20, { uptime_seconds: 600, bytes_received: 1000, error_count: 1 }),
+      ]
+      return Promise.resolve({ rows, rowCount: rows.length })
+    }
+    // Robot command queries
+    if (text.includes('robot_commands')) {
+      const commandRow = (overrides: Record<string, any> = {}) => ({
+        id: 'test-command-id',
+        robot_id: 'test-robot-id',
+        organization_id: 'd8077863-d602-45fd-a253-78ee0d3d49a8',
+        user_id: '3885c041-ebf4-4fdd-a6ec-7d88216ded2d',
+        type: 'start',
+        payload: {},
+        priority: 'normal',
+        status: 'queued',
+        queued_at: new Date(),
+        timeout_at: new Date(Date.now() + 60000),
+        created_at: new Date(),
+        ...overrides,
+      })
+
+      if (text.includes('INSERT INTO robot_commands')) {
+        return Promise.resolve({ rows: [], rowCount: 1 })
+      }
+      if (text.includes('UPDATE robot_commands') && text.includes('c.timeout_at <')) {
+        return Promise.resolve({
+          rows: [commandRow({ status: 'timeout', error_message: 'No result reported' })],
+          rowCount: 1,
+        })
+      }
+      if (text.includes('UPDATE robot_commands')) {
+        // Status, optional result/error, then command id, organization and expected status
+        return Promise.resolve({
+          rows: [
+            commandRow({
+              id: params[params.length - 3],
+              status: params[0],
+              error_message: text.includes('error_message') ? params[params.length - 4] : null,
+            }),
+          ],
+          rowCount: 1,
+        })
+      }
+      if (text.includes('COUNT(*)')) {
+        return Promise.resolve({ rows: [{ total: '1' }], rowCount: 1 })
+      }
+      if (text.includes('c.id = $1')) {
+        return Promise.resolve(
+          params[0] === 'test-command-id'
+            ? { rows: [commandRow()], rowCount: 1 }
+            : { rows: [], rowCount: 0 }
+        )
+      }
+      return Promise.resolve({ rows: [commandRow()], rowCount: 1 })
+    }
+    if (text.includes('AS period_points')) {
+      return Promise.resolve({
+        rows: [{ period_points: '12500', total_points: '48000' }],
+        rowCount: 1,
+      })
+    }
+    if (text.includes('UPDATE organizations') && text.includes('RETURNING')) {
+      return Promise.resolve({
+        rows: [{ id: params?.[0], settings: JSON.parse(params?.[1]) }],
+        rowCount: params?.[0] === 'd8077863-d602-45fd-a253-78ee0d3d49a8' ? 1 : 0,
+      })
+    }
     if (
       text.includes('FROM users') &&
       text.includes('JOIN organizations') &&
@@ -187,6 +298,13 @@ jest.mock('../config/database', () => ({
               name: 'URFMP Demo',
               slug: 'urfmp-demo',
               plan: 'enterprise',
+              settings: {
+                timezone: 'Europe/Berlin',
+                notifications: { webhook: { enabled: true, secret: 'stored-secret', events: [] } },
+              },
+              // Contract override narrowing the enterprise retention limit
+              limits: { maxDataRetentionDays: 90 },
+              billing: { billingEmail: 'billing@urfmp.com' },
             },
           ],
           rowCount: 1,
@@ -211,6 +329,12 @@ jest.mock('../config/database', () => ({
                 'robot.delete',
                 'telemetry.view',
                 'telemetry.write',
+                'maintenance.view',
+                'maintenance.create',
+                'maintenance.update',
+                'maintenance.delete',
+                'org.view',
+                'org.update',
               ],
               expires_at: null,
               is_active: true,
@@ -301,8 +425,362 @@ jest.mock('../config/database', () => ({
       })
     }
 
+    // Handle eligible robot lookup when applying maintenance templates
+    if (
+      text.includes('SELECT id FROM robots WHERE organization_id = $1') &&
+      text.includes('is_active')
+    ) {
+      const robotIds = params?.find((param) => Array.isArray(param))
+      const rows = ['test-robot-id']
+        .filter((id) => !robotIds || robotIds.includes(id))
+        .map((id) => ({ id }))
+      return Promise.resolve({ rows, rowCount: rows.length })
+    }
+
+    // Handle robot selection for maintenance reports
+    if (text.includes("location->>'facility' AS facility")) {
+      const facilities = text.includes("location->>'facility' = ANY")
+        ? params?.[params.length - 1]
+        : null
+      const rows = [{ id: 'test-robot-id', name: 'Test Robot', facility: 'Plant A' }].filter(
+        (robot) => !facilities || facilities.includes(robot.facility)
+      )
+      return Promise.resolve({ rows, rowCount: rows.length })
+    }
+
+    // Handle robot lookup for fleet-wide predictive maintenance runs
+    if (text.includes('SELECT id, organization_id FROM robots WHERE')) {
+      return Promise.resolve({
+        rows: [{ id: 'test-robot-id', organization_id: 'd8077863-d602-45fd-a253-78ee0d3d49a8' }],
+        rowCount: 1,
+      })
+    }
+
+    // Handle hourly telemetry samples for predictive maintenance
+    if (text.includes('robot_telemetry') && text.includes('AS avg_value')) {
+      if (params?.[0] !== 'test-robot-id') {
+        return Promise.resolve({ rows: [], rowCount: 0 })
+      }
+      const rows = []
+      for (let hour = 23; hour >= 0; hour--) {
+        const bucket = new Date(Date.now() - hour * 3600000)
+        // Joint 3 motor heats steadily towards its warning limit, the controller stays flat
+        rows.push(
+          {
+            bucket,
+            metric_name: 'temperature.motor.joint3',
+            avg_value: String(55 + (23 - hour) * 0.4),
+          },
+          { bucket, metric_name: 'temperature.controller', avg_value: '40' }
+        )
+      }
+      return Promise.resolve({ rows, rowCount: rows.length })
+    }
+
+    // Handle maintenance prediction queries
+    if (text.includes('maintenance_predictions')) {
+      const predictionRow = (overrides: Record<string, any> = {}) => ({
+        id: 'test-prediction-id',
+        robot_id: 'test-robot-id',
+        organization_id: 'd8077863-d602-45fd-a253-78ee0d3d49a8',
+        component: 'motor_joint_3',
+        prediction_type: 'overheating',
+        severity: 'medium',
+        confidence: '0.850',
+        predicted_failure_date: new Date(Date.now() + 2 * 86400000),
+        remaining_useful_life: '2.0',
+        trigger_metrics: [
+          {
+            name: 'temperature.motor.joint3',
+            value: 64,
+            threshold: 70,
+            unit: 'celsius',
+            trend: 'increasing',
+            importance: 0.91,
+          },
+        ],
+        recommendation: {
+          action: 'schedule_maintenance',
+          priority: 'medium',
+          timeframe: 'within 1 week',
+          description: 'Joint 3 motor is projected to reach 70 celsius in 2 days',
+        },
+        model_version: 'linear-trend-1.0',
+        created_at: new Date(),
+        acknowledged_at: null,
+        acknowledged_by: null,
+        ...overrides,
+      })
+
+      if (text.includes('DELETE FROM maintenance_predictions')) {
+        return Promise.resolve({ rows: [], rowCount: 0 })
+      }
+
+      if (text.includes('INSERT INTO maintenance_predictions')) {
+        return Promise.resolve({ rows: [], rowCount: 1 })
+      }
+
+      if (text.includes('COUNT(*)')) {
+        return Promise.resolve({ rows: [{ total: '1' }], rowCount: 1 })
+      }
+
+      if (text.includes('UPDATE maintenance_predictions')) {
+        if (params?.[1] === 'test-prediction-id') {
+          return Promise.resolve({
+            rows: [predictionRow({ acknowledged_at: new Date(), acknowledged_by: params[0] })],
+            rowCount: 1,
+          })
+        }
+        return Promise.resolve({ rows: [], rowCount: 0 })
+      }
+
+      if (text.includes('WHERE id = $1')) {
+        const found = params?.[0] === 'test-prediction-id'
+        return Promise.resolve({ rows: found ? [predictionRow()] : [], rowCount: found ? 1 : 0 })
+      }
+
+      return Promise.resolve({ rows: [predictionRow()], rowCount: 1 })
+    }
+
+    // Handle maintenance template queries
+    if (text.includes('maintenance_templates')) {
+      const templateRow = (overrides: Record<string, any> = {}) => ({
+        id: 'test-template-id',
+        organization_id: 'd8077863-d602-45fd-a253-78ee0d3d49a8',
+        name: 'Test UR10e 6-month joint service',
+        description: 'Semi-annual joint inspection',
+        type: 'preventive',
+        vendor: 'universal_robots',
+        model: 'UR10e',
+        estimated_duration: 120,
+        instructions: ['Power down the arm'],
+        checklist_items: [
+          { description: 'Inspect joint seals', required: true, order: 1 },
+          { description: 'Check brake release', required: false, order: 2 },
+        ],
+        required_parts: [
+          { name: 'Joint seal kit', quantity: 2, estimatedCost: 40, critical: true },
+        ],
+        required_skills: ['mechanical'],
+        safety_procedures: ['Lockout/tagout the controller'],
+        tools: ['Torque wrench'],
+        is_public: false,
+        created_by: '3885c041-ebf4-4fdd-a6ec-7d88216ded2d',
+        tags: ['ur10e'],
+        version: '1.0.0',
+        created_at: new Date(),
+        updated_at: new Date(),
+        ...overrides,
+      })
+
+      if (text.includes('INSERT INTO maintenance_templates')) {
+        return Promise.resolve({
+          rows: [
+            templateRow({
+              id: 'newly-created-template-id',
+              name: params?.[1],
+              type: params?.[3],
+              vendor: params?.[4],
+              model: params?.[5],
+            }),
+          ],
+          rowCount: 1,
+        })
+      }
+
+      if (text.includes('COUNT(*)')) {
+        return Promise.resolve({ rows: [{ total: '1' }], rowCount: 1 })
+      }
+
+      if (text.includes('DELETE FROM maintenance_templates')) {
+        return Promise.resolve({ rows: [], rowCount: 1 })
+      }
+
+      if (text.includes('UPDATE maintenance_templates')) {
+        // The version is always the last field set, followed by the id and organization
+        return Promise.resolve({
+          rows: [templateRow({ version: params?.[params.length - 3] })],
+          rowCount: 1,
+        })
+      }
+
+      if (text.includes('WHERE id = $1')) {
+        const templateId = params?.[0]
+        if (templateId === 'test-template-id') {
+          return Promise.resolve({ rows: [templateRow()], rowCount: 1 })
+        }
+        if (templateId === 'test-public-template-id') {
+          return Promise.resolve({
+            rows: [
+              templateRow({
+                id: 'test-public-template-id',
+                organization_id: 'other-organization-id',
+                is_public: true,
+              }),
+            ],
+            rowCount: 1,
+          })
+        }
+        return Promise.resolve({ rows: [], rowCount: 0 })
+      }
+
+      return Promise.resolve({ rows: [templateRow()], rowCount: 1 })
+    }
+
+    // Handle maintenance task queries
+    if (text.includes('maintenance_tasks')) {
+      const taskRow = (overrides: Record<string, any> = {}) => ({
+        id: 'test-maintenance-id',
+        robot_id: 'test-robot-id',
+        organization_id: 'd8077863-d602-45fd-a253-78ee0d3d49a8',
+        type: 'preventive',
+        priority: 'medium',
+        status: 'scheduled',
+        title: 'Test Joint Service',
+        description: 'Grease joints and inspect cables',
+        instructions: [],
+        estimated_duration: 60,
+        actual_duration: null,
+        scheduled_at: new Date(),
+        started_at: null,
+        completed_at: null,
+        due_date: new Date(Date.now() + 86400000),
+        assigned_to: null,
+        created_by: '3885c041-ebf4-4fdd-a6ec-7d88216ded2d',
+        parts: [],
+        checklist_items: [
+          {
+            id: 'test-checklist-item',
+            description: 'Inspect cables',
+            required: true,
+            completed: false,
+            order: 1,
+          },
+        ],
+        attachments: [],
+        notes: [],
+        cost: null,
+        tags: [],
+        is_recurring: false,
+        recurrence_rule: null,
+        parent_task_id: null,
+        created_at: new Date(),
+        updated_at: new Date(),
+        ...overrides,
+      })
+
+      if (text.includes('INSERT INTO maintenance_tasks')) {
+        return Promise.resolve({
+          rows: [
+            taskRow({
+              id: 'newly-created-maintenance-id',
+              robot_id: params?.[0],
+              type: params?.[2],
+              priority: params?.[3],
+              status: params?.[4],
+              title: params?.[5],
+            }),
+          ],
+          rowCount: 1,
+        })
+      }
+
+      // Report queries select completed and overdue tasks relative to the period start
+      if (text.includes('COALESCE(t.completed_at, t.scheduled_at)')) {
+        const start = new Date(params?.[3]).getTime()
+        const day = 86400000
+        return Promise.resolve({
+          rows: [
+            taskRow({
+              id: 'report-corrective-task',
+              type: 'corrective',
+              status: 'completed',
+              actual_duration: 90,
+              scheduled_at: new Date(start + day),
+              started_at: new Date(start + 2 * day - 90 * 60000),
+              completed_at: new Date(start + 2 * day),
+              cost: { labor: 100, parts: 250, external: 0, total: 350, currency: 'EUR' },
+            }),
+            taskRow({
+              id: 'report-preventive-task',
+              status: 'completed',
+              actual_duration: 30,
+              scheduled_at: new Date(start + 3 * day),
+              completed_at: new Date(start + 3 * day),
+              parts: [
+                {
+                  id: 'part-1',
+                  name: 'Grease',
+                  partNumber: 'GR-1',
+                  quantity: 2,
+                  unitCost: 25,
+                  inStock: true,
+                },
+              ],
+            }),
+            // Parts are planned but not yet used, the title would run as a spreadsheet formula
+            taskRow({
+              id: 'report-overdue-task',
+              title: '=HYPERLINK("http://example.com")',
+              status: 'overdue',
+              scheduled_at: new Date(start),
+              due_date: new Date(start + day),
+              parts: [
+                {
+                  id: 'part-2',
+                  name: 'Seal kit',
+                  partNumber: 'SK-3',
+                  quantity: 1,
+                  unitCost: 40,
+                  inStock: true,
+                },
+              ],
+            }),
+          ],
+          rowCount: 3,
+        })
+      }
+
+      if (text.includes('COUNT(*)')) {
+        return Promise.resolve({ rows: [{ total: '1' }], rowCount: 1 })
+      }
+
+      if (text.includes('DELETE FROM maintenance_tasks')) {
+        const found = params?.[0] === 'test-maintenance-id'
+        return Promise.resolve({ rows: [], rowCount: found ? 1 : 0 })
+      }
+
+      if (text.includes('WHERE id = $1')) {
+        const taskId = params?.[0]
+        if (taskId === 'test-maintenance-id') {
+          return Promise.resolve({ rows: [taskRow()], rowCount: 1 })
+        }
+        return Promise.resolve({ rows: [], rowCount: 0 })
+      }
+
+      if (text.includes('UPDATE maintenance_tasks') && text.includes('RETURNING')) {
+        // Lifecycle updates pass the new status as the first parameter
+        const status = /^[a-z_]+$/.test(params?.[0]) ? params[0] : 'in_progress'
+        return Promise.resolve({ rows: [taskRow({ status })], rowCount: 1 })
+      }
+
+      if (text.includes('SELECT')) {
+        return Promise.resolve({ rows: [taskRow()], rowCount: 1 })
+      }
+
+      return Promise.resolve({ rows: [], rowCount: 0 })
+    }
+
     // Handle telemetry queries
     if (text.includes('robot_telemetry')) {
+      // Oldest raw point past the retention window
+      if (text.includes('AS oldest_time')) {
+        return Promise.resolve({
+          rows: [{ oldest_time: new Date('2025-02-10T06:00:00.000Z') }],
+          rowCount: 1,
+        })
+      }
+
       // Handle telemetry INSERT
       if (text.includes('INSERT INTO robot_telemetry')) {
         console.log('DEBUG: Telemetry INSERT mock triggered!')
@@ -376,6 +854,15 @@ jest.mock('../config/database', () => ({
       }
     }
 
+    // MQTT claims, cell/1/telemetry belongs to a robot of another organization
+    if (text.includes("configuration->'mqtt'->>'topic' = $2")) {
+      return Promise.resolve(
+        params?.[1] === 'cell/1/telemetry'
+          ? { rows: [{ id: 'foreign-robot-id' }], rowCount: 1 }
+          : { rows: [], rowCount: 0 }
+      )
+    }
+
     // Mock robots queries for API tests
     if (text.includes('FROM robots')) {
       // Handle specific robot ID queries
@@ -496,6 +983,18 @@ jest.mock('../config/redis', () => ({
     set: jest.fn().mockResolvedValue('OK'),
     setex: jest.fn().mockResolvedValue('OK'),
     incr: jest.fn().mockResolvedValue(1), // Return positive integer for rate limiting
+    // In-memory counters for usage allowances
+    incrby: jest.fn().mockImplementation(async (key: string, amount: number) => {
+      const counters = ((global as any).__testCounters__ ||= {})
+      counters[key] = (counters[key] || 0) + amount
+      return counters[key]
+    }),
+    decrby: jest.fn().mockImplementation(async (key: string, amount: number) => {
+      const counters = ((global as any).__testCounters__ ||= {})
+      counters[key] = (counters[key] || 0) - amount
+      return counters[key]
+    }),
+    expire: jest.fn().mockResolvedValue(1),
     del: jest.fn().mockResolvedValue(1),
     exists: jest.fn().mockResolvedValue(0),
     publish: jest.fn().mockResolvedValue(1),
@@ -571,7 +1070,15 @@ jest.mock('../config/rabbitmq', () => ({
     status: 'healthy',
     details: { connected: true },
   }),
+  publishEvent: jest.fn().mockResolvedValue(true),
+  publishToQueue: jest.fn().mockResolvedValue(true),
   closeRabbitMQ: jest.fn().mockResolvedValue(undefined),
+  QUEUES: {
+    TELEMETRY: 'robot_telemetry',
+    COMMANDS: 'robot_commands',
+    NOTIFICATIONS: 'notifications',
+    MAINTENANCE: 'maintenance_tasks',
+  },
 }))
 
 export interface TestSetup {
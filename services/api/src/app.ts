@@ -9,7 +9,9 @@ import { logger } from './config/logger'
 import { errorHandler } from './middleware/error.middleware'
 import { rateLimiter } from './middleware/rateLimit.middleware'
 import { requestLogger } from './middleware/requestLogger.middleware'
+import { usageTracker } from './middleware/usage.middleware'
 import { requiredAuth } from './middleware/auth.middleware'
+import { enforceApiQuota, requireFeature } from './middleware/quota.middleware'
 
 // Import routes
 import authRoutes from './routes/auth.routes'
@@ -18,7 +20,11 @@ import telemetryRoutes from './routes/telemetry.routes'
 import organizationRoutes from './routes/organization.routes'
 import userRoutes from './routes/user.routes'
 import maintenanceRoutes from './routes/maintenance.routes'
+import maintenanceTemplateRoutes from './routes/maintenance-template.routes'
+import maintenancePredictionRoutes from './routes/maintenance-prediction.routes'
+import maintenanceReportRoutes from './routes/maintenance-report.routes'
 import healthRoutes from './routes/health.routes'
+import adapterRoutes from './routes/adapter.routes'
 
 const app = express()
 
@@ -67,6 +73,9 @@ app.use(requestLogger)
 // Rate limiting
 app.use(rateLimiter)
 
+// Usage tracking
+app.use(usageTracker)
+
 // Swagger documentation
 const swaggerOptions = {
   definition: {
@@ -134,11 +143,28 @@ app.use('/health', healthRoutes)
 app.use('/api/v1/auth', authRoutes)
 
 // Protected routes (auth required)
-app.use('/api/v1/robots', requiredAuth, robotRoutes)
-app.use('/api/v1/telemetry', requiredAuth, telemetryRoutes)
+app.use('/api/v1/robots', requiredAuth, enforceApiQuota, robotRoutes)
+app.use('/api/v1/telemetry', requiredAuth, enforceApiQuota, telemetryRoutes)
+// Organization routes stay reachable past the API allowance so admins can review usage
 app.use('/api/v1/organizations', requiredAuth, organizationRoutes)
-app.use('/api/v1/users', requiredAuth, userRoutes)
-app.use('/api/v1/maintenance', requiredAuth, maintenanceRoutes)
+app.use('/api/v1/users', requiredAuth, enforceApiQuota, userRoutes)
+app.use('/api/v1/maintenance/templates', requiredAuth, enforceApiQuota, maintenanceTemplateRoutes)
+app.use(
+  '/api/v1/maintenance/predictions',
+  requiredAuth,
+  enforceApiQuota,
+  requireFeature('predictiveMaintenance'),
+  maintenancePredictionRoutes
+)
+app.use(
+  '/api/v1/maintenance/reports',
+  requiredAuth,
+  enforceApiQuota,
+  requireFeature('historicalAnalytics'),
+  maintenanceReportRoutes
+)
+app.use('/api/v1/maintenance', requiredAuth, enforceApiQuota, maintenanceRoutes)
+app.use('/api/v1/adapters', requiredAuth, enforceApiQuota, adapterRoutes)
 
 // API root
 app.get('/', (_req, res) => {
@@ -155,6 +181,10 @@ app.get('/', (_req, res) => {
       organizations: '/api/v1/organizations',
       users: '/api/v1/users',
       maintenance: '/api/v1/maintenance',
+      maintenanceTemplates: '/api/v1/maintenance/templates',
+      maintenancePredictions: '/api/v1/maintenance/predictions',
+      maintenanceReports: '/api/v1/maintenance/reports',
+      adapters: '/api/v1/adapters',
     },
   })
 })
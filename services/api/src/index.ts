@@ -7,6 +7,12 @@ import { connectDatabase } from './config/database'
 import { connectRedis } from './config/redis'
 import { connectRabbitMQ } from './config/rabbitmq'
 import { initializeWebSocketServer } from './services/websocket.service'
+import { maintenanceScheduler } from './services/maintenance-scheduler.service'
+import { predictiveMaintenanceService } from './services/predictive-maintenance.service'
+import { telemetryRetentionService } from './services/telemetry-retention.service'
+import { commandService } from './services/command.service'
+import { mqttIngestService } from './services/mqtt-ingest.service'
+import { adapterService } from './services/adapter.service'
 import { migrationService } from './migrations/migration.service'
 
 const PORT = process.env.API_PORT || 3000
@@ -38,6 +44,32 @@ async function startServer() {
     initializeWebSocketServer(wss)
     logger.info('✅ WebSocket server initialized')
 
+    // Start recurring maintenance scheduler
+    maintenanceScheduler.start()
+    logger.info('✅ Maintenance scheduler started')
+
+    // Start predictive maintenance analysis
+    predictiveMaintenanceService.start()
+    logger.info('✅ Predictive maintenance analysis started')
+
+    // Start telemetry retention enforcement
+    telemetryRetentionService.start()
+    logger.info('✅ Telemetry retention enforcement started')
+
+    // Start robot command timeout checks
+    commandService.start()
+    logger.info('✅ Robot command timeout checks started')
+
+    // Discover installed vendor adapter plugins
+    adapterService.load()
+    logger.info('✅ Vendor adapter plugins loaded')
+
+    // Start MQTT telemetry ingest when a broker is configured
+    if (mqttIngestService.isEnabled()) {
+      mqttIngestService.start()
+      logger.info('✅ MQTT telemetry ingest started')
+    }
+
     // Start server
     server.listen(PORT, () => {
       logger.info(`🚀 URFMP API Server running on port ${PORT} in ${NODE_ENV} mode`)
@@ -48,6 +80,11 @@ async function startServer() {
     // Graceful shutdown
     process.on('SIGTERM', () => {
       logger.info('SIGTERM received, shutting down gracefully')
+      maintenanceScheduler.stop()
+      predictiveMaintenanceService.stop()
+      telemetryRetentionService.stop()
+      commandService.stop()
+      mqttIngestService.stop()
       server.close(() => {
         logger.info('Process terminated')
         process.exit(0)
@@ -56,6 +93,11 @@ async function startServer() {
 
     process.on('SIGINT', () => {
       logger.info('SIGINT received, shutting down gracefully')
+      maintenanceScheduler.stop()
+      predictiveMaintenanceService.stop()
+      telemetryRetentionService.stop()
+      commandService.stop()
+      mqttIngestService.stop()
       server.close(() => {
         logger.info('Process terminated')
         process.exit(0)
@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express'
 import { logger } from '../config/logger'
-import { ApiResponse, ApiError } from '@urfmp/types'
+import { ApiResponse, ApiError, QuotaErrorCode, QuotaErrorDetails } from '@urfmp/types'
 
 export interface CustomError extends Error {
   statusCode?: number
@@ -96,6 +96,11 @@ export const errorHandler = (
     error: errorResponse,
   }
 
+  // Quota errors tell clients when the allowance resets
+  if (details?.retryAfter) {
+    res.setHeader('Retry-After', String(details.retryAfter))
+  }
+
   res.status(statusCode).json(response)
 }
 
@@ -170,3 +175,27 @@ export class TooManyRequestsError extends Error {
     this.name = 'TooManyRequestsError'
   }
 }
+
+export class QuotaExceededError extends Error {
+  statusCode = 429
+  code = QuotaErrorCode.QUOTA_EXCEEDED
+  details: QuotaErrorDetails
+
+  constructor(message: string, details: QuotaErrorDetails) {
+    super(message)
+    this.name = 'QuotaExceededError'
+    this.details = details
+  }
+}
+
+export class FeatureNotAvailableError extends Error {
+  statusCode = 403
+  code = QuotaErrorCode.FEATURE_NOT_AVAILABLE
+  details: QuotaErrorDetails
+
+  constructor(message: string, details: QuotaErrorDetails) {
+    super(message)
+    this.name = 'FeatureNotAvailableError'
+    this.details = details
+  }
+}
@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express'
+import { PlanFeatures } from '@urfmp/types'
+import { UnauthorizedError } from './error.middleware'
+import { quotaService } from '../services/quota.service'
+
+// Enforce the monthly API call allowance, and plan API access for API key requests
+export const enforceApiQuota = async (req: Request, _res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return next(new UnauthorizedError())
+    }
+
+    if (req.user.role === 'api') {
+      await quotaService.assertFeature(req.user.org, 'apiAccess')
+    }
+
+    await quotaService.assertApiCallAllowance(req.user.org)
+    next()
+  } catch (error) {
+    next(error)
+  }
+}
+
+// Plan feature check middleware
+export const requireFeature = (feature: keyof PlanFeatures) => {
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        return next(new UnauthorizedError())
+      }
+
+      await quotaService.assertFeature(req.user.org, feature)
+      next()
+    } catch (error) {
+      next(error)
+    }
+  }
+}
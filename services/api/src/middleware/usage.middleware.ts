@@ -0,0 +1,14 @@
+import { Request, Response, NextFunction } from 'express'
+import { organizationService } from '../services/organization.service'
+
+// Counts authenticated API calls per organization once the response is sent.
+// Authentication runs per router, so req.user is only known after the route has run.
+export const usageTracker = (req: Request, res: Response, next: NextFunction) => {
+  res.on('finish', () => {
+    if (req.user?.org) {
+      void organizationService.recordApiCall(req.user.org)
+    }
+  })
+
+  next()
+}
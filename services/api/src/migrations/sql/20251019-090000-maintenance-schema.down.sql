@@ -0,0 +1,20 @@
+-- Rollback for: 20251019-090000-maintenance-schema
+-- Description: Rollback maintenance tasks table
+
+BEGIN;
+
+-- Drop triggers
+DROP TRIGGER IF EXISTS update_maintenance_tasks_updated_at ON maintenance_tasks;
+
+-- Drop indexes
+DROP INDEX IF EXISTS idx_maintenance_tasks_parent;
+DROP INDEX IF EXISTS idx_maintenance_tasks_assigned_to;
+DROP INDEX IF EXISTS idx_maintenance_tasks_due_date;
+DROP INDEX IF EXISTS idx_maintenance_tasks_status;
+DROP INDEX IF EXISTS idx_maintenance_tasks_organization;
+DROP INDEX IF EXISTS idx_maintenance_tasks_robot;
+
+-- Drop tables
+DROP TABLE IF EXISTS maintenance_tasks;
+
+COMMIT;
@@ -0,0 +1,64 @@
+-- Migration: 20251019-090000-maintenance-schema
+-- Description: Create maintenance tasks table
+-- Created: 2025-10-19T09:00:00.000Z
+
+BEGIN;
+
+-- Create maintenance_tasks table
+CREATE TABLE IF NOT EXISTS maintenance_tasks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    robot_id UUID NOT NULL,
+    organization_id UUID NOT NULL,
+    type VARCHAR(50) NOT NULL,
+    priority VARCHAR(20) NOT NULL DEFAULT 'medium',
+    status VARCHAR(50) NOT NULL DEFAULT 'scheduled',
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    instructions TEXT[] DEFAULT '{}',
+    estimated_duration INTEGER, -- minutes
+    actual_duration INTEGER, -- minutes
+    scheduled_at TIMESTAMPTZ NOT NULL,
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    due_date TIMESTAMPTZ NOT NULL,
+    assigned_to UUID,
+    created_by UUID NOT NULL,
+    parts JSONB DEFAULT '[]',
+    checklist_items JSONB DEFAULT '[]',
+    attachments JSONB DEFAULT '[]',
+    notes JSONB DEFAULT '[]',
+    cost JSONB,
+    tags TEXT[] DEFAULT '{}',
+    is_recurring BOOLEAN DEFAULT false,
+    recurrence_rule JSONB,
+    parent_task_id UUID,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT fk_maintenance_tasks_robot
+        FOREIGN KEY (robot_id) REFERENCES robots(id) ON DELETE CASCADE,
+    CONSTRAINT fk_maintenance_tasks_organization
+        FOREIGN KEY (organization_id) REFERENCES organizations(id) ON DELETE CASCADE,
+    CONSTRAINT fk_maintenance_tasks_assigned_to
+        FOREIGN KEY (assigned_to) REFERENCES users(id),
+    CONSTRAINT fk_maintenance_tasks_created_by
+        FOREIGN KEY (created_by) REFERENCES users(id),
+    CONSTRAINT fk_maintenance_tasks_parent
+        FOREIGN KEY (parent_task_id) REFERENCES maintenance_tasks(id) ON DELETE SET NULL
+);
+
+-- Create indexes for maintenance tasks
+CREATE INDEX IF NOT EXISTS idx_maintenance_tasks_robot ON maintenance_tasks(robot_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_tasks_organization ON maintenance_tasks(organization_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_tasks_status ON maintenance_tasks(status);
+CREATE INDEX IF NOT EXISTS idx_maintenance_tasks_due_date ON maintenance_tasks(due_date);
+CREATE INDEX IF NOT EXISTS idx_maintenance_tasks_assigned_to ON maintenance_tasks(assigned_to);
+CREATE INDEX IF NOT EXISTS idx_maintenance_tasks_parent ON maintenance_tasks(parent_task_id);
+
+-- Add updated_at trigger to maintenance tasks
+DROP TRIGGER IF EXISTS update_maintenance_tasks_updated_at ON maintenance_tasks;
+CREATE TRIGGER update_maintenance_tasks_updated_at
+    BEFORE UPDATE ON maintenance_tasks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
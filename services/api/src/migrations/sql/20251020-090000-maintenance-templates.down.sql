@@ -0,0 +1,17 @@
+-- Rollback for: 20251020-090000-maintenance-templates
+-- Description: Rollback maintenance templates table
+
+BEGIN;
+
+-- Drop triggers
+DROP TRIGGER IF EXISTS update_maintenance_templates_updated_at ON maintenance_templates;
+
+-- Drop indexes
+DROP INDEX IF EXISTS idx_maintenance_templates_public;
+DROP INDEX IF EXISTS idx_maintenance_templates_vendor_model;
+DROP INDEX IF EXISTS idx_maintenance_templates_organization;
+
+-- Drop tables
+DROP TABLE IF EXISTS maintenance_templates;
+
+COMMIT;
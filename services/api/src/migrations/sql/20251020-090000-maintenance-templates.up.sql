@@ -0,0 +1,47 @@
+-- Migration: 20251020-090000-maintenance-templates
+-- Description: Create maintenance templates table
+-- Created: 2025-10-20T09:00:00.000Z
+
+BEGIN;
+
+-- Create maintenance_templates table
+CREATE TABLE IF NOT EXISTS maintenance_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    type VARCHAR(50) NOT NULL,
+    vendor VARCHAR(50),
+    model VARCHAR(100),
+    estimated_duration INTEGER NOT NULL DEFAULT 0, -- minutes
+    instructions TEXT[] DEFAULT '{}',
+    checklist_items JSONB DEFAULT '[]',
+    required_parts JSONB DEFAULT '[]',
+    required_skills TEXT[] DEFAULT '{}',
+    safety_procedures TEXT[] DEFAULT '{}',
+    tools TEXT[] DEFAULT '{}',
+    is_public BOOLEAN DEFAULT false,
+    created_by UUID NOT NULL,
+    tags TEXT[] DEFAULT '{}',
+    version VARCHAR(20) NOT NULL DEFAULT '1.0.0',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT fk_maintenance_templates_organization
+        FOREIGN KEY (organization_id) REFERENCES organizations(id) ON DELETE CASCADE,
+    CONSTRAINT fk_maintenance_templates_created_by
+        FOREIGN KEY (created_by) REFERENCES users(id)
+);
+
+-- Create indexes for maintenance templates
+CREATE INDEX IF NOT EXISTS idx_maintenance_templates_organization ON maintenance_templates(organization_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_templates_vendor_model ON maintenance_templates(vendor, model);
+CREATE INDEX IF NOT EXISTS idx_maintenance_templates_public ON maintenance_templates(is_public) WHERE is_public = true;
+
+-- Add updated_at trigger to maintenance templates
+DROP TRIGGER IF EXISTS update_maintenance_templates_updated_at ON maintenance_templates;
+CREATE TRIGGER update_maintenance_templates_updated_at
+    BEFORE UPDATE ON maintenance_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
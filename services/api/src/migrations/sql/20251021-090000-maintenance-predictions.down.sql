@@ -0,0 +1,15 @@
+-- Rollback for: 20251021-090000-maintenance-predictions
+-- Description: Rollback maintenance predictions table
+
+BEGIN;
+
+-- Drop indexes
+DROP INDEX IF EXISTS idx_maintenance_predictions_failure_date;
+DROP INDEX IF EXISTS idx_maintenance_predictions_severity;
+DROP INDEX IF EXISTS idx_maintenance_predictions_organization;
+DROP INDEX IF EXISTS idx_maintenance_predictions_robot_component;
+
+-- Drop tables
+DROP TABLE IF EXISTS maintenance_predictions;
+
+COMMIT;
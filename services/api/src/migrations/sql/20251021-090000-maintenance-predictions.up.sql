@@ -0,0 +1,39 @@
+-- Migration: 20251021-090000-maintenance-predictions
+-- Description: Create maintenance predictions table
+-- Created: 2025-10-21T09:00:00.000Z
+
+BEGIN;
+
+-- Create maintenance_predictions table
+CREATE TABLE IF NOT EXISTS maintenance_predictions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    robot_id UUID NOT NULL,
+    organization_id UUID NOT NULL,
+    component VARCHAR(50) NOT NULL,
+    prediction_type VARCHAR(50) NOT NULL,
+    severity VARCHAR(20) NOT NULL,
+    confidence DECIMAL(4,3) NOT NULL,
+    predicted_failure_date TIMESTAMPTZ NOT NULL,
+    remaining_useful_life DECIMAL(10,1) NOT NULL, -- days
+    trigger_metrics JSONB NOT NULL DEFAULT '[]',
+    recommendation JSONB NOT NULL,
+    model_version VARCHAR(50) NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    acknowledged_at TIMESTAMPTZ,
+    acknowledged_by UUID,
+
+    CONSTRAINT fk_maintenance_predictions_robot
+        FOREIGN KEY (robot_id) REFERENCES robots(id) ON DELETE CASCADE,
+    CONSTRAINT fk_maintenance_predictions_organization
+        FOREIGN KEY (organization_id) REFERENCES organizations(id) ON DELETE CASCADE,
+    CONSTRAINT fk_maintenance_predictions_acknowledged_by
+        FOREIGN KEY (acknowledged_by) REFERENCES users(id)
+);
+
+-- Create indexes for maintenance predictions
+CREATE INDEX IF NOT EXISTS idx_maintenance_predictions_robot_component ON maintenance_predictions(robot_id, component);
+CREATE INDEX IF NOT EXISTS idx_maintenance_predictions_organization ON maintenance_predictions(organization_id);
+CREATE INDEX IF NOT EXISTS idx_maintenance_predictions_severity ON maintenance_predictions(severity);
+CREATE INDEX IF NOT EXISTS idx_maintenance_predictions_failure_date ON maintenance_predictions(predicted_failure_date);
+
+COMMIT;
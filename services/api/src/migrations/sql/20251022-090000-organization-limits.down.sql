@@ -0,0 +1,11 @@
+-- Rollback for: 20251022-090000-organization-limits
+-- Description: Rollback organization limit overrides and billing details
+
+BEGIN;
+
+-- Drop columns
+ALTER TABLE organizations
+    DROP COLUMN IF EXISTS billing,
+    DROP COLUMN IF EXISTS limits;
+
+COMMIT;
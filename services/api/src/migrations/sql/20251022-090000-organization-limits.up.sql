@@ -0,0 +1,15 @@
+-- Migration: 20251022-090000-organization-limits
+-- Description: Add per-organization limit overrides and billing details
+-- Created: 2025-10-22T09:00:00.000Z
+
+BEGIN;
+
+-- Plan limits apply by default, overrides are used for custom contracts
+ALTER TABLE organizations
+    ADD COLUMN IF NOT EXISTS limits JSONB DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS billing JSONB DEFAULT '{}';
+
+-- Settings were previously unused, make sure existing rows hold an object
+UPDATE organizations SET settings = '{}' WHERE settings IS NULL;
+
+COMMIT;
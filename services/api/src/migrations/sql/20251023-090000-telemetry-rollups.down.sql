@@ -0,0 +1,12 @@
+-- Rollback for: 20251023-090000-telemetry-rollups
+-- Description: Rollback telemetry rollups table
+
+BEGIN;
+
+-- Drop indexes
+DROP INDEX IF EXISTS idx_telemetry_rollups_width_bucket;
+
+-- Drop tables
+DROP TABLE IF EXISTS robot_telemetry_rollups;
+
+COMMIT;
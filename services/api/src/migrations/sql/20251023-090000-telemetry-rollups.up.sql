@@ -0,0 +1,43 @@
+-- Migration: 20251023-090000-telemetry-rollups
+-- Description: Create telemetry rollups table for downsampled telemetry past the raw retention window
+-- Created: 2025-10-23T09:00:00.000Z
+
+BEGIN;
+
+-- Create robot_telemetry_rollups table (TimescaleDB hypertable)
+-- Each row summarises the raw points of one metric within a 1m, 1h or 1d bucket
+CREATE TABLE IF NOT EXISTS robot_telemetry_rollups (
+    bucket TIMESTAMPTZ NOT NULL,
+    bucket_width VARCHAR(5) NOT NULL, -- 1m, 1h, 1d
+    robot_id UUID NOT NULL,
+    metric_name VARCHAR(100) NOT NULL,
+    unit VARCHAR(20),
+    sample_count BIGINT NOT NULL,
+    value_sum DOUBLE PRECISION NOT NULL,
+    value_min DOUBLE PRECISION NOT NULL,
+    value_max DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT uq_telemetry_rollups_bucket
+        UNIQUE (robot_id, metric_name, bucket_width, bucket),
+    CONSTRAINT fk_telemetry_rollups_robot
+        FOREIGN KEY (robot_id) REFERENCES robots(id) ON DELETE CASCADE,
+    CONSTRAINT chk_telemetry_rollups_bucket_width
+        CHECK (bucket_width IN ('1m', '1h', '1d'))
+);
+
+-- Try to create a TimescaleDB hypertable (will fail gracefully if TimescaleDB is not available)
+DO $$
+BEGIN
+    PERFORM create_hypertable('robot_telemetry_rollups', 'bucket', if_not_exists => true);
+    RAISE NOTICE 'Created hypertable for robot_telemetry_rollups';
+EXCEPTION
+    WHEN undefined_function THEN
+        RAISE NOTICE 'TimescaleDB not available, using regular tables';
+    WHEN OTHERS THEN
+        RAISE NOTICE 'Could not create hypertable for robot_telemetry_rollups: %', SQLERRM;
+END$$;
+
+-- Create indexes for telemetry rollups
+CREATE INDEX IF NOT EXISTS idx_telemetry_rollups_width_bucket ON robot_telemetry_rollups(bucket_width, bucket DESC);
+
+COMMIT;
@@ -0,0 +1,19 @@
+-- Rollback for: 20251024-090000-robot-command-lifecycle
+-- Description: Rollback robot command lifecycle tracking
+
+BEGIN;
+
+-- Drop triggers
+DROP TRIGGER IF EXISTS update_robot_commands_updated_at ON robot_commands;
+
+-- Drop indexes
+DROP INDEX IF EXISTS idx_commands_timeout;
+DROP INDEX IF EXISTS idx_commands_robot_created;
+
+-- Drop columns
+ALTER TABLE robot_commands
+    DROP COLUMN IF EXISTS updated_at,
+    DROP COLUMN IF EXISTS timeout_at,
+    DROP COLUMN IF EXISTS queued_at;
+
+COMMIT;
@@ -0,0 +1,24 @@
+-- Migration: 20251024-090000-robot-command-lifecycle
+-- Description: Track queueing, timeouts and updates of robot commands
+-- Created: 2025-10-24T09:00:00.000Z
+
+BEGIN;
+
+-- Commands move through pending, queued, executing and a final status
+ALTER TABLE robot_commands
+    ADD COLUMN IF NOT EXISTS queued_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS timeout_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Create indexes for command history and timeout checks
+CREATE INDEX IF NOT EXISTS idx_commands_robot_created ON robot_commands(robot_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_commands_timeout ON robot_commands(timeout_at)
+    WHERE status IN ('queued', 'executing');
+
+-- Add updated_at trigger to robot commands
+DROP TRIGGER IF EXISTS update_robot_commands_updated_at ON robot_commands;
+CREATE TRIGGER update_robot_commands_updated_at
+    BEFORE UPDATE ON robot_commands
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
@@ -0,0 +1,12 @@
+-- Rollback for: 20251025-090000-connection-metrics
+-- Description: Rollback connection metrics table
+
+BEGIN;
+
+-- Drop indexes
+DROP INDEX IF EXISTS idx_connection_metrics_robot_time;
+
+-- Drop tables
+DROP TABLE IF EXISTS robot_connection_metrics;
+
+COMMIT;
@@ -0,0 +1,47 @@
+-- Migration: 20251025-090000-connection-metrics
+-- Description: Create connection metrics table for per-robot adapter link quality over time
+-- Created: 2025-10-25T09:00:00.000Z
+
+BEGIN;
+
+-- Create robot_connection_metrics table (TimescaleDB hypertable)
+-- Each row is one sample of an adapter connection published by the edge agent, counters run
+-- for the lifetime of connection_id and start over when the agent reconnects the robot
+CREATE TABLE IF NOT EXISTS robot_connection_metrics (
+    time TIMESTAMPTZ NOT NULL,
+    robot_id UUID NOT NULL,
+    connection_id VARCHAR(255),
+    status VARCHAR(20) NOT NULL,
+    uptime_seconds DOUBLE PRECISION NOT NULL DEFAULT 0,
+    messages_received BIGINT NOT NULL DEFAULT 0,
+    messages_sent BIGINT NOT NULL DEFAULT 0,
+    bytes_received BIGINT NOT NULL DEFAULT 0,
+    bytes_sent BIGINT NOT NULL DEFAULT 0,
+    average_latency_ms DOUBLE PRECISION NOT NULL DEFAULT 0,
+    error_count BIGINT NOT NULL DEFAULT 0,
+    reconnect_count INTEGER NOT NULL DEFAULT 0,
+    last_error_at TIMESTAMPTZ,
+    last_heartbeat_at TIMESTAMPTZ,
+
+    CONSTRAINT fk_connection_metrics_robot
+        FOREIGN KEY (robot_id) REFERENCES robots(id) ON DELETE CASCADE,
+    CONSTRAINT chk_connection_metrics_status
+        CHECK (status IN ('connected', 'disconnected', 'connecting', 'reconnecting', 'error', 'timeout'))
+);
+
+-- Try to create a TimescaleDB hypertable (will fail gracefully if TimescaleDB is not available)
+DO $$
+BEGIN
+    PERFORM create_hypertable('robot_connection_metrics', 'time', if_not_exists => true);
+    RAISE NOTICE 'Created hypertable for robot_connection_metrics';
+EXCEPTION
+    WHEN undefined_function THEN
+        RAISE NOTICE 'TimescaleDB not available, using regular tables';
+    WHEN OTHERS THEN
+        RAISE NOTICE 'Could not create hypertable for robot_connection_metrics: %', SQLERRM;
+END$$;
+
+-- Create indexes for connection metrics
+CREATE INDEX IF NOT EXISTS idx_connection_metrics_robot_time ON robot_connection_metrics(robot_id, time DESC);
+
+COMMIT;
@@ -0,0 +1,6 @@
+-- Rollback for: 20251026-090000-maintenance-tasks-columns
+-- Description: Nothing to roll back, the table keeps the definition 20251019-090000-maintenance-schema expects
+
+BEGIN;
+
+COMMIT;
@@ -0,0 +1,25 @@
+-- Migration: 20251026-090000-maintenance-tasks-columns
+-- Description: Align maintenance tasks created by 001_initial_schema.sql
+-- Created: 2025-10-26T09:00:00.000Z
+
+BEGIN;
+
+-- 001_initial_schema.sql creates maintenance_tasks too, and CREATE TABLE IF NOT EXISTS in
+-- 20251019-090000-maintenance-schema then keeps that definition
+ALTER TABLE maintenance_tasks
+    ALTER COLUMN instructions SET DEFAULT '{}',
+    ALTER COLUMN cost DROP DEFAULT;
+
+UPDATE maintenance_tasks SET instructions = '{}' WHERE instructions IS NULL;
+
+-- A task nobody recorded costs for has none, not an empty cost record
+UPDATE maintenance_tasks SET cost = NULL WHERE cost = '{}'::jsonb;
+
+-- Instances of a recurring task outlive the deleted series root
+ALTER TABLE maintenance_tasks DROP CONSTRAINT IF EXISTS maintenance_tasks_parent_task_id_fkey;
+ALTER TABLE maintenance_tasks DROP CONSTRAINT IF EXISTS fk_maintenance_tasks_parent;
+ALTER TABLE maintenance_tasks
+    ADD CONSTRAINT fk_maintenance_tasks_parent
+        FOREIGN KEY (parent_task_id) REFERENCES maintenance_tasks(id) ON DELETE SET NULL;
+
+COMMIT;
@@ -0,0 +1,6 @@
+-- Rollback for: 20251027-090000-maintenance-predictions-columns
+-- Description: Nothing to roll back, the table keeps the definition 20251021-090000-maintenance-predictions expects
+
+BEGIN;
+
+COMMIT;
@@ -0,0 +1,17 @@
+-- Migration: 20251027-090000-maintenance-predictions-columns
+-- Description: Align maintenance predictions created by 001_initial_schema.sql
+-- Created: 2025-10-27T09:00:00.000Z
+
+BEGIN;
+
+-- 001_initial_schema.sql creates maintenance_predictions too, and CREATE TABLE IF NOT EXISTS in
+-- 20251021-090000-maintenance-predictions then keeps that definition. Confidence needs three
+-- decimals and the remaining useful life fractional days
+UPDATE maintenance_predictions SET trigger_metrics = '[]' WHERE trigger_metrics IS NULL;
+
+ALTER TABLE maintenance_predictions
+    ALTER COLUMN confidence TYPE DECIMAL(4,3),
+    ALTER COLUMN remaining_useful_life TYPE DECIMAL(10,1),
+    ALTER COLUMN trigger_metrics SET NOT NULL;
+
+COMMIT;
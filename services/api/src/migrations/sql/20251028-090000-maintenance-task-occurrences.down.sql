@@ -0,0 +1,9 @@
+-- Rollback for: 20251028-090000-maintenance-task-occurrences
+-- Description: Rollback one task per recurring occurrence
+
+BEGIN;
+
+-- Drop indexes
+DROP INDEX IF EXISTS idx_maintenance_tasks_parent_scheduled;
+
+COMMIT;
@@ -0,0 +1,25 @@
+-- Migration: 20251028-090000-maintenance-task-occurrences
+-- Description: Allow one generated task per occurrence of a recurring series
+-- Created: 2025-10-28T09:00:00.000Z
+
+BEGIN;
+
+-- Overlapping scheduler runs could create an occurrence twice, drop the copies nobody worked on
+DELETE FROM maintenance_tasks
+WHERE id IN (
+    SELECT id FROM (
+        SELECT id, status, ROW_NUMBER() OVER (
+            PARTITION BY parent_task_id, scheduled_at
+            ORDER BY status IN ('scheduled', 'pending', 'overdue'), created_at, id
+        ) AS position
+        FROM maintenance_tasks
+        WHERE parent_task_id IS NOT NULL
+    ) occurrences
+    WHERE position > 1 AND status IN ('scheduled', 'pending', 'overdue')
+);
+
+-- The scheduler inserts occurrences with ON CONFLICT DO NOTHING against this index
+CREATE UNIQUE INDEX IF NOT EXISTS idx_maintenance_tasks_parent_scheduled
+    ON maintenance_tasks(parent_task_id, scheduled_at);
+
+COMMIT;
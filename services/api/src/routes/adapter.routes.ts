@@ -0,0 +1,129 @@
+import { Router } from 'express'
+import { asyncHandler, ValidationError } from '../middleware/error.middleware'
+import { requirePermission } from '../middleware/auth.middleware'
+import { Permission, ApiResponse, ValidationResult } from '@urfmp/types'
+import { adapterService, AdapterDescription } from '../services/adapter.service'
+
+const router = Router()
+
+/**
+ * @swagger
+ * /api/v1/adapters:
+ *   get:
+ *     summary: List installed vendor adapters
+ *     description: Returns each adapter plugin with its supported robots, features, default connection config and the JSON Schema of its connection config
+ *     tags: [Adapters]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of adapters
+ */
+router.get(
+  '/',
+  requirePermission(Permission.ROBOT_VIEW),
+  asyncHandler(async (req, res) => {
+    const response: ApiResponse<{ adapters: AdapterDescription[] }> = {
+      success: true,
+      data: { adapters: adapterService.listAdapters() },
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/adapters/{name}:
+ *   get:
+ *     summary: Get a vendor adapter with its connection config schema
+ *     tags: [Adapters]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Adapter details
+ *       404:
+ *         description: No adapter with this name is installed
+ */
+router.get(
+  '/:name',
+  requirePermission(Permission.ROBOT_VIEW),
+  asyncHandler(async (req, res) => {
+    const response: ApiResponse<AdapterDescription> = {
+      success: true,
+      data: adapterService.getAdapter(req.params.name),
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/adapters/{name}/validate:
+ *   post:
+ *     summary: Validate a connection config for an adapter
+ *     description: Checks the config against the adapter's configSchema and the adapter's own validation. Errors name the offending field by path, e.g. options.variables[1].name
+ *     tags: [Adapters]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Validation result, valid is false when the config has errors
+ *       404:
+ *         description: No adapter with this name is installed
+ */
+router.post(
+  '/:name/validate',
+  requirePermission(Permission.ROBOT_VIEW),
+  asyncHandler(async (req, res) => {
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      throw new ValidationError('Request body must be a connection config object')
+    }
+
+    const result = await adapterService.validateConnection(req.params.name, req.body)
+
+    const response: ApiResponse<ValidationResult> = {
+      success: true,
+      data: result,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.json(response)
+  })
+)
+
+export default router
@@ -0,0 +1,240 @@
+import { Router } from 'express'
+import { asyncHandler } from '../middleware/error.middleware'
+import { requirePermission } from '../middleware/auth.middleware'
+import { Permission, ApiResponse, MaintenancePrediction } from '@urfmp/types'
+import {
+  predictiveMaintenanceService,
+  PredictionFilters,
+} from '../services/predictive-maintenance.service'
+import { logger } from '../config/logger'
+
+const router = Router()
+
+/**
+ * @swagger
+ * /api/v1/maintenance/predictions:
+ *   get:
+ *     summary: List maintenance predictions
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: robotId
+ *         description: Comma-separated list of robot IDs
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: component
+ *         description: Comma-separated list of robot components
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: severity
+ *         description: Comma-separated list of severities
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: acknowledged
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: List of maintenance predictions
+ */
+router.get(
+  '/',
+  requirePermission(Permission.MAINTENANCE_VIEW),
+  asyncHandler(async (req, res) => {
+    const organizationId = req.user!.org
+
+    // Parse query parameters
+    const page = parseInt(req.query.page as string) || 1
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100)
+
+    const filters: PredictionFilters = {
+      robotId: req.query.robotId as string,
+      component: req.query.component as string,
+      severity: req.query.severity as string,
+      acknowledged:
+        req.query.acknowledged !== undefined ? req.query.acknowledged === 'true' : undefined,
+    }
+
+    const result = await predictiveMaintenanceService.getPredictions(organizationId, filters, {
+      page,
+      limit,
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        predictions: result.data,
+        total: result.pagination.total,
+      },
+      pagination: result.pagination,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance/predictions/analyze:
+ *   post:
+ *     summary: Run predictive analysis
+ *     description: Analyses stored telemetry for one robot, or every robot in the organization
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               robotId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Predictions produced by the analysis
+ */
+router.post(
+  '/analyze',
+  requirePermission(Permission.MAINTENANCE_CREATE),
+  asyncHandler(async (req, res) => {
+    const organizationId = req.user!.org
+    const robotId = req.body?.robotId as string | undefined
+
+    const predictions = robotId
+      ? await predictiveMaintenanceService.analyzeRobot(robotId, organizationId)
+      : await predictiveMaintenanceService.analyzeFleet(organizationId)
+
+    const response: ApiResponse<MaintenancePrediction[]> = {
+      success: true,
+      data: predictions,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    logger.info('Predictive maintenance analysis run via API', {
+      robotId,
+      organizationId,
+      predictions: predictions.length,
+      userId: req.user!.sub,
+      traceId: req.traceId,
+    })
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance/predictions/{id}:
+ *   get:
+ *     summary: Get maintenance prediction by ID
+ *     tags: [Maintenance]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Maintenance prediction details
+ */
+router.get(
+  '/:id',
+  requirePermission(Permission.MAINTENANCE_VIEW),
+  asyncHandler(async (req, res) => {
+    const predictionId = req.params.id
+    const organizationId = req.user!.org
+
+    const prediction = await predictiveMaintenanceService.getPredictionById(
+      predictionId,
+      organizationId
+    )
+
+    if (!prediction) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Maintenance prediction not found',
+          traceId: req.traceId,
+          timestamp: new Date(),
+        },
+      }
+      return res.status(404).json(response)
+    }
+
+    const response: ApiResponse<MaintenancePrediction> = {
+      success: true,
+      data: prediction,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    return res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance/predictions/{id}/acknowledge:
+ *   post:
+ *     summary: Acknowledge a maintenance prediction
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Maintenance prediction acknowledged
+ */
+router.post(
+  '/:id/acknowledge',
+  requirePermission(Permission.MAINTENANCE_UPDATE),
+  asyncHandler(async (req, res) => {
+    const predictionId = req.params.id
+    const organizationId = req.user!.org
+
+    const prediction = await predictiveMaintenanceService.acknowledgePrediction(
+      predictionId,
+      organizationId,
+      req.user!.sub
+    )
+
+    const response: ApiResponse<MaintenancePrediction> = {
+      success: true,
+      data: prediction,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.json(response)
+  })
+)
+
+export default router
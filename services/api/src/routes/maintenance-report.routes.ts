@@ -0,0 +1,144 @@
+import { Router } from 'express'
+import { asyncHandler } from '../middleware/error.middleware'
+import { requirePermission } from '../middleware/auth.middleware'
+import {
+  Permission,
+  ApiResponse,
+  MaintenanceReport,
+  MaintenanceType,
+  MaintenancePriority,
+  ReportType,
+  ReportPeriod,
+  ReportFormat,
+} from '@urfmp/types'
+import { maintenanceReportService } from '../services/maintenance-report.service'
+import { logger } from '../config/logger'
+
+const router = Router()
+
+const splitList = (value: unknown): string[] | undefined =>
+  typeof value === 'string' && value.length ? value.split(',') : undefined
+
+/**
+ * @swagger
+ * /api/v1/maintenance/reports:
+ *   get:
+ *     summary: Generate a maintenance report
+ *     description: Computes summary, MTBF/MTTR, costs and trends from the maintenance tasks in a period
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [summary, detailed, predictive, cost_analysis, performance, compliance]
+ *       - in: query
+ *         name: period
+ *         schema:
+ *           type: string
+ *           enum: [daily, weekly, monthly, quarterly, yearly, custom]
+ *           default: monthly
+ *       - in: query
+ *         name: date
+ *         description: Any date inside the reporting period, defaults to today
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: from
+ *         description: Start of a custom period
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         description: End of a custom period (exclusive)
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: robotIds
+ *         description: Comma-separated list of robot IDs
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: facility
+ *         description: Comma-separated list of facilities
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: maintenanceType
+ *         description: Comma-separated list of maintenance types
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: priority
+ *         description: Comma-separated list of priorities
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv, pdf]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Maintenance report in the requested format
+ *       400:
+ *         description: Invalid report parameters
+ */
+router.get(
+  '/',
+  requirePermission(Permission.MAINTENANCE_VIEW),
+  asyncHandler(async (req, res) => {
+    const organizationId = req.user!.org
+    const format = ((req.query.format as string) || ReportFormat.JSON) as ReportFormat
+
+    const report = await maintenanceReportService.generateReport(organizationId, req.user!.sub, {
+      type: req.query.type as ReportType,
+      period: ((req.query.period as string) || ReportPeriod.MONTHLY) as ReportPeriod,
+      date: req.query.date as string,
+      from: req.query.from as string,
+      to: req.query.to as string,
+      robotIds: splitList(req.query.robotIds),
+      facilities: splitList(req.query.facility),
+      types: splitList(req.query.maintenanceType) as MaintenanceType[],
+      priorities: splitList(req.query.priority) as MaintenancePriority[],
+      assignedTo: splitList(req.query.assignedTo),
+      tags: splitList(req.query.tags),
+    })
+
+    logger.info('Maintenance report requested via API', {
+      reportId: report.id,
+      organizationId,
+      format,
+      userId: req.user!.sub,
+      traceId: req.traceId,
+    })
+
+    if (format === ReportFormat.JSON) {
+      const response: ApiResponse<MaintenanceReport> = {
+        success: true,
+        data: report,
+        metadata: {
+          requestId: req.traceId,
+          timestamp: new Date(),
+          version: '1.0.0',
+        },
+      }
+
+      return res.json(response)
+    }
+
+    const rendered = maintenanceReportService.render({ ...report, format }, format)
+
+    res.setHeader('Content-Type', rendered.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`)
+    return res.send(rendered.content)
+  })
+)
+
+export default router
@@ -0,0 +1,389 @@
+import { Router } from 'express'
+import { asyncHandler } from '../middleware/error.middleware'
+import { requirePermission } from '../middleware/auth.middleware'
+import { Permission, ApiResponse, MaintenanceTemplate } from '@urfmp/types'
+import {
+  maintenanceTemplateService,
+  CreateMaintenanceTemplateRequest,
+  UpdateMaintenanceTemplateRequest,
+  ApplyMaintenanceTemplateRequest,
+  ApplyMaintenanceTemplateResult,
+  MaintenanceTemplateFilters,
+} from '../services/maintenance-template.service'
+import { logger } from '../config/logger'
+
+const router = Router()
+
+/**
+ * @swagger
+ * /api/v1/maintenance/templates:
+ *   get:
+ *     summary: List maintenance templates
+ *     description: Returns the organization's templates and all public templates
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         description: Comma-separated list of maintenance types
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: vendor
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: model
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of maintenance templates
+ */
+router.get(
+  '/',
+  requirePermission(Permission.MAINTENANCE_VIEW),
+  asyncHandler(async (req, res) => {
+    const organizationId = req.user!.org
+
+    // Parse query parameters
+    const page = parseInt(req.query.page as string) || 1
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100)
+
+    const filters: MaintenanceTemplateFilters = {
+      type: req.query.type as string,
+      vendor: req.query.vendor as string,
+      model: req.query.model as string,
+      search: req.query.search as string,
+    }
+
+    const result = await maintenanceTemplateService.getTemplates(organizationId, filters, {
+      page,
+      limit,
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        templates: result.data,
+        total: result.pagination.total,
+      },
+      pagination: result.pagination,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance/templates/{id}:
+ *   get:
+ *     summary: Get maintenance template by ID
+ *     tags: [Maintenance]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Maintenance template details
+ */
+router.get(
+  '/:id',
+  requirePermission(Permission.MAINTENANCE_VIEW),
+  asyncHandler(async (req, res) => {
+    const templateId = req.params.id
+    const organizationId = req.user!.org
+
+    const template = await maintenanceTemplateService.getTemplateById(templateId, organizationId)
+
+    if (!template) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Maintenance template not found',
+          traceId: req.traceId,
+          timestamp: new Date(),
+        },
+      }
+      return res.status(404).json(response)
+    }
+
+    const response: ApiResponse<MaintenanceTemplate> = {
+      success: true,
+      data: template,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    return res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance/templates:
+ *   post:
+ *     summary: Create a maintenance template
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *               vendor:
+ *                 type: string
+ *               model:
+ *                 type: string
+ *               estimatedDuration:
+ *                 type: number
+ *               instructions:
+ *                 type: array
+ *               checklistItems:
+ *                 type: array
+ *               requiredParts:
+ *                 type: array
+ *               isPublic:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Maintenance template created successfully
+ */
+router.post(
+  '/',
+  requirePermission(Permission.MAINTENANCE_CREATE),
+  asyncHandler(async (req, res) => {
+    const organizationId = req.user!.org
+    const templateData: CreateMaintenanceTemplateRequest = req.body
+
+    const template = await maintenanceTemplateService.createTemplate(
+      organizationId,
+      req.user!.sub,
+      templateData
+    )
+
+    const response: ApiResponse<MaintenanceTemplate> = {
+      success: true,
+      data: template,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    logger.info('Maintenance template created via API', {
+      templateId: template.id,
+      organizationId,
+      userId: req.user!.sub,
+      traceId: req.traceId,
+    })
+
+    res.status(201).json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance/templates/{id}:
+ *   put:
+ *     summary: Update maintenance template
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Maintenance template updated successfully
+ */
+router.put(
+  '/:id',
+  requirePermission(Permission.MAINTENANCE_UPDATE),
+  asyncHandler(async (req, res) => {
+    const templateId = req.params.id
+    const organizationId = req.user!.org
+    const updateData: UpdateMaintenanceTemplateRequest = req.body
+
+    const template = await maintenanceTemplateService.updateTemplate(
+      templateId,
+      organizationId,
+      updateData
+    )
+
+    const response: ApiResponse<MaintenanceTemplate> = {
+      success: true,
+      data: template,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance/templates/{id}:
+ *   delete:
+ *     summary: Delete maintenance template
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Maintenance template deleted successfully
+ */
+router.delete(
+  '/:id',
+  requirePermission(Permission.MAINTENANCE_DELETE),
+  asyncHandler(async (req, res) => {
+    const templateId = req.params.id
+    const organizationId = req.user!.org
+
+    await maintenanceTemplateService.deleteTemplate(templateId, organizationId)
+
+    const response: ApiResponse = {
+      success: true,
+      data: { message: 'Maintenance template deleted successfully' },
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    logger.info('Maintenance template deleted via API', {
+      templateId,
+      organizationId,
+      userId: req.user!.sub,
+      traceId: req.traceId,
+    })
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance/templates/{id}/apply:
+ *   post:
+ *     summary: Apply a template to robots
+ *     description: Creates one maintenance task per selected robot, populated from the template
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               robotIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               robotFilters:
+ *                 type: object
+ *                 properties:
+ *                   status:
+ *                     type: string
+ *                   search:
+ *                     type: string
+ *               scheduledAt:
+ *                 type: string
+ *                 format: date-time
+ *               dueDate:
+ *                 type: string
+ *                 format: date-time
+ *               priority:
+ *                 type: string
+ *               assignedTo:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Maintenance tasks created from template
+ */
+router.post(
+  '/:id/apply',
+  requirePermission(Permission.MAINTENANCE_CREATE),
+  asyncHandler(async (req, res) => {
+    const templateId = req.params.id
+    const organizationId = req.user!.org
+    const applyData: ApplyMaintenanceTemplateRequest = req.body
+
+    const result = await maintenanceTemplateService.applyTemplate(
+      templateId,
+      organizationId,
+      req.user!.sub,
+      applyData
+    )
+
+    const response: ApiResponse<ApplyMaintenanceTemplateResult> = {
+      success: true,
+      data: result,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    logger.info('Maintenance template applied via API', {
+      templateId,
+      organizationId,
+      taskCount: result.tasks.length,
+      userId: req.user!.sub,
+      traceId: req.traceId,
+    })
+
+    res.status(201).json(response)
+  })
+)
+
+export default router
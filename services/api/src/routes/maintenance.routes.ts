@@ -1,18 +1,575 @@
 import { Router } from 'express'
 import { asyncHandler } from '../middleware/error.middleware'
 import { requirePermission } from '../middleware/auth.middleware'
-import { Permission, ApiResponse } from '@urfmp/types'
+import { Permission, ApiResponse, MaintenanceTask, MaintenanceNote } from '@urfmp/types'
+import {
+  maintenanceService,
+  CreateMaintenanceTaskRequest,
+  UpdateMaintenanceTaskRequest,
+  MaintenanceFilters,
+} from '../services/maintenance.service'
+import { logger } from '../config/logger'
 
 const router = Router()
 
+/**
+ * @swagger
+ * /api/v1/maintenance:
+ *   get:
+ *     summary: List maintenance tasks
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: robotId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         description: Comma-separated list of statuses
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         description: Comma-separated list of maintenance types
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: priority
+ *         description: Comma-separated list of priorities
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: assignedTo
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: List of maintenance tasks
+ */
 router.get(
   '/',
   requirePermission(Permission.MAINTENANCE_VIEW),
-  asyncHandler(async (_req, res) => {
+  asyncHandler(async (req, res) => {
+    const organizationId = req.user!.org
+
+    // Parse query parameters
+    const page = parseInt(req.query.page as string) || 1
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100)
+
+    const filters: MaintenanceFilters = {
+      robotId: req.query.robotId as string,
+      status: req.query.status as string,
+      type: req.query.type as string,
+      priority: req.query.priority as string,
+      assignedTo: req.query.assignedTo as string,
+      from: req.query.from ? new Date(req.query.from as string) : undefined,
+      to: req.query.to ? new Date(req.query.to as string) : undefined,
+      search: req.query.search as string,
+    }
+
+    const result = await maintenanceService.getTasks(organizationId, filters, { page, limit })
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        tasks: result.data,
+        total: result.pagination.total,
+      },
+      pagination: result.pagination,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance/{id}:
+ *   get:
+ *     summary: Get maintenance task by ID
+ *     tags: [Maintenance]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Maintenance task details
+ */
+router.get(
+  '/:id',
+  requirePermission(Permission.MAINTENANCE_VIEW),
+  asyncHandler(async (req, res) => {
+    const taskId = req.params.id
+    const organizationId = req.user!.org
+
+    const task = await maintenanceService.getTaskById(taskId, organizationId)
+
+    if (!task) {
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Maintenance task not found',
+          traceId: req.traceId,
+          timestamp: new Date(),
+        },
+      }
+      return res.status(404).json(response)
+    }
+
+    const response: ApiResponse<MaintenanceTask> = {
+      success: true,
+      data: task,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    return res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance:
+ *   post:
+ *     summary: Create a maintenance task
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               robotId:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *               priority:
+ *                 type: string
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               scheduledAt:
+ *                 type: string
+ *                 format: date-time
+ *               dueDate:
+ *                 type: string
+ *                 format: date-time
+ *               estimatedDuration:
+ *                 type: number
+ *               parts:
+ *                 type: array
+ *               checklistItems:
+ *                 type: array
+ *     responses:
+ *       201:
+ *         description: Maintenance task created successfully
+ */
+router.post(
+  '/',
+  requirePermission(Permission.MAINTENANCE_CREATE),
+  asyncHandler(async (req, res) => {
+    const organizationId = req.user!.org
+    const taskData: CreateMaintenanceTaskRequest = req.body
+
+    const task = await maintenanceService.createTask(organizationId, req.user!.sub, taskData)
+
+    const response: ApiResponse<MaintenanceTask> = {
+      success: true,
+      data: task,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    logger.info('Maintenance task created via API', {
+      taskId: task.id,
+      robotId: task.robotId,
+      organizationId,
+      userId: req.user!.sub,
+      traceId: req.traceId,
+    })
+
+    res.status(201).json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance/{id}:
+ *   put:
+ *     summary: Update maintenance task
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Maintenance task updated successfully
+ */
+router.put(
+  '/:id',
+  requirePermission(Permission.MAINTENANCE_UPDATE),
+  asyncHandler(async (req, res) => {
+    const taskId = req.params.id
+    const organizationId = req.user!.org
+    const updateData: UpdateMaintenanceTaskRequest = req.body
+
+    const task = await maintenanceService.updateTask(taskId, organizationId, updateData)
+
+    const response: ApiResponse<MaintenanceTask> = {
+      success: true,
+      data: task,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance/{id}:
+ *   delete:
+ *     summary: Delete maintenance task
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Maintenance task deleted successfully
+ */
+router.delete(
+  '/:id',
+  requirePermission(Permission.MAINTENANCE_DELETE),
+  asyncHandler(async (req, res) => {
+    const taskId = req.params.id
+    const organizationId = req.user!.org
+
+    await maintenanceService.deleteTask(taskId, organizationId)
+
     const response: ApiResponse = {
       success: true,
-      data: { message: 'Maintenance endpoints - implementation pending' },
+      data: { message: 'Maintenance task deleted successfully' },
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    logger.info('Maintenance task deleted via API', {
+      taskId,
+      organizationId,
+      userId: req.user!.sub,
+      traceId: req.traceId,
+    })
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance/{id}/start:
+ *   post:
+ *     summary: Start work on a maintenance task
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Maintenance task started
+ */
+router.post(
+  '/:id/start',
+  requirePermission(Permission.MAINTENANCE_UPDATE),
+  asyncHandler(async (req, res) => {
+    const task = await maintenanceService.startTask(req.params.id, req.user!.org, req.user!.sub)
+
+    const response: ApiResponse<MaintenanceTask> = {
+      success: true,
+      data: task,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance/{id}/complete:
+ *   post:
+ *     summary: Complete a maintenance task
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               actualDuration:
+ *                 type: number
+ *               cost:
+ *                 type: object
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Maintenance task completed
+ */
+router.post(
+  '/:id/complete',
+  requirePermission(Permission.MAINTENANCE_UPDATE),
+  asyncHandler(async (req, res) => {
+    const task = await maintenanceService.completeTask(
+      req.params.id,
+      req.user!.org,
+      req.user!.sub,
+      req.body || {}
+    )
+
+    const response: ApiResponse<MaintenanceTask> = {
+      success: true,
+      data: task,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance/{id}/cancel:
+ *   post:
+ *     summary: Cancel a maintenance task
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Maintenance task cancelled
+ */
+router.post(
+  '/:id/cancel',
+  requirePermission(Permission.MAINTENANCE_UPDATE),
+  asyncHandler(async (req, res) => {
+    const task = await maintenanceService.cancelTask(
+      req.params.id,
+      req.user!.org,
+      req.user!.sub,
+      req.body?.reason
+    )
+
+    const response: ApiResponse<MaintenanceTask> = {
+      success: true,
+      data: task,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance/{id}/notes:
+ *   post:
+ *     summary: Add a note to a maintenance task
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               content:
+ *                 type: string
+ *               isPrivate:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Note added
+ */
+router.post(
+  '/:id/notes',
+  requirePermission(Permission.MAINTENANCE_UPDATE),
+  asyncHandler(async (req, res) => {
+    const { content, isPrivate } = req.body
+
+    const note = await maintenanceService.addNote(
+      req.params.id,
+      req.user!.org,
+      req.user!.sub,
+      content,
+      isPrivate === true
+    )
+
+    const response: ApiResponse<MaintenanceNote> = {
+      success: true,
+      data: note,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
     }
+
+    res.status(201).json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/maintenance/{id}/checklist/{itemId}:
+ *   patch:
+ *     summary: Tick or untick a checklist item
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               completed:
+ *                 type: boolean
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Checklist item updated
+ */
+router.patch(
+  '/:id/checklist/:itemId',
+  requirePermission(Permission.MAINTENANCE_UPDATE),
+  asyncHandler(async (req, res) => {
+    const task = await maintenanceService.updateChecklistItem(
+      req.params.id,
+      req.params.itemId,
+      req.user!.org,
+      req.user!.sub,
+      req.body
+    )
+
+    const response: ApiResponse<MaintenanceTask> = {
+      success: true,
+      data: task,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
     res.json(response)
   })
 )
@@ -1,18 +1,203 @@
 import { Router } from 'express'
 import { asyncHandler } from '../middleware/error.middleware'
-import { requirePermission } from '../middleware/auth.middleware'
-import { Permission, ApiResponse } from '@urfmp/types'
+import { requirePermission, requireOrgAccess } from '../middleware/auth.middleware'
+import {
+  Permission,
+  ApiResponse,
+  Organization,
+  OrganizationSettings,
+  OrganizationUsage,
+} from '@urfmp/types'
+import { organizationService } from '../services/organization.service'
+import { logger } from '../config/logger'
 
 const router = Router()
 
+/**
+ * @swagger
+ * /api/v1/organizations:
+ *   get:
+ *     summary: Get the current organization
+ *     description: Returns the organization of the authenticated user with its settings, limits and usage
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Organization details
+ */
 router.get(
   '/',
   requirePermission(Permission.ORG_VIEW),
-  asyncHandler(async (_req, res) => {
-    const response: ApiResponse = {
+  asyncHandler(async (req, res) => {
+    const organization = await organizationService.getOrganization(req.user!.org)
+
+    const response: ApiResponse<Organization> = {
+      success: true,
+      data: organization,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}:
+ *   get:
+ *     summary: Get organization by ID
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Organization details
+ *       403:
+ *         description: Access denied to this organization
+ */
+router.get(
+  '/:organizationId',
+  requirePermission(Permission.ORG_VIEW),
+  requireOrgAccess,
+  asyncHandler(async (req, res) => {
+    const organization = await organizationService.getOrganization(req.params.organizationId)
+
+    const response: ApiResponse<Organization> = {
+      success: true,
+      data: organization,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}/settings:
+ *   put:
+ *     summary: Update organization settings
+ *     description: Partially updates timezone, currency, telemetry retention, security and notification settings
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               timezone:
+ *                 type: string
+ *               currency:
+ *                 type: string
+ *               language:
+ *                 type: string
+ *               dateFormat:
+ *                 type: string
+ *               telemetryRetention:
+ *                 type: object
+ *               notifications:
+ *                 type: object
+ *               security:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Updated organization settings
+ *       400:
+ *         description: Invalid settings
+ */
+router.put(
+  '/:organizationId/settings',
+  requirePermission(Permission.ORG_UPDATE),
+  requireOrgAccess,
+  asyncHandler(async (req, res) => {
+    const organizationId = req.params.organizationId
+
+    const settings = await organizationService.updateSettings(
+      organizationId,
+      req.user!.sub,
+      req.body || {}
+    )
+
+    const response: ApiResponse<OrganizationSettings> = {
+      success: true,
+      data: settings,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    logger.info('Organization settings updated via API', {
+      organizationId,
+      userId: req.user!.sub,
+      traceId: req.traceId,
+    })
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/organizations/{organizationId}/usage:
+ *   get:
+ *     summary: Get organization usage
+ *     description: Robot, user, API call and telemetry usage for the current month against plan limits
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Usage and quotas for the current billing period
+ */
+router.get(
+  '/:organizationId/usage',
+  requirePermission(Permission.ORG_VIEW),
+  requireOrgAccess,
+  asyncHandler(async (req, res) => {
+    const usage = await organizationService.getUsage(req.params.organizationId)
+
+    const response: ApiResponse<OrganizationUsage> = {
       success: true,
-      data: { message: 'Organization endpoints - implementation pending' },
+      data: usage,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
     }
+
     res.json(response)
   })
 )
@@ -1,24 +1,15 @@
 import { Router } from 'express'
-import { asyncHandler } from '../middleware/error.middleware'
+import { asyncHandler, ValidationError } from '../middleware/error.middleware'
 import { requirePermission } from '../middleware/auth.middleware'
-import {
-  Permission,
-  ApiResponse,
-  Robot,
-  RobotCommand,
-  CommandResult,
-  RobotCommandType,
-  CommandPriority,
-  CommandStatus,
-} from '@urfmp/types'
+import { Permission, ApiResponse, Robot, RobotCommand } from '@urfmp/types'
 import {
   robotService,
   CreateRobotRequest,
   UpdateRobotRequest,
   RobotFilters,
 } from '../services/robot.service'
+import { commandService, CommandFilters } from '../services/command.service'
 import { logger } from '../config/logger'
-import { getWebSocketService } from '../services/websocket.service'
 
 const router = Router()
 
@@ -323,6 +314,7 @@ router.delete(
  * /api/v1/robots/{id}/commands:
  *   post:
  *     summary: Send command to robot
+ *     description: Persists the command and queues it for execution, the returned command is queued (or failed if the queue is unavailable) and its status is followed via the status endpoint or WebSocket
  *     tags: [Robots]
  *     security:
  *       - bearerAuth: []
@@ -338,18 +330,24 @@ router.delete(
  *         application/json:
  *           schema:
  *             type: object
+ *             required: [type]
  *             properties:
  *               type:
  *                 type: string
- *                 enum: [START, STOP, PAUSE, RESUME, EMERGENCY_STOP, RESET, HOME]
+ *                 enum: [start, stop, pause, resume, emergency_stop, reset, move_to_position, run_program, load_program, set_speed, calibrate, update_firmware, custom]
  *               priority:
  *                 type: string
- *                 enum: [LOW, NORMAL, HIGH, EMERGENCY]
- *               parameters:
+ *                 enum: [low, normal, high, critical]
+ *               payload:
  *                 type: object
+ *               timeout:
+ *                 type: number
+ *                 description: Seconds until the command times out
  *     responses:
- *       200:
- *         description: Command sent successfully
+ *       201:
+ *         description: Command queued
+ *       400:
+ *         description: Invalid command
  */
 router.post(
   '/:id/commands',
@@ -357,16 +355,162 @@ router.post(
   asyncHandler(async (req, res) => {
     const robotId = req.params.id
     const organizationId = req.user!.org
-    const command: Partial<RobotCommand> = req.body
+    const body = req.body || {}
+
+    const command = await commandService.createCommand(robotId, organizationId, req.user!.sub, {
+      type: body.type,
+      priority: body.priority,
+      // Older clients send the payload as parameters
+      payload: body.payload || body.parameters,
+      timeout: body.timeout,
+    })
 
-    // Verify robot exists and belongs to organization
-    const robot = await robotService.getRobotById(robotId, organizationId)
-    if (!robot) {
+    const response: ApiResponse<RobotCommand> = {
+      success: true,
+      data: command,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    logger.info('Robot command sent via API', {
+      robotId,
+      organizationId,
+      commandId: command.id,
+      type: command.type,
+      status: command.status,
+      userId: req.user!.sub,
+      traceId: req.traceId,
+    })
+
+    res.status(201).json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/robots/{id}/commands:
+ *   get:
+ *     summary: Get robot command history
+ *     tags: [Robots]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         description: Comma-separated list of statuses
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         description: Comma-separated list of command types
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Commands of the robot, newest first, or in execution order for status=queued
+ */
+router.get(
+  '/:id/commands',
+  requirePermission(Permission.ROBOT_VIEW),
+  asyncHandler(async (req, res) => {
+    const page = parseInt(req.query.page as string) || 1
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100)
+
+    const from = req.query.from ? new Date(req.query.from as string) : undefined
+    const to = req.query.to ? new Date(req.query.to as string) : undefined
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      throw new ValidationError('Invalid from or to date format')
+    }
+
+    const filters: CommandFilters = {
+      status: req.query.status as string,
+      type: req.query.type as string,
+      from,
+      to,
+    }
+
+    const result = await commandService.getCommands(req.params.id, req.user!.org, filters, {
+      page,
+      limit,
+    })
+
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        commands: result.data,
+        total: result.pagination.total,
+      },
+      pagination: result.pagination,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/robots/{id}/commands/{commandId}:
+ *   get:
+ *     summary: Get robot command status
+ *     tags: [Robots]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commandId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Command with its current status
+ *       404:
+ *         description: Command not found
+ */
+router.get(
+  '/:id/commands/:commandId',
+  requirePermission(Permission.ROBOT_VIEW),
+  asyncHandler(async (req, res) => {
+    const command = await commandService.getCommand(
+      req.params.commandId,
+      req.params.id,
+      req.user!.org
+    )
+
+    if (!command) {
       const response: ApiResponse = {
         success: false,
         error: {
           code: 'NOT_FOUND',
-          message: 'Robot not found',
+          message: 'Command not found',
           traceId: req.traceId,
           timestamp: new Date(),
         },
@@ -374,54 +518,127 @@ router.post(
       return res.status(404).json(response)
     }
 
-    // Create command with metadata
-    const commandWithMetadata: RobotCommand = {
-      id: `cmd_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      type: command.type || RobotCommandType.CUSTOM,
-      priority: command.priority || CommandPriority.NORMAL,
-      payload: (command as any).parameters || (command as any).payload || {},
-      status: CommandStatus.PENDING,
-      createdAt: new Date(),
-      createdBy: req.user!.sub,
-      robotId,
-      organizationId,
-    }
-
-    // In a real implementation, this would be queued and processed
-    // For now, we'll simulate immediate execution
-    const result: CommandResult = {
-      commandId: commandWithMetadata.id,
+    const response: ApiResponse<RobotCommand> = {
       success: true,
-      result: {
-        status: 'EXECUTED',
-        message: `Command ${command.type} executed successfully`,
-        executedAt: new Date(),
+      data: command,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
       },
-      executionTime: Math.random() * 1000 + 100, // 100-1100ms
-      timestamp: new Date(),
     }
 
-    // Broadcast command via WebSocket
-    try {
-      const wsService = getWebSocketService()
-      wsService.broadcastToChannel(`robot:${robotId}`, {
-        event: 'robot:command_executed',
-        robotId,
-        organizationId,
-        command: commandWithMetadata,
-        result,
+    return res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/robots/{id}/commands/{commandId}/status:
+ *   put:
+ *     summary: Report robot command status
+ *     description: Used by command executors to move a command to executing, completed, failed or timeout
+ *     tags: [Robots]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commandId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [executing, completed, failed, timeout]
+ *               result:
+ *                 type: object
+ *               error:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Updated command
+ *       409:
+ *         description: The command cannot move to this status
+ */
+router.put(
+  '/:id/commands/:commandId/status',
+  requirePermission(Permission.ROBOT_UPDATE),
+  asyncHandler(async (req, res) => {
+    const body = req.body || {}
+
+    const command = await commandService.updateStatus(
+      req.params.commandId,
+      req.params.id,
+      req.user!.org,
+      { status: body.status, result: body.result, error: body.error }
+    )
+
+    const response: ApiResponse<RobotCommand> = {
+      success: true,
+      data: command,
+      metadata: {
+        requestId: req.traceId,
         timestamp: new Date(),
-      })
-    } catch (error) {
-      logger.warn('Failed to broadcast robot command', {
-        robotId,
-        error: (error as Error).message,
-      })
+        version: '1.0.0',
+      },
     }
 
-    const response: ApiResponse<CommandResult> = {
+    res.json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/robots/{id}/commands/{commandId}/cancel:
+ *   post:
+ *     summary: Cancel a robot command that has not started executing
+ *     tags: [Robots]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commandId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Command cancelled
+ *       409:
+ *         description: The command is already executing or finished
+ */
+router.post(
+  '/:id/commands/:commandId/cancel',
+  requirePermission(Permission.ROBOT_UPDATE),
+  asyncHandler(async (req, res) => {
+    const command = await commandService.cancelCommand(
+      req.params.commandId,
+      req.params.id,
+      req.user!.org,
+      req.user!.sub
+    )
+
+    const response: ApiResponse<RobotCommand> = {
       success: true,
-      data: result,
+      data: command,
       metadata: {
         requestId: req.traceId,
         timestamp: new Date(),
@@ -429,16 +646,7 @@ router.post(
       },
     }
 
-    logger.info('Robot command executed', {
-      robotId,
-      organizationId,
-      command: command.type,
-      commandId: commandWithMetadata.id,
-      userId: req.user!.sub,
-      traceId: req.traceId,
-    })
-
-    return res.json(response)
+    res.json(response)
   })
 )
 
@@ -1,14 +1,35 @@
 import { Router } from 'express'
-import { asyncHandler } from '../middleware/error.middleware'
+import { asyncHandler, ValidationError } from '../middleware/error.middleware'
 import { telemetryRateLimiter } from '../middleware/rateLimit.middleware'
 import { requirePermission } from '../middleware/auth.middleware'
-import { Permission, ApiResponse, RobotTelemetry, TelemetryData } from '@urfmp/types'
+import { requireFeature } from '../middleware/quota.middleware'
+import {
+  Permission,
+  ApiResponse,
+  ConnectionMetricsHistory,
+  ConnectionMetricsSample,
+  RobotTelemetry,
+  TelemetryData,
+  VendorEvent,
+} from '@urfmp/types'
 import { telemetryService, TelemetryFilters, TelemetryQuery } from '../services/telemetry.service'
 import { logger } from '../config/logger'
 import { getWebSocketService } from '../services/websocket.service'
 
 const router = Router()
 
+// Timestamps reported by adapters, absent means now
+const parseTimestamp = (field: string, value: unknown): Date => {
+  if (value === undefined || value === null || value === '') {
+    return new Date()
+  }
+  const date = new Date(value as string)
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid ${field} date format`)
+  }
+  return date
+}
+
 /**
  * @swagger
  * /api/v1/telemetry/{robotId}:
@@ -97,6 +118,246 @@ router.post(
   })
 )
 
+/**
+ * @swagger
+ * /api/v1/telemetry/{robotId}/events:
+ *   post:
+ *     summary: Submit a robot event reported by a vendor adapter
+ *     tags: [Telemetry]
+ *     parameters:
+ *       - in: path
+ *         name: robotId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type]
+ *             properties:
+ *               type:
+ *                 type: string
+ *               data:
+ *                 type: object
+ *               source:
+ *                 type: string
+ *               timestamp:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Event received
+ *       400:
+ *         description: Unknown event type
+ */
+router.post(
+  '/:robotId/events',
+  telemetryRateLimiter,
+  requirePermission(Permission.TELEMETRY_WRITE),
+  asyncHandler(async (req, res) => {
+    const { robotId } = req.params
+    const { type, data, source, timestamp } = req.body
+    const organizationId = req.user!.org
+
+    const event = await telemetryService.ingestEvent({
+      robotId,
+      organizationId,
+      type,
+      data,
+      source,
+      timestamp: parseTimestamp('timestamp', timestamp),
+    })
+
+    try {
+      const wsService = getWebSocketService()
+      wsService.broadcastToChannel(`robot:${robotId}`, {
+        event: 'robot:event',
+        robotId,
+        organizationId,
+        vendorEvent: event,
+        timestamp: new Date(),
+      })
+    } catch (error) {
+      logger.warn('Failed to broadcast robot event', {
+        robotId,
+        error: (error as Error).message,
+      })
+    }
+
+    const response: ApiResponse<VendorEvent> = {
+      success: true,
+      data: event,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.status(201).json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/telemetry/{robotId}/connection-metrics:
+ *   post:
+ *     summary: Submit a sample of the robot's adapter connection metrics
+ *     tags: [Telemetry]
+ *     parameters:
+ *       - in: path
+ *         name: robotId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status, metrics]
+ *             properties:
+ *               connectionId:
+ *                 type: string
+ *               status:
+ *                 type: string
+ *                 enum: [connected, disconnected, connecting, reconnecting, error, timeout]
+ *               metrics:
+ *                 type: object
+ *               lastHeartbeat:
+ *                 type: string
+ *                 format: date-time
+ *               timestamp:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Connection metrics received
+ *       400:
+ *         description: Unknown status, invalid metrics or an invalid date
+ */
+router.post(
+  '/:robotId/connection-metrics',
+  requirePermission(Permission.TELEMETRY_WRITE),
+  asyncHandler(async (req, res) => {
+    const { robotId } = req.params
+    const { connectionId, status, metrics, lastHeartbeat, timestamp } = req.body
+    const organizationId = req.user!.org
+
+    const sample = await telemetryService.ingestConnectionMetrics({
+      robotId,
+      organizationId,
+      connectionId,
+      status,
+      metrics,
+      lastHeartbeat: lastHeartbeat ? new Date(lastHeartbeat) : undefined,
+      timestamp: parseTimestamp('timestamp', timestamp),
+    })
+
+    try {
+      const wsService = getWebSocketService()
+      wsService.broadcastToChannel(`robot:${robotId}`, {
+        event: 'robot:connection',
+        robotId,
+        organizationId,
+        connection: sample,
+        timestamp: new Date(),
+      })
+    } catch (error) {
+      logger.warn('Failed to broadcast connection metrics', {
+        robotId,
+        error: (error as Error).message,
+      })
+    }
+
+    const response: ApiResponse<ConnectionMetricsSample> = {
+      success: true,
+      data: sample,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.status(201).json(response)
+  })
+)
+
+/**
+ * @swagger
+ * /api/v1/telemetry/{robotId}/connection-metrics:
+ *   get:
+ *     summary: Get the robot's connection metrics history and link quality summary
+ *     tags: [Telemetry]
+ *     parameters:
+ *       - in: path
+ *         name: robotId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Connection metrics samples, newest first, and their summary
+ */
+router.get(
+  '/:robotId/connection-metrics',
+  requirePermission(Permission.TELEMETRY_VIEW),
+  asyncHandler(async (req, res) => {
+    const { robotId } = req.params
+    const organizationId = req.user!.org
+
+    const from = req.query.from ? new Date(req.query.from as string) : undefined
+    const to = req.query.to ? new Date(req.query.to as string) : undefined
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 1000
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      throw new ValidationError('Invalid from or to date format')
+    }
+    if (isNaN(limit) || limit < 1 || limit > 10000) {
+      throw new ValidationError('limit must be between 1 and 10000')
+    }
+
+    const history = await telemetryService.getConnectionMetrics({
+      robotId,
+      organizationId,
+      from,
+      to,
+      limit,
+    })
+
+    const response: ApiResponse<ConnectionMetricsHistory> = {
+      success: true,
+      data: history,
+      metadata: {
+        requestId: req.traceId,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    }
+
+    res.json(response)
+  })
+)
+
 /**
  * @swagger
  * /api/v1/telemetry/{robotId}/latest:
@@ -173,6 +434,7 @@ router.get(
 router.get(
   '/:robotId/history',
   requirePermission(Permission.TELEMETRY_VIEW),
+  requireFeature('historicalAnalytics'),
   asyncHandler(async (req, res) => {
     const { robotId } = req.params
     const organizationId = req.user!.org
@@ -332,6 +594,7 @@ router.get(
 router.get(
   '/aggregated',
   requirePermission(Permission.TELEMETRY_VIEW),
+  requireFeature('historicalAnalytics'),
   asyncHandler(async (req, res) => {
     const organizationId = req.user!.org
 
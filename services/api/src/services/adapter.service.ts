@@ -0,0 +1,90 @@
+import { delimiter } from 'path'
+import {
+  DefaultVendorRegistry,
+  RobotVendor,
+  ValidationResult,
+  VendorAdapterConfig,
+  VendorConnectionConfig,
+} from '@urfmp/types'
+import { loadAdapterPlugins } from '@urfmp/adapter-loader'
+import { logger } from '../config/logger'
+import { NotFoundError } from '../middleware/error.middleware'
+
+export interface AdapterServiceOptions {
+  // node_modules directories scanned for adapter packages, default ADAPTER_PATHS or the
+  // directories Node resolves packages from
+  searchPaths?: string[]
+}
+
+/**
+ * An installed adapter as clients see it, the schema drives vendor specific connection forms
+ */
+export interface AdapterDescription extends VendorAdapterConfig {
+  vendor: RobotVendor
+}
+
+export class AdapterService {
+  private registry?: DefaultVendorRegistry
+
+  constructor(private readonly options: AdapterServiceOptions = {}) {}
+
+  /**
+   * Discover and register the installed adapter packages, replacing what was loaded before
+   */
+  load(): DefaultVendorRegistry {
+    const searchPaths =
+      this.options.searchPaths ??
+      (process.env.ADAPTER_PATHS ? process.env.ADAPTER_PATHS.split(delimiter) : module.paths)
+    const { registry, loaded, failed } = loadAdapterPlugins({ searchPaths })
+
+    for (const { packageName, error } of failed) {
+      logger.warn('Adapter plugin failed to load', { packageName, error })
+    }
+    logger.info('Adapter plugins loaded', { adapters: loaded.map((plugin) => plugin.name) })
+
+    this.registry = registry
+    return registry
+  }
+
+  listAdapters(): AdapterDescription[] {
+    const registry = this.getRegistry()
+    return registry.listConfigs().map((config) => this.describe(registry, config))
+  }
+
+  getAdapter(name: string): AdapterDescription {
+    const registry = this.getRegistry()
+    const config = registry.getConfig(name)
+    if (!config) {
+      throw new NotFoundError(`Adapter ${name} not found`)
+    }
+    return this.describe(registry, config)
+  }
+
+  /**
+   * Check a connection config against the adapter's configSchema and its own validation,
+   * errors name the offending field by path
+   */
+  async validateConnection(
+    name: string,
+    config: VendorConnectionConfig
+  ): Promise<ValidationResult> {
+    const adapter = this.getRegistry().getByName(name)
+    if (!adapter) {
+      throw new NotFoundError(`Adapter ${name} not found`)
+    }
+    return adapter.validateConnection(config)
+  }
+
+  private getRegistry(): DefaultVendorRegistry {
+    return this.registry ?? this.load()
+  }
+
+  private describe(
+    registry: DefaultVendorRegistry,
+    config: VendorAdapterConfig
+  ): AdapterDescription {
+    return { ...config, vendor: registry.getByName(config.name)!.vendor }
+  }
+}
+
+export const adapterService = new AdapterService()
@@ -0,0 +1,482 @@
+import { v4 as uuidv4 } from 'uuid'
+import { query } from '../config/database'
+import { logger } from '../config/logger'
+import { publishToQueue, QUEUES } from '../config/rabbitmq'
+import { getWebSocketService } from './websocket.service'
+import {
+  RobotCommand,
+  RobotCommandType,
+  CommandPriority,
+  CommandStatus,
+  CreateRobotCommandRequest,
+  UpdateRobotCommandStatusRequest,
+  PaginationOptions,
+  PaginationResult,
+} from '@urfmp/types'
+import { ValidationError, NotFoundError, ConflictError } from '../middleware/error.middleware'
+
+export interface CommandFilters {
+  status?: string
+  type?: string
+  from?: Date
+  to?: Date
+}
+
+export interface CommandServiceOptions {
+  defaultTimeoutSeconds: number
+  sweepIntervalMs: number
+}
+
+const MAX_TIMEOUT_SECONDS = 3600
+
+// Statuses each status may move to, final statuses have none
+const ALLOWED_TRANSITIONS: Record<CommandStatus, CommandStatus[]> = {
+  [CommandStatus.PENDING]: [CommandStatus.QUEUED, CommandStatus.FAILED, CommandStatus.CANCELLED],
+  [CommandStatus.QUEUED]: [
+    CommandStatus.EXECUTING,
+    CommandStatus.FAILED,
+    CommandStatus.CANCELLED,
+    CommandStatus.TIMEOUT,
+  ],
+  [CommandStatus.EXECUTING]: [CommandStatus.COMPLETED, CommandStatus.FAILED, CommandStatus.TIMEOUT],
+  [CommandStatus.COMPLETED]: [],
+  [CommandStatus.FAILED]: [],
+  [CommandStatus.CANCELLED]: [],
+  [CommandStatus.TIMEOUT]: [],
+}
+
+const FINAL_STATUSES = [
+  CommandStatus.COMPLETED,
+  CommandStatus.FAILED,
+  CommandStatus.CANCELLED,
+  CommandStatus.TIMEOUT,
+]
+
+// Queued commands run highest priority first
+const PRIORITY_RANK = `CASE c.priority
+         WHEN '${CommandPriority.CRITICAL}' THEN 3
+         WHEN '${CommandPriority.HIGH}' THEN 2
+         WHEN '${CommandPriority.NORMAL}' THEN 1
+         ELSE 0
+       END`
+
+// AMQP message priorities, only honoured by queues declared with x-max-priority
+const QUEUE_PRIORITY: Record<CommandPriority, number> = {
+  [CommandPriority.LOW]: 1,
+  [CommandPriority.NORMAL]: 5,
+  [CommandPriority.HIGH]: 8,
+  [CommandPriority.CRITICAL]: 10,
+}
+
+const COMMAND_COLUMNS = `c.id, c.robot_id, r.organization_id, c.user_id, c.type, c.payload,
+       c.priority, c.status, c.scheduled_at, c.queued_at, c.executed_at, c.completed_at,
+       c.timeout_at, c.error_message, c.result, c.created_at`
+
+export class CommandService {
+  private interval?: NodeJS.Timeout
+  private readonly options: CommandServiceOptions
+
+  constructor(options: Partial<CommandServiceOptions> = {}) {
+    this.options = {
+      defaultTimeoutSeconds:
+        options.defaultTimeoutSeconds ?? parseInt(process.env.COMMAND_TIMEOUT_SECONDS || '60'),
+      sweepIntervalMs:
+        options.sweepIntervalMs ??
+        parseInt(process.env.COMMAND_TIMEOUT_SWEEP_INTERVAL_MS || '5000'),
+    }
+  }
+
+  /**
+   * Start periodic timeout checks for queued and executing commands
+   */
+  start(): void {
+    if (this.interval) {
+      return
+    }
+
+    this.interval = setInterval(() => {
+      this.expireTimedOutCommands().catch((error) => {
+        logger.error('Command timeout check failed', { error: (error as Error).message })
+      })
+    }, this.options.sweepIntervalMs)
+  }
+
+  /**
+   * Stop periodic timeout checks
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval)
+      this.interval = undefined
+    }
+  }
+
+  /**
+   * Persist a command and hand it to the command queue
+   */
+  async createCommand(
+    robotId: string,
+    organizationId: string,
+    userId: string,
+    request: CreateRobotCommandRequest
+  ): Promise<RobotCommand> {
+    const type = String(request.type || '').toLowerCase() as RobotCommandType
+    const priority = String(
+      request.priority || CommandPriority.NORMAL
+    ).toLowerCase() as CommandPriority
+    this.validateEnum('type', type, RobotCommandType)
+    this.validateEnum('priority', priority, CommandPriority)
+
+    const timeout = request.timeout ?? this.options.defaultTimeoutSeconds
+    if (!Number.isFinite(timeout) || timeout <= 0 || timeout > MAX_TIMEOUT_SECONDS) {
+      throw new ValidationError(
+        `Command timeout must be between 1 and ${MAX_TIMEOUT_SECONDS} seconds`
+      )
+    }
+
+    const robotResult = await query(
+      'SELECT id FROM robots WHERE id = $1 AND organization_id = $2',
+      [robotId, organizationId]
+    )
+    if (robotResult.rows.length === 0) {
+      throw new NotFoundError('Robot not found')
+    }
+
+    const commandId = uuidv4()
+    const payload = request.payload || {}
+
+    await query(
+      `INSERT INTO robot_commands (id, robot_id, user_id, type, payload, priority, status, timeout_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, NOW() + make_interval(secs => $8))`,
+      [
+        commandId,
+        robotId,
+        userId,
+        type,
+        JSON.stringify(payload),
+        priority,
+        CommandStatus.PENDING,
+        timeout,
+      ]
+    )
+
+    logger.info('Robot command created', { commandId, robotId, organizationId, userId, type })
+
+    const queued = await publishToQueue(
+      QUEUES.COMMANDS,
+      { commandId, robotId, organizationId, type, payload, priority },
+      { priority: QUEUE_PRIORITY[priority] }
+    )
+
+    // Operators must never be told a command went out when the queue did not take it
+    if (!queued) {
+      return this.transition(commandId, organizationId, CommandStatus.PENDING, {
+        status: CommandStatus.FAILED,
+        error: 'Command queue unavailable',
+      })
+    }
+
+    return this.transition(commandId, organizationId, CommandStatus.PENDING, {
+      status: CommandStatus.QUEUED,
+    })
+  }
+
+  /**
+   * Get a single command of a robot
+   */
+  async getCommand(
+    commandId: string,
+    robotId: string,
+    organizationId: string
+  ): Promise<RobotCommand | null> {
+    const result = await query(
+      `SELECT ${COMMAND_COLUMNS}
+       FROM robot_commands c
+       JOIN robots r ON r.id = c.robot_id
+       WHERE c.id = $1 AND c.robot_id = $2 AND r.organization_id = $3`,
+      [commandId, robotId, organizationId]
+    )
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    return this.mapCommand(result.rows[0])
+  }
+
+  /**
+   * Get the command history of a robot, newest first. Listing only queued commands gives them in
+   * execution order instead, by priority and then oldest first
+   */
+  async getCommands(
+    robotId: string,
+    organizationId: string,
+    filters: CommandFilters = {},
+    pagination: PaginationOptions = { page: 1, limit: 20 }
+  ): Promise<PaginationResult<RobotCommand>> {
+    const { page = 1, limit = 20 } = pagination
+    const offset = (page - 1) * limit
+
+    const conditions = ['c.robot_id = $1', 'r.organization_id = $2']
+    const params: any[] = [robotId, organizationId]
+    let paramIndex = 3
+
+    if (filters.status) {
+      conditions.push(`c.status = ANY($${paramIndex})`)
+      params.push(filters.status.split(','))
+      paramIndex++
+    }
+
+    if (filters.type) {
+      conditions.push(`c.type = ANY($${paramIndex})`)
+      params.push(filters.type.split(','))
+      paramIndex++
+    }
+
+    if (filters.from) {
+      conditions.push(`c.created_at >= $${paramIndex}`)
+      params.push(filters.from)
+      paramIndex++
+    }
+
+    if (filters.to) {
+      conditions.push(`c.created_at <= $${paramIndex}`)
+      params.push(filters.to)
+      paramIndex++
+    }
+
+    const whereClause = conditions.join(' AND ')
+    const orderBy =
+      filters.status === CommandStatus.QUEUED
+        ? `${PRIORITY_RANK} DESC, c.created_at ASC`
+        : 'c.created_at DESC'
+
+    const countResult = await query(
+      `SELECT COUNT(*) as total
+       FROM robot_commands c
+       JOIN robots r ON r.id = c.robot_id
+       WHERE ${whereClause}`,
+      params
+    )
+    const total = parseInt(countResult.rows[0]?.total || '0')
+
+    const commandsResult = await query(
+      `SELECT ${COMMAND_COLUMNS}
+       FROM robot_commands c
+       JOIN robots r ON r.id = c.robot_id
+       WHERE ${whereClause}
+       ORDER BY ${orderBy}
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      [...params, limit, offset]
+    )
+
+    const totalPages = Math.ceil(total / limit)
+
+    return {
+      data: commandsResult.rows.map((row: any) => this.mapCommand(row)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    }
+  }
+
+  /**
+   * Record a status reported by the executor of a command
+   */
+  async updateStatus(
+    commandId: string,
+    robotId: string,
+    organizationId: string,
+    update: UpdateRobotCommandStatusRequest
+  ): Promise<RobotCommand> {
+    this.validateEnum('status', update.status, CommandStatus)
+
+    const existing = await this.getCommand(commandId, robotId, organizationId)
+    if (!existing) {
+      throw new NotFoundError('Command not found')
+    }
+
+    return this.transition(commandId, organizationId, existing.status, update)
+  }
+
+  /**
+   * Cancel a command that has not started executing
+   */
+  async cancelCommand(
+    commandId: string,
+    robotId: string,
+    organizationId: string,
+    userId: string
+  ): Promise<RobotCommand> {
+    const command = await this.updateStatus(commandId, robotId, organizationId, {
+      status: CommandStatus.CANCELLED,
+    })
+
+    logger.info('Robot command cancelled', { commandId, robotId, organizationId, userId })
+
+    return command
+  }
+
+  /**
+   * Mark queued and executing commands past their deadline as timed out
+   */
+  async expireTimedOutCommands(now: Date = new Date()): Promise<RobotCommand[]> {
+    const result = await query(
+      `UPDATE robot_commands c
+       SET status = $1, completed_at = NOW(), error_message = $2
+       FROM robots r
+       WHERE r.id = c.robot_id AND c.status = ANY($3) AND c.timeout_at < $4
+       RETURNING ${COMMAND_COLUMNS}`,
+      [
+        CommandStatus.TIMEOUT,
+        'No result reported before the command timeout',
+        [CommandStatus.QUEUED, CommandStatus.EXECUTING],
+        now,
+      ]
+    )
+
+    const commands = result.rows.map((row: any) => this.mapCommand(row))
+    for (const command of commands) {
+      logger.warn('Robot command timed out', {
+        commandId: command.id,
+        robotId: command.robotId,
+        type: command.type,
+      })
+      this.broadcastStatus(command)
+    }
+
+    return commands
+  }
+
+  private async transition(
+    commandId: string,
+    organizationId: string,
+    from: CommandStatus,
+    update: UpdateRobotCommandStatusRequest
+  ): Promise<RobotCommand> {
+    if (!ALLOWED_TRANSITIONS[from].includes(update.status)) {
+      throw new ConflictError(`Cannot move a ${from} command to ${update.status}`)
+    }
+
+    const assignments = ['status = $1']
+    const params: any[] = [update.status]
+    let paramIndex = 2
+
+    if (update.status === CommandStatus.QUEUED) {
+      assignments.push('queued_at = NOW()')
+    } else if (update.status === CommandStatus.EXECUTING) {
+      assignments.push('executed_at = NOW()')
+    } else if (FINAL_STATUSES.includes(update.status)) {
+      assignments.push('completed_at = NOW()')
+    }
+
+    if (update.result !== undefined) {
+      assignments.push(`result = $${paramIndex}`)
+      params.push(JSON.stringify(update.result))
+      paramIndex++
+    }
+
+    if (update.error !== undefined) {
+      assignments.push(`error_message = $${paramIndex}`)
+      params.push(update.error)
+      paramIndex++
+    }
+
+    // The status guard keeps a late report from overwriting a concurrent change, e.g. a timeout
+    const result = await query(
+      `UPDATE robot_commands c
+       SET ${assignments.join(', ')}
+       FROM robots r
+       WHERE r.id = c.robot_id AND c.id = $${paramIndex}
+         AND r.organization_id = $${paramIndex + 1} AND c.status = $${paramIndex + 2}
+       RETURNING ${COMMAND_COLUMNS}`,
+      [...params, commandId, organizationId, from]
+    )
+
+    if (result.rows.length === 0) {
+      throw new ConflictError(`Command status changed while moving it to ${update.status}`)
+    }
+
+    const command = this.mapCommand(result.rows[0])
+
+    logger.info('Robot command status changed', {
+      commandId,
+      robotId: command.robotId,
+      from,
+      to: command.status,
+    })
+
+    this.broadcastStatus(command, from)
+
+    return command
+  }
+
+  private mapCommand(row: any): RobotCommand {
+    return {
+      id: row.id,
+      robotId: row.robot_id,
+      organizationId: row.organization_id,
+      type: row.type,
+      payload: this.parseJson(row.payload, {}),
+      priority: row.priority,
+      status: row.status,
+      scheduledAt: row.scheduled_at || undefined,
+      queuedAt: row.queued_at || undefined,
+      executedAt: row.executed_at || undefined,
+      completedAt: row.completed_at || undefined,
+      timeoutAt: row.timeout_at || undefined,
+      result: this.parseJson(row.result, undefined),
+      error: row.error_message || undefined,
+      createdAt: row.created_at,
+      createdBy: row.user_id,
+    }
+  }
+
+  private broadcastStatus(command: RobotCommand, previousStatus?: CommandStatus): void {
+    try {
+      const wsService = getWebSocketService()
+      wsService.broadcastToChannel(`robot:${command.robotId}`, {
+        event: 'robot:command_status',
+        robotId: command.robotId,
+        organizationId: command.organizationId,
+        command,
+        previousStatus,
+        timestamp: new Date(),
+      })
+    } catch (error) {
+      logger.warn('Failed to broadcast robot command status', {
+        commandId: command.id,
+        status: command.status,
+        error: (error as Error).message,
+      })
+    }
+  }
+
+  private validateEnum(field: string, value: string, enumObject: Record<string, string>): void {
+    const validValues = Object.values(enumObject)
+    if (!validValues.includes(value)) {
+      throw new ValidationError(`Invalid ${field}. Must be one of: ${validValues.join(', ')}`)
+    }
+  }
+
+  private parseJson<T>(value: any, fallback: T): T {
+    if (value === null || value === undefined) {
+      return fallback
+    }
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value)
+      } catch {
+        return fallback
+      }
+    }
+    return value
+  }
+}
+
+export const commandService = new CommandService()
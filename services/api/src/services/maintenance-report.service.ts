@@ -0,0 +1,765 @@
+import { v4 as uuidv4 } from 'uuid'
+import { query } from '../config/database'
+import { logger } from '../config/logger'
+import { maintenanceService } from './maintenance.service'
+import { predictiveMaintenanceService } from './predictive-maintenance.service'
+import { renderPdf, PdfLine } from '../utils/pdf'
+import {
+  MaintenanceReport,
+  MaintenanceReportData,
+  MaintenanceReportFilters,
+  MaintenanceSummary,
+  MaintenanceTask,
+  MaintenanceType,
+  MaintenancePriority,
+  MaintenanceStatus,
+  MaintenancePrediction,
+  CostBreakdown,
+  TrendData,
+  TrendDirection,
+  ReportType,
+  ReportPeriod,
+  ReportFormat,
+} from '@urfmp/types'
+import { ValidationError } from '../middleware/error.middleware'
+
+export interface MaintenanceReportRequest {
+  type?: ReportType
+  period: ReportPeriod
+  date?: Date | string // Any date inside the reporting period, defaults to now
+  from?: Date | string // Explicit range, only used with the custom period
+  to?: Date | string
+  robotIds?: string[]
+  facilities?: string[]
+  types?: MaintenanceType[]
+  priorities?: MaintenancePriority[]
+  assignedTo?: string[]
+  tags?: string[]
+}
+
+export interface RenderedReport {
+  content: string | Buffer
+  contentType: string
+  filename: string
+}
+
+interface ReportRobot {
+  id: string
+  name: string
+  facility?: string
+}
+
+type TrendBucket = 'day' | 'week' | 'month'
+
+// Unplanned work that counts as a failure for MTBF and MTTR
+const FAILURE_TYPES = [MaintenanceType.CORRECTIVE, MaintenanceType.EMERGENCY]
+
+// Relative change below which a trend is reported as stable (percent)
+const STABLE_CHANGE_THRESHOLD = 5
+
+const MAX_CUSTOM_PERIOD_DAYS = 366
+
+export class MaintenanceReportService {
+  /**
+   * Generate a maintenance report for an organization
+   */
+  async generateReport(
+    organizationId: string,
+    userId: string,
+    request: MaintenanceReportRequest
+  ): Promise<MaintenanceReport> {
+    const type = request.type || ReportType.SUMMARY
+    this.validateEnum('type', type, ReportType)
+    this.validateEnum('period', request.period, ReportPeriod)
+
+    const { start, end } = this.resolvePeriod(request)
+    const robots = await this.getRobots(organizationId, request)
+    const tasks = robots.length
+      ? await this.getTasks(organizationId, robots, start, end, request)
+      : []
+
+    const filters: MaintenanceReportFilters = {
+      robotIds: request.robotIds,
+      facilities: request.facilities,
+      types: request.types,
+      priorities: request.priorities,
+      dateRange: { start, end },
+      assignedTo: request.assignedTo,
+      tags: request.tags,
+    }
+
+    const data: MaintenanceReportData = {
+      summary: this.buildSummary(tasks, robots.length, start, end),
+      tasks,
+      costs: this.buildCostBreakdown(tasks),
+      trends: this.buildTrends(tasks, start, end, request.period),
+      robotNames: Object.fromEntries(robots.map((robot) => [robot.id, robot.name])),
+    }
+
+    if (type === ReportType.PREDICTIVE || type === ReportType.DETAILED) {
+      data.predictions = await this.getPredictions(organizationId, robots)
+    }
+
+    logger.info('Maintenance report generated', {
+      organizationId,
+      type,
+      period: request.period,
+      robots: robots.length,
+      tasks: tasks.length,
+    })
+
+    return {
+      id: uuidv4(),
+      organizationId,
+      title: `${this.capitalize(request.period)} ${this.formatLabel(type)} Maintenance Report`,
+      type,
+      period: request.period,
+      filters,
+      data,
+      generatedAt: new Date(),
+      generatedBy: userId,
+      format: ReportFormat.JSON,
+    }
+  }
+
+  /**
+   * Render a report in the requested output format
+   */
+  render(report: MaintenanceReport, format: ReportFormat): RenderedReport {
+    const basename = `maintenance-report-${report.period}-${this.formatDate(
+      report.filters.dateRange!.start
+    )}`
+
+    switch (format) {
+      case ReportFormat.JSON:
+        return {
+          content: JSON.stringify({ ...report, format }, null, 2),
+          contentType: 'application/json',
+          filename: `${basename}.json`,
+        }
+      case ReportFormat.CSV:
+        return {
+          content: this.renderCsv(report),
+          contentType: 'text/csv',
+          filename: `${basename}.csv`,
+        }
+      case ReportFormat.PDF:
+        return {
+          content: this.renderPdf(report),
+          contentType: 'application/pdf',
+          filename: `${basename}.pdf`,
+        }
+      default:
+        throw new ValidationError(`Unsupported report format: ${format}`, {
+          field: 'format',
+          allowed: [ReportFormat.JSON, ReportFormat.CSV, ReportFormat.PDF],
+        })
+    }
+  }
+
+  /**
+   * Resolve the reporting window as a half-open [start, end) range
+   */
+  resolvePeriod(request: MaintenanceReportRequest): { start: Date; end: Date } {
+    if (request.period === ReportPeriod.CUSTOM) {
+      if (!request.from || !request.to) {
+        throw new ValidationError('Custom reports require both from and to dates')
+      }
+
+      const start = this.parseDate('from', request.from)
+      const end = this.parseDate('to', request.to)
+      if (end <= start) {
+        throw new ValidationError('Report end date must be after its start date')
+      }
+      if (end.getTime() - start.getTime() > MAX_CUSTOM_PERIOD_DAYS * 86400000) {
+        throw new ValidationError(
+          `Custom reports cannot span more than ${MAX_CUSTOM_PERIOD_DAYS} days`
+        )
+      }
+
+      return { start, end }
+    }
+
+    const date = request.date ? this.parseDate('date', request.date) : new Date()
+    const year = date.getUTCFullYear()
+    const month = date.getUTCMonth()
+    const day = date.getUTCDate()
+
+    switch (request.period) {
+      case ReportPeriod.DAILY:
+        return {
+          start: new Date(Date.UTC(year, month, day)),
+          end: new Date(Date.UTC(year, month, day + 1)),
+        }
+      case ReportPeriod.WEEKLY: {
+        // ISO weeks start on Monday
+        const offset = (date.getUTCDay() + 6) % 7
+        return {
+          start: new Date(Date.UTC(year, month, day - offset)),
+          end: new Date(Date.UTC(year, month, day - offset + 7)),
+        }
+      }
+      case ReportPeriod.MONTHLY:
+        return {
+          start: new Date(Date.UTC(year, month, 1)),
+          end: new Date(Date.UTC(year, month + 1, 1)),
+        }
+      case ReportPeriod.QUARTERLY: {
+        const quarterStart = month - (month % 3)
+        return {
+          start: new Date(Date.UTC(year, quarterStart, 1)),
+          end: new Date(Date.UTC(year, quarterStart + 3, 1)),
+        }
+      }
+      case ReportPeriod.YEARLY:
+      default:
+        return { start: new Date(Date.UTC(year, 0, 1)), end: new Date(Date.UTC(year + 1, 0, 1)) }
+    }
+  }
+
+  private async getRobots(
+    organizationId: string,
+    request: MaintenanceReportRequest
+  ): Promise<ReportRobot[]> {
+    const conditions = ['organization_id = $1']
+    const params: any[] = [organizationId]
+    let paramIndex = 2
+
+    if (request.robotIds?.length) {
+      conditions.push(`id = ANY($${paramIndex})`)
+      params.push(request.robotIds)
+      paramIndex++
+    }
+
+    if (request.facilities?.length) {
+      conditions.push(`location->>'facility' = ANY($${paramIndex})`)
+      params.push(request.facilities)
+      paramIndex++
+    }
+
+    const result = await query(
+      `SELECT id, name, location->>'facility' AS facility
+       FROM robots
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY name ASC`,
+      params
+    )
+
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      facility: row.facility ?? undefined,
+    }))
+  }
+
+  private async getTasks(
+    organizationId: string,
+    robots: ReportRobot[],
+    start: Date,
+    end: Date,
+    request: MaintenanceReportRequest
+  ): Promise<MaintenanceTask[]> {
+    // Work completed inside the period, plus open work that was due in it
+    const conditions = [
+      't.organization_id = $1',
+      't.robot_id = ANY($2)',
+      't.status != $3',
+      `((t.completed_at >= $4 AND t.completed_at < $5)
+         OR (t.completed_at IS NULL AND t.scheduled_at < $5 AND (t.due_date >= $4 OR t.status = $6)))`,
+    ]
+    const params: any[] = [
+      organizationId,
+      robots.map((robot) => robot.id),
+      MaintenanceStatus.CANCELLED,
+      start,
+      end,
+      MaintenanceStatus.OVERDUE,
+    ]
+    let paramIndex = 7
+
+    if (request.types?.length) {
+      conditions.push(`t.type = ANY($${paramIndex})`)
+      params.push(request.types)
+      paramIndex++
+    }
+
+    if (request.priorities?.length) {
+      conditions.push(`t.priority = ANY($${paramIndex})`)
+      params.push(request.priorities)
+      paramIndex++
+    }
+
+    if (request.assignedTo?.length) {
+      conditions.push(`t.assigned_to = ANY($${paramIndex})`)
+      params.push(request.assignedTo)
+      paramIndex++
+    }
+
+    if (request.tags?.length) {
+      conditions.push(`t.tags && $${paramIndex}`)
+      params.push(request.tags)
+      paramIndex++
+    }
+
+    const result = await query(
+      `SELECT t.*
+       FROM maintenance_tasks t
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY COALESCE(t.completed_at, t.scheduled_at) ASC`,
+      params
+    )
+
+    return result.rows.map((row: any) => maintenanceService.mapTask(row))
+  }
+
+  private async getPredictions(
+    organizationId: string,
+    robots: ReportRobot[]
+  ): Promise<MaintenancePrediction[]> {
+    if (!robots.length) {
+      return []
+    }
+
+    const result = await predictiveMaintenanceService.getPredictions(
+      organizationId,
+      { robotId: robots.map((robot) => robot.id).join(','), acknowledged: false },
+      { page: 1, limit: 100 }
+    )
+
+    return result.data
+  }
+
+  private buildSummary(
+    tasks: MaintenanceTask[],
+    robotCount: number,
+    start: Date,
+    end: Date
+  ): MaintenanceSummary {
+    const now = new Date()
+    const completed = tasks.filter((task) => this.isCompleted(task))
+    const overdue = tasks.filter(
+      (task) =>
+        task.status === MaintenanceStatus.OVERDUE ||
+        (!this.isCompleted(task) && new Date(task.dueDate) < (end < now ? end : now))
+    )
+    const repairs = completed.filter((task) => FAILURE_TYPES.includes(task.type))
+    const failures = tasks.filter((task) => FAILURE_TYPES.includes(task.type)).length
+
+    const totalDowntime = completed.reduce((sum, task) => sum + this.durationMinutes(task), 0)
+
+    // Only the elapsed part of the current period counts towards operating time
+    const elapsedHours = Math.max(
+      0,
+      ((end < now ? end : now).getTime() - start.getTime()) / 3600000
+    )
+    const scheduledHours = robotCount * elapsedHours
+    const operatingHours = Math.max(0, scheduledHours - totalDowntime / 60)
+
+    return {
+      totalTasks: tasks.length,
+      completedTasks: completed.length,
+      overdueTasks: overdue.length,
+      avgCompletionTime: this.round(
+        this.average(completed.map((task) => this.durationMinutes(task)))
+      ),
+      totalCost: this.round(completed.reduce((sum, task) => sum + this.taskCost(task).total, 0)),
+      totalDowntime: this.round(totalDowntime),
+      // Without any failures the whole operating time is a lower bound for MTBF
+      mtbf: this.round(failures ? operatingHours / failures : operatingHours),
+      mttr: this.round(this.average(repairs.map((task) => this.durationMinutes(task) / 60))),
+      availability: this.round(scheduledHours ? (operatingHours / scheduledHours) * 100 : 100),
+    }
+  }
+
+  private buildCostBreakdown(tasks: MaintenanceTask[]): CostBreakdown {
+    const byType = Object.values(MaintenanceType).reduce(
+      (totals, type) => ({ ...totals, [type]: 0 }),
+      {} as Record<MaintenanceType, number>
+    )
+    const breakdown: CostBreakdown = {
+      labor: 0,
+      parts: 0,
+      external: 0,
+      total: 0,
+      currency: tasks.find((task) => task.cost?.currency)?.cost?.currency || 'USD',
+      byType,
+      byRobot: {},
+      byMonth: {},
+    }
+
+    // Costs are incurred by work done, not by scheduled or cancelled tasks
+    for (const task of tasks.filter((task) => this.isCompleted(task))) {
+      const cost = this.taskCost(task)
+      if (!cost.total) continue
+
+      const month = this.formatDate(task.completedAt || task.scheduledAt).slice(0, 7)
+
+      breakdown.labor += cost.labor
+      breakdown.parts += cost.parts
+      breakdown.external += cost.external
+      breakdown.total += cost.total
+      breakdown.byType[task.type] = (breakdown.byType[task.type] || 0) + cost.total
+      breakdown.byRobot[task.robotId] = (breakdown.byRobot[task.robotId] || 0) + cost.total
+      breakdown.byMonth[month] = (breakdown.byMonth[month] || 0) + cost.total
+    }
+
+    breakdown.labor = this.round(breakdown.labor)
+    breakdown.parts = this.round(breakdown.parts)
+    breakdown.external = this.round(breakdown.external)
+    breakdown.total = this.round(breakdown.total)
+
+    return breakdown
+  }
+
+  private buildTrends(
+    tasks: MaintenanceTask[],
+    start: Date,
+    end: Date,
+    period: ReportPeriod
+  ): TrendData[] {
+    const bucket = this.trendBucket(period, start, end)
+    const buckets: Date[] = []
+    for (let date = start; date < end; date = this.nextBucket(date, bucket)) {
+      buckets.push(date)
+    }
+
+    const completedByBucket = buckets.map((bucketStart, index) => {
+      const bucketEnd = buckets[index + 1] || end
+      return tasks.filter((task) => {
+        if (!this.isCompleted(task)) return false
+        const completedAt = new Date(task.completedAt!)
+        return completedAt >= bucketStart && completedAt < bucketEnd
+      })
+    })
+
+    const series = (metric: string, valueOf: (bucketTasks: MaintenanceTask[]) => number) =>
+      this.buildTrend(
+        metric,
+        buckets.map((date, index) => ({
+          date,
+          value: this.round(valueOf(completedByBucket[index])),
+        }))
+      )
+
+    return [
+      series('completed_tasks', (bucketTasks) => bucketTasks.length),
+      series('maintenance_cost', (bucketTasks) =>
+        bucketTasks.reduce((sum, task) => sum + this.taskCost(task).total, 0)
+      ),
+      series('mttr', (bucketTasks) =>
+        this.average(
+          bucketTasks
+            .filter((task) => FAILURE_TYPES.includes(task.type))
+            .map((task) => this.durationMinutes(task) / 60)
+        )
+      ),
+    ]
+  }
+
+  private buildTrend(metric: string, values: TrendData['values']): TrendData {
+    // Compare the first and second half of the period to smooth out single buckets
+    const middle = Math.floor(values.length / 2)
+    const before = this.average(values.slice(0, middle).map((point) => point.value))
+    const after = this.average(values.slice(middle).map((point) => point.value))
+    const change = before ? ((after - before) / before) * 100 : after ? 100 : 0
+
+    let trend = TrendDirection.STABLE
+    if (change >= STABLE_CHANGE_THRESHOLD) trend = TrendDirection.INCREASING
+    else if (change <= -STABLE_CHANGE_THRESHOLD) trend = TrendDirection.DECREASING
+
+    return { metric, values, trend, change: this.round(change) }
+  }
+
+  private trendBucket(period: ReportPeriod, start: Date, end: Date): TrendBucket {
+    switch (period) {
+      case ReportPeriod.DAILY:
+      case ReportPeriod.WEEKLY:
+      case ReportPeriod.MONTHLY:
+        return 'day'
+      case ReportPeriod.QUARTERLY:
+        return 'week'
+      case ReportPeriod.YEARLY:
+        return 'month'
+      default: {
+        const days = (end.getTime() - start.getTime()) / 86400000
+        return days <= 31 ? 'day' : days <= 120 ? 'week' : 'month'
+      }
+    }
+  }
+
+  private nextBucket(date: Date, bucket: TrendBucket): Date {
+    const next = new Date(date)
+    if (bucket === 'day') next.setUTCDate(next.getUTCDate() + 1)
+    else if (bucket === 'week') next.setUTCDate(next.getUTCDate() + 7)
+    else next.setUTCMonth(next.getUTCMonth() + 1)
+    return next
+  }
+
+  private renderCsv(report: MaintenanceReport): string {
+    const { summary, costs, trends, tasks } = report.data
+    const { start, end } = report.filters.dateRange!
+    const sections: string[] = []
+
+    sections.push(this.csvRow([report.title]))
+    sections.push(this.csvRow(['Period', this.formatDate(start), this.formatDate(end)]))
+    sections.push(this.csvRow(['Generated At', new Date(report.generatedAt).toISOString()]))
+    sections.push('')
+
+    sections.push('Summary')
+    sections.push('Metric,Value,Unit')
+    for (const [label, value, unit] of this.summaryRows(summary, costs?.currency)) {
+      sections.push(this.csvRow([label, value, unit]))
+    }
+    sections.push('')
+
+    if (costs) {
+      sections.push('Cost Breakdown')
+      sections.push('Category,Amount,Currency')
+      sections.push(this.csvRow(['Labor', costs.labor, costs.currency]))
+      sections.push(this.csvRow(['Parts', costs.parts, costs.currency]))
+      sections.push(this.csvRow(['External', costs.external, costs.currency]))
+      sections.push(this.csvRow(['Total', costs.total, costs.currency]))
+      sections.push('')
+
+      sections.push('Cost By Month')
+      sections.push('Month,Amount')
+      for (const [month, amount] of Object.entries(costs.byMonth)) {
+        sections.push(this.csvRow([month, this.round(amount)]))
+      }
+      sections.push('')
+    }
+
+    if (trends?.length) {
+      sections.push('Trends')
+      sections.push('Metric,Trend,Change (%)')
+      for (const trend of trends) {
+        sections.push(this.csvRow([trend.metric, trend.trend, trend.change]))
+      }
+      sections.push('')
+    }
+
+    sections.push('Tasks')
+    sections.push(
+      'Task ID,Robot ID,Title,Type,Priority,Status,Scheduled At,Completed At,Duration (min),Parts Cost,Total Cost'
+    )
+    for (const task of tasks) {
+      const cost = this.taskCost(task)
+      sections.push(
+        this.csvRow([
+          task.id,
+          task.robotId,
+          task.title,
+          task.type,
+          task.priority,
+          task.status,
+          new Date(task.scheduledAt).toISOString(),
+          task.completedAt ? new Date(task.completedAt).toISOString() : '',
+          this.isCompleted(task) ? this.round(this.durationMinutes(task)) : '',
+          this.round(cost.parts),
+          this.round(cost.total),
+        ])
+      )
+    }
+
+    return sections.join('\n')
+  }
+
+  private renderPdf(report: MaintenanceReport): Buffer {
+    const { summary, costs, trends, tasks, predictions, robotNames } = report.data
+    const { start, end } = report.filters.dateRange!
+    const lines: PdfLine[] = []
+    const robotName = (robotId: string) => robotNames?.[robotId] ?? robotId
+    const heading = (text: string) => lines.push({ text, size: 13, bold: true, spaceBefore: 12 })
+    const row = (...columns: Array<[string | number, number]>) =>
+      lines.push({
+        text: columns
+          .map(([value, width]) => String(value).slice(0, width).padEnd(width))
+          .join(' '),
+        size: 9,
+        mono: true,
+      })
+
+    lines.push({ text: report.title, size: 18, bold: true })
+    lines.push({
+      text: `Period: ${this.formatDate(start)} to ${this.formatDate(end)}`,
+      spaceBefore: 4,
+    })
+    lines.push({ text: `Generated: ${new Date(report.generatedAt).toISOString()}` })
+
+    heading('Summary')
+    for (const [label, value, unit] of this.summaryRows(summary, costs?.currency)) {
+      row([label, 28], [`${value} ${unit}`, 30])
+    }
+
+    if (costs) {
+      heading('Costs')
+      row(['Labor', 28], [`${costs.labor} ${costs.currency}`, 30])
+      row(['Parts', 28], [`${costs.parts} ${costs.currency}`, 30])
+      row(['External', 28], [`${costs.external} ${costs.currency}`, 30])
+      row(['Total', 28], [`${costs.total} ${costs.currency}`, 30])
+
+      const types = Object.entries(costs.byType).filter(([, amount]) => amount > 0)
+      if (types.length) {
+        lines.push({ text: 'By maintenance type', bold: true, spaceBefore: 6 })
+        types.forEach(([type, amount]) =>
+          row([this.formatLabel(type), 28], [this.round(amount), 30])
+        )
+      }
+    }
+
+    if (trends?.length) {
+      heading('Trends')
+      trends.forEach((trend) =>
+        row([this.formatLabel(trend.metric), 28], [trend.trend, 12], [`${trend.change}%`, 10])
+      )
+    }
+
+    if (predictions?.length) {
+      heading('Open Predictions')
+      row(['Robot', 14], ['Component', 18], ['Severity', 10], ['RUL (d)', 9], ['Action', 20])
+      predictions.forEach((prediction) =>
+        row(
+          [robotName(prediction.robotId), 14],
+          [prediction.component, 18],
+          [prediction.severity, 10],
+          [prediction.remainingUsefulLife, 9],
+          [prediction.recommendation.action, 20]
+        )
+      )
+    }
+
+    heading('Tasks')
+    if (!tasks.length) {
+      lines.push({ text: 'No maintenance tasks in this period.' })
+    } else {
+      row(
+        ['Date', 10],
+        ['Robot', 14],
+        ['Title', 22],
+        ['Type', 12],
+        ['Status', 11],
+        ['Min', 5],
+        ['Cost', 9]
+      )
+      tasks.forEach((task) =>
+        row(
+          [this.formatDate(task.completedAt || task.scheduledAt), 10],
+          [robotName(task.robotId), 14],
+          [task.title, 22],
+          [task.type, 12],
+          [task.status, 11],
+          [this.isCompleted(task) ? this.round(this.durationMinutes(task)) : '-', 5],
+          [this.round(this.taskCost(task).total), 9]
+        )
+      )
+    }
+
+    return renderPdf(lines, report.title)
+  }
+
+  private summaryRows(
+    summary: MaintenanceSummary,
+    currency = 'USD'
+  ): Array<[string, number, string]> {
+    return [
+      ['Total Tasks', summary.totalTasks, 'tasks'],
+      ['Completed Tasks', summary.completedTasks, 'tasks'],
+      ['Overdue Tasks', summary.overdueTasks, 'tasks'],
+      ['Average Completion Time', summary.avgCompletionTime, 'minutes'],
+      ['Total Cost', summary.totalCost, currency],
+      ['Total Downtime', summary.totalDowntime, 'minutes'],
+      ['MTBF', summary.mtbf, 'hours'],
+      ['MTTR', summary.mttr, 'hours'],
+      ['Availability', summary.availability, '%'],
+    ]
+  }
+
+  private taskCost(task: MaintenanceTask): {
+    labor: number
+    parts: number
+    external: number
+    total: number
+  } {
+    // Fall back to the part list when the task was closed without a cost record
+    const partsCost = task.parts.reduce(
+      (sum, part) => sum + (part.totalCost ?? (part.unitCost || 0) * (part.quantity || 0)),
+      0
+    )
+
+    if (!task.cost) {
+      return { labor: 0, parts: partsCost, external: 0, total: partsCost }
+    }
+
+    // A recorded 0 is a cost too, only missing amounts fall back
+    const labor = Number(task.cost.labor ?? 0)
+    const parts = Number(task.cost.parts ?? partsCost)
+    const external = Number(task.cost.external ?? 0)
+    const total = task.cost.total ?? labor + parts + external
+    return { labor, parts, external, total: Number(total) }
+  }
+
+  private durationMinutes(task: MaintenanceTask): number {
+    if (task.actualDuration !== undefined && task.actualDuration !== null) {
+      return Number(task.actualDuration)
+    }
+    if (task.startedAt && task.completedAt) {
+      return (new Date(task.completedAt).getTime() - new Date(task.startedAt).getTime()) / 60000
+    }
+    return task.estimatedDuration
+  }
+
+  private isCompleted(task: MaintenanceTask): boolean {
+    return task.status === MaintenanceStatus.COMPLETED && !!task.completedAt
+  }
+
+  private csvRow(values: Array<string | number>): string {
+    return values
+      .map((value) => {
+        // Spreadsheets run text starting with a formula character, such cells are kept as text
+        const text =
+          typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+      })
+      .join(',')
+  }
+
+  private average(values: number[]): number {
+    return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100
+  }
+
+  private formatDate(date: Date | string): string {
+    return new Date(date).toISOString().slice(0, 10)
+  }
+
+  private formatLabel(value: string): string {
+    return value
+      .split('_')
+      .map((word) => this.capitalize(word))
+      .join(' ')
+  }
+
+  private capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1)
+  }
+
+  private validateEnum(field: string, value: string, enumObject: Record<string, string>): void {
+    const validValues = Object.values(enumObject)
+    if (!validValues.includes(value)) {
+      throw new ValidationError(`Invalid ${field}. Must be one of: ${validValues.join(', ')}`)
+    }
+  }
+
+  private parseDate(field: string, value: Date | string): Date {
+    const date = new Date(value)
+    if (isNaN(date.getTime())) {
+      throw new ValidationError(`Invalid ${field} date`)
+    }
+    return date
+  }
+}
+
+export const maintenanceReportService = new MaintenanceReportService()
@@ -0,0 +1,371 @@
+import { v4 as uuidv4 } from 'uuid'
+import { query } from '../config/database'
+import { logger } from '../config/logger'
+import { publishEvent } from '../config/rabbitmq'
+import { maintenanceService } from './maintenance.service'
+import {
+  Event,
+  EventType,
+  EventSource,
+  EventSeverity,
+  MaintenanceTask,
+  MaintenanceStatus,
+  MaintenancePriority,
+  RecurrenceRule,
+  RecurrenceFrequency,
+  RobotStatus,
+} from '@urfmp/types'
+
+export interface SchedulerOptions {
+  intervalMs: number
+  lookaheadDays: number
+}
+
+export interface SchedulerRunResult {
+  generated: number
+  due: number
+  overdue: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Upper bound on instances created per series in one run, guards against runaway rules
+const MAX_INSTANCES_PER_RUN = 100
+
+/**
+ * Calculate the next occurrence of a recurrence rule after `previous`.
+ *
+ * Returns null when the rule is exhausted (past its end date) or when the
+ * frequency is usage-based (operating hours, cycles, distance) and cannot be
+ * derived from the calendar alone.
+ */
+export function calculateNextOccurrence(rule: RecurrenceRule, previous: Date): Date | null {
+  const interval = Math.max(1, rule.interval || 1)
+  let next: Date
+
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      next = new Date(previous.getTime() + interval * DAY_MS)
+      break
+
+    case RecurrenceFrequency.WEEKLY:
+      next = nextWeeklyOccurrence(previous, interval, rule.daysOfWeek)
+      break
+
+    case RecurrenceFrequency.MONTHLY:
+      next = addMonths(previous, interval, rule.dayOfMonth)
+      break
+
+    case RecurrenceFrequency.QUARTERLY:
+      next = addMonths(previous, interval * 3, rule.dayOfMonth)
+      break
+
+    case RecurrenceFrequency.YEARLY:
+      next = addMonths(previous, interval * 12, rule.dayOfMonth)
+      break
+
+    default:
+      return null
+  }
+
+  if (rule.endDate && next.getTime() > new Date(rule.endDate).getTime()) {
+    return null
+  }
+
+  return next
+}
+
+function nextWeeklyOccurrence(previous: Date, interval: number, daysOfWeek?: number[]): Date {
+  const days = (daysOfWeek || []).filter((d) => d >= 0 && d <= 6).sort((a, b) => a - b)
+
+  if (days.length === 0) {
+    return new Date(previous.getTime() + interval * 7 * DAY_MS)
+  }
+
+  // Remaining days in the current week come first, then jump `interval` weeks ahead
+  const currentDay = previous.getUTCDay()
+  const laterThisWeek = days.find((d) => d > currentDay)
+  if (laterThisWeek !== undefined) {
+    return new Date(previous.getTime() + (laterThisWeek - currentDay) * DAY_MS)
+  }
+
+  const startOfWeek = previous.getTime() - currentDay * DAY_MS
+  return new Date(startOfWeek + (interval * 7 + days[0]) * DAY_MS)
+}
+
+function addMonths(date: Date, months: number, dayOfMonth?: number): Date {
+  const result = new Date(date.getTime())
+  const targetDay = dayOfMonth || date.getUTCDate()
+
+  result.setUTCDate(1)
+  result.setUTCMonth(result.getUTCMonth() + months)
+
+  // Clamp to the last day of shorter months (e.g. the 31st in February)
+  const daysInMonth = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+  ).getUTCDate()
+  result.setUTCDate(Math.min(targetDay, daysInMonth))
+
+  return result
+}
+
+export class MaintenanceScheduler {
+  private interval?: NodeJS.Timeout
+  private running = false
+  private readonly options: SchedulerOptions
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    this.options = {
+      intervalMs:
+        options.intervalMs ?? parseInt(process.env.MAINTENANCE_SCHEDULER_INTERVAL_MS || '300000'),
+      lookaheadDays:
+        options.lookaheadDays ?? parseInt(process.env.MAINTENANCE_SCHEDULER_LOOKAHEAD_DAYS || '7'),
+    }
+  }
+
+  /**
+   * Start periodic scheduling runs
+   */
+  start(): void {
+    if (this.interval) {
+      return
+    }
+
+    this.interval = setInterval(() => {
+      this.runCycle().catch((error) => {
+        logger.error('Maintenance scheduler run failed', { error: (error as Error).message })
+      })
+    }, this.options.intervalMs)
+
+    logger.info('Maintenance scheduler started', this.options)
+  }
+
+  /**
+   * Stop periodic scheduling runs
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval)
+      this.interval = undefined
+      logger.info('Maintenance scheduler stopped')
+    }
+  }
+
+  /**
+   * Generate recurring instances and process deadlines once
+   */
+  async runCycle(now: Date = new Date()): Promise<SchedulerRunResult> {
+    if (this.running) {
+      logger.debug('Maintenance scheduler run already in progress, skipping')
+      return { generated: 0, due: 0, overdue: 0 }
+    }
+
+    this.running = true
+    try {
+      const generated = await this.generateRecurringTasks(now)
+      const { due, overdue } = await this.processDeadlines(now)
+
+      if (generated > 0 || due > 0 || overdue > 0) {
+        logger.info('Maintenance scheduler run completed', { generated, due, overdue })
+      }
+
+      return { generated, due, overdue }
+    } finally {
+      this.running = false
+    }
+  }
+
+  /**
+   * Create the upcoming instances of every active recurring series
+   */
+  async generateRecurringTasks(now: Date = new Date()): Promise<number> {
+    const horizon = new Date(now.getTime() + this.options.lookaheadDays * DAY_MS)
+
+    // Series roots are the recurring tasks themselves; instances point back via parent_task_id
+    const seriesResult = await query(
+      `SELECT t.*,
+              (SELECT COUNT(*) FROM maintenance_tasks c WHERE c.parent_task_id = t.id) AS instance_count,
+              (SELECT MAX(c.scheduled_at) FROM maintenance_tasks c WHERE c.parent_task_id = t.id) AS last_scheduled_at
+       FROM maintenance_tasks t
+       JOIN robots r ON r.id = t.robot_id
+       WHERE t.is_recurring = true
+         AND t.parent_task_id IS NULL
+         AND t.status != $1
+         AND r.status != $2
+         AND COALESCE(r.is_active, true) = true`,
+      [MaintenanceStatus.CANCELLED, RobotStatus.DECOMMISSIONED]
+    )
+
+    let generated = 0
+
+    for (const row of seriesResult.rows) {
+      const series = maintenanceService.mapTask(row)
+      const rule = series.recurrenceRule
+      if (!rule) {
+        continue
+      }
+
+      let occurrences = 1 + parseInt(row.instance_count || '0')
+      let previous = new Date(row.last_scheduled_at || series.scheduledAt)
+      const dueOffset = new Date(series.dueDate).getTime() - new Date(series.scheduledAt).getTime()
+
+      for (let i = 0; i < MAX_INSTANCES_PER_RUN; i++) {
+        if (rule.maxOccurrences && occurrences >= rule.maxOccurrences) {
+          break
+        }
+
+        const next = calculateNextOccurrence(rule, previous)
+        if (!next || next > horizon) {
+          break
+        }
+
+        if (await this.createInstance(series, next, new Date(next.getTime() + dueOffset))) {
+          generated++
+        }
+        occurrences++
+        previous = next
+      }
+    }
+
+    return generated
+  }
+
+  /**
+   * Flag tasks whose scheduled date or deadline has passed
+   */
+  async processDeadlines(now: Date = new Date()): Promise<{ due: number; overdue: number }> {
+    // Overdue first so a task past its deadline does not also raise a due event
+    const overdueResult = await query(
+      `UPDATE maintenance_tasks
+       SET status = $1
+       WHERE status IN ($2, $3) AND due_date < $4
+       RETURNING *`,
+      [MaintenanceStatus.OVERDUE, MaintenanceStatus.SCHEDULED, MaintenanceStatus.PENDING, now]
+    )
+
+    for (const row of overdueResult.rows) {
+      await this.emitTaskEvent(EventType.MAINTENANCE_OVERDUE, maintenanceService.mapTask(row))
+    }
+
+    const dueResult = await query(
+      `UPDATE maintenance_tasks
+       SET status = $1
+       WHERE status = $2 AND scheduled_at <= $3
+       RETURNING *`,
+      [MaintenanceStatus.PENDING, MaintenanceStatus.SCHEDULED, now]
+    )
+
+    for (const row of dueResult.rows) {
+      await this.emitTaskEvent(EventType.MAINTENANCE_DUE, maintenanceService.mapTask(row))
+    }
+
+    return { due: dueResult.rows.length, overdue: overdueResult.rows.length }
+  }
+
+  /**
+   * Insert one occurrence of a series, false when an overlapping run already created it
+   */
+  private async createInstance(
+    series: MaintenanceTask,
+    scheduledAt: Date,
+    dueDate: Date
+  ): Promise<boolean> {
+    const checklistItems = series.checklistItems.map((item) => ({
+      id: uuidv4(),
+      description: item.description,
+      required: item.required,
+      completed: false,
+      notes: undefined,
+      order: item.order,
+    }))
+    const parts = series.parts.map((part) => ({ ...part, id: uuidv4() }))
+
+    const result = await query(
+      `INSERT INTO maintenance_tasks (
+        robot_id, organization_id, type, priority, status, title, description,
+        instructions, estimated_duration, scheduled_at, due_date, assigned_to,
+        created_by, parts, checklist_items, tags, is_recurring, parent_task_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, false, $17)
+      ON CONFLICT (parent_task_id, scheduled_at) DO NOTHING`,
+      [
+        series.robotId,
+        series.organizationId,
+        series.type,
+        series.priority,
+        MaintenanceStatus.SCHEDULED,
+        series.title,
+        series.description,
+        series.instructions || [],
+        series.estimatedDuration,
+        scheduledAt,
+        dueDate,
+        series.assignedTo || null,
+        series.createdBy,
+        JSON.stringify(parts),
+        JSON.stringify(checklistItems),
+        series.tags,
+        series.id,
+      ]
+    )
+
+    if (!result.rowCount) {
+      return false
+    }
+
+    logger.info('Recurring maintenance instance generated', {
+      parentTaskId: series.id,
+      robotId: series.robotId,
+      organizationId: series.organizationId,
+      scheduledAt,
+    })
+    return true
+  }
+
+  private async emitTaskEvent(type: EventType, task: MaintenanceTask): Promise<void> {
+    const overdue = type === EventType.MAINTENANCE_OVERDUE
+    const event: Event = {
+      id: uuidv4(),
+      type,
+      source: EventSource.SCHEDULER,
+      robotId: task.robotId,
+      organizationId: task.organizationId,
+      severity: this.getEventSeverity(task.priority, overdue),
+      title: overdue ? `Maintenance overdue: ${task.title}` : `Maintenance due: ${task.title}`,
+      description: overdue
+        ? `Maintenance task "${task.title}" passed its due date of ${new Date(task.dueDate).toISOString()}`
+        : `Maintenance task "${task.title}" is due to be performed`,
+      data: {
+        taskId: task.id,
+        parentTaskId: task.parentTaskId,
+        scheduledAt: task.scheduledAt,
+        dueDate: task.dueDate,
+        assignedTo: task.assignedTo,
+      },
+      metadata: { version: '1.0.0' },
+      timestamp: new Date(),
+    }
+
+    await publishEvent(type, event)
+
+    maintenanceService.broadcastTaskEvent(type, task)
+  }
+
+  private getEventSeverity(priority: MaintenancePriority, overdue: boolean): EventSeverity {
+    if (!overdue) {
+      return EventSeverity.INFO
+    }
+
+    switch (priority) {
+      case MaintenancePriority.CRITICAL:
+        return EventSeverity.CRITICAL
+      case MaintenancePriority.HIGH:
+        return EventSeverity.HIGH
+      case MaintenancePriority.MEDIUM:
+        return EventSeverity.MEDIUM
+      default:
+        return EventSeverity.LOW
+    }
+  }
+}
+
+export const maintenanceScheduler = new MaintenanceScheduler()
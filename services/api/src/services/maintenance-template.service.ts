@@ -0,0 +1,608 @@
+import { query } from '../config/database'
+import { logger } from '../config/logger'
+import { maintenanceService } from './maintenance.service'
+import {
+  MaintenanceTask,
+  MaintenanceTemplate,
+  MaintenanceType,
+  MaintenancePriority,
+  MaintenancePart,
+  ChecklistItem,
+  TemplateChecklistItem,
+  TemplatePart,
+  RecurrenceRule,
+  RobotStatus,
+  RobotVendor,
+  PaginationOptions,
+  PaginationResult,
+} from '@urfmp/types'
+import { ValidationError, NotFoundError, ForbiddenError } from '../middleware/error.middleware'
+
+export interface CreateMaintenanceTemplateRequest {
+  name: string
+  description?: string
+  type: MaintenanceType
+  vendor?: RobotVendor
+  model?: string
+  estimatedDuration: number
+  instructions?: string[]
+  checklistItems?: Partial<TemplateChecklistItem>[]
+  requiredParts?: Partial<TemplatePart>[]
+  requiredSkills?: string[]
+  safetyProcedures?: string[]
+  tools?: string[]
+  isPublic?: boolean
+  tags?: string[]
+  version?: string
+}
+
+export type UpdateMaintenanceTemplateRequest = Partial<CreateMaintenanceTemplateRequest>
+
+export interface MaintenanceTemplateFilters {
+  type?: string
+  vendor?: string
+  model?: string
+  search?: string
+}
+
+export interface ApplyMaintenanceTemplateRequest {
+  robotIds?: string[]
+  robotFilters?: {
+    status?: string
+    search?: string
+  }
+  scheduledAt: Date | string
+  dueDate?: Date | string
+  priority?: MaintenancePriority
+  assignedTo?: string
+  tags?: string[]
+  isRecurring?: boolean
+  recurrenceRule?: RecurrenceRule
+}
+
+export interface ApplyMaintenanceTemplateResult {
+  templateId: string
+  tasks: MaintenanceTask[]
+}
+
+const TEMPLATE_COLUMNS = `id, organization_id, name, description, type, vendor, model,
+       estimated_duration, instructions, checklist_items, required_parts, required_skills,
+       safety_procedures, tools, is_public, created_by, tags, version, created_at, updated_at`
+
+// Upper bound on robots a template may be applied to in a single request
+const MAX_ROBOTS_PER_APPLY = 500
+
+export class MaintenanceTemplateService {
+  /**
+   * Get templates visible to an organization (its own plus public templates)
+   */
+  async getTemplates(
+    organizationId: string,
+    filters: MaintenanceTemplateFilters = {},
+    pagination: PaginationOptions = { page: 1, limit: 20 }
+  ): Promise<PaginationResult<MaintenanceTemplate>> {
+    const { page = 1, limit = 20 } = pagination
+    const offset = (page - 1) * limit
+
+    // Build where conditions
+    const conditions = ['(organization_id = $1 OR is_public = true)']
+    const params: any[] = [organizationId]
+    let paramIndex = 2
+
+    if (filters.type) {
+      conditions.push(`type = ANY($${paramIndex})`)
+      params.push(filters.type.split(','))
+      paramIndex++
+    }
+
+    if (filters.vendor) {
+      conditions.push(`vendor = $${paramIndex}`)
+      params.push(filters.vendor)
+      paramIndex++
+    }
+
+    if (filters.model) {
+      conditions.push(`LOWER(model) = LOWER($${paramIndex})`)
+      params.push(filters.model)
+      paramIndex++
+    }
+
+    if (filters.search) {
+      conditions.push(`(name ILIKE $${paramIndex} OR description ILIKE $${paramIndex + 1})`)
+      params.push(`%${filters.search}%`, `%${filters.search}%`)
+      paramIndex += 2
+    }
+
+    const whereClause = conditions.join(' AND ')
+
+    // Get total count
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM maintenance_templates WHERE ${whereClause}`,
+      params
+    )
+    const total = parseInt(countResult.rows[0]?.total || '0')
+
+    // Get templates
+    const templatesResult = await query(
+      `SELECT ${TEMPLATE_COLUMNS}
+       FROM maintenance_templates
+       WHERE ${whereClause}
+       ORDER BY name ASC
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      [...params, limit, offset]
+    )
+
+    const templates = templatesResult.rows.map((row: any) => this.mapTemplate(row))
+    const totalPages = Math.ceil(total / limit)
+
+    return {
+      data: templates,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    }
+  }
+
+  /**
+   * Get a single template by ID
+   */
+  async getTemplateById(
+    templateId: string,
+    organizationId: string
+  ): Promise<MaintenanceTemplate | null> {
+    const result = await query(
+      `SELECT ${TEMPLATE_COLUMNS}
+       FROM maintenance_templates
+       WHERE id = $1 AND (organization_id = $2 OR is_public = true)`,
+      [templateId, organizationId]
+    )
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    return this.mapTemplate(result.rows[0])
+  }
+
+  /**
+   * Create a new maintenance template
+   */
+  async createTemplate(
+    organizationId: string,
+    userId: string,
+    templateData: CreateMaintenanceTemplateRequest
+  ): Promise<MaintenanceTemplate> {
+    // Validate input
+    if (!templateData.name || !templateData.type) {
+      throw new ValidationError('Template name and type are required')
+    }
+
+    this.validateTemplate(templateData)
+
+    const result = await query(
+      `INSERT INTO maintenance_templates (
+        organization_id, name, description, type, vendor, model, estimated_duration,
+        instructions, checklist_items, required_parts, required_skills, safety_procedures,
+        tools, is_public, created_by, tags, version
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+      RETURNING ${TEMPLATE_COLUMNS}`,
+      [
+        organizationId,
+        templateData.name,
+        templateData.description || null,
+        templateData.type,
+        templateData.vendor || null,
+        templateData.model || null,
+        templateData.estimatedDuration ?? 0,
+        templateData.instructions || [],
+        JSON.stringify(this.normalizeChecklist(templateData.checklistItems)),
+        JSON.stringify(this.normalizeParts(templateData.requiredParts)),
+        templateData.requiredSkills || [],
+        templateData.safetyProcedures || [],
+        templateData.tools || [],
+        templateData.isPublic || false,
+        userId,
+        templateData.tags || [],
+        templateData.version || '1.0.0',
+      ]
+    )
+
+    const template = this.mapTemplate(result.rows[0])
+
+    logger.info('Maintenance template created', {
+      templateId: template.id,
+      organizationId,
+      vendor: template.vendor,
+      model: template.model,
+    })
+
+    return template
+  }
+
+  /**
+   * Update a maintenance template, bumping its version unless one is given
+   */
+  async updateTemplate(
+    templateId: string,
+    organizationId: string,
+    updateData: UpdateMaintenanceTemplateRequest
+  ): Promise<MaintenanceTemplate> {
+    const existing = await this.getOwnedTemplate(templateId, organizationId)
+
+    this.validateTemplate(updateData)
+
+    const updates: string[] = []
+    const params: any[] = []
+    let paramIndex = 1
+
+    const setField = (column: string, value: any) => {
+      updates.push(`${column} = $${paramIndex}`)
+      params.push(value)
+      paramIndex++
+    }
+
+    if (updateData.name !== undefined) {
+      if (!updateData.name) {
+        throw new ValidationError('Template name cannot be empty')
+      }
+      setField('name', updateData.name)
+    }
+    if (updateData.description !== undefined) setField('description', updateData.description)
+    if (updateData.type !== undefined) setField('type', updateData.type)
+    if (updateData.vendor !== undefined) setField('vendor', updateData.vendor || null)
+    if (updateData.model !== undefined) setField('model', updateData.model || null)
+    if (updateData.estimatedDuration !== undefined) {
+      setField('estimated_duration', updateData.estimatedDuration)
+    }
+    if (updateData.instructions !== undefined) setField('instructions', updateData.instructions)
+    if (updateData.checklistItems !== undefined) {
+      setField(
+        'checklist_items',
+        JSON.stringify(this.normalizeChecklist(updateData.checklistItems))
+      )
+    }
+    if (updateData.requiredParts !== undefined) {
+      setField('required_parts', JSON.stringify(this.normalizeParts(updateData.requiredParts)))
+    }
+    if (updateData.requiredSkills !== undefined) {
+      setField('required_skills', updateData.requiredSkills)
+    }
+    if (updateData.safetyProcedures !== undefined) {
+      setField('safety_procedures', updateData.safetyProcedures)
+    }
+    if (updateData.tools !== undefined) setField('tools', updateData.tools)
+    if (updateData.isPublic !== undefined) setField('is_public', updateData.isPublic)
+    if (updateData.tags !== undefined) setField('tags', updateData.tags)
+
+    if (updates.length === 0) {
+      throw new ValidationError('No valid fields to update')
+    }
+
+    setField('version', updateData.version || this.bumpVersion(existing.version))
+
+    params.push(templateId, organizationId)
+
+    const result = await query(
+      `UPDATE maintenance_templates
+       SET ${updates.join(', ')}
+       WHERE id = $${paramIndex} AND organization_id = $${paramIndex + 1}
+       RETURNING ${TEMPLATE_COLUMNS}`,
+      params
+    )
+
+    const template = this.mapTemplate(result.rows[0])
+
+    logger.info('Maintenance template updated', {
+      templateId,
+      organizationId,
+      version: template.version,
+      updatedFields: Object.keys(updateData),
+    })
+
+    return template
+  }
+
+  /**
+   * Delete a maintenance template
+   */
+  async deleteTemplate(templateId: string, organizationId: string): Promise<void> {
+    await this.getOwnedTemplate(templateId, organizationId)
+
+    await query('DELETE FROM maintenance_templates WHERE id = $1 AND organization_id = $2', [
+      templateId,
+      organizationId,
+    ])
+
+    logger.info('Maintenance template deleted', { templateId, organizationId })
+  }
+
+  /**
+   * Create a maintenance task from a template for each selected robot.
+   *
+   * Robots are selected either explicitly by ID or by filters; in both cases
+   * only robots matching the template's vendor and model are eligible, and
+   * decommissioned or inactive robots are never included.
+   */
+  async applyTemplate(
+    templateId: string,
+    organizationId: string,
+    userId: string,
+    request: ApplyMaintenanceTemplateRequest
+  ): Promise<ApplyMaintenanceTemplateResult> {
+    const template = await this.getTemplateById(templateId, organizationId)
+    if (!template) {
+      throw new NotFoundError('Maintenance template not found')
+    }
+
+    if (!request.scheduledAt) {
+      throw new ValidationError('Scheduled date is required')
+    }
+
+    const robotIds = await this.resolveRobots(template, organizationId, request)
+
+    const tasks: MaintenanceTask[] = []
+    for (const robotId of robotIds) {
+      const task = await maintenanceService.createTask(organizationId, userId, {
+        robotId,
+        type: template.type,
+        priority: request.priority,
+        title: template.name,
+        description: template.description,
+        instructions: [
+          ...template.safetyProcedures.map((procedure) => `Safety: ${procedure}`),
+          ...template.instructions,
+        ],
+        estimatedDuration: template.estimatedDuration,
+        scheduledAt: request.scheduledAt,
+        dueDate: request.dueDate,
+        assignedTo: request.assignedTo,
+        parts: template.requiredParts.map((part) => this.toTaskPart(part)),
+        checklistItems: template.checklistItems.map((item) => this.toTaskChecklistItem(item)),
+        tags: [...new Set([...template.tags, ...(request.tags || []), `template:${template.id}`])],
+        isRecurring: request.isRecurring,
+        recurrenceRule: request.recurrenceRule,
+      })
+      tasks.push(task)
+    }
+
+    logger.info('Maintenance template applied', {
+      templateId,
+      organizationId,
+      userId,
+      taskCount: tasks.length,
+    })
+
+    return { templateId, tasks }
+  }
+
+  /**
+   * Map a maintenance_templates row to a MaintenanceTemplate
+   */
+  mapTemplate(row: any): MaintenanceTemplate {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description ?? undefined,
+      type: row.type,
+      vendor: row.vendor ?? undefined,
+      model: row.model ?? undefined,
+      estimatedDuration: row.estimated_duration ?? 0,
+      instructions: row.instructions || [],
+      checklistItems: this.parseJson(row.checklist_items, []),
+      requiredParts: this.parseJson(row.required_parts, []),
+      requiredSkills: row.required_skills || [],
+      safetyProcedures: row.safety_procedures || [],
+      tools: row.tools || [],
+      isPublic: row.is_public || false,
+      organizationId: row.organization_id ?? undefined,
+      createdBy: row.created_by,
+      tags: row.tags || [],
+      version: row.version,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }
+  }
+
+  private async resolveRobots(
+    template: MaintenanceTemplate,
+    organizationId: string,
+    request: ApplyMaintenanceTemplateRequest
+  ): Promise<string[]> {
+    const hasRobotIds = Array.isArray(request.robotIds) && request.robotIds.length > 0
+    if (!hasRobotIds && !request.robotFilters) {
+      throw new ValidationError('Either robotIds or robotFilters must be provided')
+    }
+
+    const conditions = [
+      'organization_id = $1',
+      'COALESCE(is_active, true) = true',
+      '(status IS NULL OR status != $2)',
+    ]
+    const params: any[] = [organizationId, RobotStatus.DECOMMISSIONED]
+    let paramIndex = 3
+
+    if (template.vendor) {
+      conditions.push(`vendor = $${paramIndex}`)
+      params.push(template.vendor)
+      paramIndex++
+    }
+
+    if (template.model) {
+      conditions.push(`LOWER(model) = LOWER($${paramIndex})`)
+      params.push(template.model)
+      paramIndex++
+    }
+
+    if (hasRobotIds) {
+      conditions.push(`id = ANY($${paramIndex})`)
+      params.push(request.robotIds)
+      paramIndex++
+    } else {
+      if (request.robotFilters?.status) {
+        conditions.push(`status = ANY($${paramIndex})`)
+        params.push(request.robotFilters.status.split(','))
+        paramIndex++
+      }
+
+      if (request.robotFilters?.search) {
+        conditions.push(`(name ILIKE $${paramIndex} OR serial_number ILIKE $${paramIndex + 1})`)
+        params.push(`%${request.robotFilters.search}%`, `%${request.robotFilters.search}%`)
+        paramIndex += 2
+      }
+    }
+
+    const result = await query(
+      `SELECT id FROM robots WHERE ${conditions.join(' AND ')} ORDER BY name ASC LIMIT $${paramIndex}`,
+      [...params, MAX_ROBOTS_PER_APPLY + 1]
+    )
+    const matched: string[] = result.rows.map((row: any) => row.id)
+
+    if (matched.length > MAX_ROBOTS_PER_APPLY) {
+      throw new ValidationError(
+        `A template can be applied to at most ${MAX_ROBOTS_PER_APPLY} robots at a time`
+      )
+    }
+
+    if (hasRobotIds) {
+      const ineligible = request.robotIds!.filter((id) => !matched.includes(id))
+      if (ineligible.length > 0) {
+        throw new ValidationError(
+          `Template cannot be applied to robots: ${ineligible.join(', ')}. ` +
+            'Robots must exist, be active, and match the template vendor and model'
+        )
+      }
+    }
+
+    if (matched.length === 0) {
+      throw new ValidationError('No eligible robots match the template and filters')
+    }
+
+    return matched
+  }
+
+  private async getOwnedTemplate(
+    templateId: string,
+    organizationId: string
+  ): Promise<MaintenanceTemplate> {
+    const template = await this.getTemplateById(templateId, organizationId)
+    if (!template) {
+      throw new NotFoundError('Maintenance template not found')
+    }
+    if (template.organizationId !== organizationId) {
+      throw new ForbiddenError('Public templates from other organizations cannot be modified')
+    }
+    return template
+  }
+
+  private toTaskPart(part: TemplatePart): Partial<MaintenancePart> {
+    return {
+      name: part.name,
+      partNumber: part.partNumber,
+      quantity: part.quantity,
+      unitCost: part.estimatedCost,
+      inStock: false,
+      specifications: {
+        critical: part.critical,
+        ...(part.alternatives?.length ? { alternatives: part.alternatives } : {}),
+      },
+    }
+  }
+
+  private toTaskChecklistItem(item: TemplateChecklistItem): Partial<ChecklistItem> {
+    return {
+      description: item.description,
+      required: item.required,
+      notes: item.instructions,
+      order: item.order,
+    }
+  }
+
+  private validateTemplate(data: UpdateMaintenanceTemplateRequest): void {
+    if (data.type !== undefined) {
+      this.validateEnum('type', data.type, MaintenanceType)
+    }
+    if (data.vendor) {
+      this.validateEnum('vendor', data.vendor, RobotVendor)
+    }
+    if (
+      data.estimatedDuration !== undefined &&
+      (typeof data.estimatedDuration !== 'number' || data.estimatedDuration < 0)
+    ) {
+      throw new ValidationError('Estimated duration must be a positive number of minutes')
+    }
+  }
+
+  private normalizeChecklist(
+    items: Partial<TemplateChecklistItem>[] = []
+  ): TemplateChecklistItem[] {
+    return items.map((item, index) => {
+      if (!item.description) {
+        throw new ValidationError('Each checklist item requires a description')
+      }
+      return {
+        description: item.description,
+        required: item.required ?? true,
+        instructions: item.instructions,
+        estimatedTime: item.estimatedTime,
+        order: item.order ?? index + 1,
+      }
+    })
+  }
+
+  private normalizeParts(parts: Partial<TemplatePart>[] = []): TemplatePart[] {
+    return parts.map((part) => {
+      if (!part.name) {
+        throw new ValidationError('Each part requires a name')
+      }
+      const quantity = part.quantity ?? 1
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        throw new ValidationError('Part quantity must be a positive integer')
+      }
+      return {
+        name: part.name,
+        partNumber: part.partNumber,
+        quantity,
+        estimatedCost: part.estimatedCost,
+        critical: part.critical ?? false,
+        alternatives: part.alternatives,
+      }
+    })
+  }
+
+  private bumpVersion(version: string): string {
+    const parts = (version || '1.0.0').split('.').map((part) => parseInt(part) || 0)
+    while (parts.length < 3) {
+      parts.push(0)
+    }
+    parts[2]++
+    return parts.join('.')
+  }
+
+  private validateEnum(field: string, value: string, enumObject: Record<string, string>): void {
+    const validValues = Object.values(enumObject)
+    if (!validValues.includes(value)) {
+      throw new ValidationError(`Invalid ${field}. Must be one of: ${validValues.join(', ')}`)
+    }
+  }
+
+  private parseJson<T>(value: any, fallback: T): T {
+    if (value === null || value === undefined) {
+      return fallback
+    }
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value)
+      } catch {
+        return fallback
+      }
+    }
+    return value
+  }
+}
+
+export const maintenanceTemplateService = new MaintenanceTemplateService()
@@ -0,0 +1,918 @@
+import { v4 as uuidv4 } from 'uuid'
+import { query } from '../config/database'
+import { logger } from '../config/logger'
+import { getWebSocketService } from './websocket.service'
+import {
+  MaintenanceTask,
+  MaintenanceType,
+  MaintenancePriority,
+  MaintenanceStatus,
+  MaintenancePart,
+  ChecklistItem,
+  MaintenanceNote,
+  MaintenanceCost,
+  RecurrenceRule,
+  RecurrenceFrequency,
+  PaginationOptions,
+  PaginationResult,
+} from '@urfmp/types'
+import { ValidationError, NotFoundError, ConflictError } from '../middleware/error.middleware'
+
+export interface CreateMaintenanceTaskRequest {
+  robotId: string
+  type: MaintenanceType
+  priority?: MaintenancePriority
+  title: string
+  description?: string
+  instructions?: string[]
+  estimatedDuration?: number
+  scheduledAt: Date | string
+  dueDate?: Date | string
+  assignedTo?: string
+  parts?: Partial<MaintenancePart>[]
+  checklistItems?: Partial<ChecklistItem>[]
+  tags?: string[]
+  isRecurring?: boolean
+  recurrenceRule?: RecurrenceRule
+  parentTaskId?: string
+}
+
+export interface UpdateMaintenanceTaskRequest {
+  type?: MaintenanceType
+  priority?: MaintenancePriority
+  title?: string
+  description?: string
+  instructions?: string[]
+  estimatedDuration?: number
+  scheduledAt?: Date | string
+  dueDate?: Date | string
+  assignedTo?: string | null
+  parts?: Partial<MaintenancePart>[]
+  tags?: string[]
+  isRecurring?: boolean
+  recurrenceRule?: RecurrenceRule | null
+}
+
+export interface CompleteMaintenanceTaskRequest {
+  actualDuration?: number
+  cost?: Partial<MaintenanceCost>
+  notes?: string
+}
+
+export interface UpdateChecklistItemRequest {
+  completed: boolean
+  notes?: string
+}
+
+export interface MaintenanceFilters {
+  robotId?: string
+  status?: string
+  type?: string
+  priority?: string
+  assignedTo?: string
+  from?: Date
+  to?: Date
+  search?: string
+}
+
+const TASK_COLUMNS = `id, robot_id, organization_id, type, priority, status, title, description,
+       instructions, estimated_duration, actual_duration, scheduled_at, started_at,
+       completed_at, due_date, assigned_to, created_by, parts, checklist_items,
+       attachments, notes, cost, tags, is_recurring, recurrence_rule, parent_task_id,
+       created_at, updated_at`
+
+// Statuses from which a task may be started
+const STARTABLE_STATUSES = [
+  MaintenanceStatus.SCHEDULED,
+  MaintenanceStatus.PENDING,
+  MaintenanceStatus.OVERDUE,
+  MaintenanceStatus.ON_HOLD,
+]
+
+// Statuses that end a task's lifecycle
+const TERMINAL_STATUSES = [MaintenanceStatus.COMPLETED, MaintenanceStatus.CANCELLED]
+
+export class MaintenanceService {
+  /**
+   * Get maintenance tasks for an organization
+   */
+  async getTasks(
+    organizationId: string,
+    filters: MaintenanceFilters = {},
+    pagination: PaginationOptions = { page: 1, limit: 20 }
+  ): Promise<PaginationResult<MaintenanceTask>> {
+    const { page = 1, limit = 20 } = pagination
+    const offset = (page - 1) * limit
+
+    // Build where conditions
+    const conditions = ['organization_id = $1']
+    const params: any[] = [organizationId]
+    let paramIndex = 2
+
+    if (filters.robotId) {
+      conditions.push(`robot_id = $${paramIndex}`)
+      params.push(filters.robotId)
+      paramIndex++
+    }
+
+    if (filters.status) {
+      conditions.push(`status = ANY($${paramIndex})`)
+      params.push(filters.status.split(','))
+      paramIndex++
+    }
+
+    if (filters.type) {
+      conditions.push(`type = ANY($${paramIndex})`)
+      params.push(filters.type.split(','))
+      paramIndex++
+    }
+
+    if (filters.priority) {
+      conditions.push(`priority = ANY($${paramIndex})`)
+      params.push(filters.priority.split(','))
+      paramIndex++
+    }
+
+    if (filters.assignedTo) {
+      conditions.push(`assigned_to = $${paramIndex}`)
+      params.push(filters.assignedTo)
+      paramIndex++
+    }
+
+    if (filters.from) {
+      conditions.push(`due_date >= $${paramIndex}`)
+      params.push(filters.from)
+      paramIndex++
+    }
+
+    if (filters.to) {
+      conditions.push(`due_date <= $${paramIndex}`)
+      params.push(filters.to)
+      paramIndex++
+    }
+
+    if (filters.search) {
+      conditions.push(`(title ILIKE $${paramIndex} OR description ILIKE $${paramIndex + 1})`)
+      params.push(`%${filters.search}%`, `%${filters.search}%`)
+      paramIndex += 2
+    }
+
+    const whereClause = conditions.join(' AND ')
+
+    // Get total count
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM maintenance_tasks WHERE ${whereClause}`,
+      params
+    )
+    const total = parseInt(countResult.rows[0]?.total || '0')
+
+    // Get tasks
+    const tasksResult = await query(
+      `SELECT ${TASK_COLUMNS}
+       FROM maintenance_tasks
+       WHERE ${whereClause}
+       ORDER BY due_date ASC
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      [...params, limit, offset]
+    )
+
+    const tasks = tasksResult.rows.map((row: any) => this.mapTask(row))
+    const totalPages = Math.ceil(total / limit)
+
+    return {
+      data: tasks,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    }
+  }
+
+  /**
+   * Get a single maintenance task by ID
+   */
+  async getTaskById(taskId: string, organizationId: string): Promise<MaintenanceTask | null> {
+    const result = await query(
+      `SELECT ${TASK_COLUMNS}
+       FROM maintenance_tasks
+       WHERE id = $1 AND organization_id = $2`,
+      [taskId, organizationId]
+    )
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    return this.mapTask(result.rows[0])
+  }
+
+  /**
+   * Create a new maintenance task
+   */
+  async createTask(
+    organizationId: string,
+    userId: string,
+    taskData: CreateMaintenanceTaskRequest
+  ): Promise<MaintenanceTask> {
+    // Validate input
+    if (!taskData.robotId || !taskData.type || !taskData.title || !taskData.scheduledAt) {
+      throw new ValidationError('Robot, type, title, and scheduled date are required')
+    }
+
+    this.validateEnum('type', taskData.type, MaintenanceType)
+    if (taskData.priority) {
+      this.validateEnum('priority', taskData.priority, MaintenancePriority)
+    }
+
+    const scheduledAt = this.parseDate('scheduledAt', taskData.scheduledAt)
+    const dueDate = taskData.dueDate ? this.parseDate('dueDate', taskData.dueDate) : scheduledAt
+
+    if (dueDate < scheduledAt) {
+      throw new ValidationError('Due date cannot be before the scheduled date')
+    }
+
+    if (taskData.estimatedDuration !== undefined && taskData.estimatedDuration < 0) {
+      throw new ValidationError('Estimated duration must be a positive number of minutes')
+    }
+
+    if (taskData.isRecurring) {
+      this.validateRecurrenceRule(taskData.recurrenceRule)
+    }
+
+    // Verify robot exists and belongs to organization
+    const robotCheck = await query('SELECT id FROM robots WHERE id = $1 AND organization_id = $2', [
+      taskData.robotId,
+      organizationId,
+    ])
+
+    if (robotCheck.rows.length === 0) {
+      throw new NotFoundError('Robot not found')
+    }
+
+    if (taskData.parentTaskId) {
+      const parentCheck = await query(
+        'SELECT id FROM maintenance_tasks WHERE id = $1 AND organization_id = $2',
+        [taskData.parentTaskId, organizationId]
+      )
+      if (parentCheck.rows.length === 0) {
+        throw new ValidationError('Parent task not found', { field: 'parentTaskId' })
+      }
+    }
+
+    const result = await this.writeTask(
+      `INSERT INTO maintenance_tasks (
+        robot_id, organization_id, type, priority, status, title, description,
+        instructions, estimated_duration, scheduled_at, due_date, assigned_to,
+        created_by, parts, checklist_items, tags, is_recurring, recurrence_rule,
+        parent_task_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+      RETURNING ${TASK_COLUMNS}`,
+      [
+        taskData.robotId,
+        organizationId,
+        taskData.type,
+        taskData.priority || MaintenancePriority.MEDIUM,
+        MaintenanceStatus.SCHEDULED,
+        taskData.title,
+        taskData.description || '',
+        taskData.instructions || [],
+        taskData.estimatedDuration ?? 0,
+        scheduledAt,
+        dueDate,
+        taskData.assignedTo || null,
+        userId,
+        JSON.stringify(this.normalizeParts(taskData.parts)),
+        JSON.stringify(this.normalizeChecklist(taskData.checklistItems)),
+        taskData.tags || [],
+        taskData.isRecurring || false,
+        taskData.isRecurring ? JSON.stringify(taskData.recurrenceRule) : null,
+        taskData.parentTaskId || null,
+      ]
+    )
+
+    const task = this.mapTask(result.rows[0])
+
+    logger.info('Maintenance task created', {
+      taskId: task.id,
+      robotId: task.robotId,
+      organizationId,
+      type: task.type,
+    })
+
+    this.broadcastTaskEvent('maintenance:task_created', task)
+
+    return task
+  }
+
+  /**
+   * Update a maintenance task
+   */
+  async updateTask(
+    taskId: string,
+    organizationId: string,
+    updateData: UpdateMaintenanceTaskRequest
+  ): Promise<MaintenanceTask> {
+    const existingTask = await this.getTaskById(taskId, organizationId)
+    if (!existingTask) {
+      throw new NotFoundError('Maintenance task not found')
+    }
+
+    if (TERMINAL_STATUSES.includes(existingTask.status)) {
+      throw new ConflictError(`Cannot update a ${existingTask.status} maintenance task`)
+    }
+
+    // Build update query
+    const updateFields: string[] = []
+    const params: any[] = []
+    let paramIndex = 1
+
+    const setField = (column: string, value: any) => {
+      updateFields.push(`${column} = $${paramIndex}`)
+      params.push(value)
+      paramIndex++
+    }
+
+    if (updateData.type !== undefined) {
+      this.validateEnum('type', updateData.type, MaintenanceType)
+      setField('type', updateData.type)
+    }
+
+    if (updateData.priority !== undefined) {
+      this.validateEnum('priority', updateData.priority, MaintenancePriority)
+      setField('priority', updateData.priority)
+    }
+
+    if (updateData.title !== undefined) {
+      if (!updateData.title) {
+        throw new ValidationError('Title cannot be empty')
+      }
+      setField('title', updateData.title)
+    }
+
+    if (updateData.description !== undefined) {
+      setField('description', updateData.description)
+    }
+
+    if (updateData.instructions !== undefined) {
+      setField('instructions', updateData.instructions)
+    }
+
+    if (updateData.estimatedDuration !== undefined) {
+      if (updateData.estimatedDuration < 0) {
+        throw new ValidationError('Estimated duration must be a positive number of minutes')
+      }
+      setField('estimated_duration', updateData.estimatedDuration)
+    }
+
+    const scheduledAt =
+      updateData.scheduledAt !== undefined
+        ? this.parseDate('scheduledAt', updateData.scheduledAt)
+        : existingTask.scheduledAt
+    const dueDate =
+      updateData.dueDate !== undefined
+        ? this.parseDate('dueDate', updateData.dueDate)
+        : existingTask.dueDate
+
+    if (new Date(dueDate) < new Date(scheduledAt)) {
+      throw new ValidationError('Due date cannot be before the scheduled date')
+    }
+
+    if (updateData.scheduledAt !== undefined) {
+      setField('scheduled_at', scheduledAt)
+    }
+
+    if (updateData.dueDate !== undefined) {
+      setField('due_date', dueDate)
+    }
+
+    if (updateData.assignedTo !== undefined) {
+      setField('assigned_to', updateData.assignedTo || null)
+    }
+
+    if (updateData.parts !== undefined) {
+      setField('parts', JSON.stringify(this.normalizeParts(updateData.parts)))
+    }
+
+    if (updateData.tags !== undefined) {
+      setField('tags', updateData.tags)
+    }
+
+    // Turning recurrence on, or clearing the rule of a recurring task, must leave a rule behind
+    const isRecurring = updateData.isRecurring ?? existingTask.isRecurring
+    const recurrenceRule =
+      updateData.recurrenceRule !== undefined
+        ? updateData.recurrenceRule
+        : existingTask.recurrenceRule
+    if (isRecurring && !recurrenceRule) {
+      throw new ValidationError('Recurring tasks require a recurrence rule')
+    }
+
+    if (updateData.isRecurring !== undefined) {
+      setField('is_recurring', updateData.isRecurring)
+    }
+
+    if (updateData.recurrenceRule !== undefined) {
+      if (updateData.recurrenceRule) {
+        this.validateRecurrenceRule(updateData.recurrenceRule)
+      }
+      setField(
+        'recurrence_rule',
+        updateData.recurrenceRule ? JSON.stringify(updateData.recurrenceRule) : null
+      )
+    }
+
+    if (updateFields.length === 0) {
+      return existingTask
+    }
+
+    params.push(taskId, organizationId)
+
+    const result = await this.writeTask(
+      `UPDATE maintenance_tasks
+       SET ${updateFields.join(', ')}
+       WHERE id = $${paramIndex} AND organization_id = $${paramIndex + 1}
+       RETURNING ${TASK_COLUMNS}`,
+      params
+    )
+
+    const task = this.mapTask(result.rows[0])
+
+    logger.info('Maintenance task updated', {
+      taskId,
+      organizationId,
+      updateData,
+    })
+
+    this.broadcastTaskEvent('maintenance:task_updated', task)
+
+    return task
+  }
+
+  /**
+   * Delete a maintenance task
+   */
+  async deleteTask(taskId: string, organizationId: string): Promise<void> {
+    const result = await query(
+      'DELETE FROM maintenance_tasks WHERE id = $1 AND organization_id = $2',
+      [taskId, organizationId]
+    )
+
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Maintenance task not found')
+    }
+
+    logger.info('Maintenance task deleted', {
+      taskId,
+      organizationId,
+    })
+  }
+
+  /**
+   * Start work on a maintenance task
+   */
+  async startTask(
+    taskId: string,
+    organizationId: string,
+    userId: string
+  ): Promise<MaintenanceTask> {
+    const existingTask = await this.getTaskById(taskId, organizationId)
+    if (!existingTask) {
+      throw new NotFoundError('Maintenance task not found')
+    }
+
+    if (!STARTABLE_STATUSES.includes(existingTask.status)) {
+      throw new ConflictError(`Cannot start a maintenance task that is ${existingTask.status}`)
+    }
+
+    // Technicians picking up an unassigned task become its assignee
+    const result = await query(
+      `UPDATE maintenance_tasks
+       SET status = $1, started_at = NOW(), assigned_to = COALESCE(assigned_to, $2)
+       WHERE id = $3 AND organization_id = $4
+       RETURNING ${TASK_COLUMNS}`,
+      [MaintenanceStatus.IN_PROGRESS, userId, taskId, organizationId]
+    )
+
+    const task = this.mapTask(result.rows[0])
+
+    logger.info('Maintenance task started', { taskId, organizationId, userId })
+
+    this.broadcastTaskEvent('maintenance:task_started', task)
+
+    return task
+  }
+
+  /**
+   * Complete a maintenance task
+   */
+  async completeTask(
+    taskId: string,
+    organizationId: string,
+    userId: string,
+    completion: CompleteMaintenanceTaskRequest = {}
+  ): Promise<MaintenanceTask> {
+    const existingTask = await this.getTaskById(taskId, organizationId)
+    if (!existingTask) {
+      throw new NotFoundError('Maintenance task not found')
+    }
+
+    if (existingTask.status !== MaintenanceStatus.IN_PROGRESS) {
+      throw new ConflictError('Only in-progress maintenance tasks can be completed')
+    }
+
+    const pendingRequired = existingTask.checklistItems.filter(
+      (item) => item.required && !item.completed
+    )
+    if (pendingRequired.length > 0) {
+      throw new ValidationError('All required checklist items must be completed', {
+        pendingItems: pendingRequired.map((item) => item.id),
+      })
+    }
+
+    if (completion.actualDuration !== undefined && completion.actualDuration < 0) {
+      throw new ValidationError('Actual duration must be a positive number of minutes')
+    }
+
+    const completedAt = new Date()
+    const actualDuration =
+      completion.actualDuration ??
+      (existingTask.startedAt
+        ? Math.round((completedAt.getTime() - new Date(existingTask.startedAt).getTime()) / 60000)
+        : undefined)
+
+    const cost = completion.cost ? this.buildCost(existingTask, completion.cost) : existingTask.cost
+
+    const notes = [...existingTask.notes]
+    if (completion.notes) {
+      notes.push(await this.buildNote(userId, completion.notes, false))
+    }
+
+    const result = await query(
+      `UPDATE maintenance_tasks
+       SET status = $1, completed_at = $2, actual_duration = $3, cost = $4, notes = $5
+       WHERE id = $6 AND organization_id = $7
+       RETURNING ${TASK_COLUMNS}`,
+      [
+        MaintenanceStatus.COMPLETED,
+        completedAt,
+        actualDuration ?? null,
+        cost ? JSON.stringify(cost) : null,
+        JSON.stringify(notes),
+        taskId,
+        organizationId,
+      ]
+    )
+
+    const task = this.mapTask(result.rows[0])
+
+    logger.info('Maintenance task completed', {
+      taskId,
+      organizationId,
+      userId,
+      actualDuration,
+    })
+
+    this.broadcastTaskEvent('maintenance:task_completed', task)
+
+    return task
+  }
+
+  /**
+   * Cancel a maintenance task
+   */
+  async cancelTask(
+    taskId: string,
+    organizationId: string,
+    userId: string,
+    reason?: string
+  ): Promise<MaintenanceTask> {
+    const existingTask = await this.getTaskById(taskId, organizationId)
+    if (!existingTask) {
+      throw new NotFoundError('Maintenance task not found')
+    }
+
+    if (TERMINAL_STATUSES.includes(existingTask.status)) {
+      throw new ConflictError(`Cannot cancel a ${existingTask.status} maintenance task`)
+    }
+
+    const notes = [...existingTask.notes]
+    if (reason) {
+      notes.push(await this.buildNote(userId, `Cancelled: ${reason}`, false))
+    }
+
+    const result = await query(
+      `UPDATE maintenance_tasks
+       SET status = $1, notes = $2
+       WHERE id = $3 AND organization_id = $4
+       RETURNING ${TASK_COLUMNS}`,
+      [MaintenanceStatus.CANCELLED, JSON.stringify(notes), taskId, organizationId]
+    )
+
+    const task = this.mapTask(result.rows[0])
+
+    logger.info('Maintenance task cancelled', { taskId, organizationId, userId, reason })
+
+    this.broadcastTaskEvent('maintenance:task_cancelled', task)
+
+    return task
+  }
+
+  /**
+   * Add a note to a maintenance task
+   */
+  async addNote(
+    taskId: string,
+    organizationId: string,
+    userId: string,
+    content: string,
+    isPrivate: boolean = false
+  ): Promise<MaintenanceNote> {
+    if (!content || !content.trim()) {
+      throw new ValidationError('Note content is required')
+    }
+
+    const existingTask = await this.getTaskById(taskId, organizationId)
+    if (!existingTask) {
+      throw new NotFoundError('Maintenance task not found')
+    }
+
+    const note = await this.buildNote(userId, content.trim(), isPrivate)
+
+    await query(
+      `UPDATE maintenance_tasks
+       SET notes = COALESCE(notes, '[]'::jsonb) || $1::jsonb
+       WHERE id = $2 AND organization_id = $3`,
+      [JSON.stringify([note]), taskId, organizationId]
+    )
+
+    logger.info('Maintenance note added', { taskId, organizationId, noteId: note.id })
+
+    return note
+  }
+
+  /**
+   * Mark a checklist item as completed or not completed
+   */
+  async updateChecklistItem(
+    taskId: string,
+    itemId: string,
+    organizationId: string,
+    userId: string,
+    update: UpdateChecklistItemRequest
+  ): Promise<MaintenanceTask> {
+    if (typeof update.completed !== 'boolean') {
+      throw new ValidationError('Checklist item completion state is required')
+    }
+
+    const existingTask = await this.getTaskById(taskId, organizationId)
+    if (!existingTask) {
+      throw new NotFoundError('Maintenance task not found')
+    }
+
+    if (existingTask.status !== MaintenanceStatus.IN_PROGRESS) {
+      throw new ConflictError('Checklist items can only be updated on in-progress tasks')
+    }
+
+    const item = existingTask.checklistItems.find((i) => i.id === itemId)
+    if (!item) {
+      throw new NotFoundError('Checklist item not found')
+    }
+
+    const checklistItems = existingTask.checklistItems.map((i) =>
+      i.id === itemId
+        ? {
+            ...i,
+            completed: update.completed,
+            completedAt: update.completed ? new Date() : undefined,
+            completedBy: update.completed ? userId : undefined,
+            notes: update.notes !== undefined ? update.notes : i.notes,
+          }
+        : i
+    )
+
+    const result = await query(
+      `UPDATE maintenance_tasks
+       SET checklist_items = $1
+       WHERE id = $2 AND organization_id = $3
+       RETURNING ${TASK_COLUMNS}`,
+      [JSON.stringify(checklistItems), taskId, organizationId]
+    )
+
+    const task = this.mapTask(result.rows[0])
+
+    this.broadcastTaskEvent('maintenance:checklist_updated', task)
+
+    return task
+  }
+
+  /**
+   * Map a maintenance_tasks row to a MaintenanceTask
+   */
+  mapTask(row: any): MaintenanceTask {
+    return {
+      id: row.id,
+      robotId: row.robot_id,
+      organizationId: row.organization_id,
+      type: row.type,
+      priority: row.priority,
+      status: row.status,
+      title: row.title,
+      description: row.description || '',
+      instructions: row.instructions || [],
+      estimatedDuration: row.estimated_duration ?? 0,
+      actualDuration: row.actual_duration ?? undefined,
+      scheduledAt: row.scheduled_at,
+      startedAt: row.started_at ?? undefined,
+      completedAt: row.completed_at ?? undefined,
+      dueDate: row.due_date,
+      assignedTo: row.assigned_to ?? undefined,
+      createdBy: row.created_by,
+      parts: this.parseJson(row.parts, []),
+      checklistItems: this.parseJson(row.checklist_items, []),
+      attachments: this.parseJson(row.attachments, []),
+      notes: this.parseJson(row.notes, []),
+      cost: this.parseJson(row.cost, undefined),
+      tags: row.tags || [],
+      isRecurring: row.is_recurring || false,
+      recurrenceRule: this.parseJson(row.recurrence_rule, undefined),
+      parentTaskId: row.parent_task_id ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }
+  }
+
+  private async buildNote(
+    userId: string,
+    content: string,
+    isPrivate: boolean
+  ): Promise<MaintenanceNote> {
+    const userResult = await query('SELECT first_name, last_name FROM users WHERE id = $1', [
+      userId,
+    ])
+    const user = userResult.rows[0]
+    const authorName = user ? `${user.first_name || ''} ${user.last_name || ''}`.trim() : ''
+
+    return {
+      id: uuidv4(),
+      content,
+      author: userId,
+      authorName: authorName || 'Unknown',
+      createdAt: new Date(),
+      isPrivate,
+    }
+  }
+
+  private buildCost(task: MaintenanceTask, cost: Partial<MaintenanceCost>): MaintenanceCost {
+    const partsCost =
+      cost.parts ??
+      task.parts.reduce(
+        (sum, part) => sum + (part.totalCost ?? (part.unitCost ?? 0) * part.quantity),
+        0
+      )
+    const labor = cost.labor ?? 0
+    const external = cost.external ?? 0
+
+    return {
+      labor,
+      parts: partsCost,
+      external,
+      total: labor + partsCost + external,
+      currency: cost.currency || task.cost?.currency || 'USD',
+      estimatedTotal: cost.estimatedTotal ?? task.cost?.estimatedTotal,
+    }
+  }
+
+  private normalizeParts(parts: Partial<MaintenancePart>[] = []): MaintenancePart[] {
+    return parts.map((part) => {
+      if (!part.name) {
+        throw new ValidationError('Each part requires a name')
+      }
+      const quantity = part.quantity ?? 1
+      return {
+        id: part.id || uuidv4(),
+        name: part.name,
+        partNumber: part.partNumber || '',
+        manufacturer: part.manufacturer,
+        quantity,
+        unitCost: part.unitCost,
+        totalCost:
+          part.totalCost ?? (part.unitCost !== undefined ? part.unitCost * quantity : undefined),
+        inStock: part.inStock ?? false,
+        supplier: part.supplier,
+        leadTime: part.leadTime,
+        specifications: part.specifications,
+      }
+    })
+  }
+
+  private normalizeChecklist(items: Partial<ChecklistItem>[] = []): ChecklistItem[] {
+    return items.map((item, index) => {
+      if (!item.description) {
+        throw new ValidationError('Each checklist item requires a description')
+      }
+      return {
+        id: item.id || uuidv4(),
+        description: item.description,
+        required: item.required ?? true,
+        completed: false,
+        notes: item.notes,
+        order: item.order ?? index + 1,
+      }
+    })
+  }
+
+  /**
+   * Insert or update a task, a recurring series holds one task per scheduled date
+   */
+  private async writeTask(text: string, params: any[]) {
+    try {
+      return await query(text, params)
+    } catch (error: any) {
+      if (error.code === '23505') {
+        throw new ConflictError('The recurring series already has a task scheduled at this time')
+      }
+      throw error
+    }
+  }
+
+  private validateRecurrenceRule(rule?: RecurrenceRule): void {
+    if (!rule) {
+      throw new ValidationError('Recurring tasks require a recurrence rule')
+    }
+    this.validateEnum('recurrenceRule.frequency', rule.frequency, RecurrenceFrequency)
+    if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+      throw new ValidationError('Recurrence interval must be a positive integer')
+    }
+  }
+
+  private validateEnum(field: string, value: string, enumObject: Record<string, string>): void {
+    const validValues = Object.values(enumObject)
+    if (!validValues.includes(value)) {
+      throw new ValidationError(`Invalid ${field}. Must be one of: ${validValues.join(', ')}`)
+    }
+  }
+
+  private parseDate(field: string, value: Date | string): Date {
+    const date = new Date(value)
+    if (isNaN(date.getTime())) {
+      throw new ValidationError(`Invalid ${field} date`)
+    }
+    return date
+  }
+
+  private parseJson<T>(value: any, fallback: T): T {
+    if (value === null || value === undefined) {
+      return fallback
+    }
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value)
+      } catch {
+        return fallback
+      }
+    }
+    return value
+  }
+
+  /**
+   * Broadcast a task summary on the organization's maintenance channel, notes (some of them
+   * private), parts and costs are read through the API
+   */
+  broadcastTaskEvent(event: string, task: MaintenanceTask): void {
+    try {
+      const wsService = getWebSocketService()
+      wsService.broadcastToChannel(`org:${task.organizationId}:maintenance`, {
+        event,
+        robotId: task.robotId,
+        organizationId: task.organizationId,
+        task: {
+          id: task.id,
+          robotId: task.robotId,
+          type: task.type,
+          priority: task.priority,
+          status: task.status,
+          title: task.title,
+          scheduledAt: task.scheduledAt,
+          dueDate: task.dueDate,
+          startedAt: task.startedAt,
+          completedAt: task.completedAt,
+          assignedTo: task.assignedTo,
+          updatedAt: task.updatedAt,
+        },
+        timestamp: new Date(),
+      })
+    } catch (error) {
+      logger.warn('Failed to broadcast maintenance task event', {
+        taskId: task.id,
+        event,
+        error: (error as Error).message,
+      })
+    }
+  }
+}
+
+export const maintenanceService = new MaintenanceService()
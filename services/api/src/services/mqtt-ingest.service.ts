@@ -0,0 +1,597 @@
+import mqtt, { MqttClient } from 'mqtt'
+import Long from 'long'
+import { get as getSparkplug } from 'sparkplug-payload'
+import type { UMetric, UPayload } from 'sparkplug-payload/lib/sparkplugbpayload'
+import { query } from '../config/database'
+import { logger } from '../config/logger'
+import { telemetryService } from './telemetry.service'
+import { robotService } from './robot.service'
+import { getWebSocketService } from './websocket.service'
+import { RobotStatus, TelemetryData } from '@urfmp/types'
+
+export interface MqttIngestOptions {
+  // Broker URL, e.g. mqtt://localhost:1883, ingest stays off without one
+  url?: string
+  topics: string[]
+  clientId: string
+  username?: string
+  password?: string
+  // How long the robot mappings are used before they are read again
+  mappingRefreshMs: number
+}
+
+/**
+ * How a robot's configuration.mqtt ties it to MQTT messages. Plain topics carry JSON objects,
+ * Sparkplug devices are named by group, edge node and, for devices behind a node, device id.
+ */
+export interface RobotMqttMapping {
+  topic?: string
+  sparkplug?: {
+    groupId: string
+    edgeNodeId: string
+    deviceId?: string
+  }
+  // Metric name to TelemetryData path, e.g. { 'Battery/Voltage': 'voltage.supply' }
+  metrics?: Record<string, string>
+}
+
+interface MappedRobot {
+  robotId: string
+  organizationId: string
+  mapping: RobotMqttMapping
+}
+
+interface RobotIndex {
+  byTopic: Map<string, MappedRobot>
+  bySparkplug: Map<string, MappedRobot> // By group/edge node[/device] key
+}
+
+interface SparkplugTopic {
+  groupId: string
+  messageType: string
+  edgeNodeId: string
+  deviceId?: string
+}
+
+// What the ingest knows about an edge node between its birth and death
+interface SparkplugNode {
+  bdSeq?: number
+  seq: number
+  aliases: Map<string, string> // By node or device key and alias
+  values: Map<string, Record<string, unknown>> // Latest metric values by node or device key
+  devices: Set<string>
+  // A sequence gap or data without birth, data is ignored until the node is born again
+  stale: boolean
+}
+
+const SPARKPLUG_NAMESPACE = 'spBv1.0'
+
+// Sparkplug control and bookkeeping metrics, not telemetry
+const CONTROL_METRIC = /^(bdSeq$|Node Control\/|Device Control\/|Properties\/)/
+
+const TELEMETRY_FIELDS = new Set([
+  'position',
+  'gpsPosition',
+  'jointAngles',
+  'velocity',
+  'acceleration',
+  'force',
+  'torque',
+  'temperature',
+  'voltage',
+  'current',
+  'power',
+  'programState',
+  'toolData',
+  'safety',
+  'navigation',
+  'custom',
+])
+
+const UNSAFE_PATH_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype'])
+
+const sparkplug = getSparkplug(SPARKPLUG_NAMESPACE)!
+
+/**
+ * Subscribes to MQTT topics and feeds robot metrics into telemetry ingestion, for robots and
+ * PLCs that already publish to a broker. Understands Sparkplug B births, data and deaths as
+ * well as plain JSON payloads.
+ */
+export class MqttIngestService {
+  private client?: MqttClient
+  private readonly options: MqttIngestOptions
+  private nodes = new Map<string, SparkplugNode>() // By group and edge node id
+  private robots?: RobotIndex
+  private robotsLoadedAt = 0
+
+  constructor(options: Partial<MqttIngestOptions> = {}) {
+    this.options = {
+      url: options.url ?? process.env.MQTT_URL,
+      topics:
+        options.topics ??
+        (process.env.MQTT_TOPICS || `${SPARKPLUG_NAMESPACE}/#`)
+          .split(',')
+          .map((topic) => topic.trim())
+          .filter(Boolean),
+      clientId: options.clientId ?? process.env.MQTT_CLIENT_ID ?? `urfmp-ingest-${process.pid}`,
+      username: options.username ?? process.env.MQTT_USERNAME,
+      password: options.password ?? process.env.MQTT_PASSWORD,
+      mappingRefreshMs:
+        options.mappingRefreshMs ?? parseInt(process.env.MQTT_MAPPING_REFRESH_MS || '60000'),
+    }
+  }
+
+  isEnabled(): boolean {
+    return Boolean(this.options.url)
+  }
+
+  /**
+   * Connect to the broker and subscribe to the configured topics
+   */
+  start(): void {
+    if (this.client || !this.options.url) {
+      return
+    }
+
+    const client = mqtt.connect(this.options.url, {
+      clientId: this.options.clientId,
+      username: this.options.username,
+      password: this.options.password,
+      reconnectPeriod: 5000,
+    })
+
+    client.on('connect', () => {
+      // Births sent while we were away are lost, nodes are asked again when their data arrives
+      this.nodes.clear()
+      client.subscribe(this.options.topics, { qos: 1 }, (error) => {
+        if (error) {
+          logger.error('MQTT subscribe failed', { error: error.message })
+        } else {
+          logger.info('MQTT ingest subscribed', { topics: this.options.topics })
+        }
+      })
+    })
+
+    client.on('message', (topic, payload) => {
+      this.handleMessage(topic, payload).catch((error) => {
+        logger.warn('MQTT message ingest failed', { topic, error: (error as Error).message })
+      })
+    })
+
+    client.on('error', (error) => {
+      logger.error('MQTT connection error', { error: error.message })
+    })
+
+    this.client = client
+  }
+
+  /**
+   * Disconnect from the broker
+   */
+  async stop(): Promise<void> {
+    if (this.client) {
+      const client = this.client
+      this.client = undefined
+      await client.endAsync()
+    }
+    this.nodes.clear()
+  }
+
+  /**
+   * Build telemetry from metric values, named by TelemetryData path or mapped by the robot
+   */
+  private toTelemetryData(robot: MappedRobot, values: Record<string, unknown>): TelemetryData {
+    const data: Record<string, any> = {}
+
+    for (const [name, value] of Object.entries(values)) {
+      const keys = this.metricPath(robot, name).split('.')
+      // Metric names come from publishers, none of them may reach an object prototype
+      if (keys.some((key) => UNSAFE_PATH_SEGMENTS.has(key))) {
+        logger.warn('MQTT metric name rejected', { robotId: robot.robotId, name })
+        continue
+      }
+      let target = data
+      for (const key of keys.slice(0, -1)) {
+        target = target[key] ??= {}
+      }
+      target[keys[keys.length - 1]] = value
+    }
+
+    return data
+  }
+
+  private async handleMessage(topic: string, payload: Buffer): Promise<void> {
+    if (topic.startsWith(`${SPARKPLUG_NAMESPACE}/`)) {
+      await this.handleSparkplug(topic, payload)
+    } else {
+      await this.handleJson(topic, payload)
+    }
+  }
+
+  private async handleJson(topic: string, payload: Buffer): Promise<void> {
+    const robot = (await this.getRobots()).byTopic.get(topic)
+    if (!robot) {
+      logger.debug('MQTT message for no robot', { topic })
+      return
+    }
+
+    let message: Record<string, any>
+    try {
+      message = JSON.parse(payload.toString())
+    } catch {
+      logger.warn('MQTT payload is not JSON', { topic })
+      return
+    }
+    if (!message || typeof message !== 'object' || Array.isArray(message)) {
+      logger.warn('MQTT payload is not a JSON object', { topic })
+      return
+    }
+
+    // Either the body of POST /telemetry or a flat object of metrics
+    const { timestamp, data, ...metrics } = message
+    const values = data && typeof data === 'object' ? data : metrics
+    await this.ingest(robot, values, timestamp ? new Date(timestamp) : new Date())
+  }
+
+  private async handleSparkplug(topic: string, payload: Buffer): Promise<void> {
+    const parsed = this.parseSparkplugTopic(topic)
+    if (!parsed) {
+      return
+    }
+
+    const { groupId, messageType, edgeNodeId, deviceId } = parsed
+    const nodeKey = `${groupId}/${edgeNodeId}`
+    const key = deviceId ? `${nodeKey}/${deviceId}` : nodeKey
+
+    let decoded: UPayload
+    try {
+      decoded = sparkplug.decodePayload(new Uint8Array(payload))
+    } catch (error) {
+      logger.warn('Invalid Sparkplug payload', { topic, error: (error as Error).message })
+      return
+    }
+
+    const timestamp = decoded.timestamp ? new Date(this.toNumber(decoded.timestamp)) : new Date()
+    const seq = decoded.seq !== undefined && decoded.seq !== null ? this.toNumber(decoded.seq) : 0
+    const metrics = decoded.metrics ?? []
+
+    switch (messageType) {
+      case 'NBIRTH': {
+        const bdSeq = metrics.find((metric) => metric.name === 'bdSeq')
+        this.nodes.set(nodeKey, {
+          bdSeq: bdSeq ? (this.metricValue(bdSeq) as number) : undefined,
+          seq,
+          aliases: new Map(),
+          values: new Map(),
+          devices: new Set(),
+          stale: false,
+        })
+        await this.handleBirth(nodeKey, key, metrics, timestamp)
+        break
+      }
+
+      case 'DBIRTH': {
+        const node = this.acceptSequenced(parsed, nodeKey, seq)
+        if (node) {
+          node.devices.add(key)
+          await this.handleBirth(nodeKey, key, metrics, timestamp)
+        }
+        break
+      }
+
+      case 'NDATA':
+      case 'DDATA': {
+        const node = this.acceptSequenced(parsed, nodeKey, seq)
+        if (node) {
+          await this.handleData(node, key, metrics, timestamp)
+        }
+        break
+      }
+
+      case 'DDEATH': {
+        const node = this.acceptSequenced(parsed, nodeKey, seq)
+        node?.devices.delete(key)
+        node?.values.delete(key)
+        await this.markOffline([key])
+        break
+      }
+
+      case 'NDEATH': {
+        const node = this.nodes.get(nodeKey)
+        // The broker publishes the will of a session the node has already replaced
+        const bdSeq = metrics.find((metric) => metric.name === 'bdSeq')
+        if (node?.bdSeq !== undefined && bdSeq && this.metricValue(bdSeq) !== node.bdSeq) {
+          logger.debug('Stale Sparkplug death certificate', { topic })
+          return
+        }
+        this.nodes.delete(nodeKey)
+        await this.markOffline([nodeKey, ...(node?.devices ?? [])], nodeKey)
+        break
+      }
+
+      // Commands and host state are for the nodes, not telemetry
+      default:
+        break
+    }
+  }
+
+  private async handleBirth(
+    nodeKey: string,
+    key: string,
+    metrics: UMetric[],
+    timestamp: Date
+  ): Promise<void> {
+    const node = this.nodes.get(nodeKey)!
+    const values: Record<string, unknown> = {}
+
+    for (const metric of metrics) {
+      if (!metric.name || CONTROL_METRIC.test(metric.name)) {
+        continue
+      }
+      if (metric.alias !== undefined && metric.alias !== null) {
+        node.aliases.set(`${key}#${this.toNumber(metric.alias)}`, metric.name)
+      }
+      const value = this.metricValue(metric)
+      if (value !== undefined) {
+        values[metric.name] = value
+      }
+    }
+    node.values.set(key, values)
+
+    const robot = (await this.getRobots()).bySparkplug.get(key)
+    if (!robot) {
+      logger.debug('Sparkplug birth for no robot', { key })
+      return
+    }
+
+    await this.setStatus(robot, RobotStatus.ONLINE)
+    if (Object.keys(values).length > 0) {
+      await this.ingest(robot, values, timestamp)
+    }
+  }
+
+  private async handleData(
+    node: SparkplugNode,
+    key: string,
+    metrics: UMetric[],
+    timestamp: Date
+  ): Promise<void> {
+    const known = node.values.get(key)
+    if (!known) {
+      // Device data without its birth
+      return
+    }
+
+    const changed: string[] = []
+    for (const metric of metrics) {
+      const name =
+        metric.name ||
+        (metric.alias !== undefined && metric.alias !== null
+          ? node.aliases.get(`${key}#${this.toNumber(metric.alias)}`)
+          : undefined)
+      const value = this.metricValue(metric)
+      if (!name || CONTROL_METRIC.test(name) || value === undefined) {
+        continue
+      }
+      known[name] = value
+      changed.push(name)
+    }
+
+    const robot = (await this.getRobots()).bySparkplug.get(key)
+    if (!robot || changed.length === 0) {
+      return
+    }
+
+    // Data reports changes only, siblings of a changed value come from earlier messages so that
+    // e.g. a position keeps all three axes
+    const group = (name: string) => this.metricPath(robot, name).split('.')[0]
+    const groups = new Set(changed.map(group))
+    const values = Object.fromEntries(
+      Object.entries(known).filter(([name]) => groups.has(group(name)))
+    )
+    await this.ingest(robot, values, timestamp)
+  }
+
+  /**
+   * Check the sequence number of a node message, returns the node when its data can be used
+   */
+  private acceptSequenced(
+    topic: SparkplugTopic,
+    nodeKey: string,
+    seq: number
+  ): SparkplugNode | undefined {
+    const node = this.nodes.get(nodeKey)
+
+    if (!node || node.stale) {
+      if (!node) {
+        this.requestRebirth(topic, 'data before birth')
+        this.nodes.set(nodeKey, {
+          seq,
+          aliases: new Map(),
+          values: new Map(),
+          devices: new Set(),
+          stale: true,
+        })
+      }
+      return undefined
+    }
+
+    const expected = (node.seq + 1) % 256
+    if (seq !== expected) {
+      node.stale = true
+      this.requestRebirth(topic, `sequence ${seq}, expected ${expected}`)
+      return undefined
+    }
+
+    node.seq = seq
+    return node
+  }
+
+  private requestRebirth({ groupId, edgeNodeId }: SparkplugTopic, reason: string): void {
+    logger.info('Requesting Sparkplug rebirth', { groupId, edgeNodeId, reason })
+    const payload = sparkplug.encodePayload({
+      timestamp: Date.now(),
+      metrics: [{ name: 'Node Control/Rebirth', type: 'Boolean', value: true }],
+    })
+    this.client?.publish(
+      `${SPARKPLUG_NAMESPACE}/${groupId}/NCMD/${edgeNodeId}`,
+      Buffer.from(payload)
+    )
+  }
+
+  private async ingest(
+    robot: MappedRobot,
+    values: Record<string, unknown>,
+    timestamp: Date
+  ): Promise<void> {
+    const { robotId, organizationId } = robot
+    const telemetryRecord = await telemetryService.ingestTelemetry({
+      robotId,
+      organizationId,
+      data: this.toTelemetryData(robot, values),
+      timestamp,
+    })
+
+    try {
+      const wsService = getWebSocketService()
+      wsService.broadcastToChannel(`robot:${robotId}`, {
+        event: 'robot:telemetry_update',
+        robotId,
+        organizationId,
+        telemetry: telemetryRecord,
+        timestamp: new Date(),
+      })
+    } catch (error) {
+      logger.warn('Failed to broadcast telemetry update', {
+        robotId,
+        error: (error as Error).message,
+      })
+    }
+  }
+
+  /**
+   * Mark the robots of Sparkplug node or device keys offline, a node prefix covers every device
+   * mapped behind the node, including those whose birth was missed
+   */
+  private async markOffline(keys: string[], nodePrefix?: string): Promise<void> {
+    const { bySparkplug } = await this.getRobots()
+    const robots = new Set<MappedRobot>()
+
+    for (const [key, robot] of bySparkplug) {
+      if (keys.includes(key) || (nodePrefix && key.startsWith(`${nodePrefix}/`))) {
+        robots.add(robot)
+      }
+    }
+
+    for (const robot of robots) {
+      await this.setStatus(robot, RobotStatus.OFFLINE)
+    }
+  }
+
+  private async setStatus(robot: MappedRobot, status: RobotStatus): Promise<void> {
+    try {
+      await robotService.updateRobot(robot.robotId, robot.organizationId, { status })
+      logger.info('Robot status set from MQTT', { robotId: robot.robotId, status })
+    } catch (error) {
+      logger.warn('Failed to update robot status', {
+        robotId: robot.robotId,
+        status,
+        error: (error as Error).message,
+      })
+    }
+  }
+
+  private async getRobots(): Promise<RobotIndex> {
+    if (this.robots && Date.now() - this.robotsLoadedAt < this.options.mappingRefreshMs) {
+      return this.robots
+    }
+
+    const result = await query(
+      `SELECT id, organization_id, configuration->'mqtt' AS mqtt
+       FROM robots
+       WHERE is_active = true AND configuration ? 'mqtt'`
+    )
+
+    const byTopic = new Map<string, MappedRobot>()
+    const bySparkplug = new Map<string, MappedRobot>()
+    // Claims shared across organizations are ambiguous and ingested for no one, saving a robot
+    // rejects them but rows from before that check may still disagree
+    const owners = new Map<string, string>()
+    const disputed = new Set<string>()
+    const claim = (owner: string, organizationId: string) => {
+      if ((owners.get(owner) ?? organizationId) !== organizationId) {
+        disputed.add(owner)
+      }
+      owners.set(owner, organizationId)
+    }
+
+    for (const row of result.rows) {
+      const mapping: RobotMqttMapping = row.mqtt ?? {}
+      const robot = { robotId: row.id, organizationId: row.organization_id, mapping }
+      if (mapping.topic) {
+        claim(`topic:${mapping.topic}`, robot.organizationId)
+        byTopic.set(mapping.topic, robot)
+      }
+      if (mapping.sparkplug?.groupId && mapping.sparkplug.edgeNodeId) {
+        const { groupId, edgeNodeId, deviceId } = mapping.sparkplug
+        claim(`node:${groupId}/${edgeNodeId}`, robot.organizationId)
+        bySparkplug.set([groupId, edgeNodeId, deviceId].filter(Boolean).join('/'), robot)
+      }
+    }
+
+    for (const owner of disputed) {
+      logger.warn('MQTT mapping claimed by several organizations, ignoring it', { owner })
+      if (owner.startsWith('topic:')) {
+        byTopic.delete(owner.slice('topic:'.length))
+      } else {
+        const nodeKey = owner.slice('node:'.length)
+        for (const key of bySparkplug.keys()) {
+          if (key === nodeKey || key.startsWith(`${nodeKey}/`)) {
+            bySparkplug.delete(key)
+          }
+        }
+      }
+    }
+
+    this.robots = { byTopic, bySparkplug }
+    this.robotsLoadedAt = Date.now()
+    return this.robots
+  }
+
+  private parseSparkplugTopic(topic: string): SparkplugTopic | undefined {
+    const [, groupId, messageType, edgeNodeId, deviceId, ...rest] = topic.split('/')
+    if (!groupId || !messageType || !edgeNodeId || rest.length > 0) {
+      return undefined
+    }
+    return { groupId, messageType, edgeNodeId, deviceId }
+  }
+
+  // Metric names are TelemetryData paths with / or . separators unless the robot maps them,
+  // anything else is custom
+  private metricPath(robot: MappedRobot, name: string): string {
+    const mapped = robot.mapping.metrics?.[name]
+    if (mapped) {
+      return mapped
+    }
+    const path = name.replace(/\//g, '.')
+    return TELEMETRY_FIELDS.has(path.split('.')[0]) ? path : `custom.${name}`
+  }
+
+  private metricValue(metric: UMetric): unknown {
+    const { value } = metric
+    if (metric.isNull || value === null || value === undefined) {
+      return undefined
+    }
+    if (Long.isLong(value)) {
+      return value.toNumber()
+    }
+    // Data sets, templates and bytes have no place in telemetry
+    return ['number', 'boolean', 'string'].includes(typeof value) ? value : undefined
+  }
+
+  private toNumber(value: number | Long): number {
+    return Long.isLong(value) ? value.toNumber() : Number(value)
+  }
+}
+
+export const mqttIngestService = new MqttIngestService()
@@ -0,0 +1,694 @@
+import { v4 as uuidv4 } from 'uuid'
+import { isIP } from 'net'
+import { query } from '../config/database'
+import { logger } from '../config/logger'
+import { cache, getRedis } from '../config/redis'
+import { publishEvent } from '../config/rabbitmq'
+import {
+  Organization,
+  OrganizationSettings,
+  OrganizationLimits,
+  OrganizationUsage,
+  UsageMetrics,
+  UsageQuota,
+  QuotaResource,
+  SubscriptionPlan,
+  NotificationSettings,
+  TelemetryRetention,
+  UpdateOrganizationSettingsRequest,
+  BillingInfo,
+  WebhookEvent,
+  Event,
+  EventType,
+  EventSource,
+  EventSeverity,
+} from '@urfmp/types'
+import {
+  ValidationError,
+  NotFoundError,
+  FeatureNotAvailableError,
+} from '../middleware/error.middleware'
+
+const UNLIMITED = -1
+
+export const PLAN_LIMITS: Record<SubscriptionPlan, OrganizationLimits> = {
+  [SubscriptionPlan.FREE]: {
+    maxRobots: 3,
+    maxUsers: 3,
+    maxApiCallsPerMonth: 10000,
+    maxDataPointsPerMonth: 1000000,
+    maxDataRetentionDays: 7,
+    maxWebhookEndpoints: 0,
+    maxCustomIntegrations: 0,
+    features: {
+      realTimeMonitoring: true,
+      historicalAnalytics: false,
+      predictiveMaintenance: false,
+      customDashboards: false,
+      apiAccess: true,
+      webhookSupport: false,
+      ssoIntegration: false,
+      prioritySupport: false,
+      customIntegrations: false,
+      whiteLabeling: false,
+    },
+  },
+  [SubscriptionPlan.STARTER]: {
+    maxRobots: 10,
+    maxUsers: 10,
+    maxApiCallsPerMonth: 100000,
+    maxDataPointsPerMonth: 10000000,
+    maxDataRetentionDays: 30,
+    maxWebhookEndpoints: 2,
+    maxCustomIntegrations: 0,
+    features: {
+      realTimeMonitoring: true,
+      historicalAnalytics: true,
+      predictiveMaintenance: false,
+      customDashboards: false,
+      apiAccess: true,
+      webhookSupport: true,
+      ssoIntegration: false,
+      prioritySupport: false,
+      customIntegrations: false,
+      whiteLabeling: false,
+    },
+  },
+  [SubscriptionPlan.PROFESSIONAL]: {
+    maxRobots: 50,
+    maxUsers: 50,
+    maxApiCallsPerMonth: 1000000,
+    maxDataPointsPerMonth: 100000000,
+    maxDataRetentionDays: 365,
+    maxWebhookEndpoints: 10,
+    maxCustomIntegrations: 5,
+    features: {
+      realTimeMonitoring: true,
+      historicalAnalytics: true,
+      predictiveMaintenance: true,
+      customDashboards: true,
+      apiAccess: true,
+      webhookSupport: true,
+      ssoIntegration: false,
+      prioritySupport: true,
+      customIntegrations: true,
+      whiteLabeling: false,
+    },
+  },
+  [SubscriptionPlan.ENTERPRISE]: {
+    maxRobots: UNLIMITED,
+    maxUsers: UNLIMITED,
+    maxApiCallsPerMonth: UNLIMITED,
+    maxDataPointsPerMonth: UNLIMITED,
+    maxDataRetentionDays: UNLIMITED,
+    maxWebhookEndpoints: UNLIMITED,
+    maxCustomIntegrations: UNLIMITED,
+    features: {
+      realTimeMonitoring: true,
+      historicalAnalytics: true,
+      predictiveMaintenance: true,
+      customDashboards: true,
+      apiAccess: true,
+      webhookSupport: true,
+      ssoIntegration: true,
+      prioritySupport: true,
+      customIntegrations: true,
+      whiteLabeling: true,
+    },
+  },
+  // Custom contracts start from enterprise and are narrowed through limit overrides
+  [SubscriptionPlan.CUSTOM]: {
+    maxRobots: UNLIMITED,
+    maxUsers: UNLIMITED,
+    maxApiCallsPerMonth: UNLIMITED,
+    maxDataPointsPerMonth: UNLIMITED,
+    maxDataRetentionDays: UNLIMITED,
+    maxWebhookEndpoints: UNLIMITED,
+    maxCustomIntegrations: UNLIMITED,
+    features: {
+      realTimeMonitoring: true,
+      historicalAnalytics: true,
+      predictiveMaintenance: true,
+      customDashboards: true,
+      apiAccess: true,
+      webhookSupport: true,
+      ssoIntegration: true,
+      prioritySupport: true,
+      customIntegrations: true,
+      whiteLabeling: true,
+    },
+  },
+}
+
+export const DEFAULT_ORGANIZATION_SETTINGS: OrganizationSettings = {
+  timezone: 'UTC',
+  currency: 'USD',
+  language: 'en',
+  dateFormat: 'YYYY-MM-DD',
+  telemetryRetention: {
+    raw: '30d',
+    aggregated: '1y',
+    events: '90d',
+  },
+  notifications: {
+    email: { enabled: false, alertEmails: [], reportEmails: [], maintenanceEmails: [] },
+    webhook: { enabled: false, events: [] },
+    slack: { enabled: false },
+    teams: { enabled: false },
+  },
+  security: {
+    mfaRequired: false,
+    sessionTimeout: 480,
+    ipWhitelist: [],
+    apiKeyRotation: false,
+    auditLogging: true,
+  },
+  integrations: {
+    erp: { enabled: false },
+    mes: { enabled: false },
+    scada: { enabled: false },
+    custom: [],
+  },
+}
+
+// Placeholder returned instead of stored secrets, echoing it back keeps the secret
+export const SECRET_MASK = '********'
+
+// Rough on-disk size of one compressed telemetry row, used for storage estimates
+const TELEMETRY_ROW_BYTES = 48
+
+const API_CALL_KEY_TTL_SECONDS = 40 * 24 * 60 * 60
+const USAGE_CACHE_TTL_SECONDS = 300
+
+const RETENTION_PATTERN = /^(\d+)([dwmy])$/
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const CURRENCY_PATTERN = /^[A-Z]{3}$/
+
+/**
+ * Convert a retention string such as "30d", "6m" or "forever" into days,
+ * returning null for unlimited retention
+ */
+export function parseRetentionDays(value: string): number | null {
+  if (value === 'forever') {
+    return null
+  }
+
+  const match = RETENTION_PATTERN.exec(value)
+  if (!match) {
+    throw new ValidationError(
+      `Invalid retention period: ${value}. Use a number followed by d, w, m or y, or "forever"`
+    )
+  }
+
+  const amount = parseInt(match[1])
+  const multiplier = { d: 1, w: 7, m: 30, y: 365 }[match[2] as 'd' | 'w' | 'm' | 'y']
+  return amount * multiplier
+}
+
+export class OrganizationService {
+  /**
+   * Get an organization with its effective settings, limits and current usage
+   */
+  async getOrganization(organizationId: string): Promise<Organization> {
+    const row = await this.getOrganizationRow(organizationId)
+    const organization = this.mapOrganization(row)
+    organization.billing.usageThisMonth = await this.getUsageMetrics(organizationId)
+    return organization
+  }
+
+  /**
+   * Get the plan and effective limits for an organization, plan defaults merged with overrides
+   */
+  async getEffectiveLimits(
+    organizationId: string
+  ): Promise<{ plan: SubscriptionPlan; limits: OrganizationLimits }> {
+    const row = await this.getOrganizationRow(organizationId)
+    return { plan: row.plan, limits: this.resolveLimits(row.plan, row.limits) }
+  }
+
+  /**
+   * Get the telemetry retention windows for an organization, defaults merged with its settings.
+   * Raw and event windows are capped at the plan's data retention limit, which defaults and
+   * windows kept from a larger plan may exceed
+   */
+  async getTelemetryRetention(organizationId: string): Promise<TelemetryRetention> {
+    const row = await this.getOrganizationRow(organizationId)
+    const settings = this.parseJson<Partial<OrganizationSettings>>(row.settings, {})
+    const retention = {
+      ...DEFAULT_ORGANIZATION_SETTINGS.telemetryRetention,
+      ...settings.telemetryRetention,
+    }
+
+    const maxDays = this.resolveLimits(row.plan, row.limits).maxDataRetentionDays
+    if (maxDays === UNLIMITED) {
+      return retention
+    }
+
+    return {
+      ...retention,
+      raw: this.capRetention(retention.raw, maxDays),
+      events: this.capRetention(retention.events, maxDays),
+    }
+  }
+
+  /**
+   * Update organization settings, merging the request into the stored settings
+   */
+  async updateSettings(
+    organizationId: string,
+    userId: string,
+    request: UpdateOrganizationSettingsRequest
+  ): Promise<OrganizationSettings> {
+    const row = await this.getOrganizationRow(organizationId)
+    const limits = this.resolveLimits(row.plan, row.limits)
+    const current = this.mergeSettings(
+      DEFAULT_ORGANIZATION_SETTINGS,
+      this.parseJson(row.settings, {})
+    )
+
+    this.validateSettings(request, limits)
+
+    if (request.notifications?.webhook?.enabled && !limits.features.webhookSupport) {
+      throw new FeatureNotAvailableError(
+        `Webhook notifications are not included in the ${row.plan} plan`,
+        { plan: row.plan, feature: 'webhookSupport' }
+      )
+    }
+    const settings = this.mergeSettings(current, request)
+
+    const result = await query(
+      `UPDATE organizations
+       SET settings = $2, updated_at = NOW()
+       WHERE id = $1
+       RETURNING id, settings`,
+      [organizationId, JSON.stringify(settings)]
+    )
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Organization not found')
+    }
+
+    logger.info('Organization settings updated', {
+      organizationId,
+      userId,
+      sections: Object.keys(request),
+    })
+
+    await this.emitSettingsUpdated(organizationId, userId, Object.keys(request))
+
+    return this.maskSecrets(settings)
+  }
+
+  /**
+   * Get usage for the current billing period against the organization limits
+   */
+  async getUsage(organizationId: string): Promise<OrganizationUsage> {
+    const row = await this.getOrganizationRow(organizationId)
+    const limits = this.resolveLimits(row.plan, row.limits)
+    const usage = await this.getUsageMetrics(organizationId)
+    const { start, end } = this.getBillingPeriod()
+
+    return {
+      organizationId,
+      plan: row.plan,
+      periodStart: start,
+      periodEnd: end,
+      usage,
+      quotas: [
+        this.buildQuota(QuotaResource.ROBOTS, usage.robotCount, limits.maxRobots),
+        this.buildQuota(QuotaResource.USERS, usage.userCount, limits.maxUsers),
+        this.buildQuota(QuotaResource.API_CALLS, usage.apiCalls, limits.maxApiCallsPerMonth),
+        this.buildQuota(QuotaResource.DATA_POINTS, usage.dataPoints, limits.maxDataPointsPerMonth),
+      ],
+    }
+  }
+
+  /**
+   * Count an authenticated API call against the organization's monthly allowance
+   */
+  async recordApiCall(organizationId: string): Promise<void> {
+    const key = this.getApiCallKey(organizationId)
+
+    try {
+      await getRedis().multi().incr(key).expire(key, API_CALL_KEY_TTL_SECONDS).exec()
+    } catch (error) {
+      logger.warn('Failed to record API call usage', {
+        organizationId,
+        error: (error as Error).message,
+      })
+    }
+  }
+
+  /**
+   * Get the number of API calls made by an organization in the current month
+   */
+  async getApiCallCount(organizationId: string): Promise<number> {
+    try {
+      const value = await getRedis().get(this.getApiCallKey(organizationId))
+      return parseInt(value || '0') || 0
+    } catch (error) {
+      logger.warn('Failed to read API call usage', {
+        organizationId,
+        error: (error as Error).message,
+      })
+      return 0
+    }
+  }
+
+  private async getUsageMetrics(organizationId: string): Promise<UsageMetrics> {
+    const { start } = this.getBillingPeriod()
+
+    const countsResult = await query(
+      `SELECT
+         (SELECT COUNT(*) FROM robots
+          WHERE organization_id = $1 AND COALESCE(is_active, true)) AS robot_count,
+         (SELECT COUNT(*) FROM users
+          WHERE organization_id = $1 AND COALESCE(is_active, true)) AS user_count`,
+      [organizationId]
+    )
+
+    const counts = countsResult.rows[0] || {}
+    const telemetry = await this.getTelemetryCounts(organizationId, start)
+    const totalPoints = parseInt(telemetry.total_points || '0')
+
+    return {
+      robotCount: parseInt(counts.robot_count || '0'),
+      userCount: parseInt(counts.user_count || '0'),
+      apiCalls: await this.getApiCallCount(organizationId),
+      dataPoints: parseInt(telemetry.period_points || '0'),
+      webhookDeliveries: 0,
+      storageUsedGB: Math.round(((totalPoints * TELEMETRY_ROW_BYTES) / 1024 ** 3) * 1000) / 1000,
+    }
+  }
+
+  /**
+   * Count the organization's telemetry rows. The scan covers the whole hypertable, so the
+   * result is cached for a few minutes instead of running on every read.
+   */
+  private async getTelemetryCounts(
+    organizationId: string,
+    periodStart: Date
+  ): Promise<{ period_points?: string; total_points?: string }> {
+    const key = `usage:telemetry:${organizationId}:${periodStart.toISOString().slice(0, 7)}`
+    const cached = await cache.get(key)
+    if (cached) {
+      return cached
+    }
+
+    const result = await query(
+      `SELECT COUNT(*) FILTER (WHERE t.time >= $2) AS period_points,
+              COUNT(*) AS total_points
+       FROM robot_telemetry t
+       JOIN robots r ON r.id = t.robot_id
+       WHERE r.organization_id = $1`,
+      [organizationId, periodStart]
+    )
+
+    const counts = result.rows[0] || {}
+    await cache.set(key, counts, USAGE_CACHE_TTL_SECONDS)
+    return counts
+  }
+
+  private async getOrganizationRow(organizationId: string): Promise<any> {
+    const result = await query(
+      `SELECT id, name, slug, plan, settings, limits, billing, created_at, updated_at
+       FROM organizations WHERE id = $1`,
+      [organizationId]
+    )
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Organization not found')
+    }
+
+    return result.rows[0]
+  }
+
+  private mapOrganization(row: any): Organization {
+    const billing = this.parseJson<Partial<BillingInfo>>(row.billing, {})
+    const settings = this.mergeSettings(
+      DEFAULT_ORGANIZATION_SETTINGS,
+      this.parseJson(row.settings, {})
+    )
+
+    return {
+      id: row.id,
+      name: row.name,
+      slug: row.slug,
+      plan: row.plan,
+      settings: this.maskSecrets(settings),
+      limits: this.resolveLimits(row.plan, row.limits),
+      billing: {
+        ...billing,
+        billingEmail: billing.billingEmail || '',
+        usageThisMonth: billing.usageThisMonth as UsageMetrics,
+      },
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }
+  }
+
+  private resolveLimits(plan: SubscriptionPlan, overrides: any): OrganizationLimits {
+    const defaults = PLAN_LIMITS[plan] || PLAN_LIMITS[SubscriptionPlan.FREE]
+    const custom = this.parseJson<Partial<OrganizationLimits>>(overrides, {})
+
+    return {
+      ...defaults,
+      ...custom,
+      features: { ...defaults.features, ...(custom.features || {}) },
+    }
+  }
+
+  private mergeSettings(
+    base: OrganizationSettings,
+    update: UpdateOrganizationSettingsRequest | Partial<OrganizationSettings>
+  ): OrganizationSettings {
+    const notifications = (update.notifications || {}) as Partial<NotificationSettings>
+
+    // Only known fields are copied so arbitrary request keys never reach the stored settings
+    return {
+      timezone: update.timezone ?? base.timezone,
+      currency: update.currency ?? base.currency,
+      language: update.language ?? base.language,
+      dateFormat: update.dateFormat ?? base.dateFormat,
+      telemetryRetention: { ...base.telemetryRetention, ...(update.telemetryRetention || {}) },
+      notifications: {
+        email: { ...base.notifications.email, ...(notifications.email || {}) },
+        webhook: {
+          ...base.notifications.webhook,
+          ...(notifications.webhook || {}),
+          // A missing or masked secret means the client left the stored secret untouched
+          secret: this.hasNewWebhookSecret(notifications.webhook)
+            ? notifications.webhook.secret
+            : base.notifications.webhook.secret,
+        },
+        slack: { ...base.notifications.slack, ...(notifications.slack || {}) },
+        teams: { ...base.notifications.teams, ...(notifications.teams || {}) },
+      },
+      security: { ...base.security, ...(update.security || {}) },
+      integrations: {
+        ...base.integrations,
+        ...((update as Partial<OrganizationSettings>).integrations || {}),
+      },
+    }
+  }
+
+  private capRetention(value: string, maxDays: number): string {
+    const days = parseRetentionDays(value)
+    return days === null || days > maxDays ? `${maxDays}d` : value
+  }
+
+  private hasNewWebhookSecret(
+    webhook: Partial<NotificationSettings['webhook']> | undefined
+  ): webhook is NotificationSettings['webhook'] {
+    return !!webhook && 'secret' in webhook && webhook.secret !== SECRET_MASK
+  }
+
+  private maskSecrets(settings: OrganizationSettings): OrganizationSettings {
+    if (!settings.notifications.webhook.secret) {
+      return settings
+    }
+
+    return {
+      ...settings,
+      notifications: {
+        ...settings.notifications,
+        webhook: { ...settings.notifications.webhook, secret: SECRET_MASK },
+      },
+    }
+  }
+
+  private validateSettings(
+    request: UpdateOrganizationSettingsRequest,
+    limits: OrganizationLimits
+  ): void {
+    if (request.timezone !== undefined) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: request.timezone })
+      } catch {
+        throw new ValidationError(`Invalid timezone: ${request.timezone}`)
+      }
+    }
+
+    if (request.currency !== undefined && !CURRENCY_PATTERN.test(request.currency)) {
+      throw new ValidationError('Currency must be a three-letter ISO 4217 code')
+    }
+
+    if (request.telemetryRetention) {
+      for (const field of ['raw', 'events'] as const) {
+        const value = request.telemetryRetention[field]
+        if (value === undefined) continue
+
+        const days = parseRetentionDays(value)
+        const maxDays = limits.maxDataRetentionDays
+        if (maxDays !== UNLIMITED && (days === null || days > maxDays)) {
+          throw new ValidationError(
+            `${field === 'raw' ? 'Raw telemetry' : 'Event'} retention exceeds the plan limit of ${maxDays} days`,
+            { field: `telemetryRetention.${field}`, limit: maxDays }
+          )
+        }
+      }
+
+      if (request.telemetryRetention.aggregated !== undefined) {
+        parseRetentionDays(request.telemetryRetention.aggregated)
+      }
+    }
+
+    if (request.security) {
+      const { sessionTimeout, ipWhitelist } = request.security
+
+      if (
+        sessionTimeout !== undefined &&
+        (!Number.isInteger(sessionTimeout) || sessionTimeout < 5 || sessionTimeout > 43200)
+      ) {
+        throw new ValidationError('Session timeout must be between 5 and 43200 minutes')
+      }
+
+      if (ipWhitelist !== undefined) {
+        if (!Array.isArray(ipWhitelist)) {
+          throw new ValidationError('IP whitelist must be an array')
+        }
+
+        const invalid = ipWhitelist.filter((entry) => !this.isValidIpOrCidr(entry))
+        if (invalid.length > 0) {
+          throw new ValidationError(`Invalid IP whitelist entries: ${invalid.join(', ')}`)
+        }
+      }
+    }
+
+    const notifications = request.notifications
+    if (notifications?.email) {
+      for (const field of ['alertEmails', 'reportEmails', 'maintenanceEmails'] as const) {
+        const emails = notifications.email[field]
+        if (emails === undefined) continue
+
+        if (!Array.isArray(emails) || emails.some((email) => !EMAIL_PATTERN.test(email))) {
+          throw new ValidationError(`Invalid email address in notifications.email.${field}`)
+        }
+      }
+    }
+
+    if (notifications?.webhook) {
+      const { url, events } = notifications.webhook
+      if (url !== undefined && !this.isHttpUrl(url)) {
+        throw new ValidationError('Webhook URL must be an http or https URL')
+      }
+
+      const validEvents = Object.values(WebhookEvent) as string[]
+      if (events !== undefined && events.some((event) => !validEvents.includes(event))) {
+        throw new ValidationError(
+          `Invalid webhook event. Must be one of: ${validEvents.join(', ')}`
+        )
+      }
+    }
+
+    for (const channel of ['slack', 'teams'] as const) {
+      const webhookUrl = notifications?.[channel]?.webhookUrl
+      if (webhookUrl !== undefined && !this.isHttpUrl(webhookUrl)) {
+        throw new ValidationError(`${channel} webhook URL must be an http or https URL`)
+      }
+    }
+  }
+
+  private buildQuota(resource: QuotaResource, used: number, limit: number): UsageQuota {
+    const unlimited = limit === UNLIMITED
+
+    return {
+      resource,
+      used,
+      limit,
+      percentage: unlimited || limit === 0 ? 0 : Math.round((used / limit) * 10000) / 100,
+      exceeded: !unlimited && used >= limit,
+    }
+  }
+
+  private async emitSettingsUpdated(
+    organizationId: string,
+    userId: string,
+    sections: string[]
+  ): Promise<void> {
+    const event: Event = {
+      id: uuidv4(),
+      type: EventType.ORGANIZATION_SETTINGS_UPDATED,
+      source: EventSource.API_SERVER,
+      organizationId,
+      userId,
+      severity: EventSeverity.INFO,
+      title: 'Organization settings updated',
+      description: `Updated organization settings: ${sections.join(', ')}`,
+      data: { sections },
+      metadata: { version: '1.0.0' },
+      timestamp: new Date(),
+    }
+
+    await publishEvent(event.type, event)
+  }
+
+  private getBillingPeriod(now: Date = new Date()): { start: Date; end: Date } {
+    return {
+      start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    }
+  }
+
+  private getApiCallKey(organizationId: string): string {
+    const { start } = this.getBillingPeriod()
+    return `usage:api_calls:${organizationId}:${start.toISOString().slice(0, 7)}`
+  }
+
+  private isValidIpOrCidr(entry: string): boolean {
+    if (typeof entry !== 'string') return false
+
+    const [address, prefix, ...rest] = entry.split('/')
+    const version = isIP(address)
+    if (!version || rest.length > 0) return false
+    if (prefix === undefined) return true
+
+    const bits = Number(prefix)
+    return Number.isInteger(bits) && bits >= 0 && bits <= (version === 4 ? 32 : 128)
+  }
+
+  private isHttpUrl(value: string): boolean {
+    try {
+      const url = new URL(value)
+      return url.protocol === 'http:' || url.protocol === 'https:'
+    } catch {
+      return false
+    }
+  }
+
+  private parseJson<T>(value: any, fallback: T): T {
+    if (value === null || value === undefined) {
+      return fallback
+    }
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value)
+      } catch {
+        return fallback
+      }
+    }
+    return value
+  }
+}
+
+export const organizationService = new OrganizationService()
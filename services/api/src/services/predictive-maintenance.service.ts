@@ -0,0 +1,822 @@
+import { v4 as uuidv4 } from 'uuid'
+import { query } from '../config/database'
+import { logger } from '../config/logger'
+import { publishEvent } from '../config/rabbitmq'
+import { getWebSocketService } from './websocket.service'
+import {
+  Event,
+  EventType,
+  EventSource,
+  EventSeverity,
+  MaintenancePrediction,
+  MaintenancePriority,
+  MaintenanceRecommendation,
+  PredictionSeverity,
+  PredictionType,
+  RecommendedAction,
+  RobotComponent,
+  RobotStatus,
+  TrendDirection,
+  TriggerMetric,
+  PaginationOptions,
+  PaginationResult,
+} from '@urfmp/types'
+import { NotFoundError } from '../middleware/error.middleware'
+
+export interface PredictionFilters {
+  robotId?: string
+  component?: string
+  severity?: string
+  acknowledged?: boolean
+}
+
+export interface PredictiveMaintenanceOptions {
+  intervalMs: number
+  lookbackDays: number
+  horizonDays: number
+}
+
+interface MetricRule {
+  metric: string
+  predictionType: PredictionType
+  warning: number
+  critical: number
+  direction: 'above' | 'below'
+  unit: string
+}
+
+interface ComponentRule {
+  component: RobotComponent
+  label: string
+  metrics: MetricRule[]
+}
+
+interface MetricSample {
+  time: Date
+  value: number
+}
+
+interface MetricAnalysis {
+  rule: MetricRule
+  trigger: TriggerMetric
+  hoursToThreshold: number | null
+  exceededWarning: boolean
+  exceededCritical: boolean
+  confidence: number
+}
+
+const MODEL_VERSION = 'linear-trend-1.0'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Minimum number of hourly buckets before a trend is considered meaningful
+const MIN_SAMPLES = 6
+
+const SEVERITY_RANK: Record<PredictionSeverity, number> = {
+  [PredictionSeverity.LOW]: 1,
+  [PredictionSeverity.MEDIUM]: 2,
+  [PredictionSeverity.HIGH]: 3,
+  [PredictionSeverity.CRITICAL]: 4,
+}
+
+const motorTemperatureRule = (joint: number): ComponentRule => ({
+  component: `motor_joint_${joint}` as RobotComponent,
+  label: `Joint ${joint} motor`,
+  metrics: [
+    {
+      metric: `temperature.motor.joint${joint}`,
+      predictionType: PredictionType.OVERHEATING,
+      warning: 70,
+      critical: 85,
+      direction: 'above',
+      unit: 'celsius',
+    },
+  ],
+})
+
+// Telemetry metrics watched for each component, with the limits used to project failures
+const COMPONENT_RULES: ComponentRule[] = [
+  ...[1, 2, 3, 4, 5, 6].map(motorTemperatureRule),
+  {
+    component: RobotComponent.CONTROLLER,
+    label: 'Controller',
+    metrics: [
+      {
+        metric: 'temperature.controller',
+        predictionType: PredictionType.OVERHEATING,
+        warning: 55,
+        critical: 70,
+        direction: 'above',
+        unit: 'celsius',
+      },
+    ],
+  },
+  {
+    component: RobotComponent.COOLING_SYSTEM,
+    label: 'Cooling system',
+    metrics: [
+      {
+        metric: 'temperature.ambient',
+        predictionType: PredictionType.OVERHEATING,
+        warning: 35,
+        critical: 45,
+        direction: 'above',
+        unit: 'celsius',
+      },
+    ],
+  },
+  {
+    component: RobotComponent.POWER_SUPPLY,
+    label: 'Power supply',
+    metrics: [
+      {
+        metric: 'voltage.supply',
+        predictionType: PredictionType.ELECTRICAL_FAULT,
+        warning: 46,
+        critical: 44,
+        direction: 'below',
+        unit: 'volt',
+      },
+      {
+        metric: 'power.total',
+        predictionType: PredictionType.PERFORMANCE_DEGRADATION,
+        warning: 150,
+        critical: 200,
+        direction: 'above',
+        unit: 'watt',
+      },
+    ],
+  },
+]
+
+const PREDICTION_COLUMNS = `id, robot_id, organization_id, component, prediction_type, severity,
+       confidence, predicted_failure_date, remaining_useful_life, trigger_metrics,
+       recommendation, model_version, created_at, acknowledged_at, acknowledged_by`
+
+export class PredictiveMaintenanceService {
+  private interval?: NodeJS.Timeout
+  private currentRun?: Promise<MaintenancePrediction[]>
+  private readonly options: PredictiveMaintenanceOptions
+
+  constructor(options: Partial<PredictiveMaintenanceOptions> = {}) {
+    this.options = {
+      intervalMs:
+        options.intervalMs ?? parseInt(process.env.PREDICTIVE_MAINTENANCE_INTERVAL_MS || '3600000'),
+      lookbackDays:
+        options.lookbackDays ?? parseInt(process.env.PREDICTIVE_MAINTENANCE_LOOKBACK_DAYS || '7'),
+      horizonDays:
+        options.horizonDays ?? parseInt(process.env.PREDICTIVE_MAINTENANCE_HORIZON_DAYS || '30'),
+    }
+  }
+
+  /**
+   * Start periodic fleet analysis
+   */
+  start(): void {
+    if (this.interval) {
+      return
+    }
+
+    this.interval = setInterval(() => {
+      if (this.currentRun) {
+        logger.debug('Predictive maintenance run already in progress, skipping')
+        return
+      }
+      this.analyzeFleet().catch((error) => {
+        logger.error('Predictive maintenance run failed', { error: (error as Error).message })
+      })
+    }, this.options.intervalMs)
+  }
+
+  /**
+   * Stop periodic fleet analysis
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval)
+      this.interval = undefined
+    }
+  }
+
+  /**
+   * Analyse every active robot, optionally limited to one organization
+   */
+  async analyzeFleet(organizationId?: string): Promise<MaintenancePrediction[]> {
+    // Runs take turns, two at once would both replace the same predictions
+    while (this.currentRun) {
+      await this.currentRun.catch(() => undefined)
+    }
+
+    const run = this.runFleetAnalysis(organizationId)
+    this.currentRun = run
+    try {
+      return await run
+    } finally {
+      if (this.currentRun === run) {
+        this.currentRun = undefined
+      }
+    }
+  }
+
+  private async runFleetAnalysis(organizationId?: string): Promise<MaintenancePrediction[]> {
+    const conditions = ['COALESCE(is_active, true) = true', '(status IS NULL OR status != $1)']
+    const params: any[] = [RobotStatus.DECOMMISSIONED]
+
+    if (organizationId) {
+      conditions.push('organization_id = $2')
+      params.push(organizationId)
+    }
+
+    const robotsResult = await query(
+      `SELECT id, organization_id FROM robots WHERE ${conditions.join(' AND ')}`,
+      params
+    )
+
+    const predictions: MaintenancePrediction[] = []
+    for (const robot of robotsResult.rows) {
+      try {
+        predictions.push(...(await this.analyzeRobot(robot.id, robot.organization_id)))
+      } catch (error) {
+        logger.error('Failed to analyse robot for predictive maintenance', {
+          robotId: robot.id,
+          error: (error as Error).message,
+        })
+      }
+    }
+
+    logger.info('Predictive maintenance run completed', {
+      organizationId,
+      robots: robotsResult.rows.length,
+      predictions: predictions.length,
+    })
+
+    return predictions
+  }
+
+  /**
+   * Analyse a robot's telemetry and replace its open predictions
+   */
+  async analyzeRobot(
+    robotId: string,
+    organizationId: string,
+    now: Date = new Date()
+  ): Promise<MaintenancePrediction[]> {
+    const robotCheck = await query('SELECT id FROM robots WHERE id = $1 AND organization_id = $2', [
+      robotId,
+      organizationId,
+    ])
+
+    if (robotCheck.rows.length === 0) {
+      throw new NotFoundError('Robot not found')
+    }
+
+    const samples = await this.getHourlySamples(robotId, now)
+    const predictions: MaintenancePrediction[] = []
+
+    for (const rule of COMPONENT_RULES) {
+      const analyses = rule.metrics
+        .map((metric) => this.analyzeMetric(metric, samples.get(metric.metric) || [], now))
+        .filter((analysis): analysis is MetricAnalysis => analysis !== null)
+
+      const prediction = this.buildPrediction(robotId, organizationId, rule, analyses, now)
+      const previousSeverity = await this.savePrediction(robotId, rule.component, prediction)
+
+      if (!prediction) {
+        continue
+      }
+
+      predictions.push(prediction)
+
+      // Only notify when a component newly degrades, not on every re-analysis
+      if (
+        !previousSeverity ||
+        SEVERITY_RANK[prediction.severity] > SEVERITY_RANK[previousSeverity]
+      ) {
+        await this.emitPrediction(prediction, rule.label)
+      }
+    }
+
+    return predictions
+  }
+
+  /**
+   * Get predictions for an organization
+   */
+  async getPredictions(
+    organizationId: string,
+    filters: PredictionFilters = {},
+    pagination: PaginationOptions = { page: 1, limit: 20 }
+  ): Promise<PaginationResult<MaintenancePrediction>> {
+    const { page = 1, limit = 20 } = pagination
+    const offset = (page - 1) * limit
+
+    // Build where conditions
+    const conditions = ['organization_id = $1']
+    const params: any[] = [organizationId]
+    let paramIndex = 2
+
+    if (filters.robotId) {
+      conditions.push(`robot_id = ANY($${paramIndex})`)
+      params.push(filters.robotId.split(','))
+      paramIndex++
+    }
+
+    if (filters.component) {
+      conditions.push(`component = ANY($${paramIndex})`)
+      params.push(filters.component.split(','))
+      paramIndex++
+    }
+
+    if (filters.severity) {
+      conditions.push(`severity = ANY($${paramIndex})`)
+      params.push(filters.severity.split(','))
+      paramIndex++
+    }
+
+    if (filters.acknowledged !== undefined) {
+      conditions.push(
+        filters.acknowledged ? 'acknowledged_at IS NOT NULL' : 'acknowledged_at IS NULL'
+      )
+    }
+
+    const whereClause = conditions.join(' AND ')
+
+    // Get total count
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM maintenance_predictions WHERE ${whereClause}`,
+      params
+    )
+    const total = parseInt(countResult.rows[0]?.total || '0')
+
+    // Get predictions, soonest failure first
+    const predictionsResult = await query(
+      `SELECT ${PREDICTION_COLUMNS}
+       FROM maintenance_predictions
+       WHERE ${whereClause}
+       ORDER BY predicted_failure_date ASC
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      [...params, limit, offset]
+    )
+
+    const predictions = predictionsResult.rows.map((row: any) => this.mapPrediction(row))
+    const totalPages = Math.ceil(total / limit)
+
+    return {
+      data: predictions,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    }
+  }
+
+  /**
+   * Get a single prediction by ID
+   */
+  async getPredictionById(
+    predictionId: string,
+    organizationId: string
+  ): Promise<MaintenancePrediction | null> {
+    const result = await query(
+      `SELECT ${PREDICTION_COLUMNS}
+       FROM maintenance_predictions
+       WHERE id = $1 AND organization_id = $2`,
+      [predictionId, organizationId]
+    )
+
+    if (result.rows.length === 0) {
+      return null
+    }
+
+    return this.mapPrediction(result.rows[0])
+  }
+
+  /**
+   * Acknowledge a prediction, re-analysis keeps it acknowledged until its severity rises
+   */
+  async acknowledgePrediction(
+    predictionId: string,
+    organizationId: string,
+    userId: string
+  ): Promise<MaintenancePrediction> {
+    const result = await query(
+      `UPDATE maintenance_predictions
+       SET acknowledged_at = NOW(), acknowledged_by = $1
+       WHERE id = $2 AND organization_id = $3
+       RETURNING ${PREDICTION_COLUMNS}`,
+      [userId, predictionId, organizationId]
+    )
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Maintenance prediction not found')
+    }
+
+    const prediction = this.mapPrediction(result.rows[0])
+
+    logger.info('Maintenance prediction acknowledged', {
+      predictionId,
+      robotId: prediction.robotId,
+      organizationId,
+      userId,
+    })
+
+    return prediction
+  }
+
+  /**
+   * Map a maintenance_predictions row to a MaintenancePrediction
+   */
+  mapPrediction(row: any): MaintenancePrediction {
+    return {
+      id: row.id,
+      robotId: row.robot_id,
+      organizationId: row.organization_id,
+      component: row.component,
+      predictionType: row.prediction_type,
+      severity: row.severity,
+      confidence: parseFloat(row.confidence),
+      predictedFailureDate: row.predicted_failure_date,
+      remainingUsefulLife: parseFloat(row.remaining_useful_life),
+      triggerMetrics: this.parseJson(row.trigger_metrics, []),
+      recommendation: this.parseJson(row.recommendation, {} as MaintenanceRecommendation),
+      modelVersion: row.model_version,
+      createdAt: row.created_at,
+      acknowledgedAt: row.acknowledged_at ?? undefined,
+      acknowledgedBy: row.acknowledged_by ?? undefined,
+    }
+  }
+
+  private async getHourlySamples(robotId: string, now: Date): Promise<Map<string, MetricSample[]>> {
+    const metrics = COMPONENT_RULES.flatMap((rule) => rule.metrics.map((metric) => metric.metric))
+    const from = new Date(now.getTime() - this.options.lookbackDays * 24 * HOUR_MS)
+
+    const result = await query(
+      `SELECT time_bucket('1 hour', time) AS bucket, metric_name, AVG(value) AS avg_value
+       FROM robot_telemetry
+       WHERE robot_id = $1 AND metric_name = ANY($2) AND time >= $3 AND time <= $4
+       GROUP BY bucket, metric_name
+       ORDER BY bucket ASC`,
+      [robotId, metrics, from, now]
+    )
+
+    const samples = new Map<string, MetricSample[]>()
+    for (const row of result.rows) {
+      const series = samples.get(row.metric_name) || []
+      series.push({ time: new Date(row.bucket), value: parseFloat(row.avg_value) })
+      samples.set(row.metric_name, series)
+    }
+
+    return samples
+  }
+
+  private analyzeMetric(
+    rule: MetricRule,
+    samples: MetricSample[],
+    now: Date
+  ): MetricAnalysis | null {
+    if (samples.length < MIN_SAMPLES) {
+      return null
+    }
+
+    // Least-squares fit of value against hours elapsed
+    const origin = samples[0].time.getTime()
+    const xs = samples.map((sample) => (sample.time.getTime() - origin) / HOUR_MS)
+    const ys = samples.map((sample) => sample.value)
+    const n = samples.length
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / n
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / n
+
+    let sxx = 0
+    let sxy = 0
+    let syy = 0
+    for (let i = 0; i < n; i++) {
+      sxx += (xs[i] - meanX) ** 2
+      sxy += (xs[i] - meanX) * (ys[i] - meanY)
+      syy += (ys[i] - meanY) ** 2
+    }
+
+    const slope = sxx > 0 ? sxy / sxx : 0 // units per hour
+    const rSquared = sxx > 0 && syy > 0 ? (sxy * sxy) / (sxx * syy) : 0
+
+    // Smooth the latest reading over the last three buckets
+    const recent = ys.slice(-3)
+    const current = recent.reduce((sum, y) => sum + y, 0) / recent.length
+
+    const sign = rule.direction === 'above' ? 1 : -1
+    const distance = sign * (rule.warning - current)
+    const exceededWarning = distance <= 0
+    const exceededCritical = sign * (rule.critical - current) <= 0
+
+    let hoursToThreshold: number | null = null
+    if (exceededWarning) {
+      hoursToThreshold = 0
+    } else if (sign * slope > 0) {
+      hoursToThreshold = distance / (sign * slope)
+    }
+
+    // Readings older than the lookback window say nothing about the current state
+    const lastSampleAge = (now.getTime() - samples[n - 1].time.getTime()) / HOUR_MS
+    const freshness = lastSampleAge > 24 ? 0.5 : 1
+    const sampleFactor = Math.min(1, n / 24)
+    const fit = exceededWarning ? 1 : rSquared
+    const confidence = Math.round((0.3 + 0.7 * sampleFactor * fit) * freshness * 100) / 100
+
+    return {
+      rule,
+      trigger: {
+        name: rule.metric,
+        value: Math.round(current * 100) / 100,
+        threshold: rule.warning,
+        unit: rule.unit,
+        trend: this.getTrendDirection(slope, rSquared, meanY, syy / n),
+        importance:
+          Math.round(Math.min(1, Math.max(0, 1 - distance / Math.abs(rule.warning))) * 100) / 100,
+      },
+      hoursToThreshold,
+      exceededWarning,
+      exceededCritical,
+      confidence,
+    }
+  }
+
+  private getTrendDirection(
+    slope: number,
+    rSquared: number,
+    mean: number,
+    variance: number
+  ): TrendDirection {
+    const coefficientOfVariation = Math.sqrt(variance) / Math.max(Math.abs(mean), 1)
+    if (rSquared < 0.3 && coefficientOfVariation > 0.15) {
+      return TrendDirection.VOLATILE
+    }
+
+    // Less than 1% change per day counts as flat
+    const dailyChange = Math.abs(slope * 24) / Math.max(Math.abs(mean), 1)
+    if (dailyChange < 0.01) {
+      return TrendDirection.STABLE
+    }
+
+    return slope > 0 ? TrendDirection.INCREASING : TrendDirection.DECREASING
+  }
+
+  private buildPrediction(
+    robotId: string,
+    organizationId: string,
+    rule: ComponentRule,
+    analyses: MetricAnalysis[],
+    now: Date
+  ): MaintenancePrediction | null {
+    const horizonHours = this.options.horizonDays * 24
+    const actionable = analyses
+      .filter((analysis) => analysis.hoursToThreshold !== null)
+      .filter((analysis) => analysis.hoursToThreshold! <= horizonHours)
+      .sort((a, b) => a.hoursToThreshold! - b.hoursToThreshold!)
+
+    if (actionable.length === 0) {
+      return null
+    }
+
+    const driver = actionable[0]
+    const remainingUsefulLife = Math.round((driver.hoursToThreshold! / 24) * 10) / 10
+
+    let severity: PredictionSeverity
+    if (actionable.some((analysis) => analysis.exceededCritical)) {
+      severity = PredictionSeverity.CRITICAL
+    } else if (driver.exceededWarning) {
+      severity = PredictionSeverity.HIGH
+    } else if (remainingUsefulLife <= 7) {
+      severity = PredictionSeverity.MEDIUM
+    } else {
+      severity = PredictionSeverity.LOW
+    }
+
+    return {
+      id: uuidv4(),
+      robotId,
+      organizationId,
+      component: rule.component,
+      predictionType: driver.rule.predictionType,
+      severity,
+      confidence: driver.confidence,
+      predictedFailureDate: new Date(now.getTime() + driver.hoursToThreshold! * HOUR_MS),
+      remainingUsefulLife,
+      triggerMetrics: analyses
+        .map((analysis) => analysis.trigger)
+        .sort((a, b) => b.importance - a.importance),
+      recommendation: this.buildRecommendation(rule, driver, severity, remainingUsefulLife),
+      modelVersion: MODEL_VERSION,
+      createdAt: now,
+    }
+  }
+
+  private buildRecommendation(
+    rule: ComponentRule,
+    driver: MetricAnalysis,
+    severity: PredictionSeverity,
+    remainingUsefulLife: number
+  ): MaintenanceRecommendation {
+    const { trigger } = driver
+    const reading = `${trigger.name} is ${trigger.trend} at ${trigger.value} ${trigger.unit}`
+
+    switch (severity) {
+      case PredictionSeverity.CRITICAL:
+        return {
+          action: RecommendedAction.IMMEDIATE_SHUTDOWN,
+          priority: MaintenancePriority.CRITICAL,
+          timeframe: 'immediately',
+          description: `${rule.label} has passed its critical limit of ${driver.rule.critical} ${trigger.unit}: ${reading}. Stop the robot and inspect before resuming operation.`,
+        }
+      case PredictionSeverity.HIGH:
+        return {
+          action: RecommendedAction.INSPECT,
+          priority: MaintenancePriority.HIGH,
+          timeframe: 'within 24 hours',
+          description: `${rule.label} is beyond its warning limit of ${trigger.threshold} ${trigger.unit}: ${reading}.`,
+        }
+      case PredictionSeverity.MEDIUM:
+        return {
+          action: RecommendedAction.SCHEDULE_MAINTENANCE,
+          priority: MaintenancePriority.MEDIUM,
+          timeframe: 'within 1 week',
+          description: `${rule.label} is projected to reach ${trigger.threshold} ${trigger.unit} in ${remainingUsefulLife} days: ${reading}.`,
+        }
+      default:
+        return {
+          action: RecommendedAction.MONITOR,
+          priority: MaintenancePriority.LOW,
+          timeframe: `within ${this.options.horizonDays} days`,
+          description: `${rule.label} is projected to reach ${trigger.threshold} ${trigger.unit} in ${remainingUsefulLife} days: ${reading}.`,
+        }
+    }
+  }
+
+  /**
+   * Store a component's prediction over its current one, returns the severity it had before.
+   * An acknowledgement holds until the severity rises, a healthy component keeps no prediction.
+   */
+  private async savePrediction(
+    robotId: string,
+    component: RobotComponent,
+    prediction: MaintenancePrediction | null
+  ): Promise<PredictionSeverity | null> {
+    const existing = await query(
+      `SELECT id, severity, acknowledged_at, acknowledged_by
+       FROM maintenance_predictions
+       WHERE robot_id = $1 AND component = $2
+       ORDER BY created_at DESC`,
+      [robotId, component]
+    )
+    const [current, ...superseded] = existing.rows
+
+    if (!prediction) {
+      if (current) {
+        await query('DELETE FROM maintenance_predictions WHERE robot_id = $1 AND component = $2', [
+          robotId,
+          component,
+        ])
+      }
+      return current?.severity ?? null
+    }
+
+    // Earlier runs kept one row per analysis, only the newest carries on
+    if (superseded.length > 0) {
+      await query('DELETE FROM maintenance_predictions WHERE id = ANY($1)', [
+        superseded.map((row: any) => row.id),
+      ])
+    }
+
+    if (!current) {
+      await query(
+        `INSERT INTO maintenance_predictions (
+          id, robot_id, organization_id, component, prediction_type, severity, confidence,
+          predicted_failure_date, remaining_useful_life, trigger_metrics, recommendation,
+          model_version, created_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+        [
+          prediction.id,
+          prediction.robotId,
+          prediction.organizationId,
+          prediction.component,
+          prediction.predictionType,
+          prediction.severity,
+          prediction.confidence,
+          prediction.predictedFailureDate,
+          prediction.remainingUsefulLife,
+          JSON.stringify(prediction.triggerMetrics),
+          JSON.stringify(prediction.recommendation),
+          prediction.modelVersion,
+          prediction.createdAt,
+        ]
+      )
+      return null
+    }
+
+    const previousSeverity = current.severity as PredictionSeverity
+    prediction.id = current.id
+    if (
+      current.acknowledged_at &&
+      SEVERITY_RANK[prediction.severity] <= SEVERITY_RANK[previousSeverity]
+    ) {
+      prediction.acknowledgedAt = current.acknowledged_at
+      prediction.acknowledgedBy = current.acknowledged_by ?? undefined
+    }
+
+    await query(
+      `UPDATE maintenance_predictions
+       SET prediction_type = $2, severity = $3, confidence = $4, predicted_failure_date = $5,
+           remaining_useful_life = $6, trigger_metrics = $7, recommendation = $8,
+           model_version = $9, created_at = $10, acknowledged_at = $11, acknowledged_by = $12
+       WHERE id = $1`,
+      [
+        prediction.id,
+        prediction.predictionType,
+        prediction.severity,
+        prediction.confidence,
+        prediction.predictedFailureDate,
+        prediction.remainingUsefulLife,
+        JSON.stringify(prediction.triggerMetrics),
+        JSON.stringify(prediction.recommendation),
+        prediction.modelVersion,
+        prediction.createdAt,
+        prediction.acknowledgedAt ?? null,
+        prediction.acknowledgedBy ?? null,
+      ]
+    )
+
+    return previousSeverity
+  }
+
+  private async emitPrediction(prediction: MaintenancePrediction, label: string): Promise<void> {
+    const event: Event = {
+      id: uuidv4(),
+      type: EventType.MAINTENANCE_PREDICTED,
+      source: EventSource.SYSTEM,
+      robotId: prediction.robotId,
+      organizationId: prediction.organizationId,
+      severity: this.getEventSeverity(prediction.severity),
+      title: `${label} maintenance predicted`,
+      description: prediction.recommendation.description,
+      data: {
+        predictionId: prediction.id,
+        component: prediction.component,
+        predictionType: prediction.predictionType,
+        confidence: prediction.confidence,
+        predictedFailureDate: prediction.predictedFailureDate,
+        remainingUsefulLife: prediction.remainingUsefulLife,
+      },
+      metadata: { version: '1.0.0' },
+      timestamp: new Date(),
+    }
+
+    await publishEvent(EventType.MAINTENANCE_PREDICTED, event)
+
+    try {
+      const wsService = getWebSocketService()
+      wsService.broadcastToChannel(`org:${prediction.organizationId}:maintenance`, {
+        event: 'maintenance:prediction_created',
+        robotId: prediction.robotId,
+        organizationId: prediction.organizationId,
+        prediction,
+        timestamp: event.timestamp,
+      })
+    } catch (error) {
+      logger.warn('Failed to broadcast maintenance prediction', {
+        predictionId: prediction.id,
+        error: (error as Error).message,
+      })
+    }
+  }
+
+  private getEventSeverity(severity: PredictionSeverity): EventSeverity {
+    switch (severity) {
+      case PredictionSeverity.CRITICAL:
+        return EventSeverity.CRITICAL
+      case PredictionSeverity.HIGH:
+        return EventSeverity.HIGH
+      case PredictionSeverity.MEDIUM:
+        return EventSeverity.MEDIUM
+      default:
+        return EventSeverity.LOW
+    }
+  }
+
+  private parseJson<T>(value: any, fallback: T): T {
+    if (value === null || value === undefined) {
+      return fallback
+    }
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value)
+      } catch {
+        return fallback
+      }
+    }
+    return value
+  }
+}
+
+export const predictiveMaintenanceService = new PredictiveMaintenanceService()
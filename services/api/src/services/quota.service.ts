@@ -0,0 +1,191 @@
+import { query } from '../config/database'
+import { logger } from '../config/logger'
+import { cache, getRedis } from '../config/redis'
+import { organizationService } from './organization.service'
+import { OrganizationLimits, PlanFeatures, QuotaResource, SubscriptionPlan } from '@urfmp/types'
+import { QuotaExceededError, FeatureNotAvailableError } from '../middleware/error.middleware'
+
+interface PlanLimits {
+  plan: SubscriptionPlan
+  limits: OrganizationLimits
+}
+
+const UNLIMITED = -1
+
+// Limits change rarely, a short cache keeps the per-request checks off the database
+const LIMITS_CACHE_TTL_SECONDS = 60
+
+const DATA_POINTS_KEY_TTL_SECONDS = 40 * 24 * 60 * 60
+
+const FEATURE_NAMES: Record<keyof PlanFeatures, string> = {
+  realTimeMonitoring: 'Real-time monitoring',
+  historicalAnalytics: 'Historical analytics',
+  predictiveMaintenance: 'Predictive maintenance',
+  customDashboards: 'Custom dashboards',
+  apiAccess: 'API access',
+  webhookSupport: 'Webhook support',
+  ssoIntegration: 'SSO integration',
+  prioritySupport: 'Priority support',
+  customIntegrations: 'Custom integrations',
+  whiteLabeling: 'White labeling',
+}
+
+export class QuotaService {
+  /**
+   * Get the plan and effective limits for an organization, cached briefly
+   */
+  async getPlanLimits(organizationId: string): Promise<PlanLimits> {
+    const cacheKey = `org_limits:${organizationId}`
+
+    const cached = await cache.get(cacheKey)
+    if (cached) {
+      return cached
+    }
+
+    const planLimits = await organizationService.getEffectiveLimits(organizationId)
+    await cache.set(cacheKey, planLimits, LIMITS_CACHE_TTL_SECONDS)
+    return planLimits
+  }
+
+  /**
+   * Drop cached limits after a plan or limit change
+   */
+  async invalidate(organizationId: string): Promise<void> {
+    await cache.del(`org_limits:${organizationId}`)
+  }
+
+  /**
+   * Throw unless the organization's plan includes a feature
+   */
+  async assertFeature(organizationId: string, feature: keyof PlanFeatures): Promise<void> {
+    const { plan, limits } = await this.getPlanLimits(organizationId)
+
+    if (!limits.features[feature]) {
+      throw new FeatureNotAvailableError(
+        `${FEATURE_NAMES[feature]} is not included in the ${plan} plan`,
+        { plan, feature }
+      )
+    }
+  }
+
+  /**
+   * Throw if adding robots would exceed the organization's robot limit
+   */
+  async assertRobotCapacity(organizationId: string, additional = 1): Promise<void> {
+    const { plan, limits } = await this.getPlanLimits(organizationId)
+    if (limits.maxRobots === UNLIMITED) return
+
+    const result = await query(
+      `SELECT COUNT(*) AS active_robots
+       FROM robots
+       WHERE organization_id = $1 AND COALESCE(is_active, true)`,
+      [organizationId]
+    )
+    const used = parseInt(result.rows[0]?.active_robots || '0')
+
+    if (used + additional > limits.maxRobots) {
+      throw new QuotaExceededError(
+        `Robot limit reached: the ${plan} plan allows ${limits.maxRobots} robots`,
+        { plan, resource: QuotaResource.ROBOTS, limit: limits.maxRobots, used }
+      )
+    }
+  }
+
+  /**
+   * Throw once the organization has used its monthly API call allowance
+   */
+  async assertApiCallAllowance(organizationId: string): Promise<void> {
+    const { plan, limits } = await this.getPlanLimits(organizationId)
+    if (limits.maxApiCallsPerMonth === UNLIMITED) return
+
+    const used = await organizationService.getApiCallCount(organizationId)
+    if (used >= limits.maxApiCallsPerMonth) {
+      throw new QuotaExceededError(
+        `Monthly API call allowance of ${limits.maxApiCallsPerMonth} used up for the ${plan} plan`,
+        {
+          plan,
+          resource: QuotaResource.API_CALLS,
+          limit: limits.maxApiCallsPerMonth,
+          used,
+          retryAfter: this.secondsUntilPeriodEnd(),
+        }
+      )
+    }
+  }
+
+  /**
+   * Count telemetry points against the monthly ingest allowance, throwing once it is used up
+   */
+  async consumeTelemetryAllowance(organizationId: string, points: number): Promise<void> {
+    const { plan, limits } = await this.getPlanLimits(organizationId)
+    if (limits.maxDataPointsPerMonth === UNLIMITED) return
+
+    const key = this.getDataPointsKey(organizationId)
+    let used: number
+
+    try {
+      const redis = getRedis()
+      used = await redis.incrby(key, points)
+
+      // A fresh counter starts from what is already stored for this month
+      if (used === points) {
+        await redis.expire(key, DATA_POINTS_KEY_TTL_SECONDS)
+        const stored = await this.countStoredDataPoints(organizationId)
+        if (stored > 0) {
+          used = await redis.incrby(key, stored)
+        }
+      }
+    } catch (error) {
+      // Never drop telemetry because the counter is unavailable
+      logger.warn('Failed to count telemetry ingest allowance', {
+        organizationId,
+        error: (error as Error).message,
+      })
+      return
+    }
+
+    if (used > limits.maxDataPointsPerMonth) {
+      // Rejected points are not stored, so they do not count towards the allowance
+      await getRedis()
+        .decrby(key, points)
+        .catch(() => undefined)
+
+      throw new QuotaExceededError(
+        `Monthly telemetry allowance of ${limits.maxDataPointsPerMonth} data points used up for the ${plan} plan`,
+        {
+          plan,
+          resource: QuotaResource.DATA_POINTS,
+          limit: limits.maxDataPointsPerMonth,
+          used: used - points,
+          retryAfter: this.secondsUntilPeriodEnd(),
+        }
+      )
+    }
+  }
+
+  private async countStoredDataPoints(organizationId: string): Promise<number> {
+    const result = await query(
+      `SELECT COUNT(*) AS stored_points
+       FROM robot_telemetry t
+       JOIN robots r ON r.id = t.robot_id
+       WHERE r.organization_id = $1 AND t.time >= $2`,
+      [organizationId, this.getPeriodStart()]
+    )
+    return parseInt(result.rows[0]?.stored_points || '0')
+  }
+
+  private getDataPointsKey(organizationId: string): string {
+    return `usage:data_points:${organizationId}:${this.getPeriodStart().toISOString().slice(0, 7)}`
+  }
+
+  private getPeriodStart(now: Date = new Date()): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+  }
+
+  private secondsUntilPeriodEnd(now: Date = new Date()): number {
+    const end = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)
+    return Math.ceil((end - now.getTime()) / 1000)
+  }
+}
+
+export const quotaService = new QuotaService()
@@ -2,8 +2,9 @@ import { query } from '../config/database'
 import { cache } from '../config/redis'
 import { logger } from '../config/logger'
 import { getWebSocketService } from './websocket.service'
+import { quotaService } from './quota.service'
 import { Robot, PaginationOptions, PaginationResult, RobotVendor } from '@urfmp/types'
-import { ValidationError, NotFoundError } from '../middleware/error.middleware'
+import { ValidationError, NotFoundError, ConflictError } from '../middleware/error.middleware'
 
 export interface CreateRobotRequest {
   name: string
@@ -201,6 +202,9 @@ export class RobotService {
       )
     }
 
+    await this.assertMqttClaimsAvailable(organizationId, robotData.configuration)
+    await quotaService.assertRobotCapacity(organizationId)
+
     try {
       const result = await query(
         `INSERT INTO robots (
@@ -332,6 +336,7 @@ export class RobotService {
     }
 
     if (updateData.configuration !== undefined) {
+      await this.assertMqttClaimsAvailable(organizationId, updateData.configuration, robotId)
       updateFields.push(`configuration = $${paramIndex}`)
       params.push(JSON.stringify(updateData.configuration))
       paramIndex++
@@ -408,6 +413,48 @@ export class RobotService {
     return robot
   }
 
+  /**
+   * MQTT ingest trusts configuration.mqtt to route messages, so a topic or Sparkplug device may
+   * belong to only one robot and an edge node to only one organization
+   */
+  private async assertMqttClaimsAvailable(
+    organizationId: string,
+    configuration?: Record<string, any>,
+    robotId?: string
+  ): Promise<void> {
+    const mqtt = configuration?.mqtt
+    if (!mqtt || typeof mqtt !== 'object') {
+      return
+    }
+
+    const topic = typeof mqtt.topic === 'string' && mqtt.topic ? mqtt.topic : null
+    const { groupId, edgeNodeId, deviceId } = mqtt.sparkplug ?? {}
+    const node = groupId && edgeNodeId ? [String(groupId), String(edgeNodeId)] : [null, null]
+    if (!topic && !node[0]) {
+      return
+    }
+
+    const result = await query(
+      `SELECT id FROM robots
+       WHERE is_active = true AND ($1::uuid IS NULL OR id != $1)
+         AND (
+           configuration->'mqtt'->>'topic' = $2
+           OR (configuration->'mqtt'->'sparkplug'->>'groupId' = $3
+               AND configuration->'mqtt'->'sparkplug'->>'edgeNodeId' = $4
+               AND (organization_id != $5
+                    OR COALESCE(configuration->'mqtt'->'sparkplug'->>'deviceId', '') = $6))
+         )
+       LIMIT 1`,
+      [robotId ?? null, topic, node[0], node[1], organizationId, deviceId ? String(deviceId) : '']
+    )
+
+    if (result.rows.length > 0) {
+      throw new ConflictError(
+        'The MQTT topic or Sparkplug node is already claimed by another robot'
+      )
+    }
+  }
+
   /**
    * Delete a robot
    */
@@ -0,0 +1,334 @@
+import { query, transaction } from '../config/database'
+import { logger } from '../config/logger'
+import { organizationService, parseRetentionDays } from './organization.service'
+import { TimeWindow } from '@urfmp/types'
+
+export type RollupWidth = '1m' | '1h' | '1d'
+
+export interface TelemetryRetentionOptions {
+  intervalMs: number
+  batchDays: number
+}
+
+export interface RetentionCutoffs {
+  // Raw points before this are rolled up, null when raw telemetry is kept forever
+  raw: Date | null
+  rollups: Record<RollupWidth, Date | null>
+  events: Date | null
+}
+
+export interface RetentionRunResult {
+  organizationId: string
+  rawPointsRolledUp: number
+  rollupsDeleted: number
+  connectionMetricsDeleted: number
+  statusHistoryDeleted: number
+  alertsDeleted: number
+}
+
+interface RollupTier {
+  width: RollupWidth
+  interval: string
+  minutes: number
+  // How long the tier outlives the raw window, capped by the aggregated window
+  keepDays: number | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Finest first, finer tiers are dropped sooner than coarser ones
+const ROLLUP_TIERS: RollupTier[] = [
+  { width: '1m', interval: '1 minute', minutes: 1, keepDays: 30 },
+  { width: '1h', interval: '1 hour', minutes: 60, keepDays: 365 },
+  { width: '1d', interval: '1 day', minutes: 1440, keepDays: null },
+]
+
+const TIME_WINDOW_MINUTES: Record<TimeWindow, number> = {
+  [TimeWindow.MINUTE]: 1,
+  [TimeWindow.FIVE_MINUTES]: 5,
+  [TimeWindow.FIFTEEN_MINUTES]: 15,
+  [TimeWindow.HOUR]: 60,
+  [TimeWindow.DAY]: 1440,
+  [TimeWindow.WEEK]: 7 * 1440,
+  [TimeWindow.MONTH]: 30 * 1440,
+}
+
+export class TelemetryRetentionService {
+  private interval?: NodeJS.Timeout
+  private running = false
+  private readonly options: TelemetryRetentionOptions
+
+  constructor(options: Partial<TelemetryRetentionOptions> = {}) {
+    this.options = {
+      intervalMs:
+        options.intervalMs ?? parseInt(process.env.TELEMETRY_RETENTION_INTERVAL_MS || '3600000'),
+      batchDays: options.batchDays ?? parseInt(process.env.TELEMETRY_RETENTION_BATCH_DAYS || '7'),
+    }
+  }
+
+  /**
+   * Start periodic retention enforcement
+   */
+  start(): void {
+    if (this.interval) {
+      return
+    }
+
+    this.interval = setInterval(() => {
+      this.enforceAll().catch((error) => {
+        logger.error('Telemetry retention run failed', { error: (error as Error).message })
+      })
+    }, this.options.intervalMs)
+  }
+
+  /**
+   * Stop periodic retention enforcement
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval)
+      this.interval = undefined
+    }
+  }
+
+  /**
+   * Enforce telemetry retention for every organization
+   */
+  async enforceAll(now: Date = new Date()): Promise<RetentionRunResult[]> {
+    if (this.running) {
+      logger.debug('Telemetry retention run already in progress, skipping')
+      return []
+    }
+
+    this.running = true
+    try {
+      const organizationsResult = await query('SELECT id FROM organizations ORDER BY created_at')
+
+      const results: RetentionRunResult[] = []
+      for (const organization of organizationsResult.rows) {
+        try {
+          results.push(await this.enforceOrganization(organization.id, now))
+        } catch (error) {
+          logger.error('Failed to enforce telemetry retention', {
+            organizationId: organization.id,
+            error: (error as Error).message,
+          })
+        }
+      }
+
+      return results
+    } finally {
+      this.running = false
+    }
+  }
+
+  /**
+   * Roll raw telemetry past the raw window into rollups, drop connection metrics past the raw
+   * window and data past the other windows
+   */
+  async enforceOrganization(
+    organizationId: string,
+    now: Date = new Date()
+  ): Promise<RetentionRunResult> {
+    const cutoffs = await this.getRetentionCutoffs(organizationId, now)
+
+    const result: RetentionRunResult = {
+      organizationId,
+      rawPointsRolledUp: cutoffs.raw
+        ? await this.rollUpRawTelemetry(organizationId, cutoffs.raw)
+        : 0,
+      rollupsDeleted: 0,
+      connectionMetricsDeleted: 0,
+      statusHistoryDeleted: 0,
+      alertsDeleted: 0,
+    }
+
+    for (const tier of ROLLUP_TIERS) {
+      const cutoff = cutoffs.rollups[tier.width]
+      if (!cutoff) continue
+
+      const deleted = await query(
+        `DELETE FROM robot_telemetry_rollups u
+         USING robots r
+         WHERE r.id = u.robot_id AND r.organization_id = $1
+           AND u.bucket_width = $2 AND u.bucket < $3`,
+        [organizationId, tier.width, cutoff]
+      )
+      result.rollupsDeleted += deleted.rowCount || 0
+    }
+
+    // Adapter link samples arrive every few seconds per robot, they are kept as long as raw points
+    if (cutoffs.raw) {
+      const connectionMetrics = await query(
+        `DELETE FROM robot_connection_metrics m
+         USING robots r
+         WHERE r.id = m.robot_id AND r.organization_id = $1 AND m.time < $2`,
+        [organizationId, cutoffs.raw]
+      )
+      result.connectionMetricsDeleted = connectionMetrics.rowCount || 0
+    }
+
+    if (cutoffs.events) {
+      const statusHistory = await query(
+        `DELETE FROM robot_status_history h
+         USING robots r
+         WHERE r.id = h.robot_id AND r.organization_id = $1 AND h.time < $2`,
+        [organizationId, cutoffs.events]
+      )
+      result.statusHistoryDeleted = statusHistory.rowCount || 0
+
+      // Open alerts are kept until they are resolved, however old they are
+      const alerts = await query(
+        `DELETE FROM alerts a
+         USING robots r
+         WHERE r.id = a.robot_id AND r.organization_id = $1
+           AND a.is_resolved = true AND a.created_at < $2`,
+        [organizationId, cutoffs.events]
+      )
+      result.alertsDeleted = alerts.rowCount || 0
+    }
+
+    if (
+      result.rawPointsRolledUp ||
+      result.rollupsDeleted ||
+      result.connectionMetricsDeleted ||
+      result.statusHistoryDeleted ||
+      result.alertsDeleted
+    ) {
+      logger.info('Telemetry retention enforced', { ...result })
+    }
+
+    return result
+  }
+
+  /**
+   * Resolve an organization's retention settings into cutoff dates, aligned to UTC days
+   */
+  async getRetentionCutoffs(
+    organizationId: string,
+    now: Date = new Date()
+  ): Promise<RetentionCutoffs> {
+    const retention = await organizationService.getTelemetryRetention(organizationId)
+    const rawDays = parseRetentionDays(retention.raw)
+    const aggregatedDays = parseRetentionDays(retention.aggregated)
+    const eventDays = parseRetentionDays(retention.events)
+
+    const rollups = {} as Record<RollupWidth, Date | null>
+    for (const tier of ROLLUP_TIERS) {
+      const tierDays = rawDays !== null && tier.keepDays !== null ? rawDays + tier.keepDays : null
+      rollups[tier.width] = this.daysBefore(now, this.minDays(tierDays, aggregatedDays))
+    }
+
+    return {
+      raw: this.daysBefore(now, rawDays),
+      rollups,
+      events: this.daysBefore(now, eventDays),
+    }
+  }
+
+  /**
+   * Pick the rollup width to answer an aggregation from, the coarsest one that fits in the
+   * window unless it no longer covers the start of the range
+   */
+  selectRollupWidth(
+    timeWindow: TimeWindow,
+    from: Date | undefined,
+    cutoffs: RetentionCutoffs
+  ): RollupWidth {
+    const windowMinutes = TIME_WINDOW_MINUTES[timeWindow] ?? 60
+
+    let index = 0
+    while (index < ROLLUP_TIERS.length - 1 && ROLLUP_TIERS[index + 1].minutes <= windowMinutes) {
+      index++
+    }
+
+    // Finer tiers expire first, a coarser one may still hold the older part of the range
+    while (index < ROLLUP_TIERS.length - 1) {
+      const cutoff = cutoffs.rollups[ROLLUP_TIERS[index].width]
+      if (!cutoff || (from && from >= cutoff)) break
+      index++
+    }
+
+    return ROLLUP_TIERS[index].width
+  }
+
+  private async rollUpRawTelemetry(organizationId: string, cutoff: Date): Promise<number> {
+    const oldestResult = await query(
+      `SELECT MIN(t.time) AS oldest_time
+       FROM robot_telemetry t
+       JOIN robots r ON r.id = t.robot_id
+       WHERE r.organization_id = $1 AND t.time < $2`,
+      [organizationId, cutoff]
+    )
+
+    const oldest = oldestResult.rows[0]?.oldest_time
+    if (!oldest) {
+      return 0
+    }
+
+    // Work through the backlog a day at a time so one run never holds a huge transaction
+    let start = this.startOfDay(new Date(oldest))
+    let rolledUp = 0
+    for (let day = 0; day < this.options.batchDays && start < cutoff; day++) {
+      const end = new Date(Math.min(start.getTime() + DAY_MS, cutoff.getTime()))
+      rolledUp += await this.rollUpWindow(organizationId, start, end)
+      start = end
+    }
+
+    return rolledUp
+  }
+
+  private async rollUpWindow(organizationId: string, from: Date, to: Date): Promise<number> {
+    return transaction(async (client) => {
+      // Raw points are deleted in the same transaction, so merging into existing buckets
+      // never counts a point twice
+      for (const tier of ROLLUP_TIERS) {
+        await client.query(
+          `INSERT INTO robot_telemetry_rollups
+             (bucket, bucket_width, robot_id, metric_name, unit,
+              sample_count, value_sum, value_min, value_max)
+           SELECT time_bucket('${tier.interval}', t.time) AS bucket, '${tier.width}',
+                  t.robot_id, t.metric_name, MAX(t.unit), COUNT(*),
+                  SUM(t.value), MIN(t.value), MAX(t.value)
+           FROM robot_telemetry t
+           JOIN robots r ON r.id = t.robot_id
+           WHERE r.organization_id = $1 AND t.time >= $2 AND t.time < $3
+             AND t.value IS NOT NULL
+           GROUP BY 1, t.robot_id, t.metric_name
+           ON CONFLICT (robot_id, metric_name, bucket_width, bucket) DO UPDATE SET
+             unit = COALESCE(EXCLUDED.unit, robot_telemetry_rollups.unit),
+             sample_count = robot_telemetry_rollups.sample_count + EXCLUDED.sample_count,
+             value_sum = robot_telemetry_rollups.value_sum + EXCLUDED.value_sum,
+             value_min = LEAST(robot_telemetry_rollups.value_min, EXCLUDED.value_min),
+             value_max = GREATEST(robot_telemetry_rollups.value_max, EXCLUDED.value_max)`,
+          [organizationId, from, to]
+        )
+      }
+
+      const deleted = await client.query(
+        `DELETE FROM robot_telemetry t
+         USING robots r
+         WHERE r.id = t.robot_id AND r.organization_id = $1 AND t.time >= $2 AND t.time < $3`,
+        [organizationId, from, to]
+      )
+
+      return deleted.rowCount || 0
+    })
+  }
+
+  private minDays(a: number | null, b: number | null): number | null {
+    if (a === null) return b
+    if (b === null) return a
+    return Math.min(a, b)
+  }
+
+  private daysBefore(now: Date, days: number | null): Date | null {
+    return days === null ? null : this.startOfDay(new Date(now.getTime() - days * DAY_MS))
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  }
+}
+
+export const telemetryRetentionService = new TelemetryRetentionService()
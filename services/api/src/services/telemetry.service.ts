@@ -1,12 +1,22 @@
 import { query } from '../config/database'
 import { cache } from '../config/redis'
 import { logger } from '../config/logger'
+import { publishEvent } from '../config/rabbitmq'
+import { quotaService } from './quota.service'
+import { telemetryRetentionService } from './telemetry-retention.service'
 import {
   RobotTelemetry,
   TelemetryData,
   AggregationType,
   TimeWindow,
   TelemetryAggregation,
+  VendorEvent,
+  VendorEventType,
+  ConnectionMetrics,
+  ConnectionMetricsHistory,
+  ConnectionMetricsSample,
+  ConnectionStatus,
+  LinkQualitySummary,
 } from '@urfmp/types'
 import { NotFoundError, ValidationError } from '../middleware/error.middleware'
 
@@ -17,6 +27,36 @@ export interface TelemetryIngestRequest {
   timestamp?: Date
 }
 
+export interface RobotEventIngestRequest {
+  robotId: string
+  organizationId: string
+  type: string
+  data?: any
+  source?: string
+  timestamp?: Date
+}
+
+const CONNECTION_METRIC_FIELDS = [
+  'uptime',
+  'messagesReceived',
+  'messagesSent',
+  'bytesReceived',
+  'bytesSent',
+  'averageLatency',
+  'errorCount',
+  'reconnects',
+] as const
+
+export interface ConnectionMetricsIngestRequest {
+  robotId: string
+  organizationId: string
+  connectionId?: string
+  status: string
+  metrics: Partial<ConnectionMetrics>
+  lastHeartbeat?: Date
+  timestamp?: Date
+}
+
 export interface TelemetryQuery {
   robotId: string
   organizationId: string
@@ -68,6 +108,8 @@ export class TelemetryService {
       throw new ValidationError('No valid telemetry metrics provided')
     }
 
+    await quotaService.consumeTelemetryAllowance(organizationId, telemetryEntries.length)
+
     // Insert telemetry entries in batch
     const values: string[] = []
     const params: any[] = []
@@ -125,6 +167,199 @@ export class TelemetryService {
     return telemetryRecord
   }
 
+  /**
+   * Ingest an event reported by a robot's vendor adapter and publish it to the event bus
+   */
+  async ingestEvent(request: RobotEventIngestRequest): Promise<VendorEvent> {
+    const {
+      robotId,
+      organizationId,
+      data = {},
+      source = 'adapter',
+      timestamp = new Date(),
+    } = request
+
+    const type = String(request.type || '').toLowerCase()
+    const validTypes = Object.values(VendorEventType) as string[]
+    if (!validTypes.includes(type)) {
+      throw new ValidationError(`Invalid event type. Must be one of: ${validTypes.join(', ')}`)
+    }
+
+    const robotCheck = await this.verifyRobotAccess(robotId, organizationId)
+    if (!robotCheck) {
+      throw new NotFoundError('Robot not found')
+    }
+
+    const event: VendorEvent = {
+      id: `${robotId}_${type}_${timestamp.getTime()}`,
+      type: type as VendorEventType,
+      robotId,
+      data,
+      timestamp,
+      source,
+    }
+
+    await publishEvent(`robot.event.${type}`, { ...event, organizationId })
+
+    await query('UPDATE robots SET last_seen = $1 WHERE id = $2', [timestamp, robotId])
+
+    logger.info('Robot event ingested', { robotId, organizationId, type, source })
+
+    return event
+  }
+
+  /**
+   * Store a sample of a robot's adapter connection metrics, published by the edge agent
+   */
+  async ingestConnectionMetrics(
+    request: ConnectionMetricsIngestRequest
+  ): Promise<ConnectionMetricsSample> {
+    const { robotId, organizationId, connectionId, lastHeartbeat, timestamp = new Date() } = request
+
+    const status = String(request.status || '').toLowerCase()
+    const validStatuses = Object.values(ConnectionStatus) as string[]
+    if (!validStatuses.includes(status)) {
+      throw new ValidationError(`Invalid status. Must be one of: ${validStatuses.join(', ')}`)
+    }
+
+    if (!request.metrics || typeof request.metrics !== 'object') {
+      throw new ValidationError('Connection metrics are required')
+    }
+
+    for (const [field, date] of Object.entries({ timestamp, lastHeartbeat })) {
+      if (date && isNaN(date.getTime())) {
+        throw new ValidationError(`Invalid ${field} date format`)
+      }
+    }
+
+    const metrics: ConnectionMetrics = {
+      uptime: 0,
+      messagesReceived: 0,
+      messagesSent: 0,
+      bytesReceived: 0,
+      bytesSent: 0,
+      averageLatency: 0,
+      errorCount: 0,
+      reconnects: 0,
+    }
+    for (const field of CONNECTION_METRIC_FIELDS) {
+      const value = request.metrics[field]
+      if (value === undefined) {
+        continue
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        throw new ValidationError(`metrics.${field} must be a non-negative number`)
+      }
+      metrics[field] = value
+    }
+    if (request.metrics.lastErrorAt) {
+      metrics.lastErrorAt = new Date(request.metrics.lastErrorAt)
+      if (isNaN(metrics.lastErrorAt.getTime())) {
+        throw new ValidationError('Invalid metrics.lastErrorAt date format')
+      }
+    }
+
+    const robotCheck = await this.verifyRobotAccess(robotId, organizationId)
+    if (!robotCheck) {
+      throw new NotFoundError('Robot not found')
+    }
+
+    await query(
+      `INSERT INTO robot_connection_metrics (
+        time, robot_id, connection_id, status, uptime_seconds, messages_received, messages_sent,
+        bytes_received, bytes_sent, average_latency_ms, error_count, reconnect_count,
+        last_error_at, last_heartbeat_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+      [
+        timestamp,
+        robotId,
+        connectionId || null,
+        status,
+        metrics.uptime,
+        metrics.messagesReceived,
+        metrics.messagesSent,
+        metrics.bytesReceived,
+        metrics.bytesSent,
+        metrics.averageLatency,
+        metrics.errorCount,
+        metrics.reconnects,
+        metrics.lastErrorAt || null,
+        lastHeartbeat || null,
+      ]
+    )
+
+    logger.debug('Connection metrics ingested', { robotId, organizationId, status })
+
+    return {
+      robotId,
+      connectionId,
+      status: status as ConnectionStatus,
+      metrics,
+      lastHeartbeat,
+      timestamp,
+    }
+  }
+
+  /**
+   * Connection metrics samples of a robot, newest first, with a link quality summary of the window
+   */
+  async getConnectionMetrics(telemetryQuery: TelemetryQuery): Promise<ConnectionMetricsHistory> {
+    const { robotId, organizationId, from, to, limit = 1000 } = telemetryQuery
+
+    const robotCheck = await this.verifyRobotAccess(robotId, organizationId)
+    if (!robotCheck) {
+      throw new NotFoundError('Robot not found')
+    }
+
+    const conditions = ['robot_id = $1']
+    const params: any[] = [robotId]
+    let paramIndex = 2
+
+    if (from) {
+      conditions.push(`time >= $${paramIndex}`)
+      params.push(from)
+      paramIndex++
+    }
+
+    if (to) {
+      conditions.push(`time <= $${paramIndex}`)
+      params.push(to)
+      paramIndex++
+    }
+
+    const result = await query(
+      `SELECT time, connection_id, status, uptime_seconds, messages_received, messages_sent,
+              bytes_received, bytes_sent, average_latency_ms, error_count, reconnect_count,
+              last_error_at, last_heartbeat_at
+       FROM robot_connection_metrics
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY time DESC
+       LIMIT $${paramIndex}`,
+      [...params, limit]
+    )
+
+    const samples: ConnectionMetricsSample[] = result.rows.map((row: any) => ({
+      robotId,
+      connectionId: row.connection_id || undefined,
+      status: row.status,
+      metrics: {
+        uptime: Number(row.uptime_seconds),
+        messagesReceived: Number(row.messages_received),
+        messagesSent: Number(row.messages_sent),
+        bytesReceived: Number(row.bytes_received),
+        bytesSent: Number(row.bytes_sent),
+        averageLatency: Number(row.average_latency_ms),
+        errorCount: Number(row.error_count),
+        reconnects: Number(row.reconnect_count),
+        lastErrorAt: row.last_error_at || undefined,
+      },
+      lastHeartbeat: row.last_heartbeat_at || undefined,
+      timestamp: row.time,
+    }))
+
+    return { samples, summary: this.summarizeLinkQuality(samples) }
+  }
+
   /**
    * Get telemetry data for a robot with optional filtering
    */
@@ -306,20 +541,52 @@ export class TelemetryService {
     }
 
     const whereClause = conditions.join(' AND ')
-    const aggregationFn = this.getAggregationFunction(aggregation)
     const timeWindowInterval = this.getTimeWindowInterval(timeWindow)
 
-    const result = await query(
-      `SELECT
-         time_bucket('${timeWindowInterval}', time) as time_bucket,
-         robot_id,
-         ${aggregationFn}(value) as value
-       FROM robot_telemetry
-       WHERE ${whereClause}
-       GROUP BY time_bucket, robot_id
-       ORDER BY time_bucket DESC`,
-      params
-    )
+    // Raw points past the raw retention window only survive as rollups
+    const cutoffs = await telemetryRetentionService.getRetentionCutoffs(organizationId)
+    const useRollups = cutoffs.raw !== null && (!from || from < cutoffs.raw)
+
+    let result
+    if (useRollups) {
+      const rollupWidth = telemetryRetentionService.selectRollupWidth(timeWindow, from, cutoffs)
+
+      // Raw points are shaped like single-sample rollups so both sources aggregate together
+      result = await query(
+        `SELECT
+           time_bucket('${timeWindowInterval}', time) as time_bucket,
+           robot_id,
+           ${this.getRollupAggregationExpression(aggregation)} as value
+         FROM (
+           SELECT time, robot_id, metric_name, 1 AS sample_count,
+                  value AS value_sum, value AS value_min, value AS value_max
+           FROM robot_telemetry
+           WHERE value IS NOT NULL
+           UNION ALL
+           SELECT bucket, robot_id, metric_name, sample_count, value_sum, value_min, value_max
+           FROM robot_telemetry_rollups
+           WHERE bucket_width = $${paramIndex}
+         ) samples
+         WHERE ${whereClause}
+         GROUP BY time_bucket, robot_id
+         ORDER BY time_bucket DESC`,
+        [...params, rollupWidth]
+      )
+    } else {
+      const aggregationFn = this.getAggregationFunction(aggregation)
+
+      result = await query(
+        `SELECT
+           time_bucket('${timeWindowInterval}', time) as time_bucket,
+           robot_id,
+           ${aggregationFn}(value) as value
+         FROM robot_telemetry
+         WHERE ${whereClause}
+         GROUP BY time_bucket, robot_id
+         ORDER BY time_bucket DESC`,
+        params
+      )
+    }
 
     return result.rows.map((row: any) => ({
       robotId: row.robot_id,
@@ -713,6 +980,64 @@ export class TelemetryService {
     }
   }
 
+  // Counters grow for the lifetime of a connection, so the window's totals are the increments
+  // between consecutive samples. The oldest sample is the baseline, a new connection id or a
+  // counter that went down means the counting started over.
+  private summarizeLinkQuality(samples: ConnectionMetricsSample[]): LinkQualitySummary {
+    const chronological = [...samples].reverse()
+    const summary: LinkQualitySummary = {
+      samples: samples.length,
+      connectedRatio: 0,
+      averageLatency: 0,
+      maxLatency: 0,
+      errors: 0,
+      reconnects: 0,
+      bytesReceived: 0,
+      bytesSent: 0,
+      from: chronological[0]?.timestamp,
+      to: chronological[chronological.length - 1]?.timestamp,
+    }
+
+    let connected = 0
+    let latencySum = 0
+    let latencySamples = 0
+
+    chronological.forEach((sample, index) => {
+      const { metrics } = sample
+      if (sample.status === ConnectionStatus.CONNECTED) {
+        connected++
+      }
+      if (metrics.averageLatency > 0) {
+        latencySum += metrics.averageLatency
+        latencySamples++
+        summary.maxLatency = Math.max(summary.maxLatency, metrics.averageLatency)
+      }
+
+      const previous = chronological[index - 1]
+      if (!previous) {
+        return
+      }
+
+      const restarted = sample.connectionId !== previous.connectionId
+      const increment = (current = 0, before = 0) =>
+        !restarted && current >= before ? current - before : current
+
+      summary.errors += increment(metrics.errorCount, previous.metrics.errorCount)
+      summary.reconnects += increment(metrics.reconnects, previous.metrics.reconnects)
+      summary.bytesReceived += increment(metrics.bytesReceived, previous.metrics.bytesReceived)
+      summary.bytesSent += increment(metrics.bytesSent, previous.metrics.bytesSent)
+    })
+
+    if (samples.length > 0) {
+      summary.connectedRatio = connected / samples.length
+    }
+    if (latencySamples > 0) {
+      summary.averageLatency = latencySum / latencySamples
+    }
+
+    return summary
+  }
+
   private async verifyRobotAccess(robotId: string, organizationId: string): Promise<boolean> {
     // Validate UUID format (allow specific test IDs in test environment)
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
@@ -747,6 +1072,21 @@ export class TelemetryService {
     }
   }
 
+  private getRollupAggregationExpression(aggregation: AggregationType): string {
+    switch (aggregation) {
+      case 'min':
+        return 'MIN(value_min)'
+      case 'max':
+        return 'MAX(value_max)'
+      case 'sum':
+        return 'SUM(value_sum)'
+      case 'count':
+        return 'SUM(sample_count)'
+      default:
+        return 'SUM(value_sum) / NULLIF(SUM(sample_count), 0)'
+    }
+  }
+
   private getTimeWindowInterval(timeWindow: TimeWindow): string {
     switch (timeWindow) {
       case '1m':
@@ -759,6 +1099,10 @@ export class TelemetryService {
         return '1 hour'
       case '1d':
         return '1 day'
+      case '1w':
+        return '1 week'
+      case '1M':
+        return '1 month'
       default:
         return '1 hour'
     }
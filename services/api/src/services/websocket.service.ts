@@ -174,6 +174,10 @@ class WebSocketService {
       return this.sendError(ws, 'Authentication required for private channels')
     }
 
+    if (!this.canReceive(ws, channel)) {
+      return this.sendError(ws, 'Channel belongs to another organization')
+    }
+
     // Add to subscriptions
     ws.subscriptions.add(channel)
 
@@ -278,6 +282,14 @@ class WebSocketService {
     return channel.startsWith('robot:') || channel.startsWith('org:') || channel.startsWith('user:')
   }
 
+  // Organization channels (org:<id> and org:<id>:<topic>) only reach that organization's sockets
+  private canReceive(ws: ExtendedWebSocket, channel: string): boolean {
+    if (!channel.startsWith('org:')) {
+      return true
+    }
+    return Boolean(ws.organizationId) && channel.split(':')[1] === ws.organizationId
+  }
+
   private setupHeartbeat(): void {
     const interval = parseInt(process.env.WS_HEARTBEAT_INTERVAL || '30000')
 
@@ -347,7 +359,10 @@ class WebSocketService {
     }
 
     this.clients.forEach((ws) => {
-      if (ws.subscriptions.has(channel) || ws.subscriptions.has('*')) {
+      if (
+        (ws.subscriptions.has(channel) || ws.subscriptions.has('*')) &&
+        this.canReceive(ws, channel)
+      ) {
         this.sendMessage(ws, message)
       }
     })
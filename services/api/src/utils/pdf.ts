@@ -0,0 +1,117 @@
+/**
+ * Minimal PDF writer for printable, text-based reports.
+ *
+ * Produces a PDF 1.4 document using the standard Helvetica and Courier fonts,
+ * so no font embedding or external dependency is needed. Lines are laid out
+ * top to bottom on A4 pages and wrap onto new pages automatically.
+ */
+
+export interface PdfLine {
+  text: string
+  size?: number
+  bold?: boolean
+  mono?: boolean // Fixed-width font, for aligned table rows
+  spaceBefore?: number
+}
+
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 50
+const DEFAULT_FONT_SIZE = 10
+const LINE_SPACING = 1.4
+
+export function renderPdf(lines: PdfLine[], footer?: string): Buffer {
+  const pages = paginate(lines)
+  const objects: string[] = []
+
+  // Fixed objects: catalog, page tree and the three standard fonts
+  const fontObjects = ['Helvetica', 'Helvetica-Bold', 'Courier'].map(
+    (font) => `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`
+  )
+  const firstPageObject = 3 + fontObjects.length
+  const pageRefs = pages.map((_, index) => `${firstPageObject + index * 2} 0 R`)
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>')
+  objects.push(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`)
+  objects.push(...fontObjects)
+
+  pages.forEach((page, index) => {
+    const content = renderPage(page, footer, index + 1, pages.length)
+    const contentRef = firstPageObject + index * 2 + 1
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${contentRef} 0 R >>`
+    )
+    objects.push(
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    )
+  })
+
+  let output = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'))
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`
+  })
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1')
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  output += offsets.map((offset) => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('')
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return Buffer.from(output, 'latin1')
+}
+
+interface PositionedLine extends PdfLine {
+  y: number
+}
+
+function paginate(lines: PdfLine[]): PositionedLine[][] {
+  const pages: PositionedLine[][] = [[]]
+  let y = PAGE_HEIGHT - MARGIN
+
+  for (const line of lines) {
+    const size = line.size || DEFAULT_FONT_SIZE
+    const height = size * LINE_SPACING + (line.spaceBefore || 0)
+
+    // Leave room at the bottom of each page for the footer
+    if (y - height < MARGIN + 20) {
+      pages.push([])
+      y = PAGE_HEIGHT - MARGIN
+    }
+
+    y -= height
+    pages[pages.length - 1].push({ ...line, y })
+  }
+
+  return pages
+}
+
+function renderPage(
+  lines: PositionedLine[],
+  footer: string | undefined,
+  pageNumber: number,
+  pageCount: number
+): string {
+  const commands = lines.map((line) => {
+    const font = line.mono ? 'F3' : line.bold ? 'F2' : 'F1'
+    const size = line.size || DEFAULT_FONT_SIZE
+    return `BT /${font} ${size} Tf ${MARGIN} ${line.y.toFixed(2)} Td (${escapeText(line.text)}) Tj ET`
+  })
+
+  const footerText = `${footer ? `${footer} - ` : ''}Page ${pageNumber} of ${pageCount}`
+  commands.push(`BT /F1 8 Tf ${MARGIN} ${MARGIN - 20} Td (${escapeText(footerText)}) Tj ET`)
+
+  return commands.join('\n')
+}
+
+function escapeText(text: string): string {
+  return (
+    text
+      // Standard fonts only cover WinAnsi, so drop characters outside Latin-1
+      .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+      .replace(/\\/g, '\\\\')
+      .replace(/\(/g, '\\(')
+      .replace(/\)/g, '\\)')
+  )
+}
@@ -0,0 +1,365 @@
+import {
+  CommandPriority,
+  CommandStatus,
+  ConnectionProtocol,
+  ConnectionStatus,
+  DefaultVendorRegistry,
+  IRobotVendorAdapter,
+  RobotCommand,
+  RobotCommandType,
+  RobotVendor,
+  VendorAdapterConfig,
+  VendorEventType,
+} from '@urfmp/types'
+import { EdgeAgent, EdgeApiClient } from '../agent'
+import { EdgeAgentConfig, validateConfig } from '../config'
+
+const ROBOT_ID = '00000000-0000-4000-8000-000000000001'
+
+const createConfig = (): EdgeAgentConfig => ({
+  apiUrl: 'http://localhost:3000',
+  apiKey: 'test-key',
+  // Long intervals keep the timers out of the way, the tests drive the agent directly
+  telemetryIntervalMs: 60000,
+  commandPollIntervalMs: 60000,
+  reconnectIntervalMs: 60000,
+  metricsIntervalMs: 60000,
+  commandQueue: 'robot_commands',
+  robots: [
+    {
+      robotId: ROBOT_ID,
+      vendor: RobotVendor.UNIVERSAL_ROBOTS,
+      connection: { host: '192.168.1.100', port: 29999, protocol: ConnectionProtocol.TCP },
+    },
+  ],
+})
+
+const createCommand = (id: string, priority: CommandPriority, createdAt: string): RobotCommand => ({
+  id,
+  robotId: ROBOT_ID,
+  organizationId: 'test-org',
+  type: RobotCommandType.START,
+  payload: {},
+  priority,
+  status: CommandStatus.QUEUED,
+  createdAt: new Date(createdAt),
+  createdBy: 'test-user',
+})
+
+describe('EdgeAgent', () => {
+  let adapter: jest.Mocked<IRobotVendorAdapter>
+  let client: jest.Mocked<EdgeApiClient>
+  let registry: DefaultVendorRegistry
+  let agent: EdgeAgent
+
+  beforeEach(() => {
+    adapter = {
+      vendor: RobotVendor.UNIVERSAL_ROBOTS,
+      connect: jest.fn().mockResolvedValue({
+        id: 'conn-1',
+        robotId: 'UR12345',
+        status: ConnectionStatus.CONNECTED,
+        metrics: { uptime: 42, averageLatency: 8, errorCount: 0, reconnects: 1 },
+      }),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      sendCommand: jest.fn().mockResolvedValue({
+        success: true,
+        commandId: 'cmd-1',
+        result: { message: 'Starting program' },
+        executionTime: 12,
+        timestamp: new Date(),
+      }),
+      getTelemetry: jest.fn().mockResolvedValue({ data: { position: { x: 1, y: 2, z: 3 } } }),
+      subscribeToEvents: jest.fn().mockResolvedValue({ id: 'sub-1' }),
+      unsubscribeFromEvents: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IRobotVendorAdapter>
+
+    client = {
+      sendTelemetry: jest.fn().mockResolvedValue({}),
+      sendEvent: jest.fn().mockResolvedValue({}),
+      sendConnectionMetrics: jest.fn().mockResolvedValue({}),
+      getCommandHistory: jest.fn().mockResolvedValue({ data: [], pagination: {} }),
+      updateCommandStatus: jest.fn().mockResolvedValue({}),
+    } as unknown as jest.Mocked<EdgeApiClient>
+
+    registry = new DefaultVendorRegistry()
+    registry.register(adapter)
+    agent = new EdgeAgent(createConfig(), registry, client)
+  })
+
+  afterEach(async () => {
+    await agent.stop()
+  })
+
+  it('should connect configured robots through the registered adapter', async () => {
+    await agent.start()
+
+    expect(adapter.connect).toHaveBeenCalledWith(expect.objectContaining({ host: '192.168.1.100' }))
+    expect(adapter.subscribeToEvents).toHaveBeenCalledWith('conn-1', expect.any(Function))
+    expect(agent.getConnectedRobotIds()).toEqual([ROBOT_ID])
+  })
+
+  it('should skip robots whose vendor has no adapter', async () => {
+    registry.unregister(RobotVendor.UNIVERSAL_ROBOTS)
+
+    await agent.start()
+
+    expect(adapter.connect).not.toHaveBeenCalled()
+    expect(agent.getConnectedRobotIds()).toEqual([])
+  })
+
+  it('should connect robots naming an adapter through that adapter', async () => {
+    const modbus = {
+      ...adapter,
+      vendor: RobotVendor.CUSTOM,
+      connect: jest.fn().mockResolvedValue({ id: 'conn-2', robotId: 'modbus-plc' }),
+    } as jest.Mocked<IRobotVendorAdapter>
+    registry.register(modbus, { name: 'modbus' } as VendorAdapterConfig)
+    registry.register({ ...modbus, connect: jest.fn() }, { name: 'opcua' } as VendorAdapterConfig)
+    const config = createConfig()
+    config.robots[0] = { ...config.robots[0], vendor: RobotVendor.CUSTOM, adapter: 'modbus' }
+    agent = new EdgeAgent(config, registry, client)
+
+    await agent.start()
+
+    expect(modbus.connect).toHaveBeenCalledTimes(1)
+    expect(adapter.connect).not.toHaveBeenCalled()
+    expect(agent.getConnectedRobotIds()).toEqual([ROBOT_ID])
+  })
+
+  it('should keep running when a robot cannot be reached', async () => {
+    adapter.connect.mockRejectedValueOnce(new Error('ECONNREFUSED'))
+
+    await agent.start()
+
+    expect(agent.getConnectedRobotIds()).toEqual([])
+  })
+
+  it('should forward adapter telemetry under the configured robot id', async () => {
+    await agent.start()
+    await agent.sendTelemetry(ROBOT_ID)
+
+    expect(adapter.getTelemetry).toHaveBeenCalledWith('conn-1')
+    expect(client.sendTelemetry).toHaveBeenCalledWith(ROBOT_ID, { position: { x: 1, y: 2, z: 3 } })
+  })
+
+  it('should forward adapter events to the API', async () => {
+    await agent.start()
+
+    const callback = adapter.subscribeToEvents.mock.calls[0][1]
+    const timestamp = new Date()
+    callback({
+      id: 'evt-1',
+      type: VendorEventType.PROGRAM_STARTED,
+      robotId: 'UR12345',
+      data: { program: 'pick.urp' },
+      timestamp,
+      source: 'universal_robots',
+    })
+
+    expect(client.sendEvent).toHaveBeenCalledWith(ROBOT_ID, {
+      type: VendorEventType.PROGRAM_STARTED,
+      data: { program: 'pick.urp' },
+      source: 'universal_robots',
+      timestamp,
+    })
+  })
+
+  it('should publish adapter connection metrics under the configured robot id', async () => {
+    await agent.start()
+    await agent.sendConnectionMetrics(ROBOT_ID)
+
+    expect(client.sendConnectionMetrics).toHaveBeenCalledWith(
+      ROBOT_ID,
+      expect.objectContaining({
+        connectionId: 'conn-1',
+        status: ConnectionStatus.CONNECTED,
+        metrics: { uptime: 42, averageLatency: 8, errorCount: 0, reconnects: 1 },
+        timestamp: expect.any(Date),
+      })
+    )
+  })
+
+  it('should not read telemetry while the adapter reconnects', async () => {
+    adapter.connect.mockResolvedValueOnce({
+      id: 'conn-1',
+      status: ConnectionStatus.RECONNECTING,
+    } as any)
+    await agent.start()
+    await agent.sendTelemetry(ROBOT_ID)
+
+    expect(adapter.getTelemetry).not.toHaveBeenCalled()
+  })
+
+  it('should reconnect a robot whose adapter gave up on the link', async () => {
+    adapter.connect.mockResolvedValueOnce({ id: 'conn-1', status: ConnectionStatus.ERROR } as any)
+    await agent.start()
+    await agent.sendConnectionMetrics(ROBOT_ID)
+
+    expect(client.sendConnectionMetrics).toHaveBeenCalledWith(
+      ROBOT_ID,
+      expect.objectContaining({ status: ConnectionStatus.ERROR })
+    )
+    expect(adapter.disconnect).toHaveBeenCalledWith('conn-1')
+    expect(agent.getConnectedRobotIds()).toEqual([])
+  })
+
+  it('should execute queued commands by priority and report the result', async () => {
+    client.getCommandHistory.mockResolvedValueOnce({
+      data: [
+        createCommand('cmd-normal', CommandPriority.NORMAL, '2025-01-01T00:00:00Z'),
+        createCommand('cmd-critical', CommandPriority.CRITICAL, '2025-01-01T00:00:05Z'),
+      ],
+      pagination: {} as any,
+    })
+
+    await agent.start()
+    await agent.pollCommands()
+
+    expect(client.getCommandHistory).toHaveBeenCalledWith(ROBOT_ID, {
+      status: CommandStatus.QUEUED,
+      limit: 10,
+    })
+    expect(adapter.sendCommand.mock.calls.map(([, command]) => command.id)).toEqual([
+      'cmd-critical',
+      'cmd-normal',
+    ])
+    expect(client.updateCommandStatus).toHaveBeenNthCalledWith(1, ROBOT_ID, 'cmd-critical', {
+      status: CommandStatus.EXECUTING,
+    })
+    expect(client.updateCommandStatus).toHaveBeenNthCalledWith(2, ROBOT_ID, 'cmd-critical', {
+      status: CommandStatus.COMPLETED,
+      result: { result: { message: 'Starting program' }, executionTime: 12 },
+    })
+  })
+
+  it('should run a critical command while another command is still running', async () => {
+    let finishMove: (value: any) => void = () => undefined
+    adapter.sendCommand.mockReturnValueOnce(new Promise((resolve) => (finishMove = resolve)))
+    client.getCommandHistory
+      .mockResolvedValueOnce({
+        data: [createCommand('cmd-move', CommandPriority.NORMAL, '2025-01-01T00:00:00Z')],
+        pagination: {} as any,
+      })
+      .mockResolvedValueOnce({
+        data: [
+          createCommand('cmd-move', CommandPriority.NORMAL, '2025-01-01T00:00:00Z'),
+          createCommand('cmd-estop', CommandPriority.CRITICAL, '2025-01-01T00:00:05Z'),
+        ],
+        pagination: {} as any,
+      })
+
+    await agent.start()
+    const firstPoll = agent.pollCommands()
+    await new Promise((resolve) => setImmediate(resolve))
+    await agent.pollCommands()
+
+    expect(adapter.sendCommand.mock.calls.map(([, command]) => command.id)).toEqual([
+      'cmd-move',
+      'cmd-estop',
+    ])
+    expect(client.updateCommandStatus).toHaveBeenCalledWith(ROBOT_ID, 'cmd-estop', {
+      status: CommandStatus.COMPLETED,
+      result: { result: { message: 'Starting program' }, executionTime: 12 },
+    })
+
+    finishMove({ success: true, commandId: 'cmd-move', executionTime: 500, timestamp: new Date() })
+    await firstPoll
+    expect(adapter.sendCommand).toHaveBeenCalledTimes(2)
+  })
+
+  it('should fetch commands right away when the command queue announces one', async () => {
+    client.getCommandHistory.mockResolvedValueOnce({
+      data: [createCommand('cmd-estop', CommandPriority.CRITICAL, '2025-01-01T00:00:00Z')],
+      pagination: {} as any,
+    })
+
+    await agent.start()
+    await agent.handleQueuedCommand({ robotId: 'robot-of-another-agent' })
+    expect(client.getCommandHistory).not.toHaveBeenCalled()
+
+    await agent.handleQueuedCommand({ robotId: ROBOT_ID })
+    expect(adapter.sendCommand).toHaveBeenCalledWith(
+      'conn-1',
+      expect.objectContaining({ id: 'cmd-estop' })
+    )
+  })
+
+  it('should mark a command failed when the adapter rejects it', async () => {
+    adapter.sendCommand.mockResolvedValueOnce({
+      success: false,
+      commandId: 'cmd-1',
+      error: 'Robot is in protective stop',
+      executionTime: 3,
+      timestamp: new Date(),
+    })
+
+    await agent.start()
+    await agent.executeCommand(
+      ROBOT_ID,
+      createCommand('cmd-1', CommandPriority.NORMAL, '2025-01-01T00:00:00Z')
+    )
+
+    expect(client.updateCommandStatus).toHaveBeenLastCalledWith(ROBOT_ID, 'cmd-1', {
+      status: CommandStatus.FAILED,
+      error: 'Robot is in protective stop',
+    })
+  })
+
+  it('should not execute a command the API no longer lets it claim', async () => {
+    client.updateCommandStatus.mockRejectedValueOnce(
+      new Error('Cannot move a cancelled command to executing')
+    )
+
+    await agent.start()
+    await agent.executeCommand(
+      ROBOT_ID,
+      createCommand('cmd-1', CommandPriority.NORMAL, '2025-01-01T00:00:00Z')
+    )
+
+    expect(adapter.sendCommand).not.toHaveBeenCalled()
+  })
+
+  it('should not claim a command past its timeout', async () => {
+    await agent.start()
+    await agent.executeCommand(ROBOT_ID, {
+      ...createCommand('cmd-1', CommandPriority.NORMAL, '2025-01-01T00:00:00Z'),
+      timeoutAt: new Date(Date.now() - 1000),
+    })
+
+    expect(client.updateCommandStatus).not.toHaveBeenCalled()
+    expect(adapter.sendCommand).not.toHaveBeenCalled()
+  })
+
+  it('should report a timeout when the adapter outlasts the command timeout', async () => {
+    adapter.sendCommand.mockReturnValueOnce(new Promise(() => undefined))
+
+    await agent.start()
+    await agent.executeCommand(ROBOT_ID, {
+      ...createCommand('cmd-1', CommandPriority.NORMAL, '2025-01-01T00:00:00Z'),
+      timeoutAt: new Date(Date.now() + 20),
+    })
+
+    expect(client.updateCommandStatus).toHaveBeenLastCalledWith(ROBOT_ID, 'cmd-1', {
+      status: CommandStatus.TIMEOUT,
+      error: 'Command did not finish before its timeout',
+    })
+  })
+
+  it('should disconnect robots on stop', async () => {
+    await agent.start()
+    await agent.stop()
+
+    expect(adapter.unsubscribeFromEvents).toHaveBeenCalledWith('sub-1')
+    expect(adapter.disconnect).toHaveBeenCalledWith('conn-1')
+    expect(agent.getConnectedRobotIds()).toEqual([])
+  })
+})
+
+describe('validateConfig', () => {
+  it('should reject configs without an api key or robots', () => {
+    expect(() => validateConfig({ ...createConfig(), apiKey: '', robots: [] })).toThrow(
+      'Invalid edge agent config: apiKey is required; at least one robot must be configured'
+    )
+  })
+})
@@ -0,0 +1,451 @@
+import {
+  CommandPriority,
+  CommandStatus,
+  ConnectionStatus,
+  EventSubscription,
+  IRobotVendorAdapter,
+  RobotCommand,
+  VendorConnection,
+  VendorEvent,
+  VendorRegistry,
+} from '@urfmp/types'
+import type { URFMP } from '@urfmp/sdk'
+import type { QueuedCommandMessage } from './command-queue'
+import { EdgeAgentConfig, EdgeRobotConfig } from './config'
+import { logger } from './logger'
+
+// The parts of the SDK client the agent talks to the API through
+export type EdgeApiClient = Pick<
+  URFMP,
+  | 'sendTelemetry'
+  | 'sendEvent'
+  | 'sendConnectionMetrics'
+  | 'getCommandHistory'
+  | 'updateCommandStatus'
+>
+
+interface RobotSession {
+  config: EdgeRobotConfig
+  adapter: IRobotVendorAdapter
+  connection?: VendorConnection
+  subscription?: EventSubscription
+  telemetryTimer?: NodeJS.Timeout
+  metricsTimer?: NodeJS.Timeout
+  reconnectTimer?: NodeJS.Timeout
+  sendingTelemetry: boolean
+  pollingCommands: boolean
+  // Commands run one after another, CRITICAL ones in a lane of their own so they never wait
+  // behind a command that is already running
+  commandLane: Promise<void>
+  criticalLane: Promise<void>
+  // Fetched and not finished yet, the API still lists them as queued until they are claimed
+  claimedCommands: Set<string>
+  // Link status at the last metrics publish, to log changes
+  linkStatus?: ConnectionStatus
+}
+
+const PRIORITY_ORDER: Record<CommandPriority, number> = {
+  [CommandPriority.CRITICAL]: 0,
+  [CommandPriority.HIGH]: 1,
+  [CommandPriority.NORMAL]: 2,
+  [CommandPriority.LOW]: 3,
+}
+
+const COMMAND_BATCH_SIZE = 10
+
+export class EdgeAgent {
+  private sessions = new Map<string, RobotSession>()
+  private commandTimer?: NodeJS.Timeout
+  private stopped = true
+
+  constructor(
+    private readonly config: EdgeAgentConfig,
+    private readonly registry: VendorRegistry,
+    private readonly client: EdgeApiClient
+  ) {}
+
+  /**
+   * Connect every configured robot and start streaming telemetry and polling commands
+   */
+  async start(): Promise<void> {
+    if (!this.stopped) {
+      return
+    }
+    this.stopped = false
+
+    for (const robot of this.config.robots) {
+      const adapter = robot.adapter
+        ? this.registry.getByName(robot.adapter)
+        : this.registry.get(robot.vendor)
+      if (!adapter) {
+        logger.error('No adapter registered for robot, skipping robot', {
+          robotId: robot.robotId,
+          vendor: robot.vendor,
+          adapter: robot.adapter,
+        })
+        continue
+      }
+
+      const session: RobotSession = {
+        config: robot,
+        adapter,
+        sendingTelemetry: false,
+        pollingCommands: false,
+        commandLane: Promise.resolve(),
+        criticalLane: Promise.resolve(),
+        claimedCommands: new Set(),
+      }
+      this.sessions.set(robot.robotId, session)
+      await this.connectRobot(session)
+    }
+
+    this.commandTimer = setInterval(() => {
+      this.pollCommands().catch((error) => {
+        logger.error('Command poll failed', { error: (error as Error).message })
+      })
+    }, this.config.commandPollIntervalMs)
+
+    logger.info('Edge agent started', {
+      robots: this.sessions.size,
+      connected: this.getConnectedRobotIds().length,
+    })
+  }
+
+  /**
+   * Stop all timers and disconnect every robot
+   */
+  async stop(): Promise<void> {
+    this.stopped = true
+
+    if (this.commandTimer) {
+      clearInterval(this.commandTimer)
+      this.commandTimer = undefined
+    }
+
+    for (const session of this.sessions.values()) {
+      if (session.reconnectTimer) {
+        clearTimeout(session.reconnectTimer)
+        session.reconnectTimer = undefined
+      }
+      await this.disconnectRobot(session)
+    }
+
+    this.sessions.clear()
+    logger.info('Edge agent stopped')
+  }
+
+  /**
+   * Ids of the robots with a live adapter connection
+   */
+  getConnectedRobotIds(): string[] {
+    return Array.from(this.sessions.values())
+      .filter((session) => session.connection)
+      .map((session) => session.config.robotId)
+  }
+
+  /**
+   * Read telemetry from a robot's adapter and forward it to the ingest API
+   */
+  async sendTelemetry(robotId: string): Promise<void> {
+    const session = this.sessions.get(robotId)
+    if (
+      !session?.connection ||
+      session.sendingTelemetry ||
+      session.connection.status === ConnectionStatus.RECONNECTING
+    ) {
+      return
+    }
+
+    // A slow controller or API must not stack up overlapping reads
+    session.sendingTelemetry = true
+    try {
+      const telemetry = await session.adapter.getTelemetry(session.connection.id)
+      await this.client.sendTelemetry(robotId, telemetry.data)
+    } catch (error) {
+      logger.warn('Failed to forward telemetry', { robotId, error: (error as Error).message })
+    } finally {
+      session.sendingTelemetry = false
+    }
+  }
+
+  /**
+   * Publish a robot's adapter connection metrics, and take over reconnecting when the adapter has
+   * given up on the link
+   */
+  async sendConnectionMetrics(robotId: string): Promise<void> {
+    const session = this.sessions.get(robotId)
+    const connection = session?.connection
+    if (!session || !connection) {
+      return
+    }
+
+    if (connection.status !== session.linkStatus) {
+      const level = connection.status === ConnectionStatus.CONNECTED ? 'info' : 'warn'
+      logger.log(level, 'Robot link status changed', {
+        robotId,
+        from: session.linkStatus,
+        to: connection.status,
+      })
+      session.linkStatus = connection.status
+    }
+
+    try {
+      await this.client.sendConnectionMetrics(robotId, {
+        connectionId: connection.id,
+        status: connection.status,
+        metrics: connection.metrics,
+        lastHeartbeat: connection.lastHeartbeat,
+        timestamp: new Date(),
+      })
+    } catch (error) {
+      logger.warn('Failed to publish connection metrics', {
+        robotId,
+        error: (error as Error).message,
+      })
+    }
+
+    if (
+      connection.status === ConnectionStatus.ERROR ||
+      connection.status === ConnectionStatus.DISCONNECTED
+    ) {
+      logger.warn('Adapter gave up on robot link, reconnecting', { robotId })
+      await this.disconnectRobot(session)
+      this.scheduleReconnect(session)
+    }
+  }
+
+  /**
+   * Fetch queued commands for every connected robot and execute them in priority order, robots
+   * independently of each other
+   */
+  async pollCommands(): Promise<void> {
+    await Promise.all(this.getConnectedRobotIds().map((robotId) => this.pollRobotCommands(robotId)))
+  }
+
+  /**
+   * Fetch a robot's queued commands as soon as the API's command queue announces one, rather than
+   * at the next poll. Messages for robots of other agents are ignored
+   */
+  async handleQueuedCommand(message: Pick<QueuedCommandMessage, 'robotId'>): Promise<void> {
+    if (!this.sessions.get(message.robotId)?.connection) {
+      return
+    }
+    await this.pollRobotCommands(message.robotId)
+  }
+
+  /**
+   * Run one queued command through the robot's adapter, reporting each status change
+   */
+  async executeCommand(robotId: string, command: RobotCommand): Promise<void> {
+    const session = this.sessions.get(robotId)
+    if (!session?.connection) {
+      return
+    }
+
+    // Past its deadline the API times the command out, a robot must not act on it late
+    const deadline = command.timeoutAt ? new Date(command.timeoutAt).getTime() : undefined
+    if (deadline !== undefined && deadline <= Date.now()) {
+      logger.info('Skipping command past its timeout', { robotId, commandId: command.id })
+      return
+    }
+
+    try {
+      await this.client.updateCommandStatus(robotId, command.id, {
+        status: CommandStatus.EXECUTING,
+      })
+    } catch (error) {
+      // Cancelled or timed out since it was fetched, the API refuses the transition
+      logger.info('Skipping command that can no longer be executed', {
+        robotId,
+        commandId: command.id,
+        error: (error as Error).message,
+      })
+      return
+    }
+
+    let update: { status: CommandStatus; result?: Record<string, any>; error?: string }
+    let timer: NodeJS.Timeout | undefined
+    try {
+      const execution = session.adapter.sendCommand(session.connection.id, command)
+      const result =
+        deadline === undefined
+          ? await execution
+          : await Promise.race([
+              execution,
+              new Promise<null>((resolve) => {
+                timer = setTimeout(() => resolve(null), Math.max(0, deadline - Date.now()))
+              }),
+            ])
+
+      update = !result
+        ? { status: CommandStatus.TIMEOUT, error: 'Command did not finish before its timeout' }
+        : result.success
+          ? {
+              status: CommandStatus.COMPLETED,
+              result: { result: result.result, executionTime: result.executionTime },
+            }
+          : { status: CommandStatus.FAILED, error: result.error || 'Command failed' }
+    } catch (error) {
+      update = { status: CommandStatus.FAILED, error: (error as Error).message }
+    } finally {
+      clearTimeout(timer)
+    }
+
+    try {
+      await this.client.updateCommandStatus(robotId, command.id, update)
+      logger.info('Command executed', { robotId, commandId: command.id, status: update.status })
+    } catch (error) {
+      logger.error('Failed to report command result', {
+        robotId,
+        commandId: command.id,
+        status: update.status,
+        error: (error as Error).message,
+      })
+    }
+  }
+
+  /**
+   * Fetch a robot's queued commands and line them up behind the ones it is running, resolving once
+   * the fetched commands have run
+   */
+  private async pollRobotCommands(robotId: string): Promise<void> {
+    const session = this.sessions.get(robotId)
+    if (!session || session.pollingCommands) {
+      return
+    }
+
+    let commands: RobotCommand[]
+    session.pollingCommands = true
+    try {
+      const { data } = await this.client.getCommandHistory(robotId, {
+        status: CommandStatus.QUEUED,
+        limit: COMMAND_BATCH_SIZE,
+      })
+      commands = this.sortCommands(data).filter(
+        (command) => !session.claimedCommands.has(command.id)
+      )
+    } catch (error) {
+      logger.warn('Failed to fetch queued commands', {
+        robotId,
+        error: (error as Error).message,
+      })
+      return
+    } finally {
+      session.pollingCommands = false
+    }
+
+    const runs = commands.map((command) => {
+      session.claimedCommands.add(command.id)
+      const run = () =>
+        this.executeCommand(robotId, command).finally(() =>
+          session.claimedCommands.delete(command.id)
+        )
+
+      if (command.priority === CommandPriority.CRITICAL) {
+        session.criticalLane = session.criticalLane.then(run)
+        return session.criticalLane
+      }
+      // Other commands still go after every CRITICAL one fetched before them
+      session.commandLane = Promise.all([session.commandLane, session.criticalLane]).then(run)
+      return session.commandLane
+    })
+    await Promise.all(runs)
+  }
+
+  private async connectRobot(session: RobotSession): Promise<void> {
+    const { robotId } = session.config
+
+    try {
+      session.connection = await session.adapter.connect(session.config.connection)
+      session.linkStatus = session.connection.status
+
+      session.subscription = await session.adapter.subscribeToEvents(
+        session.connection.id,
+        (event) => this.forwardEvent(robotId, event)
+      )
+
+      session.telemetryTimer = setInterval(
+        () => this.sendTelemetry(robotId),
+        session.config.telemetryIntervalMs || this.config.telemetryIntervalMs
+      )
+
+      session.metricsTimer = setInterval(
+        () => this.sendConnectionMetrics(robotId),
+        this.config.metricsIntervalMs
+      )
+
+      logger.info('Robot connected', { robotId, connectionId: session.connection.id })
+    } catch (error) {
+      logger.error('Failed to connect robot', { robotId, error: (error as Error).message })
+      await this.disconnectRobot(session)
+      this.scheduleReconnect(session)
+    }
+  }
+
+  private async disconnectRobot(session: RobotSession): Promise<void> {
+    if (session.telemetryTimer) {
+      clearInterval(session.telemetryTimer)
+      session.telemetryTimer = undefined
+    }
+    if (session.metricsTimer) {
+      clearInterval(session.metricsTimer)
+      session.metricsTimer = undefined
+    }
+
+    try {
+      if (session.subscription) {
+        await session.adapter.unsubscribeFromEvents(session.subscription.id)
+      }
+      if (session.connection) {
+        await session.adapter.disconnect(session.connection.id)
+      }
+    } catch (error) {
+      logger.warn('Failed to disconnect robot cleanly', {
+        robotId: session.config.robotId,
+        error: (error as Error).message,
+      })
+    } finally {
+      session.subscription = undefined
+      session.connection = undefined
+    }
+  }
+
+  private scheduleReconnect(session: RobotSession): void {
+    if (this.stopped || session.reconnectTimer) {
+      return
+    }
+
+    session.reconnectTimer = setTimeout(() => {
+      session.reconnectTimer = undefined
+      if (!this.stopped) {
+        this.connectRobot(session)
+      }
+    }, this.config.reconnectIntervalMs)
+  }
+
+  private forwardEvent(robotId: string, event: VendorEvent): void {
+    this.client
+      .sendEvent(robotId, {
+        type: event.type,
+        data: event.data,
+        source: event.source,
+        timestamp: event.timestamp,
+      })
+      .catch((error) => {
+        logger.warn('Failed to forward robot event', {
+          robotId,
+          type: event.type,
+          error: (error as Error).message,
+        })
+      })
+  }
+
+  private sortCommands(commands: RobotCommand[]): RobotCommand[] {
+    return [...commands].sort(
+      (a, b) =>
+        (PRIORITY_ORDER[a.priority] ?? PRIORITY_ORDER[CommandPriority.NORMAL]) -
+          (PRIORITY_ORDER[b.priority] ?? PRIORITY_ORDER[CommandPriority.NORMAL]) ||
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import * as amqp from 'amqplib'
+import { logger } from './logger'
+
+// Message the API publishes to its command queue for every command it queues
+export interface QueuedCommandMessage {
+  commandId: string
+  robotId: string
+  organizationId: string
+  type: string
+  priority: string
+}
+
+export interface CommandQueueConsumer {
+  close(): Promise<void>
+}
+
+/**
+ * Consume the API's command queue. robot_commands stays the source of truth and commands are
+ * still claimed through the API, so each message is acked once handed over and a lost one only
+ * waits for the next poll
+ */
+export async function consumeCommandQueue(
+  url: string,
+  queue: string,
+  onMessage: (message: QueuedCommandMessage) => void
+): Promise<CommandQueueConsumer> {
+  const connection = await amqp.connect(url)
+  connection.on('error', (error: Error) => {
+    logger.error('Command queue connection error', { error: error.message })
+  })
+  connection.on('close', () => {
+    logger.warn('Command queue connection closed, commands are only polled')
+  })
+
+  const channel = await connection.createChannel()
+  await channel.assertQueue(queue, { durable: true })
+  await channel.consume(queue, (msg) => {
+    if (!msg) {
+      return
+    }
+
+    try {
+      onMessage(JSON.parse(msg.content.toString()))
+    } catch (error) {
+      logger.warn('Ignoring unreadable command queue message', {
+        queue,
+        error: (error as Error).message,
+      })
+    }
+    channel.ack(msg)
+  })
+
+  logger.info('Consuming command queue', { queue })
+
+  return {
+    close: async () => {
+      await channel.close().catch(() => undefined)
+      await connection.close().catch(() => undefined)
+    },
+  }
+}
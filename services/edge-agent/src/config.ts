@@ -0,0 +1,93 @@
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { RobotVendor, VendorConnectionConfig } from '@urfmp/types'
+
+export interface EdgeRobotConfig {
+  // The robot's id in URFMP, telemetry and commands are routed by it
+  robotId: string
+  vendor: RobotVendor
+  // Adapter plugin name, picks one of several adapters for the same vendor, e.g. modbus
+  adapter?: string
+  connection: VendorConnectionConfig
+  telemetryIntervalMs?: number
+}
+
+export interface EdgeAgentConfig {
+  apiUrl: string
+  apiKey: string
+  telemetryIntervalMs: number
+  commandPollIntervalMs: number
+  reconnectIntervalMs: number
+  // How often adapter connection metrics are published, for per-robot link quality
+  metricsIntervalMs: number
+  // RabbitMQ the API publishes queued commands to, without it commands are only polled
+  rabbitmqUrl?: string
+  commandQueue: string
+  robots: EdgeRobotConfig[]
+}
+
+/**
+ * Load the agent configuration from the JSON file named by EDGE_AGENT_CONFIG,
+ * with the API settings overridable from the environment
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): EdgeAgentConfig {
+  const path = resolve(env.EDGE_AGENT_CONFIG || 'edge-agent.json')
+
+  let file: Partial<EdgeAgentConfig>
+  try {
+    file = JSON.parse(readFileSync(path, 'utf8'))
+  } catch (error) {
+    throw new Error(`Failed to read edge agent config ${path}: ${(error as Error).message}`)
+  }
+
+  const config: EdgeAgentConfig = {
+    apiUrl: env.URFMP_API_URL || file.apiUrl || 'http://localhost:3000',
+    apiKey: env.URFMP_API_KEY || file.apiKey || '',
+    telemetryIntervalMs: Number(env.EDGE_TELEMETRY_INTERVAL_MS || file.telemetryIntervalMs || 1000),
+    commandPollIntervalMs: Number(
+      env.EDGE_COMMAND_POLL_INTERVAL_MS || file.commandPollIntervalMs || 2000
+    ),
+    reconnectIntervalMs: Number(
+      env.EDGE_RECONNECT_INTERVAL_MS || file.reconnectIntervalMs || 10000
+    ),
+    metricsIntervalMs: Number(env.EDGE_METRICS_INTERVAL_MS || file.metricsIntervalMs || 15000),
+    rabbitmqUrl: env.RABBITMQ_URL || file.rabbitmqUrl,
+    commandQueue: env.RABBITMQ_QUEUE_COMMANDS || file.commandQueue || 'robot_commands',
+    robots: file.robots || [],
+  }
+
+  validateConfig(config)
+  return config
+}
+
+/**
+ * Throw on configuration the agent cannot run with
+ */
+export function validateConfig(config: EdgeAgentConfig): void {
+  const errors: string[] = []
+
+  if (!config.apiKey) {
+    errors.push('apiKey is required')
+  }
+
+  if (config.robots.length === 0) {
+    errors.push('at least one robot must be configured')
+  }
+
+  const vendors = Object.values(RobotVendor) as string[]
+  config.robots.forEach((robot, index) => {
+    if (!robot.robotId) {
+      errors.push(`robots[${index}].robotId is required`)
+    }
+    if (!vendors.includes(robot.vendor)) {
+      errors.push(`robots[${index}].vendor must be one of: ${vendors.join(', ')}`)
+    }
+    if (!robot.connection?.host) {
+      errors.push(`robots[${index}].connection.host is required`)
+    }
+  })
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid edge agent config: ${errors.join('; ')}`)
+  }
+}
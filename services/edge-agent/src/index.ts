@@ -0,0 +1,51 @@
+import 'dotenv/config'
+import { URFMP } from '@urfmp/sdk'
+import { EdgeAgent } from './agent'
+import { CommandQueueConsumer, consumeCommandQueue } from './command-queue'
+import { loadConfig } from './config'
+import { logger } from './logger'
+import { createVendorRegistry } from './registry'
+
+async function main(): Promise<void> {
+  const config = loadConfig()
+
+  const client = new URFMP({ apiKey: config.apiKey, baseUrl: config.apiUrl })
+  const agent = new EdgeAgent(config, createVendorRegistry(), client)
+  let commandQueue: CommandQueueConsumer | undefined
+
+  const shutdown = (signal: string) => {
+    logger.info(`${signal} received, shutting down edge agent`)
+    Promise.resolve(commandQueue?.close())
+      .then(() => agent.stop())
+      .catch((error) => logger.error('Edge agent shutdown failed', { error: error.message }))
+      .finally(() => process.exit(0))
+  }
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'))
+  process.on('SIGINT', () => shutdown('SIGINT'))
+
+  await agent.start()
+
+  if (config.rabbitmqUrl) {
+    try {
+      commandQueue = await consumeCommandQueue(
+        config.rabbitmqUrl,
+        config.commandQueue,
+        (message) => {
+          agent.handleQueuedCommand(message).catch((error) => {
+            logger.error('Queued command fetch failed', { error: (error as Error).message })
+          })
+        }
+      )
+    } catch (error) {
+      logger.warn('Command queue unavailable, commands are only polled', {
+        error: (error as Error).message,
+      })
+    }
+  }
+}
+
+main().catch((error) => {
+  logger.error('Edge agent failed to start', { error: (error as Error).message })
+  process.exit(1)
+})
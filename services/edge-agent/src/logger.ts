@@ -0,0 +1,28 @@
+import winston from 'winston'
+
+const logLevel = process.env.LOG_LEVEL || 'info'
+const logFormat = process.env.LOG_FORMAT || 'json'
+
+export const logger = winston.createLogger({
+  level: logLevel,
+  format:
+    logFormat === 'json'
+      ? winston.format.combine(
+          winston.format.timestamp(),
+          winston.format.errors({ stack: true }),
+          winston.format.json()
+        )
+      : winston.format.combine(
+          winston.format.colorize(),
+          winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
+          winston.format.printf(({ timestamp, level, message, ...meta }) => {
+            const details = Object.keys(meta).length > 0 ? ` ${JSON.stringify(meta)}` : ''
+            return `${timestamp} [${level}]: ${message}${details}`
+          })
+        ),
+  defaultMeta: {
+    service: 'urfmp-edge-agent',
+    version: process.env.npm_package_version || '1.0.0',
+  },
+  transports: [new winston.transports.Console()],
+})
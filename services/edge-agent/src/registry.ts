@@ -0,0 +1,23 @@
+import { DefaultVendorRegistry } from '@urfmp/types'
+import { adapterPlugin as universalRobotsPlugin } from '@urfmp/adapter-universal-robots'
+import { loadAdapterPlugins, registerAdapterPlugin } from '@urfmp/adapter-loader'
+import { logger } from './logger'
+
+/**
+ * Build the registry of vendor adapters the agent can drive robots with: the bundled Universal
+ * Robots adapter and every adapter package installed next to the agent
+ */
+export function createVendorRegistry(): DefaultVendorRegistry {
+  const registry = new DefaultVendorRegistry()
+  registerAdapterPlugin(registry, universalRobotsPlugin)
+
+  const { loaded, failed } = loadAdapterPlugins({ registry })
+  for (const plugin of loaded) {
+    logger.info('Adapter plugin loaded', plugin)
+  }
+  for (const { packageName, error } of failed) {
+    logger.warn('Adapter plugin failed to load', { packageName, error })
+  }
+
+  return registry
+}
@@ -1,7 +1,10 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { X, Plus } from 'lucide-react'
 import { toast } from 'sonner'
+import type { AdapterDescription } from '@urfmp/sdk'
+import type { VendorConnectionConfig } from '@urfmp/types'
 import { useURFMP } from '@/hooks/useURFMP'
+import { ConnectionFields } from './ConnectionFields'
 
 interface AddRobotModalProps {
   isOpen: boolean
@@ -26,10 +29,31 @@ interface RobotFormData {
   }
 }
 
+// Set a dotted path such as options.unitId without mutating the config
+const setConfigValue = (
+  config: Record<string, any>,
+  [key, ...rest]: string[],
+  value: any
+): Record<string, any> => {
+  const next = { ...config }
+  if (rest.length > 0) {
+    next[key] = setConfigValue(config[key] ?? {}, rest, value)
+  } else if (value === undefined) {
+    delete next[key]
+  } else {
+    next[key] = value
+  }
+  return next
+}
+
 export function AddRobotModal({ isOpen, onClose, onSuccess }: AddRobotModalProps) {
   const { urfmp } = useURFMP()
   const [isLoading, setIsLoading] = useState(false)
   const [errors, setErrors] = useState<Record<string, string>>({})
+  const [adapters, setAdapters] = useState<AdapterDescription[]>([])
+  const [adapterName, setAdapterName] = useState('')
+  const [connection, setConnection] = useState<Record<string, any>>({})
+  const [connectionErrors, setConnectionErrors] = useState<Record<string, string>>({})
   const [formData, setFormData] = useState<RobotFormData>({
     name: '',
     vendor: '',
@@ -47,6 +71,74 @@ export function AddRobotModal({ isOpen, onClose, onSuccess }: AddRobotModalProps
     },
   })
 
+  useEffect(() => {
+    if (!isOpen || !urfmp) return
+
+    urfmp
+      .getAdapters()
+      .then(setAdapters)
+      .catch((error: any) => {
+        // Robots can still be added without a connection
+        console.error('Failed to load adapters:', error)
+        setAdapters([])
+      })
+  }, [isOpen, urfmp])
+
+  const selectedAdapter = adapters.find((adapter) => adapter.name === adapterName)
+
+  const handleAdapterChange = (name: string) => {
+    const adapter = adapters.find((entry) => entry.name === name)
+    setAdapterName(name)
+    setConnection(adapter ? { ...adapter.defaultConfig } : {})
+    setConnectionErrors({})
+  }
+
+  const handleConnectionChange = (field: string, value: any) => {
+    setConnectionErrors((prev) => {
+      const next = { ...prev }
+      for (const errorField of Object.keys(next)) {
+        if (
+          errorField === field ||
+          errorField.startsWith(`${field}.`) ||
+          errorField.startsWith(`${field}[`)
+        ) {
+          delete next[errorField]
+        }
+      }
+      return next
+    })
+    setConnection((prev) => setConfigValue(prev, field.split('.'), value))
+  }
+
+  // The adapter checks the config against its schema, errors come back per field path
+  const validateConnection = async (): Promise<boolean> => {
+    if (!selectedAdapter || !urfmp) return true
+
+    const result = await urfmp.validateAdapterConfig(
+      selectedAdapter.name,
+      connection as VendorConnectionConfig
+    )
+    const newErrors: Record<string, string> = {}
+    for (const error of result.errors) {
+      newErrors[error.field] ??= error.message
+    }
+    setConnectionErrors(newErrors)
+    return result.valid
+  }
+
+  // The edge agent only reads connections from its own config file, so the entry is handed over
+  // for edge-agent.json instead of being stored with the robot
+  const copyAgentEntry = async (robotId: string, adapter: AdapterDescription) => {
+    const entry = { robotId, vendor: adapter.vendor, adapter: adapter.name, connection }
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(entry, null, 2))
+      toast.success('Robot created, add the copied entry to robots in edge-agent.json')
+    } catch (error) {
+      console.error('Failed to copy edge agent entry:', error)
+      toast.success(`Robot created, add it to robots in edge-agent.json with robotId ${robotId}`)
+    }
+  }
+
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {}
 
@@ -121,11 +213,23 @@ export function AddRobotModal({ isOpen, onClose, onSuccess }: AddRobotModalProps
 
     setIsLoading(true)
     try {
-      await urfmp.createRobot(formData)
-      toast.success('Robot created successfully!')
+      if (!(await validateConnection())) {
+        toast.error('Please fix the connection settings')
+        return
+      }
+
+      const robot = await urfmp.createRobot(formData)
+      if (selectedAdapter) {
+        await copyAgentEntry(robot.id, selectedAdapter)
+      } else {
+        toast.success('Robot created successfully!')
+      }
       onSuccess()
       onClose()
       setErrors({})
+      setAdapterName('')
+      setConnection({})
+      setConnectionErrors({})
       setFormData({
         name: '',
         vendor: '',
@@ -356,6 +460,47 @@ export function AddRobotModal({ isOpen, onClose, onSuccess }: AddRobotModalProps
             </div>
           </div>
 
+          {/* Connection */}
+          {adapters.length > 0 && (
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium">Connection</h3>
+              <p className="text-muted-foreground text-xs">
+                The edge agent reads connections from its edge-agent.json. These settings are
+                checked against the adapter and copied as an entry for that file, they are not saved
+                with the robot.
+              </p>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">Adapter</label>
+                <select
+                  value={adapterName}
+                  onChange={(e) => handleAdapterChange(e.target.value)}
+                  className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                >
+                  <option value="">Connect later</option>
+                  {adapters.map((adapter) => (
+                    <option key={adapter.name} value={adapter.name}>
+                      {adapter.description}
+                    </option>
+                  ))}
+                </select>
+                {connectionErrors[''] && (
+                  <p className="text-red-500 text-xs mt-1">{connectionErrors['']}</p>
+                )}
+              </div>
+
+              {selectedAdapter && (
+                <ConnectionFields
+                  key={selectedAdapter.name}
+                  schema={selectedAdapter.configSchema}
+                  config={connection}
+                  errors={connectionErrors}
+                  onChange={handleConnectionChange}
+                />
+              )}
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex justify-end space-x-3 pt-4 border-t">
             <button
@@ -0,0 +1,79 @@
+import { fireEvent, render, screen } from '@testing-library/react'
+import { describe, it, expect, vi } from 'vitest'
+import { ConnectionFields } from './ConnectionFields'
+
+describe('ConnectionFields Component', () => {
+  const schema = {
+    type: 'object',
+    required: ['host', 'port', 'protocol'],
+    properties: {
+      host: { type: 'string', title: 'Host' },
+      port: { type: 'integer', minimum: 1, maximum: 65535, default: 502, title: 'Port' },
+      protocol: { type: 'string', enum: ['modbus', 'tcp'], title: 'Protocol' },
+      authentication: { type: 'object', properties: { type: { type: 'string' } } },
+      options: {
+        type: 'object',
+        required: ['mapping'],
+        properties: {
+          unitId: { type: 'integer', title: 'Unit id' },
+          mapping: { type: 'object', title: 'Register mapping' },
+        },
+      },
+    },
+  }
+
+  const config = { host: '10.0.0.5', port: 502, protocol: 'tcp' }
+
+  it('should render a field per schema property with options flattened', () => {
+    render(<ConnectionFields schema={schema} config={config} errors={{}} onChange={vi.fn()} />)
+
+    expect(screen.getByText('Host *')).toBeInTheDocument()
+    expect(screen.getByText('Unit id')).toBeInTheDocument()
+    expect(screen.getByText('Register mapping *')).toBeInTheDocument()
+    expect(screen.queryByText('authentication')).not.toBeInTheDocument()
+    expect(screen.getByDisplayValue('10.0.0.5')).toBeInTheDocument()
+  })
+
+  it('should report changes by field path', () => {
+    const onChange = vi.fn()
+    render(<ConnectionFields schema={schema} config={config} errors={{}} onChange={onChange} />)
+
+    fireEvent.change(screen.getByDisplayValue('502'), { target: { value: '1502' } })
+    fireEvent.change(screen.getByPlaceholderText('JSON'), {
+      target: { value: '{"registers": {}}' },
+    })
+
+    expect(onChange).toHaveBeenCalledWith('port', 1502)
+    expect(onChange).toHaveBeenCalledWith('options.mapping', { registers: {} })
+  })
+
+  it('should not report JSON fields until they parse', () => {
+    const onChange = vi.fn()
+    render(<ConnectionFields schema={schema} config={config} errors={{}} onChange={onChange} />)
+
+    fireEvent.change(screen.getByPlaceholderText('JSON'), { target: { value: '{"registers":' } })
+
+    expect(onChange).not.toHaveBeenCalled()
+    expect(screen.getByDisplayValue('{"registers":')).toBeInTheDocument()
+  })
+
+  it('should show nested errors under the field holding them', () => {
+    render(
+      <ConnectionFields
+        schema={schema}
+        config={config}
+        errors={{
+          'options.mapping.registers.temp.address':
+            'options.mapping.registers.temp.address is required',
+          port: 'port must be <= 65535',
+        }}
+        onChange={vi.fn()}
+      />
+    )
+
+    expect(
+      screen.getByText('options.mapping.registers.temp.address is required')
+    ).toBeInTheDocument()
+    expect(screen.getByText('port must be <= 65535')).toBeInTheDocument()
+  })
+})
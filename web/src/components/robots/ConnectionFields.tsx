@@ -0,0 +1,193 @@
+import { useState } from 'react'
+
+interface ConnectionFieldsProps {
+  // JSON Schema of the adapter's connection config
+  schema: Record<string, any>
+  config: Record<string, any>
+  // Messages keyed by field path, e.g. options.variables[1].name, shown under the field holding it
+  errors: Record<string, string>
+  onChange: (field: string, value: any) => void
+}
+
+interface SchemaField {
+  path: string
+  label: string
+  required: boolean
+  schema: Record<string, any>
+}
+
+const inputClassName = (error?: string) =>
+  `w-full rounded-md border px-3 py-2 text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 ${
+    error ? 'border-red-500 focus:ring-red-500' : 'border-input bg-background focus:ring-ring'
+  }`
+
+const isObjectSchema = (schema: Record<string, any>) =>
+  schema.type === 'object' && schema.properties !== undefined
+
+const isScalar = (schema: Record<string, any>) =>
+  Array.isArray(schema.enum) || ['string', 'integer', 'number', 'boolean'].includes(schema.type)
+
+const belongsTo = (errorField: string, path: string) =>
+  errorField === path || errorField.startsWith(`${path}.`) || errorField.startsWith(`${path}[`)
+
+const getValue = (config: Record<string, any>, path: string) =>
+  path.split('.').reduce<any>((value, key) => value?.[key], config)
+
+// Top level fields, with the options object flattened so vendor specific settings sit next to host
+// and port. Authentication is configured per organization and left out of the form
+const collectFields = (schema: Record<string, any>): SchemaField[] => {
+  const fields: SchemaField[] = []
+  const required: string[] = schema.required ?? []
+
+  for (const [key, property] of Object.entries<Record<string, any>>(schema.properties ?? {})) {
+    if (key === 'authentication') continue
+
+    if (key === 'options' && isObjectSchema(property)) {
+      const optionsRequired: string[] = property.required ?? []
+      for (const [option, optionSchema] of Object.entries<Record<string, any>>(
+        property.properties
+      )) {
+        fields.push({
+          path: `options.${option}`,
+          label: optionSchema.title ?? option,
+          required: optionsRequired.includes(option),
+          schema: optionSchema,
+        })
+      }
+      continue
+    }
+
+    fields.push({
+      path: key,
+      label: property.title ?? key,
+      required: required.includes(key),
+      schema: property,
+    })
+  }
+
+  return fields
+}
+
+/**
+ * Connection form generated from an adapter's configSchema
+ */
+export function ConnectionFields({ schema, config, errors, onChange }: ConnectionFieldsProps) {
+  // Raw text of the JSON fields while they do not parse yet
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+
+  const handleJsonChange = (path: string, text: string) => {
+    setDrafts((prev) => ({ ...prev, [path]: text }))
+    if (!text.trim()) {
+      onChange(path, undefined)
+      return
+    }
+    try {
+      onChange(path, JSON.parse(text))
+    } catch {
+      // Keep the draft until it is valid JSON
+    }
+  }
+
+  const fieldErrors = (path: string) =>
+    Object.entries(errors)
+      .filter(([field, message]) => message && belongsTo(field, path))
+      .map(([, message]) => message)
+
+  const renderInput = ({ path, label, schema: fieldSchema }: SchemaField) => {
+    const value = getValue(config, path)
+    const error = fieldErrors(path)[0]
+
+    if (Array.isArray(fieldSchema.enum)) {
+      return (
+        <select
+          value={value ?? ''}
+          onChange={(e) => {
+            const option = fieldSchema.enum.find((entry: any) => String(entry) === e.target.value)
+            onChange(path, option)
+          }}
+          className={inputClassName(error)}
+        >
+          <option value="">Select {label.toLowerCase()}</option>
+          {fieldSchema.enum.map((option: any) => (
+            <option key={String(option)} value={String(option)}>
+              {String(option)}
+            </option>
+          ))}
+        </select>
+      )
+    }
+
+    if (fieldSchema.type === 'boolean') {
+      return (
+        <input
+          type="checkbox"
+          checked={value ?? fieldSchema.default ?? false}
+          onChange={(e) => onChange(path, e.target.checked)}
+          className="h-4 w-4 rounded border-input"
+        />
+      )
+    }
+
+    if (fieldSchema.type === 'integer' || fieldSchema.type === 'number') {
+      return (
+        <input
+          type="number"
+          min={fieldSchema.minimum}
+          max={fieldSchema.maximum}
+          step={fieldSchema.type === 'integer' ? 1 : 'any'}
+          value={value ?? ''}
+          onChange={(e) =>
+            onChange(path, e.target.value === '' ? undefined : Number(e.target.value))
+          }
+          className={inputClassName(error)}
+          placeholder={fieldSchema.default !== undefined ? String(fieldSchema.default) : undefined}
+        />
+      )
+    }
+
+    if (fieldSchema.type === 'string') {
+      return (
+        <input
+          type="text"
+          value={value ?? ''}
+          onChange={(e) => onChange(path, e.target.value === '' ? undefined : e.target.value)}
+          className={inputClassName(error)}
+          placeholder={fieldSchema.default}
+        />
+      )
+    }
+
+    // Register maps, variable lists and other structured settings are edited as JSON
+    return (
+      <textarea
+        rows={4}
+        value={drafts[path] ?? (value === undefined ? '' : JSON.stringify(value, null, 2))}
+        onChange={(e) => handleJsonChange(path, e.target.value)}
+        className={`${inputClassName(error)} font-mono`}
+        placeholder="JSON"
+      />
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {collectFields(schema).map((field) => (
+        <div key={field.path} className={isScalar(field.schema) ? undefined : 'md:col-span-2'}>
+          <label className="block text-sm font-medium mb-1">
+            {field.label}
+            {field.required && ' *'}
+          </label>
+          {renderInput(field)}
+          {field.schema.description && (
+            <p className="text-muted-foreground text-xs mt-1">{field.schema.description}</p>
+          )}
+          {fieldErrors(field.path).map((message) => (
+            <p key={message} className="text-red-500 text-xs mt-1">
+              {message}
+            </p>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
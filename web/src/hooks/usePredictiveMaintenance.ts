@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useURFMP } from './useURFMP'
+import type { MaintenancePrediction } from '@urfmp/types'
 
 export interface MaintenanceAlert {
   id: string
@@ -141,80 +142,63 @@ export function usePredictiveMaintenance(): PredictiveMaintenanceData {
       const generatedSchedule: MaintenanceSchedule[] = []
       const generatedComponentHealth: ComponentHealth[] = []
 
-      // Only analyze first robot to minimize API load
-      const robotsToAnalyze = robots.slice(0, 1)
-      console.log(
-        `Predictive Maintenance: analyzing ${robotsToAnalyze.length} of ${robots.length} robots`
-      )
-
-      let rateLimitHit = false
-
-      for (const robot of robotsToAnalyze) {
-        if (rateLimitHit) {
-          console.log('Rate limit hit, skipping remaining robots')
-          break
-        }
-
-        try {
-          // Add significant delay between API calls to avoid hitting rate limits
-          await new Promise((resolve) => setTimeout(resolve, 10000))
-
-          // Get latest telemetry for health analysis
-          let latestTelemetry
-          if (isDemo) {
-            // Generate mock telemetry for demo mode
-            latestTelemetry = {
-              robotId: robot.id,
-              timestamp: new Date(),
-              data: {
-                temperature: {
-                  ambient: 20 + Math.random() * 15,
-                  controller: 30 + Math.random() * 20,
-                },
-                power: { total: 80 + Math.random() * 40 },
-                vibration: { magnitude: Math.random() * 10 },
-                cycles: Math.floor(Math.random() * 10000),
-                operatingHours: Math.floor(Math.random() * 8760),
+      if (isDemo) {
+        // Demo mode has no backend, so derive alerts from simulated telemetry
+        for (const robot of robots) {
+          const latestTelemetry = {
+            robotId: robot.id,
+            timestamp: new Date(),
+            data: {
+              temperature: {
+                ambient: 20 + Math.random() * 15,
+                controller: 30 + Math.random() * 20,
               },
-            }
-          } else {
-            latestTelemetry = await urfmp.getLatestTelemetry(robot.id)
+              power: { total: 80 + Math.random() * 40 },
+              vibration: { magnitude: Math.random() * 10 },
+              cycles: Math.floor(Math.random() * 10000),
+              operatingHours: Math.floor(Math.random() * 8760),
+            },
           }
 
-          // Generate predictive alerts based on telemetry patterns
-          const robotAlerts = generatePredictiveAlerts(robot, latestTelemetry)
-          generatedAlerts.push(...robotAlerts)
-
-          // Generate maintenance schedule
-          const robotSchedule = generateMaintenanceSchedule(robot)
-          generatedSchedule.push(...robotSchedule)
-
-          // Analyze component health
-          const robotComponentHealth = analyzeComponentHealth(robot, latestTelemetry)
-          generatedComponentHealth.push(...robotComponentHealth)
+          generatedAlerts.push(...generatePredictiveAlerts(robot, latestTelemetry))
+          generatedSchedule.push(...generateMaintenanceSchedule(robot))
+          generatedComponentHealth.push(...analyzeComponentHealth(robot, latestTelemetry))
+        }
+      } else {
+        // Predictions are computed server-side from stored telemetry for the whole fleet
+        let predictions: MaintenancePrediction[] = []
+        try {
+          predictions = await urfmp.getMaintenancePredictions({ acknowledged: false, limit: 100 })
         } catch (err) {
-          console.warn(`Failed to analyze maintenance data for robot ${robot.id}:`, err)
+          console.warn('Failed to fetch maintenance predictions:', err)
 
-          // Check for rate limiting and stop immediately
+          // Check for rate limiting and back off
           if (
             (err as any)?.response?.status === 429 ||
             (err as any)?.status === 429 ||
             (err as any)?.message?.includes('429')
           ) {
             console.log('Rate limited detected, stopping all maintenance analysis')
-            rateLimitHit = true
             setError('Rate limited - will retry in 1 hour')
             setLastFetch(now - 1800000 + 3600000) // Set last fetch to force 1 hour delay
-            break
+            return
           }
+        }
 
-          // For non-rate-limit errors, continue with next robot but generate fallback data
-          console.log(`Generating fallback data for robot ${robot.id}`)
-          const fallbackSchedule = generateMaintenanceSchedule(robot)
-          generatedSchedule.push(...fallbackSchedule)
+        console.log(
+          `Predictive Maintenance: ${predictions.length} open predictions across ${robots.length} robots`
+        )
 
-          const fallbackHealth = analyzeComponentHealth(robot, null)
-          generatedComponentHealth.push(...fallbackHealth)
+        for (const robot of robots) {
+          const robotPredictions = predictions.filter((p) => p.robotId === robot.id)
+
+          generatedAlerts.push(...robotPredictions.map((p) => predictionToAlert(p, robot.name)))
+          generatedSchedule.push(...generateMaintenanceSchedule(robot))
+          generatedComponentHealth.push(
+            ...(robotPredictions.length > 0
+              ? robotPredictions.map((p) => predictionToComponentHealth(p, robot.name))
+              : analyzeComponentHealth(robot, null))
+          )
         }
       }
 
@@ -281,6 +265,72 @@ export function usePredictiveMaintenance(): PredictiveMaintenanceData {
   }
 }
 
+// Health score shown for a component with an open prediction of each severity
+const PREDICTION_HEALTH_SCORES: Record<string, number> = {
+  critical: 20,
+  high: 45,
+  medium: 65,
+  low: 80,
+}
+
+function formatComponentName(component: string): string {
+  return component
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+function predictionToAlert(prediction: MaintenancePrediction, robotName: string): MaintenanceAlert {
+  const { recommendation } = prediction
+  const predictedDate = new Date(prediction.predictedFailureDate)
+
+  return {
+    id: prediction.id,
+    robotId: prediction.robotId,
+    robotName,
+    severity: prediction.severity as MaintenanceAlert['severity'],
+    type: 'predictive',
+    component: formatComponentName(prediction.component),
+    description: recommendation.description,
+    predictedDate,
+    daysUntilDue: Math.max(0, Math.ceil(prediction.remainingUsefulLife)),
+    confidence: Math.round(prediction.confidence * 100),
+    recommendation: `${formatComponentName(recommendation.action)} ${recommendation.timeframe}`,
+    estimatedDowntime: (recommendation.estimatedDowntime ?? 0) / 60,
+    estimatedCost: recommendation.estimatedCost ?? 0,
+    createdAt: new Date(prediction.createdAt),
+  }
+}
+
+function predictionToComponentHealth(
+  prediction: MaintenancePrediction,
+  robotName: string
+): ComponentHealth {
+  const temperature = prediction.triggerMetrics.find((metric) =>
+    metric.name.startsWith('temperature')
+  )
+
+  return {
+    robotId: prediction.robotId,
+    robotName,
+    component: formatComponentName(prediction.component),
+    healthScore: PREDICTION_HEALTH_SCORES[prediction.severity] ?? 60,
+    trend: prediction.triggerMetrics.every((metric) => metric.trend === 'stable')
+      ? 'stable'
+      : 'degrading',
+    lastInspection: new Date(prediction.createdAt),
+    nextInspection: new Date(prediction.predictedFailureDate),
+    metrics: temperature ? { temperature: temperature.value } : {},
+    wearIndicators: prediction.triggerMetrics.map((metric) => ({
+      name: metric.name,
+      value: metric.value,
+      threshold: metric.threshold,
+      unit: metric.unit,
+    })),
+    recommendations: [prediction.recommendation.description],
+  }
+}
+
 function generatePredictiveAlerts(robot: any, telemetry: any): MaintenanceAlert[] {
   const alerts: MaintenanceAlert[] = []
   const now = new Date()
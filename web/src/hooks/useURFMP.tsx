@@ -257,10 +257,10 @@ export function URFMPProvider({ children }: URFMPProviderProps) {
 
       const result = await urfmp.sendCommand(robotId, command)
 
-      if (result.success) {
-        toast.success(`Command sent successfully: ${command.type}`)
-      } else {
+      if (String(result.status) === 'failed') {
         toast.error(`Command failed: ${result.error || 'Unknown error'}`)
+      } else {
+        toast.success(`Command queued: ${command.type}`)
       }
     } catch (err) {
       console.error('Failed to send command:', err)
@@ -1,4 +1,13 @@
 // Minimal SDK stub for production build
+export interface AdapterDescription {
+  name: string
+  version: string
+  description: string
+  vendor: string
+  defaultConfig: Record<string, any>
+  configSchema: Record<string, any>
+}
+
 export class URFMP {
   constructor(_config: { apiKey?: string; baseUrl?: string; websocketUrl?: string }) {
     // Demo mode stub
@@ -13,7 +22,7 @@ export class URFMP {
   }
 
   async sendCommand(robotId: string, command: any) {
-    return { success: true }
+    return { id: `demo-command-${Date.now()}`, robotId, type: command.type, status: 'queued' }
   }
 
   async getLatestTelemetry(robotId: string) {
@@ -74,6 +83,18 @@ export class URFMP {
     return { success: true }
   }
 
+  async getMaintenancePredictions(_options: any = {}) {
+    return []
+  }
+
+  async getAdapters(): Promise<AdapterDescription[]> {
+    return []
+  }
+
+  async validateAdapterConfig(_name: string, _config: any) {
+    return { valid: true, errors: [], warnings: [] }
+  }
+
   async acknowledgeAlert(alertId: string) {
     return { success: true }
   }